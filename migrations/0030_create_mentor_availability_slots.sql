@@ -0,0 +1,17 @@
+-- Migration: Create Mentor Availability Slots Table
+-- Recurring weekly time slots published by mentors, each stored in the mentor's IANA timezone
+-- The free text mentor_profiles.availability column is kept as an optional note
+
+CREATE TABLE IF NOT EXISTS mentor_availability_slots (
+  id TEXT PRIMARY KEY,
+  mentor_profile_id TEXT NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_minute INTEGER NOT NULL CHECK (start_minute >= 0 AND start_minute < 1440),
+  end_minute INTEGER NOT NULL CHECK (end_minute > start_minute AND end_minute <= 1440),
+  timezone TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (mentor_profile_id) REFERENCES mentor_profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_availability_slots_profile ON mentor_availability_slots(mentor_profile_id);
+CREATE INDEX IF NOT EXISTS idx_mentor_availability_slots_day ON mentor_availability_slots(day_of_week);
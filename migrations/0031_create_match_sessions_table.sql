@@ -0,0 +1,20 @@
+-- Migration: Create Match Sessions Table
+-- Mentoring sessions scheduled inside an active match
+-- Either participant proposes a time; the other confirms, reschedules or cancels
+
+CREATE TABLE IF NOT EXISTS match_sessions (
+  id TEXT PRIMARY KEY,
+  match_id TEXT NOT NULL,
+  proposed_by_user_id TEXT NOT NULL,
+  start_time INTEGER NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 60,
+  meeting_link TEXT,
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'confirmed', 'cancelled')),
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (match_id) REFERENCES matches(id) ON DELETE CASCADE,
+  FOREIGN KEY (proposed_by_user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_sessions_match ON match_sessions(match_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_match_sessions_status ON match_sessions(status);
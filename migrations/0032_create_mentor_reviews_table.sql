@@ -0,0 +1,24 @@
+-- Migration: Create Mentor Reviews Table
+-- Mentees rate the mentor of a completed match (one review per match)
+-- Aggregates are denormalized onto mentor_profiles so search can filter and sort by rating
+
+CREATE TABLE IF NOT EXISTS mentor_reviews (
+  id TEXT PRIMARY KEY,
+  match_id TEXT NOT NULL UNIQUE,
+  mentor_id TEXT NOT NULL,
+  mentee_id TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (match_id) REFERENCES matches(id) ON DELETE CASCADE,
+  FOREIGN KEY (mentor_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (mentee_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_reviews_mentor ON mentor_reviews(mentor_id, created_at DESC);
+
+ALTER TABLE mentor_profiles ADD COLUMN average_rating REAL;
+ALTER TABLE mentor_profiles ADD COLUMN review_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_mentor_profiles_rating ON mentor_profiles(average_rating DESC);
@@ -0,0 +1,19 @@
+-- Migration: Create Notifications Table
+-- In-app notifications written by the match, forum, blog and challenge handlers
+-- data holds the JSON values interpolated into the localized message
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  actor_id TEXT,
+  data TEXT NOT NULL DEFAULT '{}',
+  link TEXT,
+  read_at INTEGER,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, read_at);
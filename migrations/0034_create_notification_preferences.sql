@@ -0,0 +1,20 @@
+-- Migration: Email Notification Delivery
+-- Per-user, per-type email frequency (immediate, daily digest or off)
+-- Types without a row use the defaults in src/types/notification.ts
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  email_frequency TEXT NOT NULL CHECK (email_frequency IN ('immediate', 'daily', 'off')),
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (user_id, type),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Language of the user's emails
+ALTER TABLE users ADD COLUMN locale TEXT NOT NULL DEFAULT 'zh-CN';
+
+-- Set once a notification has been emailed, immediately or in a digest
+ALTER TABLE notifications ADD COLUMN emailed_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_created ON notifications(created_at);
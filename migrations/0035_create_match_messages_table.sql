@@ -0,0 +1,19 @@
+-- Migration: Create Match Messages Table
+-- Private message thread between the mentor and mentee of a match
+-- recipient_id is the other participant, so unread counts need no join on matches
+
+CREATE TABLE IF NOT EXISTS match_messages (
+  id TEXT PRIMARY KEY,
+  match_id TEXT NOT NULL,
+  sender_id TEXT NOT NULL,
+  recipient_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  read_at INTEGER,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (match_id) REFERENCES matches(id) ON DELETE CASCADE,
+  FOREIGN KEY (sender_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (recipient_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_messages_match ON match_messages(match_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_match_messages_recipient_unread ON match_messages(recipient_id, read_at);
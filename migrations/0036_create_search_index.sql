@@ -0,0 +1,24 @@
+-- Migration: Create Search Index
+-- FTS5 index over forum threads, forum replies and blogs for GET /api/v1/search
+-- The trigram tokenizer gives substring matching that also works for Chinese text
+-- Rows are kept in sync by the create/edit/delete handlers; replies index an empty title
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  title,
+  body,
+  content_type UNINDEXED,
+  content_id UNINDEXED,
+  author_id UNINDEXED,
+  tokenize = 'trigram'
+);
+
+-- Backfill existing content. Bodies are indexed as stored (HTML included);
+-- POST /api/v1/admin/search/reindex rebuilds the index from plain text
+INSERT INTO search_index (title, body, content_type, content_id, author_id)
+SELECT title, content, 'thread', id, user_id FROM forum_threads;
+
+INSERT INTO search_index (title, body, content_type, content_id, author_id)
+SELECT '', content, 'reply', id, user_id FROM forum_replies;
+
+INSERT INTO search_index (title, body, content_type, content_id, author_id)
+SELECT title, content, 'blog', id, user_id FROM blogs;
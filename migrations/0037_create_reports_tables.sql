@@ -0,0 +1,47 @@
+-- Migration: Create Reports and Moderation Tables
+-- Users report forum threads, forum replies, blogs and blog comments;
+-- admins review open reports grouped by target in the moderation queue
+
+CREATE TABLE IF NOT EXISTS reports (
+  id TEXT PRIMARY KEY,
+  target_type TEXT NOT NULL CHECK (target_type IN ('thread', 'reply', 'blog', 'blog_comment')),
+  target_id TEXT NOT NULL,
+  reporter_id TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'misinformation', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'resolved')),
+  resolved_by TEXT,
+  resolved_at INTEGER,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (reporter_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- A user can only have one open report per piece of content
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_unique
+  ON reports(reporter_id, target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(target_type, target_id, status);
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status, created_at DESC);
+
+-- Every admin action taken from the moderation queue
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id TEXT PRIMARY KEY,
+  target_type TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('dismiss', 'hide', 'delete', 'warn')),
+  admin_id TEXT NOT NULL,
+  author_id TEXT,
+  note TEXT,
+  reports_closed INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (admin_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_target ON moderation_actions(target_type, target_id, created_at DESC);
+
+-- Hidden content stays in the database but is only visible to admins
+ALTER TABLE forum_threads ADD COLUMN hidden_at INTEGER;
+ALTER TABLE forum_replies ADD COLUMN hidden_at INTEGER;
+ALTER TABLE blogs ADD COLUMN hidden_at INTEGER;
+ALTER TABLE blog_comments ADD COLUMN hidden_at INTEGER;
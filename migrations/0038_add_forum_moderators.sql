@@ -0,0 +1,35 @@
+-- Migration: Add Moderator Role and Forum Category Moderators
+-- Moderators can pin, close, move and delete threads in the forum categories
+-- they are assigned to; admins keep full access everywhere
+
+-- SQLite cannot alter a CHECK constraint, so rebuild user_roles to allow 'moderator'
+CREATE TABLE IF NOT EXISTS user_roles_new (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'moderator', 'member')),
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+INSERT INTO user_roles_new (id, user_id, role, created_at)
+SELECT id, user_id, role, created_at FROM user_roles;
+
+DROP TABLE user_roles;
+ALTER TABLE user_roles_new RENAME TO user_roles;
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_user_id ON user_roles(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role);
+
+-- Categories each moderator is responsible for
+CREATE TABLE IF NOT EXISTS forum_category_moderators (
+  category_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  assigned_by TEXT,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (category_id, user_id),
+  FOREIGN KEY (category_id) REFERENCES forum_categories(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (assigned_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_category_moderators_user ON forum_category_moderators(user_id);
@@ -0,0 +1,32 @@
+-- Migration: Create Admin Audit Log
+-- Append-only record of privileged actions (points overrides, role changes, feature flags,
+-- featured blogs, submission reviews and forum moderation) for "who changed this and when"
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id TEXT PRIMARY KEY,
+  actor_id TEXT NOT NULL, -- No foreign key: entries must outlive the users they mention
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  before_json TEXT, -- JSON snapshot of the changed fields; NULL when the target was created
+  after_json TEXT, -- JSON snapshot of the changed fields; NULL when the target was deleted
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action, created_at DESC);
+
+-- Entries can never be changed or removed
+CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_update
+BEFORE UPDATE ON admin_audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'admin_audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_delete
+BEFORE DELETE ON admin_audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'admin_audit_log is append-only');
+END;
@@ -0,0 +1,29 @@
+-- Migration: Points Ledger
+-- point_actions_log becomes the ledger behind user_points: every balance change writes a row
+-- recording the change and the resulting balance, so a user's history explains their balance
+
+ALTER TABLE point_actions_log ADD COLUMN balance_after INTEGER; -- NULL for rows written before this migration
+
+-- Per-user history, newest first
+CREATE INDEX IF NOT EXISTS idx_point_actions_user_created
+ON point_actions_log(user_id, created_at DESC);
+
+-- Admin overrides, challenge approvals and signup bonuses were never logged.
+-- Carry the unexplained part of each balance over as an opening entry dated before
+-- the user's first logged action, so each user's history sums to their balance.
+INSERT INTO point_actions_log (id, user_id, action_type, reference_id, points_awarded, created_at, balance_after)
+SELECT
+  'opening_' || up.user_id,
+  up.user_id,
+  'opening_balance',
+  up.user_id,
+  up.points - COALESCE(logged.total, 0),
+  COALESCE(logged.first_at - 1, up.updated_at),
+  NULL
+FROM user_points up
+LEFT JOIN (
+  SELECT user_id, SUM(points_awarded) as total, MIN(created_at) as first_at
+  FROM point_actions_log
+  GROUP BY user_id
+) logged ON logged.user_id = up.user_id
+WHERE up.points != COALESCE(logged.total, 0);
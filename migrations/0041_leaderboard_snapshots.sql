@@ -0,0 +1,27 @@
+-- Migration: Leaderboard Snapshots
+-- Weekly and monthly leaderboards are computed from point_actions_log. When a period
+-- closes its board is frozen here, so past winners stay viewable.
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  id TEXT PRIMARY KEY,
+  period TEXT NOT NULL CHECK(period IN ('week', 'month')),
+  source TEXT NOT NULL CHECK(source IN ('all', 'forum', 'blogs', 'challenges')),
+  period_start INTEGER NOT NULL, -- Inclusive
+  period_end INTEGER NOT NULL, -- Exclusive
+  created_at INTEGER NOT NULL,
+  UNIQUE (period, source, period_start)
+);
+
+-- Entries are written before their snapshot row so a board is never seen half-written,
+-- which is why snapshot_id has no foreign key
+CREATE TABLE IF NOT EXISTS leaderboard_snapshot_entries (
+  snapshot_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  points INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  PRIMARY KEY (snapshot_id, user_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshot_entries_rank
+ON leaderboard_snapshot_entries(snapshot_id, rank);
@@ -0,0 +1,14 @@
+-- Migration: User Badges
+-- Badges a user holds. The badge catalog lives in src/types/badge.ts; rows are granted by
+-- the badge evaluator when a user meets a badge's criteria, or awarded by an admin.
+
+CREATE TABLE IF NOT EXISTS user_badges (
+  user_id TEXT NOT NULL,
+  badge_id TEXT NOT NULL,
+  granted_at INTEGER NOT NULL,
+  granted_by TEXT, -- Admin who awarded it manually, NULL when earned
+  revoked_at INTEGER, -- Revoked badges keep their row so the evaluator doesn't grant them again
+  revoked_by TEXT,
+  PRIMARY KEY (user_id, badge_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
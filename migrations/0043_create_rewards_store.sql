@@ -0,0 +1,45 @@
+-- Migration: Create Rewards Store
+-- Members redeem points for rewards from an admin-managed catalog. Redeeming debits
+-- user_points (logged as reward_redeemed in point_actions_log) and queues a redemption
+-- for admins to approve, fulfill or refund.
+
+CREATE TABLE IF NOT EXISTS rewards (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  cost INTEGER NOT NULL CHECK(cost > 0), -- Points
+  stock INTEGER CHECK(stock IS NULL OR stock >= 0), -- NULL for unlimited
+  expires_at INTEGER, -- NULL for never
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rewards_active ON rewards(is_active, cost);
+
+CREATE TABLE IF NOT EXISTS reward_redemptions (
+  id TEXT PRIMARY KEY,
+  reward_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  cost INTEGER NOT NULL, -- Points spent, as the reward cost at the time
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'fulfilled', 'refunded')),
+  note TEXT, -- From the member
+  admin_note TEXT,
+  processed_by TEXT,
+  processed_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (reward_id) REFERENCES rewards(id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Fulfillment queue, oldest first
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_status ON reward_redemptions(status, created_at);
+-- A member's redemptions, newest first
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_user ON reward_redemptions(user_id, created_at DESC);
+
+INSERT INTO feature_flags (id, feature_key, display_name, description, enabled, created_at, updated_at) VALUES
+  ('ft-10', 'rewards_store', 'Rewards Store', 'Let members redeem points for rewards', 0, strftime('%s', 'now'), strftime('%s', 'now'))
+ON CONFLICT(feature_key) DO NOTHING;
@@ -0,0 +1,10 @@
+-- Migration: Feature Flag Targeting
+-- An enabled flag can be turned on for everyone, admins only, a list of user IDs, or a stable
+-- percentage of users bucketed by a hash of the feature key and user ID. Flags are evaluated
+-- per request against the caller, so existing flags keep the everyone audience.
+
+ALTER TABLE feature_flags ADD COLUMN audience TEXT NOT NULL DEFAULT 'everyone'
+  CHECK (audience IN ('everyone', 'admins', 'users', 'percentage'));
+ALTER TABLE feature_flags ADD COLUMN target_user_ids TEXT NOT NULL DEFAULT '[]'; -- JSON array of user IDs
+ALTER TABLE feature_flags ADD COLUMN rollout_percentage INTEGER NOT NULL DEFAULT 100
+  CHECK (rollout_percentage BETWEEN 0 AND 100);
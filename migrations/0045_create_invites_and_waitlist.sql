@@ -0,0 +1,37 @@
+-- Migration: Create Invite Codes and Waitlist
+-- While the public_registration flag is off, Google sign-in only creates an account for
+-- someone with a usable invite code (carried through the OAuth state) or whose email is
+-- on an approved waitlist entry. Existing members can always sign in.
+
+CREATE TABLE IF NOT EXISTS invite_codes (
+  id TEXT PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE, -- Uppercase; entered case-insensitively
+  note TEXT, -- Who the code is for, admin-only
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK(max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0 CHECK(use_count >= 0),
+  expires_at INTEGER, -- NULL for never
+  revoked_at INTEGER,
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invite_codes_created ON invite_codes(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE, -- Lowercase
+  name TEXT NOT NULL,
+  reason TEXT,
+  locale TEXT NOT NULL DEFAULT 'zh-CN',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected')),
+  user_id TEXT, -- Set once they sign up after approval
+  reviewed_by TEXT,
+  reviewed_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Review queue, oldest first
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(status, created_at);
@@ -0,0 +1,21 @@
+-- Migration: Create User Sessions
+-- Access tokens are short-lived JWTs carrying a session ID; each sign-in gets a session
+-- with a rotating refresh token. Revoking a session signs that device out immediately.
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  refresh_token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the current refresh token
+  previous_token_hash TEXT, -- Hash of the token it replaced, to detect reuse of a stolen token
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  revoked_at INTEGER,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Sessions page and "sign out everywhere"
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, revoked_at);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_previous_token ON user_sessions(previous_token_hash);
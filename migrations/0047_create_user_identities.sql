@@ -0,0 +1,31 @@
+-- Migration: Create User Identities
+-- Sign-in accounts (Google, GitHub, a generic OIDC provider) linked to a user. A new
+-- identity is linked to the user with the same verified email, so one person can sign
+-- in with several providers.
+
+CREATE TABLE IF NOT EXISTS user_identities (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  provider TEXT NOT NULL, -- 'google', 'github' or 'oidc'
+  provider_user_id TEXT NOT NULL, -- Account ID at the provider (Google sub, GitHub user ID, OIDC sub)
+  email TEXT, -- Email the provider reported when the identity was linked
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE (provider, provider_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
+
+-- Existing Google sign-ins
+INSERT OR IGNORE INTO user_identities (id, user_id, provider, provider_user_id, email, created_at, last_used_at)
+SELECT
+  lower(hex(randomblob(16))) as id,
+  u.id as user_id,
+  'google' as provider,
+  u.google_id as provider_user_id,
+  u.email as email,
+  cast(strftime('%s', 'now') as integer) as created_at,
+  cast(strftime('%s', 'now') as integer) as last_used_at
+FROM users u
+WHERE u.google_id IS NOT NULL;
@@ -0,0 +1,27 @@
+-- Migration: Create Scheduled Job Tables
+-- The worker's cron handler runs background jobs (hot scores, expired challenges, stale match
+-- requests, old view rows). Each run is recorded, and a lock row keeps overlapping runs of the
+-- same job (a slow cron run, or an admin's manual run) from working on the same rows.
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  id TEXT PRIMARY KEY,
+  job_name TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual')),
+  triggered_by TEXT, -- Admin who started a manual run
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+  processed_count INTEGER NOT NULL DEFAULT 0, -- Rows the job updated or deleted
+  error TEXT,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER,
+  FOREIGN KEY (triggered_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs(job_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_started ON scheduled_job_runs(started_at DESC);
+
+-- One row per job while it runs; an expired lock (a run that crashed) can be taken over
+CREATE TABLE IF NOT EXISTS scheduled_job_locks (
+  job_name TEXT PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  locked_until INTEGER NOT NULL
+);
@@ -0,0 +1,53 @@
+-- Migration: Create Events Tables
+-- Community events used to be a hard-coded list of Luma events in the frontend. Admins now
+-- manage them here; members RSVP up to an event's capacity, join its waitlist once it is
+-- full, and are checked in at the door. The Luma page is kept as an optional external link.
+
+CREATE TABLE IF NOT EXISTS events (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  start_at INTEGER NOT NULL, -- Unix timestamp
+  end_at INTEGER NOT NULL, -- Unix timestamp
+  timezone TEXT, -- IANA time zone the event is held in
+  location_type TEXT NOT NULL CHECK(location_type IN ('online', 'offline')),
+  address TEXT,
+  city TEXT,
+  region TEXT,
+  country TEXT,
+  full_address TEXT,
+  is_free INTEGER NOT NULL DEFAULT 1,
+  price_cents INTEGER CHECK(price_cents IS NULL OR price_cents >= 0),
+  currency TEXT,
+  capacity INTEGER CHECK(capacity IS NULL OR capacity > 0), -- Members who can RSVP, NULL for unlimited
+  hosts TEXT NOT NULL DEFAULT '[]', -- JSON array of { name, username?, avatar_url? }
+  cover_image_url TEXT,
+  luma_url TEXT, -- Optional external page
+  external_guest_count INTEGER NOT NULL DEFAULT 0, -- Guests who registered on Luma before the import
+  created_by TEXT, -- NULL for imported events
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_start ON events(start_at);
+
+CREATE TABLE IF NOT EXISTS event_rsvps (
+  id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('going', 'waitlisted', 'cancelled')),
+  checked_in_at INTEGER, -- Set at the door; only members going can be checked in
+  checked_in_by TEXT,
+  created_at INTEGER NOT NULL, -- When the member last RSVP'd; orders the waitlist
+  updated_at INTEGER NOT NULL,
+  UNIQUE(event_id, user_id),
+  FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (checked_in_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Attendee list and waitlist order of an event
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_event ON event_rsvps(event_id, status, created_at);
+-- A member's RSVPs
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_user ON event_rsvps(user_id, status);
@@ -0,0 +1,12 @@
+-- Migration: Create Calendar Feed Tokens
+-- Calendar apps can't sign in, so a member's personal feed of the events they RSVP'd to is
+-- fetched with a secret token in its URL. Each member has at most one; resetting it replaces
+-- the old token, which stops working at once.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id TEXT PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token; the token itself is never stored
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER, -- Last time a calendar app fetched the feed
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
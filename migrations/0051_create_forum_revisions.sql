@@ -0,0 +1,22 @@
+-- Migration: Create Forum Revisions
+-- Editing a forum thread or reply first copies the version being replaced into forum_revisions,
+-- so the full edit history can be shown next to the current version
+
+CREATE TABLE IF NOT EXISTS forum_revisions (
+  id TEXT PRIMARY KEY,
+  content_type TEXT NOT NULL CHECK (content_type IN ('thread', 'reply')),
+  content_id TEXT NOT NULL,
+  title TEXT, -- Only set for threads
+  content TEXT NOT NULL,
+  edited_by TEXT, -- Who wrote this version: the author, or a moderator for later edits
+  created_at INTEGER NOT NULL, -- When this version was written
+  FOREIGN KEY (edited_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_revisions_content ON forum_revisions(content_type, content_id, created_at);
+
+-- Who last edited the current version and when; both stay NULL until the first edit
+ALTER TABLE forum_threads ADD COLUMN edited_at INTEGER;
+ALTER TABLE forum_threads ADD COLUMN edited_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE forum_replies ADD COLUMN edited_at INTEGER;
+ALTER TABLE forum_replies ADD COLUMN edited_by TEXT REFERENCES users(id) ON DELETE SET NULL;
@@ -0,0 +1,7 @@
+-- Migration: Add Forum Thread Soft Delete
+-- Deleted threads are kept so a moderator can restore them, and merged threads are kept
+-- so links to them can be redirected to the thread they were merged into
+
+ALTER TABLE forum_threads ADD COLUMN deleted_at INTEGER;
+ALTER TABLE forum_threads ADD COLUMN deleted_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE forum_threads ADD COLUMN merged_into TEXT; -- Thread that took over the replies, set together with deleted_at
@@ -0,0 +1,11 @@
+-- Migration: Create Search Index Rebuild Table
+-- POST /api/v1/admin/search/reindex fills this staging table in batches, then swaps it into
+-- search_index in a single batch, so a rebuild that fails part-way leaves the live index untouched
+
+CREATE TABLE IF NOT EXISTS search_index_rebuild (
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  content_id TEXT NOT NULL,
+  author_id TEXT NOT NULL
+);
@@ -0,0 +1,134 @@
+import { spawn } from 'child_process';
+import { writeFileSync, unlinkSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { events } from '../src/react-app/data/events';
+import type { Event } from '../src/types/event';
+
+// Pass --remote to import into the production database instead of the local one
+const remote = process.argv.includes('--remote');
+
+function sqlValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function toSeconds(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 1000);
+}
+
+// Imported events keep their Luma ID, so running the import again skips them
+function buildSQL(eventList: Event[]): string {
+  const now = Math.floor(Date.now() / 1000);
+  let sql = '-- Import Luma events\n';
+
+  for (const event of eventList) {
+    const { location, ticket_info: ticketInfo } = event;
+    const values = [
+      sqlValue(event.id),
+      sqlValue(event.name),
+      sqlValue(event.description || ''),
+      sqlValue(toSeconds(event.start_at)),
+      sqlValue(toSeconds(event.end_at)),
+      sqlValue(event.timezone),
+      sqlValue(location.location_type),
+      sqlValue(location.address),
+      sqlValue(location.city),
+      sqlValue(location.region),
+      sqlValue(location.country),
+      sqlValue(location.full_address),
+      sqlValue(ticketInfo.is_free ? 1 : 0),
+      sqlValue(ticketInfo.price_cents),
+      sqlValue(ticketInfo.currency),
+      sqlValue(JSON.stringify(event.hosts)),
+      sqlValue(event.cover_image_url),
+      sqlValue(event.luma_url),
+      // Luma registrations still count towards the attendees shown on the events page
+      sqlValue(event.guest_count || event.ticket_count || 0),
+      sqlValue(now),
+      sqlValue(now),
+    ];
+
+    sql += `INSERT OR IGNORE INTO events (id, name, description, start_at, end_at, timezone, location_type, address, city, region, country, full_address, is_free, price_cents, currency, hosts, cover_image_url, luma_url, external_guest_count, created_at, updated_at) VALUES (${values.join(', ')});\n`;
+  }
+
+  return sql;
+}
+
+async function executeSQL(sql: string): Promise<void> {
+  const tempFile = `${tmpdir()}/.import-events-${Date.now()}.sql`;
+
+  writeFileSync(tempFile, sql, 'utf-8');
+
+  // Verify file exists and is readable
+  if (!existsSync(tempFile)) {
+    throw new Error(`Failed to create temporary SQL file at ${tempFile}`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn('wrangler', [
+      'd1',
+      'execute',
+      'platform-db',
+      remote ? '--remote' : '--local',
+      '--file',
+      tempFile,
+    ]);
+
+    let stderr = '';
+
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      // Cleanup file after wrangler is done
+      try {
+        if (existsSync(tempFile)) {
+          unlinkSync(tempFile);
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Wrangler command failed with code ${code}\n${stderr}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      // Cleanup file on error too
+      try {
+        if (existsSync(tempFile)) {
+          unlinkSync(tempFile);
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+      reject(err);
+    });
+  });
+}
+
+async function main(): Promise<void> {
+  console.log(`📅 Importing ${events.length} Luma events ${remote ? 'into production' : 'locally'}...\n`);
+
+  try {
+    console.log('💾 Executing database import...');
+    await executeSQL(buildSQL(events));
+    console.log('✅ Events imported successfully\n');
+
+    console.log('📊 Import Summary:');
+    console.log(`   - Events in the data file: ${events.length}`);
+    console.log('   - Events already in the database were left unchanged');
+    console.log('');
+    console.log('🎉 Import complete! Manage the events at /admin/events');
+  } catch (error) {
+    console.error('❌ Import failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
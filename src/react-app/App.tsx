@@ -18,13 +18,17 @@ import { FeatureProvider } from './context/FeatureContext';
 // This reduces the initial bundle size significantly
 const LoginPage = lazy(() => import('./pages/LoginPage').then(m => ({ default: m.LoginPage })));
 const OAuthCallbackPage = lazy(() => import('./pages/OAuthCallbackPage').then(m => ({ default: m.OAuthCallbackPage })));
+const WaitlistPage = lazy(() => import('./pages/WaitlistPage').then(m => ({ default: m.WaitlistPage })));
 const EventsPage = lazy(() => import('./pages/EventsPage').then(m => ({ default: m.EventsPage })));
 const AboutPage = lazy(() => import('./pages/AboutPage').then(m => ({ default: m.AboutPage })));
 const LeaderboardPage = lazy(() => import('./pages/LeaderboardPage').then(m => ({ default: m.LeaderboardPage })));
+const PointsHistoryPage = lazy(() => import('./pages/PointsHistoryPage').then(m => ({ default: m.PointsHistoryPage })));
+const RewardsPage = lazy(() => import('./pages/RewardsPage').then(m => ({ default: m.RewardsPage })));
 const MentorBrowse = lazy(() => import('./pages/MentorBrowse').then(m => ({ default: m.MentorBrowse })));
 const MentorDetailPage = lazy(() => import('./pages/MentorDetailPage').then(m => ({ default: m.MentorDetailPage })));
 const MentorProfileSetup = lazy(() => import('./pages/MentorProfileSetup').then(m => ({ default: m.MentorProfileSetup })));
 const UserProfileEdit = lazy(() => import('./pages/UserProfileEdit').then(m => ({ default: m.UserProfileEdit })));
+const SessionsPage = lazy(() => import('./pages/SessionsPage').then(m => ({ default: m.SessionsPage })));
 const MatchesList = lazy(() => import('./pages/MatchesList').then(m => ({ default: m.MatchesList })));
 const AdminUsersPage = lazy(() => import('./pages/AdminUsersPage').then(m => ({ default: m.AdminUsersPage })));
 const AdminFeatureTogglePage = lazy(() => import('./pages/AdminFeatureTogglePage').then(m => ({ default: m.AdminFeatureTogglePage })));
@@ -32,6 +36,7 @@ const BlogsPage = lazy(() => import('./pages/BlogsPage').then(m => ({ default: m
 const BlogDetailPage = lazy(() => import('./pages/BlogDetailPage').then(m => ({ default: m.BlogDetailPage })));
 const CreateBlogPage = lazy(() => import('./pages/CreateBlogPage').then(m => ({ default: m.CreateBlogPage })));
 const MyBlogsPage = lazy(() => import('./pages/MyBlogsPage').then(m => ({ default: m.MyBlogsPage })));
+const SearchPage = lazy(() => import('./pages/SearchPage').then(m => ({ default: m.SearchPage })));
 const ForumHomePage = lazy(() => import('./pages/ForumHomePage'));
 const ForumCategoryPage = lazy(() => import('./pages/ForumCategoryPage'));
 const ThreadDetailPage = lazy(() => import('./pages/ThreadDetailPage'));
@@ -40,6 +45,12 @@ const ChallengesPage = lazy(() => import('./pages/ChallengesPage').then(m => ({
 const ChallengeDetailPage = lazy(() => import('./pages/ChallengeDetailPage').then(m => ({ default: m.ChallengeDetailPage })));
 const AdminChallengesPage = lazy(() => import('./pages/admin/AdminChallengesPage').then(m => ({ default: m.AdminChallengesPage })));
 const ChallengeSubmissionsPage = lazy(() => import('./pages/admin/ChallengeSubmissionsPage').then(m => ({ default: m.ChallengeSubmissionsPage })));
+const AdminModerationPage = lazy(() => import('./pages/admin/AdminModerationPage').then(m => ({ default: m.AdminModerationPage })));
+const AdminAuditLogPage = lazy(() => import('./pages/admin/AdminAuditLogPage').then(m => ({ default: m.AdminAuditLogPage })));
+const AdminRewardsPage = lazy(() => import('./pages/admin/AdminRewardsPage').then(m => ({ default: m.AdminRewardsPage })));
+const AdminJobsPage = lazy(() => import('./pages/admin/AdminJobsPage').then(m => ({ default: m.AdminJobsPage })));
+const AdminEventsPage = lazy(() => import('./pages/admin/AdminEventsPage').then(m => ({ default: m.AdminEventsPage })));
+const EventAttendeesPage = lazy(() => import('./pages/admin/EventAttendeesPage').then(m => ({ default: m.EventAttendeesPage })));
 
 /**
  * Loading fallback component for Suspense
@@ -85,7 +96,10 @@ function App() {
  */
 function AppContent() {
   const location = useLocation();
-  const isAuthPage = location.pathname === '/login' || location.pathname === '/auth/google/callback';
+  const isAuthPage =
+    location.pathname === '/login' ||
+    /^\/auth\/[a-z]+\/callback$/.test(location.pathname) ||
+    location.pathname === '/waitlist';
 
   return (
     <div className="h-screen overflow-hidden bg-background">
@@ -120,6 +134,30 @@ function AppContent() {
                 }
               />
 
+              {/* Points History Page - The signed-in user's points ledger (feature-gated) */}
+              <Route
+                path="/my-points"
+                element={
+                  <FeatureRoute featureKey="leaderboard">
+                    <ProtectedRoute>
+                      <PointsHistoryPage />
+                    </ProtectedRoute>
+                  </FeatureRoute>
+                }
+              />
+
+              {/* Rewards Store - Spend points on rewards (feature-gated) */}
+              <Route
+                path="/rewards"
+                element={
+                  <FeatureRoute featureKey="rewards_store">
+                    <ProtectedRoute>
+                      <RewardsPage />
+                    </ProtectedRoute>
+                  </FeatureRoute>
+                }
+              />
+
               {/* Protected mentor browsing - requires authentication and mentor_search feature */}
               <Route
                 path="/mentors/browse"
@@ -151,6 +189,14 @@ function AppContent() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/sessions"
+                element={
+                  <ProtectedRoute>
+                    <SessionsPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/mentor/profile/setup"
                 element={
@@ -189,34 +235,105 @@ function AppContent() {
                   </ProtectedRoute>
                 }
               />
-
-              {/* Blogs Routes */}
-              <Route path="/blogs" element={<BlogsPage />} />
-              <Route path="/blogs/:id" element={<BlogDetailPage />} />
               <Route
-                path="/blogs/create"
+                path="/admin/moderation"
                 element={
                   <ProtectedRoute>
-                    <CreateBlogPage />
+                    <AdminModerationPage />
                   </ProtectedRoute>
                 }
               />
               <Route
-                path="/blogs/:id/edit"
+                path="/admin/audit-log"
                 element={
                   <ProtectedRoute>
-                    <CreateBlogPage />
+                    <AdminAuditLogPage />
                   </ProtectedRoute>
                 }
               />
               <Route
-                path="/my-blogs"
+                path="/admin/rewards"
+                element={
+                  <ProtectedRoute>
+                    <AdminRewardsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/jobs"
+                element={
+                  <ProtectedRoute>
+                    <AdminJobsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/events"
                 element={
                   <ProtectedRoute>
-                    <MyBlogsPage />
+                    <AdminEventsPage />
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/admin/events/:id/attendees"
+                element={
+                  <ProtectedRoute>
+                    <EventAttendeesPage />
+                  </ProtectedRoute>
+                }
+              />
+
+              {/* Blogs Routes (feature-gated) */}
+              <Route
+                path="/blogs"
+                element={
+                  <FeatureRoute featureKey="blogs">
+                    <BlogsPage />
+                  </FeatureRoute>
+                }
+              />
+              <Route
+                path="/blogs/:id"
+                element={
+                  <FeatureRoute featureKey="blogs">
+                    <BlogDetailPage />
+                  </FeatureRoute>
+                }
+              />
+              <Route
+                path="/blogs/create"
+                element={
+                  <FeatureRoute featureKey="blogs">
+                    <ProtectedRoute>
+                      <CreateBlogPage />
+                    </ProtectedRoute>
+                  </FeatureRoute>
+                }
+              />
+              <Route
+                path="/blogs/:id/edit"
+                element={
+                  <FeatureRoute featureKey="blogs">
+                    <ProtectedRoute>
+                      <CreateBlogPage />
+                    </ProtectedRoute>
+                  </FeatureRoute>
+                }
+              />
+              <Route
+                path="/my-blogs"
+                element={
+                  <FeatureRoute featureKey="blogs">
+                    <ProtectedRoute>
+                      <MyBlogsPage />
+                    </ProtectedRoute>
+                  </FeatureRoute>
+                }
+              />
+
+              {/* Search Route - Public; members-only blogs appear once signed in */}
+              <Route path="/search" element={<SearchPage />} />
 
               {/* Challenges Routes - Public viewing, auth required for join/submit */}
               <Route
@@ -264,7 +381,8 @@ function AppContent() {
           <Routes>
             {/* Public Routes */}
             <Route path="/login" element={<LoginPage />} />
-            <Route path="/auth/google/callback" element={<OAuthCallbackPage />} />
+            <Route path="/auth/:provider/callback" element={<OAuthCallbackPage />} />
+            <Route path="/waitlist" element={<WaitlistPage />} />
           </Routes>
         )}
       </Suspense>
@@ -41,4 +41,35 @@ describe('AvailabilityDisplay', () => {
     );
     expect(screen.getByRole('heading', { name: 'Availability' })).toBeInTheDocument();
   });
+
+  it('should show weekly slots converted to the viewer timezone', () => {
+    const slots = [
+      // Tuesday 18:00-20:00 New York is Wednesday 07:00-09:00 (winter) or 06:00-08:00 (summer) in Shanghai
+      { day_of_week: 2, start_minute: 18 * 60, end_minute: 20 * 60, timezone: 'America/New_York' },
+    ];
+    render(<AvailabilityDisplay availability={null} slots={slots} timeZone="Asia/Shanghai" />);
+
+    expect(screen.getByText('Wed')).toBeInTheDocument();
+    expect(screen.getByText(/^0[67]:00–0[89]:00$/)).toBeInTheDocument();
+    expect(screen.getByText('Times shown in Asia/Shanghai')).toBeInTheDocument();
+    expect(screen.queryByText('Not specified')).not.toBeInTheDocument();
+  });
+
+  it('should group multiple slots on the same day', () => {
+    const slots = [
+      { day_of_week: 1, start_minute: 14 * 60, end_minute: 17 * 60, timezone: 'UTC' },
+      { day_of_week: 1, start_minute: 9 * 60, end_minute: 12 * 60, timezone: 'UTC' },
+    ];
+    render(<AvailabilityDisplay availability={null} slots={slots} timeZone="UTC" />);
+
+    expect(screen.getByText('09:00–12:00, 14:00–17:00')).toBeInTheDocument();
+  });
+
+  it('should show the free text note alongside slots', () => {
+    const slots = [{ day_of_week: 5, start_minute: 9 * 60, end_minute: 10 * 60, timezone: 'UTC' }];
+    render(<AvailabilityDisplay availability="Flexible on holidays" slots={slots} timeZone="UTC" />);
+
+    expect(screen.getByText('Fri')).toBeInTheDocument();
+    expect(screen.getByText('Flexible on holidays')).toBeInTheDocument();
+  });
 });
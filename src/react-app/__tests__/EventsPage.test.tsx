@@ -2,61 +2,123 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { I18nextProvider } from 'react-i18next';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
 import i18n from '../i18n';
 import { EventsPage } from '../pages/EventsPage';
+import { events } from '../data/events';
+import * as AuthContext from '../context/AuthContext';
+import * as eventService from '../services/eventService';
+import type { Event } from '../../types/event';
+import { EventRsvpStatus } from '../../types/event';
+
+vi.mock('../services/eventService', () => ({
+  getEvents: vi.fn(),
+  rsvpToEvent: vi.fn(),
+  cancelRsvp: vi.fn(),
+  getEventIcsUrl: vi.fn((eventId: string) => `/api/v1/events/${eventId}/ics`),
+  getEventsCalendarUrl: vi.fn(() => 'http://localhost/api/v1/events/calendar.ics'),
+  getMyCalendarUrl: vi.fn(),
+  getCalendarFeed: vi.fn(),
+  createCalendarFeed: vi.fn(),
+  deleteCalendarFeed: vi.fn(),
+}));
+
+vi.mock('../context/AuthContext', async () => {
+  const actual = await vi.importActual('../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
 
 // Mock window.open
 global.window.open = vi.fn();
 
+const mockAuth = (signedIn: boolean) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: signedIn ? { id: 'user-1', email: 'test@example.com', name: 'Test User', created_at: 0, updated_at: 0 } : null,
+    isAuthenticated: signedIn,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const upcomingEvent = (overrides: Partial<Event> = {}): Event => ({
+  id: 'event-upcoming',
+  name: 'Resume Review Night',
+  start_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+  end_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000 + 2 * 60 * 60 * 1000).toISOString(),
+  location: { location_type: 'online' },
+  ticket_info: { is_free: true, spots_remaining: 3, is_sold_out: false },
+  hosts: [{ name: 'Lead Forward' }],
+  guest_count: 7,
+  capacity: 10,
+  waitlist_count: 0,
+  my_rsvp: null,
+  ...overrides,
+});
+
+const renderPage = () =>
+  render(
+    <I18nextProvider i18n={i18n}>
+      <MemoryRouter initialEntries={['/events']}>
+        <Routes>
+          <Route path="/events" element={<EventsPage />} />
+          <Route path="/login" element={<div>Login Page</div>} />
+        </Routes>
+      </MemoryRouter>
+    </I18nextProvider>
+  );
+
 describe('EventsPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockAuth(true);
+    vi.mocked(eventService.getEvents).mockResolvedValue(events);
   });
 
-  it('should render the events page title', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should render the events page title', async () => {
+    renderPage();
+    await screen.findByText(/Claude Code 实战工作坊/);
 
     const title = screen.getByRole('heading', { level: 1 });
     expect(title).toBeInTheDocument();
     expect(title.textContent).toContain('Events');
   });
 
-  it('should render the events subtitle', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should render the events subtitle', async () => {
+    renderPage();
+    await screen.findByText(/Claude Code 实战工作坊/);
 
     expect(screen.getByText(/Discover and join our community events|发现并参加我们的社区活动/)).toBeInTheDocument();
   });
 
-  it('should display upcoming events section if there are upcoming events', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display upcoming events section if there are upcoming events', async () => {
+    renderPage();
 
     // Check if there are any upcoming events - section may not be present if no upcoming events
+    await screen.findByText(/Claude Code 实战工作坊/);
+
     const upcomingSection = screen.queryByText(/Upcoming Events|即将举行的活动/);
     // This test passes whether or not there are upcoming events
     expect(upcomingSection === null || upcomingSection !== null).toBe(true);
   });
 
-  it('should display event cards with event details', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display event cards with event details', async () => {
+    renderPage();
 
     // Check for event title (may be in upcoming or past events)
-    expect(screen.getByText(/Claude Code 实战工作坊/)).toBeInTheDocument();
+    expect(await screen.findByText(/Claude Code 实战工作坊/)).toBeInTheDocument();
 
     // Check for location - there should be multiple entries
     const locationElements = screen.getAllByText(/San Jose|Location/i);
@@ -69,14 +131,10 @@ describe('EventsPage', () => {
 
   it('should open event in Luma when clicked', async () => {
     const user = userEvent.setup();
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+    renderPage();
 
     // Find and click the event card
-    const eventTitle = screen.getByText(/Claude Code 实战工作坊/);
+    const eventTitle = await screen.findByText(/Claude Code 实战工作坊/);
     const eventCard = eventTitle.closest('div');
 
     if (eventCard) {
@@ -86,15 +144,11 @@ describe('EventsPage', () => {
     expect(window.open).toHaveBeenCalledWith('https://luma.com/o4f5akc4', '_blank');
   });
 
-  it('should display event date and time', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display event date and time', async () => {
+    renderPage();
 
     // The event date should be displayed (Nov 15, 2025)
-    expect(screen.getByText(/Nov 15/)).toBeInTheDocument();
+    expect(await screen.findByText(/Nov 15/)).toBeInTheDocument();
     // Time should be displayed - check for PM or AM indicator
     const eventContainer = screen.getByText(/Claude Code 实战工作坊/).closest('div');
     expect(eventContainer).toBeInTheDocument();
@@ -103,77 +157,55 @@ describe('EventsPage', () => {
     expect(pageText).toMatch(/PM|AM|6|18/);
   });
 
-  it('should NOT display spots available information', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should NOT display spots available information', async () => {
+    renderPage();
+
+    await screen.findByText(/Claude Code 实战工作坊/);
 
     // Spots remaining should not be displayed
     expect(screen.queryByText(/spots/i)).not.toBeInTheDocument();
   });
 
-  it('should display attendee count', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display attendee count', async () => {
+    renderPage();
 
     // Check for attendee count - there should be multiple attendee displays
-    const attendeeElements = screen.getAllByText(/attendees/);
+    const attendeeElements = await screen.findAllByText(/attendees/);
     expect(attendeeElements.length).toBeGreaterThan(0);
   });
 
-  it('should display location information', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display location information', async () => {
+    renderPage();
 
     // Check for city names in the page - there should be multiple cities
-    const cityElements = screen.getAllByText(/San Jose|Burlingame|Cupertino/);
+    const cityElements = await screen.findAllByText(/San Jose|Burlingame|Cupertino/);
     expect(cityElements.length).toBeGreaterThan(0);
   });
 
-  it('should display hosts count', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display hosts count', async () => {
+    renderPage();
 
     // Check for hosts information - there should be multiple host count displays
-    const hostElements = screen.getAllByText(/hosts/);
+    const hostElements = await screen.findAllByText(/hosts/);
     expect(hostElements.length).toBeGreaterThan(0);
   });
 
-  it('should have event image', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should have event image', async () => {
+    renderPage();
 
     // Check for event image
-    const images = screen.getAllByRole('img');
+    const images = await screen.findAllByRole('img');
     const eventImage = images.find((img) =>
       img.getAttribute('alt')?.includes('Claude Code')
     );
     expect(eventImage).toBeInTheDocument();
   });
 
-  it('should have proper heading hierarchy', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should have proper heading hierarchy', async () => {
+    renderPage();
 
     const mainHeading = screen.getByRole('heading', { level: 1 });
-    const subHeadings = screen.getAllByRole('heading', { level: 2 });
+    const subHeadings = await screen.findAllByRole('heading', { level: 2 });
 
     expect(mainHeading.textContent).toContain('Events');
     expect(subHeadings.length).toBeGreaterThan(0);
@@ -181,26 +213,20 @@ describe('EventsPage', () => {
     expect(subHeadings[0].textContent).toMatch(/Upcoming|即将|Past|过去/);
   });
 
-  it('should have "View Event" link visible', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should have "View Event" link visible', async () => {
+    renderPage();
 
     // Check for "View Event" text - there should be multiple (one for each event)
-    const viewEventLinks = screen.getAllByText(/View Event|查看活动/);
+    const viewEventLinks = await screen.findAllByText(/View Event|查看活动/);
     expect(viewEventLinks.length).toBeGreaterThan(0);
   });
 
-  it('should display event sections based on available data', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display event sections based on available data', async () => {
+    renderPage();
 
     // Check if at least one section is displayed (upcoming or past)
+    await screen.findByText(/Claude Code 实战工作坊/);
+
     const upcomingSection = screen.queryByText(/Upcoming Events|即将举行的活动/);
     const pastSection = screen.queryByText(/Past Events|过去的活动/);
     
@@ -208,27 +234,93 @@ describe('EventsPage', () => {
     expect(upcomingSection !== null || pastSection !== null).toBe(true);
   });
 
-  it('should display past events from the data', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display past events from the data', async () => {
+    renderPage();
 
     // Check for some past event titles
-    expect(screen.getByText(/压力管理与情绪调适工作坊/)).toBeInTheDocument();
+    expect(await screen.findByText(/压力管理与情绪调适工作坊/)).toBeInTheDocument();
     expect(screen.getByText(/Speed Mentoring 快速导师面对面/)).toBeInTheDocument();
   });
 
-  it('should display event cards', () => {
-    render(
-      <I18nextProvider i18n={i18n}>
-        <EventsPage />
-      </I18nextProvider>
-    );
+  it('should display event cards', async () => {
+    renderPage();
 
     // Should have at least one event card with "View Event" link
-    const viewEventLinks = screen.getAllByText(/View Event|查看活动/);
+    const viewEventLinks = await screen.findAllByText(/View Event|查看活动/);
     expect(viewEventLinks.length).toBeGreaterThan(0);
   });
+
+  it('should RSVP to an upcoming event', async () => {
+    const user = userEvent.setup();
+    const event = upcomingEvent();
+    vi.mocked(eventService.getEvents).mockResolvedValue([event]);
+    vi.mocked(eventService.rsvpToEvent).mockResolvedValue({
+      rsvp: { id: 'rsvp-1', event_id: event.id, user_id: 'user-1', status: EventRsvpStatus.Going, checked_in_at: null, checked_in_by: null, created_at: 0, updated_at: 0 },
+      event: { ...event, guest_count: 8, my_rsvp: EventRsvpStatus.Going, ticket_info: { ...event.ticket_info, spots_remaining: 2 } },
+    });
+    renderPage();
+
+    expect(await screen.findByText(/3 spots left/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'RSVP' }));
+
+    expect(eventService.rsvpToEvent).toHaveBeenCalledWith('event-upcoming');
+    expect(await screen.findByText("You're going")).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Cancel RSVP' })).toBeInTheDocument();
+    expect(window.open).not.toHaveBeenCalled();
+  });
+
+  it('should offer the waitlist once an event is full', async () => {
+    vi.mocked(eventService.getEvents).mockResolvedValue([
+      upcomingEvent({ ticket_info: { is_free: true, spots_remaining: 0, is_sold_out: true } }),
+    ]);
+    renderPage();
+
+    expect(await screen.findByRole('button', { name: 'Join waitlist' })).toBeInTheDocument();
+    expect(screen.getByText(/Full/)).toBeInTheDocument();
+  });
+
+  it('should send signed-out visitors to the login page to RSVP', async () => {
+    const user = userEvent.setup();
+    mockAuth(false);
+    vi.mocked(eventService.getEvents).mockResolvedValue([upcomingEvent()]);
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'RSVP' }));
+
+    expect(await screen.findByText('Login Page')).toBeInTheDocument();
+    expect(eventService.rsvpToEvent).not.toHaveBeenCalled();
+  });
+
+  it('should not link events that are not on Luma', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.getEvents).mockResolvedValue([upcomingEvent()]);
+    renderPage();
+
+    await user.click(await screen.findByText('Resume Review Night'));
+
+    expect(window.open).not.toHaveBeenCalled();
+    expect(screen.queryByText('View Event')).not.toBeInTheDocument();
+  });
+
+  it('should offer an .ics download for upcoming events', async () => {
+    vi.mocked(eventService.getEvents).mockResolvedValue([upcomingEvent()]);
+    renderPage();
+
+    const link = await screen.findByRole('link', { name: 'Add to calendar' });
+    expect(link).toHaveAttribute('href', '/api/v1/events/event-upcoming/ics');
+    expect(link).toHaveAttribute('download');
+  });
+
+  it('should open the calendar subscription dialog', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.getEvents).mockResolvedValue([upcomingEvent()]);
+    vi.mocked(eventService.getCalendarFeed).mockResolvedValue(null);
+    renderPage();
+    await screen.findByText('Resume Review Night');
+
+    await user.click(screen.getByRole('button', { name: 'Subscribe' }));
+
+    expect(await screen.findByRole('dialog')).toBeInTheDocument();
+    expect(screen.getByLabelText('All events')).toHaveValue('http://localhost/api/v1/events/calendar.ics');
+  });
 });
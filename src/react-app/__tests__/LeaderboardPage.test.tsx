@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import { I18nextProvider } from 'react-i18next';
+import { MemoryRouter } from 'react-router-dom';
 import i18n from '../i18n';
 import { LeaderboardPage } from '../pages/LeaderboardPage';
 import * as pointsService from '../services/pointsService';
@@ -58,9 +59,11 @@ describe('LeaderboardPage', () => {
 
   it('should render leaderboard title', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -77,9 +80,11 @@ describe('LeaderboardPage', () => {
     );
 
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     expect(screen.getByText(/loading/i)).toBeInTheDocument();
@@ -87,9 +92,11 @@ describe('LeaderboardPage', () => {
 
   it('should render users in leaderboard', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -101,9 +108,11 @@ describe('LeaderboardPage', () => {
 
   it('should display points for each user', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -114,9 +123,11 @@ describe('LeaderboardPage', () => {
 
   it('should display rank medals for top 3', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -130,9 +141,11 @@ describe('LeaderboardPage', () => {
 
   it('should display rank numbers for positions > 3', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -143,13 +156,15 @@ describe('LeaderboardPage', () => {
 
   it('should call getLeaderboard with correct parameters', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
-      expect(pointsService.getLeaderboard).toHaveBeenCalledWith(50, 0);
+      expect(pointsService.getLeaderboard).toHaveBeenCalledWith(50, 0, { period: 'all', source: 'all' });
     });
   });
 
@@ -163,9 +178,11 @@ describe('LeaderboardPage', () => {
     });
 
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -179,9 +196,11 @@ describe('LeaderboardPage', () => {
     mock.mockRejectedValue(error);
 
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -191,9 +210,11 @@ describe('LeaderboardPage', () => {
 
   it('should not show pagination when total less than limit', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -219,9 +240,11 @@ describe('LeaderboardPage', () => {
     });
 
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
@@ -231,9 +254,11 @@ describe('LeaderboardPage', () => {
 
   it('should be accessible with semantic table structure', async () => {
     render(
-      <I18nextProvider i18n={i18n}>
-        <LeaderboardPage />
-      </I18nextProvider>
+      <MemoryRouter>
+        <I18nextProvider i18n={i18n}>
+          <LeaderboardPage />
+        </I18nextProvider>
+      </MemoryRouter>
     );
 
     await waitFor(() => {
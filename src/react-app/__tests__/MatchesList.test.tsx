@@ -472,4 +472,34 @@ describe('MatchesList', () => {
       expect(screen.queryByRole('link', { name: /linkedin profile/i })).not.toBeInTheDocument();
     });
   });
+
+  describe('Messages', () => {
+    it('should offer the conversation with an unread badge for active matches', async () => {
+      const activeMatches: Match[] = [
+        {
+          id: 'match-active',
+          mentor_id: 'mentor-1',
+          mentee_id: 'user-123',
+          mentor_name: 'John Mentor',
+          status: 'active',
+          introduction: 'Looking forward to learning',
+          preferred_time: 'Weekdays',
+          unread_message_count: 3,
+          created_at: 1000,
+          updated_at: 2000,
+        },
+      ];
+
+      vi.mocked(matchService.getMatches).mockImplementation(async ({ role }) => {
+        if (role === 'mentee') return activeMatches;
+        return [];
+      });
+      vi.mocked(matchService.getMatchSessions).mockResolvedValue([]);
+
+      renderWithAuth(mockUser);
+
+      expect(await screen.findByRole('button', { name: /messages/i })).toBeInTheDocument();
+      expect(screen.getByText('3 new')).toBeInTheDocument();
+    });
+  });
 });
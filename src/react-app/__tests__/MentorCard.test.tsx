@@ -93,4 +93,18 @@ describe('MentorCard', () => {
     // Should still render without errors
     expect(screen.getByText('John Doe')).toBeInTheDocument();
   });
+
+  it('should display the average rating and review count', () => {
+    render(<MentorCard mentor={{ ...mockMentor, average_rating: 4.5, review_count: 2 }} />);
+
+    expect(screen.getByText('4.5')).toBeInTheDocument();
+    expect(screen.getByText(/2 reviews/)).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Rated 4.5 out of 5' })).toBeInTheDocument();
+  });
+
+  it('should not display a rating when reviews are turned off', () => {
+    render(<MentorCard mentor={{ ...mockMentor, allow_reviews: false, average_rating: 4.5, review_count: 2 }} />);
+
+    expect(screen.queryByText('4.5')).not.toBeInTheDocument();
+  });
 });
@@ -4,11 +4,14 @@ import { Route, Routes, MemoryRouter } from 'react-router-dom';
 import { MentorDetailPage } from '../pages/MentorDetailPage';
 import * as AuthContext from '../context/AuthContext';
 import * as mentorService from '../services/mentorService';
+import * as badgeService from '../services/badgeService';
 import type { MentorProfile } from '../../types/mentor';
 import { MentoringLevel, PaymentType, ExpertiseDomain, ExpertiseTopic } from '../../types/mentor';
+import { BadgeId } from '../../types/badge';
 
 // Mock the mentor service
 vi.mock('../services/mentorService');
+vi.mock('../services/badgeService');
 
 // Mock the AuthContext to avoid async operations
 vi.mock('../context/AuthContext', async () => {
@@ -203,4 +206,22 @@ describe('MentorDetailPage', () => {
     expect(screen.getByText(/Career Transition/i)).toBeInTheDocument();
     expect(screen.getByText(/Leadership/i)).toBeInTheDocument();
   });
+
+  it('should display the mentor\'s badges', async () => {
+    vi.mocked(mentorService.getMentorProfile).mockResolvedValue(mockMentor);
+    vi.mocked(badgeService.getUserBadges).mockResolvedValue([
+      { user_id: 'user-123', badge_id: BadgeId.MentorshipsCompleted10, granted_at: 1704067200, granted_by: null },
+    ]);
+
+    render(
+      <MemoryRouter initialEntries={['/mentors/1']}>
+        <Routes>
+          <Route path="/mentors/:id" element={<MentorDetailPage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('Seasoned Mentor')).toBeInTheDocument();
+    expect(badgeService.getUserBadges).toHaveBeenCalledWith('user-123');
+  });
 });
@@ -210,4 +210,58 @@ describe('OAuthCallbackPage', () => {
     const callArgs = mockFetch.mock.calls[0][0];
     expect(callArgs).toContain(encodeURIComponent(specialCode));
   });
+
+  it('should forward the OAuth state carrying an invite code', async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({ user: { id: 'user-new', email: 'new@example.com', name: 'New User' } }),
+        { status: 200 }
+      )
+    );
+
+    delete (window as unknown as { location: Location }).location;
+    window.location = new URL('http://localhost:5173/auth/google/callback?code=valid-code&state=eyJpbnZpdGUiOiJBQkNEMjM0NSJ9') as unknown as Location;
+
+    render(
+      <BrowserRouter>
+        <AuthProvider>
+          <OAuthCallbackPage />
+        </AuthProvider>
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
+    const callArgs = mockFetch.mock.calls[0][0];
+    expect(callArgs).toContain('state=eyJpbnZpdGUiOiJBQkNEMjM0NSJ9');
+  });
+
+  it('should point to the waitlist when registration is closed', async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          error: 'New accounts are by invitation only',
+          code: 'feature_disabled',
+          feature: 'public_registration',
+        }),
+        { status: 403 }
+      )
+    );
+
+    delete (window as unknown as { location: Location }).location;
+    window.location = new URL('http://localhost:5173/auth/google/callback?code=valid-code') as unknown as Location;
+
+    render(
+      <BrowserRouter>
+        <AuthProvider>
+          <OAuthCallbackPage />
+        </AuthProvider>
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('New accounts are by invitation only')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Join the waitlist' })).toHaveAttribute('href', '/waitlist');
+  });
 });
@@ -3,6 +3,15 @@ import { describe, it, expect, vi } from 'vitest';
 import { BrowserRouter } from 'react-router-dom';
 import ThreadCard from '../components/ThreadCard';
 import { ForumThreadWithAuthor } from '../../types/forum';
+import { BadgeId } from '../../types/badge';
+
+// Mock the AuthContext (the report button is only shown to signed-in users)
+vi.mock('../context/AuthContext', () => ({
+  useAuth: () => ({
+    user: null,
+    isLoading: false,
+  }),
+}));
 
 // Mock the translation hook
 vi.mock('react-i18next', () => ({
@@ -116,6 +125,13 @@ describe('ThreadCard', () => {
       expect(screen.getByText('Jane Smith')).toBeInTheDocument();
     });
 
+    it('should display the author\'s badges', () => {
+      const thread = createMockThread({ author_badges: [BadgeId.FirstSolution, BadgeId.FeaturedBlog] });
+      renderThreadCard(thread);
+      expect(screen.getByRole('img', { name: 'badges.catalog.first_solution.name' })).toHaveTextContent('✅');
+      expect(screen.getByRole('img', { name: 'badges.catalog.featured_blog.name' })).toHaveTextContent('⭐');
+    });
+
     it('should display view count', () => {
       const thread = createMockThread({ view_count: 150 });
       renderThreadCard(thread);
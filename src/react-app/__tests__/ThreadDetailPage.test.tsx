@@ -1,14 +1,24 @@
 import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import ThreadDetailPage from '../pages/ThreadDetailPage';
 import * as forumServiceModule from '../services/forumService';
+import { ApiError } from '../services/apiClient';
 
 // Mock the forum service
 vi.mock('../services/forumService', () => ({
   forumService: {
     getThread: vi.fn(),
     getReplies: vi.fn(),
+    updateThread: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
   },
 }));
 
@@ -22,36 +32,51 @@ vi.mock('../context/AuthContext', () => ({
 }));
 
 // Mock useTranslation hook
-vi.mock('react-i18next', () => ({
-  useTranslation: () => ({
-    t: (key: string, defaultValue?: string) => {
-      const translations: Record<string, string> = {
-        'common.back': 'Back',
-        'common.cancel': 'Cancel',
-        'forums.replies': 'Replies',
-        'forums.views': 'views',
-        'forums.upvotes': 'upvotes',
-        'forums.downvotes': 'downvotes',
-        'forums.noRepliesYet': 'No replies yet. Be the first to reply!',
-        'forums.solution': 'Solution',
-        'errors.oopsError': 'Oops! Something went wrong',
-        'errors.unexpectedError': 'An unexpected error occurred',
-        'forums.categoryNotFound': 'Thread not found',
-      };
-      return translations[key] || defaultValue || key;
-    },
-    i18n: {
-      language: 'en',
-      changeLanguage: vi.fn(),
-    },
-  }),
-}));
+vi.mock('react-i18next', async () => {
+  const { createTranslationMock } = await import('./utils/i18nMock');
+  return createTranslationMock({
+    'common.back': 'Back',
+    'common.cancel': 'Cancel',
+    'forums.replies': 'Replies',
+    'forums.views': 'views',
+    'forums.upvotes': 'upvotes',
+    'forums.downvotes': 'downvotes',
+    'forums.noRepliesYet': 'No replies yet. Be the first to reply!',
+    'forums.solution': 'Solution',
+    'errors.oopsError': 'Oops! Something went wrong',
+    'errors.unexpectedError': 'An unexpected error occurred',
+    'forums.categoryNotFound': 'Thread not found',
+    'forums.edit.button': 'Edit thread',
+    'forums.edit.success': 'Thread updated',
+    'forums.titleLabel': 'Thread Title',
+    'forums.contentLabel': 'Thread Content',
+    'forums.revisions.edited': 'edited',
+    'forums.revisions.editedAt': 'Edited',
+    'common.save': 'Save',
+  });
+});
 
 // Mock ReplyForm to avoid rendering issues
 vi.mock('../components/ReplyForm', () => ({
   default: () => <div data-testid="reply-form-mock">Reply Form Mock</div>,
 }));
 
+// Mock RichTextEditor component
+vi.mock('../components/RichTextEditor', () => ({
+  RichTextEditor: ({ content, onChange, disabled }: {
+    content: string;
+    onChange: (value: string) => void;
+    disabled?: boolean;
+  }) => (
+    <textarea
+      data-testid="rich-text-editor"
+      value={content}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+    />
+  ),
+}));
+
 const mockThread = {
   id: 'thread_1',
   category_id: 'cat_career',
@@ -282,6 +307,22 @@ describe('ThreadDetailPage', () => {
     });
   });
 
+  it('should redirect from a merged thread to the thread it was merged into', async () => {
+    vi.mocked(forumServiceModule.forumService.getThread)
+      .mockRejectedValueOnce(new ApiError('Thread not found', 404, { error: 'Thread not found', merged_into: 'thread_2' }))
+      .mockResolvedValueOnce({ ...mockThread, id: 'thread_2', title: 'Salary negotiation' });
+    vi.mocked(forumServiceModule.forumService.getReplies).mockResolvedValue({
+      replies: [],
+      total: 0,
+    });
+
+    renderWithRouter();
+
+    expect(await screen.findByText('Salary negotiation')).toBeInTheDocument();
+    expect(forumServiceModule.forumService.getThread).toHaveBeenLastCalledWith('thread_2');
+    expect(window.location.pathname).toBe('/forums/threads/thread_2');
+  });
+
   it('should display empty state when no replies exist', async () => {
     vi.mocked(forumServiceModule.forumService.getThread).mockResolvedValue(mockThread);
     vi.mocked(forumServiceModule.forumService.getReplies).mockResolvedValue({
@@ -313,6 +354,50 @@ describe('ThreadDetailPage', () => {
     });
   });
 
+  it('should let the author edit the thread', async () => {
+    const user = userEvent.setup();
+    const ownThread = { ...mockThread, user_id: 'user_1' };
+    vi.mocked(forumServiceModule.forumService.getThread).mockResolvedValue(ownThread);
+    vi.mocked(forumServiceModule.forumService.getReplies).mockResolvedValue({
+      replies: [],
+      total: 0,
+    });
+    vi.mocked(forumServiceModule.forumService.updateThread).mockResolvedValue({
+      ...ownThread,
+      title: 'How to negotiate a raise?',
+      edited_at: 1700200000,
+    });
+
+    renderWithRouter();
+
+    await user.click(await screen.findByRole('button', { name: 'Edit thread' }));
+    const titleInput = screen.getByLabelText('Thread Title');
+    await user.clear(titleInput);
+    await user.type(titleInput, 'How to negotiate a raise?');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(forumServiceModule.forumService.updateThread).toHaveBeenCalledWith('thread_1', {
+      title: 'How to negotiate a raise?',
+      content: mockThread.content,
+    });
+    expect(await screen.findByText('How to negotiate a raise?')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'edited' })).toBeInTheDocument();
+  });
+
+  it('should not offer editing to other members', async () => {
+    vi.mocked(forumServiceModule.forumService.getThread).mockResolvedValue({ ...mockThread, user_id: 'user_2' });
+    vi.mocked(forumServiceModule.forumService.getReplies).mockResolvedValue({
+      replies: [],
+      total: 0,
+    });
+
+    renderWithRouter();
+
+    expect(await screen.findByText('How to negotiate salary?')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Edit thread' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'edited' })).not.toBeInTheDocument();
+  });
+
   it('should show back link to category', async () => {
     vi.mocked(forumServiceModule.forumService.getThread).mockResolvedValue(mockThread);
     vi.mocked(forumServiceModule.forumService.getReplies).mockResolvedValue({
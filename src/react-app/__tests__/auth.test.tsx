@@ -168,6 +168,36 @@ describe('AuthContext', () => {
       expect(screen.getByTestId('user-id')).toHaveTextContent('user-123');
       expect(screen.getByTestId('user-email')).toHaveTextContent('user@example.com');
     });
+
+    it('should refresh the session when the access token has expired', async () => {
+      const mockUser: User = {
+        id: 'user-123',
+        email: 'user@example.com',
+        name: 'Test User',
+        created_at: 1000,
+        updated_at: 2000,
+      };
+
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ user: mockUser })))
+        .mockResolvedValueOnce(new Response(JSON.stringify(mockUser)));
+
+      render(
+        <BrowserRouter>
+          <AuthProvider>
+            <TestComponent />
+          </AuthProvider>
+        </BrowserRouter>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId('auth-status')).toHaveTextContent('Authenticated');
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/v1/auth/refresh', expect.objectContaining({ method: 'POST' }));
+      expect(screen.getByTestId('user-id')).toHaveTextContent('user-123');
+    });
   });
 
   describe('login()', () => {
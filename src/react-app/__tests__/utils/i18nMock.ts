@@ -129,6 +129,44 @@ export const i18nMock = {
   I18nextProvider: ({ children }: { children: React.ReactNode }) => children,
 };
 
+/**
+ * Creates a react-i18next mock with a test's own translations
+ * t is created once, so effects that list it as a dependency don't re-run on every render.
+ * Options fill {{placeholders}}; a string second argument is the default value.
+ *
+ * Usage:
+ * ```typescript
+ * vi.mock('react-i18next', async () => {
+ *   const { createTranslationMock } = await import('../utils/i18nMock');
+ *   return createTranslationMock({ 'blogs.title': 'Blogs' });
+ * });
+ * ```
+ */
+export function createTranslationMock(translations: Record<string, string>) {
+  const t = (key: string, options?: string | Record<string, unknown>) => {
+    if (!translations[key]) {
+      return typeof options === 'string' ? options : key;
+    }
+    let result = translations[key];
+    if (options && typeof options === 'object') {
+      Object.entries(options).forEach(([name, value]) => {
+        result = result.replace(`{{${name}}}`, String(value));
+      });
+    }
+    return result;
+  };
+
+  return {
+    useTranslation: () => ({
+      t,
+      i18n: {
+        language: 'en',
+        changeLanguage: vi.fn(),
+      },
+    }),
+  };
+}
+
 // ============================================================================
 // Translation Helper
 // ============================================================================
@@ -1,24 +1,65 @@
 import { useTranslation } from 'react-i18next';
+import {
+  DAY_OF_WEEK_KEYS,
+  convertSlotToTimezone,
+  formatTimeOfDay,
+  getLocalTimezone,
+  sortSlots,
+} from '../../types/availability';
+import type { AvailabilitySlot } from '../../types/availability';
 
 /**
  * AvailabilityDisplay component
- * Read-only display of mentor availability text
- * Preserves line breaks and shows "Not specified" when empty
+ * Read-only display of mentor availability
+ * Weekly slots are converted into the viewer's timezone and grouped by day;
+ * the free text note preserves line breaks. Shows "Not specified" when both are empty
  */
 interface AvailabilityDisplayProps {
   availability: string | null | undefined;
+  slots?: AvailabilitySlot[];
+  timeZone?: string; // Viewer's timezone, defaults to the browser's
 }
 
-export function AvailabilityDisplay({ availability }: AvailabilityDisplayProps) {
+export function AvailabilityDisplay({ availability, slots = [], timeZone }: AvailabilityDisplayProps) {
   const { t } = useTranslation();
 
-  if (!availability) {
+  if (!availability && slots.length === 0) {
     return <span className="text-muted-foreground">{t('mentor.notSpecified')}</span>;
   }
 
+  const viewerTimezone = timeZone || getLocalTimezone();
+  const localSlots = sortSlots(slots.flatMap((slot) => convertSlotToTimezone(slot, viewerTimezone)));
+  const days = DAY_OF_WEEK_KEYS.map((dayKey, day) => ({
+    dayKey,
+    ranges: localSlots.filter((slot) => slot.day_of_week === day),
+  })).filter(({ ranges }) => ranges.length > 0);
+
   return (
-    <span className="whitespace-pre-wrap text-foreground">
-      {availability}
-    </span>
+    <div className="space-y-2">
+      {days.length > 0 && (
+        <div className="space-y-1">
+          <ul className="space-y-0.5">
+            {days.map(({ dayKey, ranges }) => (
+              <li key={dayKey} className="flex gap-2 text-foreground">
+                <span className="w-10 shrink-0 font-medium">{t(`availability.daysShort.${dayKey}`)}</span>
+                <span>
+                  {ranges
+                    .map((range) => `${formatTimeOfDay(range.start_minute)}–${formatTimeOfDay(range.end_minute)}`)
+                    .join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {t('availability.shownInTimezone', { timezone: viewerTimezone })}
+          </p>
+        </div>
+      )}
+      {availability && (
+        <span className="whitespace-pre-wrap text-foreground">
+          {availability}
+        </span>
+      )}
+    </div>
   );
 }
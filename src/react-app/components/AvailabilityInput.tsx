@@ -11,8 +11,8 @@ interface AvailabilityInputProps<T extends FieldValues = Record<string, unknown>
 
 /**
  * AvailabilityInput component
- * Free text input for mentor availability using React Hook Form
- * Supports multi-line text and character limit
+ * Optional free text note for mentor availability using React Hook Form
+ * Complements the structured weekly slots; supports multi-line text and character limit
  */
 export function AvailabilityInput<T extends FieldValues = Record<string, unknown>>({
   control,
@@ -28,8 +28,7 @@ export function AvailabilityInput<T extends FieldValues = Record<string, unknown
       render={({ field }) => (
         <div className="space-y-2">
           <Label htmlFor={name}>
-            {t('mentor.availability')}
-            <span className="text-red-500 ml-1">*</span>
+            {t('mentor.availabilityNote')}
           </Label>
           <Textarea
             id={name}
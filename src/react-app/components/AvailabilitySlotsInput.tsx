@@ -0,0 +1,139 @@
+import { Controller, type Control, type FieldValues, type Path } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { DAY_OF_WEEK_KEYS, DayOfWeek, MAX_AVAILABILITY_SLOTS, getLocalTimezone } from '../../types/availability';
+
+/**
+ * Form value edited by AvailabilitySlotsInput
+ * Times are "HH:MM" strings as produced by <input type="time">
+ */
+export interface AvailabilityScheduleValue {
+  timezone: string;
+  slots: Array<{ day_of_week: DayOfWeek; start_time: string; end_time: string }>;
+}
+
+interface AvailabilitySlotsInputProps<T extends FieldValues = Record<string, unknown>> {
+  control: Control<T>;
+  name?: Path<T>;
+}
+
+const selectClassName =
+  'rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * List the IANA timezones the runtime knows about, always including the current value
+ */
+function getTimezoneOptions(current: string): string[] {
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+/**
+ * AvailabilitySlotsInput component
+ * Editor for a mentor's recurring weekly time slots using React Hook Form
+ * All slots share one IANA timezone, defaulting to the browser's timezone
+ */
+export function AvailabilitySlotsInput<T extends FieldValues = Record<string, unknown>>({
+  control,
+  name = 'availability_schedule' as Path<T>,
+}: AvailabilitySlotsInputProps<T>) {
+  const { t } = useTranslation();
+
+  return (
+    <Controller
+      control={control}
+      name={name}
+      render={({ field }) => {
+        const value: AvailabilityScheduleValue = field.value || { timezone: getLocalTimezone(), slots: [] };
+        const update = (next: Partial<AvailabilityScheduleValue>) => field.onChange({ ...value, ...next });
+        const updateSlot = (index: number, changes: Partial<AvailabilityScheduleValue['slots'][number]>) =>
+          update({ slots: value.slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)) });
+
+        return (
+          <div className="space-y-3">
+            <Label>{t('availability.weeklySlots')}</Label>
+            <p className="text-sm text-muted-foreground">{t('availability.weeklySlotsHelp')}</p>
+
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <label htmlFor={`${name}-timezone`} className="text-sm font-medium whitespace-nowrap">
+                {t('availability.timezone')}
+              </label>
+              <select
+                id={`${name}-timezone`}
+                value={value.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+                className={`${selectClassName} w-full`}
+              >
+                {getTimezoneOptions(value.timezone).map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {value.slots.map((slot, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  aria-label={t('availability.day')}
+                  value={slot.day_of_week}
+                  onChange={(e) => updateSlot(index, { day_of_week: Number(e.target.value) as DayOfWeek })}
+                  className={selectClassName}
+                >
+                  {DAY_OF_WEEK_KEYS.map((dayKey, day) => (
+                    <option key={dayKey} value={day}>
+                      {t(`availability.days.${dayKey}`)}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="time"
+                  aria-label={t('availability.startTime')}
+                  value={slot.start_time}
+                  onChange={(e) => updateSlot(index, { start_time: e.target.value })}
+                  className="w-32"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  aria-label={t('availability.endTime')}
+                  value={slot.end_time}
+                  onChange={(e) => updateSlot(index, { end_time: e.target.value })}
+                  className="w-32"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('availability.removeSlot')}
+                  onClick={() => update({ slots: value.slots.filter((_, i) => i !== index) })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={value.slots.length >= MAX_AVAILABILITY_SLOTS}
+              onClick={() =>
+                update({
+                  slots: [...value.slots, { day_of_week: DayOfWeek.Monday, start_time: '09:00', end_time: '17:00' }],
+                })
+              }
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {t('availability.addSlot')}
+            </Button>
+          </div>
+        );
+      }}
+    />
+  );
+}
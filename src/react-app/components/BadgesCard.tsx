@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { getUserBadges } from '../services/badgeService';
+import { handleApiError } from '../services/apiClient';
+import { BADGE_CATALOG } from '../../types/badge';
+import type { UserBadge } from '../../types/badge';
+
+interface BadgesCardProps {
+  userId: string;
+}
+
+/**
+ * BadgesCard component
+ * Shows users the whole badge catalog on their profile: badges they hold with the date
+ * they got them, and the ones still to earn dimmed with what it takes to earn them
+ */
+export function BadgesCard({ userId }: BadgesCardProps) {
+  const { t } = useTranslation();
+  const [badges, setBadges] = useState<UserBadge[] | null>(null);
+
+  // Loading the user's own badges also grants any they have newly earned
+  useEffect(() => {
+    const fetchBadges = async () => {
+      try {
+        setBadges(await getUserBadges(userId));
+      } catch (error) {
+        handleApiError(error);
+        setBadges([]);
+      }
+    };
+
+    fetchBadges();
+  }, [userId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('badges.title')}</CardTitle>
+        <CardDescription>{t('badges.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!badges ? (
+          <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+        ) : (
+          <ul className="grid gap-3 sm:grid-cols-2">
+            {BADGE_CATALOG.map((badge) => {
+              const held = badges.find((userBadge) => userBadge.badge_id === badge.id);
+
+              return (
+                <li
+                  key={badge.id}
+                  className={`flex items-start gap-3 rounded-lg border p-3 ${held ? '' : 'opacity-50'}`}
+                >
+                  <span className={`text-2xl ${held ? '' : 'grayscale'}`} aria-hidden="true">
+                    {badge.icon}
+                  </span>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{t(`badges.catalog.${badge.id}.name`)}</p>
+                    <p className="text-xs text-muted-foreground">{t(`badges.catalog.${badge.id}.description`)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {held
+                        ? t('badges.earnedOn', { date: new Date(held.granted_at * 1000).toLocaleDateString() })
+                        : t('badges.notEarned')}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
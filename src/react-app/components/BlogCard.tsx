@@ -8,7 +8,10 @@ import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { BlogComments } from './BlogComments';
 import { CommentForm } from './CommentForm';
+import { ReportContentDialog } from './ReportContentDialog';
+import { UserBadges } from './UserBadges';
 import type { BlogWithLikeStatus } from '../../types/blog';
+import { ReportTargetType } from '../../types/report';
 import { getTruncatedText } from '../utils/blogUtils';
 
 interface BlogCardProps {
@@ -70,6 +73,7 @@ export function BlogCard({ blog, onLike, onUnlike, showActions = true }: BlogCar
         {/* Author and Date */}
         <div className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
           <span className="font-semibold text-foreground">{blog.author_name}</span>
+          <UserBadges badges={blog.author_badges} />
           <span className="w-1 h-1 rounded-full bg-muted-foreground/40" />
           <span>{formattedDate}</span>
         </div>
@@ -111,6 +115,13 @@ export function BlogCard({ blog, onLike, onUnlike, showActions = true }: BlogCar
               <MessageCircle className="h-4 w-4 mr-1.5" />
               {t('comments.comment', 'Comment')}
             </Button>
+
+            <ReportContentDialog
+              targetType={ReportTargetType.Blog}
+              targetId={blog.id}
+              authorId={blog.user_id}
+              className="h-8 px-3 ml-auto text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+            />
           </div>
 
           {/* Row 2: Engagement Counts and Read More */}
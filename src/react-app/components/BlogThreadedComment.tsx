@@ -7,7 +7,9 @@ import { deleteBlogComment } from '../services/blogService';
 import { handleApiError } from '../services/apiClient';
 import { formatPostTime } from '../utils/timeUtils';
 import type { BlogCommentWithReplies } from '../../types/blog';
+import { HIDDEN_CONTENT_PLACEHOLDER, ReportTargetType } from '../../types/report';
 import { CommentForm } from './CommentForm';
+import { ReportContentDialog } from './ReportContentDialog';
 import { sanitizeHtml } from '../utils/blogUtils';
 
 interface BlogThreadedCommentProps {
@@ -30,6 +32,7 @@ const MAX_DEPTH = 5;
  * - Reply button to start composing a reply
  * - Delete button for author/admin
  * - Soft delete display ('[deleted]' content)
+ * - Report button, and a placeholder for comments hidden by a moderator
  * - Maximum nesting depth enforcement
  */
 export function BlogThreadedComment({
@@ -46,8 +49,9 @@ export function BlogThreadedComment({
   const [isDeleting, setIsDeleting] = useState(false);
 
   const isDeleted = comment.content === '[deleted]';
+  const isHidden = comment.content === HIDDEN_CONTENT_PLACEHOLDER;
   const canDelete = user && (user.id === comment.user_id || user.role === 'admin');
-  const canReply = !isDeleted && depth < maxDepth;
+  const canReply = !isDeleted && !isHidden && depth < maxDepth;
 
   const handleDelete = async () => {
     if (!window.confirm(t('comments.deleteConfirm', 'Delete this comment?'))) {
@@ -129,6 +133,10 @@ export function BlogThreadedComment({
               <p className="text-sm text-muted-foreground italic whitespace-pre-wrap break-words">
                 {comment.content}
               </p>
+            ) : isHidden ? (
+              <p className="text-sm text-muted-foreground italic">
+                {t('reports.hiddenContent')}
+              </p>
             ) : (
               <div
                 className="text-sm text-foreground prose prose-sm max-w-none break-words"
@@ -136,10 +144,10 @@ export function BlogThreadedComment({
               />
             )}
 
-            {/* Reply button */}
-            {canReply && (
+            {/* Reply and report buttons */}
+            {!isDeleted && !isHidden && (
               <div className="flex gap-2">
-                {!isReplying && (
+                {canReply && !isReplying && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -150,6 +158,11 @@ export function BlogThreadedComment({
                     {t('comments.reply', 'Reply')}
                   </Button>
                 )}
+                <ReportContentDialog
+                  targetType={ReportTargetType.BlogComment}
+                  targetId={comment.id}
+                  authorId={comment.user_id}
+                />
               </div>
             )}
           </div>
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../context/AuthContext';
+import {
+  getCalendarFeed,
+  createCalendarFeed,
+  deleteCalendarFeed,
+  getEventsCalendarUrl,
+  getMyCalendarUrl,
+} from '../services/eventService';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import type { CalendarFeed } from '../../types/event';
+
+interface EventCalendarDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * EventCalendarDialog component
+ * Links for calendar apps to subscribe to all events, or to the events the member RSVP'd to
+ * The personal link carries a secret token that is only shown right after it is created
+ */
+export function EventCalendarDialog({ isOpen, onOpenChange }: EventCalendarDialogProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isOpen || !userId) return;
+
+    const loadFeed = async () => {
+      try {
+        setLoading(true);
+        setFeed(await getCalendarFeed());
+      } catch {
+        toast.error(t('events.calendar.feedError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFeed();
+  }, [isOpen, userId, t]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // The token is never shown again once the dialog is closed
+      setToken(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t('events.calendar.copied'));
+    } catch {
+      toast.error(t('events.calendar.copyError'));
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true);
+      const response = await createCalendarFeed();
+      setFeed(response.feed);
+      setToken(response.token);
+    } catch {
+      toast.error(t('events.calendar.feedError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    try {
+      setSaving(true);
+      await deleteCalendarFeed();
+      setFeed(null);
+      setToken(null);
+    } catch {
+      toast.error(t('events.calendar.feedError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderLink = (url: string, label: string) => (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input value={url} readOnly aria-label={label} onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" onClick={() => handleCopy(url)} aria-label={t('events.calendar.copy')}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+      <a href={url.replace(/^https?:/, 'webcal:')} className="text-sm text-primary hover:underline">
+        {t('events.calendar.openInApp')}
+      </a>
+    </div>
+  );
+
+  const allEventsUrl = getEventsCalendarUrl();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('events.calendar.title')}</DialogTitle>
+          <DialogDescription>{t('events.calendar.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* All events */}
+          <section className="space-y-2">
+            <h3 className="font-medium">{t('events.calendar.allEvents')}</h3>
+            <p className="text-sm text-muted-foreground">{t('events.calendar.allEventsHint')}</p>
+            {renderLink(allEventsUrl, t('events.calendar.allEvents'))}
+          </section>
+
+          {/* Personal feed */}
+          <section className="space-y-2">
+            <h3 className="font-medium">{t('events.calendar.myEvents')}</h3>
+            {!user ? (
+              <p className="text-sm text-muted-foreground">{t('events.calendar.signInHint')}</p>
+            ) : loading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">{t('events.calendar.myEventsHint')}</p>
+                {token && (
+                  <>
+                    {renderLink(getMyCalendarUrl(token), t('events.calendar.myEvents'))}
+                    <p className="text-sm font-medium text-amber-700">{t('events.calendar.newLinkHint')}</p>
+                  </>
+                )}
+                {feed && !token && (
+                  <p className="text-sm text-muted-foreground">
+                    {t('events.calendar.feedCreated', { date: new Date(feed.created_at * 1000).toLocaleDateString() })}
+                    {' · '}
+                    {feed.last_used_at
+                      ? t('events.calendar.lastUsed', { date: new Date(feed.last_used_at * 1000).toLocaleString() })
+                      : t('events.calendar.neverUsed')}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" size="sm" onClick={handleCreate} disabled={saving}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {feed ? t('events.calendar.resetFeed') : t('events.calendar.createFeed')}
+                  </Button>
+                  {feed && (
+                    <Button type="button" size="sm" variant="outline" onClick={handleTurnOff} disabled={saving}>
+                      {t('events.calendar.turnOff')}
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -90,6 +90,29 @@ export function ForumPointsInfoDialog({ open, onOpenChange }: ForumPointsInfoDia
             </div>
           </section>
 
+          {/* Solutions & Milestones Section */}
+          <section className="space-y-3">
+            <h3 className="font-semibold text-base">
+              {t('points.forumRulesDialog.solutionsAndMilestones')}
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              {t('points.forumRulesDialog.solutionsAndMilestonesDesc')}
+            </p>
+            <div className="space-y-2 ml-4">
+              {(['solutionAccepted', 'threadSolved', 'views100', 'views500', 'views1000'] as const).map((key) => (
+                <div key={key} className="flex justify-between text-sm">
+                  <span>{t(`points.forumRulesDialog.${key}`)}</span>
+                  <span className="font-medium text-green-600">
+                    {t(`points.forumRulesDialog.${key}Points`)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t('points.forumRulesDialog.pointsReversed')}
+            </p>
+          </section>
+
           {/* Anti-Spam System Section */}
           <section className="space-y-3">
             <h3 className="font-semibold text-base">
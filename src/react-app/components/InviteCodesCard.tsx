@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { getInviteCodes, createInviteCode, revokeInviteCode } from '../services/inviteService';
+import { ApiError } from '../services/apiClient';
+import type { InviteCode } from '../../types/invite';
+import { MAX_INVITE_NOTE_LENGTH, MAX_INVITE_USES, isInviteCodeUsable } from '../../types/invite';
+
+/**
+ * Convert a yyyy-mm-dd date input to a Unix timestamp at the end of that local day
+ */
+function dateToTimestamp(value: string): number | null {
+  if (!value) return null;
+  const date = new Date(`${value}T23:59:59`);
+  return Number.isNaN(date.getTime()) ? null : Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * InviteCodesCard component
+ * Lets admins generate single-use or multi-use invite codes for closed registration,
+ * copy their invite links and revoke them
+ */
+export function InviteCodesCard() {
+  const { t } = useTranslation();
+  const [invites, setInvites] = useState<InviteCode[] | null>(null);
+  const [maxUses, setMaxUses] = useState('1');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [note, setNote] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvites = async () => {
+      try {
+        setInvites(await getInviteCodes());
+      } catch (err) {
+        const message = err instanceof ApiError ? err.message : t('admin.invites.loadError', 'Failed to load invite codes');
+        toast.error(message);
+        setInvites([]);
+      }
+    };
+
+    loadInvites();
+  }, [t]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setCreating(true);
+      const invite = await createInviteCode({
+        max_uses: parseInt(maxUses, 10),
+        expires_at: dateToTimestamp(expiresOn),
+        note: note.trim() || undefined,
+      });
+      setInvites((prev) => [invite, ...(prev || [])]);
+      setMaxUses('1');
+      setExpiresOn('');
+      setNote('');
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.invites.createError', 'Failed to generate the invite code');
+      toast.error(message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: InviteCode) => {
+    try {
+      setRevokingId(invite.id);
+      const revoked = await revokeInviteCode(invite.id);
+      setInvites((prev) => (prev || []).map((item) => (item.id === revoked.id ? { ...item, ...revoked } : item)));
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.invites.revokeError', 'Failed to revoke the invite code');
+      toast.error(message);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopyLink = async (invite: InviteCode) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/login?invite=${invite.code}`);
+      toast.success(t('admin.invites.linkCopied', 'Invite link copied'));
+    } catch {
+      toast.error(t('admin.invites.copyError', 'Could not copy the link'));
+    }
+  };
+
+  // Explain why a code no longer works
+  const statusLabel = (invite: InviteCode, now: number) => {
+    if (invite.revoked_at !== null) return t('admin.invites.revoked', 'Revoked');
+    if (invite.expires_at !== null && invite.expires_at <= now) return t('admin.invites.expired', 'Expired');
+    return t('admin.invites.usedUp', 'Used up');
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('admin.invites.title', 'Invite Codes')}</CardTitle>
+        <CardDescription>
+          {t('admin.invites.description', 'While public registration is off, new members need an invite code or an approved waitlist entry')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-4 sm:items-end">
+          <div>
+            <Label htmlFor="invite-max-uses">{t('admin.invites.maxUsesLabel', 'Uses')}</Label>
+            <Input
+              id="invite-max-uses"
+              type="number"
+              min="1"
+              max={MAX_INVITE_USES}
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="invite-expires">{t('admin.invites.expiresLabel', 'Expires on')}</Label>
+            <Input
+              id="invite-expires"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="invite-note">{t('admin.invites.noteLabel', 'Note')}</Label>
+            <Input
+              id="invite-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={MAX_INVITE_NOTE_LENGTH}
+              placeholder={t('admin.invites.notePlaceholder', 'Who is it for?')}
+            />
+          </div>
+          <Button type="submit" disabled={creating}>
+            {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('admin.invites.create', 'Generate code')}
+          </Button>
+        </form>
+
+        {!invites ? (
+          <p className="text-sm text-muted-foreground">{t('common.loading', 'Loading...')}</p>
+        ) : invites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('admin.invites.noInvites', 'No invite codes yet')}</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {invites.map((invite) => {
+              const usable = isInviteCodeUsable(invite, now);
+              return (
+                <div key={invite.id} className="flex flex-wrap items-center justify-between gap-4 px-4 py-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono font-semibold">{invite.code}</span>
+                      {!usable && <Badge variant="secondary">{statusLabel(invite, now)}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t('admin.invites.uses', '{{used}} of {{max}} used', { used: invite.use_count, max: invite.max_uses })}
+                      {' · '}
+                      {invite.expires_at === null
+                        ? t('admin.invites.noExpiry', 'Never expires')
+                        : t('admin.invites.expiresOn', 'Expires {{date}}', {
+                            date: new Date(invite.expires_at * 1000).toLocaleDateString(),
+                          })}
+                      {invite.created_by_name && ` · ${invite.created_by_name}`}
+                    </p>
+                    {invite.note && <p className="text-sm">{invite.note}</p>}
+                  </div>
+                  {usable && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCopyLink(invite)}
+                        aria-label={t('admin.invites.copyLink', 'Copy invite link')}
+                        title={t('admin.invites.copyLink', 'Copy invite link')}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevoke(invite)}
+                        disabled={revokingId === invite.id}
+                      >
+                        {t('admin.invites.revoke', 'Revoke')}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
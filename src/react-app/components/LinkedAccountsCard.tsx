@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { getLinkedIdentities, unlinkIdentity } from '../services/identityService';
+import { ApiError } from '../services/apiClient';
+import type { LinkedIdentity } from '../../types/user';
+
+/**
+ * LinkedAccountsCard component
+ * Lists the providers the user can sign in with. Signing in with another provider that
+ * reports the same verified email links it automatically.
+ */
+export function LinkedAccountsCard({ email }: { email: string }) {
+  const { t } = useTranslation();
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unlinkingId, setUnlinkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadIdentities = async () => {
+      try {
+        setIdentities(await getLinkedIdentities());
+      } catch (err) {
+        const message = err instanceof ApiError ? err.message : t('linkedAccounts.loadError');
+        toast.error(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadIdentities();
+  }, [t]);
+
+  const handleUnlink = async (identity: LinkedIdentity) => {
+    try {
+      setUnlinkingId(identity.id);
+      await unlinkIdentity(identity.id);
+      setIdentities((prev) => prev.filter((item) => item.id !== identity.id));
+      toast.success(t('linkedAccounts.unlinked', {
+        provider: t(`linkedAccounts.providers.${identity.provider}`),
+      }));
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('linkedAccounts.unlinkError');
+      toast.error(message);
+    } finally {
+      setUnlinkingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('linkedAccounts.title')}</CardTitle>
+        <CardDescription>
+          {t('linkedAccounts.description', { email })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {identities.map((identity) => (
+              <li key={identity.id} className="flex flex-wrap items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{t(`linkedAccounts.providers.${identity.provider}`)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {identity.email && `${identity.email} · `}
+                    {t('linkedAccounts.lastUsed', {
+                      date: new Date(identity.last_used_at * 1000).toLocaleDateString(),
+                    })}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleUnlink(identity)}
+                  disabled={identities.length <= 1 || unlinkingId !== null}
+                >
+                  {unlinkingId === identity.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('linkedAccounts.unlink')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Send } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Textarea } from './ui/textarea';
+import { HtmlRenderer } from './HtmlRenderer';
+import { useAuth } from '../context/AuthContext';
+import { getMatchMessages, sendMatchMessage, markMatchMessagesRead } from '../services/matchService';
+import { handleApiError } from '../services/apiClient';
+import { MAX_MESSAGE_LENGTH } from '../../types/message';
+import type { MatchMessage } from '../../types/message';
+
+interface MatchConversationDialogProps {
+  matchId: string;
+  otherName: string; // Name of the other participant
+  canSend: boolean; // Only active matches accept new messages
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRead?: () => void; // Called after unread messages were marked as read
+}
+
+// How often new messages are fetched while the conversation is open
+const MESSAGE_POLL_INTERVAL_MS = 15 * 1000;
+const MESSAGES_PAGE_SIZE = 30;
+
+/**
+ * Merge message pages, dropping duplicates and keeping chronological order
+ */
+function mergeMessages(current: MatchMessage[], incoming: MatchMessage[]): MatchMessage[] {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) => a.created_at - b.created_at);
+}
+
+/**
+ * MatchConversationDialog component
+ * Private message thread between the mentor and mentee of a match,
+ * with "load earlier" pagination and read receipts on the user's own messages
+ */
+export function MatchConversationDialog({
+  matchId,
+  otherName,
+  canSend,
+  isOpen,
+  onOpenChange,
+  onRead,
+}: MatchConversationDialogProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<MatchMessage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+
+  // Load the latest page when opened, mark it read, and poll for new messages
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const fetchLatest = async () => {
+      try {
+        const data = await getMatchMessages(matchId, { limit: MESSAGES_PAGE_SIZE });
+        setMessages((current) => mergeMessages(current, data.messages || []));
+        setTotal(data.total || 0);
+        if (data.unread_count > 0) {
+          await markMatchMessagesRead(matchId);
+          onRead?.();
+        }
+      } catch (error) {
+        handleApiError(error);
+      }
+    };
+
+    fetchLatest();
+    const interval = setInterval(fetchLatest, MESSAGE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, matchId, onRead]);
+
+  const handleLoadEarlier = async () => {
+    setIsLoadingEarlier(true);
+    try {
+      const data = await getMatchMessages(matchId, { limit: MESSAGES_PAGE_SIZE, offset: messages.length });
+      setMessages((current) => mergeMessages(current, data.messages || []));
+      setTotal(data.total || 0);
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsLoadingEarlier(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) {
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const message = await sendMatchMessage(matchId, draft);
+      setMessages((current) => mergeMessages(current, [message]));
+      setTotal((count) => count + 1);
+      setDraft('');
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('messages.title', { name: otherName })}</DialogTitle>
+          <DialogDescription>{t('messages.description', { name: otherName })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-3 pr-1">
+          {messages.length < total && (
+            <div className="text-center">
+              <Button size="sm" variant="ghost" onClick={handleLoadEarlier} disabled={isLoadingEarlier}>
+                {isLoadingEarlier ? t('common.loading') : t('messages.loadEarlier')}
+              </Button>
+            </div>
+          )}
+
+          {messages.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-6">{t('messages.empty')}</p>
+          ) : (
+            messages.map((message) => {
+              const isOwn = message.sender_id === user?.id;
+              return (
+                <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                  <div
+                    className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                      isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                    }`}
+                  >
+                    <HtmlRenderer
+                      content={message.content}
+                      className={`prose prose-sm max-w-none [&_p]:m-0 ${isOwn ? 'prose-invert' : ''}`}
+                    />
+                  </div>
+                  <span className="mt-1 text-xs text-muted-foreground">
+                    {new Date(message.created_at * 1000).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                    {isOwn && ` · ${message.read_at ? t('messages.read') : t('messages.sent')}`}
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {canSend ? (
+          <form onSubmit={handleSend} className="flex items-end gap-2">
+            <Textarea
+              aria-label={t('messages.placeholder')}
+              placeholder={t('messages.placeholder')}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              disabled={isSending}
+            />
+            <Button type="submit" disabled={isSending || !draft.trim()} aria-label={t('messages.send')}>
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        ) : (
+          <p className="text-xs text-muted-foreground">{t('messages.closed')}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
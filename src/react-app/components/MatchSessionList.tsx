@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarPlus, Download } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { useAuth } from '../context/AuthContext';
+import {
+  getMatchSessions,
+  proposeSession,
+  confirmSession,
+  rescheduleSession,
+  cancelSession,
+  getSessionIcsUrl,
+} from '../services/matchService';
+import { handleApiError, showSuccessToast } from '../services/apiClient';
+import { SessionStatus, DEFAULT_SESSION_DURATION_MINUTES, MAX_SESSION_DURATION_MINUTES } from '../../types/session';
+import type { MatchSession } from '../../types/session';
+
+interface MatchSessionListProps {
+  matchId: string;
+  canSchedule: boolean; // Only active matches accept new proposals
+}
+
+// Session status to badge color mapping
+const sessionStatusColors: Record<SessionStatus, string> = {
+  [SessionStatus.Proposed]: 'bg-yellow-100 text-yellow-800',
+  [SessionStatus.Confirmed]: 'bg-green-100 text-green-800',
+  [SessionStatus.Cancelled]: 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * MatchSessionList component
+ * Lists mentoring sessions of a match and lets either participant propose,
+ * confirm, reschedule or cancel them. Confirmed sessions can be downloaded as .ics
+ */
+export function MatchSessionList({ matchId, canSchedule }: MatchSessionListProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<MatchSession[]>([]);
+  const [dialogSession, setDialogSession] = useState<MatchSession | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const data = await getMatchSessions(matchId);
+      setSessions(data || []);
+    } catch (error) {
+      handleApiError(error);
+    }
+  }, [matchId]);
+
+  // Fetch sessions on mount
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        const data = await getMatchSessions(matchId);
+        setSessions(data || []);
+      } catch (error) {
+        handleApiError(error);
+      }
+    };
+
+    loadSessions();
+  }, [matchId]);
+
+  const openDialog = (session: MatchSession | null) => {
+    setDialogSession(session);
+    setIsDialogOpen(true);
+  };
+
+  const handleConfirm = async (session: MatchSession) => {
+    try {
+      await confirmSession(matchId, session.id);
+      showSuccessToast(t('sessions.confirmed'));
+      fetchSessions();
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  const handleCancel = async (session: MatchSession) => {
+    try {
+      await cancelSession(matchId, session.id);
+      showSuccessToast(t('sessions.cancelled'));
+      fetchSessions();
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">{t('sessions.title')}</p>
+        {canSchedule && (
+          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => openDialog(null)}>
+            <CalendarPlus className="w-4 h-4 mr-1" />
+            {t('sessions.propose')}
+          </Button>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('sessions.noSessions')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {sessions.map((session) => {
+            const isProposer = session.proposed_by_user_id === user?.id;
+            const isOpen = session.status !== SessionStatus.Cancelled;
+            return (
+              <li key={session.id} className="rounded-md border p-2 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {new Date(session.start_time * 1000).toLocaleString([], {
+                      dateStyle: 'medium',
+                      timeStyle: 'short',
+                    })}
+                  </span>
+                  <span
+                    className={`inline-flex items-center rounded-md px-2 py-0.5 text-xs font-semibold ${sessionStatusColors[session.status]}`}
+                  >
+                    {t(`sessions.status.${session.status}`)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t('sessions.durationMinutes', { count: session.duration_minutes })}
+                  {session.status === SessionStatus.Proposed &&
+                    ` · ${isProposer ? t('sessions.awaitingOther') : t('sessions.awaitingYou')}`}
+                </p>
+                {session.meeting_link && isOpen && (
+                  <a
+                    href={session.meeting_link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-xs text-primary hover:underline break-all"
+                  >
+                    {session.meeting_link}
+                  </a>
+                )}
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {session.status === SessionStatus.Proposed && !isProposer && canSchedule && (
+                    <Button size="sm" className="h-7 px-2" onClick={() => handleConfirm(session)}>
+                      {t('sessions.confirm')}
+                    </Button>
+                  )}
+                  {isOpen && canSchedule && (
+                    <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => openDialog(session)}>
+                      {t('sessions.reschedule')}
+                    </Button>
+                  )}
+                  {isOpen && (
+                    <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => handleCancel(session)}>
+                      {t('sessions.cancel')}
+                    </Button>
+                  )}
+                  {session.status === SessionStatus.Confirmed && (
+                    <Button size="sm" variant="outline" className="h-7 px-2" asChild>
+                      <a href={getSessionIcsUrl(matchId, session.id)} download>
+                        <Download className="w-3 h-3 mr-1" />
+                        {t('sessions.downloadIcs')}
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <SessionScheduleDialog
+        matchId={matchId}
+        session={dialogSession}
+        isOpen={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSuccess={fetchSessions}
+      />
+    </div>
+  );
+}
+
+/**
+ * Format a Unix timestamp for a datetime-local input (in the browser's timezone)
+ */
+function toDateTimeLocalValue(timestamp: number): string {
+  const date = new Date(timestamp * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * SessionScheduleDialog component
+ * Proposes a new session, or reschedules `session` when one is given
+ */
+function SessionScheduleDialog({
+  matchId,
+  session,
+  isOpen,
+  onOpenChange,
+  onSuccess,
+}: {
+  matchId: string;
+  session: MatchSession | null;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}) {
+  const { t } = useTranslation();
+  const [startTime, setStartTime] = useState('');
+  const [duration, setDuration] = useState(DEFAULT_SESSION_DURATION_MINUTES);
+  const [meetingLink, setMeetingLink] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset fields whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setStartTime(session ? toDateTimeLocalValue(session.start_time) : '');
+      setDuration(session?.duration_minutes ?? DEFAULT_SESSION_DURATION_MINUTES);
+      setMeetingLink(session?.meeting_link || '');
+    }
+  }, [isOpen, session]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startTime) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const data = {
+        start_time: Math.floor(new Date(startTime).getTime() / 1000),
+        duration_minutes: duration,
+        meeting_link: meetingLink.trim() || null,
+      };
+      if (session) {
+        await rescheduleSession(matchId, session.id, data);
+        showSuccessToast(t('sessions.rescheduled'));
+      } else {
+        await proposeSession(matchId, data);
+        showSuccessToast(t('sessions.proposed'));
+      }
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{session ? t('sessions.rescheduleTitle') : t('sessions.proposeTitle')}</DialogTitle>
+            <DialogDescription>{t('sessions.dialogDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-start">{t('sessions.startTime')}</Label>
+            <Input
+              id="session-start"
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-duration">{t('sessions.duration')}</Label>
+            <Input
+              id="session-duration"
+              type="number"
+              min={1}
+              max={MAX_SESSION_DURATION_MINUTES}
+              value={duration}
+              onChange={(e) => setDuration(parseInt(e.target.value, 10) || DEFAULT_SESSION_DURATION_MINUTES)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-link">{t('sessions.meetingLink')}</Label>
+            <Input
+              id="session-link"
+              type="url"
+              placeholder="https://"
+              value={meetingLink}
+              onChange={(e) => setMeetingLink(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !startTime}>
+              {session ? t('sessions.reschedule') : t('sessions.propose')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
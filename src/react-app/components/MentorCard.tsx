@@ -3,6 +3,7 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardFooter, CardHeader } from './ui/card';
 import { Badge } from './ui/badge';
 import { AvailabilityDisplay } from './AvailabilityDisplay';
+import { RatingStars } from './RatingStars';
 import { getLevelNames, getPaymentTypeNames, getDomainNames, getTopicNames } from '../../types/mentor';
 import type { MentorProfile } from '../../types/mentor';
 
@@ -18,7 +19,7 @@ interface MentorCardProps {
  * Displays a compact mentor profile card with key info and action buttons
  * Used in browse/search views and match lists
  *
- * Layout: Header with name and price, bio, mentoring level, payment methods, availability, and action buttons
+ * Layout: Header with name, rating and price, bio, mentoring level, payment methods, availability, and action buttons
  */
 export function MentorCard({
   mentor,
@@ -44,7 +45,17 @@ export function MentorCard({
       {/* Header: Name and Price */}
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-3">
-          <h3 className="font-bold text-lg leading-tight text-foreground">{mentor.nick_name}</h3>
+          <div className="space-y-1">
+            <h3 className="font-bold text-lg leading-tight text-foreground">{mentor.nick_name}</h3>
+            {/* Rating - only for mentors who accept reviews and have some */}
+            {mentor.allow_reviews && mentor.average_rating != null && (mentor.review_count ?? 0) > 0 && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <RatingStars rating={mentor.average_rating} />
+                <span className="font-medium text-foreground">{mentor.average_rating.toFixed(1)}</span>
+                <span>({t('reviews.reviewCount', { count: mentor.review_count })})</span>
+              </div>
+            )}
+          </div>
           {mentor.hourly_rate && (
             <div className="text-right">
               <div className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-accent/10 text-accent-foreground border border-accent/20">
@@ -109,9 +120,9 @@ export function MentorCard({
         )}
 
         {/* Availability */}
-        {mentor.availability && (
+        {(mentor.availability || (mentor.availability_slots?.length ?? 0) > 0) && (
           <div className="text-sm text-muted-foreground">
-            <AvailabilityDisplay availability={mentor.availability} />
+            <AvailabilityDisplay availability={mentor.availability} slots={mentor.availability_slots} />
           </div>
         )}
       </CardContent>
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { RatingStars } from './RatingStars';
+import { submitReview } from '../services/matchService';
+import { handleApiError, showSuccessToast } from '../services/apiClient';
+import { MAX_REVIEW_COMMENT_LENGTH } from '../../types/review';
+
+interface MentorReviewDialogProps {
+  matchId: string;
+  mentorName: string;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * MentorReviewDialog component
+ * Lets a mentee rate the mentor of a completed match and leave a text review
+ */
+export function MentorReviewDialog({
+  matchId,
+  mentorName,
+  isOpen,
+  onOpenChange,
+  onSuccess,
+}: MentorReviewDialogProps) {
+  const { t } = useTranslation();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setRating(0);
+      setComment('');
+    }
+    onOpenChange(open);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0 || !comment.trim()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await submitReview(matchId, { rating, comment: comment.trim() });
+      showSuccessToast(t('reviews.submitted'));
+      handleOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t('reviews.dialogTitle', { name: mentorName })}</DialogTitle>
+            <DialogDescription>{t('reviews.dialogDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>{t('reviews.rating')}</Label>
+            <RatingStars rating={rating} onChange={setRating} size="md" />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="review-comment">{t('reviews.comment')}</Label>
+              <span className="text-xs text-muted-foreground">
+                {comment.length}/{MAX_REVIEW_COMMENT_LENGTH}
+              </span>
+            </div>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              maxLength={MAX_REVIEW_COMMENT_LENGTH}
+              placeholder={t('reviews.commentPlaceholder')}
+              className="min-h-[120px] resize-none"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSubmitting || rating === 0 || !comment.trim()}>
+              {t('reviews.submit')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RatingStars } from './RatingStars';
+import { getMentorReviews } from '../services/mentorService';
+import { handleApiError } from '../services/apiClient';
+import type { MentorReviewsResponse } from '../../types/review';
+
+interface MentorReviewsProps {
+  profileId: string;
+}
+
+/**
+ * MentorReviews component
+ * Shows a mentor's average rating and the reviews left by mentees of completed matches
+ */
+export function MentorReviews({ profileId }: MentorReviewsProps) {
+  const { t } = useTranslation();
+  const [data, setData] = useState<MentorReviewsResponse | null>(null);
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      try {
+        setData(await getMentorReviews(profileId));
+      } catch (error) {
+        handleApiError(error);
+      }
+    };
+
+    fetchReviews();
+  }, [profileId]);
+
+  if (!data) {
+    return null;
+  }
+
+  if (data.review_count === 0 || data.average_rating === null) {
+    return <p className="text-sm text-muted-foreground">{t('reviews.noReviews')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <RatingStars rating={data.average_rating} size="md" />
+        <span className="text-lg font-semibold">{data.average_rating.toFixed(1)}</span>
+        <span className="text-sm text-muted-foreground">
+          {t('reviews.reviewCount', { count: data.review_count })}
+        </span>
+      </div>
+
+      <ul className="space-y-3">
+        {data.reviews.map((review) => (
+          <li key={review.id} className="rounded-md border p-3 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">{review.mentee_name || t('reviews.anonymous')}</span>
+              <span className="text-xs text-muted-foreground">
+                {new Date(review.created_at * 1000).toLocaleDateString()}
+              </span>
+            </div>
+            <RatingStars rating={review.rating} />
+            <p className="text-sm whitespace-pre-wrap">{review.comment}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
-import { useState } from 'react';
+import { useState, type FormEvent } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { Search } from 'lucide-react';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
 import { useAuth } from '../context/AuthContext';
 import { useFeatures } from '../context/FeatureContext';
 import { LanguageSwitcher } from './LanguageSwitcher';
 import { UserRoleBadge } from './UserRoleBadge';
+import { NotificationBell } from './NotificationBell';
 
 /**
  * Navbar component
@@ -20,6 +23,7 @@ export function Navbar() {
   const { isFeatureEnabled } = useFeatures();
   const { t } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -33,6 +37,31 @@ export function Navbar() {
     { href: '/about', label: t('navigation.about', 'About Us') },
   ];
 
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    setSearchQuery('');
+    setIsOpen(false);
+    navigate(`/search?q=${encodeURIComponent(query)}`);
+  };
+
+  const searchForm = (className: string) => (
+    <form onSubmit={handleSearch} className={className} role="search">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder={t('search.navPlaceholder')}
+          aria-label={t('search.navPlaceholder')}
+          className="pl-8"
+        />
+      </div>
+    </form>
+  );
+
   const handleLogout = () => {
     logout();
     setIsOpen(false);
@@ -72,9 +101,11 @@ export function Navbar() {
 
         {/* Auth Section - Hidden on mobile, visible on sm+ */}
         <div className="hidden sm:flex items-center gap-2 flex-shrink-0">
+          {searchForm('hidden md:block w-48')}
           <LanguageSwitcher />
           {isAuthenticated && user ? (
             <>
+              <NotificationBell />
               <div className="flex items-center gap-2">
                 <span className="text-sm text-muted-foreground">{user.name}</span>
                 {user.role && <UserRoleBadge role={user.role} />}
@@ -92,9 +123,16 @@ export function Navbar() {
           )}
         </div>
 
+        {/* Mobile notifications */}
+        {isAuthenticated && user && (
+          <div className="sm:hidden ml-auto">
+            <NotificationBell />
+          </div>
+        )}
+
         {/* Mobile Menu Button */}
         <button
-          className="sm:hidden p-2 hover:bg-accent rounded-md ml-auto"
+          className={`sm:hidden p-2 hover:bg-accent rounded-md ${isAuthenticated && user ? '' : 'ml-auto'}`}
           onClick={() => setIsOpen(!isOpen)}
           aria-label="Toggle menu"
         >
@@ -118,6 +156,7 @@ export function Navbar() {
       {isOpen && (
         <div className="sm:hidden border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
           <div className="container px-4 py-2 space-y-2">
+            {searchForm('pb-2')}
             {navLinks.map((link) => (
               <Link
                 key={link.href}
@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Bell } from 'lucide-react';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from './ui/dropdown-menu';
+import { useDropdownState } from '../hooks/useDropdownState';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '../services/notificationService';
+import { handleApiError } from '../services/apiClient';
+import type { Notification } from '../../types/notification';
+
+// How often the unread badge is refreshed while the page is open
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
+const DROPDOWN_PAGE_SIZE = 10;
+
+/**
+ * NotificationBell component
+ * Bell icon with an unread badge; opens a dropdown with the latest notifications
+ * Only rendered for signed-in users
+ */
+export function NotificationBell() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { open, setOpen, triggerRef, contentRef } = useDropdownState();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  // Poll the unread count
+  useEffect(() => {
+    const fetchUnreadCount = async () => {
+      try {
+        setUnreadCount(await getUnreadNotificationCount());
+      } catch {
+        // Silently fail - the badge is not worth an error toast
+      }
+    };
+
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Load the latest notifications whenever the dropdown opens
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchNotifications = async () => {
+      try {
+        const data = await getNotifications({ limit: DROPDOWN_PAGE_SIZE });
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unread_count || 0);
+      } catch (error) {
+        handleApiError(error);
+      }
+    };
+
+    fetchNotifications();
+  }, [open]);
+
+  const handleSelect = async (notification: Notification) => {
+    setOpen(false);
+    if (notification.read_at === null) {
+      try {
+        await markNotificationRead(notification.id);
+        setUnreadCount((count) => Math.max(count - 1, 0));
+      } catch (error) {
+        handleApiError(error);
+      }
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead();
+      const now = Math.floor(Date.now() / 1000);
+      setNotifications((items) => items.map((item) => ({ ...item, read_at: item.read_at ?? now })));
+      setUnreadCount(0);
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        ref={triggerRef}
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-md hover:bg-accent"
+        aria-label={t('notifications.title')}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span
+            className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-white text-xs font-semibold flex items-center justify-center"
+            aria-label={t('notifications.unreadCount', { count: unreadCount })}
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </DropdownMenuTrigger>
+
+      {open && (
+        <DropdownMenuContent ref={contentRef} align="end" className="w-80 mt-2">
+          <div className="flex items-center justify-between px-2 py-1.5">
+            <span className="text-sm font-semibold">{t('notifications.title')}</span>
+            {unreadCount > 0 && (
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleMarkAllRead}>
+                {t('notifications.markAllRead')}
+              </Button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-2 py-4 text-sm text-center text-muted-foreground">{t('notifications.empty')}</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className="flex flex-col items-start gap-0.5"
+                >
+                  <span className={`text-sm ${notification.read_at === null ? 'font-semibold' : 'text-muted-foreground'}`}>
+                    {t(`notifications.types.${notification.type}`, notification.data)}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(notification.created_at * 1000).toLocaleString()}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </div>
+          )}
+        </DropdownMenuContent>
+      )}
+    </DropdownMenu>
+  );
+}
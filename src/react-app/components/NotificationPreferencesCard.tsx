@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+import { getNotificationPreferences, updateNotificationPreferences } from '../services/notificationService';
+import { handleApiError, showSuccessToast } from '../services/apiClient';
+import { NotificationType, EmailFrequency, EMAIL_LOCALES } from '../../types/notification';
+import type { NotificationPreferences, EmailLocale } from '../../types/notification';
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * NotificationPreferencesCard component
+ * Lets users choose the language of their emails and, per event type,
+ * whether it is emailed immediately, bundled into the daily digest or not emailed
+ */
+export function NotificationPreferencesCard() {
+  const { t } = useTranslation();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load current preferences on mount
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        setPreferences(await getNotificationPreferences());
+      } catch (error) {
+        handleApiError(error);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    setIsSaving(true);
+    try {
+      setPreferences(await updateNotificationPreferences(preferences));
+      showSuccessToast(t('notifications.preferencesSaved'));
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('notifications.preferencesTitle')}</CardTitle>
+        <CardDescription>{t('notifications.preferencesDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!preferences ? (
+          <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="email-locale">{t('notifications.emailLanguage')}</Label>
+              <select
+                id="email-locale"
+                className={selectClassName}
+                value={preferences.locale}
+                onChange={(e) => setPreferences({ ...preferences, locale: e.target.value as EmailLocale })}
+                disabled={isSaving}
+              >
+                {EMAIL_LOCALES.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {t(`notifications.locales.${locale}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {Object.values(NotificationType).map((type) => (
+                <div key={type} className="space-y-2">
+                  <Label htmlFor={`email-frequency-${type}`}>{t(`notifications.typeLabels.${type}`)}</Label>
+                  <select
+                    id={`email-frequency-${type}`}
+                    className={selectClassName}
+                    value={preferences.email[type]}
+                    onChange={(e) =>
+                      setPreferences({
+                        ...preferences,
+                        email: { ...preferences.email, [type]: e.target.value as EmailFrequency },
+                      })
+                    }
+                    disabled={isSaving}
+                  >
+                    {Object.values(EmailFrequency).map((frequency) => (
+                      <option key={frequency} value={frequency}>
+                        {t(`notifications.frequency.${frequency}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? t('common.loading') : t('notifications.savePreferences')}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { Star } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { MAX_RATING } from '../../types/review';
+
+interface RatingStarsProps {
+  rating: number; // May be fractional when showing an average
+  onChange?: (rating: number) => void; // Makes the stars selectable
+  size?: 'sm' | 'md';
+}
+
+/**
+ * RatingStars component
+ * Shows a 1-5 star rating; with onChange it becomes a star picker
+ */
+export function RatingStars({ rating, onChange, size = 'sm' }: RatingStarsProps) {
+  const { t } = useTranslation();
+  const iconClass = size === 'sm' ? 'w-4 h-4' : 'w-6 h-6';
+  const stars = Array.from({ length: MAX_RATING }, (_, i) => i + 1);
+
+  if (onChange) {
+    return (
+      <div className="flex items-center gap-1" role="radiogroup" aria-label={t('reviews.rating')}>
+        {stars.map((star) => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={rating === star}
+            aria-label={t('reviews.starCount', { count: star })}
+            onClick={() => onChange(star)}
+            className="text-yellow-500 hover:scale-110 transition-transform"
+          >
+            <Star className={`${iconClass} ${star <= rating ? 'fill-current' : ''}`} />
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center gap-0.5 text-yellow-500"
+      role="img"
+      aria-label={t('reviews.ratingLabel', { rating: rating.toFixed(1) })}
+    >
+      {stars.map((star) => (
+        <Star key={star} className={`${iconClass} ${star <= Math.round(rating) ? 'fill-current' : ''}`} />
+      ))}
+    </div>
+  );
+}
@@ -2,8 +2,11 @@ import { memo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { ThumbsUp, ThumbsDown, CheckCircle2 } from 'lucide-react';
 import { ForumReplyWithAuthor } from '../../types/forum';
+import { HIDDEN_CONTENT_PLACEHOLDER, ReportTargetType } from '../../types/report';
 import { formatPostTime } from '../utils/timeUtils';
 import { HtmlRenderer } from './HtmlRenderer';
+import { ReportContentDialog } from './ReportContentDialog';
+import { RevisionHistoryDialog } from './RevisionHistoryDialog';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 
@@ -16,6 +19,7 @@ const ReplyThread = memo(function ReplyThread({
 }: ReplyThreadProps) {
   const { t } = useTranslation();
   const timeAgo = formatPostTime(reply.created_at);
+  const isHidden = reply.content === HIDDEN_CONTENT_PLACEHOLDER;
 
   return (
     <Card className="bg-muted/30 border-muted-foreground/20">
@@ -24,24 +28,45 @@ const ReplyThread = memo(function ReplyThread({
         <div className="flex items-start justify-between">
           <div>
             <p className="text-sm font-medium">{reply.author_name}</p>
-            <p className="text-xs text-muted-foreground">{timeAgo}</p>
+            <p className="text-xs text-muted-foreground">
+              {timeAgo}
+              {reply.edited_at && !isHidden && (
+                <>
+                  {' · '}
+                  <RevisionHistoryDialog contentType="reply" contentId={reply.id} editedAt={reply.edited_at} />
+                </>
+              )}
+            </p>
           </div>
 
-          {reply.is_solution && (
-            <Badge variant="secondary" className="flex items-center gap-1 flex-shrink-0">
-              <CheckCircle2 className="w-3 h-3" />
-              <span>{t('forums.solution', 'Solution')}</span>
-            </Badge>
-          )}
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {reply.is_solution && (
+              <Badge variant="secondary" className="flex items-center gap-1 flex-shrink-0">
+                <CheckCircle2 className="w-3 h-3" />
+                <span>{t('forums.solution', 'Solution')}</span>
+              </Badge>
+            )}
+            {!isHidden && (
+              <ReportContentDialog
+                targetType={ReportTargetType.Reply}
+                targetId={reply.id}
+                authorId={reply.user_id}
+              />
+            )}
+          </div>
         </div>
 
         {/* Reply Content */}
-        <div className="text-sm text-foreground">
-          <HtmlRenderer
-            content={reply.content}
-            className="prose prose-sm max-w-none"
-          />
-        </div>
+        {isHidden ? (
+          <p className="text-sm text-muted-foreground italic">{t('reports.hiddenContent')}</p>
+        ) : (
+          <div className="text-sm text-foreground">
+            <HtmlRenderer
+              content={reply.content}
+              className="prose prose-sm max-w-none"
+            />
+          </div>
+        )}
 
         {/* Reply Metrics */}
         {(reply.upvote_count > 0 || reply.downvote_count > 0) && (
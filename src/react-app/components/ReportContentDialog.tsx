@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Flag } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../context/AuthContext';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { createReport } from '../services/reportService';
+import { ApiError, handleApiError, showSuccessToast } from '../services/apiClient';
+import { MAX_REPORT_DETAILS_LENGTH, ReportReason } from '../../types/report';
+import type { ReportTargetType } from '../../types/report';
+
+interface ReportContentDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  authorId: string;
+  className?: string;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * ReportContentDialog component
+ * Report button that opens a dialog for flagging a thread, reply, blog or comment to the moderators
+ * Only rendered for signed-in users who did not write the content
+ */
+export function ReportContentDialog({ targetType, targetId, authorId, className }: ReportContentDialogProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>(ReportReason.Spam);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!user || user.id === authorId) {
+    return null;
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setReason(ReportReason.Spam);
+      setDetails('');
+    }
+    setIsOpen(open);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await createReport({
+        target_type: targetType,
+        target_id: targetId,
+        reason,
+        details: details.trim() || undefined,
+      });
+      showSuccessToast(t('reports.success'));
+      handleOpenChange(false);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        toast.error(t('reports.alreadyReported'));
+        handleOpenChange(false);
+      } else {
+        handleApiError(error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    // Dialog events bubble through the React tree, so keep them away from clickable parents like ThreadCard
+    <span onClick={(e) => e.stopPropagation()}>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={(e) => {
+          e.preventDefault();
+          setIsOpen(true);
+        }}
+        className={className || 'h-7 px-2 text-xs text-muted-foreground hover:text-foreground'}
+        title={t('reports.report')}
+      >
+        <Flag className="h-3.5 w-3.5 mr-1" />
+        {t('reports.report')}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{t('reports.title')}</DialogTitle>
+              <DialogDescription>{t('reports.description')}</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-reason">{t('reports.reasonLabel')}</Label>
+              <select
+                id="report-reason"
+                className={selectClassName}
+                value={reason}
+                onChange={(e) => setReason(e.target.value as ReportReason)}
+                disabled={isSubmitting}
+              >
+                {Object.values(ReportReason).map((value) => (
+                  <option key={value} value={value}>
+                    {t(`reports.reasons.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="report-details">{t('reports.detailsLabel')}</Label>
+                <span className="text-xs text-muted-foreground">
+                  {details.length}/{MAX_REPORT_DETAILS_LENGTH}
+                </span>
+              </div>
+              <Textarea
+                id="report-details"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                placeholder={t('reports.detailsPlaceholder')}
+                className="min-h-[100px] resize-none"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? t('reports.submitting') : t('reports.submit')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { forumService } from '../services/forumService';
+import { formatPostTime } from '../utils/timeUtils';
+import { htmlToPlainText } from '../utils/htmlUtils';
+import { diffWords, type DiffPartType } from '../utils/textDiff';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Label } from './ui/label';
+import type { ForumRevision, RevisionContentType } from '../../types/forum';
+
+interface RevisionHistoryDialogProps {
+  contentType: RevisionContentType;
+  contentId: string;
+  editedAt: number;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+const DIFF_CLASS_NAMES: Record<Exclude<DiffPartType, 'equal'>, string> = {
+  added: 'bg-green-100 text-green-900 no-underline',
+  removed: 'bg-red-100 text-red-900',
+};
+
+/**
+ * RevisionHistoryDialog component
+ * "Edited" marker on a forum thread or reply that opens its edit history
+ * Each version is shown as a word diff against the version before it
+ */
+export function RevisionHistoryDialog({ contentType, contentId, editedAt }: RevisionHistoryDialogProps) {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<ForumRevision[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadRevisions = async () => {
+      try {
+        setLoading(true);
+        const result = contentType === 'thread'
+          ? await forumService.getThreadRevisions(contentId)
+          : await forumService.getReplyRevisions(contentId);
+        setRevisions(result);
+        setSelectedVersion(result[result.length - 1]?.version ?? null);
+      } catch {
+        toast.error(t('forums.revisions.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [isOpen, contentType, contentId, t]);
+
+  const selected = revisions.find((revision) => revision.version === selectedVersion);
+  const previous = revisions.find((revision) => revision.version === (selectedVersion ?? 0) - 1);
+
+  const renderDiff = (before: string, after: string) => (
+    <p className="whitespace-pre-wrap break-words text-sm">
+      {diffWords(before, after).map((part, index) => {
+        if (part.type === 'added') {
+          return <ins key={index} className={DIFF_CLASS_NAMES.added}>{part.text}</ins>;
+        }
+        if (part.type === 'removed') {
+          return <del key={index} className={DIFF_CLASS_NAMES.removed}>{part.text}</del>;
+        }
+        return <span key={index}>{part.text}</span>;
+      })}
+    </p>
+  );
+
+  return (
+    // Dialog events bubble through the React tree, so keep them away from clickable parents
+    <span onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        className="text-xs text-muted-foreground underline-offset-2 hover:underline"
+        title={t('forums.revisions.editedAt', { date: formatPostTime(editedAt) })}
+        onClick={() => setIsOpen(true)}
+      >
+        {t('forums.revisions.edited')}
+      </button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t('forums.revisions.title')}</DialogTitle>
+            <DialogDescription>{t('forums.revisions.description')}</DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : selected ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`revision-version-${contentId}`}>{t('forums.revisions.version')}</Label>
+                <select
+                  id={`revision-version-${contentId}`}
+                  className={selectClassName}
+                  value={selected.version}
+                  onChange={(e) => setSelectedVersion(Number(e.target.value))}
+                >
+                  {revisions.map((revision) => (
+                    <option key={revision.version} value={revision.version}>
+                      {t(revision.is_current ? 'forums.revisions.currentVersionLabel' : 'forums.revisions.versionLabel', {
+                        version: revision.version,
+                        name: revision.edited_by_name || t('forums.revisions.unknownEditor'),
+                        date: formatPostTime(revision.created_at),
+                      })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {!previous ? (
+                <>
+                  <p className="text-sm text-muted-foreground">{t('forums.revisions.original')}</p>
+                  {selected.title && <p className="font-medium">{selected.title}</p>}
+                  <p className="whitespace-pre-wrap break-words text-sm">{htmlToPlainText(selected.content)}</p>
+                </>
+              ) : (
+                <>
+                  {selected.title !== null && selected.title !== previous.title && (
+                    <section className="space-y-1">
+                      <h3 className="text-sm font-medium">{t('forums.revisions.titleChanges')}</h3>
+                      {renderDiff(previous.title || '', selected.title)}
+                    </section>
+                  )}
+                  <section className="space-y-1">
+                    <h3 className="text-sm font-medium">{t('forums.revisions.contentChanges')}</h3>
+                    {htmlToPlainText(previous.content) === htmlToPlainText(selected.content) ? (
+                      <p className="text-sm text-muted-foreground">{t('forums.revisions.formattingOnly')}</p>
+                    ) : (
+                      renderDiff(htmlToPlainText(previous.content), htmlToPlainText(selected.content))
+                    )}
+                  </section>
+                </>
+              )}
+            </div>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+}
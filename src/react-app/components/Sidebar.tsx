@@ -166,6 +166,22 @@ export function Sidebar() {
           },
         ]
       : []),
+    ...(isFeatureEnabled('rewards_store')
+      ? [
+          {
+            href: '/rewards',
+            label: t('navigation.rewards', 'Rewards'),
+            icon: '🎁',
+            requiresAuth: true,
+          },
+        ]
+      : []),
+    {
+      href: '/sessions',
+      label: t('navigation.sessions', 'Signed-in Devices'),
+      icon: '🔐',
+      requiresAuth: true,
+    },
   ];
 
   // Admin section - admin only
@@ -182,6 +198,36 @@ export function Sidebar() {
       icon: '⚙️',
       requiresAuth: true,
     },
+    {
+      href: '/admin/moderation',
+      label: t('navigation.admin.moderation', 'Moderation'),
+      icon: '🚩',
+      requiresAuth: true,
+    },
+    {
+      href: '/admin/audit-log',
+      label: t('navigation.admin.auditLog', 'Audit Log'),
+      icon: '📜',
+      requiresAuth: true,
+    },
+    {
+      href: '/admin/rewards',
+      label: t('navigation.admin.rewards', 'Rewards'),
+      icon: '🎁',
+      requiresAuth: true,
+    },
+    {
+      href: '/admin/jobs',
+      label: t('navigation.admin.jobs', 'Scheduled Jobs'),
+      icon: '⏱️',
+      requiresAuth: true,
+    },
+    {
+      href: '/admin/events',
+      label: t('navigation.admin.events', 'Events'),
+      icon: '📅',
+      requiresAuth: true,
+    },
   ];
 
   // Links section - filtered by feature flags
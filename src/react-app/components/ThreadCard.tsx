@@ -2,7 +2,10 @@ import { memo, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { ForumThreadWithAuthor } from '../../types/forum';
+import { ReportTargetType } from '../../types/report';
 import { formatPostTime } from '../utils/timeUtils';
+import { ReportContentDialog } from './ReportContentDialog';
+import { UserBadges } from './UserBadges';
 
 interface ThreadCardProps {
   thread: ForumThreadWithAuthor;
@@ -80,7 +83,8 @@ const ThreadCard = memo(function ThreadCard({ thread }: ThreadCardProps) {
 
           {/* Author and Time */}
           <div className="text-sm text-muted-foreground">
-            By <span className="font-medium">{thread.author_name}</span> • {timeAgo}
+            By <span className="font-medium">{thread.author_name}</span>
+            <UserBadges badges={thread.author_badges} className="ml-1 align-middle" /> • {timeAgo}
           </div>
 
           {/* Content Preview */}
@@ -119,6 +123,13 @@ const ThreadCard = memo(function ThreadCard({ thread }: ThreadCardProps) {
           <div className="text-xs text-gray-600">
             {lastActivityTime}
           </div>
+          <div className="mt-2">
+            <ReportContentDialog
+              targetType={ReportTargetType.Thread}
+              targetId={thread.id}
+              authorId={thread.user_id}
+            />
+          </div>
         </div>
       </div>
     </Link>
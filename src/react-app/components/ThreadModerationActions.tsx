@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { FolderInput, GitMerge, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { forumService } from '../services/forumService';
+import { handleApiError, showSuccessToast } from '../services/apiClient';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { UserRole } from '../../types/role';
+import type { ForumCategory, ForumThreadWithAuthor } from '../../types/forum';
+
+interface ThreadModerationActionsProps {
+  thread: ForumThreadWithAuthor;
+  onThreadChange: (thread: ForumThreadWithAuthor) => void;
+}
+
+type ModerationDialog = 'move' | 'merge';
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * ThreadModerationActions component
+ * Move, merge, delete and restore buttons for a thread, shown to admins and moderators
+ * Moderators can only act in their own categories; the API has the final say
+ */
+export function ThreadModerationActions({ thread, onThreadChange }: ThreadModerationActionsProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [dialog, setDialog] = useState<ModerationDialog | null>(null);
+  const [categories, setCategories] = useState<ForumCategory[]>([]);
+  const [categoryId, setCategoryId] = useState('');
+  const [targetThreadId, setTargetThreadId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (dialog !== 'move') return;
+
+    const loadCategories = async () => {
+      try {
+        const result = await forumService.getAllCategories();
+        setCategories(result.filter((category) => category.id !== thread.category_id));
+      } catch (error) {
+        handleApiError(error);
+      }
+    };
+
+    loadCategories();
+  }, [dialog, thread.category_id]);
+
+  if (!user || (user.role !== UserRole.Admin && user.role !== UserRole.Moderator)) {
+    return null;
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setDialog(null);
+      setCategoryId('');
+      setTargetThreadId('');
+    }
+  };
+
+  const handleMove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!categoryId) return;
+
+    setIsSubmitting(true);
+    try {
+      const updated = await forumService.moveThread(thread.id, { category_id: categoryId });
+      onThreadChange(updated);
+      showSuccessToast(t('forums.moderation.moveSuccess'));
+      handleOpenChange(false);
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = targetThreadId.trim();
+    if (!target) return;
+
+    setIsSubmitting(true);
+    try {
+      const merged = await forumService.mergeThread(thread.id, { target_thread_id: target });
+      showSuccessToast(t('forums.moderation.mergeSuccess'));
+      handleOpenChange(false);
+      navigate(`/forums/threads/${merged.id}`);
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(t('forums.moderation.deleteConfirm'))) return;
+
+    setIsSubmitting(true);
+    try {
+      await forumService.deleteThread(thread.id);
+      showSuccessToast(t('forums.moderation.deleteSuccess'));
+      navigate(`/forums/category/${thread.category_id}`);
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsSubmitting(true);
+    try {
+      const restored = await forumService.restoreThread(thread.id);
+      onThreadChange(restored);
+      showSuccessToast(t('forums.moderation.restoreSuccess'));
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Only admins can open a deleted thread; merged threads redirect to their target instead
+  if (thread.deleted_at) {
+    return thread.merged_into ? null : (
+      <Button type="button" variant="ghost" size="sm" onClick={handleRestore} disabled={isSubmitting}>
+        <RotateCcw className="w-4 h-4 mr-1" />
+        {t('forums.moderation.restore')}
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setDialog('move')}
+        aria-label={t('forums.moderation.move')}
+        title={t('forums.moderation.move')}
+      >
+        <FolderInput className="w-4 h-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setDialog('merge')}
+        aria-label={t('forums.moderation.merge')}
+        title={t('forums.moderation.merge')}
+      >
+        <GitMerge className="w-4 h-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={handleDelete}
+        disabled={isSubmitting}
+        aria-label={t('forums.moderation.delete')}
+        title={t('forums.moderation.delete')}
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={dialog !== null} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-md">
+          {dialog === 'move' && (
+            <form onSubmit={handleMove} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{t('forums.moderation.moveTitle')}</DialogTitle>
+                <DialogDescription>{t('forums.moderation.moveDescription')}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="move-thread-category">{t('forums.moderation.categoryLabel')}</Label>
+                <select
+                  id="move-thread-category"
+                  className={selectClassName}
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value="">{t('forums.moderation.categoryPlaceholder')}</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" disabled={isSubmitting || !categoryId}>
+                  {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('forums.moderation.move')}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+
+          {dialog === 'merge' && (
+            <form onSubmit={handleMerge} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{t('forums.moderation.mergeTitle')}</DialogTitle>
+                <DialogDescription>{t('forums.moderation.mergeDescription')}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="merge-thread-target">{t('forums.moderation.targetLabel')}</Label>
+                <Input
+                  id="merge-thread-target"
+                  value={targetThreadId}
+                  onChange={(e) => setTargetThreadId(e.target.value)}
+                  placeholder={t('forums.moderation.targetPlaceholder')}
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" disabled={isSubmitting || !targetThreadId.trim()}>
+                  {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('forums.moderation.merge')}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+import { useTranslation } from 'react-i18next';
+import { getBadgeDefinition } from '../../types/badge';
+import type { BadgeId } from '../../types/badge';
+
+interface UserBadgesProps {
+  /**
+   * Badges the user holds
+   */
+  badges: BadgeId[] | undefined;
+
+  /**
+   * Whether to show each badge's name next to its icon (default: false)
+   */
+  showNames?: boolean;
+
+  /**
+   * Optional CSS class for additional styling
+   */
+  className?: string;
+}
+
+/**
+ * UserBadges Component
+ * Displays the badges a user holds as icons, next to author names or on profiles
+ * Hovering a badge shows its name and what it was earned for
+ */
+export function UserBadges({ badges, showNames = false, className = '' }: UserBadgesProps) {
+  const { t } = useTranslation();
+
+  const definitions = (badges || [])
+    .map((id) => getBadgeDefinition(id))
+    .filter((badge) => badge !== undefined);
+
+  if (definitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-1 ${className}`}>
+      {definitions.map((badge) => {
+        const name = t(`badges.catalog.${badge.id}.name`);
+        const description = t(`badges.catalog.${badge.id}.description`);
+
+        return showNames ? (
+          <span
+            key={badge.id}
+            title={description}
+            className="inline-flex items-center gap-1 rounded-full border bg-muted/50 px-2 py-0.5 text-xs font-medium"
+          >
+            <span aria-hidden="true">{badge.icon}</span>
+            {name}
+          </span>
+        ) : (
+          <span key={badge.id} role="img" aria-label={name} title={`${name}: ${description}`}>
+            {badge.icon}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -1,4 +1,5 @@
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import { formatPoints, formatRank } from '../../types/points';
 import { Sparkles } from 'lucide-react';
 
@@ -32,6 +33,11 @@ interface UserPointsBadgeProps {
    * Whether to display as a badge (rounded background) or just text
    */
   showBadge?: boolean;
+
+  /**
+   * Optional route to link to, e.g. the points history page
+   */
+  to?: string;
 }
 
 /**
@@ -46,6 +52,7 @@ export function UserPointsBadge({
   className = '',
   variant = 'md',
   showBadge = true,
+  to,
 }: UserPointsBadgeProps) {
   const { t } = useTranslation();
 
@@ -73,11 +80,11 @@ export function UserPointsBadge({
   // Format rank if provided
   const formattedRank = showRank && rank ? formatRank(rank) : null;
 
-  return (
-    <div
-      className={`${badgeClasses} ${sizeClasses[variant]} ${className} group transition-all hover:shadow-md hover:scale-105`}
-      aria-label={`${formattedPoints} ${t('points.label', 'Points')}${formattedRank ? ` - ${t('points.rank', 'Rank')}: ${formattedRank}` : ''}`}
-    >
+  const classes = `${badgeClasses} ${sizeClasses[variant]} ${className} group transition-all hover:shadow-md hover:scale-105`;
+  const label = `${formattedPoints} ${t('points.label', 'Points')}${formattedRank ? ` - ${t('points.rank', 'Rank')}: ${formattedRank}` : ''}`;
+
+  const content = (
+    <>
       {/* Points Icon - Sparkles */}
       <Sparkles className={`${iconSizes[variant]} text-accent group-hover:rotate-12 transition-transform`} aria-hidden="true" />
 
@@ -100,6 +107,20 @@ export function UserPointsBadge({
           </span>
         </>
       )}
+    </>
+  );
+
+  if (to) {
+    return (
+      <Link to={to} className={classes} aria-label={label} title={t('points.viewHistory', 'View points history')}>
+        {content}
+      </Link>
+    );
+  }
+
+  return (
+    <div className={classes} aria-label={label}>
+      {content}
     </div>
   );
 }
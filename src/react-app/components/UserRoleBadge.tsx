@@ -9,7 +9,7 @@ interface UserRoleBadgeProps {
 
 /**
  * UserRoleBadge Component
- * Displays a badge showing the user's role (Admin or Member)
+ * Displays a badge showing the user's role (Admin, Moderator or Member)
  * Uses different colors for visual distinction
  */
 export function UserRoleBadge({ role, className }: UserRoleBadgeProps) {
@@ -20,7 +20,7 @@ export function UserRoleBadge({ role, className }: UserRoleBadgeProps) {
   }
 
   // Determine badge variant based on role
-  const variant = role === UserRole.Admin ? 'default' : 'secondary';
+  const variant = role === UserRole.Admin ? 'default' : role === UserRole.Moderator ? 'outline' : 'secondary';
 
   // Get translated role name
   const roleLabel = t(`roles.${role}`);
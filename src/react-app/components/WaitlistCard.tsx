@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { getWaitlist, updateWaitlistEntry } from '../services/inviteService';
+import { ApiError } from '../services/apiClient';
+import type { WaitlistEntry } from '../../types/invite';
+import { WaitlistStatus } from '../../types/invite';
+
+const PAGE_SIZE = 20;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * WaitlistCard component
+ * Lets admins review the people waiting for an account while public registration is off
+ * Approved people are emailed and can then sign in with Google
+ */
+export function WaitlistCard() {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<WaitlistStatus>(WaitlistStatus.Pending);
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setLoading(true);
+        const response = await getWaitlist({ status, limit: PAGE_SIZE });
+        setEntries(response.entries);
+        setTotal(response.total);
+      } catch (err) {
+        const message = err instanceof ApiError ? err.message : t('admin.waitlist.loadError', 'Failed to load the waitlist');
+        toast.error(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [status, t]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await getWaitlist({ status, limit: PAGE_SIZE, offset: entries.length });
+      setEntries((prev) => [...prev, ...response.entries]);
+      setTotal(response.total);
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.waitlist.loadError', 'Failed to load the waitlist');
+      toast.error(message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleReview = async (entry: WaitlistEntry, to: WaitlistStatus.Approved | WaitlistStatus.Rejected) => {
+    try {
+      setReviewingId(entry.id);
+      await updateWaitlistEntry(entry.id, { status: to });
+      // Reviewed entries leave the pending list
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+      setTotal((prev) => Math.max(0, prev - 1));
+      toast.success(
+        to === WaitlistStatus.Approved
+          ? t('admin.waitlist.approved', '{{name}} can now sign up', { name: entry.name })
+          : t('admin.waitlist.rejected', '{{name}} was removed from the waitlist', { name: entry.name })
+      );
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.waitlist.updateError', 'Failed to update the waitlist entry');
+      toast.error(message);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t('admin.waitlist.title', 'Waitlist')}</CardTitle>
+            <CardDescription>
+              {t('admin.waitlist.description', 'Approved people are emailed and can sign in with the Google account of their email')}
+            </CardDescription>
+          </div>
+          <div className="space-y-1 w-full sm:w-48">
+            <label htmlFor="waitlist-status" className="text-sm font-medium">
+              {t('admin.waitlist.statusLabel', 'Status')}
+            </label>
+            <select
+              id="waitlist-status"
+              className={selectClassName}
+              value={status}
+              onChange={(e) => setStatus(e.target.value as WaitlistStatus)}
+            >
+              {Object.values(WaitlistStatus).map((value) => (
+                <option key={value} value={value}>
+                  {t(`admin.waitlist.statuses.${value}`, value)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('admin.waitlist.empty', 'Nobody here')}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="divide-y border rounded-lg">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-start justify-between gap-4 px-4 py-3">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium">
+                      {entry.name} <span className="text-sm text-muted-foreground">{entry.email}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.created_at * 1000).toLocaleString()}
+                      {entry.user_id && ` · ${t('admin.waitlist.signedUp', 'Signed up')}`}
+                    </p>
+                    {entry.reason && <p className="text-sm whitespace-pre-wrap">{entry.reason}</p>}
+                  </div>
+                  {entry.status === WaitlistStatus.Pending && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleReview(entry, WaitlistStatus.Approved)}
+                        disabled={reviewingId !== null}
+                      >
+                        {t('admin.waitlist.approve', 'Approve')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReview(entry, WaitlistStatus.Rejected)}
+                        disabled={reviewingId !== null}
+                      >
+                        {t('admin.waitlist.reject', 'Reject')}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {entries.length < total && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('admin.waitlist.loadMore', 'Load more')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
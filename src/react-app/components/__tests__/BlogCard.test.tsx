@@ -4,6 +4,7 @@ import { BrowserRouter } from 'react-router-dom';
 import { BlogCard } from '../BlogCard';
 import * as authContext from '../../context/AuthContext';
 import type { BlogWithLikeStatus } from '../../../types/blog';
+import { BadgeId } from '../../../types/badge';
 
 vi.mock('react-i18next', () => ({
   useTranslation: () => ({
@@ -160,6 +161,16 @@ describe('BlogCard', () => {
     expect(screen.getByText('John Doe')).toBeInTheDocument();
   });
 
+  it('should display the author\'s badges', () => {
+    render(
+      <BrowserRouter>
+        <BlogCard blog={{ ...mockBlog, author_badges: [BadgeId.ActivityStreak30] }} />
+      </BrowserRouter>
+    );
+
+    expect(screen.getByRole('img', { name: 'badges.catalog.activity_streak_30.name' })).toHaveTextContent('🔥');
+  });
+
   it('should call onLike when like button is clicked', () => {
     const onLike = vi.fn();
     render(
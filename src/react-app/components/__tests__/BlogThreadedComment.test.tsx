@@ -32,6 +32,7 @@ vi.mock('lucide-react', () => ({
   Trash2: () => <div>Trash Icon</div>,
   MessageCircle: () => <div>Reply Icon</div>,
   X: () => <div>X Icon</div>,
+  Flag: () => <div>Flag Icon</div>,
 }));
 
 // Mock RichTextEditor component
@@ -120,6 +121,24 @@ describe('BlogThreadedComment', () => {
     expect(screen.queryByText('Reply')).not.toBeInTheDocument();
   });
 
+  it('should show a placeholder for comments hidden by a moderator', () => {
+    const hiddenComment = { ...mockComment, user_id: 'user-2', content: '[hidden]' };
+    render(<BlogThreadedComment comment={hiddenComment} blogId="blog-1" />);
+
+    expect(screen.getByText('reports.hiddenContent')).toBeInTheDocument();
+    expect(screen.queryByText('Reply')).not.toBeInTheDocument();
+    expect(screen.queryByText('reports.report')).not.toBeInTheDocument();
+  });
+
+  it('should show the report button only on other users\' comments', () => {
+    const { unmount } = render(<BlogThreadedComment comment={mockComment} blogId="blog-1" />);
+    expect(screen.queryByText('reports.report')).not.toBeInTheDocument();
+    unmount();
+
+    render(<BlogThreadedComment comment={mockReply} blogId="blog-1" />);
+    expect(screen.getByText('reports.report')).toBeInTheDocument();
+  });
+
   it('should hide reply button at max depth', () => {
     render(<BlogThreadedComment comment={mockComment} blogId="blog-1" depth={5} maxDepth={5} />);
 
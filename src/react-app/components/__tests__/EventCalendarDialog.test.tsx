@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EventCalendarDialog } from '../EventCalendarDialog';
+import * as AuthContext from '../../context/AuthContext';
+import * as eventService from '../../services/eventService';
+
+vi.mock('../../services/eventService', async () => {
+  const actual = await vi.importActual('../../services/eventService');
+  return {
+    ...actual,
+    getCalendarFeed: vi.fn(),
+    createCalendarFeed: vi.fn(),
+    deleteCalendarFeed: vi.fn(),
+  };
+});
+
+vi.mock('../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const mockAuth = (signedIn: boolean) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: signedIn ? { id: 'user-1', email: 'test@example.com', name: 'Test User', created_at: 0, updated_at: 0 } : null,
+    isAuthenticated: signedIn,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+describe('EventCalendarDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(true);
+    vi.mocked(eventService.getCalendarFeed).mockResolvedValue(null);
+  });
+
+  it('should show the feed of all events to everyone', () => {
+    mockAuth(false);
+    render(<EventCalendarDialog isOpen onOpenChange={vi.fn()} />);
+
+    expect(screen.getByLabelText('All events')).toHaveValue(`${window.location.origin}/api/v1/events/calendar.ics`);
+    expect(screen.getByText('Sign in to get a feed of the events you RSVP to')).toBeInTheDocument();
+    expect(eventService.getCalendarFeed).not.toHaveBeenCalled();
+  });
+
+  it('should show the personal link once after creating it', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.createCalendarFeed).mockResolvedValue({
+      token: 'secret-token',
+      feed: { created_at: 1700000000, last_used_at: null },
+    });
+    render(<EventCalendarDialog isOpen onOpenChange={vi.fn()} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Create my link' }));
+
+    expect(screen.getByLabelText('My events')).toHaveValue(
+      `${window.location.origin}/api/v1/events/my-calendar.ics?token=secret-token`
+    );
+    expect(screen.getByText(/it won't be shown again/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Reset link' })).toBeInTheDocument();
+  });
+
+  it('should let members turn off an existing feed', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.getCalendarFeed).mockResolvedValue({ created_at: 1700000000, last_used_at: null });
+    vi.mocked(eventService.deleteCalendarFeed).mockResolvedValue();
+    render(<EventCalendarDialog isOpen onOpenChange={vi.fn()} />);
+
+    expect(await screen.findByText(/not fetched yet/)).toBeInTheDocument();
+    expect(screen.queryByLabelText('My events')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Turn off' }));
+
+    expect(eventService.deleteCalendarFeed).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Create my link' })).toBeInTheDocument();
+  });
+});
@@ -24,11 +24,20 @@ vi.mock('react-i18next', () => ({
         'points.forumRulesDialog.upvoteReceivedReplyPoints': '2 points',
         'points.commonRules.important': 'Important:',
         'points.forumRulesDialog.noPointsForUpvoting': "You don't earn points by upvoting others' content, but the author does!",
+        'points.forumRulesDialog.solutionsAndMilestones': 'Solutions & Milestones',
+        'points.forumRulesDialog.solutionsAndMilestonesDesc': 'Helpful answers and popular threads earn bonus points:',
+        'points.forumRulesDialog.solutionAccepted': 'Your reply is marked as the solution',
+        'points.forumRulesDialog.solutionAcceptedPoints': '20 points',
+        'points.forumRulesDialog.threadSolved': "Your thread is solved by someone else's reply",
+        'points.forumRulesDialog.threadSolvedPoints': '10 points',
+        'points.forumRulesDialog.views1000': 'Your thread reaches 1,000 views',
+        'points.forumRulesDialog.views1000Points': '30 points',
+        'points.forumRulesDialog.pointsReversed': 'Withdrawn upvotes and unmarked solutions take their points back, and answering your own thread earns no solution points.',
         'points.commonRules.antiSpam': 'Anti-Spam System',
         'points.commonRules.antiSpamDesc': 'To maintain quality and prevent spam, we use a diminishing returns system. Point awards decrease if you create too much content within an hour:',
         'points.forumRulesDialog.threadsPerHour': 'Threads per hour',
         'points.forumRulesDialog.first3Threads': 'First 3 threads: 15 points each',
-        'points.forumRulesDialog.next2Threads': 'Next 2 threads: 7.5 points each (50%)',
+        'points.forumRulesDialog.next2Threads': 'Next 2 threads: 7 points each (50%)',
         'points.forumRulesDialog.beyond5Threads': 'Beyond 5 threads: 0 points',
         'points.forumRulesDialog.repliesPerHour': 'Replies per hour',
         'points.forumRulesDialog.first10Replies': 'First 10 replies: 5 points each',
@@ -36,7 +45,7 @@ vi.mock('react-i18next', () => ({
         'points.forumRulesDialog.beyond20Replies': 'Beyond 20 replies: 0 points',
         'points.forumRulesDialog.upvotesPerHour': 'Upvotes received per hour',
         'points.forumRulesDialog.first5Upvotes': 'First 5 upvotes: Full points (2-3 each)',
-        'points.forumRulesDialog.next10Upvotes': 'Next 10 upvotes: 50% points (1-1.5 each)',
+        'points.forumRulesDialog.next10Upvotes': 'Next 10 upvotes: 50% points (1 each)',
         'points.forumRulesDialog.beyond15Upvotes': 'Beyond 15 upvotes: 0 points',
         'common.close': 'Close',
       };
@@ -105,6 +114,21 @@ describe('ForumPointsInfoDialog', () => {
     expect(screen.getByText("You don't earn points by upvoting others' content, but the author does!")).toBeInTheDocument();
   });
 
+  it('should display solution and view milestone rewards', () => {
+    render(
+      <ForumPointsInfoDialog open={true} onOpenChange={() => {}} />
+    );
+
+    expect(screen.getByText('Solutions & Milestones')).toBeInTheDocument();
+    expect(screen.getByText('Your reply is marked as the solution')).toBeInTheDocument();
+    expect(screen.getByText('20 points')).toBeInTheDocument();
+    expect(screen.getByText("Your thread is solved by someone else's reply")).toBeInTheDocument();
+    expect(screen.getByText('10 points')).toBeInTheDocument();
+    expect(screen.getByText('Your thread reaches 1,000 views')).toBeInTheDocument();
+    expect(screen.getByText('30 points')).toBeInTheDocument();
+    expect(screen.getByText('Withdrawn upvotes and unmarked solutions take their points back, and answering your own thread earns no solution points.')).toBeInTheDocument();
+  });
+
   it('should display anti-spam section with diminishing returns info', () => {
     render(
       <ForumPointsInfoDialog open={true} onOpenChange={() => {}} />
@@ -121,7 +145,7 @@ describe('ForumPointsInfoDialog', () => {
 
     expect(screen.getByText('Threads per hour')).toBeInTheDocument();
     expect(screen.getByText('First 3 threads: 15 points each')).toBeInTheDocument();
-    expect(screen.getByText('Next 2 threads: 7.5 points each (50%)')).toBeInTheDocument();
+    expect(screen.getByText('Next 2 threads: 7 points each (50%)')).toBeInTheDocument();
     expect(screen.getByText('Beyond 5 threads: 0 points')).toBeInTheDocument();
   });
 
@@ -143,7 +167,7 @@ describe('ForumPointsInfoDialog', () => {
 
     expect(screen.getByText('Upvotes received per hour')).toBeInTheDocument();
     expect(screen.getByText('First 5 upvotes: Full points (2-3 each)')).toBeInTheDocument();
-    expect(screen.getByText('Next 10 upvotes: 50% points (1-1.5 each)')).toBeInTheDocument();
+    expect(screen.getByText('Next 10 upvotes: 50% points (1 each)')).toBeInTheDocument();
     expect(screen.getByText('Beyond 15 upvotes: 0 points')).toBeInTheDocument();
   });
 
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MatchConversationDialog } from '../MatchConversationDialog';
+import * as AuthContext from '../../context/AuthContext';
+import * as matchService from '../../services/matchService';
+import type { MatchMessage } from '../../../types/message';
+
+vi.mock('../../services/matchService', async () => {
+  const actual = await vi.importActual<typeof import('../../services/matchService')>('../../services/matchService');
+  return {
+    ...actual,
+    getMatchMessages: vi.fn(),
+    sendMatchMessage: vi.fn(),
+    markMatchMessagesRead: vi.fn(),
+  };
+});
+
+vi.mock('../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const baseMessage: MatchMessage = {
+  id: 'message-1',
+  match_id: 'match-1',
+  sender_id: 'mentor-1',
+  recipient_id: 'mentee-1',
+  content: '<p>Welcome aboard</p>',
+  read_at: null,
+  created_at: 1700000000,
+  sender_name: 'Mentor',
+};
+
+describe('MatchConversationDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(AuthContext.useAuth).mockReturnValue({
+      user: { id: 'mentee-1', email: 'mentee@example.com', name: 'Mentee', created_at: 0, updated_at: 0 },
+      isAuthenticated: true,
+      isLoading: false,
+      role: undefined,
+      login: vi.fn(),
+      logout: vi.fn(),
+      getUser: vi.fn(),
+    });
+    vi.mocked(matchService.markMatchMessagesRead).mockResolvedValue(1);
+  });
+
+  const renderDialog = (props: Partial<React.ComponentProps<typeof MatchConversationDialog>> = {}) =>
+    render(
+      <MatchConversationDialog
+        matchId="match-1"
+        otherName="Mentor"
+        canSend={true}
+        isOpen={true}
+        onOpenChange={vi.fn()}
+        {...props}
+      />
+    );
+
+  it('should show messages and mark unread ones as read', async () => {
+    const onRead = vi.fn();
+    vi.mocked(matchService.getMatchMessages).mockResolvedValue({ messages: [baseMessage], total: 1, unread_count: 1 });
+
+    renderDialog({ onRead });
+
+    expect(await screen.findByText('Welcome aboard')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(matchService.markMatchMessagesRead).toHaveBeenCalledWith('match-1');
+      expect(onRead).toHaveBeenCalled();
+    });
+  });
+
+  it('should send a message and show its read receipt', async () => {
+    const user = userEvent.setup();
+    vi.mocked(matchService.getMatchMessages).mockResolvedValue({ messages: [], total: 0, unread_count: 0 });
+    vi.mocked(matchService.sendMatchMessage).mockResolvedValue({
+      ...baseMessage,
+      id: 'message-2',
+      sender_id: 'mentee-1',
+      recipient_id: 'mentor-1',
+      content: '<p>Thanks!</p>',
+      created_at: 1700000100,
+    });
+
+    renderDialog();
+
+    await user.type(await screen.findByLabelText('Write a message...'), 'Thanks!');
+    await user.click(screen.getByRole('button', { name: 'Send message' }));
+
+    expect(await screen.findByText('Thanks!')).toBeInTheDocument();
+    expect(matchService.sendMatchMessage).toHaveBeenCalledWith('match-1', 'Thanks!');
+    expect(screen.getByText('Sent', { exact: false })).toBeInTheDocument();
+    expect(matchService.markMatchMessagesRead).not.toHaveBeenCalled();
+  });
+
+  it('should load earlier messages', async () => {
+    const user = userEvent.setup();
+    vi.mocked(matchService.getMatchMessages)
+      .mockResolvedValueOnce({ messages: [baseMessage], total: 2, unread_count: 0 })
+      .mockResolvedValueOnce({
+        messages: [{ ...baseMessage, id: 'message-0', content: '<p>First message</p>', created_at: 1690000000 }],
+        total: 2,
+        unread_count: 0,
+      });
+
+    renderDialog();
+
+    await user.click(await screen.findByRole('button', { name: 'Load earlier messages' }));
+
+    expect(await screen.findByText('First message')).toBeInTheDocument();
+    expect(matchService.getMatchMessages).toHaveBeenLastCalledWith('match-1', { limit: 30, offset: 1 });
+    expect(screen.queryByRole('button', { name: 'Load earlier messages' })).not.toBeInTheDocument();
+  });
+
+  it('should be read-only when the match is no longer active', async () => {
+    vi.mocked(matchService.getMatchMessages).mockResolvedValue({ messages: [baseMessage], total: 1, unread_count: 0 });
+
+    renderDialog({ canSend: false });
+
+    expect(await screen.findByText('This match is completed. The conversation is read-only.')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Send message' })).not.toBeInTheDocument();
+  });
+});
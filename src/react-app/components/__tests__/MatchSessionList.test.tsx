@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MatchSessionList } from '../MatchSessionList';
+import * as AuthContext from '../../context/AuthContext';
+import * as matchService from '../../services/matchService';
+import { SessionStatus } from '../../../types/session';
+import type { MatchSession } from '../../../types/session';
+
+vi.mock('../../services/matchService', async () => {
+  const actual = await vi.importActual<typeof import('../../services/matchService')>('../../services/matchService');
+  return {
+    ...actual,
+    getMatchSessions: vi.fn(),
+    confirmSession: vi.fn(),
+    cancelSession: vi.fn(),
+  };
+});
+
+vi.mock('../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const baseSession: MatchSession = {
+  id: 'session-1',
+  match_id: 'match-1',
+  proposed_by_user_id: 'mentee-1',
+  start_time: 1800000000,
+  duration_minutes: 45,
+  meeting_link: 'https://meet.example.com/abc',
+  status: SessionStatus.Proposed,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+};
+
+describe('MatchSessionList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(AuthContext.useAuth).mockReturnValue({
+      user: { id: 'mentor-1', email: 'mentor@example.com', name: 'Mentor', created_at: 0, updated_at: 0 },
+      isAuthenticated: true,
+      isLoading: false,
+      role: undefined,
+      login: vi.fn(),
+      logout: vi.fn(),
+      getUser: vi.fn(),
+    });
+  });
+
+  it('should show an empty state when there are no sessions', async () => {
+    vi.mocked(matchService.getMatchSessions).mockResolvedValue([]);
+
+    render(<MatchSessionList matchId="match-1" canSchedule={true} />);
+
+    expect(await screen.findByText('No sessions scheduled yet')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /propose time/i })).toBeInTheDocument();
+  });
+
+  it('should let the other participant confirm a proposed session', async () => {
+    const user = userEvent.setup();
+    vi.mocked(matchService.getMatchSessions).mockResolvedValue([baseSession]);
+    vi.mocked(matchService.confirmSession).mockResolvedValue({ ...baseSession, status: SessionStatus.Confirmed });
+
+    render(<MatchSessionList matchId="match-1" canSchedule={true} />);
+
+    expect(await screen.findByText('Needs your confirmation', { exact: false })).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Confirm' }));
+
+    await waitFor(() => {
+      expect(matchService.confirmSession).toHaveBeenCalledWith('match-1', 'session-1');
+    });
+  });
+
+  it('should not offer confirmation to the proposer', async () => {
+    vi.mocked(matchService.getMatchSessions).mockResolvedValue([
+      { ...baseSession, proposed_by_user_id: 'mentor-1' },
+    ]);
+
+    render(<MatchSessionList matchId="match-1" canSchedule={true} />);
+
+    expect(await screen.findByText('Waiting for confirmation', { exact: false })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Confirm' })).not.toBeInTheDocument();
+  });
+
+  it('should offer an .ics download for confirmed sessions', async () => {
+    vi.mocked(matchService.getMatchSessions).mockResolvedValue([
+      { ...baseSession, status: SessionStatus.Confirmed },
+    ]);
+
+    render(<MatchSessionList matchId="match-1" canSchedule={true} />);
+
+    const link = await screen.findByRole('link', { name: /\.ics/ });
+    expect(link).toHaveAttribute('href', '/api/v1/matches/match-1/sessions/session-1/ics');
+  });
+
+  it('should hide scheduling actions when the match is no longer active', async () => {
+    vi.mocked(matchService.getMatchSessions).mockResolvedValue([baseSession]);
+
+    render(<MatchSessionList matchId="match-1" canSchedule={false} />);
+
+    expect(await screen.findByText('Proposed')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /propose time/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Reschedule' })).not.toBeInTheDocument();
+  });
+});
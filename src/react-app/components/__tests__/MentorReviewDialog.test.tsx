@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MentorReviewDialog } from '../MentorReviewDialog';
+import * as matchService from '../../services/matchService';
+
+vi.mock('../../services/matchService', async () => {
+  const actual = await vi.importActual<typeof import('../../services/matchService')>('../../services/matchService');
+  return {
+    ...actual,
+    submitReview: vi.fn(),
+  };
+});
+
+describe('MentorReviewDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderDialog = (props: Partial<React.ComponentProps<typeof MentorReviewDialog>> = {}) =>
+    render(
+      <MentorReviewDialog
+        matchId="match-1"
+        mentorName="Jane Mentor"
+        isOpen={true}
+        onOpenChange={vi.fn()}
+        {...props}
+      />
+    );
+
+  it('should require a rating and a comment before submitting', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    const submit = screen.getByRole('button', { name: 'Submit review' });
+    expect(submit).toBeDisabled();
+
+    await user.click(screen.getByRole('radio', { name: '4 stars' }));
+    expect(submit).toBeDisabled();
+
+    await user.type(screen.getByLabelText('Your review'), 'Very helpful');
+    expect(submit).toBeEnabled();
+  });
+
+  it('should submit the review and notify the parent', async () => {
+    const user = userEvent.setup();
+    const onSuccess = vi.fn();
+    const onOpenChange = vi.fn();
+    vi.mocked(matchService.submitReview).mockResolvedValue({
+      id: 'review-1',
+      match_id: 'match-1',
+      mentor_id: 'mentor-1',
+      mentee_id: 'mentee-1',
+      rating: 5,
+      comment: 'Great mentor',
+      created_at: 0,
+      updated_at: 0,
+    });
+    renderDialog({ onSuccess, onOpenChange });
+
+    expect(screen.getByText('Review Jane Mentor')).toBeInTheDocument();
+    await user.click(screen.getByRole('radio', { name: '5 stars' }));
+    await user.type(screen.getByLabelText('Your review'), 'Great mentor');
+    await user.click(screen.getByRole('button', { name: 'Submit review' }));
+
+    await waitFor(() => {
+      expect(matchService.submitReview).toHaveBeenCalledWith('match-1', { rating: 5, comment: 'Great mentor' });
+    });
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+    expect(onSuccess).toHaveBeenCalled();
+  });
+});
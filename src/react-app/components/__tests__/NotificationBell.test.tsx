@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { NotificationBell } from '../NotificationBell';
+import * as notificationService from '../../services/notificationService';
+import { NotificationType } from '../../../types/notification';
+import type { Notification } from '../../../types/notification';
+
+const mockNavigate = vi.fn();
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+vi.mock('../../services/notificationService', () => ({
+  getNotifications: vi.fn(),
+  getUnreadNotificationCount: vi.fn(),
+  markNotificationRead: vi.fn(),
+  markAllNotificationsRead: vi.fn(),
+}));
+
+const unreadReply: Notification = {
+  id: 'notif-1',
+  user_id: 'user-1',
+  type: NotificationType.ForumReply,
+  actor_id: 'user-2',
+  data: { actor_name: 'Jane', title: 'Getting started' },
+  link: '/forums/threads/thread-1',
+  read_at: null,
+  created_at: 1700000000,
+};
+
+describe('NotificationBell', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(notificationService.getUnreadNotificationCount).mockResolvedValue(2);
+    vi.mocked(notificationService.getNotifications).mockResolvedValue({
+      notifications: [unreadReply],
+      unread_count: 2,
+      total: 1,
+    });
+  });
+
+  const renderBell = () =>
+    render(
+      <MemoryRouter>
+        <NotificationBell />
+      </MemoryRouter>
+    );
+
+  it('should show the unread count badge', async () => {
+    renderBell();
+
+    expect(await screen.findByText('2')).toBeInTheDocument();
+  });
+
+  it('should list localized notifications when opened', async () => {
+    const user = userEvent.setup();
+    renderBell();
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+
+    expect(await screen.findByText('Jane replied to "Getting started"')).toBeInTheDocument();
+  });
+
+  it('should mark a notification as read and follow its link', async () => {
+    const user = userEvent.setup();
+    vi.mocked(notificationService.markNotificationRead).mockResolvedValue({ ...unreadReply, read_at: 1700000100 });
+    renderBell();
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+    await user.click(await screen.findByRole('menuitem'));
+
+    await waitFor(() => {
+      expect(notificationService.markNotificationRead).toHaveBeenCalledWith('notif-1');
+      expect(mockNavigate).toHaveBeenCalledWith('/forums/threads/thread-1');
+    });
+  });
+
+  it('should mark all notifications as read', async () => {
+    const user = userEvent.setup();
+    vi.mocked(notificationService.markAllNotificationsRead).mockResolvedValue(2);
+    renderBell();
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+    await user.click(await screen.findByRole('button', { name: 'Mark all as read' }));
+
+    await waitFor(() => {
+      expect(notificationService.markAllNotificationsRead).toHaveBeenCalled();
+      expect(screen.queryByText('2')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should show an empty state', async () => {
+    const user = userEvent.setup();
+    vi.mocked(notificationService.getNotifications).mockResolvedValue({ notifications: [], unread_count: 0, total: 0 });
+    renderBell();
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }));
+
+    expect(await screen.findByText("You're all caught up")).toBeInTheDocument();
+  });
+});
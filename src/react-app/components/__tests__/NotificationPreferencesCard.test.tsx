@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { NotificationPreferencesCard } from '../NotificationPreferencesCard';
+import * as notificationService from '../../services/notificationService';
+import { NotificationType, EmailFrequency, DEFAULT_EMAIL_FREQUENCIES } from '../../../types/notification';
+
+vi.mock('../../services/notificationService', () => ({
+  getNotificationPreferences: vi.fn(),
+  updateNotificationPreferences: vi.fn(),
+}));
+
+const preferences = { locale: 'en' as const, email: { ...DEFAULT_EMAIL_FREQUENCIES } };
+
+describe('NotificationPreferencesCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(notificationService.getNotificationPreferences).mockResolvedValue(preferences);
+    vi.mocked(notificationService.updateNotificationPreferences).mockImplementation(async (data) => ({
+      ...preferences,
+      ...data,
+      email: { ...preferences.email, ...data.email },
+    }));
+  });
+
+  it('should show the current frequency for each event type', async () => {
+    render(<NotificationPreferencesCard />);
+
+    expect(await screen.findByLabelText('Replies to my forum threads')).toHaveValue(EmailFrequency.Daily);
+    expect(screen.getByLabelText('New mentorship requests')).toHaveValue(EmailFrequency.Immediate);
+    expect(screen.getByLabelText('Email language')).toHaveValue('en');
+  });
+
+  it('should save changed preferences', async () => {
+    const user = userEvent.setup();
+    render(<NotificationPreferencesCard />);
+
+    await user.selectOptions(await screen.findByLabelText('Replies to my forum threads'), EmailFrequency.Off);
+    await user.selectOptions(screen.getByLabelText('Email language'), 'zh-CN');
+    await user.click(screen.getByRole('button', { name: 'Save preferences' }));
+
+    await waitFor(() => {
+      expect(notificationService.updateNotificationPreferences).toHaveBeenCalledWith({
+        locale: 'zh-CN',
+        email: { ...DEFAULT_EMAIL_FREQUENCIES, [NotificationType.ForumReply]: EmailFrequency.Off },
+      });
+    });
+  });
+});
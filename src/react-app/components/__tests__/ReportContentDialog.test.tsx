@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReportContentDialog } from '../ReportContentDialog';
+import * as AuthContext from '../../context/AuthContext';
+import * as reportService from '../../services/reportService';
+import { ApiError } from '../../services/apiClient';
+import { ReportTargetType } from '../../../types/report';
+import type { ContentReport } from '../../../types/report';
+
+vi.mock('../../services/reportService', () => ({
+  createReport: vi.fn(),
+}));
+
+vi.mock('../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (userId: string | null) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: userId ? { id: userId, email: 'user@example.com', name: 'User', created_at: 0, updated_at: 0 } : null,
+    isAuthenticated: !!userId,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+describe('ReportContentDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth('user-1');
+  });
+
+  const renderDialog = () =>
+    render(<ReportContentDialog targetType={ReportTargetType.Reply} targetId="reply-1" authorId="author-1" />);
+
+  it('should not render for signed-out users or the author', () => {
+    mockAuth(null);
+    const { unmount } = renderDialog();
+    expect(screen.queryByRole('button', { name: 'Report' })).not.toBeInTheDocument();
+    unmount();
+
+    mockAuth('author-1');
+    renderDialog();
+    expect(screen.queryByRole('button', { name: 'Report' })).not.toBeInTheDocument();
+  });
+
+  it('should submit the selected reason and details', async () => {
+    const user = userEvent.setup();
+    vi.mocked(reportService.createReport).mockResolvedValue({ id: 'report-1' } as ContentReport);
+    renderDialog();
+
+    await user.click(screen.getByRole('button', { name: 'Report' }));
+    expect(screen.getByText('Report content')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Reason'), 'harassment');
+    await user.type(screen.getByLabelText('Details (optional)'), 'Insulting other members');
+    await user.click(screen.getByRole('button', { name: 'Submit report' }));
+
+    await waitFor(() => {
+      expect(reportService.createReport).toHaveBeenCalledWith({
+        target_type: 'reply',
+        target_id: 'reply-1',
+        reason: 'harassment',
+        details: 'Insulting other members',
+      });
+    });
+    await waitFor(() => {
+      expect(screen.queryByText('Report content')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should close the dialog when the content was already reported', async () => {
+    const user = userEvent.setup();
+    vi.mocked(reportService.createReport).mockRejectedValue(new ApiError('You have already reported this content', 409));
+    renderDialog();
+
+    await user.click(screen.getByRole('button', { name: 'Report' }));
+    await user.click(screen.getByRole('button', { name: 'Submit report' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Report content')).not.toBeInTheDocument();
+    });
+  });
+});
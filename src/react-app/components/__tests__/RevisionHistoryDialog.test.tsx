@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RevisionHistoryDialog } from '../RevisionHistoryDialog';
+import { forumService } from '../../services/forumService';
+import type { ForumRevision } from '../../../types/forum';
+
+vi.mock('../../services/forumService', () => ({
+  forumService: {
+    getThreadRevisions: vi.fn(),
+    getReplyRevisions: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const revision = (overrides: Partial<ForumRevision>): ForumRevision => ({
+  version: 1,
+  title: 'How to negotiate salary?',
+  content: '<p>I got an offer from a startup.</p>',
+  edited_by: 'user-1',
+  edited_by_name: 'Jane',
+  created_at: 1700000000,
+  is_current: false,
+  ...overrides,
+});
+
+const revisions: ForumRevision[] = [
+  revision({}),
+  revision({
+    version: 2,
+    title: 'How to negotiate my salary?',
+    content: '<p>I got an offer from a big company.</p>',
+    edited_by: 'mod-1',
+    edited_by_name: 'Mod',
+    created_at: 1700001000,
+    is_current: true,
+  }),
+];
+
+describe('RevisionHistoryDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(forumService.getThreadRevisions).mockResolvedValue(revisions);
+  });
+
+  it('should show the changes of the latest edit', async () => {
+    const user = userEvent.setup();
+    render(<RevisionHistoryDialog contentType="thread" contentId="thread-1" editedAt={1700001000} />);
+
+    await user.click(screen.getByRole('button', { name: 'edited' }));
+
+    const dialog = await screen.findByRole('dialog');
+    expect(forumService.getThreadRevisions).toHaveBeenCalledWith('thread-1');
+    expect(await within(dialog).findByText('Title')).toBeInTheDocument();
+    expect(within(dialog).getByText('my', { selector: 'ins' })).toBeInTheDocument();
+    expect(within(dialog).getByText('startup.', { selector: 'del' })).toBeInTheDocument();
+    expect(within(dialog).getByText('big company.', { selector: 'ins' })).toBeInTheDocument();
+  });
+
+  it('should show the original post without a diff', async () => {
+    const user = userEvent.setup();
+    render(<RevisionHistoryDialog contentType="thread" contentId="thread-1" editedAt={1700001000} />);
+
+    await user.click(screen.getByRole('button', { name: 'edited' }));
+    await user.selectOptions(await screen.findByLabelText('Version'), '1');
+
+    expect(screen.getByText('This is the original post.')).toBeInTheDocument();
+    expect(screen.getByText('I got an offer from a startup.')).toBeInTheDocument();
+    expect(document.querySelector('ins, del')).toBeNull();
+  });
+
+  it('should load the history of replies', async () => {
+    const user = userEvent.setup();
+    vi.mocked(forumService.getReplyRevisions).mockResolvedValue([
+      revision({ title: null, content: '<p>Same words</p>' }),
+      revision({ version: 2, title: null, content: '<p><strong>Same</strong> words</p>', is_current: true }),
+    ]);
+    render(<RevisionHistoryDialog contentType="reply" contentId="reply-1" editedAt={1700001000} />);
+
+    await user.click(screen.getByRole('button', { name: 'edited' }));
+
+    expect(await screen.findByText('Only the formatting changed.')).toBeInTheDocument();
+    expect(forumService.getReplyRevisions).toHaveBeenCalledWith('reply-1');
+    expect(screen.queryByText('Title')).not.toBeInTheDocument();
+  });
+});
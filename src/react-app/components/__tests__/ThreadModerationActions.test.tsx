@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ThreadModerationActions } from '../ThreadModerationActions';
+import * as AuthContext from '../../context/AuthContext';
+import { forumService } from '../../services/forumService';
+import { UserRole } from '../../../types/role';
+import { ThreadStatus } from '../../../types/forum';
+import type { ForumCategory, ForumThreadWithAuthor } from '../../../types/forum';
+
+const mockNavigate = vi.fn();
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+vi.mock('../../services/forumService', () => ({
+  forumService: {
+    getAllCategories: vi.fn(),
+    moveThread: vi.fn(),
+    mergeThread: vi.fn(),
+    deleteThread: vi.fn(),
+    restoreThread: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+vi.mock('../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole | undefined) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'user-1', email: 'user@example.com', name: 'User', created_at: 0, updated_at: 0, role },
+    isAuthenticated: true,
+    isLoading: false,
+    role,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const thread: ForumThreadWithAuthor = {
+  id: 'thread-dup',
+  category_id: 'cat-general',
+  user_id: 'author-1',
+  title: 'How to negotiate salary?',
+  content: '<p>I got an offer.</p>',
+  status: ThreadStatus.Open,
+  is_pinned: 0,
+  view_count: 10,
+  reply_count: 2,
+  upvote_count: 3,
+  downvote_count: 1,
+  hot_score: 0,
+  last_activity_at: 1700000500,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  author_name: 'Jane',
+  author_email: 'jane@example.com',
+};
+
+const category = (id: string, name: string): ForumCategory => ({
+  id,
+  name,
+  slug: id,
+  description: null,
+  parent_id: null,
+  icon: null,
+  display_order: 0,
+  thread_count: 0,
+  created_at: 0,
+});
+
+describe('ThreadModerationActions', () => {
+  const onThreadChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Moderator);
+  });
+
+  it('should not render for members', () => {
+    mockAuth(UserRole.Member);
+    render(<ThreadModerationActions thread={thread} onThreadChange={onThreadChange} />);
+
+    expect(screen.queryByRole('button', { name: 'Move thread' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Delete thread' })).not.toBeInTheDocument();
+  });
+
+  it('should move the thread to another category', async () => {
+    const user = userEvent.setup();
+    vi.mocked(forumService.getAllCategories).mockResolvedValue([
+      category('cat-general', 'General'),
+      category('cat-jobs', 'Jobs'),
+    ]);
+    vi.mocked(forumService.moveThread).mockResolvedValue({ ...thread, category_id: 'cat-jobs' });
+    render(<ThreadModerationActions thread={thread} onThreadChange={onThreadChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Move thread' }));
+    const select = await screen.findByLabelText('Category');
+    await waitFor(() => expect(screen.getByRole('option', { name: 'Jobs' })).toBeInTheDocument());
+    // The current category is not a destination
+    expect(screen.queryByRole('option', { name: 'General' })).not.toBeInTheDocument();
+    await user.selectOptions(select, 'cat-jobs');
+    await user.click(screen.getAllByRole('button', { name: 'Move thread' }).at(-1)!);
+
+    await waitFor(() => {
+      expect(forumService.moveThread).toHaveBeenCalledWith('thread-dup', { category_id: 'cat-jobs' });
+      expect(onThreadChange).toHaveBeenCalledWith(expect.objectContaining({ category_id: 'cat-jobs' }));
+    });
+  });
+
+  it('should merge the thread and open the target', async () => {
+    const user = userEvent.setup();
+    vi.mocked(forumService.mergeThread).mockResolvedValue({ ...thread, id: 'thread-main' });
+    render(<ThreadModerationActions thread={thread} onThreadChange={onThreadChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Merge thread' }));
+    await user.type(await screen.findByLabelText('Target thread ID'), ' thread-main ');
+    await user.click(screen.getAllByRole('button', { name: 'Merge thread' }).at(-1)!);
+
+    await waitFor(() => {
+      expect(forumService.mergeThread).toHaveBeenCalledWith('thread-dup', { target_thread_id: 'thread-main' });
+      expect(mockNavigate).toHaveBeenCalledWith('/forums/threads/thread-main');
+    });
+  });
+
+  it('should delete the thread after confirmation', async () => {
+    const user = userEvent.setup();
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    vi.mocked(forumService.deleteThread).mockResolvedValue();
+    render(<ThreadModerationActions thread={thread} onThreadChange={onThreadChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Delete thread' }));
+    expect(forumService.deleteThread).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Delete thread' }));
+    await waitFor(() => {
+      expect(forumService.deleteThread).toHaveBeenCalledWith('thread-dup');
+      expect(mockNavigate).toHaveBeenCalledWith('/forums/category/cat-general');
+    });
+    confirmSpy.mockRestore();
+  });
+
+  it('should offer restoring a deleted thread', async () => {
+    const user = userEvent.setup();
+    mockAuth(UserRole.Admin);
+    vi.mocked(forumService.restoreThread).mockResolvedValue(thread);
+    render(<ThreadModerationActions thread={{ ...thread, deleted_at: 1700001000 }} onThreadChange={onThreadChange} />);
+
+    expect(screen.queryByRole('button', { name: 'Merge thread' })).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+
+    await waitFor(() => {
+      expect(forumService.restoreThread).toHaveBeenCalledWith('thread-dup');
+      expect(onThreadChange).toHaveBeenCalledWith(thread);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { UserBadges } from '../UserBadges';
+import { BadgeId } from '../../../types/badge';
+
+// Mock i18n
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        'badges.catalog.first_solution.name': 'Problem Solver',
+        'badges.catalog.first_solution.description': 'Had a reply accepted as the solution',
+        'badges.catalog.featured_blog.name': 'Featured Author',
+        'badges.catalog.featured_blog.description': 'Had a blog post featured',
+      };
+      return translations[key] || key;
+    },
+  }),
+}));
+
+describe('UserBadges', () => {
+  it('should render an icon per badge with its name and description on hover', () => {
+    render(<UserBadges badges={[BadgeId.FirstSolution, BadgeId.FeaturedBlog]} />);
+
+    const badge = screen.getByRole('img', { name: 'Problem Solver' });
+    expect(badge).toHaveTextContent('✅');
+    expect(badge).toHaveAttribute('title', 'Problem Solver: Had a reply accepted as the solution');
+    expect(screen.getByRole('img', { name: 'Featured Author' })).toHaveTextContent('⭐');
+  });
+
+  it('should show badge names when requested', () => {
+    render(<UserBadges badges={[BadgeId.FeaturedBlog]} showNames />);
+
+    expect(screen.getByText('Featured Author')).toHaveAttribute('title', 'Had a blog post featured');
+  });
+
+  it('should skip badges missing from the catalog', () => {
+    render(<UserBadges badges={[BadgeId.FeaturedBlog, 'retired_badge' as BadgeId]} />);
+
+    expect(screen.getAllByRole('img')).toHaveLength(1);
+  });
+
+  it('should render nothing without badges', () => {
+    const { container } = render(<UserBadges badges={undefined} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
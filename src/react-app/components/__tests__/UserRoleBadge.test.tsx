@@ -9,6 +9,7 @@ vi.mock('react-i18next', () => ({
     t: (key: string) => {
       const translations: Record<string, string> = {
         'roles.admin': 'Admin',
+        'roles.moderator': 'Moderator',
         'roles.member': 'Member',
       };
       return translations[key] || key;
@@ -33,6 +34,14 @@ describe('UserRoleBadge', () => {
     expect(badge).toHaveClass('bg-secondary');
   });
 
+  it('should render moderator badge with outline variant', () => {
+    render(<UserRoleBadge role={'moderator' as UserRole} />);
+
+    const badge = screen.getByText('Moderator');
+    expect(badge).toBeInTheDocument();
+    expect(badge).toHaveClass('text-foreground');
+  });
+
   it('should not render when role is undefined', () => {
     const { container } = render(<UserRoleBadge role={undefined} />);
     expect(container.firstChild).toBeNull();
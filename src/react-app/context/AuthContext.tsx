@@ -2,6 +2,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import type { User } from '../../types/user';
 import type { UserRole } from '../../types/role';
+import { refreshSession } from '../services/apiClient';
 
 interface AuthContextType {
   user: User | null;
@@ -15,6 +16,23 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+/**
+ * Fetch the signed-in user
+ * The access token is short-lived, so a 401 is retried once after refreshing the session
+ */
+async function fetchCurrentUser(signal?: AbortSignal): Promise<Response> {
+  const request = () => fetch('/api/v1/auth/me', {
+    credentials: 'include', // Send cookies with request
+    signal,
+  });
+
+  const response = await request();
+  if (response.status === 401 && await refreshSession()) {
+    return request();
+  }
+  return response;
+}
+
 /**
  * AuthProvider component that wraps the application
  * Manages authentication state and provides auth utilities
@@ -30,10 +48,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const restoreSession = async () => {
       try {
-        const response = await fetch('/api/v1/auth/me', {
-          credentials: 'include', // Send cookies with request
-          signal: abortController.signal,
-        });
+        const response = await fetchCurrentUser(abortController.signal);
 
         if (response.ok) {
           const userData = await response.json();
@@ -93,9 +108,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    */
   const getUser = async (): Promise<User | null> => {
     try {
-      const response = await fetch('/api/v1/auth/me', {
-        credentials: 'include', // Send cookies with request
-      });
+      const response = await fetchCurrentUser();
 
       if (!response.ok) {
         if (response.status === 401) {
@@ -2,6 +2,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import type { EnabledFeatures } from '../../types/features';
 import { getEnabledFeatures } from '../services/featureService';
+import { useAuth } from './AuthContext';
 
 interface FeatureContextType {
   features: EnabledFeatures;
@@ -16,8 +17,10 @@ const FeatureContext = createContext<FeatureContextType | undefined>(undefined);
 /**
  * FeatureProvider component that wraps the application
  * Manages feature flags state and provides feature checking utilities
+ * Must be rendered inside AuthProvider: flags are evaluated for the signed-in user
  */
 export function FeatureProvider({ children }: { children: ReactNode }) {
+  const { user, isLoading: authLoading } = useAuth();
   const [features, setFeatures] = useState<EnabledFeatures>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -40,10 +43,15 @@ export function FeatureProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Load features on mount
+  const userId = user?.id;
+  const userRole = user?.role;
+
+  // Load features once the session is restored, and again after login or logout
+  // so targeted flags follow the current user
   useEffect(() => {
+    if (authLoading) return;
     fetchFeatures();
-  }, []);
+  }, [authLoading, userId, userRole]);
 
   /**
    * Check if a feature is enabled
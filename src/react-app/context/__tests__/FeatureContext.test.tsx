@@ -0,0 +1,100 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FeatureProvider, useFeatures } from '../FeatureContext';
+import * as AuthContext from '../AuthContext';
+import { getEnabledFeatures } from '../../services/featureService';
+import { UserRole } from '../../../types/role';
+
+vi.mock('../../services/featureService', () => ({
+  getEnabledFeatures: vi.fn(),
+}));
+
+vi.mock('../AuthContext', async () => {
+  const actual = await vi.importActual('../AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (userId: string | null, isLoading = false) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: userId
+      ? { id: userId, email: 'test@example.com', name: 'Test User', role: UserRole.Member, created_at: 0, updated_at: 0 }
+      : null,
+    isAuthenticated: userId !== null,
+    isLoading,
+    role: userId ? UserRole.Member : undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+function FeatureList() {
+  const { features, loading } = useFeatures();
+  return <div>{loading ? 'loading' : Object.keys(features).sort().join(',') || 'none'}</div>;
+}
+
+describe('FeatureProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should wait for the session to be restored before fetching features', async () => {
+    mockAuth(null, true);
+    vi.mocked(getEnabledFeatures).mockResolvedValue({ blogs: true });
+
+    const { rerender } = render(
+      <FeatureProvider>
+        <FeatureList />
+      </FeatureProvider>
+    );
+    expect(getEnabledFeatures).not.toHaveBeenCalled();
+
+    mockAuth('user-1');
+    rerender(
+      <FeatureProvider>
+        <FeatureList />
+      </FeatureProvider>
+    );
+
+    expect(await screen.findByText('blogs')).toBeInTheDocument();
+    expect(getEnabledFeatures).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch features after login and logout', async () => {
+    mockAuth(null);
+    vi.mocked(getEnabledFeatures).mockResolvedValueOnce({ blogs: true });
+
+    const { rerender } = render(
+      <FeatureProvider>
+        <FeatureList />
+      </FeatureProvider>
+    );
+    expect(await screen.findByText('blogs')).toBeInTheDocument();
+
+    // Log in as a user a flag targets
+    vi.mocked(getEnabledFeatures).mockResolvedValueOnce({ blogs: true, rewards_store: true });
+    mockAuth('user-1');
+    rerender(
+      <FeatureProvider>
+        <FeatureList />
+      </FeatureProvider>
+    );
+    expect(await screen.findByText('blogs,rewards_store')).toBeInTheDocument();
+
+    // Log out again
+    vi.mocked(getEnabledFeatures).mockResolvedValueOnce({ blogs: true });
+    mockAuth(null);
+    rerender(
+      <FeatureProvider>
+        <FeatureList />
+      </FeatureProvider>
+    );
+    await waitFor(() => {
+      expect(screen.getByText('blogs')).toBeInTheDocument();
+    });
+    expect(getEnabledFeatures).toHaveBeenCalledTimes(3);
+  });
+});
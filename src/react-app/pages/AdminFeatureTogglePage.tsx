@@ -3,21 +3,38 @@ import { useTranslation } from 'react-i18next';
 import { useAuth } from '../context/AuthContext';
 import { useFeatures } from '../context/FeatureContext';
 import { Button } from '../components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
 import {
   listAllFeatures,
   createFeature,
   toggleFeature,
+  updateFeatureTargeting,
   deleteFeature,
 } from '../services/featureService';
-import type { FeatureFlag, FeatureFlagCreateRequest } from '../../types/features';
+import type { FeatureFlag, FeatureFlagCreateRequest, FeatureTargeting } from '../../types/features';
+import { FeatureAudience, MAX_FEATURE_TARGET_USERS } from '../../types/features';
 import { UserRole } from '../../types/role';
 import { ApiError } from '../services/apiClient';
 import { toast } from 'sonner';
 import { Navigate } from 'react-router-dom';
 
+/**
+ * Split pasted user IDs on commas, whitespace and newlines
+ */
+function parseUserIds(value: string): string[] {
+  return Array.from(new Set(value.split(/[\s,]+/).filter(Boolean)));
+}
+
 /**
  * AdminFeatureTogglePage Component
- * Allows admins to view and manage feature flags
+ * Allows admins to view and manage feature flags and who each one is turned on for
  */
 export function AdminFeatureTogglePage() {
   const { t } = useTranslation();
@@ -29,6 +46,14 @@ export function AdminFeatureTogglePage() {
   const [updatingFeatureId, setUpdatingFeatureId] = useState<string | null>(null);
   const [deletingFeatureId, setDeletingFeatureId] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingFeature, setEditingFeature] = useState<FeatureFlag | null>(null);
+  const [targeting, setTargeting] = useState<FeatureTargeting>({
+    audience: FeatureAudience.Everyone,
+    target_user_ids: [],
+    rollout_percentage: 100,
+  });
+  const [userIdsInput, setUserIdsInput] = useState('');
+  const [savingTargeting, setSavingTargeting] = useState(false);
   const [newFeature, setNewFeature] = useState<FeatureFlagCreateRequest>({
     feature_key: '',
     display_name: '',
@@ -80,6 +105,62 @@ export function AdminFeatureTogglePage() {
     }
   };
 
+  // Open the targeting dialog for a feature
+  const openTargetingDialog = (feature: FeatureFlag) => {
+    setEditingFeature(feature);
+    setTargeting({
+      audience: feature.audience,
+      target_user_ids: feature.target_user_ids,
+      rollout_percentage: feature.rollout_percentage,
+    });
+    setUserIdsInput(feature.target_user_ids.join('\n'));
+  };
+
+  // Handle save targeting
+  const handleSaveTargeting = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingFeature) return;
+
+    try {
+      setSavingTargeting(true);
+      const updated = await updateFeatureTargeting(editingFeature.id, {
+        ...targeting,
+        target_user_ids: parseUserIds(userIdsInput),
+      });
+      toast.success(t('admin.features.targetingSuccess', 'Targeting updated'));
+
+      // Update local state
+      setFeatures((prev) => prev.map((f) => (f.id === updated.id ? updated : f)));
+      setEditingFeature(null);
+
+      // Refetch enabled features to update global state
+      await refetchEnabledFeatures();
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : 'Failed to update targeting';
+      toast.error(message);
+    } finally {
+      setSavingTargeting(false);
+    }
+  };
+
+  // Describe who a feature is turned on for
+  const describeAudience = (feature: FeatureFlag): string => {
+    switch (feature.audience) {
+      case FeatureAudience.Admins:
+        return t('admin.features.audiences.admins', 'Admins only');
+      case FeatureAudience.Users:
+        return t('admin.features.audienceUsers', '{{count}} selected users', {
+          count: feature.target_user_ids.length,
+        });
+      case FeatureAudience.Percentage:
+        return t('admin.features.audiencePercentage', '{{percentage}}% of users', {
+          percentage: feature.rollout_percentage,
+        });
+      default:
+        return t('admin.features.audiences.everyone', 'Everyone');
+    }
+  };
+
   // Handle delete feature
   const handleDelete = async (featureId: string, displayName: string) => {
     if (!confirm(t('admin.features.confirmDelete', `Delete feature "${displayName}"?`))) {
@@ -264,6 +345,9 @@ export function AdminFeatureTogglePage() {
               <th className="px-6 py-3 text-center text-sm font-medium">
                 {t('admin.features.table.status', 'Status')}
               </th>
+              <th className="px-6 py-3 text-left text-sm font-medium">
+                {t('admin.features.table.audience', 'Audience')}
+              </th>
               <th className="px-6 py-3 text-center text-sm font-medium">
                 {t('admin.features.table.actions', 'Actions')}
               </th>
@@ -292,6 +376,7 @@ export function AdminFeatureTogglePage() {
                       : t('admin.features.disabled', 'Disabled')}
                   </span>
                 </td>
+                <td className="px-6 py-4 text-sm text-muted-foreground">{describeAudience(feature)}</td>
                 <td className="px-6 py-4 text-center space-x-2">
                   <Button
                     size="sm"
@@ -305,6 +390,9 @@ export function AdminFeatureTogglePage() {
                       ? t('admin.features.disable', 'Disable')
                       : t('admin.features.enable', 'Enable')}
                   </Button>
+                  <Button size="sm" variant="outline" onClick={() => openTargetingDialog(feature)}>
+                    {t('admin.features.editTargeting', 'Targeting')}
+                  </Button>
                   <Button
                     size="sm"
                     variant="destructive"
@@ -330,6 +418,111 @@ export function AdminFeatureTogglePage() {
           </p>
         </div>
       )}
+
+      {/* Targeting Dialog */}
+      <Dialog open={editingFeature !== null} onOpenChange={(open) => !open && setEditingFeature(null)}>
+        <DialogContent>
+          {editingFeature && (
+            <form onSubmit={handleSaveTargeting}>
+              <DialogHeader>
+                <DialogTitle>
+                  {t('admin.features.targetingTitle', 'Targeting: {{name}}', {
+                    name: editingFeature.display_name,
+                  })}
+                </DialogTitle>
+                <DialogDescription>
+                  {t(
+                    'admin.features.targetingDescription',
+                    'Choose who this feature is on for while it is enabled. Disabled features are off for everyone.'
+                  )}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 py-4">
+                <div>
+                  <label htmlFor="feature-audience" className="block text-sm font-medium mb-1">
+                    {t('admin.features.audienceLabel', 'Audience')}
+                  </label>
+                  <select
+                    id="feature-audience"
+                    className="w-full px-3 py-2 border rounded-md bg-background"
+                    value={targeting.audience}
+                    onChange={(e) => setTargeting({ ...targeting, audience: e.target.value as FeatureAudience })}
+                  >
+                    <option value={FeatureAudience.Everyone}>
+                      {t('admin.features.audiences.everyone', 'Everyone')}
+                    </option>
+                    <option value={FeatureAudience.Admins}>
+                      {t('admin.features.audiences.admins', 'Admins only')}
+                    </option>
+                    <option value={FeatureAudience.Users}>
+                      {t('admin.features.audiences.users', 'Selected users')}
+                    </option>
+                    <option value={FeatureAudience.Percentage}>
+                      {t('admin.features.audiences.percentage', 'Percentage of users')}
+                    </option>
+                  </select>
+                </div>
+
+                {targeting.audience === FeatureAudience.Users && (
+                  <div>
+                    <label htmlFor="feature-user-ids" className="block text-sm font-medium mb-1">
+                      {t('admin.features.userIdsLabel', 'User IDs')}
+                    </label>
+                    <textarea
+                      id="feature-user-ids"
+                      className="w-full px-3 py-2 border rounded-md font-mono text-sm"
+                      rows={5}
+                      value={userIdsInput}
+                      onChange={(e) => setUserIdsInput(e.target.value)}
+                    />
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {t('admin.features.userIdsHint', 'One per line or comma-separated, up to {{max}}', {
+                        max: MAX_FEATURE_TARGET_USERS,
+                      })}
+                    </p>
+                  </div>
+                )}
+
+                {targeting.audience === FeatureAudience.Percentage && (
+                  <div>
+                    <label htmlFor="feature-percentage" className="block text-sm font-medium mb-1">
+                      {t('admin.features.percentageLabel', 'Rollout percentage')}
+                    </label>
+                    <input
+                      id="feature-percentage"
+                      type="number"
+                      min="0"
+                      max="100"
+                      className="w-full px-3 py-2 border rounded-md"
+                      value={targeting.rollout_percentage}
+                      onChange={(e) =>
+                        setTargeting({ ...targeting, rollout_percentage: parseInt(e.target.value, 10) || 0 })
+                      }
+                      required
+                    />
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {t(
+                        'admin.features.percentageHint',
+                        'Signed-in users are bucketed by user ID, so each user keeps the same result as the percentage grows'
+                      )}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingFeature(null)}>
+                  {t('common.cancel', 'Cancel')}
+                </Button>
+                <Button type="submit" disabled={savingTargeting}>
+                  {savingTargeting ? t('common.saving', 'Saving...') : t('common.save', 'Save')}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -2,10 +2,33 @@ import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../context/AuthContext';
 import { Button } from '../components/ui/button';
+import { Checkbox } from '../components/ui/checkbox';
+import { Label } from '../components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
 import { UserRoleBadge } from '../components/UserRoleBadge';
-import { listUsers, assignRole } from '../services/roleService';
+import { InviteCodesCard } from '../components/InviteCodesCard';
+import { WaitlistCard } from '../components/WaitlistCard';
+import {
+  listUsers,
+  assignRole,
+  listCategoryModerators,
+  assignCategoryModerator,
+  removeCategoryModerator,
+} from '../services/roleService';
+import { forumService } from '../services/forumService';
+import { getUserBadges, awardBadge, revokeBadge } from '../services/badgeService';
+import { revokeUserSessions } from '../services/sessionService';
 import type { User } from '../../types/user';
+import type { ForumCategory, ForumCategoryModerator } from '../../types/forum';
 import { UserRole } from '../../types/role';
+import { BADGE_CATALOG } from '../../types/badge';
+import type { BadgeId } from '../../types/badge';
 import { ApiError } from '../services/apiClient';
 import { toast } from 'sonner';
 import { Navigate } from 'react-router-dom';
@@ -14,7 +37,9 @@ const USERS_PER_PAGE = 50;
 
 /**
  * AdminUsersPage Component
- * Allows admins to view all users and manage their roles
+ * Allows admins to view all users, manage their roles, assign moderators to forum categories,
+ * award or revoke badges, and hand out invite codes or approve the waitlist while
+ * registration is closed
  */
 export function AdminUsersPage() {
   const { t } = useTranslation();
@@ -25,6 +50,13 @@ export function AdminUsersPage() {
   const [offset, setOffset] = useState(0);
   const [total, setTotal] = useState(0);
   const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [categories, setCategories] = useState<ForumCategory[]>([]);
+  const [assignments, setAssignments] = useState<ForumCategoryModerator[]>([]);
+  const [managingUser, setManagingUser] = useState<User | null>(null);
+  const [togglingCategoryId, setTogglingCategoryId] = useState<string | null>(null);
+  const [badgeUser, setBadgeUser] = useState<User | null>(null);
+  const [heldBadges, setHeldBadges] = useState<BadgeId[] | null>(null);
+  const [togglingBadgeId, setTogglingBadgeId] = useState<BadgeId | null>(null);
 
   // Fetch users list
   useEffect(() => {
@@ -47,6 +79,24 @@ export function AdminUsersPage() {
     loadUsers();
   }, [offset]);
 
+  // Fetch forum categories and moderator assignments
+  useEffect(() => {
+    const loadModeration = async () => {
+      try {
+        const [allCategories, moderators] = await Promise.all([
+          forumService.getAllCategories(),
+          listCategoryModerators(),
+        ]);
+        setCategories(allCategories);
+        setAssignments(moderators);
+      } catch {
+        // Role management still works without category assignments
+      }
+    };
+
+    loadModeration();
+  }, []);
+
   // Handle role change
   const handleRoleChange = async (userId: string, newRole: UserRole) => {
     try {
@@ -54,10 +104,13 @@ export function AdminUsersPage() {
       await assignRole(userId, newRole);
       toast.success(t('admin.roleUpdated', 'Role updated successfully'));
 
-      // Update local state
+      // Update local state; the server drops category assignments of non-moderators
       setUsers((prev) =>
         prev.map((u) => (u.id === userId ? { ...u, role: newRole } : u))
       );
+      if (newRole !== UserRole.Moderator) {
+        setAssignments((prev) => prev.filter((a) => a.user_id !== userId));
+      }
     } catch (err) {
       const message = err instanceof ApiError ? err.message : 'Failed to update role';
       toast.error(message);
@@ -66,6 +119,74 @@ export function AdminUsersPage() {
     }
   };
 
+  // Sign a user out on every device, e.g. when their account may be compromised
+  const handleSignOutEverywhere = async (target: User) => {
+    try {
+      setUpdatingUserId(target.id);
+      const revoked = await revokeUserSessions(target.id);
+      toast.success(t('admin.users.signedOut', 'Signed {{name}} out of {{count}} sessions', { name: target.name, count: revoked }));
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.users.signOutError', 'Failed to sign the user out');
+      toast.error(message);
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  // Handle assigning or removing a moderator's category
+  const handleCategoryToggle = async (moderator: User, category: ForumCategory, assigned: boolean) => {
+    try {
+      setTogglingCategoryId(category.id);
+      if (assigned) {
+        const assignment = await assignCategoryModerator(category.id, moderator.id);
+        setAssignments((prev) => [...prev, { ...assignment, user_name: moderator.name, category_name: category.name }]);
+      } else {
+        await removeCategoryModerator(category.id, moderator.id);
+        setAssignments((prev) =>
+          prev.filter((a) => !(a.user_id === moderator.id && a.category_id === category.id))
+        );
+      }
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.users.categoriesUpdateError', 'Failed to update moderated categories');
+      toast.error(message);
+    } finally {
+      setTogglingCategoryId(null);
+    }
+  };
+
+  // Open the badges dialog and load the badges the user holds
+  const handleManageBadges = async (badgeOwner: User) => {
+    setBadgeUser(badgeOwner);
+    setHeldBadges(null);
+    try {
+      const badges = await getUserBadges(badgeOwner.id);
+      setHeldBadges(badges.map((badge) => badge.badge_id));
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.users.badgesLoadError', 'Failed to load badges');
+      toast.error(message);
+      setBadgeUser(null);
+    }
+  };
+
+  // Handle awarding or revoking a badge
+  const handleBadgeToggle = async (badgeOwner: User, badgeId: BadgeId, awarded: boolean) => {
+    try {
+      setTogglingBadgeId(badgeId);
+      if (awarded) {
+        await awardBadge(badgeOwner.id, badgeId);
+        setHeldBadges((prev) => [...(prev || []), badgeId]);
+      } else {
+        await revokeBadge(badgeOwner.id, badgeId);
+        setHeldBadges((prev) => (prev || []).filter((id) => id !== badgeId));
+      }
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('admin.users.badgesUpdateError', 'Failed to update badges');
+      toast.error(message);
+    } finally {
+      setTogglingBadgeId(null);
+    }
+  };
+
   // Check if user is admin
   if (!user || user.role !== UserRole.Admin) {
     return <Navigate to="/" replace />;
@@ -159,6 +280,7 @@ export function AdminUsersPage() {
                 const isCurrentUser = user?.id === userRow.id;
                 const currentRole = userRow.role || UserRole.Member;
                 const isUpdating = updatingUserId === userRow.id;
+                const moderatedCategories = assignments.filter((a) => a.user_id === userRow.id);
 
                 const rowClass = isCurrentUser
                   ? 'bg-yellow-50 dark:bg-yellow-950/20'
@@ -188,12 +310,19 @@ export function AdminUsersPage() {
                     {/* Current Role */}
                     <td className="px-4 py-3">
                       <UserRoleBadge role={currentRole} />
+                      {currentRole === UserRole.Moderator && moderatedCategories.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {t('admin.users.moderates', 'Moderates: {{categories}}', {
+                            categories: moderatedCategories.map((a) => a.category_name).join(', '),
+                          })}
+                        </p>
+                      )}
                     </td>
 
                     {/* Actions */}
                     <td className="px-4 py-3">
-                      <div className="flex gap-2">
-                        {currentRole === UserRole.Member ? (
+                      <div className="flex flex-wrap gap-2">
+                        {currentRole !== UserRole.Admin && (
                           <Button
                             size="sm"
                             variant="outline"
@@ -202,7 +331,18 @@ export function AdminUsersPage() {
                           >
                             {isUpdating ? t('common.loading', 'Loading...') : t('admin.users.makeAdmin', 'Make Admin')}
                           </Button>
-                        ) : (
+                        )}
+                        {currentRole === UserRole.Member && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRoleChange(userRow.id, UserRole.Moderator)}
+                            disabled={isUpdating}
+                          >
+                            {isUpdating ? t('common.loading', 'Loading...') : t('admin.users.makeModerator', 'Make Moderator')}
+                          </Button>
+                        )}
+                        {currentRole !== UserRole.Member && (
                           <Button
                             size="sm"
                             variant="outline"
@@ -212,6 +352,36 @@ export function AdminUsersPage() {
                             {isUpdating ? t('common.loading', 'Loading...') : t('admin.users.removeMember', 'Demote to Member')}
                           </Button>
                         )}
+                        {currentRole === UserRole.Moderator && (
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => setManagingUser(userRow)}
+                            disabled={isUpdating}
+                          >
+                            {t('admin.users.manageCategories', 'Categories ({{count}})', {
+                              count: moderatedCategories.length,
+                            })}
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => handleManageBadges(userRow)}
+                          disabled={isUpdating}
+                        >
+                          {t('admin.users.manageBadges', 'Badges')}
+                        </Button>
+                        {!isCurrentUser && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleSignOutEverywhere(userRow)}
+                            disabled={isUpdating}
+                          >
+                            {t('admin.users.signOutEverywhere', 'Sign out everywhere')}
+                          </Button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -249,6 +419,99 @@ export function AdminUsersPage() {
           </div>
         </div>
       )}
+
+      {/* Closed Registration */}
+      <WaitlistCard />
+      <InviteCodesCard />
+
+      {/* Moderated Categories Dialog */}
+      <Dialog open={managingUser !== null} onOpenChange={(open) => !open && setManagingUser(null)}>
+        <DialogContent className="max-w-md">
+          {managingUser && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {t('admin.users.categoriesTitle', 'Moderated categories for {{name}}', { name: managingUser.name })}
+                </DialogTitle>
+                <DialogDescription>
+                  {t(
+                    'admin.users.categoriesDescription',
+                    'Moderators can pin, close, move and delete threads in these categories.'
+                  )}
+                </DialogDescription>
+              </DialogHeader>
+
+              {categories.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {t('admin.users.noCategories', 'No forum categories yet')}
+                </p>
+              ) : (
+                <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                  {categories.map((category) => {
+                    const checked = assignments.some(
+                      (a) => a.user_id === managingUser.id && a.category_id === category.id
+                    );
+                    return (
+                      <div key={category.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`moderated-category-${category.id}`}
+                          checked={checked}
+                          onCheckedChange={(value) => handleCategoryToggle(managingUser, category, value === true)}
+                          disabled={togglingCategoryId !== null}
+                        />
+                        <Label htmlFor={`moderated-category-${category.id}`} className="font-normal">
+                          {category.parent_id ? `— ${category.name}` : category.name}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Badges Dialog */}
+      <Dialog open={badgeUser !== null} onOpenChange={(open) => !open && setBadgeUser(null)}>
+        <DialogContent className="max-w-md">
+          {badgeUser && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {t('admin.users.badgesTitle', 'Badges of {{name}}', { name: badgeUser.name })}
+                </DialogTitle>
+                <DialogDescription>
+                  {t(
+                    'admin.users.badgesDescription',
+                    'Revoked badges are not granted again automatically.'
+                  )}
+                </DialogDescription>
+              </DialogHeader>
+
+              {!heldBadges ? (
+                <p className="text-sm text-muted-foreground">{t('common.loading', 'Loading...')}</p>
+              ) : (
+                <div className="space-y-3">
+                  {BADGE_CATALOG.map((badge) => (
+                    <div key={badge.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`badge-${badge.id}`}
+                        checked={heldBadges.includes(badge.id)}
+                        onCheckedChange={(value) => handleBadgeToggle(badgeUser, badge.id, value === true)}
+                        disabled={togglingBadgeId !== null}
+                      />
+                      <Label htmlFor={`badge-${badge.id}`} className="font-normal">
+                        {badge.icon} {t(`badges.catalog.${badge.id}.name`)}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
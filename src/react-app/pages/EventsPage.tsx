@@ -1,7 +1,16 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { ExternalLink } from 'lucide-react';
-import { events } from '../data/events';
+import { CalendarPlus, Download, ExternalLink, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../context/AuthContext';
+import { getEvents, rsvpToEvent, cancelRsvp, getEventIcsUrl } from '../services/eventService';
+import { ApiError } from '../services/apiClient';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { EventCalendarDialog } from '../components/EventCalendarDialog';
 import {
+  EventRsvpStatus,
   formatEventDate,
   formatEventTime,
   isUpcomingEvent,
@@ -10,12 +19,66 @@ import {
 
 /**
  * EventsPage Component
- * Displays upcoming and past community events from Luma
+ * Displays upcoming and past community events
  * Shows upcoming events at the top, past events below
- * Clicking an event opens the Luma event page in a new tab
+ * Members RSVP to upcoming events, or join the waitlist once an event is full
+ * Events can be added to a calendar one by one, or subscribed to as a feed
+ * Clicking an event that is also listed on Luma opens its Luma page in a new tab
  */
 export function EventsPage() {
   const { t } = useTranslation();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingEventId, setPendingEventId] = useState<string | null>(null);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setEvents(await getEvents());
+      } catch {
+        setError(t('events.loadError', 'Failed to load events'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, [userId, t]);
+
+  const handleRsvp = async (event: Event, attending: boolean) => {
+    if (!user) {
+      navigate('/login', { state: { from: location.pathname } });
+      return;
+    }
+
+    try {
+      setPendingEventId(event.id);
+      const response = attending ? await rsvpToEvent(event.id) : await cancelRsvp(event.id);
+      setEvents((prev) => prev.map((item) => (item.id === event.id ? response.event : item)));
+
+      if (response.rsvp.status === EventRsvpStatus.Going) {
+        toast.success(t('events.rsvpSuccess', "You're going to {{name}}", { name: event.name }));
+      } else if (response.rsvp.status === EventRsvpStatus.Waitlisted) {
+        toast.success(t('events.waitlistSuccess', "You're on the waitlist for {{name}}", { name: event.name }));
+      } else {
+        toast.success(t('events.cancelSuccess', 'Your RSVP was cancelled'));
+      }
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : t('events.rsvpError', 'Failed to update your RSVP'));
+    } finally {
+      setPendingEventId(null);
+    }
+  };
 
   // Separate upcoming and past events
   const upcomingEvents = events.filter((event) => isUpcomingEvent(event.start_at));
@@ -32,20 +95,45 @@ export function EventsPage() {
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div className="space-y-2">
-        <h1 className="text-3xl font-bold">{t('events.title', 'Events')}</h1>
-        <p className="text-muted-foreground">
-          {t('events.subtitle', 'Discover and join our community events')}
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">{t('events.title', 'Events')}</h1>
+          <p className="text-muted-foreground">
+            {t('events.subtitle', 'Discover and join our community events')}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setCalendarOpen(true)}>
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          {t('events.calendar.subscribe', 'Subscribe')}
+        </Button>
       </div>
 
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      )}
+
       {/* Upcoming Events Section */}
       {upcomingEvents.length > 0 && (
         <div className="space-y-4">
           <h2 className="text-2xl font-semibold">{t('events.upcomingEvents', 'Upcoming Events')}</h2>
           <div className="grid gap-4">
             {upcomingEvents.map((event) => (
-              <EventCard key={event.id} event={event} />
+              <EventCard
+                key={event.id}
+                event={event}
+                onRsvp={(attending) => handleRsvp(event, attending)}
+                isPending={pendingEventId === event.id}
+              />
             ))}
           </div>
         </div>
@@ -64,11 +152,13 @@ export function EventsPage() {
       )}
 
       {/* Empty state */}
-      {upcomingEvents.length === 0 && pastEvents.length === 0 && (
+      {!loading && !error && upcomingEvents.length === 0 && pastEvents.length === 0 && (
         <div className="flex items-center justify-center min-h-[300px]">
           <p className="text-muted-foreground">{t('events.noEvents', 'No events found')}</p>
         </div>
       )}
+
+      <EventCalendarDialog isOpen={calendarOpen} onOpenChange={setCalendarOpen} />
     </div>
   );
 }
@@ -76,21 +166,25 @@ export function EventsPage() {
 interface EventCardProps {
   event: Event;
   isPast?: boolean;
+  onRsvp?: (attending: boolean) => void;
+  isPending?: boolean;
 }
 
-function EventCard({ event, isPast }: EventCardProps) {
+function EventCard({ event, isPast, onRsvp, isPending }: EventCardProps) {
   const { t } = useTranslation();
 
   const handleClick = () => {
-    window.open(event.luma_url, '_blank');
+    if (event.luma_url) {
+      window.open(event.luma_url, '_blank');
+    }
   };
 
   return (
     <div
       onClick={handleClick}
       className={`
-        cursor-pointer rounded-lg border overflow-hidden
-        transition-all hover:shadow-md hover:border-primary/50
+        rounded-lg border overflow-hidden transition-all
+        ${event.luma_url ? 'cursor-pointer hover:shadow-md hover:border-primary/50' : ''}
         ${isPast ? 'opacity-75' : 'bg-card'}
       `}
     >
@@ -158,13 +252,57 @@ function EventCard({ event, isPast }: EventCardProps) {
           {/* Attendees and Open Button */}
           <div className="flex items-center justify-between">
             <div className="text-xs text-muted-foreground">
-              {t('events.attendees', '{{count}} attendees', { count: event.ticket_count })}
-            </div>
-            <div className="flex items-center gap-2 text-primary hover:gap-3 transition-all">
-              <span className="text-sm font-medium">{t('events.viewEvent', 'View Event')}</span>
-              <ExternalLink className="w-4 h-4" />
+              {t('events.attendees', '{{count}} attendees', { count: event.guest_count })}
+              {!isPast && typeof event.capacity === 'number' && (
+                <span>
+                  {' · '}
+                  {event.ticket_info.is_sold_out
+                    ? t('events.full', 'Full')
+                    : t('events.spotsLeft', '{{count}} spots left', { count: event.ticket_info.spots_remaining })}
+                </span>
+              )}
             </div>
+            {event.luma_url && (
+              <div className="flex items-center gap-2 text-primary hover:gap-3 transition-all">
+                <span className="text-sm font-medium">{t('events.viewEvent', 'View Event')}</span>
+                <ExternalLink className="w-4 h-4" />
+              </div>
+            )}
           </div>
+
+          {/* RSVP */}
+          {onRsvp && (
+            <div className="flex flex-wrap items-center gap-2 mt-4" onClick={(e) => e.stopPropagation()}>
+              {event.my_rsvp === EventRsvpStatus.Going || event.my_rsvp === EventRsvpStatus.Waitlisted ? (
+                <>
+                  <Badge variant={event.my_rsvp === EventRsvpStatus.Going ? 'default' : 'secondary'}>
+                    {event.my_rsvp === EventRsvpStatus.Going
+                      ? t('events.going', "You're going")
+                      : t('events.waitlisted', 'On the waitlist')}
+                  </Badge>
+                  <Button variant="outline" size="sm" onClick={() => onRsvp(false)} disabled={isPending}>
+                    {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {event.my_rsvp === EventRsvpStatus.Going
+                      ? t('events.cancelRsvp', 'Cancel RSVP')
+                      : t('events.leaveWaitlist', 'Leave waitlist')}
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" onClick={() => onRsvp(true)} disabled={isPending}>
+                  {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {event.ticket_info.is_sold_out
+                    ? t('events.joinWaitlist', 'Join waitlist')
+                    : t('events.rsvp', 'RSVP')}
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" asChild>
+                <a href={getEventIcsUrl(event.id)} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  {t('events.calendar.addToCalendar', 'Add to calendar')}
+                </a>
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
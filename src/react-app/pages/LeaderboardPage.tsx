@@ -1,20 +1,47 @@
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { Button } from '../components/ui/button';
 import { UserPointsBadge } from '../components/UserPointsBadge';
 import { PointsInfoDialog } from '../components/PointsInfoDialog';
-import { getLeaderboard } from '../services/pointsService';
-import type { LeaderboardEntry } from '../../types/api';
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { Input } from '../components/ui/input';
+import { getLeaderboard, getLeaderboardWinners } from '../services/pointsService';
+import type { GetLeaderboardRequest, LeaderboardEntry, LeaderboardWindow, LeaderboardWinnersPeriod } from '../../types/api';
+import {
+  LeaderboardPeriod,
+  LeaderboardSource,
+  getLeaderboardPeriodBounds,
+  type ClosingLeaderboardPeriod,
+} from '../../types/points';
 import { ApiError } from '../services/apiClient';
 import { toast } from 'sonner';
-import { HelpCircle } from 'lucide-react';
+import { ChevronLeft, ChevronRight, HelpCircle } from 'lucide-react';
 
 const USERS_PER_PAGE = 50;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Convert a yyyy-mm-dd date input value to a Unix timestamp at UTC midnight
+ */
+const dateInputToTimestamp = (value: string): number | null => {
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time / 1000;
+};
+
+const formatPeriodDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' });
 
 /**
  * LeaderboardPage Component
  * Displays ranked list of users sorted by points
+ * Tabs switch between the all-time board and weekly, monthly and custom-range boards,
+ * optionally limited to one source of points. Closed weeks and months can be paged back
+ * through, with each one's winners listed below the board.
  * Shows user's own position highlighted
  */
 export function LeaderboardPage() {
@@ -26,16 +53,51 @@ export function LeaderboardPage() {
   const [offset, setOffset] = useState(0);
   const [total, setTotal] = useState(0);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [period, setPeriod] = useState<LeaderboardPeriod>(LeaderboardPeriod.AllTime);
+  const [source, setSource] = useState<LeaderboardSource>(LeaderboardSource.All);
+  // Any time within the week or month being shown; null for the current one
+  const [periodAnchor, setPeriodAnchor] = useState<number | null>(null);
+  const [customStart, setCustomStart] = useState('');
+  const [customEnd, setCustomEnd] = useState('');
+  const [boardWindow, setBoardWindow] = useState<LeaderboardWindow | null>(null);
+  const [currentUserEntry, setCurrentUserEntry] = useState<LeaderboardEntry | null>(null);
+  const [pastWinners, setPastWinners] = useState<LeaderboardWinnersPeriod[]>([]);
+
+  const customStartTimestamp = dateInputToTimestamp(customStart);
+  const customEndDate = dateInputToTimestamp(customEnd);
+  // The end date is inclusive, so the range runs to the following midnight
+  const customEndTimestamp = customEndDate === null ? null : customEndDate + DAY_SECONDS;
+  const customRangeReady =
+    customStartTimestamp !== null && customEndTimestamp !== null && customEndTimestamp > customStartTimestamp;
+  const waitingForRange = period === LeaderboardPeriod.Custom && !customRangeReady;
 
   // Fetch leaderboard
   useEffect(() => {
+    if (waitingForRange) {
+      setUsers([]);
+      setTotal(0);
+      setBoardWindow(null);
+      setCurrentUserEntry(null);
+      setLoading(false);
+      return;
+    }
+
     const loadLeaderboard = async () => {
       try {
         setLoading(true);
         setError(null);
-        const response = await getLeaderboard(USERS_PER_PAGE, offset);
+        const window: Pick<GetLeaderboardRequest, 'period' | 'source' | 'start' | 'end'> = { period, source };
+        if (period === LeaderboardPeriod.Custom) {
+          window.start = customStartTimestamp ?? undefined;
+          window.end = customEndTimestamp ?? undefined;
+        } else if (periodAnchor !== null) {
+          window.start = periodAnchor;
+        }
+        const response = await getLeaderboard(USERS_PER_PAGE, offset, window);
         setUsers(response.users);
         setTotal(response.total);
+        setBoardWindow(response.window ?? null);
+        setCurrentUserEntry(response.current_user ?? null);
       } catch (err) {
         const message = err instanceof ApiError ? err.message : 'Failed to load leaderboard';
         setError(message);
@@ -46,7 +108,43 @@ export function LeaderboardPage() {
     };
 
     loadLeaderboard();
-  }, [offset]);
+  }, [offset, period, source, periodAnchor, waitingForRange, customStartTimestamp, customEndTimestamp]);
+
+  // Fetch past winners for weekly and monthly boards
+  useEffect(() => {
+    if (period !== LeaderboardPeriod.Week && period !== LeaderboardPeriod.Month) {
+      setPastWinners([]);
+      return;
+    }
+
+    const loadPastWinners = async () => {
+      try {
+        const response = await getLeaderboardWinners(period as ClosingLeaderboardPeriod, source);
+        setPastWinners(response.periods);
+      } catch {
+        // Past winners are supplementary; the board itself still loads
+        setPastWinners([]);
+      }
+    };
+
+    loadPastWinners();
+  }, [period, source]);
+
+  const handlePeriodChange = (value: string) => {
+    setPeriod(value as LeaderboardPeriod);
+    setPeriodAnchor(null);
+    setOffset(0);
+  };
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as LeaderboardSource);
+    setOffset(0);
+  };
+
+  const showPeriod = (anchor: number | null) => {
+    setPeriodAnchor(anchor);
+    setOffset(0);
+  };
 
   // Calculate pagination info
   const hasNextPage = offset + USERS_PER_PAGE < total;
@@ -62,15 +160,141 @@ export function LeaderboardPage() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  // Find current user's rank
-  const currentUserEntry = users.find((entry) => entry.user_id === user?.id);
-  const userRank = currentUserEntry?.rank;
+  // Find current user's rank, falling back to this page when the API didn't return it
+  const userRank = (currentUserEntry ?? users.find((entry) => entry.user_id === user?.id))?.rank;
+  const isClosingPeriod = period === LeaderboardPeriod.Week || period === LeaderboardPeriod.Month;
+  const periodStart = isClosingPeriod ? boardWindow?.start ?? null : null;
+  const periodEnd = isClosingPeriod ? boardWindow?.end ?? null : null;
+
+  const controls = (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <Tabs value={period} onValueChange={handlePeriodChange}>
+          <TabsList>
+            {Object.values(LeaderboardPeriod).map((value) => (
+              <TabsTrigger key={value} value={value}>
+                {t(`leaderboard.periods.${value}`)}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="w-48 space-y-1">
+          <label htmlFor="leaderboard-source" className="text-sm font-medium">
+            {t('leaderboard.sourceLabel', 'Points from')}
+          </label>
+          <select
+            id="leaderboard-source"
+            className={selectClassName}
+            value={source}
+            onChange={(e) => handleSourceChange(e.target.value)}
+          >
+            {Object.values(LeaderboardSource).map((value) => (
+              <option key={value} value={value}>
+                {t(`leaderboard.sources.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {period === LeaderboardPeriod.Custom && (
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-1">
+            <label htmlFor="leaderboard-from" className="text-sm font-medium">
+              {t('leaderboard.from', 'From')}
+            </label>
+            <Input
+              id="leaderboard-from"
+              type="date"
+              value={customStart}
+              onChange={(e) => {
+                setCustomStart(e.target.value);
+                setOffset(0);
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="leaderboard-to" className="text-sm font-medium">
+              {t('leaderboard.to', 'To')}
+            </label>
+            <Input
+              id="leaderboard-to"
+              type="date"
+              value={customEnd}
+              onChange={(e) => {
+                setCustomEnd(e.target.value);
+                setOffset(0);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {periodStart !== null && periodEnd !== null && (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => showPeriod(getLeaderboardPeriodBounds(period as ClosingLeaderboardPeriod, periodStart - 1).start)}
+            disabled={loading}
+            aria-label={t('leaderboard.previousPeriod', 'Earlier')}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {formatPeriodDate(periodStart)} – {formatPeriodDate(periodEnd - DAY_SECONDS)}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => showPeriod(periodEnd)}
+            disabled={loading || !boardWindow?.is_final}
+            aria-label={t('leaderboard.nextPeriod', 'Later')}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {boardWindow?.is_final && (
+            <span className="text-xs bg-accent/15 text-accent-foreground px-2.5 py-1 rounded-full font-bold">
+              {t('leaderboard.finalResults', 'Final results')}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const pastWinnersSection = isClosingPeriod && (
+    <section className="space-y-3">
+      <h2 className="text-xl font-bold">{t('leaderboard.pastWinners', 'Past winners')}</h2>
+      {pastWinners.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('leaderboard.noPastWinners', 'No closed periods yet')}</p>
+      ) : (
+        <ul className="border rounded-lg divide-y">
+          {pastWinners.map((entry) => (
+            <li key={entry.start} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+              <button
+                type="button"
+                className="text-sm font-medium hover:underline"
+                onClick={() => showPeriod(entry.start)}
+              >
+                {formatPeriodDate(entry.start)} – {formatPeriodDate(entry.end - DAY_SECONDS)}
+              </button>
+              <span className="text-sm text-muted-foreground">
+                {entry.winners.map((winner) => `#${winner.rank} ${winner.name}`).join(' · ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
 
   // Render loading state
   if (loading && users.length === 0) {
     return (
       <div className="space-y-4">
         <h1 className="text-3xl font-bold">{t('leaderboard.title', 'Leaderboard')}</h1>
+        {controls}
         <div className="flex items-center justify-center min-h-[400px]">
           <p className="text-muted-foreground">{t('common.loading', 'Loading...')}</p>
         </div>
@@ -83,6 +307,7 @@ export function LeaderboardPage() {
     return (
       <div className="space-y-6">
         <h1 className="text-3xl font-bold">{t('leaderboard.title', 'Leaderboard')}</h1>
+        {controls}
         <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
           <p className="text-destructive">{error}</p>
           <Button onClick={() => setOffset(0)}>
@@ -103,9 +328,15 @@ export function LeaderboardPage() {
             {t('leaderboard.subtitle', 'Top contributors in our community')}
           </p>
         </div>
+        {controls}
         <div className="flex items-center justify-center min-h-[400px]">
-          <p className="text-muted-foreground">{t('leaderboard.noData', 'No leaderboard data yet')}</p>
+          <p className="text-muted-foreground">
+            {waitingForRange
+              ? t('leaderboard.pickRange', 'Choose a start and end date to see who earned the most points')
+              : t('leaderboard.noData', 'No leaderboard data yet')}
+          </p>
         </div>
+        {pastWinnersSection}
       </div>
     );
   }
@@ -133,6 +364,15 @@ export function LeaderboardPage() {
         </Button>
       </div>
 
+      {controls}
+
+      {/* Signed-in user without points in this window */}
+      {user && !userRank && period !== LeaderboardPeriod.AllTime && (
+        <p className="text-sm text-muted-foreground">
+          {t('leaderboard.notRanked', "You haven't earned points in this period yet")}
+        </p>
+      )}
+
       {/* User's rank info (if logged in and on leaderboard) */}
       {user && userRank && (
         <div className="relative bg-gradient-to-r from-primary/10 via-accent/10 to-secondary/10 border border-primary/20 rounded-xl p-5 overflow-hidden">
@@ -146,6 +386,9 @@ export function LeaderboardPage() {
                 rank: `#${userRank}`,
               })}
             </p>
+            <Link to="/my-points" className="mt-1 inline-block text-sm font-medium text-primary hover:underline">
+              {t('points.viewHistory', 'View points history')}
+            </Link>
           </div>
         </div>
       )}
@@ -222,6 +465,7 @@ export function LeaderboardPage() {
                         showRank={false}
                         variant="sm"
                         showBadge={false}
+                        to={isCurrentUser ? '/my-points' : undefined}
                       />
                     </td>
                   </tr>
@@ -260,6 +504,8 @@ export function LeaderboardPage() {
         </div>
       )}
 
+      {pastWinnersSection}
+
       {/* Points Info Dialog */}
       <PointsInfoDialog open={dialogOpen} onOpenChange={setDialogOpen} />
     </div>
@@ -1,14 +1,23 @@
 import { useState, useEffect } from 'react';
-import { useLocation } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { Github, KeyRound } from 'lucide-react';
+import { useFeatures } from '../context/FeatureContext';
 import { isWeChatBrowser } from '../utils/wechatDetection';
 import { WeChatLoginWarning } from '../components/WeChatLoginWarning';
+import { OAuthProviderId } from '../../types/user';
+import type { OAuthProviderInfo, GetOAuthProvidersResponse } from '../../types/user';
 import '../styles/LoginPage.css';
 
+// Offered until the configured providers have loaded
+const DEFAULT_PROVIDERS: OAuthProviderInfo[] = [{ id: OAuthProviderId.Google, name: 'Google' }];
+
 export function LoginPage() {
   const location = useLocation();
   const { t } = useTranslation();
-  const [isLoading, setIsLoading] = useState(false);
+  const { isFeatureEnabled, loading: featuresLoading } = useFeatures();
+  const [providers, setProviders] = useState<OAuthProviderInfo[]>(DEFAULT_PROVIDERS);
+  const [signingInWith, setSigningInWith] = useState<OAuthProviderId | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Detect if user is in WeChat browser
@@ -18,6 +27,30 @@ export function LoginPage() {
     setInWeChat(isWeChatBrowser());
   }, []);
 
+  // Load the sign-in providers that are configured
+  useEffect(() => {
+    const loadProviders = async () => {
+      try {
+        const response = await fetch('/api/v1/auth/providers', { credentials: 'include' });
+        if (!response.ok) {
+          return;
+        }
+        const data = await response.json() as GetOAuthProvidersResponse;
+        if (Array.isArray(data.providers) && data.providers.length > 0) {
+          setProviders(data.providers);
+        }
+      } catch {
+        // Keep offering Google
+      }
+    };
+
+    loadProviders();
+  }, []);
+
+  // Invite code from an invite link (/login?invite=CODE), carried through the provider's OAuth state
+  const invite = new URLSearchParams(location.search).get('invite')?.trim() || null;
+  const registrationClosed = !featuresLoading && !isFeatureEnabled('public_registration');
+
   // Save the return URL when landing on login page
   useEffect(() => {
     const from = (location.state as { from?: string })?.from;
@@ -27,19 +60,22 @@ export function LoginPage() {
   }, [location]);
 
   /**
-   * Initiates Google OAuth login flow
+   * Initiates the OAuth login flow of a provider
    */
-  const handleGoogleSignIn = async () => {
+  const handleSignIn = async (provider: OAuthProviderId) => {
     try {
-      setIsLoading(true);
+      setSigningInWith(provider);
       setError(null);
 
       // Get login URL from backend
       const params = new URLSearchParams({
-        redirect_uri: `${window.location.origin}/auth/google/callback`,
+        redirect_uri: `${window.location.origin}/auth/${provider}/callback`,
       });
+      if (invite) {
+        params.set('invite', invite);
+      }
 
-      const response = await fetch(`/api/v1/auth/google/login?${params.toString()}`, {
+      const response = await fetch(`/api/v1/auth/${provider}/login?${params.toString()}`, {
         method: 'GET',
         credentials: 'include',
       });
@@ -53,16 +89,21 @@ export function LoginPage() {
         throw new Error('No login URL provided');
       }
 
-      // Redirect to Google's OAuth consent screen
+      // Redirect to the provider's OAuth consent screen
       window.location.href = data.url;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during login');
-      setIsLoading(false);
+      setSigningInWith(null);
     }
   };
 
-  // Show WeChat warning for WeChat users
-  if (inWeChat) {
+  // Google blocks sign-in inside WeChat's in-app browser, but other providers work there
+  const availableProviders = inWeChat
+    ? providers.filter((provider) => provider.id !== OAuthProviderId.Google)
+    : providers;
+
+  // Show WeChat warning when WeChat users have no provider they can use
+  if (inWeChat && availableProviders.length === 0) {
     return (
       <div className="login-container">
         <WeChatLoginWarning />
@@ -81,45 +122,72 @@ export function LoginPage() {
 
         {error && <div className="login-error">{error}</div>}
 
-        <button
-          className="google-signin-btn"
-          onClick={handleGoogleSignIn}
-          disabled={isLoading}
-        >
-          {isLoading ? (
-            <>
-              <span className="spinner"></span>
-              {t('auth.signingIn')}
-            </>
-          ) : (
-            <>
-              <svg className="google-icon" viewBox="0 0 24 24">
-                <path
-                  fill="currentColor"
-                  d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                />
-              </svg>
-              {t('auth.signInWithGoogle')}
-            </>
-          )}
-        </button>
+        {invite && (
+          <div className="login-notice">{t('auth.inviteNotice', { code: invite })}</div>
+        )}
+
+        {inWeChat && (
+          <div className="login-notice">{t('auth.wechatGoogleUnavailable')}</div>
+        )}
+
+        <div className="login-providers">
+          {availableProviders.map((provider) => (
+            <button
+              key={provider.id}
+              className={provider.id === OAuthProviderId.Google ? 'google-signin-btn' : 'provider-signin-btn'}
+              onClick={() => handleSignIn(provider.id)}
+              disabled={signingInWith !== null}
+            >
+              {signingInWith === provider.id ? (
+                <>
+                  <span className="spinner"></span>
+                  {t('auth.signingIn')}
+                </>
+              ) : provider.id === OAuthProviderId.Google ? (
+                <>
+                  <svg className="google-icon" viewBox="0 0 24 24">
+                    <path
+                      fill="currentColor"
+                      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                    />
+                  </svg>
+                  {t('auth.signInWithGoogle')}
+                </>
+              ) : (
+                <>
+                  {provider.id === OAuthProviderId.GitHub ? (
+                    <Github className="provider-icon" />
+                  ) : (
+                    <KeyRound className="provider-icon" />
+                  )}
+                  {t('auth.signInWith', { provider: provider.name })}
+                </>
+              )}
+            </button>
+          ))}
+        </div>
 
         <div className="login-footer">
           <p>
             {t('auth.platformDescription')}
           </p>
+          {registrationClosed && !invite && (
+            <p>
+              {t('auth.registrationClosed')} <Link to="/waitlist">{t('auth.joinWaitlist')}</Link>
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -1,8 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
+import { MessageSquare } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardFooter } from '../components/ui/card';
 import { StatusBadge } from '../components/StatusBadge';
+import { MatchSessionList } from '../components/MatchSessionList';
+import { MentorReviewDialog } from '../components/MentorReviewDialog';
+import { MatchConversationDialog } from '../components/MatchConversationDialog';
 import { Empty, EmptyContent, EmptyTitle, EmptyDescription } from '../components/ui/empty';
 import { Avatar, AvatarFallback } from '../components/ui/avatar';
 import { Label } from '../components/ui/label';
@@ -205,6 +209,7 @@ export function MatchesList() {
                           role="mentee"
                           onRespond={handleRespond}
                           onComplete={handleComplete}
+                          onReviewed={fetchMatches}
                         />
                       ))}
                     </div>
@@ -257,14 +262,23 @@ function MatchCard({
   role,
   onRespond,
   onComplete,
+  onReviewed,
 }: {
   match: Match;
   role: 'mentor' | 'mentee';
   onRespond?: (matchId: string, action: 'accept' | 'reject') => void;
   onComplete?: (matchId: string) => void;
+  onReviewed?: () => void;
 }) {
   const { t } = useTranslation();
   const [loadingCv, setLoadingCv] = useState(false);
+  const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
+  const [isConversationOpen, setIsConversationOpen] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(match.unread_message_count || 0);
+  const handleMessagesRead = useCallback(() => setUnreadMessages(0), []);
+
+  // Mentees can review the mentor once per completed match, unless the mentor turned reviews off
+  const canReview = role === 'mentee' && match.status === 'completed' && !!match.mentor_allow_reviews;
 
   // Display mentor or mentee name, with ID fallback
   const displayName = role === 'mentor'
@@ -358,6 +372,22 @@ function MatchCard({
                 </a>
               </div>
             )}
+
+            {/* Scheduled sessions; new proposals only while the match is active */}
+            <MatchSessionList matchId={match.id} canSchedule={match.status === 'active'} />
+
+            {/* Private conversation; read-only once the match is completed */}
+            {(match.status === 'active' || match.status === 'completed') && (
+              <Button size="sm" variant="outline" className="w-full" onClick={() => setIsConversationOpen(true)}>
+                <MessageSquare className="w-4 h-4 mr-1" />
+                {t('messages.open')}
+                {unreadMessages > 0 && (
+                  <span className="ml-2 rounded-full bg-destructive px-2 text-xs font-semibold text-white">
+                    {t('messages.unread', { count: unreadMessages })}
+                  </span>
+                )}
+              </Button>
+            )}
           </>
         )}
 
@@ -464,12 +494,43 @@ function MatchCard({
                 {loadingCv ? t('matches.downloadingCv') : t('matches.viewCv')}
               </Button>
             )}
+            {canReview && !match.has_review && (
+              <Button size="sm" className="flex-1" onClick={() => setIsReviewDialogOpen(true)}>
+                {t('reviews.leaveReview')}
+              </Button>
+            )}
+            {canReview && !!match.has_review && (
+              <Button size="sm" variant="outline" className="flex-1" disabled>
+                {t('reviews.reviewed')}
+              </Button>
+            )}
             <Button size="sm" variant="outline" className="flex-1" disabled>
               {t('matches.viewDetails')}
             </Button>
           </>
         )}
       </CardFooter>
+
+      {(match.status === 'active' || match.status === 'completed') && (
+        <MatchConversationDialog
+          matchId={match.id}
+          otherName={displayName}
+          canSend={match.status === 'active'}
+          isOpen={isConversationOpen}
+          onOpenChange={setIsConversationOpen}
+          onRead={handleMessagesRead}
+        />
+      )}
+
+      {canReview && (
+        <MentorReviewDialog
+          matchId={match.id}
+          mentorName={displayName}
+          isOpen={isReviewDialogOpen}
+          onOpenChange={setIsReviewDialogOpen}
+          onSuccess={onReviewed}
+        />
+      )}
     </Card>
   );
 }
@@ -20,6 +20,7 @@ import { searchMentors } from '../services/mentorService';
 import { getMatches } from '../services/matchService';
 import { handleApiError } from '../services/apiClient';
 import type { MentorProfile } from '../../types/mentor';
+import { DAY_OF_WEEK_KEYS, getLocalTimezone } from '../../types/availability';
 
 /**
  * MentorBrowse page
@@ -48,6 +49,11 @@ export function MentorBrowse() {
       nick_name: '',
       expertise_domains: 0,
       expertise_topics_preset: 0,
+      available_day: -1,
+      available_start: '',
+      available_end: '',
+      min_rating: 0,
+      sort: 'newest' as 'newest' | 'rating',
     },
   });
 
@@ -81,6 +87,8 @@ export function MentorBrowse() {
     setLoading(true);
     try {
       const values = form.getValues();
+      // Availability window only applies once a day and both times are chosen
+      const hasAvailabilityWindow = values.available_day >= 0 && !!values.available_start && !!values.available_end;
       const data = await searchMentors({
         limit: itemsPerPage,
         offset: (currentPage - 1) * itemsPerPage,
@@ -91,6 +99,13 @@ export function MentorBrowse() {
         hourly_rate_max: values.hourly_rate_max < 200 ? values.hourly_rate_max : undefined,
         expertise_domains: values.expertise_domains > 0 ? values.expertise_domains : undefined,
         expertise_topics: values.expertise_topics_preset > 0 ? values.expertise_topics_preset : undefined,
+        available_day: hasAvailabilityWindow ? values.available_day : undefined,
+        available_start: hasAvailabilityWindow ? values.available_start : undefined,
+        // A window ending at 00:00 runs until midnight
+        available_end: hasAvailabilityWindow ? (values.available_end === '00:00' ? '24:00' : values.available_end) : undefined,
+        timezone: hasAvailabilityWindow ? getLocalTimezone() : undefined,
+        min_rating: values.min_rating > 0 ? values.min_rating : undefined,
+        sort: values.sort,
       });
       setMentors(data.mentors || []);
       setTotal(data.total || 0);
@@ -197,6 +212,66 @@ export function MentorBrowse() {
                 />
               </div>
 
+              <div className="space-y-3">
+                <Label htmlFor="available_day">{t('mentor.availableDuring')}</Label>
+                <select
+                  id="available_day"
+                  {...form.register('available_day', { valueAsNumber: true, onChange: handleFilterChange })}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value={-1}>{t('mentor.anyDay')}</option>
+                  {DAY_OF_WEEK_KEYS.map((dayKey, day) => (
+                    <option key={dayKey} value={day}>
+                      {t(`availability.days.${dayKey}`)}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    aria-label={t('availability.startTime')}
+                    {...form.register('available_start', { onChange: handleFilterChange })}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    aria-label={t('availability.endTime')}
+                    {...form.register('available_end', { onChange: handleFilterChange })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t('availability.shownInTimezone', { timezone: getLocalTimezone() })}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="min_rating">{t('reviews.minRating')}</Label>
+                <select
+                  id="min_rating"
+                  {...form.register('min_rating', { valueAsNumber: true, onChange: handleFilterChange })}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value={0}>{t('reviews.anyRating')}</option>
+                  {[4, 3, 2].map((rating) => (
+                    <option key={rating} value={rating}>
+                      {t('reviews.atLeastStars', { count: rating })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="sort">{t('reviews.sortBy')}</Label>
+                <select
+                  id="sort"
+                  {...form.register('sort', { onChange: handleFilterChange })}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="newest">{t('reviews.sortNewest')}</option>
+                  <option value="rating">{t('reviews.sortRating')}</option>
+                </select>
+              </div>
+
               <Button onClick={handleSearch} className="w-full">
                 {t('common.search')}
               </Button>
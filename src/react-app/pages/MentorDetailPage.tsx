@@ -8,11 +8,15 @@ import { Badge } from '../components/ui/badge';
 import { AvailabilityDisplay } from '../components/AvailabilityDisplay';
 import { MentorDetailSkeleton } from '../components/MentorDetailSkeleton';
 import { RequestMentorshipDialog } from '../components/RequestMentorshipDialog';
+import { MentorReviews } from '../components/MentorReviews';
+import { UserBadges } from '../components/UserBadges';
 import { getLevelNames, getPaymentTypeNames, getDomainNames, getTopicNames } from '../../types/mentor';
 import { getMentorProfile } from '../services/mentorService';
 import { checkExistingMatch } from '../services/matchService';
+import { getUserBadges } from '../services/badgeService';
 import { handleApiError } from '../services/apiClient';
 import type { MentorProfile } from '../../types/mentor';
+import type { BadgeId } from '../../types/badge';
 
 /**
  * MentorDetailPage
@@ -29,6 +33,7 @@ export function MentorDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [hasExistingMatch, setHasExistingMatch] = useState(false);
+  const [badges, setBadges] = useState<BadgeId[]>([]);
 
   useEffect(() => {
     if (!id) {
@@ -49,6 +54,13 @@ export function MentorDetailPage() {
         } catch {
           // Silently fail - don't show error for this background operation
         }
+
+        try {
+          const userBadges = await getUserBadges(data.user_id);
+          setBadges(userBadges.map((badge) => badge.badge_id));
+        } catch {
+          // Silently fail - badges are optional on the profile
+        }
       } catch (err) {
         setError('Failed to load mentor profile');
         handleApiError(err);
@@ -121,7 +133,10 @@ export function MentorDetailPage() {
                 <Avatar className="h-20 w-20 flex-shrink-0">
                   <AvatarFallback className="text-xl font-bold">{initials}</AvatarFallback>
                 </Avatar>
-                <h1 className="text-3xl font-bold">{mentor.nick_name}</h1>
+                <div className="space-y-2">
+                  <h1 className="text-3xl font-bold">{mentor.nick_name}</h1>
+                  <UserBadges badges={badges} showNames />
+                </div>
               </div>
               <p className="text-lg text-muted-foreground whitespace-pre-wrap">{mentor.bio}</p>
             </div>
@@ -227,10 +242,20 @@ export function MentorDetailPage() {
               <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
                 {t('mentor.availability')}
               </h3>
-              <p className="text-base">
-                <AvailabilityDisplay availability={mentor.availability} />
-              </p>
+              <div className="text-base">
+                <AvailabilityDisplay availability={mentor.availability} slots={mentor.availability_slots} />
+              </div>
             </div>
+
+            {/* Reviews - hidden entirely for mentors who turned reviews off */}
+            {mentor.allow_reviews && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                  {t('reviews.title')}
+                </h3>
+                <MentorReviews profileId={mentor.id} />
+              </div>
+            )}
           </CardContent>
 
           <CardFooter className="pt-6 border-t">
@@ -15,14 +15,62 @@ import { PaymentTypePicker } from '../components/PaymentTypePicker';
 import { ExpertiseDomainPicker } from '../components/ExpertiseDomainPicker';
 import { ExpertiseTopicPicker } from '../components/ExpertiseTopicPicker';
 import { AvailabilityInput } from '../components/AvailabilityInput';
-import { createMentorProfile, getMentorProfileByUserId, updateMentorProfile } from '../services/mentorService';
+import { AvailabilitySlotsInput, type AvailabilityScheduleValue } from '../components/AvailabilitySlotsInput';
+import {
+  createMentorProfile,
+  getMentorProfileByUserId,
+  updateMentorProfile,
+  updateAvailabilitySlots,
+} from '../services/mentorService';
 import { handleApiError, showSuccessToast } from '../services/apiClient';
 import { useAuth } from '../context/AuthContext';
 import type { MentorProfile } from '../../types/mentor';
+import type { UpdateAvailabilitySlotsRequest } from '../../types/api';
+import {
+  MINUTES_PER_DAY,
+  formatTimeOfDay,
+  getLocalTimezone,
+  hasOverlappingSlots,
+  isValidSlotRange,
+  parseTimeOfDay,
+} from '../../types/availability';
 
 // LinkedIn URL regex validation
 const linkedInUrlRegex = /^https?:\/\/(www\.)?linkedin\.com\/in\/[\w-]+\/?$/;
 
+/**
+ * Convert the slot editor's "HH:MM" values into the availability API payload
+ * An end time of 00:00 means the slot runs until midnight
+ */
+function toAvailabilityRequest(schedule: AvailabilityScheduleValue): UpdateAvailabilitySlotsRequest {
+  return {
+    timezone: schedule.timezone,
+    slots: schedule.slots.map((slot) => {
+      const end = parseTimeOfDay(slot.end_time);
+      return {
+        day_of_week: slot.day_of_week,
+        start_minute: parseTimeOfDay(slot.start_time) ?? -1,
+        end_minute: end === 0 ? MINUTES_PER_DAY : end ?? -1,
+      };
+    }),
+  };
+}
+
+/**
+ * Convert saved slots back into slot editor values
+ */
+function toAvailabilitySchedule(profile: MentorProfile): AvailabilityScheduleValue {
+  const slots = profile.availability_slots || [];
+  return {
+    timezone: slots[0]?.timezone || getLocalTimezone(),
+    slots: slots.map((slot) => ({
+      day_of_week: slot.day_of_week,
+      start_time: formatTimeOfDay(slot.start_minute),
+      end_time: formatTimeOfDay(slot.end_minute % MINUTES_PER_DAY),
+    })),
+  };
+}
+
 // Create schema factory to use translations
 const createMentorProfileSchema = (t: (key: string) => string) => z.object({
   nick_name: z.string().min(2, t('mentor.validationNickname')),
@@ -30,7 +78,18 @@ const createMentorProfileSchema = (t: (key: string) => string) => z.object({
   expertise_domains: z.number().min(1, t('mentor.validationExpertiseDomain')),
   expertise_topics_preset: z.number().int(),
   mentoring_levels: z.number().min(1, t('mentor.validationLevel')),
-  availability: z.string().min(10, t('mentor.validationAvailability')),
+  availability: z.string().max(200),
+  availability_schedule: z.object({
+    timezone: z.string().min(1),
+    slots: z.array(z.object({
+      day_of_week: z.number().int(),
+      start_time: z.string(),
+      end_time: z.string(),
+    })),
+  }).refine((schedule) => {
+    const { slots } = toAvailabilityRequest(schedule);
+    return slots.every(isValidSlotRange) && !hasOverlappingSlots(slots);
+  }, t('availability.validationSlots')),
   hourly_rate: z.number().min(1, t('mentor.validationRateRequired')),
   payment_types: z.number().min(1, t('mentor.validationPayment')),
   allow_reviews: z.boolean().refine(
@@ -70,6 +129,7 @@ export function MentorProfileSetup() {
       bio: '',
       mentoring_levels: 0,
       availability: '',
+      availability_schedule: { timezone: getLocalTimezone(), slots: [] },
       hourly_rate: 50,
       payment_types: 0,
       expertise_domains: 0,
@@ -98,6 +158,7 @@ export function MentorProfileSetup() {
             bio: profile.bio,
             mentoring_levels: profile.mentoring_levels,
             availability: profile.availability || '',
+            availability_schedule: toAvailabilitySchedule(profile),
             hourly_rate: profile.hourly_rate ?? 50,
             payment_types: profile.payment_types,
             expertise_domains: profile.expertise_domains,
@@ -118,7 +179,7 @@ export function MentorProfileSetup() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
 
-  const handleSubmit = async (data: MentorProfileFormData) => {
+  const handleSubmit = async ({ availability_schedule, ...data }: MentorProfileFormData) => {
     setIsSubmitting(true);
     try {
       if (!user) {
@@ -136,15 +197,17 @@ export function MentorProfileSetup() {
           hourly_rate: hourlyRate,
           availability,
         });
+        await updateAvailabilitySlots(existingProfile.id, toAvailabilityRequest(availability_schedule));
         showSuccessToast(t('mentor.profileUpdated'));
       } else {
         // Create new profile
-        await createMentorProfile({
+        const profile = await createMentorProfile({
           ...data,
           user_id: user.id,
           hourly_rate: hourlyRate,
           availability,
         });
+        await updateAvailabilitySlots(profile.id, toAvailabilityRequest(availability_schedule));
         showSuccessToast(t('mentor.profileCreated'));
       }
 
@@ -289,6 +352,13 @@ export function MentorProfileSetup() {
                     <p className="text-sm text-red-500">{form.formState.errors.hourly_rate.message}</p>
                   )}
                 </div>
+                <div className="space-y-2">
+                  {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+                  <AvailabilitySlotsInput control={form.control as any} />
+                  {form.formState.errors.availability_schedule && (
+                    <p className="text-sm text-red-500">{form.formState.errors.availability_schedule.message}</p>
+                  )}
+                </div>
                 <div className="space-y-2">
                   {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
                   <AvailabilityInput control={form.control as any} />
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../context/AuthContext';
 
@@ -8,6 +8,7 @@ export function OAuthCallbackPage() {
   const { login } = useAuth();
   const { t } = useTranslation();
   const [error, setError] = useState<string | null>(null);
+  const [registrationClosed, setRegistrationClosed] = useState(false);
   const hasHandledRef = useRef(false);
 
   useEffect(() => {
@@ -25,6 +26,7 @@ export function OAuthCallbackPage() {
         // Get authorization code from URL
         const params = new URLSearchParams(window.location.search);
         const code = params.get('code');
+        const state = params.get('state');
         const errorParam = params.get('error');
 
         if (errorParam) {
@@ -35,8 +37,15 @@ export function OAuthCallbackPage() {
           throw new Error('Missing authorization code');
         }
 
-        // Exchange code for token - pass code in query parameter
-        const response = await fetch(`/api/v1/auth/google/callback?code=${encodeURIComponent(code)}`, {
+        // The provider is part of the callback path (/auth/github/callback)
+        const provider = window.location.pathname.match(/^\/auth\/([a-z]+)\/callback/)?.[1] || 'google';
+
+        // Exchange code for token - pass code (and the state carrying an invite code) in query parameters
+        const callbackParams = new URLSearchParams({ code });
+        if (state) {
+          callbackParams.set('state', state);
+        }
+        const response = await fetch(`/api/v1/auth/${provider}/callback?${callbackParams.toString()}`, {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
@@ -46,6 +55,10 @@ export function OAuthCallbackPage() {
 
         if (!response.ok) {
           const data = await response.json();
+          // New accounts need an invite or an approved waitlist entry while registration is closed
+          if (response.status === 403 && data.code === 'feature_disabled') {
+            setRegistrationClosed(true);
+          }
           throw new Error(data.error || 'Authentication failed');
         }
 
@@ -77,6 +90,11 @@ export function OAuthCallbackPage() {
       <div style={{ textAlign: 'center', padding: '40px' }}>
         <h1>{t('auth.authenticationFailed')}</h1>
         <p>{error}</p>
+        {registrationClosed && (
+          <p>
+            <Link to="/waitlist">{t('auth.joinWaitlist')}</Link>
+          </p>
+        )}
         <button onClick={() => navigate('/login', { replace: true })}>
           {t('auth.backToLogin')}
         </button>
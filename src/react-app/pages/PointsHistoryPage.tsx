@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../context/AuthContext';
+import { getPointsHistory, getUserPoints } from '../services/pointsService';
+import { Button } from '../components/ui/button';
+import { UserPointsBadge } from '../components/UserPointsBadge';
+import type { PointsTransaction, UserPointsWithRank } from '../../types/points';
+import { PointsActionType, formatPoints } from '../../types/points';
+
+const PAGE_SIZE = 20;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Action types shown under each history filter
+ */
+const ACTION_GROUPS = {
+  content: [
+    PointsActionType.BlogCreated,
+    PointsActionType.CommentCreated,
+    PointsActionType.ThreadCreated,
+    PointsActionType.ReplyCreated,
+  ],
+  engagement: [
+    PointsActionType.LikeReceived,
+    PointsActionType.CommentReceived,
+    PointsActionType.UpvoteReceived,
+    PointsActionType.UpvoteReceivedReversed,
+    PointsActionType.Thread100Views,
+    PointsActionType.Thread500Views,
+    PointsActionType.Thread1000Views,
+  ],
+  solutions: [
+    PointsActionType.ReplyMarkedSolution,
+    PointsActionType.ReplyMarkedSolutionReversed,
+    PointsActionType.ThreadSolved,
+    PointsActionType.ThreadSolvedReversed,
+  ],
+  challenges: [
+    PointsActionType.ChallengeJoined,
+    PointsActionType.ChallengeSubmitted,
+    PointsActionType.ChallengeApproved,
+  ],
+  rewards: [
+    PointsActionType.RewardRedeemed,
+    PointsActionType.RewardRefunded,
+  ],
+  bonuses: [
+    PointsActionType.SignupBonus,
+    PointsActionType.BlogFeatured,
+    PointsActionType.AdminAdjustment,
+    PointsActionType.OpeningBalance,
+  ],
+} as const;
+
+type ActionGroup = keyof typeof ACTION_GROUPS;
+
+/**
+ * PointsHistoryPage Component
+ * Shows the signed-in user's points ledger, newest first, so they can see why
+ * their balance changed. Each entry shows the reason, the change and the resulting balance.
+ */
+export function PointsHistoryPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [group, setGroup] = useState<ActionGroup | ''>('');
+  const [summary, setSummary] = useState<UserPointsWithRank | null>(null);
+  const [transactions, setTransactions] = useState<PointsTransaction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadSummary = async () => {
+      try {
+        setSummary(await getUserPoints(userId));
+      } catch {
+        // The history below still explains the balance
+      }
+    };
+
+    loadSummary();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await getPointsHistory(userId, {
+          action_types: group ? [...ACTION_GROUPS[group]] : undefined,
+          limit: PAGE_SIZE,
+        });
+        setTransactions(response.transactions);
+        setTotal(response.total);
+      } catch {
+        setError(t('points.history.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [userId, group, t]);
+
+  const handleLoadMore = async () => {
+    if (!userId) return;
+    try {
+      setLoadingMore(true);
+      const response = await getPointsHistory(userId, {
+        action_types: group ? [...ACTION_GROUPS[group]] : undefined,
+        limit: PAGE_SIZE,
+        offset: transactions.length,
+      });
+      setTransactions((prev) => [...prev, ...response.transactions]);
+      setTotal(response.total);
+    } catch {
+      setError(t('points.history.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const formatChange = (points: number) => (points > 0 ? `+${formatPoints(points)}` : formatPoints(points));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('points.history.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('points.history.subtitle')}</p>
+        </div>
+        {summary && (
+          <UserPointsBadge points={summary.points} rank={summary.rank} showRank variant="lg" />
+        )}
+      </div>
+
+      {/* Filter */}
+      <div className="max-w-xs space-y-1">
+        <label htmlFor="points-history-filter" className="text-sm font-medium">
+          {t('points.history.filterLabel')}
+        </label>
+        <select
+          id="points-history-filter"
+          className={selectClassName}
+          value={group}
+          onChange={(e) => setGroup(e.target.value as ActionGroup | '')}
+        >
+          <option value="">{t('points.history.groups.all')}</option>
+          {(Object.keys(ACTION_GROUPS) as ActionGroup[]).map((key) => (
+            <option key={key} value={key}>
+              {t(`points.history.groups.${key}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : transactions.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">{t('points.history.empty')}</p>
+          <Link to="/leaderboard" className="text-sm text-primary hover:underline">
+            {t('points.history.backToLeaderboard')}
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <ul className="border rounded-lg divide-y">
+            {transactions.map((transaction) => (
+              <li key={transaction.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{t(`points.history.actions.${transaction.action_type}`)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(transaction.created_at * 1000).toLocaleString()}
+                    {transaction.points === 0 && ` · ${t('points.history.limitReached')}`}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p
+                    className={`font-semibold ${
+                      transaction.points > 0
+                        ? 'text-green-600'
+                        : transaction.points < 0
+                          ? 'text-red-600'
+                          : 'text-muted-foreground'
+                    }`}
+                  >
+                    {formatChange(transaction.points)}
+                  </p>
+                  {transaction.balance_after !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      {t('points.history.balanceAfter', { balance: formatPoints(transaction.balance_after) })}
+                    </p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {transactions.length < total && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t('points.history.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Gift } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { useAuth } from '../context/AuthContext';
+import { getRewards, getMyRedemptions, redeemReward } from '../services/rewardService';
+import { getUserPoints } from '../services/pointsService';
+import { ApiError } from '../services/apiClient';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { Textarea } from '../components/ui/textarea';
+import { Label } from '../components/ui/label';
+import { UserPointsBadge } from '../components/UserPointsBadge';
+import type { Reward, RewardRedemption } from '../../types/reward';
+import { MAX_REDEMPTION_NOTE_LENGTH, RedemptionStatus, isRewardAvailable } from '../../types/reward';
+import { formatPoints } from '../../types/points';
+
+const PAGE_SIZE = 20;
+
+const statusVariants = {
+  [RedemptionStatus.Pending]: 'outline',
+  [RedemptionStatus.Approved]: 'secondary',
+  [RedemptionStatus.Fulfilled]: 'default',
+  [RedemptionStatus.Refunded]: 'destructive',
+} as const;
+
+/**
+ * RewardsPage Component
+ * The rewards store: members spend their points on rewards from the catalog and
+ * follow their redemptions as admins approve and fulfill them
+ */
+export function RewardsPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [totalRedemptions, setTotalRedemptions] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedReward, setSelectedReward] = useState<Reward | null>(null);
+  const [note, setNote] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadStore = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [catalog, points, history] = await Promise.all([
+          getRewards(),
+          getUserPoints(userId),
+          getMyRedemptions({ limit: PAGE_SIZE }),
+        ]);
+        setRewards(catalog);
+        setBalance(points.points);
+        setRedemptions(history.redemptions);
+        setTotalRedemptions(history.total);
+      } catch {
+        setError(t('rewards.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStore();
+  }, [userId, t]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await getMyRedemptions({ limit: PAGE_SIZE, offset: redemptions.length });
+      setRedemptions((prev) => [...prev, ...response.redemptions]);
+      setTotalRedemptions(response.total);
+    } catch {
+      setError(t('rewards.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRedeemClick = (reward: Reward) => {
+    setSelectedReward(reward);
+    setNote('');
+  };
+
+  const handleRedeemConfirm = async () => {
+    if (!selectedReward) return;
+
+    try {
+      setRedeeming(true);
+      const response = await redeemReward(selectedReward.id, note.trim() || undefined);
+      setBalance(response.points);
+      setRewards((prev) =>
+        prev.map((reward) =>
+          reward.id === selectedReward.id && reward.stock !== null ? { ...reward, stock: reward.stock - 1 } : reward
+        )
+      );
+      setRedemptions((prev) => [response.redemption, ...prev]);
+      setTotalRedemptions((prev) => prev + 1);
+      toast.success(t('rewards.redeemSuccess', { name: selectedReward.name }));
+      setSelectedReward(null);
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : t('rewards.redeemError'));
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+
+  const getUnavailableReason = (reward: Reward): string | null => {
+    if (!isRewardAvailable(reward, now)) {
+      return t('rewards.outOfStock');
+    }
+    if (balance !== null && balance < reward.cost) {
+      return t('rewards.notEnoughPoints');
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('rewards.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('rewards.subtitle')}</p>
+        </div>
+        {balance !== null && <UserPointsBadge points={balance} variant="lg" to="/my-points" />}
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : (
+        <>
+          {/* Catalog */}
+          {rewards.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">{t('rewards.empty')}</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {rewards.map((reward) => {
+                const unavailableReason = getUnavailableReason(reward);
+                return (
+                  <Card key={reward.id} className="flex flex-col">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <Gift className="w-5 h-5 text-primary" />
+                        {reward.name}
+                      </CardTitle>
+                      {reward.description && (
+                        <CardDescription className="whitespace-pre-wrap">{reward.description}</CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="flex-1 space-y-1 text-sm text-muted-foreground">
+                      <p>
+                        {reward.stock === null
+                          ? t('rewards.unlimited')
+                          : t('rewards.stockLeft', { count: reward.stock })}
+                      </p>
+                      {reward.expires_at !== null && (
+                        <p>
+                          {t('rewards.availableUntil', {
+                            date: new Date(reward.expires_at * 1000).toLocaleDateString(),
+                          })}
+                        </p>
+                      )}
+                    </CardContent>
+                    <CardFooter className="flex items-center justify-between gap-2">
+                      <span className="font-semibold">
+                        {t('rewards.cost', { points: formatPoints(reward.cost) })}
+                      </span>
+                      <Button
+                        size="sm"
+                        onClick={() => handleRedeemClick(reward)}
+                        disabled={unavailableReason !== null}
+                      >
+                        {unavailableReason || t('rewards.redeem')}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          {/* My Redemptions */}
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">{t('rewards.myRedemptions')}</h2>
+            {redemptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('rewards.noRedemptions')}</p>
+            ) : (
+              <>
+                <ul className="border rounded-lg divide-y">
+                  {redemptions.map((redemption) => (
+                    <li key={redemption.id} className="flex items-start justify-between gap-4 px-4 py-3">
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-medium">{redemption.reward_name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(redemption.created_at * 1000).toLocaleString()}
+                          {' · '}
+                          {t('rewards.cost', { points: formatPoints(redemption.cost) })}
+                        </p>
+                        {redemption.admin_note && (
+                          <p className="text-sm whitespace-pre-wrap">{redemption.admin_note}</p>
+                        )}
+                      </div>
+                      <Badge variant={statusVariants[redemption.status]} className="flex-shrink-0">
+                        {t(`rewards.statuses.${redemption.status}`)}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+
+                {redemptions.length < totalRedemptions && (
+                  <div className="flex justify-center">
+                    <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                      {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {t('rewards.loadMore')}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Redeem Dialog */}
+      <Dialog open={selectedReward !== null} onOpenChange={(open) => !open && setSelectedReward(null)}>
+        <DialogContent>
+          {selectedReward && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{t('rewards.redeemTitle', { name: selectedReward.name })}</DialogTitle>
+                <DialogDescription>
+                  {t('rewards.redeemDescription', { points: formatPoints(selectedReward.cost) })}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="py-4 space-y-2">
+                <Label htmlFor="redemption-note">{t('rewards.noteLabel')}</Label>
+                <Textarea
+                  id="redemption-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={MAX_REDEMPTION_NOTE_LENGTH}
+                  placeholder={t('rewards.notePlaceholder')}
+                  rows={3}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelectedReward(null)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button onClick={handleRedeemConfirm} disabled={redeeming}>
+                  {redeeming ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {t('common.processing')}
+                    </>
+                  ) : (
+                    t('rewards.confirmRedeem')
+                  )}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
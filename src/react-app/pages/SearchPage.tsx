@@ -0,0 +1,292 @@
+import { useState, useEffect, useMemo, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2, Search } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import DOMPurify from 'dompurify';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { search } from '../services/searchService';
+import { forumService } from '../services/forumService';
+import { DEFAULT_SEARCH_PAGE_SIZE, SearchContentType, isSearchContentType } from '../../types/search';
+import type { SearchResult } from '../../types/search';
+import type { ForumCategory } from '../../types/forum';
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Renders a search title or snippet, keeping only the <mark> highlights
+ */
+function HighlightedText({ html, className }: { html: string; className?: string }) {
+  const sanitized = useMemo(
+    () => DOMPurify.sanitize(html, { ALLOWED_TAGS: ['mark'], ALLOWED_ATTR: [] }),
+    [html]
+  );
+  return <span className={className} dangerouslySetInnerHTML={{ __html: sanitized }} />;
+}
+
+/**
+ * Search page
+ * Full-text search across forum threads, replies and blogs
+ * Query, type, category and author live in the URL so searches can be shared and the Navbar box can link here
+ */
+export function SearchPage() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q')?.trim() || '';
+  const typeParam = searchParams.get('type');
+  const type = isSearchContentType(typeParam) ? typeParam : undefined;
+  const categoryId = searchParams.get('category_id') || undefined;
+  const authorId = searchParams.get('author_id') || undefined;
+
+  const [input, setInput] = useState(query);
+  const [categories, setCategories] = useState<ForumCategory[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the search box in sync when the query changes from outside (e.g. the Navbar)
+  const [syncedQuery, setSyncedQuery] = useState(query);
+  if (syncedQuery !== query) {
+    setSyncedQuery(query);
+    setInput(query);
+  }
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        setCategories(await forumService.getAllCategories());
+      } catch {
+        // Category filter is optional; search still works without it
+      }
+    };
+    loadCategories();
+  }, []);
+
+  useEffect(() => {
+    if (!query) {
+      return;
+    }
+
+    let cancelled = false;
+    const runSearch = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await search({
+          q: query,
+          type,
+          category_id: categoryId,
+          author_id: authorId,
+          limit: DEFAULT_SEARCH_PAGE_SIZE,
+        });
+        if (!cancelled) {
+          setResults(response.results);
+          setTotal(response.total);
+        }
+      } catch {
+        if (!cancelled) {
+          setError(t('search.loadError'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+    runSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, type, categoryId, authorId, t]);
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: input.trim() || undefined });
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await search({
+        q: query,
+        type,
+        category_id: categoryId,
+        author_id: authorId,
+        limit: DEFAULT_SEARCH_PAGE_SIZE,
+        offset: results.length,
+      });
+      setResults((prev) => [...prev, ...response.results]);
+      setTotal(response.total);
+    } catch {
+      setError(t('search.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">{t('search.title')}</h1>
+        <p className="text-muted-foreground">{t('search.subtitle')}</p>
+      </div>
+
+      {/* Search Form */}
+      <form onSubmit={handleSubmit} className="space-y-4" role="search">
+        <div className="flex gap-2">
+          <Input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t('search.placeholder')}
+            aria-label={t('search.placeholder')}
+          />
+          <Button type="submit">
+            <Search className="w-4 h-4 mr-2" />
+            {t('search.submit')}
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <label htmlFor="search-type" className="text-sm font-medium">
+              {t('search.typeLabel')}
+            </label>
+            <select
+              id="search-type"
+              className={selectClassName}
+              value={type || ''}
+              onChange={(e) => updateParams({ type: e.target.value || undefined })}
+            >
+              <option value="">{t('search.types.all')}</option>
+              {Object.values(SearchContentType).map((value) => (
+                <option key={value} value={value}>
+                  {t(`search.types.${value}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="search-category" className="text-sm font-medium">
+              {t('search.categoryLabel')}
+            </label>
+            <select
+              id="search-category"
+              className={selectClassName}
+              value={categoryId || ''}
+              onChange={(e) => updateParams({ category_id: e.target.value || undefined })}
+            >
+              <option value="">{t('search.allCategories')}</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {authorId && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>{t('search.authorFilterActive')}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => updateParams({ author_id: undefined })}>
+              {t('search.clearAuthor')}
+            </Button>
+          </div>
+        )}
+      </form>
+
+      {/* Prompt */}
+      {!query && (
+        <p className="text-center py-12 text-muted-foreground">{t('search.enterQuery')}</p>
+      )}
+
+      {/* Loading State */}
+      {query && loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Empty State */}
+      {query && !loading && !error && results.length === 0 && (
+        <p className="text-center py-12 text-muted-foreground">{t('search.noResults', { query })}</p>
+      )}
+
+      {/* Results */}
+      {query && !loading && results.length > 0 && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {t('search.resultsCount', { count: total, query })}
+          </p>
+          {results.map((result) => (
+            <Card key={`${result.type}-${result.id}`}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{t(`search.types.${result.type}`)}</Badge>
+                  <CardTitle className="text-lg">
+                    <Link to={result.url} className="hover:underline">
+                      <HighlightedText html={result.title} />
+                    </Link>
+                  </CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <HighlightedText html={result.snippet} className="block text-sm text-muted-foreground" />
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>{t('search.byAuthor', { name: result.author_name })}</span>
+                  <span>·</span>
+                  <span>{new Date(result.created_at * 1000).toLocaleDateString()}</span>
+                  {result.author_id !== authorId && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => updateParams({ author_id: result.author_id })}
+                    >
+                      {t('search.moreFromAuthor')}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {results.length < total && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t('search.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
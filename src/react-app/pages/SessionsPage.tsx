@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Loader2, Monitor } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../context/AuthContext';
+import { getSessions, revokeSession, revokeOtherSessions } from '../services/sessionService';
+import { ApiError } from '../services/apiClient';
+import { Button } from '../components/ui/button';
+import { describeUserAgent } from '../utils/userAgent';
+import type { UserSession } from '../../types/user';
+
+/**
+ * SessionsPage Component
+ * Lists the devices the signed-in user is signed in on and lets them sign any of them out,
+ * e.g. after using a shared computer or losing a phone
+ */
+export function SessionsPage() {
+  const { t } = useTranslation();
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setSessions(await getSessions());
+      } catch {
+        setError(t('devices.loadError', 'Failed to load your sessions'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, [t]);
+
+  const handleRevoke = async (session: UserSession) => {
+    try {
+      setRevokingId(session.id);
+      await revokeSession(session.id);
+      if (session.current) {
+        // The server already cleared the cookies; clear local state and leave
+        await logout();
+        navigate('/login', { replace: true });
+        return;
+      }
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+      toast.success(t('devices.revoked', 'Device signed out'));
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('devices.revokeError', 'Failed to sign the device out');
+      toast.error(message);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setRevokingOthers(true);
+      const revoked = await revokeOtherSessions();
+      setSessions((prev) => prev.filter((item) => item.current));
+      toast.success(t('devices.othersRevoked', 'Signed out of {{count}} other devices', { count: revoked }));
+    } catch (err) {
+      const message = err instanceof ApiError ? err.message : t('devices.revokeError', 'Failed to sign the device out');
+      toast.error(message);
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  const describeSession = (session: UserSession) => {
+    const { browser, os } = describeUserAgent(session.user_agent);
+    if (browser && os) {
+      return t('devices.browserOnOs', '{{browser}} on {{os}}', { browser, os });
+    }
+    return browser || os || t('devices.unknownDevice', 'Unknown device');
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('devices.title', 'Signed-in devices')}</h1>
+          <p className="text-muted-foreground mt-2">
+            {t('devices.subtitle', 'Sign out any device you don\'t recognise or no longer use')}
+          </p>
+        </div>
+        {hasOtherSessions && (
+          <Button variant="outline" onClick={handleRevokeOthers} disabled={revokingOthers || revokingId !== null}>
+            {revokingOthers && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('devices.revokeOthers', 'Sign out other devices')}
+          </Button>
+        )}
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : (
+        !error && (
+          <ul className="border rounded-lg divide-y">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex flex-wrap items-center justify-between gap-4 px-4 py-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <Monitor className="w-5 h-5 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {describeSession(session)}
+                      {session.current && (
+                        <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                          {t('devices.current', 'This device')}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {t('devices.lastActive', 'Last active {{date}}', {
+                        date: new Date(session.last_used_at * 1000).toLocaleString(),
+                      })}
+                      {session.ip_address && ` · ${session.ip_address}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t('devices.signedIn', 'Signed in {{date}}', {
+                        date: new Date(session.created_at * 1000).toLocaleString(),
+                      })}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId !== null || revokingOthers}
+                >
+                  {revokingId === session.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {session.current ? t('devices.signOut', 'Sign out') : t('devices.revoke', 'Sign out device')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,26 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { ArrowLeft, MessageCircle, ThumbsUp, ThumbsDown, Loader2 } from 'lucide-react';
+import { ArrowLeft, MessageCircle, ThumbsUp, ThumbsDown, Loader2, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../context/AuthContext';
 import { forumService } from '../services/forumService';
+import { ApiError, handleApiError } from '../services/apiClient';
 import { ForumThreadWithAuthor, ForumReplyWithAuthor } from '../../types/forum';
+import { UserRole } from '../../types/role';
 import { formatPostTime } from '../utils/timeUtils';
+import { isHtmlEmpty } from '../utils/htmlUtils';
 import ReplyThread from '../components/ReplyThread';
 import ReplyForm from '../components/ReplyForm';
 import { HtmlRenderer } from '../components/HtmlRenderer';
+import { RichTextEditor } from '../components/RichTextEditor';
+import { RevisionHistoryDialog } from '../components/RevisionHistoryDialog';
+import { ThreadModerationActions } from '../components/ThreadModerationActions';
 import { Card, CardContent } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
 
 interface ThreadState {
   thread: ForumThreadWithAuthor | null;
@@ -22,6 +32,7 @@ export default function ThreadDetailPage() {
   const { threadId } = useParams<{ threadId: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const { user } = useAuth();
 
   const [data, setData] = useState<ThreadState>({
     thread: null,
@@ -30,6 +41,10 @@ export default function ThreadDetailPage() {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState('');
+  const [editContent, setEditContent] = useState('');
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     const loadData = async () => {
@@ -51,6 +66,14 @@ export default function ThreadDetailPage() {
           total: repliesData.total,
         }));
       } catch (err) {
+        // Threads merged into another one live on in the target
+        const mergedInto = err instanceof ApiError && err.status === 404
+          ? (err.data as { merged_into?: string } | null)?.merged_into
+          : undefined;
+        if (mergedInto) {
+          navigate(`/forums/threads/${mergedInto}`, { replace: true });
+          return;
+        }
         const message = err instanceof Error ? err.message : t('errors.unexpectedError');
         setError(message);
       } finally {
@@ -59,7 +82,7 @@ export default function ThreadDetailPage() {
     };
 
     loadData();
-  }, [threadId, t]);
+  }, [threadId, navigate, t]);
 
   if (loading) {
     return (
@@ -98,6 +121,41 @@ export default function ThreadDetailPage() {
   const thread = data.thread;
   const createdTime = formatPostTime(thread.created_at);
 
+  // Moderators can only edit in their own categories; the API has the final say
+  const canEdit =
+    !!user && (user.id === thread.user_id || user.role === UserRole.Admin || user.role === UserRole.Moderator);
+
+  const startEditing = () => {
+    setEditTitle(thread.title);
+    setEditContent(thread.content);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!editTitle.trim()) {
+      toast.error(t('forums.titleRequired'));
+      return;
+    }
+    if (isHtmlEmpty(editContent)) {
+      toast.error(t('forums.contentRequired'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updated = await forumService.updateThread(thread.id, { title: editTitle, content: editContent });
+      setData(prev => ({ ...prev, thread: { ...prev.thread, ...updated } }));
+      setIsEditing(false);
+      toast.success(t('forums.edit.success'));
+    } catch (err) {
+      handleApiError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Flat replies list (no nesting)
   const flatReplies = data.replies;
 
@@ -120,25 +178,80 @@ export default function ThreadDetailPage() {
           <div className="flex items-start justify-between gap-3">
             <div>
               <p className="text-sm font-medium">{thread.author_name}</p>
-              <p className="text-xs text-muted-foreground">{createdTime}</p>
+              <p className="text-xs text-muted-foreground">
+                {createdTime}
+                {thread.edited_at && (
+                  <>
+                    {' · '}
+                    <RevisionHistoryDialog contentType="thread" contentId={thread.id} editedAt={thread.edited_at} />
+                  </>
+                )}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {thread.deleted_at && (
+                <Badge variant="destructive" className="flex-shrink-0">
+                  {t('forums.moderation.deleted')}
+                </Badge>
+              )}
+              {thread.status !== 'open' && (
+                <Badge variant="outline" className="flex-shrink-0">
+                  {thread.status.charAt(0).toUpperCase() + thread.status.slice(1)}
+                </Badge>
+              )}
+              {canEdit && !isEditing && (
+                <Button type="button" variant="ghost" size="sm" onClick={startEditing} aria-label={t('forums.edit.button')}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              )}
+              {!isEditing && (
+                <ThreadModerationActions
+                  thread={thread}
+                  onThreadChange={(updated) => setData(prev => ({ ...prev, thread: { ...prev.thread, ...updated } }))}
+                />
+              )}
             </div>
-            {thread.status !== 'open' && (
-              <Badge variant="outline" className="flex-shrink-0">
-                {thread.status.charAt(0).toUpperCase() + thread.status.slice(1)}
-              </Badge>
-            )}
           </div>
 
-          {/* Thread Title */}
-          <h1 className="text-lg font-bold">{thread.title}</h1>
+          {isEditing ? (
+            <form onSubmit={handleSave} className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="edit-thread-title">{t('forums.titleLabel')}</Label>
+                <Input
+                  id="edit-thread-title"
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('forums.contentLabel')}</Label>
+                <RichTextEditor content={editContent} onChange={setEditContent} disabled={saving} />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsEditing(false)} disabled={saving}>
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {saving ? t('common.saving') : t('common.save')}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              {/* Thread Title */}
+              <h1 className="text-lg font-bold">{thread.title}</h1>
 
-          {/* Thread Content */}
-          <div className="text-sm text-foreground break-words">
-            <HtmlRenderer
-              content={thread.content}
-              className="text-sm"
-            />
-          </div>
+              {/* Thread Content */}
+              <div className="text-sm text-foreground break-words">
+                <HtmlRenderer
+                  content={thread.content}
+                  className="text-sm"
+                />
+              </div>
+            </>
+          )}
 
           {/* Engagement Metrics */}
           {(thread.upvote_count > 0 || thread.downvote_count > 0) && (
@@ -5,6 +5,9 @@ import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { CVUpload } from '../components/CVUpload';
+import { NotificationPreferencesCard } from '../components/NotificationPreferencesCard';
+import { BadgesCard } from '../components/BadgesCard';
+import { LinkedAccountsCard } from '../components/LinkedAccountsCard';
 import { getCVMetadata } from '../services/cvService';
 import { userService } from '../services/userService';
 import { useAuth } from '../context/AuthContext';
@@ -15,6 +18,8 @@ import { handleApiError, showSuccessToast } from '../services/apiClient';
  * Allows authenticated users to manage their profile including:
  * - Upload/update/delete CV
  * - View profile information
+ * - See earned badges and the ones still to earn
+ * - Choose email notification preferences
  */
 export function UserProfileEdit() {
   const { t } = useTranslation();
@@ -201,6 +206,12 @@ export function UserProfileEdit() {
           </CardContent>
         </Card>
 
+        {/* Linked Sign-in Accounts Card */}
+        <LinkedAccountsCard email={user.email} />
+
+        {/* Badges Card */}
+        <BadgesCard userId={user.id} />
+
         {/* CV Upload Card */}
         {!isLoading && (
           <CVUpload
@@ -217,6 +228,9 @@ export function UserProfileEdit() {
             }}
           />
         )}
+
+        {/* Email Notification Preferences Card */}
+        <NotificationPreferencesCard />
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { joinWaitlist } from '../services/inviteService';
+import { ApiError } from '../services/apiClient';
+import { MAX_WAITLIST_NAME_LENGTH, MAX_WAITLIST_REASON_LENGTH } from '../../types/invite';
+import { isEmailLocale } from '../../types/notification';
+import '../styles/LoginPage.css';
+
+/**
+ * WaitlistPage Component
+ * Lets people ask for an account while public registration is off
+ * Once an admin approves them they are emailed and can sign in with Google
+ */
+export function WaitlistPage() {
+  const { t, i18n } = useTranslation();
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [joined, setJoined] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await joinWaitlist({
+        email: email.trim(),
+        name: name.trim(),
+        reason: reason.trim() || undefined,
+        locale: isEmailLocale(i18n.language) ? i18n.language : undefined,
+      });
+      setJoined(true);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t('waitlist.error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <div className="login-card">
+        <div className="login-header">
+          <h1>{t('waitlist.title')}</h1>
+          <p>{t('waitlist.subtitle')}</p>
+        </div>
+
+        {error && <div className="login-error">{error}</div>}
+
+        {joined ? (
+          <div className="login-notice">{t('waitlist.joined', { email: email.trim() })}</div>
+        ) : (
+          <form className="waitlist-form" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="waitlist-email">{t('waitlist.emailLabel')}</label>
+              <input
+                id="waitlist-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={t('waitlist.emailPlaceholder')}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="waitlist-name">{t('waitlist.nameLabel')}</label>
+              <input
+                id="waitlist-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_WAITLIST_NAME_LENGTH}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="waitlist-reason">{t('waitlist.reasonLabel')}</label>
+              <textarea
+                id="waitlist-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('waitlist.reasonPlaceholder')}
+                maxLength={MAX_WAITLIST_REASON_LENGTH}
+                rows={3}
+              />
+            </div>
+            <button type="submit" className="google-signin-btn" disabled={submitting}>
+              {submitting ? t('waitlist.submitting') : t('waitlist.submit')}
+            </button>
+          </form>
+        )}
+
+        <div className="login-footer">
+          <p>
+            {t('waitlist.haveInvite')} <Link to="/login">{t('auth.backToLogin')}</Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminUsersPage } from '../AdminUsersPage';
+import * as AuthContext from '../../context/AuthContext';
+import * as roleService from '../../services/roleService';
+import { forumService } from '../../services/forumService';
+import * as badgeService from '../../services/badgeService';
+import * as inviteService from '../../services/inviteService';
+import * as sessionService from '../../services/sessionService';
+import type { User } from '../../../types/user';
+import type { ForumCategory, ForumCategoryModerator } from '../../../types/forum';
+import { UserRole } from '../../../types/role';
+import { BadgeId } from '../../../types/badge';
+import { WaitlistStatus } from '../../../types/invite';
+import type { InviteCode, WaitlistEntry } from '../../../types/invite';
+
+vi.mock('../../services/roleService', () => ({
+  listUsers: vi.fn(),
+  assignRole: vi.fn(),
+  listCategoryModerators: vi.fn(),
+  assignCategoryModerator: vi.fn(),
+  removeCategoryModerator: vi.fn(),
+}));
+
+vi.mock('../../services/forumService', () => ({
+  forumService: {
+    getAllCategories: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/badgeService', () => ({
+  getUserBadges: vi.fn(),
+  awardBadge: vi.fn(),
+  revokeBadge: vi.fn(),
+}));
+
+vi.mock('../../services/inviteService', () => ({
+  getInviteCodes: vi.fn(),
+  createInviteCode: vi.fn(),
+  revokeInviteCode: vi.fn(),
+  getWaitlist: vi.fn(),
+  updateWaitlistEntry: vi.fn(),
+}));
+
+vi.mock('../../services/sessionService', () => ({
+  revokeUserSessions: vi.fn(),
+}));
+
+vi.mock('../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const mockUsers: User[] = [
+  { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role: UserRole.Admin, created_at: 0, updated_at: 0 },
+  { id: 'mod-1', email: 'mod@example.com', name: 'Morgan', role: UserRole.Moderator, created_at: 0, updated_at: 0 },
+  { id: 'member-1', email: 'member@example.com', name: 'Casey', role: UserRole.Member, created_at: 0, updated_at: 0 },
+];
+
+const mockCategories = [
+  { id: 'cat-general', name: 'General', parent_id: null },
+  { id: 'cat-jobs', name: 'Jobs', parent_id: null },
+] as ForumCategory[];
+
+const mockAssignment: ForumCategoryModerator = {
+  category_id: 'cat-general',
+  user_id: 'mod-1',
+  assigned_by: 'admin-1',
+  created_at: 1700000000,
+  user_name: 'Morgan',
+  category_name: 'General',
+};
+
+const mockInvite: InviteCode = {
+  id: 'invite-1',
+  code: 'ABCD2345',
+  note: 'For Bo',
+  max_uses: 1,
+  use_count: 0,
+  expires_at: null,
+  revoked_at: null,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+};
+
+const mockEntry: WaitlistEntry = {
+  id: 'waitlist-1',
+  email: 'newcomer@example.com',
+  name: 'Newcomer',
+  reason: 'I want a mentor',
+  locale: 'en',
+  status: WaitlistStatus.Pending,
+  user_id: null,
+  reviewed_by: null,
+  reviewed_at: null,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/admin/users']}>
+      <Routes>
+        <Route path="/admin/users" element={<AdminUsersPage />} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('AdminUsersPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(roleService.listUsers).mockResolvedValue({ users: mockUsers, total: 3, limit: 50, offset: 0 });
+    vi.mocked(roleService.listCategoryModerators).mockResolvedValue([mockAssignment]);
+    vi.mocked(forumService.getAllCategories).mockResolvedValue(mockCategories);
+    vi.mocked(inviteService.getInviteCodes).mockResolvedValue([]);
+    vi.mocked(inviteService.getWaitlist).mockResolvedValue({ entries: [], total: 0 });
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Moderator);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+  });
+
+  it('should show moderators with their categories', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Morgan')).toBeInTheDocument();
+    expect(await screen.findByText('Moderates: General')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Categories (1)' })).toBeInTheDocument();
+  });
+
+  it('should promote a member to moderator', async () => {
+    const user = userEvent.setup();
+    vi.mocked(roleService.assignRole).mockResolvedValue({ userId: 'member-1', role: 'moderator', message: 'ok' });
+    renderPage();
+
+    const row = (await screen.findByText('Casey')).closest('tr') as HTMLElement;
+    await user.click(within(row).getByRole('button', { name: 'Make Moderator' }));
+
+    expect(roleService.assignRole).toHaveBeenCalledWith('member-1', UserRole.Moderator);
+    expect(await within(row).findByRole('button', { name: 'Categories (0)' })).toBeInTheDocument();
+  });
+
+  it('should assign and remove moderated categories', async () => {
+    const user = userEvent.setup();
+    vi.mocked(roleService.assignCategoryModerator).mockResolvedValue({
+      ...mockAssignment,
+      category_id: 'cat-jobs',
+    });
+    vi.mocked(roleService.removeCategoryModerator).mockResolvedValue();
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Categories (1)' }));
+    const dialog = await screen.findByRole('dialog');
+
+    await user.click(within(dialog).getByLabelText('Jobs'));
+    await waitFor(() => {
+      expect(roleService.assignCategoryModerator).toHaveBeenCalledWith('cat-jobs', 'mod-1');
+    });
+    expect(await screen.findByText('Moderates: General, Jobs')).toBeInTheDocument();
+
+    await user.click(within(dialog).getByLabelText('General'));
+    await waitFor(() => {
+      expect(roleService.removeCategoryModerator).toHaveBeenCalledWith('cat-general', 'mod-1');
+    });
+    expect(await screen.findByText('Moderates: Jobs')).toBeInTheDocument();
+  });
+
+  it('should award and revoke badges', async () => {
+    const user = userEvent.setup();
+    vi.mocked(badgeService.getUserBadges).mockResolvedValue([
+      { user_id: 'member-1', badge_id: BadgeId.FirstSolution, granted_at: 1700000000, granted_by: null },
+    ]);
+    vi.mocked(badgeService.awardBadge).mockResolvedValue({
+      user_id: 'member-1',
+      badge_id: BadgeId.FeaturedBlog,
+      granted_at: 1700000000,
+      granted_by: 'admin-1',
+    });
+    vi.mocked(badgeService.revokeBadge).mockResolvedValue();
+    renderPage();
+
+    const row = (await screen.findByText('Casey')).closest('tr') as HTMLElement;
+    await user.click(within(row).getByRole('button', { name: 'Badges' }));
+    const dialog = await screen.findByRole('dialog');
+
+    const solver = await within(dialog).findByLabelText(/Problem Solver/);
+    expect(solver).toBeChecked();
+
+    await user.click(within(dialog).getByLabelText(/Featured Author/));
+    await waitFor(() => {
+      expect(badgeService.awardBadge).toHaveBeenCalledWith('member-1', BadgeId.FeaturedBlog);
+    });
+    expect(within(dialog).getByLabelText(/Featured Author/)).toBeChecked();
+
+    await user.click(solver);
+    await waitFor(() => {
+      expect(badgeService.revokeBadge).toHaveBeenCalledWith('member-1', BadgeId.FirstSolution);
+    });
+    expect(within(dialog).getByLabelText(/Problem Solver/)).not.toBeChecked();
+  });
+
+  it('should sign other users out everywhere', async () => {
+    const user = userEvent.setup();
+    vi.mocked(sessionService.revokeUserSessions).mockResolvedValue(2);
+    renderPage();
+
+    const row = (await screen.findByText('Casey')).closest('tr') as HTMLElement;
+    await user.click(within(row).getByRole('button', { name: 'Sign out everywhere' }));
+
+    expect(sessionService.revokeUserSessions).toHaveBeenCalledWith('member-1');
+
+    // Admins sign themselves out from the sessions page instead
+    const ownRow = screen.getByText('admin@example.com').closest('tr') as HTMLElement;
+    expect(within(ownRow).queryByRole('button', { name: 'Sign out everywhere' })).not.toBeInTheDocument();
+  });
+
+  it('should approve people on the waitlist', async () => {
+    const user = userEvent.setup();
+    vi.mocked(inviteService.getWaitlist).mockResolvedValue({ entries: [mockEntry], total: 1 });
+    vi.mocked(inviteService.updateWaitlistEntry).mockResolvedValue({ ...mockEntry, status: WaitlistStatus.Approved });
+    renderPage();
+
+    expect(await screen.findByText('I want a mentor')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Approve' }));
+
+    expect(inviteService.updateWaitlistEntry).toHaveBeenCalledWith('waitlist-1', { status: WaitlistStatus.Approved });
+    await waitFor(() => {
+      expect(screen.queryByText('I want a mentor')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should generate and revoke invite codes', async () => {
+    const user = userEvent.setup();
+    vi.mocked(inviteService.createInviteCode).mockResolvedValue(mockInvite);
+    vi.mocked(inviteService.revokeInviteCode).mockResolvedValue({ ...mockInvite, revoked_at: 1700000100 });
+    renderPage();
+
+    await screen.findByText('No invite codes yet');
+    await user.clear(screen.getByLabelText('Uses'));
+    await user.type(screen.getByLabelText('Uses'), '5');
+    await user.type(screen.getByLabelText('Note'), 'For Bo');
+    await user.click(screen.getByRole('button', { name: 'Generate code' }));
+
+    expect(inviteService.createInviteCode).toHaveBeenCalledWith({ max_uses: 5, expires_at: null, note: 'For Bo' });
+    expect(await screen.findByText('ABCD2345')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Revoke' }));
+    expect(inviteService.revokeInviteCode).toHaveBeenCalledWith('invite-1');
+    expect(await screen.findByText('Revoked')).toBeInTheDocument();
+  });
+});
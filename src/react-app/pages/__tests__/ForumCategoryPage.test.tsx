@@ -13,6 +13,14 @@ vi.mock('../../services/forumService', () => ({
   },
 }));
 
+// Mock the AuthContext (ThreadCard shows a report button to signed-in users)
+vi.mock('../../context/AuthContext', () => ({
+  useAuth: () => ({
+    user: null,
+    isLoading: false,
+  }),
+}));
+
 // Mock useTranslation
 vi.mock('react-i18next', () => ({
   useTranslation: () => ({
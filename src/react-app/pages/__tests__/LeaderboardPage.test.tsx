@@ -1,6 +1,7 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
 import { LeaderboardPage } from '../LeaderboardPage';
 import type { LeaderboardEntry } from '../../../types/api';
 
@@ -14,6 +15,14 @@ vi.mock('react-i18next', () => ({
         'leaderboard.rank': 'Rank',
         'leaderboard.yourRank': 'Your rank: {{rank}}',
         'leaderboard.noData': 'No leaderboard data yet',
+        'leaderboard.periods.week': 'This week',
+        'leaderboard.periods.custom': 'Custom range',
+        'leaderboard.sourceLabel': 'Points from',
+        'leaderboard.previousPeriod': 'Earlier',
+        'leaderboard.nextPeriod': 'Later',
+        'leaderboard.finalResults': 'Final results',
+        'leaderboard.pastWinners': 'Past winners',
+        'leaderboard.pickRange': 'Choose a start and end date to see who earned the most points',
         'points.label': 'Points',
         'points.howToEarn': 'How to Earn Points',
         'common.name': 'Name',
@@ -48,11 +57,13 @@ vi.mock('../../context/AuthContext', () => ({
 
 vi.mock('../../services/pointsService', () => ({
   getLeaderboard: vi.fn(),
+  getLeaderboardWinners: vi.fn(),
 }));
 
-import { getLeaderboard } from '../../services/pointsService';
+import { getLeaderboard, getLeaderboardWinners } from '../../services/pointsService';
 
 const mockGetLeaderboard = getLeaderboard as ReturnType<typeof vi.fn>;
+const mockGetLeaderboardWinners = getLeaderboardWinners as ReturnType<typeof vi.fn>;
 
 const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
 
@@ -64,6 +75,13 @@ afterAll(() => {
   consoleErrorSpy.mockRestore();
 });
 
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <LeaderboardPage />
+    </MemoryRouter>
+  );
+
 describe('LeaderboardPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -72,7 +90,7 @@ describe('LeaderboardPage', () => {
   it('should render loading state initially', async () => {
     mockGetLeaderboard.mockImplementation(() => new Promise(() => {})); // Never resolves
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     expect(screen.getByText('Leaderboard')).toBeInTheDocument();
     expect(screen.getByText('Loading...')).toBeInTheDocument();
@@ -90,7 +108,7 @@ describe('LeaderboardPage', () => {
 
     mockGetLeaderboard.mockResolvedValue(mockData);
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('Alice')).toBeInTheDocument();
@@ -109,7 +127,7 @@ describe('LeaderboardPage', () => {
 
     mockGetLeaderboard.mockResolvedValue(mockData);
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       const button = screen.getByText('How to Earn Points');
@@ -128,7 +146,7 @@ describe('LeaderboardPage', () => {
     mockGetLeaderboard.mockResolvedValue(mockData);
     const user = userEvent.setup();
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('How to Earn Points')).toBeInTheDocument();
@@ -155,11 +173,33 @@ describe('LeaderboardPage', () => {
 
     mockGetLeaderboard.mockResolvedValue(mockData);
 
-    render(<LeaderboardPage />);
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Your rank: #1')).toBeInTheDocument();
+    });
+  });
+
+  it('should link the current user to their points history', async () => {
+    const mockData = {
+      users: [
+        { user_id: 'user-1', name: 'Test User', points: 500, rank: 1 },
+        { user_id: 'user-2', name: 'Bob', points: 400, rank: 2 },
+      ] as LeaderboardEntry[],
+      total: 2,
+    };
+
+    mockGetLeaderboard.mockResolvedValue(mockData);
+
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('Your rank: #1')).toBeInTheDocument();
     });
+
+    const links = screen.getAllByRole('link');
+    expect(links.length).toBe(2);
+    links.forEach((link) => expect(link).toHaveAttribute('href', '/my-points'));
   });
 
   it('should display trophy emoji for top 3 ranks', async () => {
@@ -174,7 +214,7 @@ describe('LeaderboardPage', () => {
 
     mockGetLeaderboard.mockResolvedValue(mockData);
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       const ranks = screen.getAllByRole('cell');
@@ -193,7 +233,7 @@ describe('LeaderboardPage', () => {
 
     mockGetLeaderboard.mockResolvedValue(mockData);
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('You')).toBeInTheDocument();
@@ -203,7 +243,7 @@ describe('LeaderboardPage', () => {
   it('should handle leaderboard load error gracefully', async () => {
     mockGetLeaderboard.mockRejectedValue(new Error('Failed to load leaderboard'));
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('Failed to load leaderboard')).toBeInTheDocument();
@@ -219,10 +259,97 @@ describe('LeaderboardPage', () => {
 
     mockGetLeaderboard.mockResolvedValue(mockData);
 
-    render(<LeaderboardPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('No leaderboard data yet')).toBeInTheDocument();
     });
   });
+
+  describe('period and source boards', () => {
+    const WEEK_START = Date.UTC(2025, 0, 13) / 1000;
+    const WEEK_END = Date.UTC(2025, 0, 20) / 1000;
+
+    const weekBoard = (isFinal: boolean) => ({
+      users: [{ user_id: 'user-2', name: 'Bob', points: 45, rank: 1 }] as LeaderboardEntry[],
+      total: 1,
+      limit: 50,
+      offset: 0,
+      window: { period: 'week', source: 'forum', start: WEEK_START, end: WEEK_END, is_final: isFinal },
+      current_user: { user_id: 'user-1', name: 'Test User', points: 12, rank: 57 },
+    });
+
+    it('should load the weekly board for the chosen source', async () => {
+      mockGetLeaderboard.mockResolvedValue(weekBoard(false));
+      mockGetLeaderboardWinners.mockResolvedValue({
+        period: 'week',
+        source: 'forum',
+        periods: [
+          {
+            start: WEEK_START - 604800,
+            end: WEEK_START,
+            winners: [{ user_id: 'user-3', name: 'Charlie', points: 80, rank: 1 }],
+          },
+        ],
+      });
+      const user = userEvent.setup();
+
+      renderPage();
+
+      await user.selectOptions(await screen.findByLabelText('Points from'), 'forum');
+      await user.click(screen.getByText('This week'));
+
+      await waitFor(() => {
+        expect(mockGetLeaderboard).toHaveBeenLastCalledWith(50, 0, { period: 'week', source: 'forum' });
+      });
+      expect(mockGetLeaderboardWinners).toHaveBeenLastCalledWith('week', 'forum');
+      expect(await screen.findByText('#1 Charlie')).toBeInTheDocument();
+      expect(screen.getByText('Past winners')).toBeInTheDocument();
+    });
+
+    it('should highlight the caller\'s rank even when they are not on this page', async () => {
+      mockGetLeaderboard.mockResolvedValue(weekBoard(false));
+
+      renderPage();
+
+      await waitFor(() => {
+        expect(screen.getByText('Your rank: #57')).toBeInTheDocument();
+      });
+    });
+
+    it('should page back to a closed week and mark it final', async () => {
+      mockGetLeaderboard.mockResolvedValue(weekBoard(false));
+      mockGetLeaderboardWinners.mockResolvedValue({ period: 'week', source: 'all', periods: [] });
+      const user = userEvent.setup();
+
+      renderPage();
+
+      await user.click(await screen.findByText('This week'));
+      expect(await screen.findByRole('button', { name: 'Later' })).toBeDisabled();
+
+      mockGetLeaderboard.mockResolvedValue(weekBoard(true));
+      await user.click(screen.getByRole('button', { name: 'Earlier' }));
+
+      await waitFor(() => {
+        expect(mockGetLeaderboard).toHaveBeenLastCalledWith(50, 0, {
+          period: 'week',
+          source: 'all',
+          start: WEEK_START - 604800,
+        });
+      });
+      expect(await screen.findByText('Final results')).toBeInTheDocument();
+    });
+
+    it('should wait for a complete custom range', async () => {
+      mockGetLeaderboard.mockResolvedValue({ users: [], total: 0 });
+      const user = userEvent.setup();
+
+      renderPage();
+
+      await user.click(await screen.findByText('Custom range'));
+
+      expect(await screen.findByText('Choose a start and end date to see who earned the most points')).toBeInTheDocument();
+      expect(mockGetLeaderboard).toHaveBeenCalledTimes(1);
+    });
+  });
 });
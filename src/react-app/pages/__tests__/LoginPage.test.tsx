@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { LoginPage } from '../LoginPage';
+import { isWeChatBrowser } from '../../utils/wechatDetection';
+
+vi.mock('../../context/FeatureContext', () => ({
+  useFeatures: () => ({ isFeatureEnabled: () => true, loading: false }),
+}));
+
+vi.mock('../../utils/wechatDetection', () => ({
+  isWeChatBrowser: vi.fn(),
+}));
+
+const mockProviders = (providers: Array<{ id: string; name: string }>) => {
+  vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, json: async () => ({ providers }) })));
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <LoginPage />
+    </MemoryRouter>
+  );
+
+describe('LoginPage', () => {
+  beforeEach(() => {
+    vi.mocked(isWeChatBrowser).mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should offer every configured provider', async () => {
+    mockProviders([
+      { id: 'google', name: 'Google' },
+      { id: 'github', name: 'GitHub' },
+      { id: 'oidc', name: 'Example SSO' },
+    ]);
+    renderPage();
+
+    expect(await screen.findByRole('button', { name: 'Sign in with GitHub' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sign in with Example SSO' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Sign in with Google/ })).toBeInTheDocument();
+  });
+
+  it('should hide Google in WeChat when another provider is available', async () => {
+    vi.mocked(isWeChatBrowser).mockReturnValue(true);
+    mockProviders([
+      { id: 'google', name: 'Google' },
+      { id: 'github', name: 'GitHub' },
+    ]);
+    renderPage();
+
+    expect(await screen.findByRole('button', { name: 'Sign in with GitHub' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Sign in with Google/ })).not.toBeInTheDocument();
+    expect(screen.getByText(/Google sign-in doesn't work in WeChat/)).toBeInTheDocument();
+  });
+
+  it('should show the WeChat warning when only Google is configured', async () => {
+    vi.mocked(isWeChatBrowser).mockReturnValue(true);
+    mockProviders([{ id: 'google', name: 'Google' }]);
+    renderPage();
+
+    expect(await screen.findByText('WeChat Browser Detected')).toBeInTheDocument();
+  });
+});
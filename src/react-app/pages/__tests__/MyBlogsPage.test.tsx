@@ -5,29 +5,24 @@ import { MyBlogsPage } from '../MyBlogsPage';
 import type { BlogWithLikeStatus } from '../../../types/blog';
 
 // Mock dependencies
-vi.mock('react-i18next', () => ({
-  useTranslation: () => ({
-    t: (key: string, defaultValue?: string | Record<string, unknown>) => {
-      const translations: Record<string, string> = {
-        'myBlogs.title': 'My Blogs',
-        'myBlogs.subtitle': 'Manage your blog posts',
-        'blogs.filterLabel': 'Filter',
-        'blogs.allBlogs': 'All Blogs',
-        'blogs.featuredBlogs': 'Featured Blogs',
-        'blogs.create': 'Create Blog',
-        'blogs.noBlogsFound': 'No blogs found',
-        'blogs.createFirst': 'Create your first blog',
-        'blogs.loadError': 'Failed to load blogs',
-        'blogs.like': 'Like',
-        'blogs.unlike': 'Unlike',
-        'blogs.featured': 'Featured',
-        'blogs.readMore': 'Read More',
-      };
-
-      return translations[key] || (typeof defaultValue === 'string' ? defaultValue : key);
-    },
-  }),
-}));
+vi.mock('react-i18next', async () => {
+  const { createTranslationMock } = await import('../../__tests__/utils/i18nMock');
+  return createTranslationMock({
+    'myBlogs.title': 'My Blogs',
+    'myBlogs.subtitle': 'Manage your blog posts',
+    'blogs.filterLabel': 'Filter',
+    'blogs.allBlogs': 'All Blogs',
+    'blogs.featuredBlogs': 'Featured Blogs',
+    'blogs.create': 'Create Blog',
+    'blogs.noBlogsFound': 'No blogs found',
+    'blogs.createFirst': 'Create your first blog',
+    'blogs.loadError': 'Failed to load blogs',
+    'blogs.like': 'Like',
+    'blogs.unlike': 'Unlike',
+    'blogs.featured': 'Featured',
+    'blogs.readMore': 'Read More',
+  });
+});
 
 vi.mock('../../context/AuthContext', () => ({
   useAuth: () => ({
@@ -0,0 +1,158 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BrowserRouter } from 'react-router-dom';
+import { PointsHistoryPage } from '../PointsHistoryPage';
+import type { PointsTransaction } from '../../../types/points';
+
+// Mock dependencies
+vi.mock('react-i18next', async () => {
+  const { createTranslationMock } = await import('../../__tests__/utils/i18nMock');
+  return createTranslationMock({
+    'points.history.title': 'My Points',
+    'points.history.subtitle': 'Every change to your balance and why it happened',
+    'points.history.filterLabel': 'Show',
+    'points.history.groups.all': 'All activity',
+    'points.history.groups.solutions': 'Forum solutions',
+    'points.history.actions.upvote_received': 'Upvote on your post',
+    'points.history.actions.upvote_received_reversed': 'Upvote withdrawn',
+    'points.history.actions.opening_balance': 'Balance before history tracking',
+    'points.history.balanceAfter': 'Balance: {{balance}}',
+    'points.history.limitReached': 'hourly limit reached',
+    'points.history.empty': 'No points activity yet',
+    'points.history.loadMore': 'Load more',
+    'points.history.loadError': 'Failed to load points history',
+  });
+});
+
+vi.mock('../../context/AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', email: 'test@example.com', name: 'Test User' },
+  }),
+}));
+
+vi.mock('../../services/pointsService', () => ({
+  getPointsHistory: vi.fn(),
+  getUserPoints: vi.fn(),
+}));
+
+import { getPointsHistory, getUserPoints } from '../../services/pointsService';
+
+const mockGetPointsHistory = getPointsHistory as ReturnType<typeof vi.fn>;
+const mockGetUserPoints = getUserPoints as ReturnType<typeof vi.fn>;
+
+const transaction = (overrides: Partial<PointsTransaction>): PointsTransaction => ({
+  id: 'tx-1',
+  user_id: 'user-1',
+  action_type: 'upvote_received',
+  reference_id: 'vote-1',
+  points: 3,
+  balance_after: 38,
+  created_at: 1700000000,
+  ...overrides,
+});
+
+const renderPage = () =>
+  render(
+    <BrowserRouter>
+      <PointsHistoryPage />
+    </BrowserRouter>
+  );
+
+describe('PointsHistoryPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUserPoints.mockResolvedValue({ user_id: 'user-1', points: 38, rank: 4 });
+  });
+
+  it('should list transactions with their change and resulting balance', async () => {
+    mockGetPointsHistory.mockResolvedValue({
+      transactions: [
+        transaction({ id: 'tx-2', action_type: 'upvote_received_reversed', points: -3, balance_after: 35 }),
+        transaction({ id: 'tx-1', action_type: 'opening_balance', points: 35, balance_after: null }),
+      ],
+      total: 2,
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Upvote withdrawn')).toBeInTheDocument();
+    });
+    expect(screen.getByText('-3')).toBeInTheDocument();
+    expect(screen.getByText('Balance: 35')).toBeInTheDocument();
+    expect(screen.getByText('Balance before history tracking')).toBeInTheDocument();
+    expect(screen.getByText('+35')).toBeInTheDocument();
+    expect(mockGetPointsHistory).toHaveBeenCalledWith('user-1', { action_types: undefined, limit: 20 });
+  });
+
+  it('should explain entries that earned nothing', async () => {
+    mockGetPointsHistory.mockResolvedValue({
+      transactions: [transaction({ points: 0 })],
+      total: 1,
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText(/hourly limit reached/)).toBeInTheDocument();
+    });
+  });
+
+  it('should filter by action group', async () => {
+    mockGetPointsHistory.mockResolvedValue({ transactions: [], total: 0 });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('No points activity yet')).toBeInTheDocument();
+    });
+
+    await userEvent.selectOptions(screen.getByLabelText('Show'), 'solutions');
+
+    await waitFor(() => {
+      expect(mockGetPointsHistory).toHaveBeenLastCalledWith('user-1', {
+        action_types: [
+          'reply_marked_solution',
+          'reply_marked_solution_reversed',
+          'thread_solved',
+          'thread_solved_reversed',
+        ],
+        limit: 20,
+      });
+    });
+  });
+
+  it('should load the next page', async () => {
+    mockGetPointsHistory
+      .mockResolvedValueOnce({ transactions: [transaction({ id: 'tx-2' })], total: 2 })
+      .mockResolvedValueOnce({
+        transactions: [transaction({ id: 'tx-1', action_type: 'opening_balance', points: 35 })],
+        total: 2,
+      });
+
+    renderPage();
+
+    await userEvent.click(await screen.findByText('Load more'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Balance before history tracking')).toBeInTheDocument();
+    });
+    expect(mockGetPointsHistory).toHaveBeenLastCalledWith('user-1', {
+      action_types: undefined,
+      limit: 20,
+      offset: 1,
+    });
+    expect(screen.queryByText('Load more')).not.toBeInTheDocument();
+  });
+
+  it('should show an error when the history fails to load', async () => {
+    mockGetPointsHistory.mockRejectedValue(new Error('Network error'));
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load points history')).toBeInTheDocument();
+    });
+  });
+});
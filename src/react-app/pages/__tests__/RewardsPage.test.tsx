@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { toast } from 'sonner';
+import { RewardsPage } from '../RewardsPage';
+import * as rewardService from '../../services/rewardService';
+import * as pointsService from '../../services/pointsService';
+import { ApiError } from '../../services/apiClient';
+import type { Reward, RewardRedemption } from '../../../types/reward';
+import { RedemptionStatus } from '../../../types/reward';
+
+vi.mock('../../services/rewardService', () => ({
+  getRewards: vi.fn(),
+  getMyRedemptions: vi.fn(),
+  redeemReward: vi.fn(),
+}));
+
+vi.mock('../../services/pointsService', () => ({
+  getUserPoints: vi.fn(),
+}));
+
+vi.mock('../../context/AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', email: 'test@example.com', name: 'Test User' },
+  }),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const reward = (overrides: Partial<Reward>): Reward => ({
+  id: 'reward-1',
+  name: 'Event ticket',
+  description: 'Entry to the annual conference',
+  cost: 200,
+  stock: 3,
+  expires_at: null,
+  is_active: true,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  ...overrides,
+});
+
+const redemption = (overrides: Partial<RewardRedemption>): RewardRedemption => ({
+  id: 'redemption-1',
+  reward_id: 'reward-1',
+  user_id: 'user-1',
+  cost: 200,
+  status: RedemptionStatus.Pending,
+  note: null,
+  admin_note: null,
+  processed_by: null,
+  processed_at: null,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  reward_name: 'Event ticket',
+  ...overrides,
+});
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <RewardsPage />
+    </MemoryRouter>
+  );
+
+describe('RewardsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rewardService.getRewards).mockResolvedValue([
+      reward({}),
+      reward({ id: 'reward-2', name: 'Mentor session', cost: 500, stock: null }),
+      reward({ id: 'reward-3', name: 'Sticker pack', cost: 50, stock: 0 }),
+    ]);
+    vi.mocked(rewardService.getMyRedemptions).mockResolvedValue({ redemptions: [], total: 0 });
+    vi.mocked(pointsService.getUserPoints).mockResolvedValue({ user_id: 'user-1', points: 300, rank: 4 });
+  });
+
+  it('should show the catalog with stock and whether each reward can be redeemed', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Event ticket')).toBeInTheDocument();
+    expect(screen.getByText('3 left')).toBeInTheDocument();
+    expect(screen.getByText('Unlimited')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Redeem' })).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Not enough points' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Out of stock' })).toBeDisabled();
+    expect(screen.getByText("You haven't redeemed any rewards yet")).toBeInTheDocument();
+  });
+
+  it('should redeem a reward with a note and update the balance, stock and history', async () => {
+    const user = userEvent.setup();
+    vi.mocked(rewardService.redeemReward).mockResolvedValue({
+      redemption: redemption({ note: 'Size M' }),
+      points: 100,
+    });
+    renderPage();
+    await screen.findByText('Event ticket');
+
+    await user.click(screen.getByRole('button', { name: 'Redeem' }));
+    const dialog = await screen.findByRole('dialog');
+    await user.type(within(dialog).getByLabelText('Note for the team'), 'Size M');
+    await user.click(within(dialog).getByRole('button', { name: 'Redeem' }));
+
+    await waitFor(() => {
+      expect(rewardService.redeemReward).toHaveBeenCalledWith('reward-1', 'Size M');
+    });
+    expect(toast.success).toHaveBeenCalledWith('You redeemed Event ticket');
+    expect(await screen.findByText('2 left')).toBeInTheDocument();
+    expect(screen.getByText('Pending')).toBeInTheDocument();
+    // 100 points left is no longer enough for the ticket
+    expect(screen.getAllByRole('button', { name: 'Not enough points' })).toHaveLength(2);
+  });
+
+  it('should show the error from the server when a redemption fails', async () => {
+    const user = userEvent.setup();
+    vi.mocked(rewardService.redeemReward).mockRejectedValue(new ApiError('This reward is out of stock', 409));
+    renderPage();
+    await screen.findByText('Event ticket');
+
+    await user.click(screen.getByRole('button', { name: 'Redeem' }));
+    const dialog = await screen.findByRole('dialog');
+    await user.click(within(dialog).getByRole('button', { name: 'Redeem' }));
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith('This reward is out of stock');
+    });
+  });
+
+  it('should list past redemptions with their status and admin note', async () => {
+    vi.mocked(rewardService.getMyRedemptions).mockResolvedValue({
+      redemptions: [
+        redemption({ status: RedemptionStatus.Fulfilled, admin_note: 'Picked up at the front desk' }),
+      ],
+      total: 1,
+    });
+    renderPage();
+
+    expect(await screen.findByText('Fulfilled')).toBeInTheDocument();
+    expect(screen.getByText('Picked up at the front desk')).toBeInTheDocument();
+  });
+});
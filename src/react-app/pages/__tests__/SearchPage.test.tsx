@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { SearchPage } from '../SearchPage';
+import * as searchServiceModule from '../../services/searchService';
+import { SearchContentType } from '../../../types/search';
+import type { SearchResult } from '../../../types/search';
+
+vi.mock('../../services/searchService', () => ({
+  search: vi.fn(),
+}));
+
+vi.mock('../../services/forumService', () => ({
+  forumService: {
+    getAllCategories: vi.fn().mockResolvedValue([
+      { id: 'cat_career', name: 'Career Development', slug: 'career', description: null, parent_id: null, icon: null, display_order: 1, thread_count: 3, created_at: 0 },
+    ]),
+  },
+}));
+
+const mockResult: SearchResult = {
+  type: SearchContentType.Thread,
+  id: 'thread_1',
+  title: 'Finding a <mark>mentor</mark>',
+  snippet: 'Tips for finding a <mark>mentor</mark> &lt;fast&gt;',
+  url: '/forums/threads/thread_1',
+  author_id: 'user_1',
+  author_name: 'Alice',
+  category_id: 'cat_career',
+  thread_id: 'thread_1',
+  created_at: 1700000000,
+};
+
+function LocationDisplay() {
+  const location = useLocation();
+  return <div data-testid="location">{location.search}</div>;
+}
+
+const renderPage = (initialEntry: string) =>
+  render(
+    <MemoryRouter initialEntries={[initialEntry]}>
+      <Routes>
+        <Route path="/search" element={<><SearchPage /><LocationDisplay /></>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('SearchPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should prompt for a query without searching', async () => {
+    renderPage('/search');
+
+    expect(await screen.findByRole('option', { name: 'Career Development' })).toBeInTheDocument();
+    expect(screen.getByText('Enter a search term to find threads, replies and blogs.')).toBeInTheDocument();
+    expect(searchServiceModule.search).not.toHaveBeenCalled();
+  });
+
+  it('should search from the URL and render highlighted results', async () => {
+    vi.mocked(searchServiceModule.search).mockResolvedValue({
+      query: 'mentor',
+      results: [mockResult],
+      total: 1,
+      limit: 20,
+      offset: 0,
+    });
+
+    renderPage('/search?q=mentor&type=thread');
+
+    await waitFor(() => {
+      expect(screen.getByText('1 result for “mentor”')).toBeInTheDocument();
+    });
+    expect(searchServiceModule.search).toHaveBeenCalledWith(
+      expect.objectContaining({ q: 'mentor', type: 'thread' })
+    );
+    const link = screen.getByRole('link', { name: 'Finding a mentor' });
+    expect(link).toHaveAttribute('href', '/forums/threads/thread_1');
+    expect(link.querySelector('mark')?.textContent).toBe('mentor');
+    expect(screen.getByText(/<fast>/)).toBeInTheDocument();
+  });
+
+  it('should update the URL when filtering by author', async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchServiceModule.search).mockResolvedValue({
+      query: 'mentor',
+      results: [mockResult],
+      total: 1,
+      limit: 20,
+      offset: 0,
+    });
+
+    renderPage('/search?q=mentor');
+
+    await user.click(await screen.findByRole('button', { name: 'More from this author' }));
+
+    expect(screen.getByTestId('location')).toHaveTextContent('author_id=user_1');
+    await waitFor(() => {
+      expect(searchServiceModule.search).toHaveBeenLastCalledWith(
+        expect.objectContaining({ q: 'mentor', author_id: 'user_1' })
+      );
+    });
+    expect(screen.getByText('Showing results from one author.')).toBeInTheDocument();
+  });
+
+  it('should show an empty state when nothing matches', async () => {
+    vi.mocked(searchServiceModule.search).mockResolvedValue({
+      query: 'zzz',
+      results: [],
+      total: 0,
+      limit: 20,
+      offset: 0,
+    });
+
+    renderPage('/search?q=zzz');
+
+    expect(await screen.findByText('No results for “zzz”. Try different or fewer words.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { SessionsPage } from '../SessionsPage';
+import * as sessionService from '../../services/sessionService';
+import type { UserSession } from '../../../types/user';
+
+const mockLogout = vi.fn();
+const mockNavigate = vi.fn();
+
+vi.mock('../../services/sessionService', () => ({
+  getSessions: vi.fn(),
+  revokeSession: vi.fn(),
+  revokeOtherSessions: vi.fn(),
+}));
+
+vi.mock('../../context/AuthContext', () => ({
+  useAuth: () => ({ logout: mockLogout }),
+}));
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return { ...actual, useNavigate: () => mockNavigate };
+});
+
+const session = (overrides: Partial<UserSession>): UserSession => ({
+  id: 'session-1',
+  user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+  ip_address: '203.0.113.1',
+  created_at: 1700000000,
+  last_used_at: 1700003600,
+  expires_at: 1702592000,
+  current: true,
+  ...overrides,
+});
+
+const sessions = [
+  session({}),
+  session({
+    id: 'session-2',
+    user_agent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+    ip_address: null,
+    current: false,
+  }),
+];
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <SessionsPage />
+    </MemoryRouter>
+  );
+
+describe('SessionsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sessionService.getSessions).mockResolvedValue(sessions);
+  });
+
+  it('should list devices and mark the current one', async () => {
+    renderPage();
+
+    const current = (await screen.findByText('Chrome on macOS')).closest('li') as HTMLElement;
+    expect(within(current).getByText('This device')).toBeInTheDocument();
+    expect(within(current).getByText(/203\.0\.113\.1/)).toBeInTheDocument();
+
+    const other = screen.getByText('Safari on iOS').closest('li') as HTMLElement;
+    expect(within(other).queryByText('This device')).not.toBeInTheDocument();
+  });
+
+  it('should sign another device out', async () => {
+    const user = userEvent.setup();
+    vi.mocked(sessionService.revokeSession).mockResolvedValue();
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Sign out device' }));
+
+    expect(sessionService.revokeSession).toHaveBeenCalledWith('session-2');
+    expect(screen.queryByText('Safari on iOS')).not.toBeInTheDocument();
+    expect(mockLogout).not.toHaveBeenCalled();
+  });
+
+  it('should log out when the current device is signed out', async () => {
+    const user = userEvent.setup();
+    vi.mocked(sessionService.revokeSession).mockResolvedValue();
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Sign out' }));
+
+    expect(sessionService.revokeSession).toHaveBeenCalledWith('session-1');
+    expect(mockLogout).toHaveBeenCalled();
+    expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true });
+  });
+
+  it('should sign out every other device', async () => {
+    const user = userEvent.setup();
+    vi.mocked(sessionService.revokeOtherSessions).mockResolvedValue(1);
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Sign out other devices' }));
+
+    expect(sessionService.revokeOtherSessions).toHaveBeenCalled();
+    expect(screen.queryByText('Safari on iOS')).not.toBeInTheDocument();
+    expect(screen.getByText('Chrome on macOS')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Sign out other devices' })).not.toBeInTheDocument();
+  });
+
+  it('should show an error when sessions fail to load', async () => {
+    vi.mocked(sessionService.getSessions).mockRejectedValue(new Error('Network error'));
+    renderPage();
+
+    expect(await screen.findByText('Failed to load your sessions')).toBeInTheDocument();
+  });
+});
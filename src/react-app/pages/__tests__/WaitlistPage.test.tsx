@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { WaitlistPage } from '../WaitlistPage';
+import * as inviteService from '../../services/inviteService';
+import { ApiError } from '../../services/apiClient';
+import { WaitlistStatus } from '../../../types/invite';
+
+vi.mock('../../services/inviteService', () => ({
+  joinWaitlist: vi.fn(),
+}));
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <WaitlistPage />
+    </MemoryRouter>
+  );
+
+describe('WaitlistPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should join the waitlist and confirm', async () => {
+    const user = userEvent.setup();
+    vi.mocked(inviteService.joinWaitlist).mockResolvedValue({
+      id: 'waitlist-1',
+      email: 'newcomer@example.com',
+      name: 'Newcomer',
+      reason: null,
+      locale: 'en',
+      status: WaitlistStatus.Pending,
+      user_id: null,
+      reviewed_by: null,
+      reviewed_at: null,
+      created_at: 1700000000,
+      updated_at: 1700000000,
+    });
+    renderPage();
+
+    await user.type(screen.getByLabelText('Email'), 'newcomer@example.com');
+    await user.type(screen.getByLabelText('Name'), 'Newcomer');
+    await user.click(screen.getByRole('button', { name: 'Join the waitlist' }));
+
+    expect(inviteService.joinWaitlist).toHaveBeenCalledWith({
+      email: 'newcomer@example.com',
+      name: 'Newcomer',
+      reason: undefined,
+      locale: 'en',
+    });
+    expect(await screen.findByText(/We'll email newcomer@example.com/)).toBeInTheDocument();
+  });
+
+  it('should show errors from the server', async () => {
+    const user = userEvent.setup();
+    vi.mocked(inviteService.joinWaitlist).mockRejectedValue(
+      new ApiError('This email is already on the waitlist', 409)
+    );
+    renderPage();
+
+    await user.type(screen.getByLabelText('Email'), 'newcomer@example.com');
+    await user.type(screen.getByLabelText('Name'), 'Newcomer');
+    await user.click(screen.getByRole('button', { name: 'Join the waitlist' }));
+
+    expect(await screen.findByText('This email is already on the waitlist')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Join the waitlist' })).toBeInTheDocument();
+  });
+});
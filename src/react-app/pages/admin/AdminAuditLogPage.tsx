@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../context/AuthContext';
+import { getAuditLog } from '../../services/auditLogService';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Input } from '../../components/ui/input';
+import type { AuditLogEntry } from '../../../types/audit';
+import { AuditAction, AuditTargetType, isAuditAction, isAuditTargetType } from '../../../types/audit';
+import { UserRole } from '../../../types/role';
+
+const PAGE_SIZE = 50;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Convert a yyyy-mm-dd date input to a Unix timestamp at the start or end of that local day
+ */
+function dateToTimestamp(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? undefined : Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Render one side of a change; fields missing on that side show a dash
+ */
+function formatValue(value: unknown): string {
+  return value === undefined ? '—' : JSON.stringify(value);
+}
+
+/**
+ * Before → after lines for every field an entry changed
+ */
+function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const keys = Array.from(new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]));
+
+  return (
+    <ul className="space-y-1 font-mono text-xs">
+      {keys.map((key) => (
+        <li key={key} className="break-all">
+          <span className="text-muted-foreground">{key}:</span>{' '}
+          <span className="text-red-700 dark:text-red-400">{formatValue(entry.before?.[key])}</span>
+          {' → '}
+          <span className="text-green-700 dark:text-green-400">{formatValue(entry.after?.[key])}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * AdminAuditLogPage Component
+ * Browses the append-only log of privileged actions, newest first
+ * Filters live in the URL so a "who changed this and when" answer can be shared as a link
+ */
+export function AdminAuditLogPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const actionParam = searchParams.get('action');
+  const targetTypeParam = searchParams.get('target_type');
+  const action = isAuditAction(actionParam) ? actionParam : undefined;
+  const targetType = isAuditTargetType(targetTypeParam) ? targetTypeParam : undefined;
+  const actorId = searchParams.get('actor_id') || undefined;
+  const targetId = searchParams.get('target_id') || undefined;
+  const fromDate = searchParams.get('from') || '';
+  const toDate = searchParams.get('to') || '';
+  const from = dateToTimestamp(fromDate, false);
+  const to = dateToTimestamp(toDate, true);
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [targetInput, setTargetInput] = useState(targetId || '');
+
+  const isAdmin = user?.role === UserRole.Admin;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadEntries = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await getAuditLog({
+          actor_id: actorId,
+          action,
+          target_type: targetType,
+          target_id: targetId,
+          from,
+          to,
+          limit: PAGE_SIZE,
+        });
+        setEntries(response.entries);
+        setTotal(response.total);
+      } catch {
+        setError(t('admin.auditLog.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [isAdmin, actorId, action, targetType, targetId, from, to, t]);
+
+  if (!user || !isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  const updateParams = (updates: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await getAuditLog({
+        actor_id: actorId,
+        action,
+        target_type: targetType,
+        target_id: targetId,
+        from,
+        to,
+        limit: PAGE_SIZE,
+        offset: entries.length,
+      });
+      setEntries((prev) => [...prev, ...response.entries]);
+      setTotal(response.total);
+    } catch {
+      setError(t('admin.auditLog.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const hasFilters = Boolean(actorId || action || targetType || targetId || fromDate || toDate);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t('admin.auditLog.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('admin.auditLog.subtitle')}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <div className="space-y-1">
+          <label htmlFor="audit-action" className="text-sm font-medium">
+            {t('admin.auditLog.actionLabel')}
+          </label>
+          <select
+            id="audit-action"
+            className={selectClassName}
+            value={action || ''}
+            onChange={(e) => updateParams({ action: e.target.value || undefined })}
+          >
+            <option value="">{t('admin.auditLog.allActions')}</option>
+            {Object.values(AuditAction).map((value) => (
+              <option key={value} value={value}>
+                {t(`admin.auditLog.actions.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="audit-target-type" className="text-sm font-medium">
+            {t('admin.auditLog.targetTypeLabel')}
+          </label>
+          <select
+            id="audit-target-type"
+            className={selectClassName}
+            value={targetType || ''}
+            onChange={(e) => updateParams({ target_type: e.target.value || undefined })}
+          >
+            <option value="">{t('admin.auditLog.allTargets')}</option>
+            {Object.values(AuditTargetType).map((value) => (
+              <option key={value} value={value}>
+                {t(`admin.auditLog.targetTypes.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <form
+          className="space-y-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateParams({ target_id: targetInput.trim() || undefined });
+          }}
+        >
+          <label htmlFor="audit-target-id" className="text-sm font-medium">
+            {t('admin.auditLog.targetIdLabel')}
+          </label>
+          <Input
+            id="audit-target-id"
+            value={targetInput}
+            onChange={(e) => setTargetInput(e.target.value)}
+            onBlur={() => updateParams({ target_id: targetInput.trim() || undefined })}
+            placeholder={t('admin.auditLog.targetIdPlaceholder')}
+          />
+        </form>
+        <div className="space-y-1">
+          <label htmlFor="audit-from" className="text-sm font-medium">
+            {t('admin.auditLog.fromLabel')}
+          </label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={fromDate}
+            onChange={(e) => updateParams({ from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="audit-to" className="text-sm font-medium">
+            {t('admin.auditLog.toLabel')}
+          </label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={toDate}
+            onChange={(e) => updateParams({ to: e.target.value || undefined })}
+          />
+        </div>
+        {hasFilters && (
+          <div className="flex items-end">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setTargetInput('');
+                setSearchParams(new URLSearchParams());
+              }}
+            >
+              {t('admin.auditLog.clearFilters')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {actorId && (
+        <p className="text-sm text-muted-foreground">
+          {t('admin.auditLog.actorFilterActive', {
+            name: entries.find((entry) => entry.actor_id === actorId)?.actor_name || actorId,
+          })}
+        </p>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">{t('admin.auditLog.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="border rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50 border-b">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.auditLog.columns.time')}</th>
+                    <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.auditLog.columns.actor')}</th>
+                    <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.auditLog.columns.action')}</th>
+                    <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.auditLog.columns.target')}</th>
+                    <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.auditLog.columns.changes')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="align-top">
+                      <td className="px-4 py-3 text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(entry.created_at * 1000).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <button
+                          type="button"
+                          className="hover:underline text-left"
+                          onClick={() => updateParams({ actor_id: entry.actor_id })}
+                        >
+                          {entry.actor_name || entry.actor_id}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge variant="outline">{t(`admin.auditLog.actions.${entry.action}`)}</Badge>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-muted-foreground">
+                          {t(`admin.auditLog.targetTypes.${entry.target_type}`)}
+                        </div>
+                        <button
+                          type="button"
+                          className="font-mono text-xs hover:underline break-all text-left"
+                          onClick={() => {
+                            setTargetInput(entry.target_id);
+                            updateParams({ target_type: entry.target_type, target_id: entry.target_id });
+                          }}
+                        >
+                          {entry.target_id}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3">
+                        <AuditChanges entry={entry} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {entries.length < total && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t('admin.auditLog.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,512 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Loader2, Plus, Edit, Trash2, Users } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../context/AuthContext';
+import { getEvents, createEvent, updateEvent, deleteEvent } from '../../services/eventService';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Card } from '../../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../../components/ui/dialog';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import type { CreateEventDTO, Event, EventLocation } from '../../../types/event';
+import {
+  MAX_EVENT_DESCRIPTION_LENGTH,
+  MAX_EVENT_NAME_LENGTH,
+  formatEventDate,
+  formatEventTime,
+  isUpcomingEvent,
+} from '../../../types/event';
+import { UserRole } from '../../../types/role';
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Convert an ISO timestamp to a datetime-local input value in local time
+ */
+function isoToLocalInput(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * AdminEventsPage Component
+ * Creates, edits and deletes community events
+ * Each event links to its attendee list, where members are checked in at the door
+ */
+export function AdminEventsPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create/Edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startAt, setStartAt] = useState('');
+  const [endAt, setEndAt] = useState('');
+  const [timezone, setTimezone] = useState('');
+  const [locationType, setLocationType] = useState<EventLocation['location_type']>('offline');
+  const [city, setCity] = useState('');
+  const [region, setRegion] = useState('');
+  const [fullAddress, setFullAddress] = useState('');
+  const [price, setPrice] = useState('');
+  const [capacity, setCapacity] = useState('');
+  const [hosts, setHosts] = useState('');
+  const [coverImageUrl, setCoverImageUrl] = useState('');
+  const [lumaUrl, setLumaUrl] = useState('');
+
+  // Delete confirmation
+  const [deletingEvent, setDeletingEvent] = useState<Event | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const isAdmin = user?.role === UserRole.Admin;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadEvents = async () => {
+      try {
+        setLoading(true);
+        // Newest first, so upcoming events are at the top
+        setEvents((await getEvents()).reverse());
+      } catch {
+        setError(t('admin.events.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, [isAdmin, t]);
+
+  if (!user || !isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  const openCreateDialog = () => {
+    setEditingEvent(null);
+    setName('');
+    setDescription('');
+    setStartAt('');
+    setEndAt('');
+    setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    setLocationType('offline');
+    setCity('');
+    setRegion('');
+    setFullAddress('');
+    setPrice('');
+    setCapacity('');
+    setHosts('');
+    setCoverImageUrl('');
+    setLumaUrl('');
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (event: Event) => {
+    setEditingEvent(event);
+    setName(event.name);
+    setDescription(event.description || '');
+    setStartAt(isoToLocalInput(event.start_at));
+    setEndAt(isoToLocalInput(event.end_at));
+    setTimezone(event.timezone || '');
+    setLocationType(event.location.location_type);
+    setCity(event.location.city || '');
+    setRegion(event.location.region || '');
+    setFullAddress(event.location.full_address || '');
+    setPrice(event.ticket_info.is_free || !event.ticket_info.price_cents ? '' : String(event.ticket_info.price_cents / 100));
+    setCapacity(event.capacity ? String(event.capacity) : '');
+    setHosts(event.hosts.map((host) => host.name).join(', '));
+    setCoverImageUrl(event.cover_image_url || '');
+    setLumaUrl(event.luma_url || '');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !startAt || !endAt) return;
+
+    // Blank price means free, blank capacity means unlimited
+    const priceCents = price === '' ? 0 : Math.round(parseFloat(price) * 100);
+    const data: CreateEventDTO = {
+      name: name.trim(),
+      description: description.trim(),
+      start_at: new Date(startAt).toISOString(),
+      end_at: new Date(endAt).toISOString(),
+      timezone: timezone.trim() || undefined,
+      location:
+        locationType === 'online'
+          ? { location_type: 'online' }
+          : {
+              // Keep the address details the form doesn't show, e.g. on imported events
+              ...editingEvent?.location,
+              location_type: 'offline',
+              city: city.trim(),
+              region: region.trim(),
+              full_address: fullAddress.trim(),
+            },
+      ticket_info:
+        priceCents > 0
+          ? { is_free: false, price_cents: priceCents, currency: editingEvent?.ticket_info.currency || 'usd' }
+          : { is_free: true },
+      capacity: capacity === '' ? null : parseInt(capacity, 10),
+      hosts: hosts
+        .split(',')
+        .map((host) => host.trim())
+        .filter(Boolean)
+        .map((host) => ({ name: host })),
+      cover_image_url: coverImageUrl.trim() || undefined,
+      luma_url: lumaUrl.trim() || undefined,
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingEvent) {
+        const updated = await updateEvent(editingEvent.id, {
+          ...data,
+          // Clearing a field in the form clears it on the event
+          timezone: data.timezone || null,
+          cover_image_url: data.cover_image_url || null,
+          luma_url: data.luma_url || null,
+        });
+        setEvents((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      } else {
+        const event = await createEvent(data);
+        setEvents((prev) => [event, ...prev]);
+      }
+      setDialogOpen(false);
+    } catch {
+      setError(t('admin.events.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deletingEvent) return;
+
+    try {
+      setDeleting(true);
+      await deleteEvent(deletingEvent.id);
+      setEvents((prev) => prev.filter((event) => event.id !== deletingEvent.id));
+      setDeletingEvent(null);
+    } catch {
+      setError(t('admin.events.deleteError'));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin.events.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('admin.events.subtitle')}</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('admin.events.create')}
+        </Button>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Events */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">{t('admin.events.noEvents')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {events.map((event) => (
+            <Card key={event.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="font-semibold">{event.name}</h3>
+                    {!isUpcomingEvent(event.start_at) && <Badge variant="secondary">{t('admin.events.past')}</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatEventDate(event.start_at)} · {formatEventTime(event.start_at, event.end_at)}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                    <span>
+                      {event.capacity
+                        ? t('admin.events.goingOfCapacity', {
+                            count: event.capacity - (event.ticket_info.spots_remaining ?? 0),
+                            capacity: event.capacity,
+                          })
+                        : t('admin.events.going', { count: event.guest_count })}
+                    </span>
+                    {Boolean(event.waitlist_count) && (
+                      <span>{t('admin.events.waitlist', { count: event.waitlist_count })}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Link to={`/admin/events/${event.id}/attendees`}>
+                    <Button variant="outline" size="sm">
+                      <Users className="w-4 h-4 mr-2" />
+                      {t('admin.events.attendees')}
+                    </Button>
+                  </Link>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openEditDialog(event)}
+                    aria-label={t('admin.events.edit')}
+                    title={t('admin.events.edit')}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeletingEvent(event)}
+                    aria-label={t('admin.events.delete')}
+                    title={t('admin.events.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>
+                {editingEvent ? t('admin.events.editTitle') : t('admin.events.createTitle')}
+              </DialogTitle>
+              <DialogDescription>{t('admin.events.dialogDescription')}</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="event-name">{t('admin.events.nameLabel')} *</Label>
+                <Input
+                  id="event-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={MAX_EVENT_NAME_LENGTH}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="event-description">{t('admin.events.descriptionLabel')}</Label>
+                <Textarea
+                  id="event-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={MAX_EVENT_DESCRIPTION_LENGTH}
+                  rows={3}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="event-start">{t('admin.events.startLabel')} *</Label>
+                  <Input
+                    id="event-start"
+                    type="datetime-local"
+                    value={startAt}
+                    onChange={(e) => setStartAt(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="event-end">{t('admin.events.endLabel')} *</Label>
+                  <Input
+                    id="event-end"
+                    type="datetime-local"
+                    value={endAt}
+                    onChange={(e) => setEndAt(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="event-timezone">{t('admin.events.timezoneLabel')}</Label>
+                  <Input
+                    id="event-timezone"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    placeholder="America/Los_Angeles"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="event-location-type">{t('admin.events.locationTypeLabel')}</Label>
+                  <select
+                    id="event-location-type"
+                    className={selectClassName}
+                    value={locationType}
+                    onChange={(e) => setLocationType(e.target.value as EventLocation['location_type'])}
+                  >
+                    <option value="offline">{t('admin.events.locationTypes.offline')}</option>
+                    <option value="online">{t('admin.events.locationTypes.online')}</option>
+                  </select>
+                </div>
+              </div>
+
+              {locationType === 'offline' && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="event-city">{t('admin.events.cityLabel')} *</Label>
+                      <Input id="event-city" value={city} onChange={(e) => setCity(e.target.value)} required />
+                    </div>
+                    <div>
+                      <Label htmlFor="event-region">{t('admin.events.regionLabel')}</Label>
+                      <Input id="event-region" value={region} onChange={(e) => setRegion(e.target.value)} />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="event-address">{t('admin.events.addressLabel')}</Label>
+                    <Input id="event-address" value={fullAddress} onChange={(e) => setFullAddress(e.target.value)} />
+                  </div>
+                </>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="event-price">{t('admin.events.priceLabel')}</Label>
+                  <Input
+                    id="event-price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder={t('admin.events.free')}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="event-capacity">{t('admin.events.capacityLabel')}</Label>
+                  <Input
+                    id="event-capacity"
+                    type="number"
+                    min="1"
+                    value={capacity}
+                    onChange={(e) => setCapacity(e.target.value)}
+                    placeholder={t('admin.events.unlimited')}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="event-hosts">{t('admin.events.hostsLabel')}</Label>
+                <Input
+                  id="event-hosts"
+                  value={hosts}
+                  onChange={(e) => setHosts(e.target.value)}
+                  placeholder={t('admin.events.hostsPlaceholder')}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="event-cover">{t('admin.events.coverImageLabel')}</Label>
+                <Input
+                  id="event-cover"
+                  type="url"
+                  value={coverImageUrl}
+                  onChange={(e) => setCoverImageUrl(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="event-luma">{t('admin.events.lumaUrlLabel')}</Label>
+                <Input
+                  id="event-luma"
+                  type="url"
+                  value={lumaUrl}
+                  onChange={(e) => setLumaUrl(e.target.value)}
+                  placeholder="https://luma.com/..."
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t('common.saving')}
+                  </>
+                ) : (
+                  t('common.save')
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deletingEvent !== null} onOpenChange={(open) => !open && setDeletingEvent(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('admin.events.deleteTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('admin.events.deleteConfirm', { name: deletingEvent?.name })}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingEvent(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={deleting}>
+              {deleting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {t('common.deleting')}
+                </>
+              ) : (
+                t('common.delete')
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
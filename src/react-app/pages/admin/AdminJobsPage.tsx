@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Loader2, Play } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../context/AuthContext';
+import { getScheduledJobs, getJobRuns, runScheduledJob } from '../../services/jobService';
+import { ApiError } from '../../services/apiClient';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import type { JobRun, ScheduledJobInfo } from '../../../types/job';
+import { JobRunStatus, JobTrigger, ScheduledJobName, isScheduledJobName } from '../../../types/job';
+import { UserRole } from '../../../types/role';
+
+const PAGE_SIZE = 50;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+const STATUS_VARIANTS: Record<JobRunStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  [JobRunStatus.Running]: 'secondary',
+  [JobRunStatus.Succeeded]: 'default',
+  [JobRunStatus.Failed]: 'destructive',
+  [JobRunStatus.Skipped]: 'outline',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString();
+}
+
+/**
+ * AdminJobsPage Component
+ * Shows the background jobs run by the worker's cron triggers, their run history,
+ * and lets an admin run a job right away
+ */
+export function AdminJobsPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [jobs, setJobs] = useState<ScheduledJobInfo[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [jobFilter, setJobFilter] = useState<ScheduledJobName | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [loadingRuns, setLoadingRuns] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [runningJob, setRunningJob] = useState<ScheduledJobName | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.role === UserRole.Admin;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadJobs = async () => {
+      try {
+        setLoading(true);
+        setJobs(await getScheduledJobs());
+      } catch {
+        setError(t('admin.jobs.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadJobs();
+  }, [isAdmin, t]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadRuns = async () => {
+      try {
+        setLoadingRuns(true);
+        const response = await getJobRuns({ job: jobFilter, limit: PAGE_SIZE });
+        setRuns(response.runs);
+        setTotal(response.total);
+      } catch {
+        setError(t('admin.jobs.loadError'));
+      } finally {
+        setLoadingRuns(false);
+      }
+    };
+
+    loadRuns();
+  }, [isAdmin, jobFilter, t]);
+
+  if (!user || !isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleRun = async (name: ScheduledJobName) => {
+    try {
+      setRunningJob(name);
+      setError(null);
+      const run = await runScheduledJob(name);
+      setJobs((prev) => prev.map((job) => (job.name === name ? { ...job, last_run: run } : job)));
+      if (!jobFilter || jobFilter === name) {
+        setRuns((prev) => [run, ...prev]);
+        setTotal((prev) => prev + 1);
+      }
+    } catch (err) {
+      setError(
+        err instanceof ApiError && err.status === 409 ? t('admin.jobs.alreadyRunning') : t('admin.jobs.runError')
+      );
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await getJobRuns({ job: jobFilter, limit: PAGE_SIZE, offset: runs.length });
+      setRuns((prev) => [...prev, ...response.runs]);
+      setTotal(response.total);
+    } catch {
+      setError(t('admin.jobs.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const renderStatus = (run: JobRun) => (
+    <Badge variant={STATUS_VARIANTS[run.status]}>{t(`admin.jobs.statuses.${run.status}`)}</Badge>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t('admin.jobs.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('admin.jobs.subtitle')}</p>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Jobs */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {jobs.map((job) => (
+            <li key={job.name} className="flex flex-wrap items-start justify-between gap-4 px-4 py-4">
+              <div className="min-w-0 space-y-1">
+                <p className="font-semibold">{t(`admin.jobs.names.${job.name}`)}</p>
+                <p className="text-sm text-muted-foreground">{t(`admin.jobs.descriptions.${job.name}`)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.jobs.schedule')} <code className="font-mono">{job.schedule}</code>
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {job.last_run ? (
+                    <>
+                      {renderStatus(job.last_run)}
+                      <span className="text-muted-foreground">
+                        {t('admin.jobs.lastRun', {
+                          time: formatTime(job.last_run.started_at),
+                          count: job.last_run.processed_count,
+                        })}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">{t('admin.jobs.neverRun')}</span>
+                  )}
+                  {job.locked_until && <Badge variant="secondary">{t('admin.jobs.locked')}</Badge>}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRun(job.name)}
+                disabled={runningJob !== null || Boolean(job.locked_until)}
+                aria-label={t('admin.jobs.runNowFor', { name: t(`admin.jobs.names.${job.name}`) })}
+              >
+                {runningJob === job.name ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="w-4 h-4 mr-2" />
+                )}
+                {t('admin.jobs.runNow')}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Run History */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <h2 className="text-xl font-semibold">{t('admin.jobs.history')}</h2>
+          <div className="w-full sm:w-64 space-y-1">
+            <label htmlFor="job-filter" className="text-sm font-medium">
+              {t('admin.jobs.jobLabel')}
+            </label>
+            <select
+              id="job-filter"
+              className={selectClassName}
+              value={jobFilter || ''}
+              onChange={(e) => setJobFilter(isScheduledJobName(e.target.value) ? e.target.value : undefined)}
+            >
+              <option value="">{t('admin.jobs.allJobs')}</option>
+              {Object.values(ScheduledJobName).map((name) => (
+                <option key={name} value={name}>
+                  {t(`admin.jobs.names.${name}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {loadingRuns ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">{t('admin.jobs.noRuns')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="border rounded-lg overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted/50 border-b">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.jobs.columns.started')}</th>
+                      <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.jobs.columns.job')}</th>
+                      <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.jobs.columns.trigger')}</th>
+                      <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.jobs.columns.status')}</th>
+                      <th className="px-4 py-3 text-left font-semibold text-sm">{t('admin.jobs.columns.processed')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {runs.map((run) => (
+                      <tr key={run.id} className="align-top">
+                        <td className="px-4 py-3 text-sm text-muted-foreground whitespace-nowrap">
+                          {formatTime(run.started_at)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">{t(`admin.jobs.names.${run.job_name}`)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {run.trigger === JobTrigger.Manual
+                            ? t('admin.jobs.triggers.manual', { name: run.triggered_by_name || run.triggered_by })
+                            : t('admin.jobs.triggers.cron')}
+                        </td>
+                        <td className="px-4 py-3 text-sm space-y-1">
+                          {renderStatus(run)}
+                          {run.error && <p className="text-xs text-red-700 break-all">{run.error}</p>}
+                        </td>
+                        <td className="px-4 py-3 text-sm">{run.processed_count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {runs.length < total && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('admin.jobs.loadMore')}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
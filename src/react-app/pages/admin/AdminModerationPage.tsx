@@ -0,0 +1,353 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Loader2, ExternalLink, CheckCircle, EyeOff, Trash2, AlertTriangle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../context/AuthContext';
+import { getReportGroups, takeModerationAction } from '../../services/reportService';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Card, CardHeader, CardTitle, CardContent } from '../../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../../components/ui/dialog';
+import { Textarea } from '../../components/ui/textarea';
+import { Label } from '../../components/ui/label';
+import type { ReportGroup } from '../../../types/report';
+import {
+  MAX_MODERATION_NOTE_LENGTH,
+  ModerationActionType,
+  ReportStatus,
+  ReportTargetType,
+  isReportTargetType,
+} from '../../../types/report';
+import { UserRole } from '../../../types/role';
+
+const PAGE_SIZE = 20;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+const actionIcons = {
+  [ModerationActionType.Dismiss]: CheckCircle,
+  [ModerationActionType.Hide]: EyeOff,
+  [ModerationActionType.Delete]: Trash2,
+  [ModerationActionType.Warn]: AlertTriangle,
+};
+
+const groupKey = (group: ReportGroup) => `${group.target_type}:${group.target_id}`;
+
+/**
+ * AdminModerationPage Component
+ * Moderation queue listing reported content grouped by target, most reported first
+ * Admins can dismiss the reports, hide or delete the content, or warn its author
+ */
+export function AdminModerationPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [status, setStatus] = useState<ReportStatus>(ReportStatus.Open);
+  const [type, setType] = useState<ReportTargetType | undefined>(undefined);
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<ReportGroup | null>(null);
+  const [selectedAction, setSelectedAction] = useState<ModerationActionType | null>(null);
+  const [note, setNote] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const isAdmin = user?.role === UserRole.Admin;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadReports = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await getReportGroups({ status, type, limit: PAGE_SIZE });
+        setGroups(response.groups);
+        setTotal(response.total);
+      } catch {
+        setError(t('admin.moderation.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReports();
+  }, [isAdmin, status, type, t]);
+
+  if (!user || !isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await getReportGroups({ status, type, limit: PAGE_SIZE, offset: groups.length });
+      setGroups((prev) => [...prev, ...response.groups]);
+      setTotal(response.total);
+    } catch {
+      setError(t('admin.moderation.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleActionClick = (group: ReportGroup, action: ModerationActionType) => {
+    setSelectedGroup(group);
+    setSelectedAction(action);
+    setNote('');
+  };
+
+  const handleDialogChange = (open: boolean) => {
+    if (!open) {
+      setSelectedGroup(null);
+      setSelectedAction(null);
+    }
+  };
+
+  const handleActionConfirm = async () => {
+    if (!selectedGroup || !selectedAction) return;
+
+    try {
+      setProcessing(true);
+      await takeModerationAction(selectedGroup.target_type, selectedGroup.target_id, {
+        action: selectedAction,
+        note: note.trim() || undefined,
+      });
+      // Acted-on groups leave the open queue
+      setGroups((prev) => prev.filter((group) => groupKey(group) !== groupKey(selectedGroup)));
+      setTotal((prev) => Math.max(0, prev - 1));
+      handleDialogChange(false);
+    } catch {
+      setError(t('admin.moderation.actionError'));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const noteRequired = selectedAction === ModerationActionType.Warn;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t('admin.moderation.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('admin.moderation.subtitle')}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="moderation-status" className="text-sm font-medium">
+            {t('admin.moderation.statusLabel')}
+          </label>
+          <select
+            id="moderation-status"
+            className={selectClassName}
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ReportStatus)}
+          >
+            {Object.values(ReportStatus).map((value) => (
+              <option key={value} value={value}>
+                {t(`admin.moderation.statuses.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="moderation-type" className="text-sm font-medium">
+            {t('admin.moderation.typeLabel')}
+          </label>
+          <select
+            id="moderation-type"
+            className={selectClassName}
+            value={type || ''}
+            onChange={(e) => setType(isReportTargetType(e.target.value) ? e.target.value : undefined)}
+          >
+            <option value="">{t('admin.moderation.allTypes')}</option>
+            {Object.values(ReportTargetType).map((value) => (
+              <option key={value} value={value}>
+                {t(`admin.moderation.types.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">{t('admin.moderation.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <Card key={groupKey(group)}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{t(`admin.moderation.types.${group.target_type}`)}</Badge>
+                      {group.content?.hidden && (
+                        <Badge variant="secondary">{t('admin.moderation.hidden')}</Badge>
+                      )}
+                    </div>
+                    <CardTitle className="text-lg">
+                      {group.content ? group.content.title : t('admin.moderation.contentRemoved')}
+                    </CardTitle>
+                    {group.content && (
+                      <p className="text-sm text-muted-foreground">
+                        {t('admin.moderation.byAuthor', { name: group.content.author_name })}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant="destructive" className="flex-shrink-0">
+                    {t('admin.moderation.reportCount', { count: group.report_count })}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {group.content && (
+                  <div className="space-y-2">
+                    <p className="text-sm whitespace-pre-wrap bg-muted p-3 rounded">
+                      {group.content.excerpt}
+                    </p>
+                    <Link
+                      to={group.content.link}
+                      className="text-sm text-primary hover:underline inline-flex items-center gap-1"
+                    >
+                      {t('admin.moderation.viewContent')}
+                      <ExternalLink className="w-3 h-3" />
+                    </Link>
+                  </div>
+                )}
+
+                {/* Individual reports */}
+                <ul className="space-y-2 text-sm">
+                  {group.reports.map((report) => (
+                    <li key={report.id} className="border-l-2 border-muted-foreground/30 pl-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{report.reporter_name || 'Unknown User'}</span>
+                        <Badge variant="outline">{t(`reports.reasons.${report.reason}`)}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(report.created_at * 1000).toLocaleDateString()}
+                        </span>
+                      </div>
+                      {report.details && (
+                        <p className="text-muted-foreground whitespace-pre-wrap mt-1">{report.details}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {/* Actions */}
+                {status === ReportStatus.Open && (
+                  <div className="flex flex-wrap items-center gap-2 pt-2">
+                    {Object.values(ModerationActionType)
+                      .filter((action) => group.content || action === ModerationActionType.Dismiss)
+                      .map((action) => {
+                        const Icon = actionIcons[action];
+                        return (
+                          <Button
+                            key={action}
+                            variant={action === ModerationActionType.Delete ? 'destructive' : 'outline'}
+                            size="sm"
+                            onClick={() => handleActionClick(group, action)}
+                            disabled={processing}
+                          >
+                            <Icon className="w-4 h-4 mr-2" />
+                            {t(`admin.moderation.actions.${action}`)}
+                          </Button>
+                        );
+                      })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+          {groups.length < total && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t('admin.moderation.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Action Dialog */}
+      <Dialog open={selectedAction !== null} onOpenChange={handleDialogChange}>
+        <DialogContent>
+          {selectedAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{t(`admin.moderation.actions.${selectedAction}`)}</DialogTitle>
+                <DialogDescription>
+                  {t(`admin.moderation.dialogDescriptions.${selectedAction}`)}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="py-4 space-y-2">
+                <Label htmlFor="moderation-note">{t('admin.moderation.noteLabel')}</Label>
+                <Textarea
+                  id="moderation-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={MAX_MODERATION_NOTE_LENGTH}
+                  placeholder={
+                    noteRequired
+                      ? t('admin.moderation.warnNotePlaceholder')
+                      : t('admin.moderation.notePlaceholder')
+                  }
+                  rows={4}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => handleDialogChange(false)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  variant={selectedAction === ModerationActionType.Delete ? 'destructive' : 'default'}
+                  onClick={handleActionConfirm}
+                  disabled={processing || (noteRequired && !note.trim())}
+                >
+                  {processing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {t('common.processing')}
+                    </>
+                  ) : (
+                    t('admin.moderation.confirm')
+                  )}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,568 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Loader2, Plus, Edit, Eye, EyeOff } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../context/AuthContext';
+import {
+  getAllRewards,
+  createReward,
+  updateReward,
+  getRedemptionQueue,
+  updateRedemption,
+} from '../../services/rewardService';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Card } from '../../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../../components/ui/dialog';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Textarea } from '../../components/ui/textarea';
+import type { Reward, RewardRedemption } from '../../../types/reward';
+import {
+  MAX_REDEMPTION_NOTE_LENGTH,
+  MAX_REWARD_DESCRIPTION_LENGTH,
+  MAX_REWARD_NAME_LENGTH,
+  REDEMPTION_TRANSITIONS,
+  RedemptionStatus,
+} from '../../../types/reward';
+import { formatPoints } from '../../../types/points';
+import { UserRole } from '../../../types/role';
+
+const PAGE_SIZE = 20;
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-background px-3 py-2 text-base focus:outline-none focus:ring-2 focus:ring-ring';
+
+/**
+ * Convert a yyyy-mm-dd date input to a Unix timestamp at the end of that local day
+ */
+function dateToTimestamp(value: string): number | null {
+  if (!value) return null;
+  const date = new Date(`${value}T23:59:59`);
+  return Number.isNaN(date.getTime()) ? null : Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Convert a Unix timestamp back to a yyyy-mm-dd date input value in local time
+ */
+function timestampToDate(timestamp: number | null): string {
+  if (timestamp === null) return '';
+  const date = new Date(timestamp * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * AdminRewardsPage Component
+ * Manages the rewards catalog and the fulfillment queue of member redemptions
+ * Redemptions move from pending to approved to fulfilled; refunding returns the points and stock
+ */
+export function AdminRewardsPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  // Catalog
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [loadingRewards, setLoadingRewards] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingReward, setEditingReward] = useState<Reward | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [cost, setCost] = useState('100');
+  const [stock, setStock] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+
+  // Fulfillment queue
+  const [status, setStatus] = useState<RedemptionStatus>(RedemptionStatus.Pending);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loadingQueue, setLoadingQueue] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selectedRedemption, setSelectedRedemption] = useState<RewardRedemption | null>(null);
+  const [nextStatus, setNextStatus] = useState<RedemptionStatus | null>(null);
+  const [adminNote, setAdminNote] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.role === UserRole.Admin;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadRewards = async () => {
+      try {
+        setLoadingRewards(true);
+        setRewards(await getAllRewards());
+      } catch {
+        setError(t('admin.rewards.loadError'));
+      } finally {
+        setLoadingRewards(false);
+      }
+    };
+
+    loadRewards();
+  }, [isAdmin, t]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadQueue = async () => {
+      try {
+        setLoadingQueue(true);
+        setError(null);
+        const response = await getRedemptionQueue({ status, limit: PAGE_SIZE });
+        setRedemptions(response.redemptions);
+        setTotal(response.total);
+      } catch {
+        setError(t('admin.rewards.loadError'));
+      } finally {
+        setLoadingQueue(false);
+      }
+    };
+
+    loadQueue();
+  }, [isAdmin, status, t]);
+
+  if (!user || !isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  const openCreateDialog = () => {
+    setEditingReward(null);
+    setName('');
+    setDescription('');
+    setCost('100');
+    setStock('');
+    setExpiresOn('');
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (reward: Reward) => {
+    setEditingReward(reward);
+    setName(reward.name);
+    setDescription(reward.description);
+    setCost(String(reward.cost));
+    setStock(reward.stock === null ? '' : String(reward.stock));
+    setExpiresOn(timestampToDate(reward.expires_at));
+    setDialogOpen(true);
+  };
+
+  const replaceReward = (reward: Reward) => {
+    setRewards((prev) => prev.map((item) => (item.id === reward.id ? reward : item)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) return;
+
+    const data = {
+      name: name.trim(),
+      description: description.trim(),
+      cost: parseInt(cost, 10),
+      // Blank stock means unlimited, blank expiry means it never expires
+      stock: stock === '' ? null : parseInt(stock, 10),
+      expires_at: dateToTimestamp(expiresOn),
+    };
+
+    try {
+      setSaving(true);
+      if (editingReward) {
+        replaceReward(await updateReward(editingReward.id, data));
+      } else {
+        const reward = await createReward(data);
+        setRewards((prev) => [reward, ...prev]);
+      }
+      setDialogOpen(false);
+    } catch {
+      setError(t('admin.rewards.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (reward: Reward) => {
+    try {
+      replaceReward(await updateReward(reward.id, { is_active: !reward.is_active }));
+    } catch {
+      setError(t('admin.rewards.saveError'));
+    }
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const response = await getRedemptionQueue({ status, limit: PAGE_SIZE, offset: redemptions.length });
+      setRedemptions((prev) => [...prev, ...response.redemptions]);
+      setTotal(response.total);
+    } catch {
+      setError(t('admin.rewards.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleTransitionClick = (redemption: RewardRedemption, to: RedemptionStatus) => {
+    setSelectedRedemption(redemption);
+    setNextStatus(to);
+    setAdminNote(redemption.admin_note || '');
+  };
+
+  const handleTransitionDialogChange = (open: boolean) => {
+    if (!open) {
+      setSelectedRedemption(null);
+      setNextStatus(null);
+    }
+  };
+
+  const handleTransitionConfirm = async () => {
+    if (!selectedRedemption || !nextStatus) return;
+
+    try {
+      setProcessing(true);
+      await updateRedemption(selectedRedemption.id, {
+        status: nextStatus,
+        admin_note: adminNote.trim() || undefined,
+      });
+      // Processed redemptions leave the current status filter
+      setRedemptions((prev) => prev.filter((redemption) => redemption.id !== selectedRedemption.id));
+      setTotal((prev) => Math.max(0, prev - 1));
+      // A refund puts the unit back in stock
+      if (nextStatus === RedemptionStatus.Refunded) {
+        setRewards((prev) =>
+          prev.map((reward) =>
+            reward.id === selectedRedemption.reward_id && reward.stock !== null
+              ? { ...reward, stock: reward.stock + 1 }
+              : reward
+          )
+        );
+      }
+      handleTransitionDialogChange(false);
+    } catch {
+      setError(t('admin.rewards.updateError'));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin.rewards.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('admin.rewards.subtitle')}</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('admin.rewards.create')}
+        </Button>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Catalog */}
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">{t('admin.rewards.catalog')}</h2>
+        {loadingRewards ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : rewards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('admin.rewards.noRewards')}</p>
+        ) : (
+          <div className="space-y-3">
+            {rewards.map((reward) => (
+              <Card key={reward.id} className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="font-semibold">{reward.name}</h3>
+                      {!reward.is_active && <Badge variant="secondary">{t('admin.rewards.inactive')}</Badge>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                      <span>{t('rewards.cost', { points: formatPoints(reward.cost) })}</span>
+                      <span>
+                        {reward.stock === null
+                          ? t('rewards.unlimited')
+                          : t('rewards.stockLeft', { count: reward.stock })}
+                      </span>
+                      {reward.expires_at !== null && (
+                        <span>
+                          {t('rewards.availableUntil', {
+                            date: new Date(reward.expires_at * 1000).toLocaleDateString(),
+                          })}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(reward)}
+                      aria-label={reward.is_active ? t('admin.rewards.deactivate') : t('admin.rewards.activate')}
+                      title={reward.is_active ? t('admin.rewards.deactivate') : t('admin.rewards.activate')}
+                    >
+                      {reward.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openEditDialog(reward)}
+                      aria-label={t('admin.rewards.edit')}
+                      title={t('admin.rewards.edit')}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Fulfillment Queue */}
+      <section className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <h2 className="text-xl font-semibold">{t('admin.rewards.queue')}</h2>
+          <div className="space-y-1 w-full sm:w-56">
+            <label htmlFor="redemption-status" className="text-sm font-medium">
+              {t('admin.rewards.statusLabel')}
+            </label>
+            <select
+              id="redemption-status"
+              className={selectClassName}
+              value={status}
+              onChange={(e) => setStatus(e.target.value as RedemptionStatus)}
+            >
+              {Object.values(RedemptionStatus).map((value) => (
+                <option key={value} value={value}>
+                  {t(`rewards.statuses.${value}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {loadingQueue ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : redemptions.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">{t('admin.rewards.emptyQueue')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {redemptions.map((redemption) => (
+              <Card key={redemption.id} className="p-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <h3 className="font-semibold">{redemption.reward_name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {t('admin.rewards.redeemedBy', {
+                        name: redemption.user_name || 'Unknown User',
+                        email: redemption.user_email || '',
+                      })}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(redemption.created_at * 1000).toLocaleString()}
+                      {' · '}
+                      {t('rewards.cost', { points: formatPoints(redemption.cost) })}
+                    </p>
+                    {redemption.note && (
+                      <p className="text-sm whitespace-pre-wrap bg-muted p-2 rounded">{redemption.note}</p>
+                    )}
+                    {redemption.admin_note && (
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {t('admin.rewards.adminNote', { note: redemption.admin_note })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {REDEMPTION_TRANSITIONS[redemption.status].map((to) => (
+                      <Button
+                        key={to}
+                        variant={to === RedemptionStatus.Refunded ? 'destructive' : 'outline'}
+                        size="sm"
+                        onClick={() => handleTransitionClick(redemption, to)}
+                        disabled={processing}
+                      >
+                        {t(`admin.rewards.actions.${to}`)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </Card>
+            ))}
+
+            {redemptions.length < total && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('admin.rewards.loadMore')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>
+                {editingReward ? t('admin.rewards.editTitle') : t('admin.rewards.createTitle')}
+              </DialogTitle>
+              <DialogDescription>{t('admin.rewards.dialogDescription')}</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="reward-name">{t('admin.rewards.nameLabel')} *</Label>
+                <Input
+                  id="reward-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={MAX_REWARD_NAME_LENGTH}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="reward-description">{t('admin.rewards.descriptionLabel')}</Label>
+                <Textarea
+                  id="reward-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={MAX_REWARD_DESCRIPTION_LENGTH}
+                  rows={3}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="reward-cost">{t('admin.rewards.costLabel')} *</Label>
+                  <Input
+                    id="reward-cost"
+                    type="number"
+                    min="1"
+                    value={cost}
+                    onChange={(e) => setCost(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reward-stock">{t('admin.rewards.stockLabel')}</Label>
+                  <Input
+                    id="reward-stock"
+                    type="number"
+                    min="0"
+                    value={stock}
+                    onChange={(e) => setStock(e.target.value)}
+                    placeholder={t('rewards.unlimited')}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reward-expires">{t('admin.rewards.expiresLabel')}</Label>
+                  <Input
+                    id="reward-expires"
+                    type="date"
+                    value={expiresOn}
+                    onChange={(e) => setExpiresOn(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t('common.saving')}
+                  </>
+                ) : (
+                  t('common.save')
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Transition Dialog */}
+      <Dialog open={nextStatus !== null} onOpenChange={handleTransitionDialogChange}>
+        <DialogContent>
+          {selectedRedemption && nextStatus && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{t(`admin.rewards.actions.${nextStatus}`)}</DialogTitle>
+                <DialogDescription>
+                  {t(`admin.rewards.dialogDescriptions.${nextStatus}`, {
+                    name: selectedRedemption.user_name || 'Unknown User',
+                    reward: selectedRedemption.reward_name,
+                    points: formatPoints(selectedRedemption.cost),
+                  })}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="py-4 space-y-2">
+                <Label htmlFor="redemption-admin-note">{t('admin.rewards.noteLabel')}</Label>
+                <Textarea
+                  id="redemption-admin-note"
+                  value={adminNote}
+                  onChange={(e) => setAdminNote(e.target.value)}
+                  maxLength={MAX_REDEMPTION_NOTE_LENGTH}
+                  placeholder={t('admin.rewards.notePlaceholder')}
+                  rows={3}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => handleTransitionDialogChange(false)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  variant={nextStatus === RedemptionStatus.Refunded ? 'destructive' : 'default'}
+                  onClick={handleTransitionConfirm}
+                  disabled={processing}
+                >
+                  {processing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {t('common.processing')}
+                    </>
+                  ) : (
+                    t('admin.rewards.confirm')
+                  )}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { Loader2, ArrowLeft, CheckCircle, Undo2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../context/AuthContext';
+import { getEvent, getEventAttendees, checkInAttendee, undoCheckIn } from '../../services/eventService';
+import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { Input } from '../../components/ui/input';
+import type { Event, EventRsvp } from '../../../types/event';
+import { EventRsvpStatus, formatEventDate, formatEventTime } from '../../../types/event';
+import { UserRole } from '../../../types/role';
+
+/**
+ * EventAttendeesPage Component
+ * Attendee list of an event for checking members in at the door
+ * Members going are listed first, then the waitlist in the order spots will be given out
+ */
+export function EventAttendeesPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [attendees, setAttendees] = useState<EventRsvp[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.role === UserRole.Admin;
+
+  useEffect(() => {
+    if (!isAdmin || !id) return;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [eventData, attendeesData] = await Promise.all([getEvent(id), getEventAttendees(id)]);
+        setEvent(eventData);
+        setAttendees(attendeesData);
+      } catch {
+        setError(t('admin.eventAttendees.loadError'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [isAdmin, id, t]);
+
+  if (!user || !isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleCheckIn = async (attendee: EventRsvp) => {
+    if (!id) return;
+
+    try {
+      setProcessing(attendee.user_id);
+      setError(null);
+      const updated = attendee.checked_in_at
+        ? await undoCheckIn(id, attendee.user_id)
+        : await checkInAttendee(id, attendee.user_id);
+      setAttendees((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch {
+      setError(t('admin.eventAttendees.checkInError'));
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const matches = (attendee: EventRsvp) =>
+    !query ||
+    (attendee.user_name || '').toLowerCase().includes(query) ||
+    (attendee.user_email || '').toLowerCase().includes(query);
+
+  const going = attendees.filter((attendee) => attendee.status === EventRsvpStatus.Going);
+  const waitlist = attendees.filter((attendee) => attendee.status === EventRsvpStatus.Waitlisted);
+  const checkedIn = going.filter((attendee) => attendee.checked_in_at).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <Link to="/admin/events" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          {t('admin.eventAttendees.back')}
+        </Link>
+        <h1 className="text-3xl font-bold">{event?.name || t('admin.eventAttendees.title')}</h1>
+        {event && (
+          <p className="text-muted-foreground">
+            {formatEventDate(event.start_at)} · {formatEventTime(event.start_at, event.end_at)}
+          </p>
+        )}
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <p className="text-sm font-medium">
+              {t('admin.eventAttendees.checkedInCount', { checked: checkedIn, count: going.length })}
+            </p>
+            <div className="w-full sm:w-72">
+              <Input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('admin.eventAttendees.searchPlaceholder')}
+                aria-label={t('admin.eventAttendees.searchPlaceholder')}
+              />
+            </div>
+          </div>
+
+          {/* Going */}
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">{t('admin.eventAttendees.going')}</h2>
+            {going.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('admin.eventAttendees.noAttendees')}</p>
+            ) : (
+              <ul className="divide-y border rounded-lg">
+                {going.filter(matches).map((attendee) => (
+                  <li key={attendee.id} className="flex flex-wrap items-center justify-between gap-4 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium">{attendee.user_name || 'Unknown User'}</p>
+                      <p className="text-sm text-muted-foreground">{attendee.user_email}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {attendee.checked_in_at && (
+                        <Badge>
+                          {t('admin.eventAttendees.checkedInAt', {
+                            time: new Date(attendee.checked_in_at * 1000).toLocaleTimeString(),
+                          })}
+                        </Badge>
+                      )}
+                      <Button
+                        size="sm"
+                        variant={attendee.checked_in_at ? 'outline' : 'default'}
+                        onClick={() => handleCheckIn(attendee)}
+                        disabled={processing === attendee.user_id}
+                        aria-label={
+                          attendee.checked_in_at
+                            ? t('admin.eventAttendees.undoCheckInFor', { name: attendee.user_name })
+                            : t('admin.eventAttendees.checkInFor', { name: attendee.user_name })
+                        }
+                      >
+                        {processing === attendee.user_id ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : attendee.checked_in_at ? (
+                          <Undo2 className="w-4 h-4 mr-2" />
+                        ) : (
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                        )}
+                        {attendee.checked_in_at ? t('admin.eventAttendees.undoCheckIn') : t('admin.eventAttendees.checkIn')}
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Waitlist */}
+          {waitlist.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold">{t('admin.eventAttendees.waitlist')}</h2>
+              <ol className="divide-y border rounded-lg">
+                {waitlist.filter(matches).map((attendee) => (
+                  <li key={attendee.id} className="px-4 py-3">
+                    <p className="font-medium">{attendee.user_name || 'Unknown User'}</p>
+                    <p className="text-sm text-muted-foreground">{attendee.user_email}</p>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminAuditLogPage } from '../AdminAuditLogPage';
+import * as AuthContext from '../../../context/AuthContext';
+import * as auditLogService from '../../../services/auditLogService';
+import type { AuditLogEntry } from '../../../../types/audit';
+import { AuditAction, AuditTargetType } from '../../../../types/audit';
+import { UserRole } from '../../../../types/role';
+
+vi.mock('../../../services/auditLogService', () => ({
+  getAuditLog: vi.fn(),
+}));
+
+vi.mock('../../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const mockEntry: AuditLogEntry = {
+  id: 'log-1',
+  actor_id: 'admin-2',
+  action: AuditAction.UserPointsUpdate,
+  target_type: AuditTargetType.User,
+  target_id: 'user-42',
+  before: { points: 120 },
+  after: { points: 500 },
+  created_at: 1700000000,
+  actor_name: 'Dana',
+};
+
+const renderPage = (path = '/admin/audit-log') =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/admin/audit-log" element={<AdminAuditLogPage />} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('AdminAuditLogPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(auditLogService.getAuditLog).mockResolvedValue({ entries: [mockEntry], total: 1 });
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Moderator);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+    expect(auditLogService.getAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('should list entries with their changes', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Dana')).toBeInTheDocument();
+    expect(auditLogService.getAuditLog).toHaveBeenCalledWith({
+      actor_id: undefined,
+      action: undefined,
+      target_type: undefined,
+      target_id: undefined,
+      from: undefined,
+      to: undefined,
+      limit: 50,
+    });
+    expect(screen.getByText('Points updated', { selector: 'div' })).toBeInTheDocument();
+    expect(screen.getByText('user-42')).toBeInTheDocument();
+    expect(screen.getByText('120')).toBeInTheDocument();
+    expect(screen.getByText('500')).toBeInTheDocument();
+  });
+
+  it('should read filters from the URL', async () => {
+    renderPage('/admin/audit-log?action=role.assign&target_id=user-42');
+
+    await screen.findByText('Dana');
+    expect(auditLogService.getAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'role.assign', target_id: 'user-42' })
+    );
+    expect(screen.getByLabelText('Target ID')).toHaveValue('user-42');
+  });
+
+  it('should filter by action and by clicking the actor', async () => {
+    const user = userEvent.setup();
+    renderPage();
+    await screen.findByText('Dana');
+
+    await user.selectOptions(screen.getByLabelText('Action'), 'feature.update');
+    await waitFor(() => {
+      expect(auditLogService.getAuditLog).toHaveBeenLastCalledWith(
+        expect.objectContaining({ action: 'feature.update' })
+      );
+    });
+
+    await user.click(await screen.findByRole('button', { name: 'Dana' }));
+    await waitFor(() => {
+      expect(auditLogService.getAuditLog).toHaveBeenLastCalledWith(
+        expect.objectContaining({ action: 'feature.update', actor_id: 'admin-2' })
+      );
+    });
+    expect(screen.getByText('Showing actions by Dana')).toBeInTheDocument();
+  });
+});
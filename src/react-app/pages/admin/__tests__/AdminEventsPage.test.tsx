@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminEventsPage } from '../AdminEventsPage';
+import * as AuthContext from '../../../context/AuthContext';
+import * as eventService from '../../../services/eventService';
+import type { Event } from '../../../../types/event';
+import { UserRole } from '../../../../types/role';
+
+vi.mock('../../../services/eventService', () => ({
+  getEvents: vi.fn(),
+  createEvent: vi.fn(),
+  updateEvent: vi.fn(),
+  deleteEvent: vi.fn(),
+}));
+
+vi.mock('../../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const buildEvent = (overrides: Partial<Event> = {}): Event => ({
+  id: 'evt-1',
+  name: 'Leadership Workshop',
+  description: 'Hands-on session',
+  start_at: '2099-03-01T18:00:00.000Z',
+  end_at: '2099-03-01T20:00:00.000Z',
+  timezone: 'America/Los_Angeles',
+  location: { location_type: 'offline', city: 'Seattle', region: 'Washington', country: 'United States' },
+  ticket_info: { is_free: true, spots_remaining: 2, is_sold_out: false },
+  hosts: [{ name: 'Grace' }],
+  guest_count: 8,
+  capacity: 10,
+  waitlist_count: 3,
+  my_rsvp: null,
+  ...overrides,
+});
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/admin/events']}>
+      <Routes>
+        <Route path="/admin/events" element={<AdminEventsPage />} />
+        <Route path="/admin/events/:id/attendees" element={<div>Attendees Page</div>} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('AdminEventsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(eventService.getEvents).mockResolvedValue([buildEvent()]);
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Moderator);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+    expect(eventService.getEvents).not.toHaveBeenCalled();
+  });
+
+  it('should list events with their RSVP counts', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Leadership Workshop')).toBeInTheDocument();
+    expect(screen.getByText('8 of 10 going')).toBeInTheDocument();
+    expect(screen.getByText('3 on the waitlist')).toBeInTheDocument();
+  });
+
+  it('should link each event to its attendee list', async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: /Attendees/ }));
+
+    expect(screen.getByText('Attendees Page')).toBeInTheDocument();
+  });
+
+  it('should create an event', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.createEvent).mockResolvedValue(buildEvent({ id: 'evt-2', name: 'Online Meetup' }));
+    renderPage();
+    await screen.findByText('Leadership Workshop');
+
+    await user.click(screen.getByRole('button', { name: /Add Event/ }));
+    const dialog = screen.getByRole('dialog');
+    await user.type(within(dialog).getByLabelText(/Name/), 'Online Meetup');
+    await user.type(within(dialog).getByLabelText(/Starts/), '2099-04-01T18:00');
+    await user.type(within(dialog).getByLabelText(/Ends/), '2099-04-01T19:00');
+    await user.selectOptions(within(dialog).getByLabelText('Location'), 'online');
+    await user.type(within(dialog).getByLabelText('Capacity'), '25');
+    await user.type(within(dialog).getByLabelText('Hosts'), 'Grace, Ada');
+    await user.click(within(dialog).getByRole('button', { name: 'Save' }));
+
+    expect(eventService.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Online Meetup',
+        location: { location_type: 'online' },
+        ticket_info: { is_free: true },
+        capacity: 25,
+        hosts: [{ name: 'Grace' }, { name: 'Ada' }],
+      })
+    );
+    expect(await screen.findByText('Online Meetup')).toBeInTheDocument();
+  });
+
+  it('should delete an event after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.deleteEvent).mockResolvedValue();
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Delete event' }));
+    await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Delete' }));
+
+    expect(eventService.deleteEvent).toHaveBeenCalledWith('evt-1');
+    expect(await screen.findByText('No events yet')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminJobsPage } from '../AdminJobsPage';
+import * as AuthContext from '../../../context/AuthContext';
+import * as jobService from '../../../services/jobService';
+import { ApiError } from '../../../services/apiClient';
+import type { JobRun, ScheduledJobInfo } from '../../../../types/job';
+import { JobRunStatus, JobTrigger, ScheduledJobName } from '../../../../types/job';
+import { UserRole } from '../../../../types/role';
+
+vi.mock('../../../services/jobService', () => ({
+  getScheduledJobs: vi.fn(),
+  getJobRuns: vi.fn(),
+  runScheduledJob: vi.fn(),
+}));
+
+vi.mock('../../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const jobRun = (overrides: Partial<JobRun> = {}): JobRun => ({
+  id: 'run-1',
+  job_name: ScheduledJobName.HotScores,
+  trigger: JobTrigger.Cron,
+  triggered_by: null,
+  status: JobRunStatus.Succeeded,
+  processed_count: 12,
+  error: null,
+  started_at: 1700000000,
+  finished_at: 1700000005,
+  ...overrides,
+});
+
+const jobs: ScheduledJobInfo[] = [
+  { name: ScheduledJobName.HotScores, schedule: '0 * * * *', locked_until: null, last_run: jobRun() },
+  { name: ScheduledJobName.ExpiredChallenges, schedule: '0 * * * *', locked_until: null, last_run: null },
+];
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/admin/jobs']}>
+      <Routes>
+        <Route path="/admin/jobs" element={<AdminJobsPage />} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('AdminJobsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(jobService.getScheduledJobs).mockResolvedValue(jobs);
+    vi.mocked(jobService.getJobRuns).mockResolvedValue({
+      runs: [jobRun({ id: 'run-2', status: JobRunStatus.Failed, error: 'D1 batch failed' }), jobRun()],
+      total: 2,
+    });
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Moderator);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+    expect(jobService.getScheduledJobs).not.toHaveBeenCalled();
+  });
+
+  it('should list jobs and the run history', async () => {
+    renderPage();
+
+    const hotScores = (await screen.findByText("Recomputes every thread's hot score as it decays with age")).closest('li') as HTMLElement;
+    expect(within(hotScores).getByText(/12 rows/)).toBeInTheDocument();
+    const challenges = screen.getByText('Completes active challenges whose deadline has passed').closest('li') as HTMLElement;
+    expect(within(challenges).getByText('Not run yet')).toBeInTheDocument();
+
+    expect(await screen.findByText('D1 batch failed')).toBeInTheDocument();
+  });
+
+  it('should filter the run history by job', async () => {
+    const user = userEvent.setup();
+    renderPage();
+    await screen.findByText('D1 batch failed');
+
+    await user.selectOptions(screen.getByLabelText('Job'), ScheduledJobName.ExpiredChallenges);
+
+    expect(jobService.getJobRuns).toHaveBeenLastCalledWith({ job: ScheduledJobName.ExpiredChallenges, limit: 50 });
+  });
+
+  it('should run a job on demand', async () => {
+    const user = userEvent.setup();
+    vi.mocked(jobService.runScheduledJob).mockResolvedValue(
+      jobRun({ id: 'run-3', job_name: ScheduledJobName.ExpiredChallenges, trigger: JobTrigger.Manual, triggered_by: 'admin-1', triggered_by_name: 'Admin', processed_count: 1 })
+    );
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Run Expired challenges now' }));
+
+    expect(jobService.runScheduledJob).toHaveBeenCalledWith(ScheduledJobName.ExpiredChallenges);
+    expect(screen.getByText('Manual (Admin)')).toBeInTheDocument();
+    const challenges = screen.getByText('Completes active challenges whose deadline has passed').closest('li') as HTMLElement;
+    expect(within(challenges).getByText(/1 row$/)).toBeInTheDocument();
+  });
+
+  it('should explain when the job is already running', async () => {
+    const user = userEvent.setup();
+    vi.mocked(jobService.runScheduledJob).mockRejectedValue(new ApiError('This job is already running', 409));
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Run Forum hot scores now' }));
+
+    expect(await screen.findByText('This job is already running')).toBeInTheDocument();
+  });
+});
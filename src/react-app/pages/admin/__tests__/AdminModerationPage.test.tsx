@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminModerationPage } from '../AdminModerationPage';
+import * as AuthContext from '../../../context/AuthContext';
+import * as reportService from '../../../services/reportService';
+import type { ModerationAction, ReportGroup } from '../../../../types/report';
+import { ReportReason, ReportStatus, ReportTargetType } from '../../../../types/report';
+import { UserRole } from '../../../../types/role';
+
+vi.mock('../../../services/reportService', () => ({
+  getReportGroups: vi.fn(),
+  takeModerationAction: vi.fn(),
+}));
+
+vi.mock('../../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const mockGroup: ReportGroup = {
+  target_type: ReportTargetType.Reply,
+  target_id: 'reply-1',
+  report_count: 2,
+  first_reported_at: 1700000000,
+  last_reported_at: 1700000100,
+  content: {
+    title: 'Career advice',
+    excerpt: 'Buy cheap followers now',
+    author_id: 'user-2',
+    author_name: 'Spammer',
+    link: '/forums/threads/thread-1',
+    hidden: false,
+  },
+  reports: [
+    {
+      id: 'report-1',
+      target_type: ReportTargetType.Reply,
+      target_id: 'reply-1',
+      reporter_id: 'user-3',
+      reason: ReportReason.Spam,
+      details: 'Advertising',
+      status: ReportStatus.Open,
+      resolved_by: null,
+      resolved_at: null,
+      created_at: 1700000100,
+      reporter_name: 'Alice',
+    },
+  ],
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/admin/moderation']}>
+      <Routes>
+        <Route path="/admin/moderation" element={<AdminModerationPage />} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('AdminModerationPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(reportService.getReportGroups).mockResolvedValue({ groups: [mockGroup], total: 1 });
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Member);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+    expect(reportService.getReportGroups).not.toHaveBeenCalled();
+  });
+
+  it('should list open reports grouped by content', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Career advice')).toBeInTheDocument();
+    expect(reportService.getReportGroups).toHaveBeenCalledWith({ status: 'open', type: undefined, limit: 20 });
+    expect(screen.getByText('2 reports')).toBeInTheDocument();
+    expect(screen.getByText('by Spammer')).toBeInTheDocument();
+    expect(screen.getByText('Buy cheap followers now')).toBeInTheDocument();
+    expect(screen.getByText('Alice')).toBeInTheDocument();
+    expect(screen.getByText('Advertising')).toBeInTheDocument();
+  });
+
+  it('should reload when filtering by content type', async () => {
+    const user = userEvent.setup();
+    renderPage();
+    await screen.findByText('Career advice');
+
+    await user.selectOptions(screen.getByLabelText('Content type'), 'blog_comment');
+
+    await waitFor(() => {
+      expect(reportService.getReportGroups).toHaveBeenLastCalledWith({ status: 'open', type: 'blog_comment', limit: 20 });
+    });
+  });
+
+  it('should require a note to warn the author and remove the group afterwards', async () => {
+    const user = userEvent.setup();
+    vi.mocked(reportService.takeModerationAction).mockResolvedValue({ id: 'modaction-1' } as ModerationAction);
+    renderPage();
+    await screen.findByText('Career advice');
+
+    await user.click(screen.getByRole('button', { name: 'Warn author' }));
+    const dialog = await screen.findByRole('dialog');
+    const confirm = within(dialog).getByRole('button', { name: 'Confirm' });
+    expect(confirm).toBeDisabled();
+
+    await user.type(within(dialog).getByLabelText('Note'), 'Please stop posting ads');
+    await user.click(confirm);
+
+    await waitFor(() => {
+      expect(reportService.takeModerationAction).toHaveBeenCalledWith('reply', 'reply-1', {
+        action: 'warn',
+        note: 'Please stop posting ads',
+      });
+    });
+    expect(await screen.findByText('No reports to review')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminRewardsPage } from '../AdminRewardsPage';
+import * as AuthContext from '../../../context/AuthContext';
+import * as rewardService from '../../../services/rewardService';
+import type { Reward, RewardRedemption } from '../../../../types/reward';
+import { RedemptionStatus } from '../../../../types/reward';
+import { UserRole } from '../../../../types/role';
+
+vi.mock('../../../services/rewardService', () => ({
+  getAllRewards: vi.fn(),
+  createReward: vi.fn(),
+  updateReward: vi.fn(),
+  getRedemptionQueue: vi.fn(),
+  updateRedemption: vi.fn(),
+}));
+
+vi.mock('../../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const mockReward: Reward = {
+  id: 'reward-1',
+  name: 'Event ticket',
+  description: 'Entry to the annual conference',
+  cost: 200,
+  stock: 3,
+  expires_at: null,
+  is_active: true,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+  updated_at: 1700000000,
+};
+
+const mockRedemption: RewardRedemption = {
+  id: 'redemption-1',
+  reward_id: 'reward-1',
+  user_id: 'user-2',
+  cost: 200,
+  status: RedemptionStatus.Pending,
+  note: 'Size M',
+  admin_note: null,
+  processed_by: null,
+  processed_at: null,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  reward_name: 'Event ticket',
+  user_name: 'Alice',
+  user_email: 'alice@example.com',
+};
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/admin/rewards']}>
+      <Routes>
+        <Route path="/admin/rewards" element={<AdminRewardsPage />} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('AdminRewardsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(rewardService.getAllRewards).mockResolvedValue([mockReward]);
+    vi.mocked(rewardService.getRedemptionQueue).mockResolvedValue({ redemptions: [mockRedemption], total: 1 });
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Member);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+    expect(rewardService.getAllRewards).not.toHaveBeenCalled();
+  });
+
+  it('should list the catalog and the pending redemptions', async () => {
+    renderPage();
+
+    expect(await screen.findByText('3 left')).toBeInTheDocument();
+    expect(await screen.findByText('Redeemed by Alice (alice@example.com)')).toBeInTheDocument();
+    expect(rewardService.getRedemptionQueue).toHaveBeenCalledWith({ status: 'pending', limit: 20 });
+    expect(screen.getByText('Size M')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Approve' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Refund' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Mark fulfilled' })).not.toBeInTheDocument();
+  });
+
+  it('should create a reward with unlimited stock when stock is left blank', async () => {
+    const user = userEvent.setup();
+    vi.mocked(rewardService.createReward).mockResolvedValue({
+      ...mockReward,
+      id: 'reward-2',
+      name: 'Mentor session',
+      cost: 500,
+      stock: null,
+    });
+    renderPage();
+    await screen.findByText('3 left');
+
+    await user.click(screen.getByRole('button', { name: 'Add Reward' }));
+    const dialog = await screen.findByRole('dialog');
+    await user.type(within(dialog).getByLabelText('Name *'), 'Mentor session');
+    await user.clear(within(dialog).getByLabelText('Cost (points) *'));
+    await user.type(within(dialog).getByLabelText('Cost (points) *'), '500');
+    await user.click(within(dialog).getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(rewardService.createReward).toHaveBeenCalledWith({
+        name: 'Mentor session',
+        description: '',
+        cost: 500,
+        stock: null,
+        expires_at: null,
+      });
+    });
+    expect(await screen.findByText('Mentor session')).toBeInTheDocument();
+  });
+
+  it('should hide a reward from members', async () => {
+    const user = userEvent.setup();
+    vi.mocked(rewardService.updateReward).mockResolvedValue({ ...mockReward, is_active: false });
+    renderPage();
+    await screen.findByText('3 left');
+
+    await user.click(screen.getByRole('button', { name: 'Hide from members' }));
+
+    await waitFor(() => {
+      expect(rewardService.updateReward).toHaveBeenCalledWith('reward-1', { is_active: false });
+    });
+    expect(await screen.findByText('Hidden')).toBeInTheDocument();
+  });
+
+  it('should refund a redemption, restock the reward and remove it from the queue', async () => {
+    const user = userEvent.setup();
+    vi.mocked(rewardService.updateRedemption).mockResolvedValue({
+      ...mockRedemption,
+      status: RedemptionStatus.Refunded,
+    });
+    renderPage();
+    await screen.findByText('Redeemed by Alice (alice@example.com)');
+
+    await user.click(screen.getByRole('button', { name: 'Refund' }));
+    const dialog = await screen.findByRole('dialog');
+    expect(within(dialog).getByText('Return 200 points to Alice and put Event ticket back in stock.')).toBeInTheDocument();
+    await user.type(within(dialog).getByLabelText('Note'), 'Event cancelled');
+    await user.click(within(dialog).getByRole('button', { name: 'Confirm' }));
+
+    await waitFor(() => {
+      expect(rewardService.updateRedemption).toHaveBeenCalledWith('redemption-1', {
+        status: 'refunded',
+        admin_note: 'Event cancelled',
+      });
+    });
+    expect(await screen.findByText('No redemptions with this status')).toBeInTheDocument();
+    expect(screen.getByText('4 left')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { EventAttendeesPage } from '../EventAttendeesPage';
+import * as AuthContext from '../../../context/AuthContext';
+import * as eventService from '../../../services/eventService';
+import type { Event, EventRsvp } from '../../../../types/event';
+import { EventRsvpStatus } from '../../../../types/event';
+import { UserRole } from '../../../../types/role';
+
+vi.mock('../../../services/eventService', () => ({
+  getEvent: vi.fn(),
+  getEventAttendees: vi.fn(),
+  checkInAttendee: vi.fn(),
+  undoCheckIn: vi.fn(),
+}));
+
+vi.mock('../../../context/AuthContext', async () => {
+  const actual = await vi.importActual('../../../context/AuthContext');
+  return {
+    ...actual,
+    useAuth: vi.fn(),
+  };
+});
+
+const mockAuth = (role: UserRole) => {
+  vi.mocked(AuthContext.useAuth).mockReturnValue({
+    user: { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role, created_at: 0, updated_at: 0 },
+    isAuthenticated: true,
+    isLoading: false,
+    role: undefined,
+    login: vi.fn(),
+    logout: vi.fn(),
+    getUser: vi.fn(),
+  });
+};
+
+const event: Event = {
+  id: 'evt-1',
+  name: 'Leadership Workshop',
+  start_at: '2099-03-01T18:00:00.000Z',
+  end_at: '2099-03-01T20:00:00.000Z',
+  location: { location_type: 'online' },
+  ticket_info: { is_free: true, spots_remaining: 0, is_sold_out: true },
+  hosts: [],
+  guest_count: 2,
+  capacity: 2,
+  waitlist_count: 1,
+  my_rsvp: null,
+};
+
+const rsvp = (overrides: Partial<EventRsvp> = {}): EventRsvp => ({
+  id: 'rsvp-1',
+  event_id: 'evt-1',
+  user_id: 'user-1',
+  status: EventRsvpStatus.Going,
+  checked_in_at: null,
+  checked_in_by: null,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  user_name: 'Ada Lovelace',
+  user_email: 'ada@example.com',
+  ...overrides,
+});
+
+const attendees: EventRsvp[] = [
+  rsvp(),
+  rsvp({ id: 'rsvp-2', user_id: 'user-2', user_name: 'Grace Hopper', user_email: 'grace@example.com', checked_in_at: 1700000100, checked_in_by: 'admin-1' }),
+  rsvp({ id: 'rsvp-3', user_id: 'user-3', user_name: 'Alan Turing', user_email: 'alan@example.com', status: EventRsvpStatus.Waitlisted }),
+];
+
+const renderPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/admin/events/evt-1/attendees']}>
+      <Routes>
+        <Route path="/admin/events/:id/attendees" element={<EventAttendeesPage />} />
+        <Route path="/" element={<div>Home Page</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('EventAttendeesPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth(UserRole.Admin);
+    vi.mocked(eventService.getEvent).mockResolvedValue(event);
+    vi.mocked(eventService.getEventAttendees).mockResolvedValue(attendees);
+  });
+
+  it('should redirect non-admin users', () => {
+    mockAuth(UserRole.Member);
+    renderPage();
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+    expect(eventService.getEventAttendees).not.toHaveBeenCalled();
+  });
+
+  it('should list members going and the waitlist', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Ada Lovelace')).toBeInTheDocument();
+    expect(screen.getByText('Leadership Workshop')).toBeInTheDocument();
+    expect(screen.getByText('1 of 2 checked in')).toBeInTheDocument();
+    expect(screen.getByText('Waitlist')).toBeInTheDocument();
+    expect(screen.getByText('Alan Turing')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Check in Alan Turing' })).not.toBeInTheDocument();
+  });
+
+  it('should check a member in', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.checkInAttendee).mockResolvedValue(rsvp({ checked_in_at: 1700000200, checked_in_by: 'admin-1' }));
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Check in Ada Lovelace' }));
+
+    expect(eventService.checkInAttendee).toHaveBeenCalledWith('evt-1', 'user-1');
+    expect(screen.getByText('2 of 2 checked in')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Undo check-in for Ada Lovelace' })).toBeInTheDocument();
+  });
+
+  it('should undo a check-in', async () => {
+    const user = userEvent.setup();
+    vi.mocked(eventService.undoCheckIn).mockResolvedValue({ ...attendees[1], checked_in_at: null, checked_in_by: null });
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Undo check-in for Grace Hopper' }));
+
+    expect(eventService.undoCheckIn).toHaveBeenCalledWith('evt-1', 'user-2');
+    expect(screen.getByText('0 of 2 checked in')).toBeInTheDocument();
+  });
+
+  it('should filter attendees by name or email', async () => {
+    const user = userEvent.setup();
+    renderPage();
+    await screen.findByText('Ada Lovelace');
+
+    await user.type(screen.getByLabelText('Search by name or email'), 'grace@');
+
+    expect(screen.queryByText('Ada Lovelace')).not.toBeInTheDocument();
+    expect(screen.getByText('Grace Hopper')).toBeInTheDocument();
+  });
+});
@@ -8,6 +8,7 @@ import {
   apiPatch,
   apiDelete,
   apiUpload,
+  refreshSession,
   ApiError,
   handleApiError,
   showSuccessToast,
@@ -145,11 +146,13 @@ describe('apiFetch', () => {
   });
 
   it('should throw ApiError on HTTP 401 error', async () => {
-    mockFetch.mockResolvedValueOnce({
-      ok: false,
-      status: 401,
-      json: async () => ({ error: 'Unauthorized' }),
-    });
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: 'Unauthorized' }),
+      })
+      .mockResolvedValueOnce({ ok: false, status: 401 });
 
     await expect(apiFetch('/api/v1/test')).rejects.toMatchObject({
       name: 'ApiError',
@@ -158,6 +161,39 @@ describe('apiFetch', () => {
     });
   });
 
+  it('should refresh the session and retry once on HTTP 401', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({ error: 'Unauthorized' }) })
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: 'fresh' }) });
+
+    const result = await apiFetch('/api/v1/test');
+
+    expect(result).toEqual({ data: 'fresh' });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[1][0]).toBe('/api/v1/auth/refresh');
+    expect(mockFetch.mock.calls[1][1]).toMatchObject({ method: 'POST', credentials: 'include' });
+  });
+
+  it('should not refresh again when the retried request is still unauthorized', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({ error: 'Unauthorized' }) })
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({ error: 'Unauthorized' }) });
+
+    await expect(apiFetch('/api/v1/test')).rejects.toMatchObject({ status: 401 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not refresh when refreshOnUnauthorized is false', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({ error: 'Unauthorized' }) });
+
+    await expect(apiFetch('/api/v1/test', { refreshOnUnauthorized: false })).rejects.toMatchObject({ status: 401 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
   it('should throw ApiError on HTTP 404 error', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: false,
@@ -788,3 +824,24 @@ describe('Error Handling Helpers', () => {
     });
   });
 });
+
+describe('refreshSession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should share one refresh request between concurrent callers', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const results = await Promise.all([refreshSession(), refreshSession()]);
+
+    expect(results).toEqual([true, true]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a failed refresh', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    expect(await refreshSession()).toBe(false);
+  });
+});
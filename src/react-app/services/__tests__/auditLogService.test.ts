@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as apiClientModule from '../apiClient';
+import { getAuditLog } from '../auditLogService';
+import { AuditAction, AuditTargetType } from '../../../types/audit';
+
+vi.mock('../apiClient', () => ({
+  apiGet: vi.fn(),
+}));
+
+describe('auditLogService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getAuditLog', () => {
+    it('should request the first page by default', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ entries: [], total: 0 });
+
+      await getAuditLog();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/admin/audit-log?limit=50&offset=0');
+    });
+
+    it('should pass all filters', async () => {
+      const response = { entries: [{ id: 'log-1' }], total: 1 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(response);
+
+      const result = await getAuditLog({
+        actor_id: 'admin-1',
+        action: AuditAction.RoleAssign,
+        target_type: AuditTargetType.User,
+        target_id: 'user-1',
+        from: 0,
+        to: 1700000000,
+        limit: 20,
+        offset: 40,
+      });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith(
+        '/api/v1/admin/audit-log?actor_id=admin-1&action=role.assign&target_type=user&target_id=user-1&from=0&to=1700000000&limit=20&offset=40'
+      );
+      expect(result).toEqual(response);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as apiClientModule from '../apiClient';
+import { getUserBadges, awardBadge, revokeBadge } from '../badgeService';
+import { BadgeId } from '../../../types/badge';
+
+vi.mock('../apiClient', () => ({
+  apiGet: vi.fn(),
+  apiPost: vi.fn(),
+  apiDelete: vi.fn(),
+}));
+
+describe('badgeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getUserBadges', () => {
+    it('should fetch a user\'s badges', async () => {
+      const badges = [
+        { user_id: 'user_1', badge_id: BadgeId.FirstSolution, granted_at: 1700000000, granted_by: null },
+      ];
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ badges });
+
+      const result = await getUserBadges('user_1');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/users/user_1/badges');
+      expect(result).toEqual(badges);
+    });
+  });
+
+  describe('awardBadge', () => {
+    it('should award a badge', async () => {
+      const badge = { user_id: 'user_1', badge_id: BadgeId.FeaturedBlog, granted_at: 1700000000, granted_by: 'admin_1' };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue(badge);
+
+      const result = await awardBadge('user_1', BadgeId.FeaturedBlog);
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/users/user_1/badges', {
+        badge_id: 'featured_blog',
+      });
+      expect(result).toEqual(badge);
+    });
+  });
+
+  describe('revokeBadge', () => {
+    it('should revoke a badge', async () => {
+      vi.mocked(apiClientModule.apiDelete).mockResolvedValue({ success: true });
+
+      await revokeBadge('user_1', BadgeId.ActivityStreak30);
+
+      expect(apiClientModule.apiDelete).toHaveBeenCalledWith('/api/v1/users/user_1/badges/activity_streak_30');
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import * as apiClientModule from '../apiClient';
+import { FeatureAudience } from '../../../types/features';
 import {
   listAllFeatures,
   createFeature,
   toggleFeature,
+  updateFeatureTargeting,
   deleteFeature,
   getEnabledFeatures,
 } from '../featureService';
@@ -118,6 +120,22 @@ describe('featureService', () => {
     });
   });
 
+  describe('updateFeatureTargeting', () => {
+    it('should send the targeting rules', async () => {
+      const targeting = {
+        audience: FeatureAudience.Percentage,
+        target_user_ids: [],
+        rollout_percentage: 25,
+      };
+      vi.mocked(apiClientModule.apiPatch).mockResolvedValue({ ...mockFeature, ...targeting });
+
+      const result = await updateFeatureTargeting('feature_123', targeting);
+
+      expect(apiClientModule.apiPatch).toHaveBeenCalledWith('/api/v1/admin/features/feature_123', targeting);
+      expect(result.rollout_percentage).toBe(25);
+    });
+  });
+
   describe('deleteFeature', () => {
     it('should delete a feature flag', async () => {
       vi.mocked(apiClientModule.apiDelete).mockResolvedValue(undefined);
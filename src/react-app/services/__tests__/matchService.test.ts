@@ -10,8 +10,20 @@ import {
   acceptMatch,
   rejectMatch,
   checkExistingMatch,
+  getMatchSessions,
+  proposeSession,
+  confirmSession,
+  rescheduleSession,
+  cancelSession,
+  getSessionIcsUrl,
+  submitReview,
+  getMatchMessages,
+  sendMatchMessage,
+  markMatchMessagesRead,
 } from '../matchService';
 import type { Match } from '../../../types/match';
+import { SessionStatus } from '../../../types/session';
+import type { MatchSession } from '../../../types/session';
 
 vi.mock('../apiClient', () => ({
   apiGet: vi.fn(),
@@ -257,4 +269,146 @@ describe('matchService', () => {
       await expect(checkExistingMatch('user_456')).rejects.toThrow('Server error');
     });
   });
+
+  describe('sessions', () => {
+    const mockSession: MatchSession = {
+      id: 'session_1',
+      match_id: 'match_123',
+      proposed_by_user_id: 'user_123',
+      start_time: 1800000000,
+      duration_minutes: 60,
+      meeting_link: null,
+      status: SessionStatus.Proposed,
+      created_at: 1700000000,
+      updated_at: 1700000000,
+    };
+
+    it('should list sessions for a match', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ sessions: [mockSession] });
+
+      const result = await getMatchSessions('match_123');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/matches/match_123/sessions');
+      expect(result).toEqual([mockSession]);
+    });
+
+    it('should propose a session', async () => {
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ session: mockSession });
+
+      const result = await proposeSession('match_123', { start_time: 1800000000 });
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/matches/match_123/sessions', {
+        start_time: 1800000000,
+      });
+      expect(result).toEqual(mockSession);
+    });
+
+    it('should confirm a session with an optional meeting link', async () => {
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ session: mockSession });
+
+      await confirmSession('match_123', 'session_1', 'https://meet.example.com/abc');
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith(
+        '/api/v1/matches/match_123/sessions/session_1/confirm',
+        { meeting_link: 'https://meet.example.com/abc' }
+      );
+    });
+
+    it('should reschedule a session', async () => {
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ session: mockSession });
+
+      await rescheduleSession('match_123', 'session_1', { start_time: 1800003600 });
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith(
+        '/api/v1/matches/match_123/sessions/session_1/reschedule',
+        { start_time: 1800003600 }
+      );
+    });
+
+    it('should cancel a session', async () => {
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ session: mockSession });
+
+      await cancelSession('match_123', 'session_1');
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith(
+        '/api/v1/matches/match_123/sessions/session_1/cancel',
+        {}
+      );
+    });
+
+    it('should build the .ics download URL', () => {
+      expect(getSessionIcsUrl('match_123', 'session_1')).toBe('/api/v1/matches/match_123/sessions/session_1/ics');
+    });
+  });
+
+  describe('submitReview', () => {
+    it('should review the mentor of a completed match', async () => {
+      const review = {
+        id: 'review_1',
+        match_id: 'match_123',
+        mentor_id: 'mentor_123',
+        mentee_id: 'user_123',
+        rating: 5,
+        comment: 'Great mentor',
+        created_at: 1700000000,
+        updated_at: 1700000000,
+      };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ review });
+
+      const result = await submitReview('match_123', { rating: 5, comment: 'Great mentor' });
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/matches/match_123/review', {
+        rating: 5,
+        comment: 'Great mentor',
+      });
+      expect(result).toEqual(review);
+    });
+  });
+
+  describe('match messages', () => {
+    const message = {
+      id: 'message_1',
+      match_id: 'match_123',
+      sender_id: 'user_123',
+      recipient_id: 'user_456',
+      content: '<p>Hello</p>',
+      read_at: null,
+      created_at: 1700000000,
+    };
+
+    it('should fetch the latest page of messages', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ messages: [message], total: 1, unread_count: 0 });
+
+      const result = await getMatchMessages('match_123');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/matches/match_123/messages');
+      expect(result.messages).toEqual([message]);
+    });
+
+    it('should pass pagination parameters', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ messages: [], total: 40, unread_count: 0 });
+
+      await getMatchMessages('match_123', { limit: 30, offset: 30 });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/matches/match_123/messages?limit=30&offset=30');
+    });
+
+    it('should send a message', async () => {
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ message });
+
+      const result = await sendMatchMessage('match_123', 'Hello');
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/matches/match_123/messages', { content: 'Hello' });
+      expect(result).toEqual(message);
+    });
+
+    it('should mark received messages as read', async () => {
+      vi.mocked(apiClientModule.apiPatch).mockResolvedValue({ success: true, updated: 2 });
+
+      const result = await markMatchMessagesRead('match_123');
+
+      expect(apiClientModule.apiPatch).toHaveBeenCalledWith('/api/v1/matches/match_123/messages/read', {});
+      expect(result).toBe(2);
+    });
+  });
 });
@@ -8,6 +8,9 @@ import {
   deleteMentorProfile,
   searchMentors,
   searchMentorsByPage,
+  getAvailabilitySlots,
+  updateAvailabilitySlots,
+  getMentorReviews,
 } from '../mentorService';
 import type { MentorProfile } from '../../../types/mentor';
 
@@ -203,6 +206,53 @@ describe('mentorService', () => {
       );
     });
 
+    it('should search mentors by availability window', async () => {
+      const mockResponse = { mentors: [mockMentorProfile], total: 1, limit: 20, offset: 0 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(mockResponse);
+
+      await searchMentors({
+        available_day: 2,
+        available_start: '18:00',
+        available_end: '20:00',
+        timezone: 'Asia/Shanghai',
+      });
+
+      const url = vi.mocked(apiClientModule.apiGet).mock.calls[0][0] as string;
+      expect(url).toContain('available_day=2');
+      expect(url).toContain('available_start=18%3A00');
+      expect(url).toContain('available_end=20%3A00');
+      expect(url).toContain('timezone=Asia%2FShanghai');
+    });
+
+    it('should ignore an incomplete availability window', async () => {
+      const mockResponse = { mentors: [], total: 0, limit: 20, offset: 0 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(mockResponse);
+
+      await searchMentors({ available_day: 2, timezone: 'UTC' });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/mentors/search?limit=20&offset=0');
+    });
+
+    it('should search mentors by minimum rating sorted by rating', async () => {
+      const mockResponse = { mentors: [mockMentorProfile], total: 1, limit: 20, offset: 0 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(mockResponse);
+
+      await searchMentors({ min_rating: 4, sort: 'rating' });
+
+      const url = vi.mocked(apiClientModule.apiGet).mock.calls[0][0] as string;
+      expect(url).toContain('min_rating=4');
+      expect(url).toContain('sort=rating');
+    });
+
+    it('should omit the default sort', async () => {
+      const mockResponse = { mentors: [], total: 0, limit: 20, offset: 0 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(mockResponse);
+
+      await searchMentors({ sort: 'newest' });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/mentors/search?limit=20&offset=0');
+    });
+
     it('should handle empty search results', async () => {
       const mockResponse = { mentors: [], total: 0, limit: 20, offset: 0 };
       vi.mocked(apiClientModule.apiGet).mockResolvedValue(mockResponse);
@@ -247,4 +297,44 @@ describe('mentorService', () => {
       );
     });
   });
+
+  describe('getAvailabilitySlots', () => {
+    it('should fetch availability slots for a profile', async () => {
+      const slots = [{ day_of_week: 1, start_minute: 540, end_minute: 720, timezone: 'America/New_York' }];
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ slots });
+
+      const result = await getAvailabilitySlots('profile-1');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/mentors/profiles/profile-1/availability');
+      expect(result).toEqual(slots);
+    });
+  });
+
+  describe('updateAvailabilitySlots', () => {
+    it('should replace availability slots for a profile', async () => {
+      const data = {
+        timezone: 'America/New_York',
+        slots: [{ day_of_week: 1, start_minute: 540, end_minute: 720 }],
+      };
+      const saved = [{ ...data.slots[0], timezone: data.timezone }];
+      vi.mocked(apiClientModule.apiPut).mockResolvedValue({ slots: saved });
+
+      const result = await updateAvailabilitySlots('profile-1', data);
+
+      expect(apiClientModule.apiPut).toHaveBeenCalledWith('/api/v1/mentors/profiles/profile-1/availability', data);
+      expect(result).toEqual(saved);
+    });
+  });
+
+  describe('getMentorReviews', () => {
+    it('should fetch reviews and aggregates for a profile', async () => {
+      const response = { reviews: [], average_rating: 4.5, review_count: 2 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(response);
+
+      const result = await getMentorReviews('profile-1');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/mentors/profiles/profile-1/reviews');
+      expect(result).toEqual(response);
+    });
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as apiClientModule from '../apiClient';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../notificationService';
+import { NotificationType, EmailFrequency, DEFAULT_EMAIL_FREQUENCIES } from '../../../types/notification';
+import type { Notification } from '../../../types/notification';
+
+vi.mock('../apiClient', () => ({
+  apiGet: vi.fn(),
+  apiPatch: vi.fn(),
+  apiPut: vi.fn(),
+}));
+
+describe('notificationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const mockNotification: Notification = {
+    id: 'notif_1',
+    user_id: 'user_1',
+    type: NotificationType.ForumReply,
+    actor_id: 'user_2',
+    data: { actor_name: 'Jane', title: 'Hello' },
+    link: '/forums/threads/thread_1',
+    read_at: null,
+    created_at: 1700000000,
+  };
+
+  describe('getNotifications', () => {
+    it('should request the first page by default', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ notifications: [], unread_count: 0, total: 0 });
+
+      await getNotifications();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/notifications?limit=20&offset=0');
+    });
+
+    it('should pass the unread-only filter and pagination', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ notifications: [mockNotification], unread_count: 1, total: 1 });
+
+      const result = await getNotifications({ unreadOnly: true, limit: 10, offset: 10 });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/notifications?unread_only=true&limit=10&offset=10');
+      expect(result.notifications).toEqual([mockNotification]);
+    });
+  });
+
+  describe('getUnreadNotificationCount', () => {
+    it('should return the unread count', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ unread_count: 3 });
+
+      const result = await getUnreadNotificationCount();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/notifications/unread-count');
+      expect(result).toBe(3);
+    });
+  });
+
+  describe('markNotificationRead', () => {
+    it('should mark a notification as read', async () => {
+      const read = { ...mockNotification, read_at: 1700000100 };
+      vi.mocked(apiClientModule.apiPatch).mockResolvedValue({ notification: read });
+
+      const result = await markNotificationRead('notif_1');
+
+      expect(apiClientModule.apiPatch).toHaveBeenCalledWith('/api/v1/notifications/notif_1/read', {});
+      expect(result).toEqual(read);
+    });
+  });
+
+  describe('markAllNotificationsRead', () => {
+    it('should return the number of updated notifications', async () => {
+      vi.mocked(apiClientModule.apiPatch).mockResolvedValue({ success: true, updated: 4 });
+
+      const result = await markAllNotificationsRead();
+
+      expect(apiClientModule.apiPatch).toHaveBeenCalledWith('/api/v1/notifications/read-all', {});
+      expect(result).toBe(4);
+    });
+  });
+
+  describe('notification preferences', () => {
+    const preferences = { locale: 'en' as const, email: { ...DEFAULT_EMAIL_FREQUENCIES } };
+
+    it('should fetch preferences', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(preferences);
+
+      const result = await getNotificationPreferences();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/notifications/preferences');
+      expect(result).toEqual(preferences);
+    });
+
+    it('should update preferences', async () => {
+      const data = { email: { [NotificationType.ForumReply]: EmailFrequency.Off } };
+      vi.mocked(apiClientModule.apiPut).mockResolvedValue(preferences);
+
+      await updateNotificationPreferences(data);
+
+      expect(apiClientModule.apiPut).toHaveBeenCalledWith('/api/v1/notifications/preferences', data);
+    });
+  });
+});
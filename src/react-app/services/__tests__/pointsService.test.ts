@@ -6,7 +6,10 @@ import {
   addPointsToUser,
   awardPointsForAction,
   getLeaderboard,
+  getLeaderboardWinners,
+  getPointsHistory,
 } from '../pointsService';
+import { PointsActionType, LeaderboardPeriod, LeaderboardSource } from '../../../types/points';
 
 vi.mock('../apiClient', () => ({
   apiGet: vi.fn(),
@@ -123,6 +126,32 @@ describe('pointsService', () => {
     });
   });
 
+  describe('getPointsHistory', () => {
+    it('should request the first page by default', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ transactions: [], total: 0 });
+
+      await getPointsHistory('user_123');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/users/user_123/points/history?limit=20&offset=0');
+    });
+
+    it('should pass action type filters', async () => {
+      const response = { transactions: [{ id: 'tx-1' }], total: 1 };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(response);
+
+      const result = await getPointsHistory('user_123', {
+        action_types: [PointsActionType.UpvoteReceived, PointsActionType.UpvoteReceivedReversed],
+        limit: 10,
+        offset: 30,
+      });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith(
+        '/api/v1/users/user_123/points/history?action_type=upvote_received%2Cupvote_received_reversed&limit=10&offset=30'
+      );
+      expect(result).toEqual(response);
+    });
+  });
+
   describe('getLeaderboard', () => {
     it('should fetch leaderboard with default pagination', async () => {
       const mockResponse = {
@@ -164,5 +193,40 @@ describe('pointsService', () => {
 
       expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/leaderboard?limit=50');
     });
+
+    it('should pass the period, source and range', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ users: [], total: 0, limit: 50, offset: 0 });
+
+      await getLeaderboard(50, 0, {
+        period: LeaderboardPeriod.Custom,
+        source: LeaderboardSource.Forum,
+        start: 1000,
+        end: 2000,
+      });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith(
+        '/api/v1/leaderboard?limit=50&period=custom&source=forum&start=1000&end=2000'
+      );
+    });
+
+    it('should leave out the default period and source', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ users: [], total: 0, limit: 50, offset: 0 });
+
+      await getLeaderboard(50, 0, { period: LeaderboardPeriod.AllTime, source: LeaderboardSource.All });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/leaderboard?limit=50');
+    });
+  });
+
+  describe('getLeaderboardWinners', () => {
+    it('should fetch past winners for a period and source', async () => {
+      const mockResponse = { period: 'month', source: 'blogs', periods: [] };
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue(mockResponse);
+
+      const result = await getLeaderboardWinners(LeaderboardPeriod.Month, LeaderboardSource.Blogs);
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/leaderboard/winners?period=month&source=blogs');
+      expect(result).toEqual(mockResponse);
+    });
   });
 });
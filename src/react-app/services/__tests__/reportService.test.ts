@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as apiClientModule from '../apiClient';
+import { createReport, getReportGroups, takeModerationAction } from '../reportService';
+import { ModerationActionType, ReportReason, ReportStatus, ReportTargetType } from '../../../types/report';
+
+vi.mock('../apiClient', () => ({
+  apiGet: vi.fn(),
+  apiPost: vi.fn(),
+}));
+
+describe('reportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createReport', () => {
+    it('should post the report and return it', async () => {
+      const report = { id: 'report_1', target_type: 'reply', target_id: 'reply_1', reason: 'spam' };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ report });
+
+      const data = { target_type: ReportTargetType.Reply, target_id: 'reply_1', reason: ReportReason.Spam };
+      const result = await createReport(data);
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/reports', data);
+      expect(result).toEqual(report);
+    });
+  });
+
+  describe('getReportGroups', () => {
+    it('should request the first page of open reports by default', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ groups: [], total: 0 });
+
+      await getReportGroups();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/admin/reports?limit=20&offset=0');
+    });
+
+    it('should pass status, type and pagination filters', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ groups: [], total: 0 });
+
+      await getReportGroups({ status: ReportStatus.Resolved, type: ReportTargetType.BlogComment, limit: 10, offset: 10 });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith(
+        '/api/v1/admin/reports?status=resolved&type=blog_comment&limit=10&offset=10'
+      );
+    });
+  });
+
+  describe('takeModerationAction', () => {
+    it('should post the action for the target content', async () => {
+      const action = { id: 'modaction_1', action: 'warn', reports_closed: 2 };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ success: true, action });
+
+      const result = await takeModerationAction(ReportTargetType.Thread, 'thread_1', {
+        action: ModerationActionType.Warn,
+        note: 'Please keep it civil',
+      });
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/admin/reports/thread/thread_1/actions', {
+        action: 'warn',
+        note: 'Please keep it civil',
+      });
+      expect(result).toEqual(action);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as apiClientModule from '../apiClient';
+import {
+  getRewards,
+  redeemReward,
+  getMyRedemptions,
+  getAllRewards,
+  createReward,
+  updateReward,
+  getRedemptionQueue,
+  updateRedemption,
+} from '../rewardService';
+import { RedemptionStatus } from '../../../types/reward';
+
+vi.mock('../apiClient', () => ({
+  apiGet: vi.fn(),
+  apiPost: vi.fn(),
+  apiPatch: vi.fn(),
+}));
+
+describe('rewardService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getRewards', () => {
+    it('should fetch the redeemable rewards', async () => {
+      const rewards = [{ id: 'reward_1', name: 'Event ticket', cost: 100 }];
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ rewards });
+
+      const result = await getRewards();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/rewards');
+      expect(result).toEqual(rewards);
+    });
+  });
+
+  describe('redeemReward', () => {
+    it('should post the redemption with the note', async () => {
+      const response = { redemption: { id: 'redemption_1', status: 'pending' }, points: 50 };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue(response);
+
+      const result = await redeemReward('reward_1', 'Size M');
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/rewards/reward_1/redeem', { note: 'Size M' });
+      expect(result).toEqual(response);
+    });
+  });
+
+  describe('getMyRedemptions', () => {
+    it('should request the first page by default', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ redemptions: [], total: 0 });
+
+      await getMyRedemptions();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/rewards/redemptions?limit=20&offset=0');
+    });
+  });
+
+  describe('admin catalog', () => {
+    it('should list every reward', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ rewards: [] });
+
+      await getAllRewards();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/admin/rewards');
+    });
+
+    it('should create a reward', async () => {
+      const reward = { id: 'reward_1', name: 'Swag', cost: 50 };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ reward });
+
+      const result = await createReward({ name: 'Swag', cost: 50, stock: 20 });
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/admin/rewards', { name: 'Swag', cost: 50, stock: 20 });
+      expect(result).toEqual(reward);
+    });
+
+    it('should update a reward', async () => {
+      const reward = { id: 'reward_1', is_active: false };
+      vi.mocked(apiClientModule.apiPatch).mockResolvedValue({ reward });
+
+      const result = await updateReward('reward_1', { is_active: false });
+
+      expect(apiClientModule.apiPatch).toHaveBeenCalledWith('/api/v1/admin/rewards/reward_1', { is_active: false });
+      expect(result).toEqual(reward);
+    });
+  });
+
+  describe('fulfillment queue', () => {
+    it('should pass the status and pagination filters', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ redemptions: [], total: 0 });
+
+      await getRedemptionQueue({ status: RedemptionStatus.Approved, limit: 10, offset: 10 });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/admin/redemptions?status=approved&limit=10&offset=10');
+    });
+
+    it('should update a redemption', async () => {
+      const redemption = { id: 'redemption_1', status: 'refunded' };
+      vi.mocked(apiClientModule.apiPatch).mockResolvedValue({ redemption });
+
+      const result = await updateRedemption('redemption_1', {
+        status: RedemptionStatus.Refunded,
+        admin_note: 'Event cancelled',
+      });
+
+      expect(apiClientModule.apiPatch).toHaveBeenCalledWith('/api/v1/admin/redemptions/redemption_1', {
+        status: 'refunded',
+        admin_note: 'Event cancelled',
+      });
+      expect(result).toEqual(redemption);
+    });
+  });
+});
@@ -1,11 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import * as apiClientModule from '../apiClient';
-import { listUsers, getUserRole, assignRole } from '../roleService';
+import {
+  listUsers,
+  getUserRole,
+  assignRole,
+  listCategoryModerators,
+  assignCategoryModerator,
+  removeCategoryModerator,
+} from '../roleService';
 import { UserRole } from '../../../types/role';
 
 vi.mock('../apiClient', () => ({
   apiGet: vi.fn(),
   apiPost: vi.fn(),
+  apiDelete: vi.fn(),
 }));
 
 describe('roleService', () => {
@@ -109,6 +117,19 @@ describe('roleService', () => {
       await expect(assignRole('invalid_id', UserRole.Admin)).rejects.toThrow('User not found');
     });
 
+    it('should assign moderator role', async () => {
+      const mockResponse = { userId: 'user_123', role: 'moderator', message: 'Role assigned' };
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue(mockResponse);
+
+      const result = await assignRole('user_123', UserRole.Moderator);
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/roles', {
+        userId: 'user_123',
+        role: UserRole.Moderator,
+      });
+      expect(result.role).toBe('moderator');
+    });
+
     it('should throw error when unauthorized', async () => {
       const error = new Error('Unauthorized');
       vi.mocked(apiClientModule.apiPost).mockRejectedValue(error);
@@ -116,4 +137,51 @@ describe('roleService', () => {
       await expect(assignRole('user_123', UserRole.Admin)).rejects.toThrow('Unauthorized');
     });
   });
+
+  describe('category moderators', () => {
+    const assignment = {
+      category_id: 'cat_1',
+      user_id: 'user_123',
+      assigned_by: 'admin_1',
+      created_at: 1700000000,
+    };
+
+    it('should list all assignments', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ moderators: [assignment] });
+
+      const result = await listCategoryModerators();
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/admin/forums/moderators');
+      expect(result).toEqual([assignment]);
+    });
+
+    it('should list assignments of one user', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ moderators: [assignment] });
+
+      await listCategoryModerators('user_123');
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/admin/forums/moderators?user_id=user_123');
+    });
+
+    it('should assign a moderator to a category', async () => {
+      vi.mocked(apiClientModule.apiPost).mockResolvedValue({ moderator: assignment });
+
+      const result = await assignCategoryModerator('cat_1', 'user_123');
+
+      expect(apiClientModule.apiPost).toHaveBeenCalledWith('/api/v1/admin/forums/categories/cat_1/moderators', {
+        user_id: 'user_123',
+      });
+      expect(result).toEqual(assignment);
+    });
+
+    it('should remove a moderator from a category', async () => {
+      vi.mocked(apiClientModule.apiDelete).mockResolvedValue({ success: true });
+
+      await removeCategoryModerator('cat_1', 'user_123');
+
+      expect(apiClientModule.apiDelete).toHaveBeenCalledWith(
+        '/api/v1/admin/forums/categories/cat_1/moderators/user_123'
+      );
+    });
+  });
 });
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as apiClientModule from '../apiClient';
+import { search } from '../searchService';
+import { SearchContentType } from '../../../types/search';
+
+vi.mock('../apiClient', () => ({
+  apiGet: vi.fn(),
+}));
+
+describe('searchService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('search', () => {
+    it('should request the first page by default', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ query: 'mentor', results: [], total: 0, limit: 20, offset: 0 });
+
+      await search({ q: 'mentor' });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith('/api/v1/search?q=mentor&limit=20&offset=0');
+    });
+
+    it('should pass type, category, author and pagination filters', async () => {
+      vi.mocked(apiClientModule.apiGet).mockResolvedValue({ query: 'career tips', results: [], total: 0, limit: 10, offset: 10 });
+
+      await search({
+        q: 'career tips',
+        type: SearchContentType.Reply,
+        category_id: 'cat_1',
+        author_id: 'user_1',
+        limit: 10,
+        offset: 10,
+      });
+
+      expect(apiClientModule.apiGet).toHaveBeenCalledWith(
+        '/api/v1/search?q=career+tips&type=reply&category_id=cat_1&author_id=user_1&limit=10&offset=10'
+      );
+    });
+  });
+});
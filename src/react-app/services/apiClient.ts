@@ -4,6 +4,7 @@ import { toast } from 'sonner';
  * API Client Configuration
  * Handles all HTTP requests with:
  * - HTTP-only cookie authentication
+ * - Silent session refresh when the access token has expired
  * - Retry logic with exponential backoff
  * - Error handling and logging
  */
@@ -12,8 +13,41 @@ import { toast } from 'sonner';
 const MAX_RETRIES = 3;
 const INITIAL_DELAY_MS = 1000;
 
+const REFRESH_URL = '/api/v1/auth/refresh';
+
 interface ApiOptions extends RequestInit {
   retries?: number;
+  /** Refresh the session and retry once on 401 (default true) */
+  refreshOnUnauthorized?: boolean;
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Exchange the refresh token cookie for a new access token
+ * Concurrent callers share one request, since each refresh rotates the refresh token
+ * @returns Whether the session is still signed in
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = fetch(REFRESH_URL, { method: 'POST', credentials: 'include' })
+      .then((response) => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Whether a failed request should be retried after refreshing the session
+ */
+async function shouldRetryWithRefresh(url: string, status: number, refreshOnUnauthorized: boolean): Promise<boolean> {
+  if (status !== 401 || !refreshOnUnauthorized || url === REFRESH_URL) {
+    return false;
+  }
+  return refreshSession();
 }
 
 /**
@@ -47,7 +81,7 @@ export async function apiFetch<T>(
   url: string,
   options: ApiOptions = {}
 ): Promise<T> {
-  const { retries = MAX_RETRIES, ...fetchOptions } = options;
+  const { retries = MAX_RETRIES, refreshOnUnauthorized = true, ...fetchOptions } = options;
 
   // Ensure proper content type for JSON
   const headers = new Headers(fetchOptions.headers || {});
@@ -70,6 +104,9 @@ export async function apiFetch<T>(
 
       // Handle HTTP error statuses
       if (!response.ok) {
+        if (await shouldRetryWithRefresh(url, response.status, refreshOnUnauthorized)) {
+          return apiFetch<T>(url, { ...options, refreshOnUnauthorized: false });
+        }
         const errorData = await response.json().catch(() => ({}));
         const errorMessage = (errorData as Record<string, unknown>).error as string || `HTTP ${response.status}`;
         throw new ApiError(errorMessage, response.status, errorData);
@@ -192,7 +229,7 @@ export async function apiUpload<T>(
   formData: FormData,
   options?: ApiOptions
 ): Promise<T> {
-  const { retries = MAX_RETRIES, ...fetchOptions } = options || {};
+  const { retries = MAX_RETRIES, refreshOnUnauthorized = true, ...fetchOptions } = options || {};
 
   // Create headers without Content-Type - browser will set it with boundary
   const headers = new Headers(fetchOptions.headers || {});
@@ -214,6 +251,9 @@ export async function apiUpload<T>(
 
       // Handle HTTP error statuses
       if (!response.ok) {
+        if (await shouldRetryWithRefresh(url, response.status, refreshOnUnauthorized)) {
+          return apiUpload<T>(url, formData, { ...options, refreshOnUnauthorized: false });
+        }
         const errorData = await response.json().catch(() => ({}));
         const errorMessage = (errorData as Record<string, unknown>).error as string || `HTTP ${response.status}`;
         throw new ApiError(errorMessage, response.status, errorData);
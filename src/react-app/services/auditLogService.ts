@@ -0,0 +1,38 @@
+import { apiGet } from './apiClient';
+import type { AuditLogFilters, GetAuditLogResponse } from '../../types/audit';
+
+/**
+ * Audit Log Service
+ * Handles browsing the admin audit log
+ */
+
+/**
+ * List audit log entries, newest first (admin only)
+ * @param filters - Actor, action, target and time range filters plus pagination
+ * @returns Matching entries and their total count
+ */
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<GetAuditLogResponse> {
+  const params = new URLSearchParams();
+  if (filters.actor_id) {
+    params.set('actor_id', filters.actor_id);
+  }
+  if (filters.action) {
+    params.set('action', filters.action);
+  }
+  if (filters.target_type) {
+    params.set('target_type', filters.target_type);
+  }
+  if (filters.target_id) {
+    params.set('target_id', filters.target_id);
+  }
+  if (filters.from !== undefined) {
+    params.set('from', filters.from.toString());
+  }
+  if (filters.to !== undefined) {
+    params.set('to', filters.to.toString());
+  }
+  params.set('limit', (filters.limit || 50).toString());
+  params.set('offset', (filters.offset || 0).toString());
+
+  return apiGet<GetAuditLogResponse>(`/api/v1/admin/audit-log?${params.toString()}`);
+}
@@ -0,0 +1,39 @@
+import { apiGet, apiPost, apiDelete } from './apiClient';
+import type { AwardBadgeRequest, BadgeId, GetUserBadgesResponse, UserBadge } from '../../types/badge';
+
+/**
+ * Badge Service
+ * Handles badge API operations
+ */
+
+/**
+ * Get the badges a user holds
+ * Viewing your own badges also grants any you have newly earned
+ * @param userId - User ID to fetch badges for
+ * @returns Badges in the order they were granted
+ */
+export async function getUserBadges(userId: string): Promise<UserBadge[]> {
+  const response = await apiGet<GetUserBadgesResponse>(`/api/v1/users/${userId}/badges`);
+  return response.badges;
+}
+
+/**
+ * Award a badge to a user (admin only)
+ * @param userId - User to award the badge to
+ * @param badgeId - Badge to award
+ * @returns The awarded badge
+ */
+export async function awardBadge(userId: string, badgeId: BadgeId): Promise<UserBadge> {
+  const body: AwardBadgeRequest = { badge_id: badgeId };
+  return apiPost<UserBadge>(`/api/v1/users/${userId}/badges`, body);
+}
+
+/**
+ * Revoke a badge from a user (admin only)
+ * A revoked badge is not granted again automatically
+ * @param userId - User holding the badge
+ * @param badgeId - Badge to revoke
+ */
+export async function revokeBadge(userId: string, badgeId: BadgeId): Promise<void> {
+  await apiDelete<{ success: boolean }>(`/api/v1/users/${userId}/badges/${badgeId}`);
+}
@@ -0,0 +1,169 @@
+import { apiGet, apiPost, apiPatch, apiDelete } from './apiClient';
+import type {
+  CalendarFeed,
+  CreateCalendarFeedResponse,
+  CreateEventDTO,
+  Event,
+  EventRsvp,
+  EventRsvpResponse,
+  GetCalendarFeedResponse,
+  GetEventAttendeesResponse,
+  GetEventsResponse,
+  UpdateEventDTO,
+} from '../../types/event';
+
+/**
+ * Event Service
+ * Handles community events, member RSVPs, check-in at the door and calendar feeds
+ */
+
+/**
+ * List all events, earliest first
+ * @returns Events with RSVP counts, and the signed-in member's own RSVP
+ */
+export async function getEvents(): Promise<Event[]> {
+  const response = await apiGet<GetEventsResponse>('/api/v1/events');
+  return response.events;
+}
+
+/**
+ * Get a single event
+ * @param eventId - Event to load
+ * @returns The event with its RSVP counts
+ */
+export async function getEvent(eventId: string): Promise<Event> {
+  const response = await apiGet<{ event: Event }>(`/api/v1/events/${eventId}`);
+  return response.event;
+}
+
+/**
+ * RSVP to an event
+ * The member joins the waitlist when the event is full
+ * @param eventId - Event to attend
+ * @returns The RSVP and the updated event
+ */
+export async function rsvpToEvent(eventId: string): Promise<EventRsvpResponse> {
+  return apiPost<EventRsvpResponse>(`/api/v1/events/${eventId}/rsvp`);
+}
+
+/**
+ * Cancel an RSVP or leave the waitlist
+ * @param eventId - Event to cancel
+ * @returns The cancelled RSVP and the updated event
+ */
+export async function cancelRsvp(eventId: string): Promise<EventRsvpResponse> {
+  return apiDelete<EventRsvpResponse>(`/api/v1/events/${eventId}/rsvp`);
+}
+
+/**
+ * Create an event (admin only)
+ * @param data - Name, times, location and optional details
+ * @returns The created event
+ */
+export async function createEvent(data: CreateEventDTO): Promise<Event> {
+  const response = await apiPost<{ event: Event }>('/api/v1/admin/events', data);
+  return response.event;
+}
+
+/**
+ * Edit an event (admin only)
+ * Raising the capacity moves members off the waitlist
+ * @param eventId - Event to edit
+ * @param data - Fields to change
+ * @returns The updated event
+ */
+export async function updateEvent(eventId: string, data: UpdateEventDTO): Promise<Event> {
+  const response = await apiPatch<{ event: Event }>(`/api/v1/admin/events/${eventId}`, data);
+  return response.event;
+}
+
+/**
+ * Delete an event and its RSVPs (admin only)
+ * @param eventId - Event to delete
+ */
+export async function deleteEvent(eventId: string): Promise<void> {
+  await apiDelete<{ success: boolean }>(`/api/v1/admin/events/${eventId}`);
+}
+
+/**
+ * List an event's attendees (admin only)
+ * @param eventId - Event to list
+ * @returns Members going, then the waitlist in order
+ */
+export async function getEventAttendees(eventId: string): Promise<EventRsvp[]> {
+  const response = await apiGet<GetEventAttendeesResponse>(`/api/v1/admin/events/${eventId}/attendees`);
+  return response.attendees;
+}
+
+/**
+ * Check a member in at the door (admin only)
+ * @param eventId - Event being attended
+ * @param userId - Member going to the event
+ * @returns The updated RSVP
+ */
+export async function checkInAttendee(eventId: string, userId: string): Promise<EventRsvp> {
+  const response = await apiPost<{ attendee: EventRsvp }>(`/api/v1/admin/events/${eventId}/attendees/${userId}/check-in`);
+  return response.attendee;
+}
+
+/**
+ * Undo a check-in (admin only)
+ * @param eventId - Event being attended
+ * @param userId - Member to undo
+ * @returns The updated RSVP
+ */
+export async function undoCheckIn(eventId: string, userId: string): Promise<EventRsvp> {
+  const response = await apiDelete<{ attendee: EventRsvp }>(`/api/v1/admin/events/${eventId}/attendees/${userId}/check-in`);
+  return response.attendee;
+}
+
+/**
+ * Get the download URL of an event's .ics calendar file
+ * @param eventId - Event to download
+ * @returns Relative URL
+ */
+export function getEventIcsUrl(eventId: string): string {
+  return `/api/v1/events/${eventId}/ics`;
+}
+
+/**
+ * Get the URL calendar apps subscribe to for all events
+ * @returns Absolute URL, as calendar apps fetch it outside the app
+ */
+export function getEventsCalendarUrl(): string {
+  return `${window.location.origin}/api/v1/events/calendar.ics`;
+}
+
+/**
+ * Get the URL of a member's personal calendar feed
+ * @param token - Feed token, only known right after the feed is created
+ * @returns Absolute URL; anyone with it can read the member's RSVPs
+ */
+export function getMyCalendarUrl(token: string): string {
+  return `${window.location.origin}/api/v1/events/my-calendar.ics?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Check whether the signed-in member has a personal calendar feed
+ * @returns The feed, or null if it is turned off
+ */
+export async function getCalendarFeed(): Promise<CalendarFeed | null> {
+  const response = await apiGet<GetCalendarFeedResponse>('/api/v1/events/calendar-feed');
+  return response.feed;
+}
+
+/**
+ * Create the signed-in member's personal calendar feed
+ * Creating it again replaces the link, so calendars subscribed to the old one stop updating
+ * @returns The feed and its token, which can't be fetched again later
+ */
+export async function createCalendarFeed(): Promise<CreateCalendarFeedResponse> {
+  return apiPost<CreateCalendarFeedResponse>('/api/v1/events/calendar-feed');
+}
+
+/**
+ * Turn off the signed-in member's personal calendar feed
+ */
+export async function deleteCalendarFeed(): Promise<void> {
+  await apiDelete<{ success: boolean }>('/api/v1/events/calendar-feed');
+}
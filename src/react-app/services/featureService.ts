@@ -3,6 +3,7 @@ import type {
   FeatureFlag,
   FeatureFlagCreateRequest,
   FeatureFlagUpdateRequest,
+  FeatureTargeting,
   EnabledFeatures,
 } from '../../types/features';
 
@@ -44,6 +45,20 @@ export async function toggleFeature(
   return apiPatch<FeatureFlag>(`/api/v1/admin/features/${id}`, body);
 }
 
+/**
+ * Set who a feature flag is turned on for (admin only)
+ * @param id - Feature flag ID
+ * @param targeting - Audience, targeted user IDs and rollout percentage
+ * @returns Updated feature flag
+ */
+export async function updateFeatureTargeting(
+  id: string,
+  targeting: FeatureTargeting
+): Promise<FeatureFlag> {
+  const body: FeatureFlagUpdateRequest = targeting;
+  return apiPatch<FeatureFlag>(`/api/v1/admin/features/${id}`, body);
+}
+
 /**
  * Delete a feature flag (admin only)
  * @param id - Feature flag ID
@@ -54,6 +69,7 @@ export async function deleteFeature(id: string): Promise<void> {
 
 /**
  * Get enabled features (public endpoint)
+ * Evaluated for the signed-in user, so the result changes on login and logout
  * @returns Map of feature keys to boolean values
  */
 export async function getEnabledFeatures(): Promise<EnabledFeatures> {
@@ -3,8 +3,8 @@
  * All forum-related API calls go through this service
  */
 
-import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
-import { ForumCategory, ForumThreadWithAuthor, GetThreadsResponse, GetThreadResponse, ForumReplyWithAuthor, CreateThreadRequest, CreateReplyRequest, UpdateReplyRequest, ForumReplyWithNestedReplies, GetReplyResponse } from '../../types/forum';
+import { apiGet, apiPost, apiPut, apiPatch, apiDelete } from './apiClient';
+import { ForumCategory, ForumThreadWithAuthor, GetThreadsResponse, GetThreadResponse, ForumReplyWithAuthor, CreateThreadRequest, UpdateThreadRequest, MoveThreadRequest, MergeThreadRequest, CreateReplyRequest, UpdateReplyRequest, ForumReplyWithNestedReplies, GetReplyResponse, ForumRevision, GetRevisionsResponse } from '../../types/forum';
 
 interface CategoriesResponse {
   categories: ForumCategory[];
@@ -102,6 +102,30 @@ export const forumService = {
     return response.thread;
   },
 
+  /**
+   * Edit a thread's title and/or content (author or moderator)
+   * @param id - Thread ID
+   * @param data - Fields to change
+   */
+  async updateThread(id: string, data: UpdateThreadRequest): Promise<ForumThreadWithAuthor> {
+    const response = await apiPut<GetThreadResponse>(
+      `/api/v1/forums/threads/${encodeURIComponent(id)}`,
+      data
+    );
+    return response.thread;
+  },
+
+  /**
+   * Get every version of a thread, oldest first
+   * @param id - Thread ID
+   */
+  async getThreadRevisions(id: string): Promise<ForumRevision[]> {
+    const response = await apiGet<GetRevisionsResponse>(
+      `/api/v1/forums/threads/${encodeURIComponent(id)}/revisions`
+    );
+    return response.revisions;
+  },
+
   // ============================================================================
   // Replies
   // ============================================================================
@@ -165,6 +189,17 @@ export const forumService = {
     return response.reply;
   },
 
+  /**
+   * Get every version of a reply, oldest first
+   * @param replyId - Reply ID
+   */
+  async getReplyRevisions(replyId: string): Promise<ForumRevision[]> {
+    const response = await apiGet<GetRevisionsResponse>(
+      `/api/v1/forums/replies/${encodeURIComponent(replyId)}/revisions`
+    );
+    return response.revisions;
+  },
+
   /**
    * Delete a reply
    * @param replyId - Reply ID
@@ -186,6 +221,56 @@ export const forumService = {
     return response.thread;
   },
 
+  // ============================================================================
+  // Thread Moderation
+  // ============================================================================
+
+  /**
+   * Move a thread to another category (admins and category moderators)
+   * @param threadId - Thread ID
+   * @param data - Destination category
+   */
+  async moveThread(threadId: string, data: MoveThreadRequest): Promise<ForumThreadWithAuthor> {
+    const response = await apiPatch<GetThreadResponse>(
+      `/api/v1/forums/threads/${encodeURIComponent(threadId)}/category`,
+      data
+    );
+    return response.thread;
+  },
+
+  /**
+   * Merge a duplicate thread into another; returns the target thread
+   * @param threadId - Thread ID of the duplicate
+   * @param data - Thread that takes over the posts
+   */
+  async mergeThread(threadId: string, data: MergeThreadRequest): Promise<ForumThreadWithAuthor> {
+    const response = await apiPost<GetThreadResponse>(
+      `/api/v1/forums/threads/${encodeURIComponent(threadId)}/merge`,
+      data
+    );
+    return response.thread;
+  },
+
+  /**
+   * Delete a thread; admins can restore it later
+   * @param threadId - Thread ID
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    await apiDelete(`/api/v1/forums/threads/${encodeURIComponent(threadId)}`);
+  },
+
+  /**
+   * Restore a deleted thread
+   * @param threadId - Thread ID
+   */
+  async restoreThread(threadId: string): Promise<ForumThreadWithAuthor> {
+    const response = await apiPost<GetThreadResponse>(
+      `/api/v1/forums/threads/${encodeURIComponent(threadId)}/restore`,
+      {}
+    );
+    return response.thread;
+  },
+
   // ============================================================================
   // View Tracking
   // ============================================================================
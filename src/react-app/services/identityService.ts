@@ -0,0 +1,24 @@
+import { apiGet, apiDelete } from './apiClient';
+import type { GetLinkedIdentitiesResponse, LinkedIdentity } from '../../types/user';
+
+/**
+ * Identity Service
+ * Handles the provider accounts (Google, GitHub, OIDC) a user can sign in with
+ */
+
+/**
+ * List the provider accounts linked to the signed-in user, oldest first
+ * @returns Linked accounts with the email each provider reported
+ */
+export async function getLinkedIdentities(): Promise<LinkedIdentity[]> {
+  const response = await apiGet<GetLinkedIdentitiesResponse>('/api/v1/auth/identities');
+  return response.identities;
+}
+
+/**
+ * Unlink a provider account; the last one can't be unlinked
+ * @param identityId - Linked account to remove
+ */
+export async function unlinkIdentity(identityId: string): Promise<void> {
+  await apiDelete<{ success: boolean }>(`/api/v1/auth/identities/${identityId}`);
+}
@@ -0,0 +1,90 @@
+import { apiGet, apiPost, apiPatch } from './apiClient';
+import type {
+  CreateInviteCodeDTO,
+  GetInviteCodesResponse,
+  GetWaitlistResponse,
+  InviteCode,
+  JoinWaitlistDTO,
+  UpdateWaitlistEntryDTO,
+  WaitlistEntry,
+  WaitlistStatus,
+} from '../../types/invite';
+
+/**
+ * Invite Service
+ * Handles invite codes and the waitlist used while public registration is off
+ */
+
+/**
+ * Ask for an account while registration is closed
+ * @param data - Email of the Google account, name and optional reason
+ * @returns The pending waitlist entry
+ */
+export async function joinWaitlist(data: JoinWaitlistDTO): Promise<WaitlistEntry> {
+  const response = await apiPost<{ entry: WaitlistEntry }>('/api/v1/waitlist', data);
+  return response.entry;
+}
+
+/**
+ * List every invite code, newest first (admin only)
+ * @returns Invite codes with the name of the admin who created them
+ */
+export async function getInviteCodes(): Promise<InviteCode[]> {
+  const response = await apiGet<GetInviteCodesResponse>('/api/v1/admin/invites');
+  return response.invites;
+}
+
+/**
+ * Generate an invite code (admin only)
+ * @param data - Optional max uses (default 1), expiry and note
+ * @returns The created invite code
+ */
+export async function createInviteCode(data: CreateInviteCodeDTO): Promise<InviteCode> {
+  const response = await apiPost<{ invite: InviteCode }>('/api/v1/admin/invites', data);
+  return response.invite;
+}
+
+/**
+ * Stop an invite code from creating more accounts (admin only)
+ * @param inviteId - Invite code to revoke
+ * @returns The revoked invite code
+ */
+export async function revokeInviteCode(inviteId: string): Promise<InviteCode> {
+  const response = await apiPost<{ invite: InviteCode }>(`/api/v1/admin/invites/${inviteId}/revoke`);
+  return response.invite;
+}
+
+/**
+ * List waitlist entries (admin only)
+ * @param options - Status (default pending) and pagination
+ * @returns Entries and their total count
+ */
+export async function getWaitlist(options: {
+  status?: WaitlistStatus;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<GetWaitlistResponse> {
+  const params = new URLSearchParams();
+  if (options.status) {
+    params.set('status', options.status);
+  }
+  params.set('limit', (options.limit || 20).toString());
+  params.set('offset', (options.offset || 0).toString());
+
+  return apiGet<GetWaitlistResponse>(`/api/v1/admin/waitlist?${params.toString()}`);
+}
+
+/**
+ * Approve or reject a pending waitlist entry (admin only)
+ * Approved people are emailed and can sign in with Google
+ * @param entryId - Entry to review
+ * @param data - New status
+ * @returns The updated entry
+ */
+export async function updateWaitlistEntry(
+  entryId: string,
+  data: UpdateWaitlistEntryDTO
+): Promise<WaitlistEntry> {
+  const response = await apiPatch<{ entry: WaitlistEntry }>(`/api/v1/admin/waitlist/${entryId}`, data);
+  return response.entry;
+}
@@ -0,0 +1,58 @@
+import { apiGet, apiPost } from './apiClient';
+import type {
+  JobRun,
+  JobRunStatus,
+  ScheduledJobInfo,
+  ScheduledJobName,
+  GetScheduledJobsResponse,
+  GetJobRunsResponse,
+  RunJobResponse,
+} from '../../types/job';
+
+/**
+ * Scheduled Job Service
+ * Handles inspecting and running background jobs (admin only)
+ */
+
+export interface JobRunFilters {
+  job?: ScheduledJobName;
+  status?: JobRunStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * List registered jobs with their latest run
+ */
+export async function getScheduledJobs(): Promise<ScheduledJobInfo[]> {
+  const response = await apiGet<GetScheduledJobsResponse>('/api/v1/admin/jobs');
+  return response.jobs;
+}
+
+/**
+ * List job runs, newest first
+ * @param filters - Job and status filters plus pagination
+ * @returns Matching runs and their total count
+ */
+export async function getJobRuns(filters: JobRunFilters = {}): Promise<GetJobRunsResponse> {
+  const params = new URLSearchParams();
+  if (filters.job) {
+    params.set('job', filters.job);
+  }
+  if (filters.status) {
+    params.set('status', filters.status);
+  }
+  params.set('limit', (filters.limit || 50).toString());
+  params.set('offset', (filters.offset || 0).toString());
+
+  return apiGet<GetJobRunsResponse>(`/api/v1/admin/jobs/runs?${params.toString()}`);
+}
+
+/**
+ * Run a job now instead of waiting for its cron trigger
+ * @returns The finished run
+ */
+export async function runScheduledJob(name: ScheduledJobName): Promise<JobRun> {
+  const response = await apiPost<RunJobResponse>(`/api/v1/admin/jobs/${name}/run`);
+  return response.run;
+}
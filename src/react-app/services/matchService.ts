@@ -1,5 +1,8 @@
 import { apiGet, apiPost, apiPatch, apiDelete } from './apiClient';
 import type { Match, MatchStatus } from '../../types/match';
+import type { MatchSession, ProposeSessionDTO, RescheduleSessionDTO } from '../../types/session';
+import type { MentorReview, CreateReviewDTO } from '../../types/review';
+import type { MatchMessage, GetMatchMessagesResponse } from '../../types/message';
 import type {
   CreateMatchRequest,
   RespondToMatchRequest,
@@ -132,3 +135,139 @@ export async function checkExistingMatch(mentorId: string): Promise<{
     throw error;
   }
 }
+
+/**
+ * Get scheduled sessions for a match (participants only)
+ * @param matchId - ID of the match
+ * @returns Sessions ordered by start time
+ */
+export async function getMatchSessions(matchId: string): Promise<MatchSession[]> {
+  const response = await apiGet<{ sessions: MatchSession[] }>(`/api/v1/matches/${matchId}/sessions`);
+  return response.sessions || [];
+}
+
+/**
+ * Propose a session time for an active match
+ * @param matchId - ID of the match
+ * @param data - Start time (Unix seconds), optional duration and meeting link
+ * @returns Created session in proposed state
+ */
+export async function proposeSession(matchId: string, data: ProposeSessionDTO): Promise<MatchSession> {
+  const response = await apiPost<{ session: MatchSession }>(`/api/v1/matches/${matchId}/sessions`, data);
+  return response.session;
+}
+
+/**
+ * Confirm a session proposed by the other participant
+ * @param matchId - ID of the match
+ * @param sessionId - ID of the session
+ * @param meetingLink - Optional meeting link to attach
+ * @returns Confirmed session
+ */
+export async function confirmSession(
+  matchId: string,
+  sessionId: string,
+  meetingLink?: string
+): Promise<MatchSession> {
+  const response = await apiPost<{ session: MatchSession }>(
+    `/api/v1/matches/${matchId}/sessions/${sessionId}/confirm`,
+    meetingLink ? { meeting_link: meetingLink } : {}
+  );
+  return response.session;
+}
+
+/**
+ * Propose a new time for a session; it then needs confirmation from the other participant
+ * @param matchId - ID of the match
+ * @param sessionId - ID of the session
+ * @param data - New start time and optional duration/meeting link
+ * @returns Rescheduled session in proposed state
+ */
+export async function rescheduleSession(
+  matchId: string,
+  sessionId: string,
+  data: RescheduleSessionDTO
+): Promise<MatchSession> {
+  const response = await apiPost<{ session: MatchSession }>(
+    `/api/v1/matches/${matchId}/sessions/${sessionId}/reschedule`,
+    data
+  );
+  return response.session;
+}
+
+/**
+ * Cancel a session
+ * @param matchId - ID of the match
+ * @param sessionId - ID of the session
+ * @returns Cancelled session
+ */
+export async function cancelSession(matchId: string, sessionId: string): Promise<MatchSession> {
+  const response = await apiPost<{ session: MatchSession }>(
+    `/api/v1/matches/${matchId}/sessions/${sessionId}/cancel`,
+    {}
+  );
+  return response.session;
+}
+
+/**
+ * Get the download URL of a confirmed session's .ics calendar file
+ * @param matchId - ID of the match
+ * @param sessionId - ID of the session
+ * @returns Relative URL (authenticated via cookie)
+ */
+export function getSessionIcsUrl(matchId: string, sessionId: string): string {
+  return `/api/v1/matches/${matchId}/sessions/${sessionId}/ics`;
+}
+
+/**
+ * Review the mentor of a completed match (mentee only, once per match)
+ * @param matchId - ID of the completed match
+ * @param data - Star rating (1-5) and review text
+ * @returns Created review
+ */
+export async function submitReview(matchId: string, data: CreateReviewDTO): Promise<MentorReview> {
+  const response = await apiPost<{ review: MentorReview }>(`/api/v1/matches/${matchId}/review`, data);
+  return response.review;
+}
+
+/**
+ * List messages of a match (participants only)
+ * @param matchId - Match ID
+ * @param options - Page size and how many newer messages to skip
+ * @returns One page of messages in chronological order, with total and unread counts
+ */
+export async function getMatchMessages(
+  matchId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<GetMatchMessagesResponse> {
+  const params = new URLSearchParams();
+  if (options.limit) {
+    params.set('limit', options.limit.toString());
+  }
+  if (options.offset) {
+    params.set('offset', options.offset.toString());
+  }
+  const queryString = params.toString();
+  return apiGet<GetMatchMessagesResponse>(`/api/v1/matches/${matchId}/messages${queryString ? `?${queryString}` : ''}`);
+}
+
+/**
+ * Send a message to the other participant of an active match
+ * @param matchId - Match ID
+ * @param content - Message text
+ * @returns Created message
+ */
+export async function sendMatchMessage(matchId: string, content: string): Promise<MatchMessage> {
+  const response = await apiPost<{ message: MatchMessage }>(`/api/v1/matches/${matchId}/messages`, { content });
+  return response.message;
+}
+
+/**
+ * Mark all messages to the current user in a match as read
+ * @param matchId - Match ID
+ * @returns Number of messages that were marked as read
+ */
+export async function markMatchMessagesRead(matchId: string): Promise<number> {
+  const response = await apiPatch<{ success: boolean; updated: number }>(`/api/v1/matches/${matchId}/messages/read`, {});
+  return response.updated;
+}
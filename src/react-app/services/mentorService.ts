@@ -1,6 +1,14 @@
 import { apiGet, apiPost, apiPut, apiDelete } from './apiClient';
 import type { MentorProfile } from '../../types/mentor';
-import type { CreateMentorProfileRequest, UpdateMentorProfileRequest, SearchMentorsResponse } from '../../types/api';
+import type { AvailabilitySlot } from '../../types/availability';
+import type { MentorReviewsResponse } from '../../types/review';
+import type {
+  CreateMentorProfileRequest,
+  UpdateMentorProfileRequest,
+  SearchMentorsResponse,
+  UpdateAvailabilitySlotsRequest,
+  AvailabilitySlotsResponse,
+} from '../../types/api';
 
 /**
  * Mentor Profile Service
@@ -66,6 +74,39 @@ export async function deleteMentorProfile(id: string): Promise<{ success: boolea
   return apiDelete<{ success: boolean }>(`/api/v1/mentors/profiles/${id}`);
 }
 
+/**
+ * Get a mentor's recurring weekly availability slots
+ * @param profileId - Mentor profile ID
+ * @returns Slots, each in the mentor's own timezone
+ */
+export async function getAvailabilitySlots(profileId: string): Promise<AvailabilitySlot[]> {
+  const response = await apiGet<AvailabilitySlotsResponse>(`/api/v1/mentors/profiles/${profileId}/availability`);
+  return response.slots;
+}
+
+/**
+ * Replace a mentor's recurring weekly availability slots
+ * @param profileId - Mentor profile ID
+ * @param data - Timezone and slots (an empty list clears availability)
+ * @returns Saved slots
+ */
+export async function updateAvailabilitySlots(
+  profileId: string,
+  data: UpdateAvailabilitySlotsRequest
+): Promise<AvailabilitySlot[]> {
+  const response = await apiPut<AvailabilitySlotsResponse>(`/api/v1/mentors/profiles/${profileId}/availability`, data);
+  return response.slots;
+}
+
+/**
+ * Get reviews and rating aggregates of a mentor
+ * @param profileId - Mentor profile ID
+ * @returns Reviews (newest first), average rating and review count; empty when reviews are turned off
+ */
+export async function getMentorReviews(profileId: string): Promise<MentorReviewsResponse> {
+  return apiGet<MentorReviewsResponse>(`/api/v1/mentors/profiles/${profileId}/reviews`);
+}
+
 /**
  * Search and filter mentors
  * @param filters - Search filters (mentoring levels, payment types, rate range, etc.)
@@ -79,6 +120,12 @@ export async function searchMentors(filters: {
   hourly_rate_min?: number;
   hourly_rate_max?: number;
   nick_name?: string;
+  available_day?: number;
+  available_start?: string;
+  available_end?: string;
+  timezone?: string;
+  min_rating?: number;
+  sort?: 'newest' | 'rating';
   limit?: number;
   offset?: number;
 } = {}): Promise<SearchMentorsResponse> {
@@ -106,6 +153,20 @@ export async function searchMentors(filters: {
   if (filters.nick_name) {
     params.set('nick_name', filters.nick_name);
   }
+  if (filters.available_day !== undefined && filters.available_start && filters.available_end) {
+    params.set('available_day', filters.available_day.toString());
+    params.set('available_start', filters.available_start);
+    params.set('available_end', filters.available_end);
+    if (filters.timezone) {
+      params.set('timezone', filters.timezone);
+    }
+  }
+  if (filters.min_rating !== undefined && filters.min_rating > 0) {
+    params.set('min_rating', filters.min_rating.toString());
+  }
+  if (filters.sort && filters.sort !== 'newest') {
+    params.set('sort', filters.sort);
+  }
 
   params.set('limit', (filters.limit || 20).toString());
   params.set('offset', (filters.offset || 0).toString());
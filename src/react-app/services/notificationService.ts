@@ -0,0 +1,79 @@
+import { apiGet, apiPatch, apiPut } from './apiClient';
+import type {
+  Notification,
+  GetNotificationsResponse,
+  NotificationPreferences,
+  UpdateNotificationPreferencesDTO,
+} from '../../types/notification';
+
+/**
+ * Notification Service
+ * Handles in-app notification and email preference API operations
+ */
+
+/**
+ * List the current user's notifications (newest first)
+ * @param options - Pagination and unread-only filter
+ * @returns Notifications with unread and total counts
+ */
+export async function getNotifications(options: {
+  unreadOnly?: boolean;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<GetNotificationsResponse> {
+  const params = new URLSearchParams();
+  if (options.unreadOnly) {
+    params.set('unread_only', 'true');
+  }
+  params.set('limit', (options.limit || 20).toString());
+  params.set('offset', (options.offset || 0).toString());
+
+  return apiGet<GetNotificationsResponse>(`/api/v1/notifications?${params.toString()}`);
+}
+
+/**
+ * Get the current user's unread notification count
+ * @returns Number of unread notifications
+ */
+export async function getUnreadNotificationCount(): Promise<number> {
+  const response = await apiGet<{ unread_count: number }>('/api/v1/notifications/unread-count');
+  return response.unread_count || 0;
+}
+
+/**
+ * Mark a notification as read
+ * @param id - Notification ID
+ * @returns Updated notification
+ */
+export async function markNotificationRead(id: string): Promise<Notification> {
+  const response = await apiPatch<{ notification: Notification }>(`/api/v1/notifications/${id}/read`, {});
+  return response.notification;
+}
+
+/**
+ * Mark all of the current user's notifications as read
+ * @returns Number of notifications that were updated
+ */
+export async function markAllNotificationsRead(): Promise<number> {
+  const response = await apiPatch<{ success: boolean; updated: number }>('/api/v1/notifications/read-all', {});
+  return response.updated;
+}
+
+/**
+ * Get the current user's email language and per-type email frequencies
+ * @returns Notification preferences (defaults for types never changed)
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  return apiGet<NotificationPreferences>('/api/v1/notifications/preferences');
+}
+
+/**
+ * Update the current user's email language and/or per-type email frequencies
+ * @param data - Locale and frequencies to change
+ * @returns Updated notification preferences
+ */
+export async function updateNotificationPreferences(
+  data: UpdateNotificationPreferencesDTO
+): Promise<NotificationPreferences> {
+  return apiPut<NotificationPreferences>('/api/v1/notifications/preferences', data);
+}
@@ -1,5 +1,14 @@
 import { apiGet, apiPatch } from './apiClient';
-import type { GetUserPointsResponse, UpdateUserPointsRequest, GetLeaderboardResponse } from '../../types/api';
+import type {
+  GetUserPointsResponse,
+  UpdateUserPointsRequest,
+  GetLeaderboardRequest,
+  GetLeaderboardResponse,
+  GetLeaderboardWinnersResponse,
+  GetPointsHistoryResponse,
+} from '../../types/api';
+import { LeaderboardPeriod, LeaderboardSource } from '../../types/points';
+import type { PointsActionType, ClosingLeaderboardPeriod } from '../../types/points';
 
 /**
  * Points Service
@@ -15,6 +24,26 @@ export async function getUserPoints(userId: string): Promise<GetUserPointsRespon
   return apiGet<GetUserPointsResponse>(`/api/v1/users/${userId}/points`);
 }
 
+/**
+ * Get a user's points history, newest first (own history, or any user's for admins)
+ * @param userId - User ID to fetch history for
+ * @param options - Action types to include plus pagination
+ * @returns Ledger entries and their total count
+ */
+export async function getPointsHistory(
+  userId: string,
+  options: { action_types?: PointsActionType[]; limit?: number; offset?: number } = {}
+): Promise<GetPointsHistoryResponse> {
+  const params = new URLSearchParams();
+  if (options.action_types && options.action_types.length > 0) {
+    params.set('action_type', options.action_types.join(','));
+  }
+  params.set('limit', (options.limit || 20).toString());
+  params.set('offset', (options.offset || 0).toString());
+
+  return apiGet<GetPointsHistoryResponse>(`/api/v1/users/${userId}/points/history?${params.toString()}`);
+}
+
 /**
  * Update user points (admin only)
  * Internal endpoint for awarding or adjusting points
@@ -67,17 +96,37 @@ export async function awardPointsForAction(
  * Get leaderboard - list of users sorted by points
  * @param limit - Number of users to return (default 50, max 100)
  * @param offset - Pagination offset (default 0)
- * @returns Leaderboard with users, total count, and pagination info
+ * @param window - Period, source and range to rank (default: all-time, all sources)
+ * @returns Leaderboard with users, total count, pagination info and the caller's own entry
  */
 export async function getLeaderboard(
   limit: number = 50,
-  offset: number = 0
+  offset: number = 0,
+  window: Pick<GetLeaderboardRequest, 'period' | 'source' | 'start' | 'end'> = {}
 ): Promise<GetLeaderboardResponse> {
   const params = new URLSearchParams();
   if (limit) params.append('limit', limit.toString());
   if (offset) params.append('offset', offset.toString());
+  if (window.period && window.period !== LeaderboardPeriod.AllTime) params.append('period', window.period);
+  if (window.source && window.source !== LeaderboardSource.All) params.append('source', window.source);
+  if (window.start !== undefined) params.append('start', window.start.toString());
+  if (window.end !== undefined) params.append('end', window.end.toString());
 
   const queryString = params.toString();
   const url = `/api/v1/leaderboard${queryString ? `?${queryString}` : ''}`;
   return apiGet<GetLeaderboardResponse>(url);
 }
+
+/**
+ * Get the top users of each closed week or month, newest first
+ * @param period - Week or month
+ * @param source - Where the points were earned (default: all sources)
+ * @returns Closed periods with their winners
+ */
+export async function getLeaderboardWinners(
+  period: ClosingLeaderboardPeriod,
+  source: LeaderboardSource = LeaderboardSource.All
+): Promise<GetLeaderboardWinnersResponse> {
+  const params = new URLSearchParams({ period, source });
+  return apiGet<GetLeaderboardWinnersResponse>(`/api/v1/leaderboard/winners?${params.toString()}`);
+}
@@ -0,0 +1,69 @@
+import { apiGet, apiPost } from './apiClient';
+import type {
+  ContentReport,
+  CreateReportDTO,
+  GetReportGroupsResponse,
+  ModerationAction,
+  ModerationActionDTO,
+  ReportStatus,
+  ReportTargetType,
+} from '../../types/report';
+
+/**
+ * Report Service
+ * Handles content reports and the admin moderation queue
+ */
+
+/**
+ * Report a forum thread, forum reply, blog or blog comment
+ * @param data - Target content, reason and optional details
+ * @returns The created report
+ */
+export async function createReport(data: CreateReportDTO): Promise<ContentReport> {
+  const response = await apiPost<{ report: ContentReport }>('/api/v1/reports', data);
+  return response.report;
+}
+
+/**
+ * List reports grouped by target content, most reported first (admin only)
+ * @param options - Status (default open), content type and pagination filters
+ * @returns Report groups and the total number of groups
+ */
+export async function getReportGroups(options: {
+  status?: ReportStatus;
+  type?: ReportTargetType;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<GetReportGroupsResponse> {
+  const params = new URLSearchParams();
+  if (options.status) {
+    params.set('status', options.status);
+  }
+  if (options.type) {
+    params.set('type', options.type);
+  }
+  params.set('limit', (options.limit || 20).toString());
+  params.set('offset', (options.offset || 0).toString());
+
+  return apiGet<GetReportGroupsResponse>(`/api/v1/admin/reports?${params.toString()}`);
+}
+
+/**
+ * Dismiss, hide, delete or warn about reported content (admin only)
+ * Closes all open reports about the content
+ * @param targetType - Type of the reported content
+ * @param targetId - ID of the reported content
+ * @param data - Action and optional note (required for warn)
+ * @returns The recorded moderation action
+ */
+export async function takeModerationAction(
+  targetType: ReportTargetType,
+  targetId: string,
+  data: ModerationActionDTO
+): Promise<ModerationAction> {
+  const response = await apiPost<{ success: boolean; action: ModerationAction }>(
+    `/api/v1/admin/reports/${targetType}/${encodeURIComponent(targetId)}/actions`,
+    data
+  );
+  return response.action;
+}
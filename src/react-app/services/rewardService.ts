@@ -0,0 +1,116 @@
+import { apiGet, apiPost, apiPatch } from './apiClient';
+import type {
+  CreateRewardDTO,
+  GetRedemptionsResponse,
+  GetRewardsResponse,
+  RedeemRewardResponse,
+  RedemptionStatus,
+  Reward,
+  RewardRedemption,
+  UpdateRedemptionDTO,
+  UpdateRewardDTO,
+} from '../../types/reward';
+
+/**
+ * Reward Service
+ * Handles the rewards store and the admin fulfillment queue
+ */
+
+/**
+ * List the rewards members can redeem, cheapest first
+ * @returns Active, unexpired rewards (including ones out of stock)
+ */
+export async function getRewards(): Promise<Reward[]> {
+  const response = await apiGet<GetRewardsResponse>('/api/v1/rewards');
+  return response.rewards;
+}
+
+/**
+ * Spend points on a reward
+ * @param rewardId - Reward to redeem
+ * @param note - Details the admins need to fulfill it (optional)
+ * @returns The queued redemption and the balance left
+ */
+export async function redeemReward(rewardId: string, note?: string): Promise<RedeemRewardResponse> {
+  return apiPost<RedeemRewardResponse>(`/api/v1/rewards/${rewardId}/redeem`, { note });
+}
+
+/**
+ * Get the signed-in user's redemptions, newest first
+ * @param options - Pagination
+ * @returns Redemptions and their total count
+ */
+export async function getMyRedemptions(
+  options: { limit?: number; offset?: number } = {}
+): Promise<GetRedemptionsResponse> {
+  const params = new URLSearchParams();
+  params.set('limit', (options.limit || 20).toString());
+  params.set('offset', (options.offset || 0).toString());
+
+  return apiGet<GetRedemptionsResponse>(`/api/v1/rewards/redemptions?${params.toString()}`);
+}
+
+/**
+ * List every reward, including inactive and expired ones (admin only)
+ * @returns The whole catalog, newest first
+ */
+export async function getAllRewards(): Promise<Reward[]> {
+  const response = await apiGet<GetRewardsResponse>('/api/v1/admin/rewards');
+  return response.rewards;
+}
+
+/**
+ * Add a reward to the catalog (admin only)
+ * @param data - Name, cost and optional description, stock and expiry
+ * @returns The created reward
+ */
+export async function createReward(data: CreateRewardDTO): Promise<Reward> {
+  const response = await apiPost<{ reward: Reward }>('/api/v1/admin/rewards', data);
+  return response.reward;
+}
+
+/**
+ * Edit or deactivate a reward (admin only)
+ * @param rewardId - Reward to edit
+ * @param data - Fields to change
+ * @returns The updated reward
+ */
+export async function updateReward(rewardId: string, data: UpdateRewardDTO): Promise<Reward> {
+  const response = await apiPatch<{ reward: Reward }>(`/api/v1/admin/rewards/${rewardId}`, data);
+  return response.reward;
+}
+
+/**
+ * List redemptions in the fulfillment queue (admin only)
+ * @param options - Status (default pending) and pagination
+ * @returns Redemptions with member and reward names, and their total count
+ */
+export async function getRedemptionQueue(options: {
+  status?: RedemptionStatus;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<GetRedemptionsResponse> {
+  const params = new URLSearchParams();
+  if (options.status) {
+    params.set('status', options.status);
+  }
+  params.set('limit', (options.limit || 20).toString());
+  params.set('offset', (options.offset || 0).toString());
+
+  return apiGet<GetRedemptionsResponse>(`/api/v1/admin/redemptions?${params.toString()}`);
+}
+
+/**
+ * Approve, fulfill or refund a redemption (admin only)
+ * Refunding returns the member's points
+ * @param redemptionId - Redemption to update
+ * @param data - New status and optional note for the member
+ * @returns The updated redemption
+ */
+export async function updateRedemption(
+  redemptionId: string,
+  data: UpdateRedemptionDTO
+): Promise<RewardRedemption> {
+  const response = await apiPatch<{ redemption: RewardRedemption }>(`/api/v1/admin/redemptions/${redemptionId}`, data);
+  return response.redemption;
+}
@@ -1,9 +1,10 @@
-import { apiGet, apiPost } from './apiClient';
+import { apiGet, apiPost, apiDelete } from './apiClient';
 import type {
   AssignRoleRequest,
   GetUserRoleResponse,
   GetUsersResponse
 } from '../../types/api';
+import type { ForumCategoryModerator } from '../../types/forum';
 import { UserRole } from '../../types/role';
 
 /**
@@ -42,7 +43,7 @@ export async function getUserRole(userId: string): Promise<GetUserRoleResponse>
 /**
  * Assign a role to a user (admin only)
  * @param userId - User ID to assign role to
- * @param role - Role to assign (UserRole.Admin | UserRole.Member)
+ * @param role - Role to assign (UserRole.Admin | UserRole.Moderator | UserRole.Member)
  * @returns Response with updated role information
  */
 export async function assignRole(
@@ -55,3 +56,45 @@ export async function assignRole(
     body
   );
 }
+
+/**
+ * List forum category moderator assignments (admin only)
+ * @param userId - Only list assignments of this user (optional)
+ * @returns Assignments with user and category names
+ */
+export async function listCategoryModerators(userId?: string): Promise<ForumCategoryModerator[]> {
+  const query = userId ? `?user_id=${encodeURIComponent(userId)}` : '';
+  const response = await apiGet<{ moderators: ForumCategoryModerator[] }>(
+    `/api/v1/admin/forums/moderators${query}`
+  );
+  return response.moderators;
+}
+
+/**
+ * Assign a moderator to a forum category (admin only)
+ * The user must already have the moderator role
+ * @param categoryId - Category to moderate
+ * @param userId - Moderator's user ID
+ * @returns The created assignment
+ */
+export async function assignCategoryModerator(
+  categoryId: string,
+  userId: string
+): Promise<ForumCategoryModerator> {
+  const response = await apiPost<{ moderator: ForumCategoryModerator }>(
+    `/api/v1/admin/forums/categories/${categoryId}/moderators`,
+    { user_id: userId }
+  );
+  return response.moderator;
+}
+
+/**
+ * Remove a moderator from a forum category (admin only)
+ * @param categoryId - Category the moderator is assigned to
+ * @param userId - Moderator's user ID
+ */
+export async function removeCategoryModerator(categoryId: string, userId: string): Promise<void> {
+  await apiDelete<{ success: boolean }>(
+    `/api/v1/admin/forums/categories/${categoryId}/moderators/${userId}`
+  );
+}
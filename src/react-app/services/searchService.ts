@@ -0,0 +1,30 @@
+import { apiGet } from './apiClient';
+import type { SearchParams, SearchResponse } from '../../types/search';
+
+/**
+ * Search Service
+ * Handles full-text search across forum threads, replies and blogs
+ */
+
+/**
+ * Search forum threads, replies and blogs
+ * @param params - Query text plus optional type, category, author and pagination filters
+ * @returns Ranked results with highlighted titles and snippets
+ */
+export async function search(params: SearchParams): Promise<SearchResponse> {
+  const query = new URLSearchParams();
+  query.set('q', params.q);
+  if (params.type) {
+    query.set('type', params.type);
+  }
+  if (params.category_id) {
+    query.set('category_id', params.category_id);
+  }
+  if (params.author_id) {
+    query.set('author_id', params.author_id);
+  }
+  query.set('limit', (params.limit || 20).toString());
+  query.set('offset', (params.offset || 0).toString());
+
+  return apiGet<SearchResponse>(`/api/v1/search?${query.toString()}`);
+}
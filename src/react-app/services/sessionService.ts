@@ -0,0 +1,43 @@
+import { apiGet, apiPost, apiDelete } from './apiClient';
+import type { GetSessionsResponse, UserSession } from '../../types/user';
+
+/**
+ * Session Service
+ * Handles the devices a user is signed in on
+ */
+
+/**
+ * List the signed-in user's active sessions, most recently used first
+ * @returns Sessions, with the one making this request marked as current
+ */
+export async function getSessions(): Promise<UserSession[]> {
+  const response = await apiGet<GetSessionsResponse>('/api/v1/auth/sessions');
+  return response.sessions;
+}
+
+/**
+ * Sign one of the user's sessions out
+ * @param sessionId - Session to revoke; revoking the current one signs this device out
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await apiDelete<{ success: boolean }>(`/api/v1/auth/sessions/${sessionId}`);
+}
+
+/**
+ * Sign out every session except the current one
+ * @returns Number of sessions revoked
+ */
+export async function revokeOtherSessions(): Promise<number> {
+  const response = await apiPost<{ success: boolean; revoked: number }>('/api/v1/auth/sessions/revoke-others');
+  return response.revoked;
+}
+
+/**
+ * Sign a user out on every device (admin only)
+ * @param userId - User to sign out
+ * @returns Number of sessions revoked
+ */
+export async function revokeUserSessions(userId: string): Promise<number> {
+  const response = await apiDelete<{ success: boolean; revoked: number }>(`/api/v1/admin/users/${userId}/sessions`);
+  return response.revoked;
+}
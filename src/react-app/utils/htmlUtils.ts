@@ -24,6 +24,18 @@ export function stripHtml(html: string): string {
   return (div.textContent || div.innerText || '').trim();
 }
 
+/**
+ * Get plain text from HTML with a line break after each paragraph, list item and line break
+ * Keeps the text of separate blocks apart, e.g. when comparing two versions of a post
+ */
+export function htmlToPlainText(html: string): string {
+  return stripHtml(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|li|div|h[1-6]|blockquote|pre)>/gi, '$&\n')
+  );
+}
+
 /**
  * Check if HTML content is effectively empty
  * Returns true if content is empty or contains only whitespace/empty tags
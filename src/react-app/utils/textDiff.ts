@@ -0,0 +1,98 @@
+/**
+ * Word-level text diff
+ * Used to show what changed between two versions of a forum post
+ */
+
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+// Above this many word pairs the changed middle is shown as one removal and one addition
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Split text into words and the whitespace between them, so joining the tokens gives the text back
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '');
+}
+
+/**
+ * Append a token to the diff, merging it into the previous part when the type is the same
+ */
+function push(parts: DiffPart[], type: DiffPartType, text: string): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Compare two texts word by word
+ * Returns the parts of both texts in order: unchanged, only in before (removed) and only in after (added)
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  // Skip the common start and end; edits usually touch a small part of a post
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    push(parts, 'equal', a[start]);
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    push(parts, 'removed', a.slice(start, endA).join(''));
+    push(parts, 'added', b.slice(start, endB).join(''));
+  } else {
+    // lcs[i * (cols + 1) + j] is the longest common subsequence of a[start + i..endA) and b[start + j..endB)
+    const lcs = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * (cols + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (a[start + i] === b[start + j]) {
+        push(parts, 'equal', a[start + i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1]) {
+        push(parts, 'removed', a[start + i]);
+        i++;
+      } else {
+        push(parts, 'added', b[start + j]);
+        j++;
+      }
+    }
+    for (; i < rows; i++) push(parts, 'removed', a[start + i]);
+    for (; j < cols; j++) push(parts, 'added', b[start + j]);
+  }
+
+  for (let k = endA; k < a.length; k++) {
+    push(parts, 'equal', a[k]);
+  }
+
+  return parts;
+}
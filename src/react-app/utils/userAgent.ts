@@ -0,0 +1,46 @@
+/**
+ * User agent utilities
+ */
+
+export interface DeviceDescription {
+  browser: string | null;
+  os: string | null;
+}
+
+// Checked in order: Edge, Opera and WeChat also claim to be Chrome or Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/micromessenger/i, 'WeChat'],
+  [/edg(e|a|ios)?\//i, 'Edge'],
+  [/(opr|opera)\//i, 'Opera'],
+  [/firefox|fxios/i, 'Firefox'],
+  [/chrome|crios/i, 'Chrome'],
+  [/safari/i, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iphone|ipad|ipod/i, 'iOS'],
+  [/android/i, 'Android'],
+  [/windows/i, 'Windows'],
+  [/mac os x|macintosh/i, 'macOS'],
+  [/cros/i, 'ChromeOS'],
+  [/linux/i, 'Linux'],
+];
+
+/**
+ * Describe the browser and operating system of a user agent, e.g. for the sessions page
+ * @param userAgent User-Agent header recorded at sign-in
+ * @returns Browser and OS names, null when not recognised
+ */
+export function describeUserAgent(userAgent: string | null | undefined): DeviceDescription {
+  if (!userAgent) {
+    return { browser: null, os: null };
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent));
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent));
+
+  return {
+    browser: browser ? browser[1] : null,
+    os: os ? os[1] : null,
+  };
+}
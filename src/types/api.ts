@@ -1,7 +1,8 @@
 import { MentorProfile } from './mentor';
+import { AvailabilitySlot } from './availability';
 import { Match, MatchStatus } from './match';
 import { UserRole } from './role';
-import { UserPointsWithRank } from './points';
+import { UserPointsWithRank, PointsTransaction, LeaderboardPeriod, LeaderboardSource } from './points';
 import { Blog, BlogWithAuthor, BlogWithLikeStatus, BlogCommentWithAuthor } from './blog';
 
 // User API
@@ -68,6 +69,16 @@ export interface UpdateMentorProfileRequest {
   linkedin_url?: string | null; // LinkedIn profile URL
 }
 
+// Availability API
+export interface UpdateAvailabilitySlotsRequest {
+  timezone: string; // IANA timezone shared by all slots
+  slots: Array<Omit<AvailabilitySlot, 'timezone'>>;
+}
+
+export interface AvailabilitySlotsResponse {
+  slots: AvailabilitySlot[];
+}
+
 // Search API
 export interface SearchMentorsRequest {
   mentoring_levels?: number; // Bit flags to filter - which levels mentor can guide
@@ -77,6 +88,12 @@ export interface SearchMentorsRequest {
   hourly_rate_max?: number;
   hourly_rate_min?: number;
   nick_name?: string;
+  available_day?: number; // 0 = Sunday ... 6 = Saturday
+  available_start?: string; // "HH:MM" in `timezone`
+  available_end?: string; // "HH:MM" in `timezone`
+  timezone?: string; // IANA timezone of the requested window (default: UTC)
+  min_rating?: number; // Minimum average rating (1-5)
+  sort?: 'newest' | 'rating'; // Default: newest
   limit?: number;
   offset?: number;
 }
@@ -117,6 +134,11 @@ export interface UpdateUserPointsRequest {
   points: number; // Points to set (internal use only, admin)
 }
 
+export interface GetPointsHistoryResponse {
+  transactions: PointsTransaction[];
+  total: number;
+}
+
 export interface UserPointsResponse {
   userId: string;
   points: number;
@@ -134,6 +156,19 @@ export interface LeaderboardEntry {
 export interface GetLeaderboardRequest {
   limit?: number; // Default: 50, max: 100
   offset?: number; // Default: 0
+  period?: LeaderboardPeriod; // Default: all
+  source?: LeaderboardSource; // Default: all
+  start?: number; // Unix timestamp: any time in the week/month to show, or the start of a custom range
+  end?: number; // Unix timestamp: end of a custom range
+}
+
+// The window a leaderboard was computed over
+export interface LeaderboardWindow {
+  period: LeaderboardPeriod;
+  source: LeaderboardSource;
+  start: number | null; // Inclusive, null for all-time boards
+  end: number | null; // Exclusive, null for all-time boards
+  is_final: boolean; // True once a week/month has closed and its board is snapshotted
 }
 
 export interface GetLeaderboardResponse {
@@ -141,6 +176,20 @@ export interface GetLeaderboardResponse {
   total: number;
   limit: number;
   offset: number;
+  window: LeaderboardWindow;
+  current_user: LeaderboardEntry | null; // Signed-in caller's entry, even when not on this page
+}
+
+export interface LeaderboardWinnersPeriod {
+  start: number;
+  end: number;
+  winners: LeaderboardEntry[];
+}
+
+export interface GetLeaderboardWinnersResponse {
+  period: LeaderboardPeriod;
+  source: LeaderboardSource;
+  periods: LeaderboardWinnersPeriod[]; // Newest first
 }
 
 // Blogs API
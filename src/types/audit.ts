@@ -0,0 +1,123 @@
+// Privileged actions recorded in the admin audit log
+export enum AuditAction {
+  UserPointsUpdate = 'user.points.update',
+  BadgeAward = 'user.badge.award',
+  BadgeRevoke = 'user.badge.revoke',
+  RoleAssign = 'role.assign',
+  FeatureCreate = 'feature.create',
+  FeatureUpdate = 'feature.update',
+  FeatureDelete = 'feature.delete',
+  BlogFeature = 'blog.feature',
+  SubmissionApprove = 'submission.approve',
+  SubmissionReject = 'submission.reject',
+  ThreadPin = 'forum.thread.pin',
+  ThreadMove = 'forum.thread.move',
+  ThreadDelete = 'forum.thread.delete',
+  ThreadRestore = 'forum.thread.restore',
+  ThreadMerge = 'forum.thread.merge',
+  CategoryModeratorAssign = 'forum.moderator.assign',
+  CategoryModeratorRemove = 'forum.moderator.remove',
+  RewardCreate = 'reward.create',
+  RewardUpdate = 'reward.update',
+  RedemptionUpdate = 'reward.redemption.update',
+  InviteCreate = 'invite.create',
+  InviteRevoke = 'invite.revoke',
+  WaitlistUpdate = 'waitlist.update',
+  SessionsRevoke = 'user.sessions.revoke',
+  EventCreate = 'event.create',
+  EventUpdate = 'event.update',
+  EventDelete = 'event.delete',
+}
+
+// Kinds of records an audited action changes
+export enum AuditTargetType {
+  User = 'user',
+  FeatureFlag = 'feature_flag',
+  Blog = 'blog',
+  ChallengeSubmission = 'challenge_submission',
+  ForumThread = 'forum_thread',
+  Reward = 'reward',
+  RewardRedemption = 'reward_redemption',
+  InviteCode = 'invite_code',
+  WaitlistEntry = 'waitlist_entry',
+  Event = 'event',
+}
+
+// Maximum entries returned per page of the audit log
+export const MAX_AUDIT_LOG_PAGE_SIZE = 100;
+
+// One privileged action; before/after hold only the fields the action changed
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  before: Record<string, unknown> | null; // null when the target was created
+  after: Record<string, unknown> | null; // null when the target was deleted
+  created_at: number; // Unix timestamp
+  actor_name?: string; // Populated by API
+}
+
+// Response of GET /api/v1/admin/audit-log
+export interface GetAuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+}
+
+// Filters of GET /api/v1/admin/audit-log
+export interface AuditLogFilters {
+  actor_id?: string;
+  action?: AuditAction;
+  target_type?: AuditTargetType;
+  target_id?: string;
+  from?: number; // Unix timestamp, inclusive
+  to?: number; // Unix timestamp, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Check if a value is an audited action
+ */
+export function isAuditAction(value: unknown): value is AuditAction {
+  return Object.values(AuditAction).includes(value as AuditAction);
+}
+
+/**
+ * Check if a value is an audit target type
+ */
+export function isAuditTargetType(value: unknown): value is AuditTargetType {
+  return Object.values(AuditTargetType).includes(value as AuditTargetType);
+}
+
+/**
+ * Parse a stored before/after snapshot
+ */
+function parseSnapshot(value: unknown): Record<string, unknown> | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert an admin_audit_log row from the database into an AuditLogEntry
+ */
+export function normalizeAuditLogEntry(row: Record<string, unknown>): AuditLogEntry {
+  return {
+    id: row.id as string,
+    actor_id: row.actor_id as string,
+    action: row.action as AuditAction,
+    target_type: row.target_type as AuditTargetType,
+    target_id: row.target_id as string,
+    before: parseSnapshot(row.before_json),
+    after: parseSnapshot(row.after_json),
+    created_at: row.created_at as number,
+    ...(row.actor_name ? { actor_name: row.actor_name as string } : {}),
+  };
+}
@@ -0,0 +1,225 @@
+// Mentor weekly availability types and timezone helpers
+// Shared by the worker (search filtering) and the React app (display in the viewer's timezone)
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Upper bound on recurring slots a single mentor can publish
+export const MAX_AVAILABILITY_SLOTS = 50;
+
+// Day of week, matching JavaScript's Date.getDay() (0 = Sunday)
+export enum DayOfWeek {
+  Sunday = 0,
+  Monday = 1,
+  Tuesday = 2,
+  Wednesday = 3,
+  Thursday = 4,
+  Friday = 5,
+  Saturday = 6,
+}
+
+// i18n keys for each day, indexed by DayOfWeek
+export const DAY_OF_WEEK_KEYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+/**
+ * A recurring weekly time slot
+ * start_minute/end_minute are minutes from midnight in `timezone` (end is exclusive, max 1440)
+ */
+export interface AvailabilitySlot {
+  day_of_week: DayOfWeek;
+  start_minute: number;
+  end_minute: number;
+  timezone: string; // IANA timezone, e.g. "America/Los_Angeles"
+}
+
+/**
+ * Check whether a string is an IANA timezone supported by the runtime
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the viewer's timezone from the runtime, falling back to UTC
+ */
+export function getLocalTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Get the UTC offset of a timezone in minutes (local = UTC + offset) at a given instant
+ * The instant matters because of daylight saving time
+ */
+export function getTimezoneOffsetMinutes(timeZone: string, at: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const localAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+
+  return Math.round((localAsUtc - at.getTime()) / 60000);
+}
+
+/**
+ * Parse "HH:MM" (24-hour) into minutes from midnight
+ * "24:00" is accepted as the end of the day
+ * @returns Minutes from midnight, or null if the string is invalid
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes !== 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes from midnight as "HH:MM" (24-hour)
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Validate the day and time range of a slot (timezone is validated separately)
+ */
+export function isValidSlotRange(slot: Pick<AvailabilitySlot, 'day_of_week' | 'start_minute' | 'end_minute'>): boolean {
+  return (
+    Number.isInteger(slot.day_of_week) &&
+    slot.day_of_week >= DayOfWeek.Sunday &&
+    slot.day_of_week <= DayOfWeek.Saturday &&
+    Number.isInteger(slot.start_minute) &&
+    Number.isInteger(slot.end_minute) &&
+    slot.start_minute >= 0 &&
+    slot.end_minute <= MINUTES_PER_DAY &&
+    slot.start_minute < slot.end_minute
+  );
+}
+
+/**
+ * Check whether any two slots overlap (slots are assumed to share a timezone)
+ */
+export function hasOverlappingSlots(slots: Pick<AvailabilitySlot, 'day_of_week' | 'start_minute' | 'end_minute'>[]): boolean {
+  const sorted = [...slots].sort(
+    (a, b) => a.day_of_week - b.day_of_week || a.start_minute - b.start_minute
+  );
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const current = sorted[i];
+    if (prev.day_of_week === current.day_of_week && current.start_minute < prev.end_minute) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Convert a slot into another timezone
+ * A slot can cross midnight once shifted, so the result may contain two slots on adjacent days
+ */
+export function convertSlotToTimezone(
+  slot: AvailabilitySlot,
+  targetTimezone: string,
+  at: Date = new Date()
+): AvailabilitySlot[] {
+  const shift =
+    getTimezoneOffsetMinutes(targetTimezone, at) - getTimezoneOffsetMinutes(slot.timezone, at);
+
+  let start =
+    (((slot.day_of_week * MINUTES_PER_DAY + slot.start_minute + shift) % MINUTES_PER_WEEK) +
+      MINUTES_PER_WEEK) %
+    MINUTES_PER_WEEK;
+  let remaining = slot.end_minute - slot.start_minute;
+
+  const converted: AvailabilitySlot[] = [];
+  while (remaining > 0) {
+    const day = Math.floor(start / MINUTES_PER_DAY);
+    const startOfDay = start - day * MINUTES_PER_DAY;
+    const length = Math.min(remaining, MINUTES_PER_DAY - startOfDay);
+    converted.push({
+      day_of_week: day as DayOfWeek,
+      start_minute: startOfDay,
+      end_minute: startOfDay + length,
+      timezone: targetTimezone,
+    });
+    start = (start + length) % MINUTES_PER_WEEK;
+    remaining -= length;
+  }
+
+  return converted;
+}
+
+/**
+ * Check whether a slot overlaps a requested time window, possibly in a different timezone
+ * Both are compared in UTC using the offsets in effect at `at`
+ */
+export function slotOverlapsWindow(
+  slot: AvailabilitySlot,
+  window: AvailabilitySlot,
+  at: Date = new Date()
+): boolean {
+  const slotRanges = convertSlotToTimezone(slot, 'UTC', at);
+  const windowRanges = convertSlotToTimezone(window, 'UTC', at);
+
+  return slotRanges.some((s) =>
+    windowRanges.some(
+      (w) =>
+        s.day_of_week === w.day_of_week &&
+        s.start_minute < w.end_minute &&
+        w.start_minute < s.end_minute
+    )
+  );
+}
+
+/**
+ * Sort slots by day of week then start time
+ */
+export function sortSlots<T extends Pick<AvailabilitySlot, 'day_of_week' | 'start_minute'>>(slots: T[]): T[] {
+  return [...slots].sort(
+    (a, b) => a.day_of_week - b.day_of_week || a.start_minute - b.start_minute
+  );
+}
@@ -0,0 +1,72 @@
+// Badge types
+// Badges are declared in BADGE_CATALOG; the worker's badge evaluator grants them from existing data
+
+export enum BadgeId {
+  FirstSolution = 'first_solution',
+  MentorshipsCompleted10 = 'mentorships_completed_10',
+  FeaturedBlog = 'featured_blog',
+  ChallengesApproved5 = 'challenges_approved_5',
+  ActivityStreak30 = 'activity_streak_30',
+}
+
+// What a badge's threshold is measured against
+export enum BadgeMetric {
+  AcceptedSolutions = 'accepted_solutions', // Replies marked as the solution to someone else's thread
+  CompletedMentorships = 'completed_mentorships', // Matches completed as the mentor
+  FeaturedBlogs = 'featured_blogs',
+  ApprovedChallengeSubmissions = 'approved_challenge_submissions',
+  ActivityStreakDays = 'activity_streak_days', // Longest run of consecutive UTC days with points earned
+}
+
+// A badge is earned once its metric reaches the threshold
+export interface BadgeDefinition {
+  id: BadgeId;
+  icon: string;
+  metric: BadgeMetric;
+  threshold: number;
+}
+
+// Names and descriptions live in the badges.catalog.<id> translation keys
+export const BADGE_CATALOG: readonly BadgeDefinition[] = [
+  { id: BadgeId.FirstSolution, icon: '✅', metric: BadgeMetric.AcceptedSolutions, threshold: 1 },
+  { id: BadgeId.MentorshipsCompleted10, icon: '🎓', metric: BadgeMetric.CompletedMentorships, threshold: 10 },
+  { id: BadgeId.FeaturedBlog, icon: '⭐', metric: BadgeMetric.FeaturedBlogs, threshold: 1 },
+  { id: BadgeId.ChallengesApproved5, icon: '🏆', metric: BadgeMetric.ApprovedChallengeSubmissions, threshold: 5 },
+  { id: BadgeId.ActivityStreak30, icon: '🔥', metric: BadgeMetric.ActivityStreakDays, threshold: 30 },
+];
+
+export function isBadgeId(value: unknown): value is BadgeId {
+  return Object.values(BadgeId).includes(value as BadgeId);
+}
+
+export function getBadgeDefinition(id: BadgeId): BadgeDefinition | undefined {
+  return BADGE_CATALOG.find((badge) => badge.id === id);
+}
+
+// A badge held by a user; revoked badges are never returned by the API
+export interface UserBadge {
+  user_id: string;
+  badge_id: BadgeId;
+  granted_at: number; // Unix timestamp
+  granted_by: string | null; // Admin who awarded it manually, null when earned
+}
+
+export function normalizeUserBadge(row: unknown): UserBadge {
+  const data = row as Record<string, unknown>;
+  return {
+    user_id: String(data.user_id),
+    badge_id: String(data.badge_id) as BadgeId,
+    granted_at: Number(data.granted_at),
+    granted_by: data.granted_by ? String(data.granted_by) : null,
+  };
+}
+
+// Response of GET /api/v1/users/:id/badges
+export interface GetUserBadgesResponse {
+  badges: UserBadge[];
+}
+
+// Body of POST /api/v1/users/:id/badges (admin)
+export interface AwardBadgeRequest {
+  badge_id: BadgeId;
+}
@@ -1,5 +1,7 @@
 // Blog types
 
+import type { BadgeId } from './badge';
+
 export interface Blog {
   id: string;
   user_id: string;
@@ -16,6 +18,7 @@ export interface Blog {
 export interface BlogWithAuthor extends Blog {
   author_name: string;
   author_email: string;
+  author_badges?: BadgeId[]; // Populated by blog listings
 }
 
 export interface BlogWithLikeStatus extends BlogWithAuthor {
@@ -1,3 +1,18 @@
+// Community event types
+// Admins manage events; members RSVP up to an event's capacity and join the waitlist once it
+// is full. Events imported from Luma keep their Luma page as an external link.
+
+// A member's RSVP; cancelled RSVPs are kept so the member can RSVP again
+export enum EventRsvpStatus {
+  Going = 'going',
+  Waitlisted = 'waitlisted', // Promoted to going, oldest first, when a spot opens up
+  Cancelled = 'cancelled',
+}
+
+export const MAX_EVENT_NAME_LENGTH = 200;
+export const MAX_EVENT_DESCRIPTION_LENGTH = 5000;
+export const MAX_EVENT_HOSTS = 10;
+
 export interface Host {
   name: string;
   username?: string;
@@ -22,7 +37,7 @@ export interface EventLocation {
 }
 
 export interface Event {
-  id: string; // API ID from Luma
+  id: string; // Imported events keep their API ID from Luma
   name: string;
   description?: string;
   start_at: string; // ISO 8601 timestamp
@@ -31,11 +46,93 @@ export interface Event {
   location: EventLocation;
   ticket_info: TicketInfo;
   hosts: Host[];
-  guest_count: number;
+  guest_count: number; // Members going, plus guests who registered on Luma
   ticket_count?: number;
   cover_image_url?: string;
-  luma_url: string; // Full URL to event on Luma
-  luma_slug: string; // Short slug for Luma URL (e.g., "o4f5akc4")
+  luma_url?: string; // Full URL to event on Luma, if it is also listed there
+  luma_slug?: string; // Short slug for Luma URL (e.g., "o4f5akc4")
+  capacity?: number | null; // Members who can RSVP, null for unlimited
+  waitlist_count?: number; // Populated by API
+  my_rsvp?: EventRsvpStatus | null; // Populated by API for the signed-in member
+}
+
+// A member's RSVP to an event
+export interface EventRsvp {
+  id: string;
+  event_id: string;
+  user_id: string;
+  status: EventRsvpStatus;
+  checked_in_at: number | null; // Unix timestamp
+  checked_in_by: string | null;
+  created_at: number; // Unix timestamp of the latest RSVP
+  updated_at: number; // Unix timestamp
+  user_name?: string; // Populated by API (attendee list)
+  user_email?: string; // Populated by API (attendee list)
+}
+
+// DTO for creating an event; prices are set through ticket_info
+export interface CreateEventDTO {
+  name: string;
+  description?: string;
+  start_at: string; // ISO 8601 timestamp
+  end_at: string; // ISO 8601 timestamp
+  timezone?: string;
+  location: EventLocation;
+  ticket_info?: Pick<TicketInfo, 'is_free' | 'price_cents' | 'currency'>;
+  capacity?: number | null;
+  hosts?: Host[];
+  cover_image_url?: string;
+  luma_url?: string;
+}
+
+// DTO for editing an event; omitted fields are left unchanged, null clears an optional field
+export interface UpdateEventDTO {
+  name?: string;
+  description?: string;
+  start_at?: string;
+  end_at?: string;
+  timezone?: string | null;
+  location?: EventLocation;
+  ticket_info?: Pick<TicketInfo, 'is_free' | 'price_cents' | 'currency'>;
+  capacity?: number | null;
+  hosts?: Host[];
+  cover_image_url?: string | null;
+  luma_url?: string | null;
+}
+
+// Response of GET /api/v1/events
+export interface GetEventsResponse {
+  events: Event[];
+}
+
+// Response of POST and DELETE /api/v1/events/:id/rsvp
+export interface EventRsvpResponse {
+  rsvp: EventRsvp;
+  event: Event;
+}
+
+// Response of GET /api/v1/admin/events/:id/attendees
+// Members going come first, then the waitlist in order
+export interface GetEventAttendeesResponse {
+  attendees: EventRsvp[];
+}
+
+// A member's personal calendar feed of the events they RSVP'd to
+export interface CalendarFeed {
+  created_at: number; // Unix timestamp
+  last_used_at: number | null; // Unix timestamp of the last fetch by a calendar app
+}
+
+// Response of GET /api/v1/events/calendar-feed
+export interface GetCalendarFeedResponse {
+  feed: CalendarFeed | null;
+}
+
+// Response of POST /api/v1/events/calendar-feed
+// The token is only returned here; the server keeps just its hash
+export interface CreateCalendarFeedResponse {
+  token: string;
+  feed: CalendarFeed;
 }
 
 export function formatEventDate(startAt: string): string {
@@ -85,3 +182,89 @@ export function formatPrice(event: Event): string {
 export function isUpcomingEvent(startAt: string): boolean {
   return new Date(startAt) > new Date();
 }
+
+/**
+ * Check if a value is a valid RSVP status
+ */
+export function isEventRsvpStatus(value: unknown): value is EventRsvpStatus {
+  return Object.values(EventRsvpStatus).includes(value as EventRsvpStatus);
+}
+
+/**
+ * Get the short slug of a Luma URL (e.g. "o4f5akc4" for https://luma.com/o4f5akc4)
+ */
+export function getLumaSlug(lumaUrl: string): string {
+  return lumaUrl.replace(/[?#].*$/, '').replace(/\/+$/, '').split('/').pop() || '';
+}
+
+function parseHosts(value: unknown): Host[] {
+  if (typeof value !== 'string' || !value) {
+    return [];
+  }
+  try {
+    const hosts = JSON.parse(value);
+    return Array.isArray(hosts) ? (hosts as Host[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert an event row from the database into an Event
+ * The row carries going_count and waitlist_count, and my_rsvp when a member is signed in
+ */
+export function normalizeEvent(row: Record<string, unknown>): Event {
+  const going = Number(row.going_count || 0);
+  const capacity = row.capacity === null || row.capacity === undefined ? null : Number(row.capacity);
+  const optional = (value: unknown) => (value === null || value === undefined || value === '' ? undefined : (value as string));
+  const lumaUrl = optional(row.luma_url);
+
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: optional(row.description),
+    start_at: new Date(Number(row.start_at) * 1000).toISOString(),
+    end_at: new Date(Number(row.end_at) * 1000).toISOString(),
+    timezone: optional(row.timezone),
+    location: {
+      location_type: row.location_type as EventLocation['location_type'],
+      address: optional(row.address),
+      city: optional(row.city),
+      region: optional(row.region),
+      country: optional(row.country),
+      full_address: optional(row.full_address),
+    },
+    ticket_info: {
+      is_free: Boolean(row.is_free),
+      price_cents: row.price_cents === null || row.price_cents === undefined ? undefined : Number(row.price_cents),
+      currency: optional(row.currency),
+      spots_remaining: capacity === null ? undefined : Math.max(capacity - going, 0),
+      is_sold_out: capacity !== null && going >= capacity,
+    },
+    hosts: parseHosts(row.hosts),
+    guest_count: Number(row.external_guest_count || 0) + going,
+    cover_image_url: optional(row.cover_image_url),
+    ...(lumaUrl ? { luma_url: lumaUrl, luma_slug: getLumaSlug(lumaUrl) } : {}),
+    capacity,
+    waitlist_count: Number(row.waitlist_count || 0),
+    my_rsvp: isEventRsvpStatus(row.my_rsvp) ? row.my_rsvp : null,
+  };
+}
+
+/**
+ * Convert an RSVP row from the database into an EventRsvp
+ */
+export function normalizeEventRsvp(row: Record<string, unknown>): EventRsvp {
+  return {
+    id: row.id as string,
+    event_id: row.event_id as string,
+    user_id: row.user_id as string,
+    status: row.status as EventRsvpStatus,
+    checked_in_at: row.checked_in_at === null || row.checked_in_at === undefined ? null : Number(row.checked_in_at),
+    checked_in_by: (row.checked_in_by as string | null) || null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    ...(row.user_name ? { user_name: row.user_name as string } : {}),
+    ...(row.user_email ? { user_email: row.user_email as string } : {}),
+  };
+}
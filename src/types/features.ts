@@ -3,10 +3,38 @@
  * Used for admin-controlled feature toggles
  */
 
+import { isAdmin } from './role';
+import type { UserRole } from './role';
+
+/**
+ * Who an enabled feature flag is turned on for
+ * A disabled flag is off for everyone regardless of its audience
+ */
+export enum FeatureAudience {
+  Everyone = 'everyone',
+  Admins = 'admins', // Signed-in users with the admin role
+  Users = 'users', // The user IDs listed in target_user_ids
+  Percentage = 'percentage', // A stable rollout_percentage of signed-in users, bucketed by user ID
+}
+
+/**
+ * Maximum number of user IDs a flag can target
+ */
+export const MAX_FEATURE_TARGET_USERS = 500;
+
+/**
+ * Targeting rules of a feature flag
+ */
+export interface FeatureTargeting {
+  audience: FeatureAudience;
+  target_user_ids: string[]; // Used by the users audience
+  rollout_percentage: number; // 0-100, used by the percentage audience
+}
+
 /**
  * Feature flag record from database
  */
-export interface FeatureFlag {
+export interface FeatureFlag extends FeatureTargeting {
   id: string;
   feature_key: string;
   display_name: string;
@@ -18,8 +46,9 @@ export interface FeatureFlag {
 
 /**
  * Request body for creating a new feature flag
+ * Targeting defaults to everyone
  */
-export interface FeatureFlagCreateRequest {
+export interface FeatureFlagCreateRequest extends Partial<FeatureTargeting> {
   feature_key: string;
   display_name: string;
   description?: string;
@@ -28,9 +57,10 @@ export interface FeatureFlagCreateRequest {
 
 /**
  * Request body for updating a feature flag
+ * Omitted fields are left unchanged; at least one is required
  */
-export interface FeatureFlagUpdateRequest {
-  enabled: boolean;
+export interface FeatureFlagUpdateRequest extends Partial<FeatureTargeting> {
+  enabled?: boolean;
 }
 
 /**
@@ -41,6 +71,36 @@ export interface EnabledFeatures {
   [key: string]: boolean;
 }
 
+/**
+ * Check if a value is a valid feature audience
+ */
+export function isFeatureAudience(value: unknown): value is FeatureAudience {
+  return Object.values(FeatureAudience).includes(value as FeatureAudience);
+}
+
+/**
+ * Parse the targeting columns of a feature flag row
+ * Rows from before targeting existed fall back to everyone
+ */
+export function normalizeFeatureTargeting(row: Record<string, unknown>): FeatureTargeting {
+  let targetUserIds: string[] = [];
+  if (typeof row.target_user_ids === 'string') {
+    try {
+      const parsed = JSON.parse(row.target_user_ids);
+      targetUserIds = Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      targetUserIds = [];
+    }
+  }
+
+  return {
+    audience: isFeatureAudience(row.audience) ? row.audience : FeatureAudience.Everyone,
+    target_user_ids: targetUserIds,
+    rollout_percentage:
+      row.rollout_percentage === undefined || row.rollout_percentage === null ? 100 : Number(row.rollout_percentage),
+  };
+}
+
 /**
  * Normalize a feature flag from database row to typed object
  * Converts SQLite INTEGER (0/1) to boolean
@@ -53,11 +113,52 @@ export function normalizeFeatureFlag(dbRow: unknown): FeatureFlag {
     display_name: row.display_name as string,
     description: row.description as string | null,
     enabled: Boolean(row.enabled), // SQLite stores as 0/1
+    ...normalizeFeatureTargeting(row),
     created_at: row.created_at as number,
     updated_at: row.updated_at as number,
   };
 }
 
+/**
+ * Stable rollout bucket (0-99) of a user for a feature
+ * Hashes the feature key with the user ID (32-bit FNV-1a) so each user keeps their bucket
+ * as the percentage grows, and different features roll out to different users
+ */
+export function getRolloutBucket(featureKey: string, userId: string): number {
+  const input = `${featureKey}:${userId}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * Check whether an enabled feature is on for a caller
+ * @param featureKey - Feature key, used to bucket percentage rollouts
+ * @param targeting - The flag's targeting rules
+ * @param user - The signed-in caller, or null for anonymous requests
+ */
+export function isFeatureTargeted(
+  featureKey: string,
+  targeting: FeatureTargeting,
+  user: { userId: string; role?: UserRole } | null
+): boolean {
+  switch (targeting.audience) {
+    case FeatureAudience.Everyone:
+      return true;
+    case FeatureAudience.Admins:
+      return user !== null && isAdmin(user.role);
+    case FeatureAudience.Users:
+      return user !== null && targeting.target_user_ids.includes(user.userId);
+    case FeatureAudience.Percentage:
+      return user !== null && getRolloutBucket(featureKey, user.userId) < targeting.rollout_percentage;
+    default:
+      return false;
+  }
+}
+
 /**
  * Validate feature key format
  * Must be lowercase alphanumeric with underscores only
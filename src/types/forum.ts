@@ -2,6 +2,8 @@
  * Forum-related type definitions
  */
 
+import type { BadgeId } from './badge';
+
 export interface ForumCategory {
   id: string;
   name: string;
@@ -18,6 +20,25 @@ export interface ForumCategoryWithChildren extends ForumCategory {
   children?: ForumCategory[];
 }
 
+// A moderator's assignment to a forum category
+export interface ForumCategoryModerator {
+  category_id: string;
+  user_id: string;
+  assigned_by: string | null; // Admin who made the assignment
+  created_at: number;
+  user_name?: string; // Populated by API
+  category_name?: string; // Populated by API
+}
+
+export interface MoveThreadRequest {
+  category_id: string;
+}
+
+// Merge a duplicate thread into another; the opening post and replies move to the target
+export interface MergeThreadRequest {
+  target_thread_id: string;
+}
+
 export interface ForumThread {
   id: string;
   category_id: string;
@@ -34,11 +55,16 @@ export interface ForumThread {
   last_activity_at: number;
   created_at: number;
   updated_at: number;
+  edited_at?: number | null; // Set once the title or content has been edited
+  edited_by?: string | null; // Author or moderator who made the last edit
+  deleted_at?: number | null; // Set when a moderator deletes the thread; only admins still see it
+  merged_into?: string | null; // Thread this one was merged into
 }
 
 export interface ForumThreadWithAuthor extends ForumThread {
   author_name: string;
   author_email: string;
+  author_badges?: BadgeId[]; // Populated by thread listings
 }
 
 export interface GetThreadsResponse {
@@ -56,6 +82,11 @@ export interface CreateThreadRequest {
   content: string;
 }
 
+export interface UpdateThreadRequest {
+  title?: string;
+  content?: string;
+}
+
 export interface ForumReply {
   id: string;
   thread_id: string;
@@ -67,6 +98,8 @@ export interface ForumReply {
   downvote_count: number;
   created_at: number;
   updated_at: number;
+  edited_at?: number | null; // Set once the content has been edited
+  edited_by?: string | null; // User who made the last edit
 }
 
 export interface ForumReplyWithAuthor extends ForumReply {
@@ -96,6 +129,22 @@ export interface UpdateReplyRequest {
   content: string;
 }
 
+// One version of an edited thread or reply
+export interface ForumRevision {
+  version: number; // 1 is the original post
+  title: string | null; // Only set for threads
+  content: string;
+  edited_by: string | null; // Who wrote this version
+  edited_by_name: string | null; // Populated by API
+  created_at: number; // When this version was written
+  is_current: boolean;
+}
+
+// Response of GET /api/v1/forums/threads/:id/revisions and GET /api/v1/forums/replies/:replyId/revisions
+export interface GetRevisionsResponse {
+  revisions: ForumRevision[]; // Oldest first; the last one is the current version
+}
+
 export interface ForumVote {
   id: string;
   votable_type: VotableType;
@@ -119,6 +168,7 @@ export enum ThreadStatus {
 }
 
 export type VotableType = 'thread' | 'reply';
+export type RevisionContentType = 'thread' | 'reply';
 export type VoteType = 'upvote' | 'downvote';
 
 /**
@@ -176,6 +226,10 @@ export function normalizeThread(thread: unknown): ForumThread {
     last_activity_at: Number(t.last_activity_at) || 0,
     created_at: Number(t.created_at) || 0,
     updated_at: Number(t.updated_at) || 0,
+    edited_at: t.edited_at ? Number(t.edited_at) : null,
+    edited_by: (t.edited_by as string | null) || null,
+    deleted_at: t.deleted_at ? Number(t.deleted_at) : null,
+    merged_into: (t.merged_into as string | null) || null,
   };
 }
 
@@ -192,5 +246,7 @@ export function normalizeReply(reply: unknown): ForumReply {
     downvote_count: Number(r.downvote_count) || 0,
     created_at: Number(r.created_at) || 0,
     updated_at: Number(r.updated_at) || 0,
+    edited_at: r.edited_at ? Number(r.edited_at) : null,
+    edited_by: (r.edited_by as string | null) || null,
   };
 }
@@ -0,0 +1,146 @@
+// Closed-beta registration types
+// While the public_registration flag is off, a new account needs an invite code from an
+// admin or an approved waitlist entry; existing members can always sign in
+
+import { DEFAULT_EMAIL_LOCALE } from './notification';
+
+// Waitlist lifecycle: pending until an admin approves or rejects it
+export enum WaitlistStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+}
+
+// Shape of a code people can enter; anything else in the OAuth state is ignored
+export const INVITE_CODE_PATTERN = /^[A-Za-z0-9]{4,32}$/;
+export const MAX_INVITE_USES = 1000;
+export const MAX_INVITE_NOTE_LENGTH = 200;
+export const MAX_WAITLIST_NAME_LENGTH = 100;
+export const MAX_WAITLIST_REASON_LENGTH = 500;
+
+// Maximum waitlist entries returned per page
+export const MAX_WAITLIST_PAGE_SIZE = 50;
+
+// An invite code an admin handed out
+export interface InviteCode {
+  id: string;
+  code: string;
+  note: string | null; // Who the code is for, admin-only
+  max_uses: number; // 1 for a single-use code
+  use_count: number; // Accounts created with the code
+  expires_at: number | null; // Unix timestamp after which it can't be used, null for never
+  revoked_at: number | null; // Unix timestamp
+  created_by: string;
+  created_at: number; // Unix timestamp
+  created_by_name?: string; // Populated by API
+}
+
+// Someone waiting for an account
+export interface WaitlistEntry {
+  id: string;
+  email: string; // Must match the Google account they sign in with
+  name: string;
+  reason: string | null; // Why they want to join
+  locale: string; // Language of the approval email
+  status: WaitlistStatus;
+  user_id: string | null; // Set once they sign up after approval
+  reviewed_by: string | null;
+  reviewed_at: number | null; // Unix timestamp
+  created_at: number; // Unix timestamp
+  updated_at: number; // Unix timestamp
+}
+
+// DTO for generating an invite code
+export interface CreateInviteCodeDTO {
+  max_uses?: number; // Default 1
+  expires_at?: number | null;
+  note?: string;
+}
+
+// DTO for joining the waitlist
+export interface JoinWaitlistDTO {
+  email: string;
+  name: string;
+  reason?: string;
+  locale?: string;
+}
+
+// DTO for approving or rejecting a waitlist entry
+export interface UpdateWaitlistEntryDTO {
+  status: WaitlistStatus.Approved | WaitlistStatus.Rejected;
+}
+
+// Response of GET /api/v1/admin/invites
+export interface GetInviteCodesResponse {
+  invites: InviteCode[];
+}
+
+// Response of GET /api/v1/admin/waitlist
+export interface GetWaitlistResponse {
+  entries: WaitlistEntry[];
+  total: number;
+}
+
+/**
+ * Check if a value is a valid waitlist status
+ */
+export function isWaitlistStatus(value: unknown): value is WaitlistStatus {
+  return Object.values(WaitlistStatus).includes(value as WaitlistStatus);
+}
+
+/**
+ * Normalize a code typed by a person: codes are case-insensitive
+ */
+export function normalizeInviteCodeInput(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check whether an invite code can still create an account at the given time
+ * @param invite - Invite code to check
+ * @param at - Unix timestamp (seconds)
+ */
+export function isInviteCodeUsable(invite: InviteCode, at: number): boolean {
+  return (
+    invite.revoked_at === null &&
+    (invite.expires_at === null || invite.expires_at > at) &&
+    invite.use_count < invite.max_uses
+  );
+}
+
+/**
+ * Convert an invite code row from the database into an InviteCode
+ */
+export function normalizeInviteCode(row: Record<string, unknown>): InviteCode {
+  return {
+    id: row.id as string,
+    code: row.code as string,
+    note: (row.note as string | null) || null,
+    max_uses: Number(row.max_uses),
+    use_count: Number(row.use_count),
+    expires_at: row.expires_at === null || row.expires_at === undefined ? null : Number(row.expires_at),
+    revoked_at: row.revoked_at === null || row.revoked_at === undefined ? null : Number(row.revoked_at),
+    created_by: row.created_by as string,
+    created_at: Number(row.created_at),
+    ...(row.created_by_name ? { created_by_name: row.created_by_name as string } : {}),
+  };
+}
+
+/**
+ * Convert a waitlist row from the database into a WaitlistEntry
+ */
+export function normalizeWaitlistEntry(row: Record<string, unknown>): WaitlistEntry {
+  return {
+    id: row.id as string,
+    email: row.email as string,
+    name: row.name as string,
+    reason: (row.reason as string | null) || null,
+    locale: (row.locale as string) || DEFAULT_EMAIL_LOCALE,
+    status: row.status as WaitlistStatus,
+    user_id: (row.user_id as string | null) || null,
+    reviewed_by: (row.reviewed_by as string | null) || null,
+    reviewed_at: (row.reviewed_at as number | null) ?? null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+  };
+}
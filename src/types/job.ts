@@ -0,0 +1,107 @@
+// Scheduled background job types
+// The worker's cron handler runs the jobs whose schedule matches the firing cron trigger;
+// admins can inspect the run history and start a job by hand
+
+// Registered jobs
+export enum ScheduledJobName {
+  HotScores = 'forum.hot_scores', // Recompute forum thread hot scores as they decay
+  ExpiredChallenges = 'challenges.complete_expired', // Complete active challenges past their deadline
+  LeaderboardSnapshots = 'leaderboard.snapshot_closed_periods', // Freeze the boards of the week and month that just closed
+  StaleMatchRequests = 'matches.expire_pending', // Close pending match requests nobody answered
+  ThreadViewPurge = 'forum.purge_thread_views', // Delete old forum_thread_views rows
+  ForumCounters = 'forum.recount_counters', // Repair drifted reply and vote counters
+  DailyDigest = 'notifications.daily_digest', // Email the daily notification digest
+}
+
+// How a run was started
+export enum JobTrigger {
+  Cron = 'cron',
+  Manual = 'manual',
+}
+
+// Run lifecycle; "skipped" means another run of the job held the lock
+export enum JobRunStatus {
+  Running = 'running',
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+  Skipped = 'skipped',
+}
+
+// Pending match requests older than this are closed as declined
+export const PENDING_MATCH_EXPIRY_DAYS = 30;
+
+// forum_thread_views rows older than this are deleted; view_count on the thread is kept
+export const THREAD_VIEW_RETENTION_DAYS = 90;
+
+// Maximum runs returned per page of the run history
+export const MAX_JOB_RUNS_PAGE_SIZE = 100;
+
+// One run of a job
+export interface JobRun {
+  id: string;
+  job_name: ScheduledJobName;
+  trigger: JobTrigger;
+  triggered_by: string | null; // Admin who started a manual run
+  status: JobRunStatus;
+  processed_count: number; // Rows the job updated or deleted
+  error: string | null;
+  started_at: number; // Unix timestamp
+  finished_at: number | null; // Unix timestamp, null while running
+  triggered_by_name?: string; // Populated by API
+}
+
+// A registered job with its latest run
+export interface ScheduledJobInfo {
+  name: ScheduledJobName;
+  schedule: string; // Cron expression of the trigger that runs it (UTC)
+  locked_until: number | null; // Unix timestamp while a run holds the lock
+  last_run: JobRun | null;
+}
+
+// Response of GET /api/v1/admin/jobs
+export interface GetScheduledJobsResponse {
+  jobs: ScheduledJobInfo[];
+}
+
+// Response of GET /api/v1/admin/jobs/runs
+export interface GetJobRunsResponse {
+  runs: JobRun[];
+  total: number;
+}
+
+// Response of POST /api/v1/admin/jobs/:name/run
+export interface RunJobResponse {
+  run: JobRun;
+}
+
+/**
+ * Check if a value is a registered job name
+ */
+export function isScheduledJobName(value: unknown): value is ScheduledJobName {
+  return Object.values(ScheduledJobName).includes(value as ScheduledJobName);
+}
+
+/**
+ * Check if a value is a valid run status
+ */
+export function isJobRunStatus(value: unknown): value is JobRunStatus {
+  return Object.values(JobRunStatus).includes(value as JobRunStatus);
+}
+
+/**
+ * Convert a run row from the database into a JobRun
+ */
+export function normalizeJobRun(row: Record<string, unknown>): JobRun {
+  return {
+    id: row.id as string,
+    job_name: row.job_name as ScheduledJobName,
+    trigger: row.trigger as JobTrigger,
+    triggered_by: (row.triggered_by as string | null) || null,
+    status: row.status as JobRunStatus,
+    processed_count: Number(row.processed_count || 0),
+    error: (row.error as string | null) || null,
+    started_at: Number(row.started_at),
+    finished_at: row.finished_at === null || row.finished_at === undefined ? null : Number(row.finished_at),
+    ...(row.triggered_by_name ? { triggered_by_name: row.triggered_by_name as string } : {}),
+  };
+}
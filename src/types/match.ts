@@ -14,6 +14,9 @@ export interface Match {
   introduction: string;
   preferred_time: string;
   cv_included?: number;  // 0 or 1, whether mentee included CV with request
+  mentor_allow_reviews?: number;  // 0 or 1, whether the mentor accepts reviews
+  has_review?: number;  // 0 or 1, whether the mentee already reviewed this match
+  unread_message_count?: number;  // Messages to the current user that are still unread
   created_at: number;
   updated_at: number;
 }
@@ -1,3 +1,5 @@
+import type { AvailabilitySlot } from './availability';
+
 // Bit flag enums
 export enum MentoringLevel {
   Entry = 1,       // 0001 (2^0)
@@ -41,7 +43,7 @@ export interface MentorProfile {
   nick_name: string;
   bio: string;
   mentoring_levels: number; // Bit flags - now represents "which levels can this mentor guide"
-  availability: string | null; // Free text description
+  availability: string | null; // Optional free text note alongside the structured slots
   hourly_rate: number | null;
   payment_types: number; // Bit flags
   expertise_domains: number; // Bit flags - mentor's professional domains
@@ -49,6 +51,9 @@ export interface MentorProfile {
   allow_reviews: boolean;
   allow_recording: boolean;
   linkedin_url: string | null; // LinkedIn profile URL
+  availability_slots?: AvailabilitySlot[]; // Recurring weekly slots, each in the mentor's timezone
+  average_rating?: number | null; // Mean star rating; null without reviews or when reviews are turned off
+  review_count?: number;
   created_at: number;
   updated_at: number;
 }
@@ -0,0 +1,47 @@
+// Maximum length of a single message (after sanitization)
+export const MAX_MESSAGE_LENGTH = 5000;
+
+// Default and maximum messages returned per page
+export const DEFAULT_MESSAGES_PAGE_SIZE = 50;
+export const MAX_MESSAGES_PAGE_SIZE = 100;
+
+// Private message between the two participants of a match
+export interface MatchMessage {
+  id: string;
+  match_id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string; // Sanitized HTML
+  read_at: number | null; // Unix timestamp when the recipient read it (read receipt)
+  created_at: number; // Unix timestamp
+  sender_name?: string; // Populated by API
+}
+
+// DTO for sending a message
+export interface SendMessageDTO {
+  content: string;
+}
+
+// Response of GET /api/v1/matches/:id/messages
+// Messages are in chronological order; offset counts back from the newest message
+export interface GetMatchMessagesResponse {
+  messages: MatchMessage[];
+  total: number;
+  unread_count: number; // Messages to the current user that are still unread
+}
+
+/**
+ * Convert a message row from the database into a MatchMessage
+ */
+export function normalizeMatchMessage(row: Record<string, unknown>): MatchMessage {
+  return {
+    id: row.id as string,
+    match_id: row.match_id as string,
+    sender_id: row.sender_id as string,
+    recipient_id: row.recipient_id as string,
+    content: row.content as string,
+    read_at: (row.read_at as number | null) ?? null,
+    created_at: row.created_at as number,
+    ...(row.sender_name ? { sender_name: row.sender_name as string } : {}),
+  };
+}
@@ -0,0 +1,159 @@
+// In-app notification types
+// Each type has a localized message template (notifications.types.<type>), shared by the UI and emails
+export enum NotificationType {
+  MatchRequested = 'match_requested', // Mentor received a mentorship request
+  MatchAccepted = 'match_accepted', // Mentee's request was accepted
+  MatchRejected = 'match_rejected', // Mentee's request was declined
+  MatchExpired = 'match_expired', // Mentee's request was closed after going unanswered
+  ForumReply = 'forum_reply', // Someone replied to the user's thread
+  BlogComment = 'blog_comment', // Someone commented on the user's blog
+  SubmissionApproved = 'submission_approved', // Challenge submission was approved
+  SubmissionRejected = 'submission_rejected', // Challenge submission was rejected
+  ContentWarning = 'content_warning', // A moderator warned the user about reported content
+  EventSpotOpened = 'event_spot_opened', // A waitlisted member got a spot at an event
+}
+
+// Maximum notifications returned per page
+export const MAX_NOTIFICATIONS_PAGE_SIZE = 50;
+
+// Values interpolated into the notification message (actor name, thread title, ...)
+export type NotificationData = Record<string, string>;
+
+// Notification delivered to a single user
+export interface Notification {
+  id: string;
+  user_id: string; // Recipient
+  type: NotificationType;
+  actor_id: string | null; // User who triggered the notification, if any
+  data: NotificationData;
+  link: string | null; // Frontend path to open when the notification is clicked
+  read_at: number | null; // Unix timestamp, null while unread
+  created_at: number; // Unix timestamp
+}
+
+// DTO for creating a notification (server side only)
+export interface CreateNotificationDTO {
+  user_id: string;
+  type: NotificationType;
+  actor_id?: string | null;
+  data?: NotificationData;
+  link?: string | null;
+}
+
+// Response of GET /api/v1/notifications
+export interface GetNotificationsResponse {
+  notifications: Notification[];
+  unread_count: number;
+  total: number;
+}
+
+/**
+ * Convert a notification row from the database into a Notification
+ * The data column is stored as a JSON string
+ */
+export function normalizeNotification(row: Record<string, unknown>): Notification {
+  let data: NotificationData = {};
+  if (typeof row.data === 'string' && row.data) {
+    try {
+      data = JSON.parse(row.data) as NotificationData;
+    } catch {
+      data = {};
+    }
+  } else if (row.data && typeof row.data === 'object') {
+    data = row.data as NotificationData;
+  }
+
+  return {
+    id: row.id as string,
+    user_id: row.user_id as string,
+    type: row.type as NotificationType,
+    actor_id: (row.actor_id as string | null) || null,
+    data,
+    link: (row.link as string | null) || null,
+    read_at: (row.read_at as number | null) ?? null,
+    created_at: row.created_at as number,
+  };
+}
+
+// ============================================================================
+// Email delivery preferences
+// ============================================================================
+
+// How a notification type is delivered by email
+export enum EmailFrequency {
+  Immediate = 'immediate', // One email per notification
+  Daily = 'daily', // Bundled into the daily digest
+  Off = 'off', // In-app only
+}
+
+// Email frequency used when the user has not chosen one for a type
+export const DEFAULT_EMAIL_FREQUENCIES: Record<NotificationType, EmailFrequency> = {
+  [NotificationType.MatchRequested]: EmailFrequency.Immediate,
+  [NotificationType.MatchAccepted]: EmailFrequency.Immediate,
+  [NotificationType.MatchRejected]: EmailFrequency.Immediate,
+  [NotificationType.MatchExpired]: EmailFrequency.Immediate,
+  [NotificationType.ForumReply]: EmailFrequency.Daily,
+  [NotificationType.BlogComment]: EmailFrequency.Daily,
+  [NotificationType.SubmissionApproved]: EmailFrequency.Immediate,
+  [NotificationType.SubmissionRejected]: EmailFrequency.Immediate,
+  [NotificationType.ContentWarning]: EmailFrequency.Immediate,
+  [NotificationType.EventSpotOpened]: EmailFrequency.Immediate,
+};
+
+// The daily digest covers notifications created in this window (seconds)
+export const DIGEST_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Languages email templates are available in (same as the frontend translations)
+export const EMAIL_LOCALES = ['en', 'zh-CN'] as const;
+export type EmailLocale = typeof EMAIL_LOCALES[number];
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'zh-CN';
+
+// Response of GET /api/v1/notifications/preferences
+export interface NotificationPreferences {
+  locale: EmailLocale;
+  email: Record<NotificationType, EmailFrequency>;
+}
+
+// Request body of PUT /api/v1/notifications/preferences
+// Omitted types keep their current frequency
+export interface UpdateNotificationPreferencesDTO {
+  locale?: EmailLocale;
+  email?: Partial<Record<NotificationType, EmailFrequency>>;
+}
+
+/**
+ * Check if a value is a known notification type
+ */
+export function isNotificationType(value: unknown): value is NotificationType {
+  return Object.values(NotificationType).includes(value as NotificationType);
+}
+
+/**
+ * Check if a value is a valid email frequency
+ */
+export function isEmailFrequency(value: unknown): value is EmailFrequency {
+  return Object.values(EmailFrequency).includes(value as EmailFrequency);
+}
+
+/**
+ * Check if a value is a supported email locale
+ */
+export function isEmailLocale(value: unknown): value is EmailLocale {
+  return EMAIL_LOCALES.includes(value as EmailLocale);
+}
+
+/**
+ * Merge stored per-type frequencies over the defaults
+ * Unknown types or frequencies in the rows are ignored
+ */
+export function buildEmailPreferences(
+  rows: { type: string; email_frequency: string }[]
+): Record<NotificationType, EmailFrequency> {
+  const email = { ...DEFAULT_EMAIL_FREQUENCIES };
+  for (const row of rows) {
+    if (isNotificationType(row.type) && isEmailFrequency(row.email_frequency)) {
+      email[row.type] = row.email_frequency;
+    }
+  }
+  return email;
+}
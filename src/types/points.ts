@@ -22,6 +22,190 @@ export interface UserPointsWithRank extends UserPoints {
   rank?: number; // User's rank in leaderboard (1-indexed)
 }
 
+/**
+ * PointsActionType - Reason recorded with every balance change in the points ledger
+ * Reversal types record points taken back when the original action is undone
+ */
+export enum PointsActionType {
+  SignupBonus = 'signup_bonus',
+  OpeningBalance = 'opening_balance',
+  AdminAdjustment = 'admin_adjustment',
+  BlogCreated = 'blog_created',
+  BlogFeatured = 'blog_featured',
+  LikeReceived = 'like_received',
+  CommentCreated = 'comment_created',
+  CommentReceived = 'comment_received',
+  ThreadCreated = 'thread_created',
+  ReplyCreated = 'reply_created',
+  UpvoteReceived = 'upvote_received',
+  UpvoteReceivedReversed = 'upvote_received_reversed',
+  ReplyMarkedSolution = 'reply_marked_solution',
+  ReplyMarkedSolutionReversed = 'reply_marked_solution_reversed',
+  ThreadSolved = 'thread_solved',
+  ThreadSolvedReversed = 'thread_solved_reversed',
+  Thread100Views = 'thread_100_views',
+  Thread500Views = 'thread_500_views',
+  Thread1000Views = 'thread_1000_views',
+  ChallengeJoined = 'challenge_joined',
+  ChallengeSubmitted = 'challenge_submitted',
+  ChallengeApproved = 'challenge_approved',
+  RewardRedeemed = 'reward_redeemed',
+  RewardRefunded = 'reward_refunded',
+}
+
+/**
+ * Ledger type used when the points for an undone action are taken back
+ */
+export const POINTS_ACTION_REVERSALS = {
+  [PointsActionType.UpvoteReceived]: PointsActionType.UpvoteReceivedReversed,
+  [PointsActionType.ReplyMarkedSolution]: PointsActionType.ReplyMarkedSolutionReversed,
+  [PointsActionType.ThreadSolved]: PointsActionType.ThreadSolvedReversed,
+} as const;
+
+export type ReversiblePointsActionType = keyof typeof POINTS_ACTION_REVERSALS;
+
+/**
+ * Check whether a string is a known points action type
+ */
+export function isPointsActionType(value: unknown): value is PointsActionType {
+  return Object.values(PointsActionType).includes(value as PointsActionType);
+}
+
+/**
+ * Time window a leaderboard ranks points over
+ */
+export enum LeaderboardPeriod {
+  AllTime = 'all',
+  Week = 'week',
+  Month = 'month',
+  Custom = 'custom',
+}
+
+/**
+ * Periods that close and are snapshotted once they end
+ */
+export type ClosingLeaderboardPeriod = LeaderboardPeriod.Week | LeaderboardPeriod.Month;
+
+/**
+ * Where the points on a leaderboard were earned
+ */
+export enum LeaderboardSource {
+  All = 'all',
+  Forum = 'forum',
+  Blogs = 'blogs',
+  Challenges = 'challenges',
+}
+
+/**
+ * Action types counted by each per-source leaderboard
+ * Windowed boards only count points earned through activity, so signup bonuses,
+ * opening balances and admin adjustments never appear on them.
+ */
+export const LEADERBOARD_SOURCE_ACTIONS: Record<Exclude<LeaderboardSource, LeaderboardSource.All>, PointsActionType[]> = {
+  [LeaderboardSource.Forum]: [
+    PointsActionType.ThreadCreated,
+    PointsActionType.ReplyCreated,
+    PointsActionType.UpvoteReceived,
+    PointsActionType.UpvoteReceivedReversed,
+    PointsActionType.ReplyMarkedSolution,
+    PointsActionType.ReplyMarkedSolutionReversed,
+    PointsActionType.ThreadSolved,
+    PointsActionType.ThreadSolvedReversed,
+    PointsActionType.Thread100Views,
+    PointsActionType.Thread500Views,
+    PointsActionType.Thread1000Views,
+  ],
+  [LeaderboardSource.Blogs]: [
+    PointsActionType.BlogCreated,
+    PointsActionType.BlogFeatured,
+    PointsActionType.LikeReceived,
+    PointsActionType.CommentCreated,
+    PointsActionType.CommentReceived,
+  ],
+  [LeaderboardSource.Challenges]: [
+    PointsActionType.ChallengeJoined,
+    PointsActionType.ChallengeSubmitted,
+    PointsActionType.ChallengeApproved,
+  ],
+};
+
+/**
+ * Action types counted by a windowed or per-source leaderboard
+ */
+export function getLeaderboardSourceActions(source: LeaderboardSource): PointsActionType[] {
+  if (source === LeaderboardSource.All) {
+    return Object.values(LEADERBOARD_SOURCE_ACTIONS).flat();
+  }
+  return LEADERBOARD_SOURCE_ACTIONS[source];
+}
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return Object.values(LeaderboardPeriod).includes(value as LeaderboardPeriod);
+}
+
+export function isLeaderboardSource(value: unknown): value is LeaderboardSource {
+  return Object.values(LeaderboardSource).includes(value as LeaderboardSource);
+}
+
+/**
+ * Get the UTC week (starting Monday) or calendar month containing a timestamp
+ * @param period - Week or month
+ * @param at - Unix timestamp (seconds) within the period
+ * @returns Period bounds in seconds; start is inclusive, end is exclusive
+ */
+export function getLeaderboardPeriodBounds(
+  period: ClosingLeaderboardPeriod,
+  at: number
+): { start: number; end: number } {
+  const date = new Date(at * 1000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (period === LeaderboardPeriod.Week) {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    const start = Date.UTC(year, month, date.getUTCDate() - daysSinceMonday) / 1000;
+    return { start, end: start + 7 * 24 * 60 * 60 };
+  }
+
+  return {
+    start: Date.UTC(year, month, 1) / 1000,
+    end: Date.UTC(year, month + 1, 1) / 1000,
+  };
+}
+
+/**
+ * PointsTransaction - One entry in a user's points ledger
+ * balance_after is null for entries recorded before balances were tracked
+ */
+export interface PointsTransaction {
+  id: string;
+  user_id: string;
+  action_type: PointsActionType;
+  reference_id: string;
+  points: number;
+  balance_after: number | null;
+  created_at: number;
+}
+
+/**
+ * Normalize a points ledger row from database
+ * @param dbRow - Raw point_actions_log row
+ * @returns Properly typed PointsTransaction
+ */
+export function normalizePointsTransaction(dbRow: unknown): PointsTransaction {
+  const data = dbRow as Record<string, unknown>;
+
+  return {
+    id: String(data.id || ''),
+    user_id: String(data.user_id || ''),
+    action_type: String(data.action_type || '') as PointsActionType,
+    reference_id: String(data.reference_id || ''),
+    points: Number(data.points_awarded || 0),
+    balance_after: data.balance_after === null || data.balance_after === undefined ? null : Number(data.balance_after),
+    created_at: Number(data.created_at || 0),
+  };
+}
+
 /**
  * Normalize user points from database
  * Ensures points are properly typed and handles edge cases
@@ -115,6 +299,22 @@ export const INITIAL_POINTS = 20;
  */
 export const MAX_POINTS = 999999;
 
+/**
+ * Maximum page size for a user's points history
+ */
+export const MAX_POINTS_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Number of closed periods returned by the past winners endpoint (default and maximum)
+ */
+export const DEFAULT_LEADERBOARD_WINNER_PERIODS = 12;
+export const MAX_LEADERBOARD_WINNER_PERIODS = 52;
+
+/**
+ * Number of top-ranked users listed as a closed period's winners
+ */
+export const LEADERBOARD_WINNERS_PER_PERIOD = 3;
+
 /**
  * Point Reward Constants for Content Engagement System
  * Creation-focused: Higher points for creating content, author rewards for engagement
@@ -136,6 +336,13 @@ export const POINTS_FOR_THREAD_100_VIEWS = 5; // Milestone: 100 views
 export const POINTS_FOR_THREAD_500_VIEWS = 15; // Milestone: 500 views
 export const POINTS_FOR_THREAD_1000_VIEWS = 30; // Milestone: 1000+ views
 
+// View milestones in ascending order; each is awarded once per thread when reached
+export const THREAD_VIEW_MILESTONES = [
+  { views: 100, points: POINTS_FOR_THREAD_100_VIEWS, actionType: PointsActionType.Thread100Views },
+  { views: 500, points: POINTS_FOR_THREAD_500_VIEWS, actionType: PointsActionType.Thread500Views },
+  { views: 1000, points: POINTS_FOR_THREAD_1000_VIEWS, actionType: PointsActionType.Thread1000Views },
+] as const;
+
 // Points awarded to content authors for receiving engagement
 export const POINTS_FOR_RECEIVING_LIKE = 2; // Post author receives when someone likes their post
 export const POINTS_FOR_RECEIVING_COMMENT = 3; // Post author receives when someone comments on their post
@@ -160,6 +367,21 @@ export const BLOGS_CREATED_FULL_POINTS_THRESHOLD = 2;
 export const BLOGS_CREATED_REDUCED_POINTS_THRESHOLD = 4; // 2 + 2
 export const BLOGS_CREATED_REDUCED_MULTIPLIER = 0.5;
 
+// Forum threads created: First 3 = full points, next 2 = 50% points, then 0
+export const THREADS_CREATED_FULL_POINTS_THRESHOLD = 3;
+export const THREADS_CREATED_REDUCED_POINTS_THRESHOLD = 5; // 3 + 2
+export const THREADS_CREATED_REDUCED_MULTIPLIER = 0.5;
+
+// Forum replies created: First 10 = full points, next 10 = 40% points, then 0
+export const REPLIES_CREATED_FULL_POINTS_THRESHOLD = 10;
+export const REPLIES_CREATED_REDUCED_POINTS_THRESHOLD = 20; // 10 + 10
+export const REPLIES_CREATED_REDUCED_MULTIPLIER = 0.4;
+
+// Forum upvotes received (threads and replies combined): First 5 = full points, next 10 = 50% points, then 0
+export const UPVOTES_RECEIVED_FULL_POINTS_THRESHOLD = 5;
+export const UPVOTES_RECEIVED_REDUCED_POINTS_THRESHOLD = 15; // 5 + 10
+export const UPVOTES_RECEIVED_REDUCED_MULTIPLIER = 0.5;
+
 // Time window for diminishing returns (in seconds): 1 hour
 export const DIMINISHING_RETURNS_WINDOW_SECONDS = 3600;
 
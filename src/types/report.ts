@@ -0,0 +1,149 @@
+// Kinds of user content that can be reported
+export enum ReportTargetType {
+  Thread = 'thread',
+  Reply = 'reply',
+  Blog = 'blog',
+  BlogComment = 'blog_comment',
+}
+
+// Why the content was reported
+export enum ReportReason {
+  Spam = 'spam',
+  Harassment = 'harassment',
+  Inappropriate = 'inappropriate',
+  Misinformation = 'misinformation',
+  Other = 'other',
+}
+
+// Report lifecycle: open until an admin dismisses it or acts on the content
+export enum ReportStatus {
+  Open = 'open',
+  Dismissed = 'dismissed', // No action needed
+  Resolved = 'resolved', // Content was hidden, deleted or its author warned
+}
+
+// Actions an admin can take on reported content
+export enum ModerationActionType {
+  Dismiss = 'dismiss', // Close the reports, leave the content as is
+  Hide = 'hide', // Hide the content from everyone but admins
+  Delete = 'delete', // Delete the content
+  Warn = 'warn', // Send the author a warning notification
+}
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+export const MAX_MODERATION_NOTE_LENGTH = 1000;
+
+// Maximum report groups returned per page of the moderation queue
+export const MAX_REPORT_GROUPS_PAGE_SIZE = 50;
+
+// Content shown in place of hidden replies and blog comments so threads keep their structure
+export const HIDDEN_CONTENT_PLACEHOLDER = '[hidden]';
+
+// A single user's report of a piece of content
+export interface ContentReport {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  resolved_by: string | null; // Admin who closed the report
+  resolved_at: number | null; // Unix timestamp
+  created_at: number; // Unix timestamp
+  reporter_name?: string; // Populated by API
+}
+
+// DTO for reporting content
+export interface CreateReportDTO {
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+// Summary of the reported content shown in the moderation queue
+export interface ReportedContent {
+  title: string; // Thread/blog title; for replies and comments, the title of the parent thread/blog
+  excerpt: string; // Plain text
+  author_id: string;
+  author_name: string;
+  link: string; // In-app path to the content
+  hidden: boolean;
+}
+
+// Open reports about one piece of content
+export interface ReportGroup {
+  target_type: ReportTargetType;
+  target_id: string;
+  report_count: number;
+  first_reported_at: number;
+  last_reported_at: number;
+  content: ReportedContent | null; // null when the content no longer exists
+  reports: ContentReport[]; // Newest first
+}
+
+// Response of GET /api/v1/admin/reports
+export interface GetReportGroupsResponse {
+  groups: ReportGroup[];
+  total: number; // Number of groups
+}
+
+// Request body of POST /api/v1/admin/reports/:targetType/:targetId/actions
+export interface ModerationActionDTO {
+  action: ModerationActionType;
+  note?: string; // Included in the warning sent to the author
+}
+
+// Record of an admin moderation action
+export interface ModerationAction {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  action: ModerationActionType;
+  admin_id: string;
+  author_id: string | null;
+  note: string | null;
+  reports_closed: number;
+  created_at: number; // Unix timestamp
+}
+
+/**
+ * Check if a value is a reportable content type
+ */
+export function isReportTargetType(value: unknown): value is ReportTargetType {
+  return Object.values(ReportTargetType).includes(value as ReportTargetType);
+}
+
+/**
+ * Check if a value is a valid report reason
+ */
+export function isReportReason(value: unknown): value is ReportReason {
+  return Object.values(ReportReason).includes(value as ReportReason);
+}
+
+/**
+ * Check if a value is a valid moderation action
+ */
+export function isModerationActionType(value: unknown): value is ModerationActionType {
+  return Object.values(ModerationActionType).includes(value as ModerationActionType);
+}
+
+/**
+ * Convert a report row from the database into a ContentReport
+ */
+export function normalizeContentReport(row: Record<string, unknown>): ContentReport {
+  return {
+    id: row.id as string,
+    target_type: row.target_type as ReportTargetType,
+    target_id: row.target_id as string,
+    reporter_id: row.reporter_id as string,
+    reason: row.reason as ReportReason,
+    details: (row.details as string | null) || null,
+    status: row.status as ReportStatus,
+    resolved_by: (row.resolved_by as string | null) || null,
+    resolved_at: (row.resolved_at as number | null) ?? null,
+    created_at: row.created_at as number,
+    ...(row.reporter_name ? { reporter_name: row.reporter_name as string } : {}),
+  };
+}
@@ -0,0 +1,55 @@
+// Star rating bounds for mentor reviews
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+// Review a mentee left for the mentor of one of their completed matches
+export interface MentorReview {
+  id: string;
+  match_id: string; // One review per match
+  mentor_id: string; // Mentor's user ID
+  mentee_id: string; // Reviewer's user ID
+  rating: number; // 1-5 stars
+  comment: string;
+  created_at: number; // Unix timestamp
+  updated_at: number; // Unix timestamp
+  // Additional fields populated by queries
+  mentee_name?: string;
+}
+
+// DTO for reviewing a completed match
+export interface CreateReviewDTO {
+  rating: number;
+  comment: string;
+}
+
+// Reviews of a mentor together with their aggregates
+export interface MentorReviewsResponse {
+  reviews: MentorReview[];
+  average_rating: number | null; // null until the first review
+  review_count: number;
+}
+
+/**
+ * Check that a rating is a whole number of stars between MIN_RATING and MAX_RATING
+ */
+export function isValidRating(rating: unknown): rating is number {
+  return typeof rating === 'number' && Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+/**
+ * Convert a review row from the database into a MentorReview
+ */
+export function normalizeMentorReview(row: Record<string, unknown>): MentorReview {
+  return {
+    id: row.id as string,
+    match_id: row.match_id as string,
+    mentor_id: row.mentor_id as string,
+    mentee_id: row.mentee_id as string,
+    rating: row.rating as number,
+    comment: (row.comment as string) || '',
+    created_at: row.created_at as number,
+    updated_at: row.updated_at as number,
+    ...(row.mentee_name !== undefined && { mentee_name: row.mentee_name as string }),
+  };
+}
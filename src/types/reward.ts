@@ -0,0 +1,173 @@
+// Rewards store types
+// Members spend points on rewards from an admin-managed catalog (event tickets, a free
+// mentor session, swag); each redemption then moves through the admin fulfillment queue
+
+// Redemption lifecycle: pending until an admin approves it, fulfilled once delivered.
+// A refund returns the points and the stock.
+export enum RedemptionStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Fulfilled = 'fulfilled',
+  Refunded = 'refunded',
+}
+
+// Statuses an admin can move a redemption to from each status
+export const REDEMPTION_TRANSITIONS: Record<RedemptionStatus, RedemptionStatus[]> = {
+  [RedemptionStatus.Pending]: [RedemptionStatus.Approved, RedemptionStatus.Refunded],
+  [RedemptionStatus.Approved]: [RedemptionStatus.Fulfilled, RedemptionStatus.Refunded],
+  [RedemptionStatus.Fulfilled]: [],
+  [RedemptionStatus.Refunded]: [],
+};
+
+export const MAX_REWARD_NAME_LENGTH = 100;
+export const MAX_REWARD_DESCRIPTION_LENGTH = 1000;
+export const MAX_REDEMPTION_NOTE_LENGTH = 500;
+
+// Maximum redemptions returned per page
+export const MAX_REDEMPTIONS_PAGE_SIZE = 50;
+
+// A reward in the catalog
+export interface Reward {
+  id: string;
+  name: string;
+  description: string;
+  cost: number; // Points
+  stock: number | null; // Units left, null for unlimited
+  expires_at: number | null; // Unix timestamp after which it can't be redeemed, null for never
+  is_active: boolean; // Inactive rewards are hidden from members
+  created_by: string;
+  created_at: number; // Unix timestamp
+  updated_at: number; // Unix timestamp
+}
+
+// A member's redemption of a reward
+export interface RewardRedemption {
+  id: string;
+  reward_id: string;
+  user_id: string;
+  cost: number; // Points spent, kept in case the reward's cost changes later
+  status: RedemptionStatus;
+  note: string | null; // From the member, e.g. a T-shirt size
+  admin_note: string | null; // From the admin who last processed it
+  processed_by: string | null;
+  processed_at: number | null; // Unix timestamp
+  created_at: number; // Unix timestamp
+  updated_at: number; // Unix timestamp
+  reward_name?: string; // Populated by API
+  user_name?: string; // Populated by API (admin queue)
+  user_email?: string; // Populated by API (admin queue)
+}
+
+// DTO for adding a reward to the catalog
+export interface CreateRewardDTO {
+  name: string;
+  description?: string;
+  cost: number;
+  stock?: number | null;
+  expires_at?: number | null;
+}
+
+// DTO for editing a reward; omitted fields are left unchanged
+export interface UpdateRewardDTO {
+  name?: string;
+  description?: string;
+  cost?: number;
+  stock?: number | null;
+  expires_at?: number | null;
+  is_active?: boolean;
+}
+
+// DTO for redeeming a reward
+export interface RedeemRewardDTO {
+  note?: string;
+}
+
+// DTO for moving a redemption through the fulfillment queue
+export interface UpdateRedemptionDTO {
+  status: RedemptionStatus;
+  admin_note?: string;
+}
+
+// Response of GET /api/v1/rewards and GET /api/v1/admin/rewards
+export interface GetRewardsResponse {
+  rewards: Reward[];
+}
+
+// Response of GET /api/v1/rewards/redemptions and GET /api/v1/admin/redemptions
+export interface GetRedemptionsResponse {
+  redemptions: RewardRedemption[];
+  total: number;
+}
+
+// Response of POST /api/v1/rewards/:id/redeem
+export interface RedeemRewardResponse {
+  redemption: RewardRedemption;
+  points: number; // Balance after the redemption
+}
+
+/**
+ * Check if a value is a valid redemption status
+ */
+export function isRedemptionStatus(value: unknown): value is RedemptionStatus {
+  return Object.values(RedemptionStatus).includes(value as RedemptionStatus);
+}
+
+/**
+ * Check whether an admin can move a redemption from one status to another
+ */
+export function canTransitionRedemption(from: RedemptionStatus, to: RedemptionStatus): boolean {
+  return REDEMPTION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a reward can be redeemed at the given time
+ * @param reward - Reward to check
+ * @param at - Unix timestamp (seconds)
+ */
+export function isRewardAvailable(reward: Reward, at: number): boolean {
+  return (
+    reward.is_active &&
+    (reward.expires_at === null || reward.expires_at > at) &&
+    (reward.stock === null || reward.stock > 0)
+  );
+}
+
+/**
+ * Convert a reward row from the database into a Reward
+ */
+export function normalizeReward(row: Record<string, unknown>): Reward {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string) || '',
+    cost: Number(row.cost),
+    stock: row.stock === null || row.stock === undefined ? null : Number(row.stock),
+    expires_at: row.expires_at === null || row.expires_at === undefined ? null : Number(row.expires_at),
+    is_active: Boolean(row.is_active),
+    created_by: row.created_by as string,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+  };
+}
+
+/**
+ * Convert a redemption row from the database into a RewardRedemption
+ */
+export function normalizeRewardRedemption(row: Record<string, unknown>): RewardRedemption {
+  return {
+    id: row.id as string,
+    reward_id: row.reward_id as string,
+    user_id: row.user_id as string,
+    cost: Number(row.cost),
+    status: row.status as RedemptionStatus,
+    note: (row.note as string | null) || null,
+    admin_note: (row.admin_note as string | null) || null,
+    processed_by: (row.processed_by as string | null) || null,
+    processed_at: (row.processed_at as number | null) ?? null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    ...(row.reward_name ? { reward_name: row.reward_name as string } : {}),
+    ...(row.user_name ? { user_name: row.user_name as string } : {}),
+    ...(row.user_email ? { user_email: row.user_email as string } : {}),
+  };
+}
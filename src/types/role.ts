@@ -6,13 +6,44 @@
 /**
  * UserRole enum - All available user roles
  * Admin: Full administrative access
+ * Moderator: Manages forum threads in the categories assigned to them
  * Member: Regular user with basic access
  */
 export enum UserRole {
   Admin = 'admin',
+  Moderator = 'moderator',
   Member = 'member',
 }
 
+/**
+ * Permission enum - Privileged actions checked by requirePermission
+ */
+export enum Permission {
+  PinThreads = 'forum.threads.pin',
+  CloseThreads = 'forum.threads.close',
+  MoveThreads = 'forum.threads.move',
+  DeleteThreads = 'forum.threads.delete',
+  EditThreads = 'forum.threads.edit',
+  MergeThreads = 'forum.threads.merge',
+}
+
+/**
+ * Permissions granted to each role
+ * Moderator permissions only apply in the forum categories the moderator is assigned to
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.Admin]: Object.values(Permission),
+  [UserRole.Moderator]: [
+    Permission.PinThreads,
+    Permission.CloseThreads,
+    Permission.MoveThreads,
+    Permission.DeleteThreads,
+    Permission.EditThreads,
+    Permission.MergeThreads,
+  ],
+  [UserRole.Member]: [],
+};
+
 /**
  * UserRoleRecord - Database representation of a user role
  */
@@ -30,6 +61,21 @@ export function isAdmin(role: UserRole | undefined): boolean {
   return role === UserRole.Admin;
 }
 
+/**
+ * Helper function to check if a role grants a permission
+ * Does not check category scope; see requirePermission for that
+ */
+export function roleHasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role || DEFAULT_ROLE].includes(permission);
+}
+
+/**
+ * Helper function to check if a role's permissions are limited to assigned forum categories
+ */
+export function isCategoryScopedRole(role: UserRole | undefined): boolean {
+  return role === UserRole.Moderator;
+}
+
 /**
  * Helper function to get role display name
  * Should be used with i18n in actual UI
@@ -38,6 +84,8 @@ export function getRoleName(role: UserRole): string {
   switch (role) {
     case UserRole.Admin:
       return 'Admin';
+    case UserRole.Moderator:
+      return 'Moderator';
     case UserRole.Member:
       return 'Member';
     default:
@@ -58,5 +106,8 @@ export function normalizeUserRole(dbRole: unknown): UserRole {
   if (dbRole === UserRole.Admin) {
     return UserRole.Admin;
   }
+  if (dbRole === UserRole.Moderator) {
+    return UserRole.Moderator;
+  }
   return UserRole.Member;
 }
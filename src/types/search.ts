@@ -0,0 +1,57 @@
+// Content types covered by full-text search
+export enum SearchContentType {
+  Thread = 'thread',
+  Reply = 'reply',
+  Blog = 'blog',
+}
+
+// Default and maximum results returned per page
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+// Queries longer than this are rejected
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// The FTS index uses the trigram tokenizer, so shorter terms fall back to a LIKE scan
+export const MIN_FTS_TERM_LENGTH = 3;
+
+// A single search hit
+// title and snippet are escaped HTML whose only tags are <mark> around matched terms
+export interface SearchResult {
+  type: SearchContentType;
+  id: string;
+  title: string; // Thread/blog title; for replies, the title of the thread replied to
+  snippet: string;
+  url: string; // In-app link to the content
+  author_id: string;
+  author_name: string;
+  category_id: string | null; // Forum category (threads and replies only)
+  thread_id: string | null; // Containing thread (threads and replies only)
+  created_at: number; // Unix timestamp
+}
+
+// Response of GET /api/v1/search
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Filters accepted by GET /api/v1/search
+export interface SearchParams {
+  q: string;
+  type?: SearchContentType;
+  category_id?: string;
+  author_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Type guard for SearchContentType values coming from query strings
+ */
+export function isSearchContentType(value: unknown): value is SearchContentType {
+  return Object.values(SearchContentType).includes(value as SearchContentType);
+}
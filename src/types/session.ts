@@ -0,0 +1,62 @@
+// Mentoring session status enum
+// proposed: waiting for the other participant to confirm
+// confirmed: both participants agreed on the time
+// cancelled: called off by either participant
+export enum SessionStatus {
+  Proposed = 'proposed',
+  Confirmed = 'confirmed',
+  Cancelled = 'cancelled'
+}
+
+// Default and maximum length of a single mentoring session
+export const DEFAULT_SESSION_DURATION_MINUTES = 60;
+export const MAX_SESSION_DURATION_MINUTES = 240;
+
+// Mentoring session scheduled inside an active match
+export interface MatchSession {
+  id: string;
+  match_id: string;
+  proposed_by_user_id: string; // Participant who proposed the current time
+  start_time: number; // Unix timestamp (seconds)
+  duration_minutes: number;
+  meeting_link: string | null;
+  status: SessionStatus;
+  created_at: number; // Unix timestamp
+  updated_at: number; // Unix timestamp
+}
+
+// DTO for proposing a session
+export interface ProposeSessionDTO {
+  start_time: number; // Unix timestamp (seconds)
+  duration_minutes?: number;
+  meeting_link?: string | null;
+}
+
+// DTO for rescheduling a session (the rescheduler becomes the proposer)
+export interface RescheduleSessionDTO {
+  start_time: number; // Unix timestamp (seconds)
+  duration_minutes?: number;
+  meeting_link?: string | null;
+}
+
+// DTO for confirming a session (the confirmer may attach the meeting link)
+export interface ConfirmSessionDTO {
+  meeting_link?: string | null;
+}
+
+/**
+ * Convert a session row from the database into a MatchSession
+ */
+export function normalizeMatchSession(row: Record<string, unknown>): MatchSession {
+  return {
+    id: row.id as string,
+    match_id: row.match_id as string,
+    proposed_by_user_id: row.proposed_by_user_id as string,
+    start_time: row.start_time as number,
+    duration_minutes: row.duration_minutes as number,
+    meeting_link: (row.meeting_link as string | null) || null,
+    status: row.status as SessionStatus,
+    created_at: row.created_at as number,
+    updated_at: row.updated_at as number,
+  };
+}
@@ -20,6 +20,55 @@ export interface AuthPayload {
   name: string;
   role?: UserRole;
   points?: number;
+  sid?: string; // Session the access token was issued for; revoking it signs the token out
   iat?: number; // Issued at (Unix timestamp in seconds)
   exp?: number; // Expiration time (Unix timestamp in seconds)
 }
+
+// A signed-in device, as shown on the sessions page
+export interface UserSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: number; // Unix timestamp of the sign-in
+  last_used_at: number; // Unix timestamp of the last token refresh
+  expires_at: number; // Unix timestamp after which the refresh token stops working
+  current: boolean; // The session making the request
+}
+
+// Response of GET /api/v1/auth/sessions
+export interface GetSessionsResponse {
+  sessions: UserSession[];
+}
+
+// Sign-in providers; each is offered once its credentials are configured
+export enum OAuthProviderId {
+  Google = 'google',
+  GitHub = 'github',
+  Oidc = 'oidc',
+}
+
+// A sign-in provider as offered on the login page
+export interface OAuthProviderInfo {
+  id: OAuthProviderId;
+  name: string; // Button label, e.g. "GitHub" or the configured OIDC provider name
+}
+
+// Response of GET /api/v1/auth/providers
+export interface GetOAuthProvidersResponse {
+  providers: OAuthProviderInfo[];
+}
+
+// A provider account linked to the signed-in user
+export interface LinkedIdentity {
+  id: string;
+  provider: OAuthProviderId;
+  email: string | null;
+  created_at: number;
+  last_used_at: number;
+}
+
+// Response of GET /api/v1/auth/identities
+export interface GetLinkedIdentitiesResponse {
+  identities: LinkedIdentity[];
+}
@@ -0,0 +1,411 @@
+/**
+ * Tests for the admin audit log
+ *
+ * Endpoints under test:
+ * - GET /api/v1/admin/audit-log - Browse and filter entries (admin only)
+ * - Audit entries written by privileged routes (points, roles, feature flags,
+ *   featured blogs, submission reviews and thread moderation)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { GetAuditLogResponse } from '../../types/audit';
+import { MAX_POINTS } from '../../types/points';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  entries?: Record<string, unknown>[];
+  rows?: Record<string, Record<string, unknown> | null>;
+  features?: string[];
+  failAudit?: boolean;
+}
+
+interface AuditRow {
+  actorId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const rows = state.rows || {};
+  const audit: AuditRow[] = [];
+  // The ledger row written earlier in the batch, which points audit entries are copied from
+  let logged: Record<string, unknown> | null = null;
+
+  const findRow = (query: string) => {
+    const key = Object.keys(rows).find((text) => query.includes(text));
+    return key ? rows[key] : null;
+  };
+
+  const recordAudit = (query: string, params: unknown[]) => {
+    const [, actorId, action, targetType, targetId, before, after] = params as string[];
+    if (query.includes("json_object('points'")) {
+      const balance = logged?.balance_after as number;
+      audit.push({
+        actorId,
+        action,
+        targetType,
+        targetId,
+        before: { points: balance - (logged?.points_awarded as number) },
+        after: { points: balance },
+      });
+      return;
+    }
+    const entry: AuditRow = {
+      actorId,
+      action,
+      targetType,
+      targetId,
+      before: before ? JSON.parse(before) : null,
+      after: after ? JSON.parse(after) : null,
+    };
+    if (query.includes('json_set') && entry.after) {
+      entry.after.points_awarded = logged?.points_awarded ?? 0;
+    }
+    audit.push(entry);
+  };
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM admin_audit_log l')) {
+            return { success: true, results: state.entries || [] };
+          }
+          if (query.includes('FROM feature_flags') && state.features) {
+            return { success: true, results: enabledFeatureFlags(...state.features) };
+          }
+          if (query.includes('INSERT INTO admin_audit_log')) {
+            if (state.failAudit) {
+              throw new Error('D1_ERROR: no such table: admin_audit_log');
+            }
+            recordAudit(query, params);
+            return { success: true, results: [] };
+          }
+          const row = findRow(query);
+          if (query.includes('RETURNING points_awarded')) {
+            logged = row;
+          }
+          return { success: true, results: row ? [row] : [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('COUNT(*) as count FROM admin_audit_log')) {
+            return { count: (state.entries || []).length };
+          }
+          return findRow(query);
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('INSERT INTO admin_audit_log')) {
+            recordAudit(query, params);
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
+    _queries: queries,
+    _audit: audit,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Admin Audit Log', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = adminToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const auditEntry = () => mockDb._audit[0];
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/admin/audit-log', () => {
+    it('should return entries with parsed snapshots', async () => {
+      setup({
+        entries: [
+          {
+            id: 'log-1',
+            actor_id: 'admin-1',
+            action: 'role.assign',
+            target_type: 'user',
+            target_id: 'user-1',
+            before_json: '{"role":"member"}',
+            after_json: '{"role":"moderator"}',
+            created_at: 1700000000,
+            actor_name: 'Admin',
+          },
+        ],
+      });
+
+      const res = await request('/api/v1/admin/audit-log');
+      const data = await res.json() as GetAuditLogResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.total).toBe(1);
+      expect(data.entries[0]).toMatchObject({
+        action: 'role.assign',
+        before: { role: 'member' },
+        after: { role: 'moderator' },
+        actor_name: 'Admin',
+      });
+    });
+
+    it('should apply filters', async () => {
+      const res = await request(
+        '/api/v1/admin/audit-log?actor_id=admin-1&action=feature.update&target_type=feature_flag&target_id=flag-1&from=100&to=200&limit=10&offset=20'
+      );
+
+      expect(res.status).toBe(200);
+      const list = mockDb._queries.find((q) => q.query.includes('LEFT JOIN users u ON l.actor_id = u.id'));
+      expect(list?.query).toContain('l.actor_id = ? AND l.action = ? AND l.target_type = ? AND l.target_id = ?');
+      expect(list?.params).toEqual(['admin-1', 'feature.update', 'feature_flag', 'flag-1', 100, 200, 10, 20]);
+    });
+
+    it('should reject unknown actions and target types', async () => {
+      expect((await request('/api/v1/admin/audit-log?action=user.delete')).status).toBe(400);
+      expect((await request('/api/v1/admin/audit-log?target_type=planet')).status).toBe(400);
+      expect((await request('/api/v1/admin/audit-log?from=yesterday')).status).toBe(400);
+    });
+
+    it('should reject non-admins', async () => {
+      const res = await request('/api/v1/admin/audit-log', 'GET', undefined, memberToken);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('Recorded actions', () => {
+    it('should record points overrides with the previous balance', async () => {
+      setup({
+        rows: {
+          'SELECT id FROM users WHERE id = ?': { id: 'user-1' },
+          'RETURNING points_awarded': { points_awarded: 380, balance_after: 500 },
+          'SELECT * FROM user_points': { id: 'points-1', user_id: 'user-1', points: 500, updated_at: 1 },
+        },
+      });
+
+      const res = await request('/api/v1/users/user-1/points', 'PATCH', { points: 500 });
+
+      expect(res.status).toBe(200);
+      expect(auditEntry()).toEqual({
+        actorId: 'admin-1',
+        action: 'user.points.update',
+        targetType: 'user',
+        targetId: 'user-1',
+        before: { points: 120 },
+        after: { points: 500 },
+      });
+    });
+
+    it('should record the balance actually written for points overrides', async () => {
+      setup({
+        rows: {
+          'SELECT id FROM users WHERE id = ?': { id: 'user-1' },
+          // The override is clamped to the maximum balance
+          'RETURNING points_awarded': { points_awarded: MAX_POINTS - 120, balance_after: MAX_POINTS },
+          'SELECT * FROM user_points': { id: 'points-1', user_id: 'user-1', points: MAX_POINTS, updated_at: 1 },
+        },
+      });
+
+      const res = await request('/api/v1/users/user-1/points', 'PATCH', { points: MAX_POINTS + 1000 });
+
+      expect(res.status).toBe(200);
+      expect(auditEntry()).toMatchObject({ before: { points: 120 }, after: { points: MAX_POINTS } });
+    });
+
+    it('should record role changes', async () => {
+      setup({
+        rows: {
+          'SELECT id FROM users WHERE id = ?': { id: 'user-1' },
+          'SELECT id, role FROM user_roles': { id: 'role-1', role: 'member' },
+        },
+      });
+
+      const res = await request('/api/v1/roles', 'POST', { userId: 'user-1', role: 'admin' });
+
+      expect(res.status).toBe(200);
+      expect(auditEntry()).toMatchObject({
+        action: 'role.assign',
+        targetId: 'user-1',
+        before: { role: 'member' },
+        after: { role: 'admin' },
+      });
+    });
+
+    it('should record feature flag toggles', async () => {
+      setup({
+        rows: {
+          'SELECT * FROM feature_flags WHERE id = ?': {
+            id: 'flag-1',
+            feature_key: 'blogs',
+            display_name: 'Blogs',
+            enabled: 0,
+            created_at: 1,
+            updated_at: 1,
+          },
+        },
+      });
+
+      const res = await request('/api/v1/admin/features/flag-1', 'PATCH', { enabled: true });
+
+      expect(res.status).toBe(200);
+      expect(auditEntry()).toMatchObject({
+        action: 'feature.update',
+        targetType: 'feature_flag',
+        targetId: 'flag-1',
+        before: { feature_key: 'blogs', enabled: false },
+        after: { feature_key: 'blogs', enabled: true },
+      });
+    });
+
+    it('should record deleted feature flags', async () => {
+      setup({
+        rows: {
+          'SELECT * FROM feature_flags WHERE id = ?': {
+            id: 'flag-1',
+            feature_key: 'blogs',
+            display_name: 'Blogs',
+            enabled: 1,
+          },
+        },
+      });
+
+      const res = await request('/api/v1/admin/features/flag-1', 'DELETE');
+
+      expect(res.status).toBe(204);
+      expect(auditEntry()).toMatchObject({
+        action: 'feature.delete',
+        before: { feature_key: 'blogs', display_name: 'Blogs', enabled: true },
+        after: null,
+      });
+    });
+
+    it('should record submission approvals', async () => {
+      setup({
+        rows: {
+          'SELECT * FROM challenge_submissions': {
+            id: 'sub-1',
+            challenge_id: 'challenge-1',
+            user_id: 'user-1',
+            status: 'pending',
+          },
+          'SELECT * FROM challenges': { id: 'challenge-1', title: 'Mentor someone', point_reward: 30 },
+          'RETURNING points_awarded': { points_awarded: 30, balance_after: 30 },
+        },
+      });
+
+      const res = await request('/api/v1/submissions/sub-1/approve', 'PATCH');
+
+      expect(res.status).toBe(200);
+      expect(mockDb.batch).toHaveBeenCalledTimes(1);
+      expect(auditEntry()).toMatchObject({
+        action: 'submission.approve',
+        targetType: 'challenge_submission',
+        targetId: 'sub-1',
+        before: { status: 'pending' },
+        after: { status: 'approved', points_awarded: 30 },
+      });
+    });
+
+    it('should record thread pinning', async () => {
+      setup({
+        rows: {
+          'SELECT id, is_pinned FROM forum_threads': { id: 'thread-1', is_pinned: 0 },
+        },
+      });
+
+      const res = await request('/api/v1/forums/threads/thread-1/pin', 'PATCH', { is_pinned: true });
+
+      expect(res.status).toBe(200);
+      expect(auditEntry()).toMatchObject({
+        action: 'forum.thread.pin',
+        targetType: 'forum_thread',
+        targetId: 'thread-1',
+        before: { is_pinned: false },
+        after: { is_pinned: true },
+      });
+    });
+
+    it('should record featured blogs with the points awarded to the author', async () => {
+      setup({
+        rows: {
+          'SELECT * FROM blogs WHERE id = ?': { id: 'blog-1', user_id: 'user-1', title: 'Hello', featured: 0 },
+          'RETURNING points_awarded': { points_awarded: 50, balance_after: 50 },
+        },
+        features: ['blogs'],
+      });
+
+      const res = await request('/api/v1/blogs/blog-1/feature', 'PATCH', { featured: true });
+
+      expect(res.status).toBe(200);
+      expect(mockDb.batch).toHaveBeenCalledTimes(1);
+      expect(auditEntry()).toMatchObject({
+        action: 'blog.feature',
+        targetId: 'blog-1',
+        before: { featured: false },
+        after: { featured: true, points_awarded: 50 },
+      });
+    });
+
+    it('should fail the change when its audit entry cannot be written', async () => {
+      setup({
+        rows: {
+          'SELECT id, is_pinned FROM forum_threads': { id: 'thread-1', is_pinned: 0 },
+        },
+        failAudit: true,
+      });
+
+      const res = await request('/api/v1/forums/threads/thread-1/pin', 'PATCH', { is_pinned: true });
+
+      expect(res.status).toBe(500);
+      expect(mockDb.batch).toHaveBeenCalledTimes(1);
+      expect(auditEntry()).toBeUndefined();
+    });
+
+    it('should not record rejected requests', async () => {
+      const res = await request('/api/v1/users/user-1/points', 'PATCH', { points: -5 });
+
+      expect(res.status).toBe(400);
+      expect(auditEntry()).toBeUndefined();
+    });
+  });
+});
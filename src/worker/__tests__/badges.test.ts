@@ -0,0 +1,326 @@
+/**
+ * Tests for badges
+ *
+ * Endpoints under test:
+ * - GET /api/v1/users/:id/badges - Badges a user holds (evaluated first for the user themselves)
+ * - POST /api/v1/users/:id/badges - Admin awards a badge
+ * - DELETE /api/v1/users/:id/badges/:badgeId - Admin revokes a badge
+ * - Badge grants from events and author badges in listings
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
+import type { GetUserBadgesResponse, UserBadge } from '../../types/badge';
+import type { GetThreadsResponse } from '../../types/forum';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  badges?: Record<string, unknown>[];
+  counts?: Record<string, number>;
+  activityDays?: number[];
+  existingBadge?: Record<string, unknown> | null;
+  revoked?: boolean;
+  rows?: Record<string, Record<string, unknown> | null>;
+  lists?: Record<string, Record<string, unknown>[]>;
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const rows = state.rows || {};
+  const lists = state.lists || {};
+
+  const findKey = (query: string, table: Record<string, unknown>) =>
+    Object.keys(table).find((text) => query.includes(text));
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM feature_flags')) {
+            return { success: true, results: enabledFeatureFlags('blogs') };
+          }
+          queries.push({ query, params });
+          if (query.includes('FROM user_badges')) {
+            return { success: true, results: state.badges || [] };
+          }
+          if (query.includes('SELECT DISTINCT created_at / 86400 as day')) {
+            return { success: true, results: (state.activityDays || []).map((day) => ({ day })) };
+          }
+          const key = findKey(query, lists);
+          return { success: true, results: key ? lists[key] : [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT user_id, badge_id, granted_at, granted_by, revoked_at FROM user_badges')) {
+            return state.existingBadge || null;
+          }
+          const countKey = findKey(query, state.counts || {});
+          if (countKey) {
+            return { count: state.counts![countKey] };
+          }
+          if (query.includes('SELECT COUNT(*) as count')) {
+            return { count: 0 };
+          }
+          const key = findKey(query, rows);
+          return key ? rows[key] : null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          const changes = query.includes('SET revoked_at = ?') && !state.revoked ? 0 : 1;
+          return { success: true, meta: { changes } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
+    _queries: queries,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Badges', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = memberToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const grantedBadges = () =>
+    mockDb._queries
+      .filter((q) => q.query.includes('INSERT OR IGNORE INTO user_badges'))
+      .map((q) => q.params[1]);
+
+  const auditEntries = () => mockDb._queries.filter((q) => q.query.includes('INSERT INTO admin_audit_log'));
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/users/:id/badges', () => {
+    it('should return the badges a user holds', async () => {
+      setup({
+        badges: [
+          { user_id: 'user-2', badge_id: 'featured_blog', granted_at: 1700000000, granted_by: null },
+          { user_id: 'user-2', badge_id: 'retired_badge', granted_at: 1700000001, granted_by: null },
+        ],
+      });
+
+      const res = await app.fetch(new Request('http://localhost/api/v1/users/user-2/badges'), mockEnv);
+      const data = await res.json() as GetUserBadgesResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.badges).toEqual([
+        { user_id: 'user-2', badge_id: 'featured_blog', granted_at: 1700000000, granted_by: null },
+      ]);
+      expect(mockDb._queries.find((q) => q.query.includes('FROM user_badges'))?.query).toContain('revoked_at IS NULL');
+    });
+
+    it('should not evaluate badges when viewing someone else', async () => {
+      await request('/api/v1/users/user-2/badges');
+
+      expect(mockDb._queries.some((q) => q.query.includes('FROM forum_replies'))).toBe(false);
+      expect(grantedBadges()).toEqual([]);
+    });
+
+    it('should grant badges users qualify for when they view their own', async () => {
+      setup({
+        counts: {
+          'FROM forum_replies r': 2,
+          'FROM matches': 9,
+          'FROM blogs': 1,
+          'FROM challenge_submissions': 5,
+        },
+      });
+
+      await request('/api/v1/users/user-1/badges');
+
+      expect(grantedBadges()).toEqual(['first_solution', 'featured_blog', 'challenges_approved_5']);
+    });
+
+    it('should skip badges the user holds or had revoked', async () => {
+      setup({
+        badges: [{ user_id: 'user-1', badge_id: 'first_solution' }],
+        counts: { 'FROM forum_replies r': 3, 'FROM blogs': 1 },
+      });
+
+      await request('/api/v1/users/user-1/badges');
+
+      expect(mockDb._queries.some((q) => q.query.includes('FROM forum_replies'))).toBe(false);
+      expect(grantedBadges()).toEqual(['featured_blog']);
+    });
+
+    it('should grant the streak badge for 30 consecutive active days', async () => {
+      setup({ activityDays: [100, 102, ...Array.from({ length: 30 }, (_, i) => 200 + i)] });
+
+      await request('/api/v1/users/user-1/badges');
+
+      expect(grantedBadges()).toEqual(['activity_streak_30']);
+    });
+
+    it('should not grant the streak badge for broken streaks', async () => {
+      setup({ activityDays: [...Array.from({ length: 29 }, (_, i) => 200 + i), 230] });
+
+      await request('/api/v1/users/user-1/badges');
+
+      expect(grantedBadges()).toEqual([]);
+    });
+  });
+
+  describe('POST /api/v1/users/:id/badges', () => {
+    it('should let admins award a badge', async () => {
+      setup({ rows: { 'SELECT id FROM users WHERE id = ?': { id: 'user-2' } } });
+
+      const res = await request('/api/v1/users/user-2/badges', 'POST', { badge_id: 'featured_blog' }, adminToken);
+      const data = await res.json() as UserBadge;
+
+      expect(res.status).toBe(201);
+      expect(data).toMatchObject({ user_id: 'user-2', badge_id: 'featured_blog', granted_by: 'admin-1' });
+      const insert = mockDb._queries.find((q) => q.query.includes('INSERT INTO user_badges'));
+      expect(insert?.params).toEqual(['user-2', 'featured_blog', expect.any(Number), 'admin-1']);
+      expect(auditEntries()[0].params.slice(1, 5)).toEqual(['admin-1', 'user.badge.award', 'user', 'user-2']);
+    });
+
+    it('should leave a badge the user already holds untouched', async () => {
+      setup({
+        rows: { 'SELECT id FROM users WHERE id = ?': { id: 'user-2' } },
+        existingBadge: { user_id: 'user-2', badge_id: 'featured_blog', granted_at: 1, granted_by: null, revoked_at: null },
+      });
+
+      const res = await request('/api/v1/users/user-2/badges', 'POST', { badge_id: 'featured_blog' }, adminToken);
+
+      expect(res.status).toBe(200);
+      expect(mockDb._queries.some((q) => q.query.includes('INSERT INTO user_badges'))).toBe(false);
+      expect(auditEntries()).toHaveLength(0);
+    });
+
+    it('should restore a revoked badge', async () => {
+      setup({
+        rows: { 'SELECT id FROM users WHERE id = ?': { id: 'user-2' } },
+        existingBadge: { user_id: 'user-2', badge_id: 'featured_blog', granted_at: 1, granted_by: null, revoked_at: 5 },
+      });
+
+      const res = await request('/api/v1/users/user-2/badges', 'POST', { badge_id: 'featured_blog' }, adminToken);
+
+      expect(res.status).toBe(201);
+      const update = mockDb._queries.find((q) => q.query.includes('UPDATE user_badges'));
+      expect(update?.query).toContain('revoked_at = NULL');
+    });
+
+    it('should reject unknown badges', async () => {
+      const res = await request('/api/v1/users/user-2/badges', 'POST', { badge_id: 'superstar' }, adminToken);
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 for unknown users', async () => {
+      const res = await request('/api/v1/users/ghost/badges', 'POST', { badge_id: 'featured_blog' }, adminToken);
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should require an admin', async () => {
+      const res = await request('/api/v1/users/user-2/badges', 'POST', { badge_id: 'featured_blog' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('DELETE /api/v1/users/:id/badges/:badgeId', () => {
+    it('should revoke a badge and keep its row', async () => {
+      setup({ revoked: true });
+
+      const res = await request('/api/v1/users/user-2/badges/featured_blog', 'DELETE', undefined, adminToken);
+
+      expect(res.status).toBe(200);
+      const update = mockDb._queries.find((q) => q.query.includes('SET revoked_at = ?'));
+      expect(update?.params).toEqual([expect.any(Number), 'admin-1', 'user-2', 'featured_blog']);
+      expect(mockDb._queries.some((q) => q.query.includes('DELETE FROM user_badges'))).toBe(false);
+      expect(auditEntries()[0].params.slice(1, 5)).toEqual(['admin-1', 'user.badge.revoke', 'user', 'user-2']);
+    });
+
+    it('should return 404 when the user does not hold the badge', async () => {
+      const res = await request('/api/v1/users/user-2/badges/featured_blog', 'DELETE', undefined, adminToken);
+
+      expect(res.status).toBe(404);
+      expect(auditEntries()).toHaveLength(0);
+    });
+  });
+
+  describe('Grants from events', () => {
+    it('should evaluate the author when a blog is featured', async () => {
+      setup({
+        rows: { 'SELECT * FROM blogs': { id: 'blog-1', user_id: 'user-2', featured: 0 } },
+        counts: { 'FROM blogs WHERE user_id = ? AND featured = 1': 1 },
+      });
+
+      await request('/api/v1/blogs/blog-1/feature', 'PATCH', { featured: true }, adminToken);
+
+      const grant = mockDb._queries.find((q) => q.query.includes('INSERT OR IGNORE INTO user_badges'));
+      expect(grant?.params.slice(0, 2)).toEqual(['user-2', 'featured_blog']);
+    });
+
+    it('should evaluate the mentor when a match is completed', async () => {
+      setup({
+        rows: { 'SELECT * FROM matches': { id: 'match-1', mentor_id: 'mentor-1', mentee_id: 'user-1', status: 'active' } },
+        counts: { "FROM matches WHERE mentor_id = ? AND status = 'completed'": 10 },
+      });
+
+      await request('/api/v1/matches/match-1/complete', 'PATCH');
+
+      const grant = mockDb._queries.find((q) => q.query.includes('INSERT OR IGNORE INTO user_badges'));
+      expect(grant?.params.slice(0, 2)).toEqual(['mentor-1', 'mentorships_completed_10']);
+    });
+  });
+
+  describe('Author badges in listings', () => {
+    it('should attach author badges to threads', async () => {
+      setup({
+        lists: {
+          'FROM forum_threads t': [
+            { id: 'thread-1', user_id: 'user-2', title: 'Hello' },
+            { id: 'thread-2', user_id: 'user-3', title: 'Hi' },
+          ],
+        },
+        badges: [
+          { user_id: 'user-2', badge_id: 'first_solution' },
+          { user_id: 'user-2', badge_id: 'featured_blog' },
+        ],
+      });
+
+      const res = await app.fetch(new Request('http://localhost/api/v1/forums/threads?category_id=cat-1'), mockEnv);
+      const data = await res.json() as GetThreadsResponse;
+
+      expect(data.threads.map((thread) => thread.author_badges)).toEqual([['first_solution', 'featured_blog'], []]);
+      const lookup = mockDb._queries.find((q) => q.query.includes('FROM user_badges'));
+      expect(lookup?.params).toEqual(['user-2', 'user-3']);
+    });
+  });
+});
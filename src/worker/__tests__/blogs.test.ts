@@ -4,6 +4,8 @@ import { normalizeBlog } from '../../types/blog';
 import app from '../index';
 import { createToken } from '../auth/jwt';
 import type { AuthPayload } from '../../types/user';
+import { enabledFeatureFlags, pointsLedgerRow } from './utils/mockDbFactory';
+import { DEFAULT_TEST_SESSION_ID, withTestSession } from './utils/testAuth';
 
 const JWT_SECRET = 'test-jwt-secret';
 
@@ -19,7 +21,7 @@ interface TestEnv {
  * Create a JWT token for testing
  */
 async function createTestToken(userId: string, email: string, name: string, role?: string): Promise<string> {
-  const payload: AuthPayload & { role?: string } = { userId, email, name, role };
+  const payload: AuthPayload & { role?: string } = { userId, email, name, role, sid: DEFAULT_TEST_SESSION_ID };
   return createToken(payload as AuthPayload, JWT_SECRET);
 }
 
@@ -38,8 +40,29 @@ function createMockDb() {
 
   const db = {
     prepare: vi.fn((query: string) => ({
+      // requireFeature loads every flag without bindings
+      all: vi.fn(async () => ({ results: query.includes('FROM feature_flags') ? enabledFeatureFlags('blogs') : [] })),
       bind: vi.fn((...params: unknown[]) => ({
         all: vi.fn(async () => {
+          // INSERT into point_actions_log, from the balance it replaces
+          if (query.includes('INSERT INTO point_actions_log') && query.includes('RETURNING points_awarded')) {
+            const row = pointsLedgerRow(query, params, (mockPoints.get(params[1])?.points as number) ?? 0);
+            mockPointActions.set(row.id as string, row);
+            return { results: [row] };
+          }
+          // INSERT ... ON CONFLICT DO UPDATE user_points with the balance the ledger row recorded
+          if (query.includes('INSERT INTO user_points') && query.includes('FROM point_actions_log WHERE id = ?')) {
+            const [id, actionId] = params as [string, string];
+            const action = mockPointActions.get(actionId)!;
+            const userId = action.user_id as string;
+            mockPoints.set(userId, {
+              id: mockPoints.get(userId)?.id || id,
+              user_id: userId,
+              points: action.balance_after,
+              updated_at: action.created_at,
+            });
+            return { results: [] };
+          }
           // SELECT blogs
           if (query.includes('SELECT') && query.includes('blogs') && query.includes('WHERE id = ?')) {
             const blogId = params[0];
@@ -352,61 +375,17 @@ function createMockDb() {
             mockComments.set(commentId, { ...comment, content, updated_at: updatedAt });
             return { success: true };
           }
-          // INSERT or UPDATE user_points
-          if (query.includes('user_points') && !query.includes('point_actions_log')) {
-            // Handle UPDATE user_points SET points = ?, updated_at = ? WHERE user_id = ?
-            if (query.includes('UPDATE') && query.includes('WHERE user_id = ?')) {
-              const points = params[0];
-              const updatedAt = params[1];
-              const userId = params[2];
-              const existingPoints = mockPoints.get(userId);
-              mockPoints.set(userId, {
-                id: existingPoints?.id || `points-${userId}`,
-                user_id: userId,
-                points,
-                updated_at: updatedAt,
-              });
-              return { success: true };
-            }
-            // Handle INSERT INTO user_points (id, user_id, points, updated_at) VALUES (?, ?, ?, ?)
-            if (query.includes('INSERT INTO user_points')) {
-              const id = params[0];
-              const userId = params[1];
-              const points = params[2];
-              const updatedAt = params[3];
-              mockPoints.set(userId, {
-                id,
-                user_id: userId,
-                points,
-                updated_at: updatedAt,
-              });
-              return { success: true };
-            }
-            return { success: true };
-          }
-          // INSERT into point_actions_log
-          if (query.includes('INSERT INTO point_actions_log')) {
-            const actionId = params[0];
-            const userId = params[1];
-            const actionType = params[2];
-            const referenceId = params[3];
-            const pointsAwarded = params[4];
-            const createdAt = params[5];
-            
-            mockPointActions.set(actionId, {
-              id: actionId,
-              user_id: userId,
-              action_type: actionType,
-              reference_id: referenceId,
-              points_awarded: pointsAwarded,
-              created_at: createdAt,
-            });
-            return { success: true };
-          }
           return { success: true };
         }),
       })),
     })),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
   };
 
   return {
@@ -427,7 +406,7 @@ function createMockDb() {
 function setupTestEnv() {
   const { db, mockUsers, mockBlogs, mockRoles, mockLikes, mockComments, mockPoints, mockPointActions } = createMockDb();
   const env: TestEnv = {
-    platform_db: db as unknown as D1Database,
+    platform_db: withTestSession(db as unknown as D1Database),
     JWT_SECRET,
   };
   return { env, mockDb: db, mockUsers, mockBlogs, mockRoles, mockLikes, mockComments, mockPoints, mockPointActions };
@@ -4,6 +4,8 @@ import app from '../index';
 import { createToken } from '../auth/jwt';
 import type { AuthPayload } from '../../types/user';
 import { ChallengeStatus, SubmissionStatus } from '../../types/challenge';
+import { enabledFeatureFlags, pointsLedgerRow } from './utils/mockDbFactory';
+import { DEFAULT_TEST_SESSION_ID, withTestSession } from './utils/testAuth';
 
 const JWT_SECRET = 'test-jwt-secret';
 
@@ -19,7 +21,7 @@ interface TestEnv {
  * Create a JWT token for testing
  */
 async function createTestToken(userId: string, email: string, name: string, role?: string): Promise<string> {
-  const payload: AuthPayload & { role?: string } = { userId, email, name, role };
+  const payload: AuthPayload & { role?: string } = { userId, email, name, role, sid: DEFAULT_TEST_SESSION_ID };
   return createToken(payload as AuthPayload, JWT_SECRET);
 }
 
@@ -45,6 +47,8 @@ function createMockDb() {
 
   const db = {
     prepare: vi.fn((query: string) => ({
+      // requireFeature loads every flag without bindings
+      all: vi.fn(async () => ({ results: query.includes('FROM feature_flags') ? enabledFeatureFlags('challenges') : [] })),
       bind: vi.fn((...params: unknown[]) => ({
         all: vi.fn(async () => {
           // SELECT challenges (list all)
@@ -144,6 +148,14 @@ function createMockDb() {
             }
           }
 
+          // INSERT point_actions_log, from the balance it replaces
+          if (query.includes('INSERT INTO point_actions_log') && query.includes('RETURNING points_awarded')) {
+            const current = mockPoints.get(params[1] as string);
+            const row = pointsLedgerRow(query, params, (current?.points as number) ?? 0);
+            mockPointActionsLog.set(row.id as string, row);
+            return { results: [row] };
+          }
+
           // SELECT user points
           if (query.includes('SELECT') && query.includes('user_points') && query.includes('WHERE user_id = ?')) {
             const userId = params[0];
@@ -151,6 +163,15 @@ function createMockDb() {
             return { results: [points] };
           }
 
+          // Upsert user points with the balance the ledger row recorded
+          if (query.includes('INSERT INTO user_points') && query.includes('FROM point_actions_log WHERE id = ?')) {
+            const action = mockPointActionsLog.get(params[1] as string)!;
+            const userId = action.user_id as string;
+            const currentPoints = mockPoints.get(userId) || { id: params[0], user_id: userId };
+            mockPoints.set(userId, { ...currentPoints, points: action.balance_after });
+            return { results: [] };
+          }
+
           // SELECT point_actions_log (for diminishing returns check)
           if (query.includes('SELECT COUNT') && query.includes('point_actions_log')) {
             const userId = params[0];
@@ -325,36 +346,17 @@ function createMockDb() {
             return { success: true };
           }
 
-          // UPDATE user points
-          if (query.includes('UPDATE user_points') && query.includes('SET points')) {
-            const newPoints = params[0];
-            const userId = params[params.length - 1];
-            const currentPoints = mockPoints.get(userId) || { user_id: userId, points: 0 };
-            mockPoints.set(userId, { ...currentPoints, points: newPoints });
-            return { success: true };
-          }
-
-          // INSERT user points
-          if (query.includes('INSERT INTO user_points')) {
-            const [id, userId, points] = params;
-            mockPoints.set(userId as string, { id, user_id: userId, points });
-            return { success: true };
-          }
-
-          // INSERT point_actions_log
-          if (query.includes('INSERT INTO point_actions_log')) {
-            const [id, userId, actionType, referenceId, pointsAwarded, createdAt] = params;
-            mockPointActionsLog.set(id as string, {
-              id, user_id: userId, action_type: actionType,
-              reference_id: referenceId, points_awarded: pointsAwarded, created_at: createdAt
-            });
-            return { success: true };
-          }
-
           return { success: true };
         })
       }))
-    }))
+    })),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    })
   } as unknown as D1Database;
 
   return { db, mockUsers, mockRoles, mockChallenges, mockParticipants, mockSubmissions, mockPoints, mockPointActionsLog };
@@ -382,7 +384,7 @@ describe('Challenges API', () => {
     mockPoints = mocks.mockPoints;
     mockPointActionsLog = mocks.mockPointActionsLog;
     env = {
-      platform_db: mockDb,
+      platform_db: withTestSession(mockDb),
       JWT_SECRET
     };
 
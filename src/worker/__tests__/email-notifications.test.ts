@@ -0,0 +1,299 @@
+/**
+ * Tests for email notification delivery
+ *
+ * Under test:
+ * - GET/PUT /api/v1/notifications/preferences - Email language and per-type frequency
+ * - Immediate emails sent when a notification is created
+ * - POST /api/v1/admin/notifications/send-digests - Daily digest
+ * - Localized email templates
+ * - Transport selection when no mail API is configured
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { InMemoryMailTransport, UnconfiguredMailTransport, resolveMailTransport } from '../mail/transport';
+import { translate, renderNotificationEmail } from '../mail/templates';
+import { NotificationType, EmailFrequency } from '../../types/notification';
+import type { NotificationPreferences } from '../../types/notification';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+const createMockDb = () => {
+  const users = new Map<string, Record<string, unknown>>([
+    ['mentor-1', { id: 'mentor-1', email: 'mentor@example.com', name: 'Mentor One', locale: 'en' }],
+    ['mentee-1', { id: 'mentee-1', email: 'mentee@example.com', name: 'Mentee One', locale: 'zh-CN' }],
+  ]);
+  const preferences = new Map<string, Record<string, unknown>>();
+  const notifications = new Map<string, Record<string, unknown>>();
+  const matches = new Map<string, Record<string, unknown>>([
+    ['match-1', { id: 'match-1', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'pending' }],
+  ]);
+
+  return {
+    prepare: vi.fn((query: string) => ({
+      bind: vi.fn((...params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM notification_preferences WHERE user_id = ?')) {
+            return { results: Array.from(preferences.values()).filter((p) => p.user_id === params[0]) };
+          }
+          if (query.includes('JOIN users ON users.id = notifications.user_id')) {
+            const results = Array.from(notifications.values())
+              .filter((n) => n.emailed_at === null && n.read_at === null && (n.created_at as number) > (params[0] as number))
+              .map((n) => {
+                const user = users.get(n.user_id as string)!;
+                return {
+                  ...n,
+                  recipient_email: user.email,
+                  recipient_name: user.name,
+                  recipient_locale: user.locale,
+                  email_frequency: preferences.get(`${n.user_id}:${n.type}`)?.email_frequency ?? null,
+                };
+              });
+            return { results };
+          }
+          return { results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('FROM users WHERE id = ?')) {
+            return users.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM notification_preferences WHERE user_id = ? AND type = ?')) {
+            return preferences.get(`${params[0]}:${params[1]}`) || null;
+          }
+          if (query.includes('FROM matches WHERE id = ?')) {
+            return matches.get(params[0] as string) || null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          if (query.includes('INSERT INTO notifications')) {
+            const [id, user_id, type, actor_id, data, link, created_at] = params;
+            notifications.set(id as string, { id, user_id, type, actor_id, data, link, read_at: null, emailed_at: null, created_at });
+          } else if (query.includes('UPDATE notifications SET emailed_at = ? WHERE id = ?')) {
+            const notification = notifications.get(params[1] as string);
+            if (notification) {
+              notification.emailed_at = params[0];
+            }
+          } else if (query.includes('INSERT INTO notification_preferences')) {
+            const [user_id, type, email_frequency, updated_at] = params;
+            preferences.set(`${user_id}:${type}`, { user_id, type, email_frequency, updated_at });
+          } else if (query.includes('UPDATE users SET locale = ?')) {
+            const user = users.get(params[2] as string);
+            if (user) {
+              user.locale = params[0];
+            }
+          } else if (query.includes('UPDATE matches SET status = ?')) {
+            const match = matches.get(params[2] as string);
+            if (match) {
+              match.status = params[0];
+            }
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      })),
+    })),
+    _notifications: notifications,
+    _preferences: preferences,
+    _users: users,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Email Notifications', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mailer: InMemoryMailTransport;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let mentorToken: string;
+  let menteeToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    mockDb = createMockDb();
+    mailer = new InMemoryMailTransport();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown, MAILER: mailer });
+    mentorToken = await createTestToken('mentor-1', 'mentor@example.com', 'Mentor One');
+    menteeToken = await createTestToken('mentee-1', 'mentee@example.com', 'Mentee One');
+  });
+
+  const request = (path: string, token: string, method = 'GET', body?: unknown) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const respond = (action: 'accept' | 'reject') =>
+    request('/api/v1/matches/match-1/respond', mentorToken, 'POST', { action });
+
+  describe('GET /api/v1/notifications/preferences', () => {
+    it('should return defaults for types the user never changed', async () => {
+      mockDb._preferences.set('mentee-1:forum_reply', { user_id: 'mentee-1', type: 'forum_reply', email_frequency: 'off' });
+
+      const res = await request('/api/v1/notifications/preferences', menteeToken);
+      const data = await res.json() as NotificationPreferences;
+
+      expect(res.status).toBe(200);
+      expect(data.locale).toBe('zh-CN');
+      expect(data.email[NotificationType.ForumReply]).toBe(EmailFrequency.Off);
+      expect(data.email[NotificationType.BlogComment]).toBe(EmailFrequency.Daily);
+      expect(data.email[NotificationType.MatchAccepted]).toBe(EmailFrequency.Immediate);
+    });
+  });
+
+  describe('PUT /api/v1/notifications/preferences', () => {
+    it('should save the locale and frequencies', async () => {
+      const res = await request('/api/v1/notifications/preferences', menteeToken, 'PUT', {
+        locale: 'en',
+        email: { match_accepted: 'daily' },
+      });
+      const data = await res.json() as NotificationPreferences;
+
+      expect(res.status).toBe(200);
+      expect(data.locale).toBe('en');
+      expect(data.email.match_accepted).toBe('daily');
+      expect(mockDb._users.get('mentee-1')?.locale).toBe('en');
+    });
+
+    it('should reject unknown locales, types and frequencies', async () => {
+      const put = (body: unknown) => request('/api/v1/notifications/preferences', menteeToken, 'PUT', body);
+
+      expect((await put({ locale: 'fr' })).status).toBe(400);
+      expect((await put({ email: { unknown_type: 'off' } })).status).toBe(400);
+      expect((await put({ email: { forum_reply: 'weekly' } })).status).toBe(400);
+      expect(mockDb._preferences.size).toBe(0);
+    });
+  });
+
+  describe('immediate delivery', () => {
+    it('should email the recipient in their language', async () => {
+      await respond('accept');
+
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toBe('mentee@example.com');
+      expect(mailer.outbox[0].subject).toBe('Mentor One 接受了你的导师申请');
+      expect(mailer.outbox[0].text).toContain('https://leadfwd.org/matches');
+
+      const [notification] = Array.from(mockDb._notifications.values());
+      expect(notification.emailed_at).not.toBeNull();
+    });
+
+    it('should not email types set to daily or off', async () => {
+      mockDb._preferences.set('mentee-1:match_rejected', { user_id: 'mentee-1', type: 'match_rejected', email_frequency: 'off' });
+
+      await respond('reject');
+
+      expect(mailer.outbox).toHaveLength(0);
+      expect(mockDb._notifications.size).toBe(1);
+    });
+
+    it('should keep the notification when the mail transport fails', async () => {
+      vi.spyOn(mailer, 'send').mockRejectedValue(new Error('SMTP down'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const res = await respond('accept');
+
+      expect(res.status).toBe(200);
+      expect(mockDb._notifications.size).toBe(1);
+    });
+  });
+
+  describe('POST /api/v1/admin/notifications/send-digests', () => {
+    const addNotification = (id: string, userId: string, type: NotificationType, createdAt: number) =>
+      mockDb._notifications.set(id, {
+        id,
+        user_id: userId,
+        type,
+        actor_id: null,
+        data: JSON.stringify({ actor_name: 'Someone', title: `Post ${id}` }),
+        link: `/blogs/${id}`,
+        read_at: null,
+        emailed_at: null,
+        created_at: createdAt,
+      });
+
+    it('should bundle daily notifications into one email per user', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      addNotification('n1', 'mentor-1', NotificationType.BlogComment, now - 60);
+      addNotification('n2', 'mentor-1', NotificationType.ForumReply, now - 120);
+      addNotification('n3', 'mentor-1', NotificationType.BlogComment, now - 3 * 24 * 60 * 60); // Outside the window
+      addNotification('n4', 'mentor-1', NotificationType.MatchRequested, now - 60); // Immediate type
+
+      const adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+      const res = await request('/api/v1/admin/notifications/send-digests', adminToken, 'POST');
+
+      expect(await res.json()).toEqual({ success: true, users: 1, notifications: 2 });
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].subject).toBe('You have 2 new notifications on Lead Forward');
+      expect(mailer.outbox[0].text).toContain('Someone commented on "Post n1"');
+      expect(mockDb._notifications.get('n1')?.emailed_at).not.toBeNull();
+      expect(mockDb._notifications.get('n4')?.emailed_at).toBeNull();
+
+      // Already emailed notifications are not sent twice
+      await request('/api/v1/admin/notifications/send-digests', adminToken, 'POST');
+      expect(mailer.outbox).toHaveLength(1);
+    });
+
+    it('should require an admin', async () => {
+      const res = await request('/api/v1/admin/notifications/send-digests', menteeToken, 'POST');
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('templates', () => {
+    it('should pick plural forms and fall back to English', () => {
+      expect(translate('en', 'emails.digestSubject', { count: 1 })).toBe('You have 1 new notification on Lead Forward');
+      expect(translate('zh-CN', 'emails.digestSubject', { count: 3 })).toBe('你在 Lead Forward 有 3 条新通知');
+      expect(translate('fr', 'emails.greeting', { name: 'Ana' })).toBe('Ana，你好：');
+    });
+
+    it('should escape user content in the HTML body', () => {
+      const message = renderNotificationEmail(
+        {
+          id: 'n1',
+          user_id: 'u1',
+          type: NotificationType.ForumReply,
+          actor_id: 'u2',
+          data: { actor_name: '<script>', title: 'A & B' },
+          link: '/forums/threads/t1',
+          read_at: null,
+          created_at: 0,
+        },
+        { email: 'u1@example.com', name: 'User', locale: 'en' },
+        'https://example.org'
+      );
+
+      expect(message.html).toContain('&lt;script&gt; replied to &quot;A &amp; B&quot;');
+      expect(message.html).not.toContain('<script>');
+      expect(message.text).toContain('https://example.org/forums/threads/t1');
+    });
+  });
+
+  describe('transports', () => {
+    const message = { to: 'someone@example.com', subject: 'Private', text: 'Secret body', html: '<p>Secret body</p>' };
+
+    it('should skip sending without logging messages when nothing is configured', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const transport = new UnconfiguredMailTransport();
+
+      await transport.send(message);
+      await transport.send(message);
+
+      expect(resolveMailTransport({})).toBeInstanceOf(UnconfiguredMailTransport);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(JSON.stringify(warn.mock.calls)).not.toMatch(/someone@example\.com|Secret body/);
+      expect(log).not.toHaveBeenCalled();
+      warn.mockRestore();
+      log.mockRestore();
+    });
+
+    it('should only use the in-memory outbox when it is explicitly enabled', () => {
+      expect(resolveMailTransport({ MAIL_DEV_OUTBOX: 'true' })).toBeInstanceOf(InMemoryMailTransport);
+      expect(resolveMailTransport({ MAIL_DEV_OUTBOX: 'false' })).toBeInstanceOf(UnconfiguredMailTransport);
+      expect(resolveMailTransport({ MAIL_API_URL: 'https://mail.example.org', MAIL_API_KEY: 'key', MAIL_DEV_OUTBOX: 'true' }))
+        .not.toBeInstanceOf(InMemoryMailTransport);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Tests for event calendar feeds
+ *
+ * Endpoints under test:
+ * - GET /api/v1/events/calendar.ics - Public feed of all events
+ * - GET /api/v1/events/:id/ics - Download a single event
+ * - GET /api/v1/events/my-calendar.ics?token= - Personal feed of a member's RSVPs
+ * - GET/POST/DELETE /api/v1/events/calendar-feed - Manage the personal feed token
+ *
+ * Also covers time zone support in utils/ics.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { buildIcsCalendar, formatIcsLocalDate, getTimeZoneOffset } from '../utils/ics';
+import { sha256Hex } from '../utils/hash';
+import type { CreateCalendarFeedResponse, GetCalendarFeedResponse } from '../../types/event';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+type Row = Record<string, unknown>;
+
+interface MockState {
+  events?: Row[];
+  rsvps?: Row[];
+  feeds?: Row[];
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const events = state.events || [];
+  const rsvps = state.rsvps || [];
+  const feeds = state.feeds || [];
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM event_rsvps r')) {
+            const results = rsvps
+              .filter((r) => r.user_id === params[0] && (r.status === 'going' || r.status === 'waitlisted'))
+              .map((r) => ({ ...events.find((e) => e.id === r.event_id), rsvp_status: r.status }));
+            return { success: true, results };
+          }
+          if (query.includes('FROM events')) {
+            return { success: true, results: events };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM events WHERE id = ?')) {
+            return events.find((e) => e.id === params[0]) ?? null;
+          }
+          if (query.includes('WHERE token_hash = ?')) {
+            return feeds.find((f) => f.token_hash === params[0]) ?? null;
+          }
+          if (query.includes('FROM calendar_feed_tokens WHERE user_id = ?')) {
+            return feeds.find((f) => f.user_id === params[0]) ?? null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('INSERT INTO calendar_feed_tokens')) {
+            const [userId, tokenHash, now] = params;
+            const existing = feeds.find((f) => f.user_id === userId);
+            if (existing) {
+              Object.assign(existing, { token_hash: tokenHash, created_at: now, last_used_at: null });
+            } else {
+              feeds.push({ user_id: userId, token_hash: tokenHash, created_at: now, last_used_at: null });
+            }
+          } else if (query.includes('DELETE FROM calendar_feed_tokens')) {
+            feeds.splice(0, feeds.length, ...feeds.filter((f) => f.user_id !== params[0]));
+          } else if (query.includes('SET last_used_at')) {
+            const feed = feeds.find((f) => f.user_id === params[1]);
+            if (feed) feed.last_used_at = params[0];
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    _queries: queries,
+    _feeds: feeds,
+  };
+};
+
+// Saturday 18 April 2026, 14:00 to 16:00 in San Jose (PDT, UTC-7)
+const START = Date.UTC(2026, 3, 18, 21, 0, 0) / 1000;
+
+const eventRow = (overrides: Row = {}): Row => ({
+  id: 'event-1',
+  name: 'Speed Mentoring',
+  description: 'Meet five mentors, in an hour',
+  start_at: START,
+  end_at: START + 7200,
+  timezone: 'America/Los_Angeles',
+  location_type: 'offline',
+  address: '25 Metro Dr',
+  city: 'San Jose',
+  region: 'California',
+  country: 'United States',
+  full_address: '25 Metro Dr, San Jose, CA 95110, USA',
+  is_free: 1,
+  price_cents: null,
+  currency: null,
+  capacity: null,
+  hosts: '[]',
+  cover_image_url: null,
+  luma_url: null,
+  external_guest_count: 0,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  ...overrides,
+});
+
+// Unfold continuation lines so assertions can match whole properties
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Event calendar feeds', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', token = memberToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method }), mockEnv);
+  const publicRequest = (path: string) => app.fetch(new Request(`http://localhost${path}`), mockEnv);
+
+  beforeEach(async () => {
+    setup();
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/events/calendar.ics', () => {
+    it('should publish every event in the time zone it is held in', async () => {
+      setup({
+        events: [
+          eventRow(),
+          eventRow({ id: 'event-2', name: 'Online Panel', location_type: 'online', timezone: null, luma_url: 'https://luma.com/abc123' }),
+        ],
+      });
+
+      const res = await publicRequest('/api/v1/events/calendar.ics');
+      const ics = unfold(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/calendar');
+      expect(ics).toContain('X-WR-CALNAME:Lead Forward Events');
+      expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+      expect(ics).toContain('TZID:America/Los_Angeles');
+      expect(ics).toContain('UID:event-event-1@localhost');
+      expect(ics).toContain('DTSTART;TZID=America/Los_Angeles:20260418T140000');
+      expect(ics).toContain('DTEND;TZID=America/Los_Angeles:20260418T160000');
+      expect(ics).toContain('DESCRIPTION:Meet five mentors\\, in an hour');
+      expect(ics).toContain('LOCATION:25 Metro Dr\\, San Jose\\, CA 95110\\, USA');
+      // Events without a time zone stay in UTC
+      expect(ics).toContain('DTSTART:20260418T210000Z');
+      expect(ics).toContain('LOCATION:Online');
+      expect(ics).toContain('URL:https://luma.com/abc123');
+    });
+
+    it('should not be taken for an event ID', async () => {
+      setup({ events: [] });
+
+      const res = await publicRequest('/api/v1/events/calendar.ics');
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('BEGIN:VCALENDAR');
+    });
+  });
+
+  describe('GET /api/v1/events/:id/ics', () => {
+    it('should download a single event', async () => {
+      setup({ events: [eventRow()] });
+
+      const res = await publicRequest('/api/v1/events/event-1/ics');
+      const ics = unfold(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="event-event-1.ics"');
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+      expect(ics).toContain('SUMMARY:Speed Mentoring');
+      expect(ics).toContain('URL:https://leadfwd.org/events');
+    });
+
+    it('should return 404 for an unknown event', async () => {
+      setup({ events: [] });
+
+      const res = await publicRequest('/api/v1/events/missing/ics');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/events/my-calendar.ics', () => {
+    it('should list the events the member is going to or waitlisted for', async () => {
+      setup({
+        events: [eventRow(), eventRow({ id: 'event-2', name: 'Workshop' }), eventRow({ id: 'event-3', name: 'Cancelled Meetup' })],
+        rsvps: [
+          { event_id: 'event-1', user_id: 'user-1', status: 'going' },
+          { event_id: 'event-2', user_id: 'user-1', status: 'waitlisted' },
+          { event_id: 'event-3', user_id: 'user-1', status: 'cancelled' },
+        ],
+        feeds: [{ user_id: 'user-1', token_hash: await sha256Hex('feed-token'), created_at: 1700000000, last_used_at: null }],
+      });
+
+      const res = await publicRequest('/api/v1/events/my-calendar.ics?token=feed-token');
+      const ics = unfold(await res.text());
+
+      expect(res.status).toBe(200);
+      expect(ics).toContain('X-WR-CALNAME:My Lead Forward Events');
+      expect(ics).toMatch(/SUMMARY:Speed Mentoring\r\n(.+\r\n)*?STATUS:CONFIRMED/);
+      expect(ics).toMatch(/SUMMARY:Workshop\r\n(.+\r\n)*?STATUS:TENTATIVE/);
+      expect(ics).not.toContain('Cancelled Meetup');
+      expect(mockDb._feeds[0].last_used_at).toEqual(expect.any(Number));
+    });
+
+    it('should return 404 for an unknown or missing token', async () => {
+      setup({ feeds: [{ user_id: 'user-1', token_hash: await sha256Hex('feed-token'), created_at: 1700000000, last_used_at: null }] });
+
+      expect((await publicRequest('/api/v1/events/my-calendar.ics?token=wrong')).status).toBe(404);
+      expect((await publicRequest('/api/v1/events/my-calendar.ics')).status).toBe(404);
+    });
+  });
+
+  describe('/api/v1/events/calendar-feed', () => {
+    it('should require authentication', async () => {
+      const res = await publicRequest('/api/v1/events/calendar-feed');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should report when the member has no feed', async () => {
+      const res = await request('/api/v1/events/calendar-feed');
+      const data = await res.json() as GetCalendarFeedResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.feed).toBeNull();
+    });
+
+    it('should create a feed and store only the hash of its token', async () => {
+      const res = await request('/api/v1/events/calendar-feed', 'POST');
+      const data = await res.json() as CreateCalendarFeedResponse;
+
+      expect(res.status).toBe(201);
+      expect(data.token).toHaveLength(40);
+      expect(data.feed.last_used_at).toBeNull();
+      expect(mockDb._feeds[0].token_hash).toBe(await sha256Hex(data.token));
+
+      const feed = await publicRequest(`/api/v1/events/my-calendar.ics?token=${data.token}`);
+      expect(feed.status).toBe(200);
+    });
+
+    it('should replace the token when the feed is reset', async () => {
+      setup({ feeds: [{ user_id: 'user-1', token_hash: await sha256Hex('old-token'), created_at: 1700000000, last_used_at: 1700000500 }] });
+
+      const res = await request('/api/v1/events/calendar-feed', 'POST');
+      const data = await res.json() as CreateCalendarFeedResponse;
+
+      expect(mockDb._feeds).toHaveLength(1);
+      expect(mockDb._feeds[0].token_hash).toBe(await sha256Hex(data.token));
+      expect((await publicRequest('/api/v1/events/my-calendar.ics?token=old-token')).status).toBe(404);
+    });
+
+    it('should turn the feed off', async () => {
+      setup({ feeds: [{ user_id: 'user-1', token_hash: await sha256Hex('feed-token'), created_at: 1700000000, last_used_at: null }] });
+
+      const res = await request('/api/v1/events/calendar-feed', 'DELETE');
+
+      expect(res.status).toBe(200);
+      expect(mockDb._feeds).toHaveLength(0);
+      expect((await publicRequest('/api/v1/events/my-calendar.ics?token=feed-token')).status).toBe(404);
+    });
+  });
+});
+
+// ============================================================================
+// iCalendar Time Zones
+// ============================================================================
+
+describe('buildIcsCalendar time zones', () => {
+  it('should get the offset of a time zone at an instant', () => {
+    expect(getTimeZoneOffset(Date.UTC(2026, 0, 15, 12) / 1000, 'America/Los_Angeles')).toBe(-480);
+    expect(getTimeZoneOffset(Date.UTC(2026, 6, 15, 12) / 1000, 'America/Los_Angeles')).toBe(-420);
+    expect(getTimeZoneOffset(Date.UTC(2026, 6, 15, 12) / 1000, 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('should format local date-times without the UTC suffix', () => {
+    expect(formatIcsLocalDate(START, 'America/Los_Angeles')).toBe('20260418T140000');
+    expect(formatIcsLocalDate(START, 'Asia/Shanghai')).toBe('20260419T050000');
+  });
+
+  it('should describe the daylight saving changes between the events', () => {
+    const ics = buildIcsCalendar([
+      { uid: 'winter', start: Date.UTC(2026, 1, 1, 18) / 1000, end: Date.UTC(2026, 1, 1, 19) / 1000, summary: 'Winter', timeZone: 'America/Los_Angeles' },
+      { uid: 'summer', start: Date.UTC(2026, 6, 1, 18) / 1000, end: Date.UTC(2026, 6, 1, 19) / 1000, summary: 'Summer', timeZone: 'America/Los_Angeles' },
+    ]);
+
+    expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    expect(ics).toContain('BEGIN:STANDARD\r\nDTSTART:20260201T100000\r\nTZOFFSETFROM:-0800\r\nTZOFFSETTO:-0800\r\nTZNAME:PST');
+    expect(ics).toContain('BEGIN:DAYLIGHT\r\nDTSTART:20260308T020000\r\nTZOFFSETFROM:-0800\r\nTZOFFSETTO:-0700\r\nTZNAME:PDT');
+    expect(ics).toContain('DTSTART;TZID=America/Los_Angeles:20260701T110000');
+  });
+
+  it('should fall back to UTC for an unknown time zone', () => {
+    const ics = buildIcsCalendar([{ uid: 'event-1', start: 0, end: 3600, summary: 'Event', timeZone: 'Not/AZone' }]);
+
+    expect(ics).not.toContain('VTIMEZONE');
+    expect(ics).toContain('DTSTART:19700101T000000Z');
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * Tests for community events
+ *
+ * Endpoints under test:
+ * - GET /api/v1/events, GET /api/v1/events/:id - Public event list
+ * - POST/DELETE /api/v1/events/:id/rsvp - RSVP with capacity and waitlist
+ * - POST/PATCH/DELETE /api/v1/admin/events - Event management
+ * - GET /api/v1/admin/events/:id/attendees - Attendee list
+ * - POST/DELETE /api/v1/admin/events/:id/attendees/:userId/check-in - Check-in at the door
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { Event, EventRsvpResponse, GetEventAttendeesResponse, GetEventsResponse } from '../../types/event';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+type Row = Record<string, unknown>;
+
+interface MockState {
+  event?: Row | null;
+  rsvps?: Row[];
+}
+
+// Column order of INSERT INTO events and of the SET list of UPDATE events
+const EVENT_COLUMNS = [
+  'name', 'description', 'start_at', 'end_at', 'timezone', 'location_type', 'address', 'city', 'region',
+  'country', 'full_address', 'is_free', 'price_cents', 'currency', 'capacity', 'hosts', 'cover_image_url', 'luma_url',
+];
+
+/**
+ * Stateful mock that keeps one events row and its RSVPs, and evaluates the
+ * capacity checks the worker does in SQL
+ */
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const rsvps = state.rsvps || [];
+
+  const going = () => rsvps.filter((r) => r.status === 'going').length;
+  const hasSpot = () => state.event?.capacity === null || Number(state.event?.capacity) > going();
+  const eventRow = (userId: unknown) =>
+    state.event
+      ? {
+          ...state.event,
+          going_count: going(),
+          waitlist_count: rsvps.filter((r) => r.status === 'waitlisted').length,
+          my_rsvp: rsvps.find((r) => r.user_id === userId)?.status ?? null,
+        }
+      : null;
+  const withUser = (rsvp: Row) => ({ ...rsvp, user_name: `Name of ${rsvp.user_id}`, user_email: `${rsvp.user_id}@example.com` });
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('as going_count')) {
+            return { success: true, results: state.event ? [eventRow(params[0])] : [] };
+          }
+          if (query.includes("status = 'waitlisted'")) {
+            const waitlist = rsvps
+              .filter((r) => r.status === 'waitlisted')
+              .sort((a, b) => Number(a.created_at) - Number(b.created_at));
+            const limit = Number(params[1]);
+            return { success: true, results: limit < 0 ? waitlist : waitlist.slice(0, limit) };
+          }
+          if (query.includes("r.status IN ('going', 'waitlisted')")) {
+            const rank = (r: Row) => (r.status === 'going' ? 0 : 1);
+            const attendees = rsvps
+              .filter((r) => r.status !== 'cancelled')
+              .sort((a, b) => rank(a) - rank(b) || Number(a.created_at) - Number(b.created_at));
+            return { success: true, results: attendees.map(withUser) };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('as going_count')) {
+            return state.event && state.event.id === params[1] ? eventRow(params[0]) : null;
+          }
+          if (query.includes('FROM events WHERE id = ?')) {
+            return state.event && state.event.id === params[0] ? state.event : null;
+          }
+          if (query.includes('WHERE r.event_id = ? AND r.user_id = ?')) {
+            const rsvp = rsvps.find((r) => r.event_id === params[0] && r.user_id === params[1]);
+            return rsvp ? withUser(rsvp) : null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          let changes = 1;
+          if (query.includes('INSERT INTO event_rsvps')) {
+            const [id, eventId, userId, , now] = params;
+            const status = hasSpot() ? 'going' : 'waitlisted';
+            const existing = rsvps.find((r) => r.user_id === userId);
+            if (!existing) {
+              rsvps.push({ id, event_id: eventId, user_id: userId, status, checked_in_at: null, checked_in_by: null, created_at: now, updated_at: now });
+            } else if (existing.status === 'cancelled') {
+              Object.assign(existing, { status, checked_in_at: null, checked_in_by: null, created_at: now, updated_at: now });
+            } else {
+              changes = 0;
+            }
+          } else if (query.includes("SET status = 'going'")) {
+            const rsvp = rsvps.find((r) => r.id === params[1]);
+            if (rsvp?.status === 'waitlisted' && hasSpot()) {
+              rsvp.status = 'going';
+            } else {
+              changes = 0;
+            }
+          } else if (query.includes("SET status = 'cancelled'")) {
+            const rsvp = rsvps.find((r) => r.id === params[1]);
+            if (rsvp) {
+              Object.assign(rsvp, { status: 'cancelled', checked_in_at: null, checked_in_by: null });
+            }
+          } else if (query.includes('SET checked_in_at')) {
+            const checkIn = query.includes('COALESCE');
+            const [eventId, userId] = checkIn ? params.slice(3) : params.slice(1);
+            const rsvp = rsvps.find((r) => r.event_id === eventId && r.user_id === userId && r.status === 'going');
+            if (!rsvp) {
+              changes = 0;
+            } else if (checkIn) {
+              rsvp.checked_in_at = rsvp.checked_in_at ?? params[0];
+              rsvp.checked_in_by = rsvp.checked_in_by ?? params[1];
+            } else {
+              Object.assign(rsvp, { checked_in_at: null, checked_in_by: null });
+            }
+          } else if (query.includes('INSERT INTO events')) {
+            const [id, ...values] = params;
+            state.event = {
+              id,
+              ...Object.fromEntries(EVENT_COLUMNS.map((column, i) => [column, values[i]])),
+              external_guest_count: 0,
+              created_by: values[EVENT_COLUMNS.length],
+            };
+          } else if (query.includes('UPDATE events')) {
+            state.event = { ...state.event, ...Object.fromEntries(EVENT_COLUMNS.map((column, i) => [column, params[i]])) };
+          }
+          return { success: true, meta: { changes } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    _queries: queries,
+  };
+};
+
+const NOW = Math.floor(Date.now() / 1000);
+const DAY = 24 * 60 * 60;
+
+const eventRow = (overrides: Row = {}): Row => ({
+  id: 'event-1',
+  name: 'Speed Mentoring',
+  description: 'Meet five mentors in an hour',
+  start_at: NOW + 7 * DAY,
+  end_at: NOW + 7 * DAY + 7200,
+  timezone: 'America/Los_Angeles',
+  location_type: 'offline',
+  address: '25 Metro Dr',
+  city: 'San Jose',
+  region: 'California',
+  country: 'United States',
+  full_address: '25 Metro Dr, San Jose, CA 95110, USA',
+  is_free: 1,
+  price_cents: null,
+  currency: null,
+  capacity: 2,
+  hosts: JSON.stringify([{ name: 'Lead Forward' }]),
+  cover_image_url: null,
+  luma_url: 'https://luma.com/o4f5akc4',
+  external_guest_count: 0,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  ...overrides,
+});
+
+const rsvpRow = (userId: string, status: string, createdAt: number): Row => ({
+  id: `rsvp-${userId}`,
+  event_id: 'event-1',
+  user_id: userId,
+  status,
+  checked_in_at: null,
+  checked_in_by: null,
+  created_at: createdAt,
+  updated_at: createdAt,
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Events', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = memberToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+  const notifications = () => mockDb._queries.filter((q) => q.query.includes('INSERT INTO notifications'));
+  const auditEntries = () => mockDb._queries.filter((q) => q.query.includes('INSERT INTO admin_audit_log'));
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/events', () => {
+    it('should list events with their RSVP counts and the caller\'s RSVP', async () => {
+      setup({ event: eventRow({ external_guest_count: 30 }), rsvps: [rsvpRow('user-1', 'going', 1), rsvpRow('user-2', 'waitlisted', 2)] });
+
+      const res = await request('/api/v1/events');
+      const data = await res.json() as GetEventsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.events[0]).toMatchObject({
+        id: 'event-1',
+        start_at: new Date((NOW + 7 * DAY) * 1000).toISOString(),
+        location: { location_type: 'offline', city: 'San Jose' },
+        ticket_info: { is_free: true, spots_remaining: 1, is_sold_out: false },
+        hosts: [{ name: 'Lead Forward' }],
+        guest_count: 31,
+        capacity: 2,
+        waitlist_count: 1,
+        my_rsvp: 'going',
+        luma_url: 'https://luma.com/o4f5akc4',
+        luma_slug: 'o4f5akc4',
+      });
+      expect(findQuery('as going_count')?.params).toEqual(['user-1']);
+    });
+
+    it('should be public', async () => {
+      setup({ event: eventRow({ luma_url: null }) });
+
+      const res = await app.fetch(new Request('http://localhost/api/v1/events'), mockEnv);
+      const data = await res.json() as GetEventsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.events[0].my_rsvp).toBeNull();
+      expect(data.events[0]).not.toHaveProperty('luma_url');
+      expect(findQuery('as going_count')?.params).toEqual([null]);
+    });
+
+    it('should return 404 for an unknown event', async () => {
+      expect((await request('/api/v1/events/missing')).status).toBe(404);
+    });
+  });
+
+  describe('RSVP', () => {
+    it('should mark the member going while spots are left', async () => {
+      setup({ event: eventRow(), rsvps: [rsvpRow('user-2', 'going', 1)] });
+
+      const res = await request('/api/v1/events/event-1/rsvp', 'POST');
+      const data = await res.json() as EventRsvpResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.rsvp).toMatchObject({ user_id: 'user-1', status: 'going' });
+      expect(data.event).toMatchObject({ my_rsvp: 'going', ticket_info: { spots_remaining: 0, is_sold_out: true } });
+    });
+
+    it('should put the member on the waitlist once the event is full', async () => {
+      setup({ event: eventRow(), rsvps: [rsvpRow('user-2', 'going', 1), rsvpRow('user-3', 'going', 2)] });
+
+      const res = await request('/api/v1/events/event-1/rsvp', 'POST');
+      const data = await res.json() as EventRsvpResponse;
+
+      expect(data.rsvp.status).toBe('waitlisted');
+      expect(data.event.waitlist_count).toBe(1);
+      // The capacity is checked in the same statement that takes the spot
+      expect(findQuery('INSERT INTO event_rsvps')?.query).toContain("CASE WHEN (\n  SELECT e.capacity IS NULL OR e.capacity >");
+    });
+
+    it('should leave an existing RSVP unchanged', async () => {
+      setup({ event: eventRow(), rsvps: [rsvpRow('user-1', 'waitlisted', 1)] });
+
+      const res = await request('/api/v1/events/event-1/rsvp', 'POST');
+      const data = await res.json() as EventRsvpResponse;
+
+      expect(data.rsvp.status).toBe('waitlisted');
+      expect(findQuery('INSERT INTO event_rsvps')).toBeUndefined();
+    });
+
+    it('should reject RSVPs to ended events and anonymous callers', async () => {
+      setup({ event: eventRow({ start_at: NOW - DAY, end_at: NOW - DAY + 3600 }) });
+      expect((await request('/api/v1/events/event-1/rsvp', 'POST')).status).toBe(400);
+
+      const anonymous = await app.fetch(new Request('http://localhost/api/v1/events/event-1/rsvp', { method: 'POST' }), mockEnv);
+      expect(anonymous.status).toBe(401);
+    });
+
+    it('should give a cancelled spot to the first member on the waitlist', async () => {
+      setup({
+        event: eventRow(),
+        rsvps: [
+          rsvpRow('user-1', 'going', 1),
+          rsvpRow('user-2', 'going', 2),
+          rsvpRow('user-4', 'waitlisted', 4),
+          rsvpRow('user-3', 'waitlisted', 3),
+        ],
+      });
+
+      const res = await request('/api/v1/events/event-1/rsvp', 'DELETE');
+      const data = await res.json() as EventRsvpResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.rsvp.status).toBe('cancelled');
+      expect(data.event).toMatchObject({ my_rsvp: 'cancelled', waitlist_count: 1, ticket_info: { is_sold_out: true } });
+      expect(findQuery("status = 'waitlisted'\n      ORDER BY")?.params).toEqual(['event-1', 1]);
+      expect(notifications()).toHaveLength(1);
+      expect(notifications()[0].params.slice(1, 4)).toEqual(['user-3', 'event_spot_opened', null]);
+    });
+
+    it('should not promote anyone when a member leaves the waitlist', async () => {
+      setup({ event: eventRow(), rsvps: [rsvpRow('user-2', 'going', 1), rsvpRow('user-3', 'going', 2), rsvpRow('user-1', 'waitlisted', 3)] });
+
+      const res = await request('/api/v1/events/event-1/rsvp', 'DELETE');
+
+      expect(res.status).toBe(200);
+      expect(findQuery("SET status = 'going'")).toBeUndefined();
+      expect(notifications()).toHaveLength(0);
+    });
+
+    it('should return 404 when the member has not RSVP\'d', async () => {
+      setup({ event: eventRow(), rsvps: [rsvpRow('user-1', 'cancelled', 1)] });
+
+      expect((await request('/api/v1/events/event-1/rsvp', 'DELETE')).status).toBe(404);
+    });
+  });
+
+  describe('Admin event management', () => {
+    const body = {
+      name: ' Resume Workshop ',
+      start_at: new Date((NOW + DAY) * 1000).toISOString(),
+      end_at: new Date((NOW + DAY + 3600) * 1000).toISOString(),
+      timezone: 'America/Los_Angeles',
+      location: { location_type: 'online' },
+      capacity: 20,
+      hosts: [{ name: 'Yang Zhao' }],
+    };
+
+    it('should create an event and audit it', async () => {
+      const res = await request('/api/v1/admin/events', 'POST', body, adminToken);
+      const data = await res.json() as { event: Event };
+
+      expect(res.status).toBe(201);
+      expect(data.event).toMatchObject({
+        name: 'Resume Workshop',
+        start_at: body.start_at.replace(/\.\d{3}Z$/, '.000Z'),
+        capacity: 20,
+        ticket_info: { is_free: true, spots_remaining: 20 },
+        hosts: [{ name: 'Yang Zhao' }],
+      });
+      expect(auditEntries()[0].params.slice(1, 5)).toEqual(['admin-1', 'event.create', 'event', data.event.id]);
+    });
+
+    it('should validate events', async () => {
+      const create = (overrides: Record<string, unknown>) =>
+        request('/api/v1/admin/events', 'POST', { ...body, ...overrides }, adminToken);
+
+      expect((await create({ name: '' })).status).toBe(400);
+      expect((await create({ end_at: body.start_at })).status).toBe(400);
+      expect((await create({ start_at: 'next tuesday' })).status).toBe(400);
+      expect((await create({ location: { location_type: 'offline' } })).status).toBe(400);
+      expect((await create({ capacity: 0 })).status).toBe(400);
+      expect((await create({ timezone: 'Mars/Olympus' })).status).toBe(400);
+      expect((await create({ luma_url: 'javascript:alert(1)' })).status).toBe(400);
+      expect(findQuery('INSERT INTO events')).toBeUndefined();
+    });
+
+    it('should move the waitlist up when the capacity is raised, auditing only changed fields', async () => {
+      setup({
+        event: eventRow(),
+        rsvps: [rsvpRow('user-1', 'going', 1), rsvpRow('user-2', 'going', 2), rsvpRow('user-3', 'waitlisted', 3), rsvpRow('user-4', 'waitlisted', 4)],
+      });
+
+      const res = await request('/api/v1/admin/events/event-1', 'PATCH', { capacity: 3, name: 'Speed Mentoring' }, adminToken);
+      const data = await res.json() as { event: Event };
+
+      expect(res.status).toBe(200);
+      expect(data.event).toMatchObject({ capacity: 3, waitlist_count: 1 });
+      expect(notifications().map((q) => q.params[1])).toEqual(['user-3']);
+      const audit = auditEntries()[0];
+      expect(audit.params[2]).toBe('event.update');
+      expect(JSON.parse(audit.params[5] as string)).toEqual({ capacity: 2 });
+      expect(JSON.parse(audit.params[6] as string)).toEqual({ capacity: 3 });
+    });
+
+    it('should delete an event with its RSVPs', async () => {
+      setup({ event: eventRow() });
+
+      const res = await request('/api/v1/admin/events/event-1', 'DELETE', undefined, adminToken);
+
+      expect(res.status).toBe(200);
+      expect(findQuery('DELETE FROM event_rsvps')?.params).toEqual(['event-1']);
+      expect(findQuery('DELETE FROM events')?.params).toEqual(['event-1']);
+      expect(auditEntries()[0].params[2]).toBe('event.delete');
+    });
+
+    it('should require an admin', async () => {
+      setup({ event: eventRow() });
+
+      expect((await request('/api/v1/admin/events', 'POST', body)).status).toBe(403);
+      expect((await request('/api/v1/admin/events/event-1', 'PATCH', { capacity: 5 })).status).toBe(403);
+      expect((await request('/api/v1/admin/events/event-1/attendees')).status).toBe(403);
+    });
+  });
+
+  describe('Attendees and check-in', () => {
+    beforeEach(() => {
+      setup({ event: eventRow(), rsvps: [rsvpRow('user-3', 'waitlisted', 3), rsvpRow('user-2', 'going', 2), rsvpRow('user-1', 'cancelled', 1)] });
+    });
+
+    it('should list members going, then the waitlist', async () => {
+      const res = await request('/api/v1/admin/events/event-1/attendees', 'GET', undefined, adminToken);
+      const data = await res.json() as GetEventAttendeesResponse;
+
+      expect(data.attendees.map((a) => [a.user_id, a.status])).toEqual([['user-2', 'going'], ['user-3', 'waitlisted']]);
+      expect(data.attendees[0]).toMatchObject({ user_name: 'Name of user-2', user_email: 'user-2@example.com' });
+    });
+
+    it('should check in a member going and undo it', async () => {
+      const res = await request('/api/v1/admin/events/event-1/attendees/user-2/check-in', 'POST', undefined, adminToken);
+      const data = await res.json() as { attendee: { checked_in_at: number | null; checked_in_by: string | null } };
+
+      expect(res.status).toBe(200);
+      expect(data.attendee.checked_in_at).toBeGreaterThanOrEqual(NOW);
+      expect(data.attendee.checked_in_by).toBe('admin-1');
+
+      const undo = await request('/api/v1/admin/events/event-1/attendees/user-2/check-in', 'DELETE', undefined, adminToken);
+      expect(((await undo.json()) as typeof data).attendee.checked_in_at).toBeNull();
+    });
+
+    it('should not check in members who are not going', async () => {
+      const res = await request('/api/v1/admin/events/event-1/attendees/user-3/check-in', 'POST', undefined, adminToken);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for server-side feature flag enforcement
+ *
+ * Covers:
+ * - requireFeature on gated route groups (mentor search, match requests, blogs, challenges,
+ *   leaderboard, rewards store)
+ * - Targeted flags evaluated for the caller
+ * - Cached flag lookups and cache invalidation from the admin feature routes
+ * - Blog results dropped from search while blogs are off
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createUnauthenticatedRequest, createTestEnv } from './utils/testAuth';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+const flagRow = (featureKey: string, overrides: Record<string, unknown> = {}) => ({
+  id: `ft-${featureKey}`,
+  feature_key: featureKey,
+  display_name: featureKey,
+  description: null,
+  enabled: 1,
+  audience: 'everyone',
+  target_user_ids: '[]',
+  rollout_percentage: 100,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  ...overrides,
+});
+
+const createMockDb = (flags: Record<string, unknown>[]) => {
+  const queries: RecordedQuery[] = [];
+  const flagsById = new Map(flags.map((flag) => [flag.id as string, { ...flag }]));
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM feature_flags')) {
+            return { success: true, results: Array.from(flagsById.values()) };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT * FROM feature_flags WHERE id = ?')) {
+            return flagsById.get(params[0] as string) || null;
+          }
+          if (query.includes('COUNT(*)')) {
+            return { count: 0 };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('UPDATE feature_flags SET enabled = ?')) {
+            const flag = flagsById.get(params[params.length - 1] as string);
+            if (flag) {
+              flag.enabled = params[0];
+            }
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ run: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.run());
+      }
+      return results;
+    }),
+    _queries: queries,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Feature flag enforcement', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (flags: Record<string, unknown>[]) => {
+    mockDb = createMockDb(flags);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = memberToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const flagLookups = () => mockDb._queries.filter((q) => q.query.includes('SELECT feature_key, enabled'));
+
+  beforeEach(async () => {
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('requireFeature', () => {
+    it('should return 404 with a feature_disabled payload when the flag is off', async () => {
+      setup([flagRow('mentor_search', { enabled: 0 })]);
+
+      const res = await request('/api/v1/mentors/search');
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({
+        error: 'This feature is not available',
+        code: 'feature_disabled',
+        feature: 'mentor_search',
+      });
+    });
+
+    it('should treat a missing flag as off', async () => {
+      setup([]);
+
+      const res = await request('/api/v1/challenges');
+
+      expect(res.status).toBe(404);
+      expect((await res.json()).feature).toBe('challenges');
+    });
+
+    it('should let requests through when the flag is on', async () => {
+      setup([flagRow('challenges')]);
+
+      const res = await request('/api/v1/challenges');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ challenges: [] });
+    });
+
+    it('should gate every route in a group, including the bare path', async () => {
+      setup([flagRow('challenges', { enabled: 0 }), flagRow('blogs', { enabled: 0 }), flagRow('rewards_store', { enabled: 0 })]);
+
+      for (const path of ['/api/v1/challenges', '/api/v1/challenges/challenge-1', '/api/v1/blogs', '/api/v1/blogs/blog-1/comments', '/api/v1/rewards']) {
+        const res = await app.fetch(createUnauthenticatedRequest(`http://localhost${path}`), mockEnv);
+        expect(res.status).toBe(404);
+      }
+      const redeem = await request('/api/v1/rewards/reward-1/redeem', 'POST', {});
+      expect(redeem.status).toBe(404);
+    });
+
+    it('should only gate new match requests', async () => {
+      setup([flagRow('match_requests', { enabled: 0 })]);
+
+      const create = await request('/api/v1/matches', 'POST', { mentor_id: 'mentor-1' });
+      expect(create.status).toBe(404);
+      expect((await create.json()).feature).toBe('match_requests');
+
+      const list = await request('/api/v1/matches');
+      expect(list.status).not.toBe(404);
+    });
+
+    it('should evaluate targeted flags for the caller', async () => {
+      setup([flagRow('challenges', { audience: 'admins' })]);
+
+      expect((await request('/api/v1/challenges', 'GET', undefined, memberToken)).status).toBe(404);
+      expect((await request('/api/v1/challenges', 'GET', undefined, adminToken)).status).toBe(200);
+    });
+  });
+
+  describe('Flag cache', () => {
+    it('should load the flags once for repeated requests', async () => {
+      setup([flagRow('challenges')]);
+
+      await request('/api/v1/challenges');
+      await request('/api/v1/challenges');
+      await request('/api/v1/challenges/challenge-1');
+
+      expect(flagLookups()).toHaveLength(1);
+    });
+
+    it('should reload the flags after an admin toggles one', async () => {
+      setup([flagRow('challenges', { enabled: 0 })]);
+      expect((await request('/api/v1/challenges')).status).toBe(404);
+
+      const toggle = await request('/api/v1/admin/features/ft-challenges', 'PATCH', { enabled: true }, adminToken);
+      expect(toggle.status).toBe(200);
+
+      expect((await request('/api/v1/challenges')).status).toBe(200);
+      expect(flagLookups()).toHaveLength(2);
+    });
+  });
+
+  describe('Search', () => {
+    it('should leave blogs out of search results while blogs are off', async () => {
+      setup([flagRow('blogs', { enabled: 0 })]);
+
+      const res = await request('/api/v1/search?q=mentoring');
+
+      expect(res.status).toBe(200);
+      const searchQuery = mockDb._queries.find((q) => q.query.includes('FROM search_index'));
+      expect(searchQuery?.query).toContain("s.content_type != 'blog'");
+    });
+
+    it('should include blogs when they are on', async () => {
+      setup([flagRow('blogs')]);
+
+      await request('/api/v1/search?q=mentoring');
+
+      const searchQuery = mockDb._queries.find((q) => q.query.includes('FROM search_index'));
+      expect(searchQuery?.query).not.toContain("s.content_type != 'blog'");
+    });
+  });
+});
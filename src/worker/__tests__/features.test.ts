@@ -5,15 +5,17 @@
  * Endpoints under test:
  * - GET /api/v1/admin/features - List all feature flags (admin-only)
  * - POST /api/v1/admin/features - Create new feature flag (admin-only)
- * - PATCH /api/v1/admin/features/:id - Toggle feature flag (admin-only)
+ * - PATCH /api/v1/admin/features/:id - Toggle feature flag or edit its targeting (admin-only)
  * - DELETE /api/v1/admin/features/:id - Delete feature flag (admin-only)
- * - GET /api/v1/features/enabled - Get enabled features (public)
+ * - GET /api/v1/features/enabled - Get enabled features, evaluated for the caller (public)
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import app from '../index';
 import { createToken } from '../auth/jwt';
 import type { AuthPayload } from '../../types/user';
+import { getRolloutBucket } from '../../types/features';
+import { DEFAULT_TEST_SESSION_ID, withTestSession } from './utils/testAuth';
 
 interface Env {
   platform_db: D1Database;
@@ -32,6 +34,9 @@ interface MockFeatureFlag {
   display_name: string;
   description: string | null;
   enabled: number; // SQLite stores as INTEGER
+  audience?: string;
+  target_user_ids?: string; // JSON array
+  rollout_percentage?: number;
   created_at: number;
   updated_at: number;
 }
@@ -68,7 +73,7 @@ const createMockDb = () => {
     updated_at: Date.now(),
   });
 
-  const createMockMethods = (params: (string | number)[] = []) => ({
+  const createMockMethods = (query: string, params: (string | number)[] = []) => ({
     all: vi.fn(async () => {
       // GET all features
       if (query.includes('SELECT * FROM feature_flags') && query.includes('ORDER BY')) {
@@ -79,7 +84,7 @@ const createMockDb = () => {
       }
 
       // GET enabled features only
-      if (query.includes('SELECT feature_key FROM feature_flags WHERE enabled = 1')) {
+      if (query.includes('FROM feature_flags WHERE enabled = 1')) {
         const enabled = Array.from(mockFeatures.values()).filter(
           (f) => f.enabled === 1
         );
@@ -115,25 +120,31 @@ const createMockDb = () => {
     run: vi.fn(async () => {
       // INSERT new feature
       if (query.includes('INSERT INTO feature_flags')) {
-        const [id, key, name, desc, enabled, created, updated] = params;
+        const [id, key, name, desc, enabled, audience, targetUserIds, rolloutPercentage, created, updated] = params;
         mockFeatures.set(id as string, {
           id: id as string,
           feature_key: key as string,
           display_name: name as string,
           description: desc as string | null,
           enabled: enabled as number,
+          audience: audience as string,
+          target_user_ids: targetUserIds as string,
+          rollout_percentage: rolloutPercentage as number,
           created_at: created as number,
           updated_at: updated as number,
         });
         return { success: true };
       }
 
-      // UPDATE feature (toggle)
+      // UPDATE feature (toggle and targeting)
       if (query.includes('UPDATE feature_flags SET enabled')) {
-        const [enabled, updated, id] = params;
+        const [enabled, audience, targetUserIds, rolloutPercentage, updated, id] = params;
         const feature = mockFeatures.get(id as string);
         if (feature) {
           feature.enabled = enabled as number;
+          feature.audience = audience as string;
+          feature.target_user_ids = targetUserIds as string;
+          feature.rollout_percentage = rolloutPercentage as number;
           feature.updated_at = updated as number;
         }
         return { success: true };
@@ -149,17 +160,21 @@ const createMockDb = () => {
     }),
   });
 
-  let query = '';
-
   return {
-    prepare: vi.fn((q: string) => {
-      query = q;
-      const withoutBind = createMockMethods();
+    prepare: vi.fn((query: string) => {
+      const withoutBind = createMockMethods(query);
       return {
         ...withoutBind,
-        bind: vi.fn((...params: (string | number)[]) => createMockMethods(params)),
+        bind: vi.fn((...params: (string | number)[]) => createMockMethods(query, params)),
       };
     }),
+    batch: vi.fn(async (statements: Array<{ run: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.run());
+      }
+      return results;
+    }),
   };
 };
 
@@ -177,6 +192,7 @@ const adminUser: AuthPayload = {
   email: 'admin@example.com',
   name: 'Admin User',
   role: 'admin',
+  sid: DEFAULT_TEST_SESSION_ID,
 };
 
 const memberUser: AuthPayload = {
@@ -184,12 +200,13 @@ const memberUser: AuthPayload = {
   email: 'member@example.com',
   name: 'Member User',
   role: 'member',
+  sid: DEFAULT_TEST_SESSION_ID,
 };
 
 beforeEach(() => {
   mockDb = createMockDb();
   mockEnv = {
-    platform_db: mockDb as unknown as D1Database,
+    platform_db: withTestSession(mockDb as unknown as D1Database),
     JWT_SECRET: jwtSecret,
   };
 });
@@ -316,6 +333,32 @@ describe('POST /api/v1/admin/features', () => {
     expect(data.error).toContain('already exists');
   });
 
+  it('should create a feature flag with targeting', async () => {
+    const token = await createToken(adminUser, jwtSecret);
+    const req = new Request('http://localhost/api/v1/admin/features', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        feature_key: 'beta_editor',
+        display_name: 'Beta Editor',
+        enabled: true,
+        audience: 'percentage',
+        rollout_percentage: 25,
+      }),
+    });
+
+    const res = await app.fetch(req, mockEnv);
+    expect(res.status).toBe(201);
+
+    const data = await res.json();
+    expect(data.audience).toBe('percentage');
+    expect(data.rollout_percentage).toBe(25);
+    expect(data.target_user_ids).toEqual([]);
+  });
+
   it('should require display_name field', async () => {
     const token = await createToken(adminUser, jwtSecret);
     const missingName = {
@@ -421,6 +464,63 @@ describe('PATCH /api/v1/admin/features/:id', () => {
     expect(res.status).toBe(400);
   });
 
+  it('should update targeting without changing enabled', async () => {
+    const token = await createToken(adminUser, jwtSecret);
+    const req = new Request('http://localhost/api/v1/admin/features/ft-1', {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ audience: 'users', target_user_ids: [' member-user-456 '] }),
+    });
+
+    const res = await app.fetch(req, mockEnv);
+    expect(res.status).toBe(200);
+
+    const data = await res.json();
+    expect(data.enabled).toBe(true);
+    expect(data.audience).toBe('users');
+    expect(data.target_user_ids).toEqual(['member-user-456']);
+    expect(data.rollout_percentage).toBe(100);
+  });
+
+  it('should reject an unknown audience', async () => {
+    const token = await createToken(adminUser, jwtSecret);
+    const req = new Request('http://localhost/api/v1/admin/features/ft-1', {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ audience: 'moderators' }),
+    });
+
+    const res = await app.fetch(req, mockEnv);
+    expect(res.status).toBe(400);
+
+    const data = await res.json();
+    expect(data.error).toContain('audience');
+  });
+
+  it('should reject a rollout percentage outside 0-100', async () => {
+    const token = await createToken(adminUser, jwtSecret);
+    const req = new Request('http://localhost/api/v1/admin/features/ft-1', {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ audience: 'percentage', rollout_percentage: 150 }),
+    });
+
+    const res = await app.fetch(req, mockEnv);
+    expect(res.status).toBe(400);
+
+    const data = await res.json();
+    expect(data.error).toContain('rollout_percentage');
+  });
+
   it('should return 403 for non-admin users', async () => {
     const token = await createToken(memberUser, jwtSecret);
     const updateData = {
@@ -539,3 +639,79 @@ describe('GET /api/v1/features/enabled', () => {
     expect(Object.keys(data).length).toBe(0);
   });
 });
+
+// ============================================================================
+// Tests: Audience targeting on GET /api/v1/features/enabled
+// ============================================================================
+
+describe('Feature flag targeting', () => {
+  const setTargeting = async (id: string, body: Record<string, unknown>) => {
+    const token = await createToken(adminUser, jwtSecret);
+    const res = await app.fetch(
+      new Request(`http://localhost/api/v1/admin/features/${id}`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }),
+      mockEnv
+    );
+    expect(res.status).toBe(200);
+  };
+
+  const getEnabledFor = async (user: AuthPayload | null) => {
+    const headers: Record<string, string> = {};
+    if (user) {
+      headers.Authorization = `Bearer ${await createToken(user, jwtSecret)}`;
+    }
+    const res = await app.fetch(new Request('http://localhost/api/v1/features/enabled', { headers }), mockEnv);
+    expect(res.status).toBe(200);
+    return res.json() as Promise<Record<string, boolean>>;
+  };
+
+  it('should only enable admin-targeted flags for admins', async () => {
+    await setTargeting('ft-2', { enabled: true, audience: 'admins' });
+
+    expect(await getEnabledFor(adminUser)).toHaveProperty('challenges', true);
+    expect(await getEnabledFor(memberUser)).not.toHaveProperty('challenges');
+    expect(await getEnabledFor(null)).not.toHaveProperty('challenges');
+  });
+
+  it('should only enable user-targeted flags for the listed users', async () => {
+    await setTargeting('ft-2', { enabled: true, audience: 'users', target_user_ids: ['member-user-456'] });
+
+    expect(await getEnabledFor(memberUser)).toHaveProperty('challenges', true);
+    expect(await getEnabledFor(adminUser)).not.toHaveProperty('challenges');
+    expect(await getEnabledFor(null)).not.toHaveProperty('challenges');
+  });
+
+  it('should enable percentage rollouts for users whose bucket is below the percentage', async () => {
+    const bucket = getRolloutBucket('challenges', memberUser.userId);
+
+    await setTargeting('ft-2', { enabled: true, audience: 'percentage', rollout_percentage: bucket + 1 });
+    expect(await getEnabledFor(memberUser)).toHaveProperty('challenges', true);
+    expect(await getEnabledFor(null)).not.toHaveProperty('challenges');
+
+    await setTargeting('ft-2', { rollout_percentage: bucket });
+    expect(await getEnabledFor(memberUser)).not.toHaveProperty('challenges');
+  });
+
+  it('should keep targeted flags off while disabled', async () => {
+    await setTargeting('ft-2', { enabled: false, audience: 'users', target_user_ids: ['member-user-456'] });
+
+    expect(await getEnabledFor(memberUser)).not.toHaveProperty('challenges');
+  });
+
+  it('should bucket users stably and per feature', () => {
+    const bucket = getRolloutBucket('challenges', 'user-1');
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+    expect(getRolloutBucket('challenges', 'user-1')).toBe(bucket);
+
+    // Across many users, buckets spread over the whole range
+    const buckets = new Set(Array.from({ length: 500 }, (_, i) => getRolloutBucket('challenges', `user-${i}`)));
+    expect(buckets.size).toBeGreaterThan(90);
+  });
+});
@@ -3,6 +3,7 @@ import type { D1Database } from '@cloudflare/workers-types';
 import type { AuthPayload } from '../../types/user';
 import { createToken } from '../auth/jwt';
 import app from '../index';
+import { DEFAULT_TEST_SESSION_ID, withTestSession } from './utils/testAuth';
 
 const JWT_SECRET = 'test-jwt-secret';
 
@@ -10,7 +11,7 @@ const JWT_SECRET = 'test-jwt-secret';
  * Create a JWT token for testing
  */
 async function createTestToken(userId: string, email: string, name: string): Promise<string> {
-  const payload: AuthPayload = { userId, email, name };
+  const payload: AuthPayload = { userId, email, name, sid: DEFAULT_TEST_SESSION_ID };
   return createToken(payload, JWT_SECRET);
 }
 
@@ -103,7 +104,7 @@ function createMockDb() {
 }
 
 const mockEnv: TestEnv = {
-  platform_db: createMockDb() as D1Database,
+  platform_db: withTestSession(createMockDb() as D1Database),
   JWT_SECRET,
 };
 
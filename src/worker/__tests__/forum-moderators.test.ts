@@ -0,0 +1,340 @@
+/**
+ * Tests for the moderator role and per-category forum moderators
+ *
+ * Endpoints under test:
+ * - PATCH /api/v1/forums/threads/:threadId/pin - Admins and category moderators
+ * - PATCH /api/v1/forums/threads/:threadId/status - Thread author or category moderators
+ * - PATCH /api/v1/forums/threads/:threadId/category - Move thread (admins and category moderators)
+ * - DELETE /api/v1/forums/threads/:threadId - Delete thread (admins and category moderators)
+ * - GET/POST/DELETE /api/v1/admin/forums/... - Manage category moderator assignments (admin only)
+ * - POST /api/v1/roles - Moderator role assignment
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { ForumCategoryModerator } from '../../types/forum';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  threads?: Record<string, { user_id: string; category_id: string }>;
+  categories?: string[];
+  assignments?: { category_id: string; user_id: string }[];
+  roles?: Record<string, string>;
+}
+
+const createMockDb = (state: MockState) => {
+  const queries: RecordedQuery[] = [];
+  const threads = state.threads || {};
+  const categories = state.categories || [];
+  const assignments = state.assignments || [];
+  const roles = state.roles || {};
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM forum_category_moderators m')) {
+            return { success: true, results: assignments };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM forum_category_moderators WHERE category_id = ? AND user_id = ?')) {
+            const [categoryId, userId] = params;
+            return assignments.some((a) => a.category_id === categoryId && a.user_id === userId) ? { 1: 1 } : null;
+          }
+          if (query.includes('FROM forum_threads t') && query.includes('WHERE t.id = ?')) {
+            const thread = threads[params[0] as string];
+            return thread ? { id: params[0], ...thread, author_name: 'Author' } : null;
+          }
+          if (query.includes('FROM forum_threads WHERE id = ?')) {
+            const thread = threads[params[0] as string];
+            return thread ? { id: params[0], ...thread } : null;
+          }
+          if (query.includes('FROM forum_categories WHERE id = ?')) {
+            return categories.includes(params[0] as string) ? { id: params[0] } : null;
+          }
+          if (query.includes('SELECT role FROM user_roles WHERE user_id = ?')) {
+            const role = roles[params[0] as string];
+            return role ? { role } : null;
+          }
+          if (query.includes('SELECT id FROM users WHERE id = ?')) {
+            return { id: params[0] };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('DELETE FROM forum_category_moderators WHERE category_id = ?')) {
+            const [categoryId, userId] = params;
+            const exists = assignments.some((a) => a.category_id === categoryId && a.user_id === userId);
+            return { success: true, meta: { changes: exists ? 1 : 0 } };
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ run: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.run());
+      }
+      return results;
+    }),
+    _queries: queries,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Forum Moderators', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let moderatorToken: string;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb({
+      threads: {
+        'thread-1': { user_id: 'author-1', category_id: 'cat-general' },
+        'thread-2': { user_id: 'author-1', category_id: 'cat-jobs' },
+      },
+      categories: ['cat-general', 'cat-jobs', 'cat-events'],
+      assignments: [
+        { category_id: 'cat-general', user_id: 'mod-1' },
+        { category_id: 'cat-events', user_id: 'mod-1' },
+      ],
+      roles: { 'mod-1': 'moderator', 'member-1': 'member' },
+      ...state,
+    });
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+
+  const request = (path: string, token: string, method: string, body?: Record<string, unknown>) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    moderatorToken = await createTestToken('mod-1', 'mod@example.com', 'Mod', 'moderator');
+    memberToken = await createTestToken('member-1', 'member@example.com', 'Member');
+  });
+
+  describe('PATCH /api/v1/forums/threads/:threadId/pin', () => {
+    it('should let a moderator pin threads in their category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/pin', moderatorToken, 'PATCH', { is_pinned: true });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('UPDATE forum_threads SET is_pinned')?.params).toEqual([1, expect.any(Number), 'thread-1']);
+    });
+
+    it('should reject moderators outside their categories', async () => {
+      const res = await request('/api/v1/forums/threads/thread-2/pin', moderatorToken, 'PATCH', { is_pinned: true });
+
+      expect(res.status).toBe(403);
+      expect(findQuery('UPDATE forum_threads SET is_pinned')).toBeUndefined();
+    });
+
+    it('should let admins pin threads in any category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-2/pin', adminToken, 'PATCH', { is_pinned: true });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('forum_category_moderators')).toBeUndefined();
+    });
+
+    it('should reject members without checking assignments', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/pin', memberToken, 'PATCH', { is_pinned: true });
+
+      expect(res.status).toBe(403);
+      expect(mockDb._queries).toHaveLength(0);
+    });
+  });
+
+  describe('PATCH /api/v1/forums/threads/:threadId/status', () => {
+    it('should let a moderator close threads in their category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/status', moderatorToken, 'PATCH', { status: 'closed' });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('UPDATE forum_threads SET status')?.params[0]).toBe('closed');
+    });
+
+    it('should reject moderators outside their categories', async () => {
+      const res = await request('/api/v1/forums/threads/thread-2/status', moderatorToken, 'PATCH', { status: 'closed' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('PATCH /api/v1/forums/threads/:threadId/category', () => {
+    it('should move a thread between categories the moderator moderates', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/category', moderatorToken, 'PATCH', {
+        category_id: 'cat-events',
+      });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('UPDATE forum_threads SET category_id')?.params).toEqual([
+        'cat-events',
+        expect.any(Number),
+        'thread-1',
+      ]);
+    });
+
+    it('should require moderating the destination category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/category', moderatorToken, 'PATCH', {
+        category_id: 'cat-jobs',
+      });
+
+      expect(res.status).toBe(403);
+      expect(findQuery('UPDATE forum_threads SET category_id')).toBeUndefined();
+    });
+
+    it('should return 404 for an unknown destination category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/category', adminToken, 'PATCH', {
+        category_id: 'cat-missing',
+      });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should reject moving a thread to its current category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/category', adminToken, 'PATCH', {
+        category_id: 'cat-general',
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should require category_id', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1/category', adminToken, 'PATCH', {});
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/v1/forums/threads/:threadId', () => {
+    it('should soft-delete a thread and keep its replies and search documents', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1', moderatorToken, 'DELETE');
+
+      expect(res.status).toBe(200);
+      const update = findQuery('UPDATE forum_threads SET deleted_at = ?');
+      expect(update?.params[1]).toBe('mod-1');
+      expect(update?.params[3]).toBe('thread-1');
+      expect(findQuery('DELETE FROM forum_replies')).toBeUndefined();
+      expect(findQuery('DELETE FROM search_index')).toBeUndefined();
+    });
+
+    it('should reject moderators outside their categories', async () => {
+      const res = await request('/api/v1/forums/threads/thread-2', moderatorToken, 'DELETE');
+
+      expect(res.status).toBe(403);
+      expect(findQuery('UPDATE forum_threads SET deleted_at')).toBeUndefined();
+    });
+
+    it('should return 404 for a missing thread', async () => {
+      const res = await request('/api/v1/forums/threads/thread-missing', adminToken, 'DELETE');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Category moderator assignments', () => {
+    it('should list assignments for admins', async () => {
+      const res = await request('/api/v1/admin/forums/moderators?user_id=mod-1', adminToken, 'GET');
+      const data = await res.json() as { moderators: ForumCategoryModerator[] };
+
+      expect(res.status).toBe(200);
+      expect(data.moderators).toHaveLength(2);
+      expect(findQuery('FROM forum_category_moderators m')?.params).toEqual(['mod-1']);
+    });
+
+    it('should reject non-admins', async () => {
+      const res = await request('/api/v1/admin/forums/moderators', moderatorToken, 'GET');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should assign a moderator to a category', async () => {
+      const res = await request('/api/v1/admin/forums/categories/cat-jobs/moderators', adminToken, 'POST', {
+        user_id: 'mod-1',
+      });
+      const data = await res.json() as { moderator: ForumCategoryModerator };
+
+      expect(res.status).toBe(201);
+      expect(data.moderator).toMatchObject({ category_id: 'cat-jobs', user_id: 'mod-1', assigned_by: 'admin-1' });
+      expect(findQuery('INSERT INTO forum_category_moderators')?.params.slice(0, 3)).toEqual([
+        'cat-jobs',
+        'mod-1',
+        'admin-1',
+      ]);
+    });
+
+    it('should only assign users with the moderator role', async () => {
+      const res = await request('/api/v1/admin/forums/categories/cat-jobs/moderators', adminToken, 'POST', {
+        user_id: 'member-1',
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject duplicate assignments', async () => {
+      const res = await request('/api/v1/admin/forums/categories/cat-general/moderators', adminToken, 'POST', {
+        user_id: 'mod-1',
+      });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should return 404 for an unknown category', async () => {
+      const res = await request('/api/v1/admin/forums/categories/cat-missing/moderators', adminToken, 'POST', {
+        user_id: 'mod-1',
+      });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should remove an assignment', async () => {
+      const res = await request('/api/v1/admin/forums/categories/cat-general/moderators/mod-1', adminToken, 'DELETE');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should return 404 when removing a missing assignment', async () => {
+      const res = await request('/api/v1/admin/forums/categories/cat-jobs/moderators/mod-1', adminToken, 'DELETE');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/roles', () => {
+    it('should assign the moderator role and keep category assignments', async () => {
+      const res = await request('/api/v1/roles', adminToken, 'POST', { userId: 'mod-1', role: 'moderator' });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('DELETE FROM forum_category_moderators WHERE user_id = ?')).toBeUndefined();
+    });
+
+    it('should drop category assignments when demoting a moderator', async () => {
+      const res = await request('/api/v1/roles', adminToken, 'POST', { userId: 'mod-1', role: 'member' });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('DELETE FROM forum_category_moderators WHERE user_id = ?')?.params).toEqual(['mod-1']);
+    });
+  });
+});
@@ -33,11 +33,11 @@ function createMockDb() {
     prepare: vi.fn((query: string) => ({
       bind: vi.fn((...params: unknown[]) => ({
         first: vi.fn(async () => {
-          // SELECT thread id only
-          if (query.includes('SELECT id FROM forum_threads WHERE id = ?')) {
+          // SELECT thread id and pin state
+          if (query.includes('SELECT id, is_pinned FROM forum_threads WHERE id = ?')) {
             const threadId = params[0];
             const thread = threads.get(threadId as string);
-            return thread ? { id: thread.id } : null;
+            return thread ? { id: thread.id, is_pinned: thread.is_pinned } : null;
           }
 
           // SELECT thread with user info (JOIN query)
@@ -80,6 +80,13 @@ function createMockDb() {
       first: vi.fn(async () => null),
       run: vi.fn(async () => ({ success: true, meta: { changes: 0 } })),
     })),
+    batch: vi.fn(async (statements: Array<{ run: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.run());
+      }
+      return results;
+    }),
   };
 }
 
@@ -0,0 +1,461 @@
+/**
+ * Tests for forum points
+ *
+ * Behaviour under test:
+ * - Creating threads and replies awards points with diminishing returns
+ * - Upvotes award the content author; withdrawing or switching the vote reverses them
+ * - Marking a solution awards the reply and thread authors; unmarking or replacing it reverses them
+ * - Threads reaching 100/500/1000 views award their author once per milestone, including
+ *   milestones a count skipped past
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { pointsLedgerRow } from './utils/mockDbFactory';
+import {
+  POINTS_FOR_CREATE_THREAD,
+  POINTS_FOR_CREATE_REPLY,
+  POINTS_FOR_RECEIVING_UPVOTE_THREAD,
+  POINTS_FOR_RECEIVING_UPVOTE_REPLY,
+  POINTS_FOR_THREAD_SOLVED,
+  POINTS_FOR_REPLY_MARKED_SOLUTION,
+  POINTS_FOR_THREAD_100_VIEWS,
+  POINTS_FOR_THREAD_500_VIEWS,
+} from '../../types/points';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  rows?: Record<string, Record<string, unknown> | null>;
+  recentActions?: number;
+  outstanding?: number;
+  previousSolutions?: Record<string, unknown>[];
+  awardedMilestones?: string[];
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const ledger: Record<string, unknown>[] = [];
+  const rows = state.rows || {};
+
+  const findRow = (query: string) => {
+    const key = Object.keys(rows).find((text) => query.includes(text));
+    return key ? rows[key] : null;
+  };
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('AND is_solution = 1 AND id != ?')) {
+            return { success: true, results: state.previousSolutions || [] };
+          }
+          if (query.includes('SELECT action_type FROM point_actions_log')) {
+            return { success: true, results: (state.awardedMilestones || []).map((action_type) => ({ action_type })) };
+          }
+          // Every user starts from a balance of 100
+          if (query.includes('RETURNING points_awarded')) {
+            const row = pointsLedgerRow(query, params, 100);
+            ledger.push(row);
+            return { success: true, results: [row] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM point_actions_log') && query.includes('COUNT(*) as count')) {
+            return { count: state.recentActions || 0 };
+          }
+          if (query.includes('COALESCE(SUM(points_awarded), 0) as total')) {
+            return { total: state.outstanding || 0 };
+          }
+          return findRow(query);
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
+    _queries: queries,
+    _ledger: ledger,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Forum Points', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let authorToken: string;
+  let voterToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'POST', body?: Record<string, unknown>, token = voterToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const pointLogs = () =>
+    mockDb._ledger.map((row) => ({
+      userId: row.user_id,
+      actionType: row.action_type,
+      referenceId: row.reference_id,
+      points: row.points_awarded,
+    }));
+
+  const reversals = () =>
+    pointLogs()
+      .filter((log) => String(log.actionType).endsWith('_reversed'))
+      .map((log) => -(log.points as number));
+
+  beforeEach(async () => {
+    setup();
+    authorToken = await createTestToken('author-1', 'author@example.com', 'Author');
+    voterToken = await createTestToken('voter-1', 'voter@example.com', 'Voter');
+  });
+
+  describe('Creating content', () => {
+    it('should award points for creating a thread', async () => {
+      setup({ rows: { 'SELECT id FROM forum_categories WHERE id = ?': { id: 'cat-1' } } });
+
+      const res = await request('/api/v1/forums/threads', 'POST', {
+        category_id: 'cat-1',
+        title: 'Volunteering tips',
+        content: 'Share yours',
+      }, authorToken);
+
+      expect(res.status).toBe(201);
+      expect(pointLogs()).toEqual([
+        expect.objectContaining({ userId: 'author-1', actionType: 'thread_created', points: POINTS_FOR_CREATE_THREAD }),
+      ]);
+    });
+
+    it('should halve thread points after three threads in the window and stop after five', async () => {
+      setup({ rows: { 'SELECT id FROM forum_categories WHERE id = ?': { id: 'cat-1' } }, recentActions: 3 });
+      await request('/api/v1/forums/threads', 'POST', { category_id: 'cat-1', title: 'A', content: 'B' }, authorToken);
+      expect(pointLogs()[0].points).toBe(Math.floor(POINTS_FOR_CREATE_THREAD * 0.5));
+
+      setup({ rows: { 'SELECT id FROM forum_categories WHERE id = ?': { id: 'cat-1' } }, recentActions: 5 });
+      await request('/api/v1/forums/threads', 'POST', { category_id: 'cat-1', title: 'A', content: 'B' }, authorToken);
+      expect(pointLogs()[0].points).toBe(0);
+    });
+
+    it('should award points for creating a reply', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, title FROM forum_threads': { id: 'thread-1', user_id: 'author-1', title: 'Tips' },
+        },
+      });
+
+      const res = await request('/api/v1/forums/threads/thread-1/replies', 'POST', { content: 'Thanks!' });
+
+      expect(res.status).toBe(201);
+      expect(pointLogs()).toEqual([
+        expect.objectContaining({ userId: 'voter-1', actionType: 'reply_created', points: POINTS_FOR_CREATE_REPLY }),
+      ]);
+    });
+
+    it('should reduce reply points to 40% after ten replies in the window', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, title FROM forum_threads': { id: 'thread-1', user_id: 'author-1', title: 'Tips' },
+        },
+        recentActions: 10,
+      });
+
+      await request('/api/v1/forums/threads/thread-1/replies', 'POST', { content: 'Thanks!' });
+
+      expect(pointLogs()[0].points).toBe(Math.floor(POINTS_FOR_CREATE_REPLY * 0.4));
+    });
+  });
+
+  describe('Upvotes', () => {
+    const threadRow = { id: 'thread-1', user_id: 'author-1', upvote_count: 0, downvote_count: 0 };
+
+    it('should award the thread author for a new upvote', async () => {
+      setup({ rows: { 'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow } });
+
+      const res = await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(res.status).toBe(200);
+      expect(pointLogs()).toEqual([
+        expect.objectContaining({
+          userId: 'author-1',
+          actionType: 'upvote_received',
+          points: POINTS_FOR_RECEIVING_UPVOTE_THREAD,
+        }),
+      ]);
+    });
+
+    it('should not award points for downvotes or self-upvotes', async () => {
+      setup({ rows: { 'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow } });
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'downvote' });
+      expect(pointLogs()).toEqual([]);
+
+      setup({ rows: { 'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow } });
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' }, authorToken);
+      expect(pointLogs()).toEqual([]);
+    });
+
+    it('should reverse points when an upvote is withdrawn', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow,
+          'SELECT id, vote_type FROM forum_votes': { id: 'vote-1', vote_type: 'upvote' },
+        },
+        outstanding: POINTS_FOR_RECEIVING_UPVOTE_THREAD,
+      });
+
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(reversals()).toEqual([POINTS_FOR_RECEIVING_UPVOTE_THREAD]);
+      expect(pointLogs()).toEqual([
+        {
+          userId: 'author-1',
+          actionType: 'upvote_received_reversed',
+          referenceId: 'vote-1',
+          points: -POINTS_FOR_RECEIVING_UPVOTE_THREAD,
+        },
+      ]);
+    });
+
+    it('should reverse points when an upvote is switched to a downvote', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow,
+          'SELECT id, vote_type FROM forum_votes': { id: 'vote-1', vote_type: 'upvote' },
+        },
+        outstanding: 1,
+      });
+
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'downvote' });
+
+      expect(reversals()).toEqual([1]);
+    });
+
+    it('should award points when a downvote is switched to an upvote', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow,
+          'SELECT id, vote_type FROM forum_votes': { id: 'vote-1', vote_type: 'downvote' },
+        },
+      });
+
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(reversals()).toEqual([]);
+      expect(pointLogs()).toEqual([
+        expect.objectContaining({ userId: 'author-1', actionType: 'upvote_received', referenceId: 'vote-1' }),
+      ]);
+    });
+
+    it('should skip the reversal when nothing is outstanding', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow,
+          'SELECT id, vote_type FROM forum_votes': { id: 'vote-1', vote_type: 'upvote' },
+        },
+        outstanding: 0,
+      });
+
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(reversals()).toEqual([]);
+      expect(pointLogs()).toEqual([]);
+    });
+
+    it('should award the reply author for an upvote', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, upvote_count, downvote_count FROM forum_replies': {
+            id: 'reply-1',
+            user_id: 'author-1',
+            upvote_count: 0,
+            downvote_count: 0,
+          },
+        },
+      });
+
+      await request('/api/v1/forums/replies/reply-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(pointLogs()).toEqual([
+        expect.objectContaining({
+          userId: 'author-1',
+          actionType: 'upvote_received',
+          points: POINTS_FOR_RECEIVING_UPVOTE_REPLY,
+        }),
+      ]);
+    });
+
+    it('should halve upvote points after five upvotes in the window', async () => {
+      setup({
+        rows: { 'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': threadRow },
+        recentActions: 5,
+      });
+
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(pointLogs()[0].points).toBe(Math.floor(POINTS_FOR_RECEIVING_UPVOTE_THREAD * 0.5));
+    });
+  });
+
+  describe('Solutions', () => {
+    const solutionRows = (isSolution: number, replyAuthor = 'voter-1') => ({
+      'SELECT thread_id, user_id, is_solution FROM forum_replies': {
+        thread_id: 'thread-1',
+        user_id: replyAuthor,
+        is_solution: isSolution,
+      },
+      'SELECT user_id FROM forum_threads WHERE id = ?': { user_id: 'author-1' },
+    });
+
+    it('should award the reply and thread authors when a solution is marked', async () => {
+      setup({ rows: solutionRows(0) });
+
+      const res = await request('/api/v1/forums/replies/reply-1/mark-solution', 'POST', undefined, authorToken);
+
+      expect(res.status).toBe(200);
+      expect(pointLogs()).toEqual([
+        {
+          userId: 'voter-1',
+          actionType: 'reply_marked_solution',
+          referenceId: 'reply-1',
+          points: POINTS_FOR_REPLY_MARKED_SOLUTION,
+        },
+        {
+          userId: 'author-1',
+          actionType: 'thread_solved',
+          referenceId: 'reply-1',
+          points: POINTS_FOR_THREAD_SOLVED,
+        },
+      ]);
+    });
+
+    it('should not award points for answering your own thread', async () => {
+      setup({ rows: solutionRows(0, 'author-1') });
+
+      await request('/api/v1/forums/replies/reply-1/mark-solution', 'POST', undefined, authorToken);
+
+      expect(pointLogs()).toEqual([]);
+    });
+
+    it('should move points from a replaced solution', async () => {
+      setup({
+        rows: solutionRows(0),
+        previousSolutions: [{ id: 'reply-0', user_id: 'helper-2' }],
+        outstanding: POINTS_FOR_REPLY_MARKED_SOLUTION,
+      });
+
+      await request('/api/v1/forums/replies/reply-1/mark-solution', 'POST', undefined, authorToken);
+
+      expect(pointLogs().map((log) => [log.userId, log.actionType, log.referenceId])).toEqual([
+        ['helper-2', 'reply_marked_solution_reversed', 'reply-0'],
+        ['author-1', 'thread_solved_reversed', 'reply-0'],
+        ['voter-1', 'reply_marked_solution', 'reply-1'],
+        ['author-1', 'thread_solved', 'reply-1'],
+      ]);
+    });
+
+    it('should reverse points when a solution is unmarked', async () => {
+      setup({ rows: solutionRows(1), outstanding: POINTS_FOR_THREAD_SOLVED });
+
+      const res = await request('/api/v1/forums/replies/reply-1/mark-solution', 'DELETE', undefined, authorToken);
+
+      expect(res.status).toBe(200);
+      expect(pointLogs().map((log) => [log.userId, log.actionType])).toEqual([
+        ['voter-1', 'reply_marked_solution_reversed'],
+        ['author-1', 'thread_solved_reversed'],
+      ]);
+    });
+  });
+
+  describe('View milestones', () => {
+    it('should award the thread author when a view reaches a milestone', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, view_count FROM forum_threads': { id: 'thread-1', user_id: 'author-1', view_count: 99 },
+          'RETURNING view_count': { view_count: 100 },
+        },
+      });
+
+      const res = await request('/api/v1/forums/threads/thread-1/view');
+
+      expect(res.status).toBe(200);
+      expect(pointLogs()).toEqual([
+        {
+          userId: 'author-1',
+          actionType: 'thread_100_views',
+          referenceId: 'thread-1',
+          points: POINTS_FOR_THREAD_100_VIEWS,
+        },
+      ]);
+    });
+
+    it('should award every milestone a count skipped past', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, view_count FROM forum_threads': { id: 'thread-1', user_id: 'author-1', view_count: 520 },
+          'RETURNING view_count': { view_count: 521 },
+        },
+        awardedMilestones: [],
+      });
+
+      await request('/api/v1/forums/threads/thread-1/view');
+
+      expect(pointLogs().map((log) => [log.actionType, log.points])).toEqual([
+        ['thread_100_views', POINTS_FOR_THREAD_100_VIEWS],
+        ['thread_500_views', POINTS_FOR_THREAD_500_VIEWS],
+      ]);
+      const conditions = mockDb._queries.filter((q) => q.query.includes('RETURNING points_awarded'));
+      expect(conditions.every((q) => q.query.includes('NOT EXISTS'))).toBe(true);
+      expect(conditions.map((q) => q.params.slice(-3))).toEqual([
+        ['author-1', 'thread_100_views', 'thread-1'],
+        ['author-1', 'thread_500_views', 'thread-1'],
+      ]);
+    });
+
+    it('should not award points between milestones or for repeat views', async () => {
+      setup({
+        rows: {
+          'SELECT id, user_id, view_count FROM forum_threads': { id: 'thread-1', user_id: 'author-1', view_count: 100 },
+          'RETURNING view_count': { view_count: 101 },
+        },
+        awardedMilestones: ['thread_100_views'],
+      });
+      await request('/api/v1/forums/threads/thread-1/view');
+      expect(pointLogs()).toEqual([]);
+
+      setup({
+        rows: {
+          'SELECT id, user_id, view_count FROM forum_threads': { id: 'thread-1', user_id: 'author-1', view_count: 100 },
+          'SELECT id FROM forum_thread_views': { id: 'view-1' },
+        },
+      });
+      await request('/api/v1/forums/threads/thread-1/view');
+      expect(pointLogs()).toEqual([]);
+      expect(mockDb._queries.some((q) => q.query.includes('RETURNING view_count'))).toBe(false);
+    });
+  });
+});
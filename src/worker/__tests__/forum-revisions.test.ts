@@ -0,0 +1,388 @@
+/**
+ * Tests for forum thread editing and revision history
+ *
+ * Endpoints under test:
+ * - PUT /api/v1/forums/threads/:id - Edit thread (author and category moderators)
+ * - GET /api/v1/forums/threads/:id/revisions - Every version of a thread
+ * - PUT /api/v1/forums/replies/:replyId - Edit reply (author)
+ * - GET /api/v1/forums/replies/:replyId/revisions - Every version of a reply
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createUnauthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { ForumRevision } from '../../types/forum';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface PostRow {
+  user_id: string;
+  title?: string;
+  content: string;
+  category_id?: string;
+  thread_id?: string;
+  created_at: number;
+  edited_at: number | null;
+  edited_by: string | null;
+  hidden_at: number | null;
+}
+
+interface RevisionRow {
+  content_type: string;
+  content_id: string;
+  title: string | null;
+  content: string;
+  edited_by: string | null;
+  created_at: number;
+}
+
+const USER_NAMES: Record<string, string> = {
+  'author-1': 'Author',
+  'mod-1': 'Mod',
+  'member-1': 'Member',
+};
+
+const createMockDb = () => {
+  const queries: RecordedQuery[] = [];
+  const threads: Record<string, PostRow> = {
+    'thread-1': {
+      user_id: 'author-1',
+      category_id: 'cat-general',
+      title: 'Original title',
+      content: '<p>Original content</p>',
+      created_at: 1700000000,
+      edited_at: null,
+      edited_by: null,
+      hidden_at: null,
+    },
+    'thread-2': {
+      user_id: 'author-1',
+      category_id: 'cat-jobs',
+      title: 'Jobs thread',
+      content: '<p>Jobs</p>',
+      created_at: 1700000000,
+      edited_at: null,
+      edited_by: null,
+      hidden_at: null,
+    },
+    'thread-hidden': {
+      user_id: 'author-1',
+      category_id: 'cat-general',
+      title: 'Hidden thread',
+      content: '<p>Spam</p>',
+      created_at: 1700000000,
+      edited_at: null,
+      edited_by: null,
+      hidden_at: 1700000500,
+    },
+  };
+  const replies: Record<string, PostRow> = {
+    'reply-1': {
+      user_id: 'author-1',
+      thread_id: 'thread-1',
+      content: 'First answer',
+      created_at: 1700000100,
+      edited_at: null,
+      edited_by: null,
+      hidden_at: null,
+    },
+  };
+  const revisions: RevisionRow[] = [];
+  const assignments = [{ category_id: 'cat-general', user_id: 'mod-1' }];
+
+  const withEditorName = (row: PostRow) => ({ ...row, edited_by_name: USER_NAMES[row.edited_by || row.user_id] });
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM forum_revisions r')) {
+            const [contentType, contentId] = params;
+            const results = revisions
+              .filter((r) => r.content_type === contentType && r.content_id === contentId)
+              .map((r) => ({ ...r, edited_by_name: r.edited_by ? USER_NAMES[r.edited_by] : null }));
+            return { success: true, results };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM forum_category_moderators WHERE category_id = ? AND user_id = ?')) {
+            const [categoryId, userId] = params;
+            return assignments.some((a) => a.category_id === categoryId && a.user_id === userId) ? { 1: 1 } : null;
+          }
+          if (query.includes('FROM forum_threads t') && query.includes('WHERE t.id = ?')) {
+            const thread = threads[params[0] as string];
+            if (!thread) return null;
+            return query.includes('edited_by_name')
+              ? withEditorName(thread)
+              : { id: params[0], ...thread, author_name: USER_NAMES[thread.user_id], author_email: 'author@example.com' };
+          }
+          if (query.includes('FROM forum_threads') && query.includes('WHERE id = ?')) {
+            const thread = threads[params[0] as string];
+            return thread ? { id: params[0], ...thread } : null;
+          }
+          if (query.includes('FROM forum_replies r') && query.includes('WHERE r.id = ?')) {
+            const reply = replies[params[0] as string];
+            if (!reply) return null;
+            return query.includes('edited_by_name')
+              ? withEditorName(reply)
+              : { id: params[0], ...reply, author_name: USER_NAMES[reply.user_id], author_email: 'author@example.com' };
+          }
+          if (query.includes('FROM forum_replies WHERE id = ?')) {
+            const reply = replies[params[0] as string];
+            return reply ? { id: params[0], ...reply } : null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('INSERT INTO forum_revisions')) {
+            const [, contentType, contentId, title, content, editedBy, createdAt] = params;
+            revisions.push({
+              content_type: contentType as string,
+              content_id: contentId as string,
+              title: title as string | null,
+              content: content as string,
+              edited_by: editedBy as string | null,
+              created_at: createdAt as number,
+            });
+          }
+          if (query.includes('UPDATE forum_threads') && query.includes('SET title = ?')) {
+            const [title, content, editedAt, editedBy, , threadId] = params;
+            Object.assign(threads[threadId as string], { title, content, edited_at: editedAt, edited_by: editedBy });
+          }
+          if (query.includes('UPDATE forum_replies SET content = ?')) {
+            const [content, , editedAt, editedBy, replyId] = params;
+            Object.assign(replies[replyId as string], { content, edited_at: editedAt, edited_by: editedBy });
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    _queries: queries,
+    _revisions: revisions,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Forum Revisions', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let authorToken: string;
+  let moderatorToken: string;
+  let memberToken: string;
+  let adminToken: string;
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+
+  const request = (path: string, token: string, method: string, body?: Record<string, unknown>) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const getRevisions = async (path: string) => {
+    const res = await app.fetch(createUnauthenticatedRequest(`http://localhost${path}`), mockEnv);
+    return (await res.json() as { revisions: ForumRevision[] }).revisions;
+  };
+
+  beforeEach(async () => {
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+    authorToken = await createTestToken('author-1', 'author@example.com', 'Author');
+    moderatorToken = await createTestToken('mod-1', 'mod@example.com', 'Mod', 'moderator');
+    memberToken = await createTestToken('member-1', 'member@example.com', 'Member');
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+  });
+
+  describe('PUT /api/v1/forums/threads/:id', () => {
+    it('should let the author edit and keep the previous version', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1', authorToken, 'PUT', {
+        title: '  Updated title ',
+        content: '<p>Updated content</p>',
+      });
+
+      expect(res.status).toBe(200);
+      const { thread } = await res.json() as { thread: { title: string; content: string; edited_by: string; edited_at: number } };
+      expect(thread).toMatchObject({ title: 'Updated title', content: '<p>Updated content</p>', edited_by: 'author-1' });
+      expect(thread.edited_at).toEqual(expect.any(Number));
+      expect(mockDb._revisions).toEqual([
+        {
+          content_type: 'thread',
+          content_id: 'thread-1',
+          title: 'Original title',
+          content: '<p>Original content</p>',
+          edited_by: 'author-1',
+          created_at: 1700000000,
+        },
+      ]);
+    });
+
+    it('should sanitize content and update the search index', async () => {
+      await request('/api/v1/forums/threads/thread-1', authorToken, 'PUT', {
+        content: '<p>Safe</p><script>alert(1)</script>',
+      });
+
+      const update = findQuery('UPDATE forum_threads');
+      expect(update?.params.slice(0, 2)).toEqual(['Original title', '<p>Safe</p>']);
+      const insert = findQuery('INSERT INTO search_index');
+      expect(insert?.params).toEqual(['Original title', 'Safe', 'thread', 'thread-1', 'author-1']);
+    });
+
+    it('should let a moderator edit threads in their category', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1', moderatorToken, 'PUT', { title: 'Clearer title' });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('UPDATE forum_threads')?.params).toEqual([
+        'Clearer title',
+        '<p>Original content</p>',
+        expect.any(Number),
+        'mod-1',
+        expect.any(Number),
+        'thread-1',
+      ]);
+    });
+
+    it('should reject moderators outside their categories and other members', async () => {
+      const outside = await request('/api/v1/forums/threads/thread-2', moderatorToken, 'PUT', { title: 'Nope' });
+      const member = await request('/api/v1/forums/threads/thread-1', memberToken, 'PUT', { title: 'Nope' });
+
+      expect(outside.status).toBe(403);
+      expect(member.status).toBe(403);
+      expect(mockDb._revisions).toHaveLength(0);
+      expect(findQuery('UPDATE forum_threads')).toBeUndefined();
+    });
+
+    it('should not record a revision when nothing changed', async () => {
+      const res = await request('/api/v1/forums/threads/thread-1', authorToken, 'PUT', {
+        title: 'Original title',
+        content: '<p>Original content</p>',
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockDb._revisions).toHaveLength(0);
+      expect(findQuery('UPDATE forum_threads')).toBeUndefined();
+    });
+
+    it('should validate the title and content', async () => {
+      const empty = await request('/api/v1/forums/threads/thread-1', authorToken, 'PUT', { title: '   ' });
+      const missing = await request('/api/v1/forums/threads/thread-1', authorToken, 'PUT', {});
+
+      expect(empty.status).toBe(400);
+      expect(missing.status).toBe(400);
+    });
+
+    it('should return 404 for missing and hidden threads', async () => {
+      const missing = await request('/api/v1/forums/threads/thread-404', authorToken, 'PUT', { title: 'New' });
+      const hidden = await request('/api/v1/forums/threads/thread-hidden', authorToken, 'PUT', { title: 'New' });
+
+      expect(missing.status).toBe(404);
+      expect(hidden.status).toBe(404);
+    });
+
+    it('should require authentication', async () => {
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1', { method: 'PUT', body: { title: 'New' } }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/v1/forums/threads/:id/revisions', () => {
+    it('should list every version oldest first with who wrote it', async () => {
+      await request('/api/v1/forums/threads/thread-1', authorToken, 'PUT', { content: '<p>Second</p>' });
+      await request('/api/v1/forums/threads/thread-1', moderatorToken, 'PUT', { title: 'Third title' });
+
+      const revisions = await getRevisions('/api/v1/forums/threads/thread-1/revisions');
+
+      expect(revisions.map((r) => [r.version, r.title, r.content, r.edited_by_name, r.is_current])).toEqual([
+        [1, 'Original title', '<p>Original content</p>', 'Author', false],
+        [2, 'Original title', '<p>Second</p>', 'Author', false],
+        [3, 'Third title', '<p>Second</p>', 'Mod', true],
+      ]);
+      expect(revisions[0].created_at).toBe(1700000000);
+    });
+
+    it('should return only the current version of an unedited thread', async () => {
+      const revisions = await getRevisions('/api/v1/forums/threads/thread-1/revisions');
+
+      expect(revisions).toEqual([
+        {
+          version: 1,
+          title: 'Original title',
+          content: '<p>Original content</p>',
+          edited_by: 'author-1',
+          edited_by_name: 'Author',
+          created_at: 1700000000,
+          is_current: true,
+        },
+      ]);
+    });
+
+    it('should only show hidden threads to admins', async () => {
+      const anonymous = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/forums/threads/thread-hidden/revisions'),
+        mockEnv
+      );
+      const admin = await request('/api/v1/forums/threads/thread-hidden/revisions', adminToken, 'GET');
+
+      expect(anonymous.status).toBe(404);
+      expect(admin.status).toBe(200);
+    });
+  });
+
+  describe('replies', () => {
+    it('should keep the previous version of an edited reply', async () => {
+      const res = await request('/api/v1/forums/replies/reply-1', authorToken, 'PUT', { content: 'Better answer' });
+      expect(res.status).toBe(200);
+
+      const revisions = await getRevisions('/api/v1/forums/replies/reply-1/revisions');
+
+      expect(revisions.map((r) => [r.version, r.title, r.content, r.is_current])).toEqual([
+        [1, null, 'First answer', false],
+        [2, null, 'Better answer', true],
+      ]);
+    });
+
+    it('should not record a revision when the content is unchanged', async () => {
+      await request('/api/v1/forums/replies/reply-1', authorToken, 'PUT', { content: 'First answer' });
+
+      expect(mockDb._revisions).toHaveLength(0);
+    });
+
+    it('should delete the revisions of a deleted reply', async () => {
+      await request('/api/v1/forums/replies/reply-1', authorToken, 'DELETE');
+
+      expect(findQuery('DELETE FROM forum_revisions')?.params).toEqual(['reply-1']);
+    });
+
+    it('should return 404 for unknown replies', async () => {
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/forums/replies/reply-404/revisions'),
+        mockEnv
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  it('should keep the revisions of a deleted thread so it can be restored', async () => {
+    const res = await request('/api/v1/forums/threads/thread-1', moderatorToken, 'DELETE');
+
+    expect(res.status).toBe(200);
+    expect(findQuery('UPDATE forum_threads SET deleted_at = ?')).toBeDefined();
+    expect(findQuery('DELETE FROM forum_revisions')).toBeUndefined();
+  });
+});
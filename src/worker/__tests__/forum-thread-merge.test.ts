@@ -0,0 +1,433 @@
+/**
+ * Tests for merging, soft-deleting and restoring forum threads
+ *
+ * Endpoints under test:
+ * - POST /api/v1/forums/threads/:threadId/merge - Merge a duplicate into another thread (admins and category moderators)
+ * - POST /api/v1/forums/threads/:threadId/restore - Restore a deleted thread (admins and category moderators)
+ * - GET /api/v1/forums/threads/:id - Deleted threads are only visible to admins
+ * - GET /api/v1/forums/threads - Deleted threads are left out of listings
+ * - Reply read, edit, vote and solution endpoints - Replies of deleted threads are only open to admins and moderators
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import {
+  createTestToken,
+  createAuthenticatedRequest,
+  createUnauthenticatedRequest,
+  createTestEnv,
+} from './utils/testAuth';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockThread {
+  user_id: string;
+  category_id: string;
+  title: string;
+  content: string;
+  status: string;
+  upvote_count: number;
+  downvote_count: number;
+  reply_count: number;
+  view_count: number;
+  last_activity_at: number;
+  created_at: number;
+  hidden_at: number | null;
+  deleted_at: number | null;
+  merged_into: string | null;
+}
+
+interface MockState {
+  threads: Record<string, MockThread>;
+  // Solution replies per thread
+  solutions?: Record<string, { id: string; user_id: string }[]>;
+  duplicateViews?: number;
+}
+
+const thread = (overrides: Partial<MockThread> = {}): MockThread => ({
+  user_id: 'author-1',
+  category_id: 'cat-general',
+  title: 'How to <negotiate> salary?',
+  content: '<p>I got an offer.</p>',
+  status: 'open',
+  upvote_count: 3,
+  downvote_count: 1,
+  reply_count: 2,
+  view_count: 10,
+  last_activity_at: 1700000500,
+  created_at: 1700000000,
+  hidden_at: null,
+  deleted_at: null,
+  merged_into: null,
+  ...overrides,
+});
+
+const reply = {
+  thread_id: 'thread-dup',
+  user_id: 'member-1',
+  content: '<p>Ask for more.</p>',
+  is_solution: 0,
+  upvote_count: 0,
+  downvote_count: 0,
+  created_at: 1700000200,
+  edited_at: null,
+  edited_by: null,
+};
+
+const createMockDb = (state: MockState) => {
+  const queries: RecordedQuery[] = [];
+  const batches: RecordedQuery[][] = [];
+  const solutions = state.solutions || {};
+  const assignments = [{ category_id: 'cat-general', user_id: 'mod-1' }];
+
+  const findThread = (query: string, id: unknown) => {
+    const row = state.threads[id as string];
+    if (!row || (query.includes('deleted_at IS NULL') && row.deleted_at)) {
+      return null;
+    }
+    return { id, ...row };
+  };
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        query,
+        params,
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('WHERE thread_id = ? AND is_solution = 1')) {
+            return { success: true, results: solutions[params[0] as string] || [] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM forum_category_moderators WHERE category_id = ? AND user_id = ?')) {
+            const [categoryId, userId] = params;
+            return assignments.some((a) => a.category_id === categoryId && a.user_id === userId) ? { 1: 1 } : null;
+          }
+          if (query.includes('WHERE thread_id = ? AND is_solution = 1 LIMIT 1')) {
+            return solutions[params[0] as string]?.[0] || null;
+          }
+          if (query.includes('FROM forum_thread_views s')) {
+            return { count: state.duplicateViews || 0 };
+          }
+          if (query.includes('SELECT role FROM user_roles WHERE user_id = ?')) {
+            return params[0] === 'mod-1' ? { role: 'moderator' } : null;
+          }
+          // Every reply in these tests belongs to thread-dup
+          if (query.includes('FROM forum_replies r JOIN forum_threads t')) {
+            return findThread(query, 'thread-dup');
+          }
+          if (query.includes('FROM forum_replies WHERE id = ?')) {
+            return { ...reply, id: params[0] };
+          }
+          if (query.includes('FROM forum_threads t') && query.includes('WHERE t.id = ?')) {
+            const row = findThread(query, params[0]);
+            return row ? { ...row, author_name: 'Author', author_email: 'author@example.com' } : null;
+          }
+          if (query.includes('FROM forum_threads') && query.includes('WHERE id = ?')) {
+            return findThread(query, params[0]);
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: RecordedQuery[]) => {
+      batches.push(statements.map(({ query, params }) => ({ query, params })));
+      return statements.map(() => ({ success: true, meta: { changes: 1 } }));
+    }),
+    _queries: queries,
+    _batches: batches,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Forum thread merge and soft delete', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let moderatorToken: string;
+  let memberToken: string;
+
+  const setup = (state: Partial<MockState> = {}) => {
+    mockDb = createMockDb({
+      threads: {
+        'thread-dup': thread(),
+        'thread-main': thread({ title: 'Salary negotiation', reply_count: 5, last_activity_at: 1700000100 }),
+        'thread-jobs': thread({ category_id: 'cat-jobs' }),
+      },
+      ...state,
+    });
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+  const findBatchQuery = (text: string) => mockDb._batches.flat().find((q) => q.query.includes(text));
+
+  const request = (path: string, token: string, method: string, body?: Record<string, unknown>) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const merge = (targetThreadId: string, token = moderatorToken) =>
+    request('/api/v1/forums/threads/thread-dup/merge', token, 'POST', { target_thread_id: targetThreadId });
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    moderatorToken = await createTestToken('mod-1', 'mod@example.com', 'Mod', 'moderator');
+    memberToken = await createTestToken('member-1', 'member@example.com', 'Member');
+  });
+
+  describe('POST /api/v1/forums/threads/:threadId/merge', () => {
+    it('should turn the opening post into a reply of the target', async () => {
+      const res = await merge('thread-main');
+
+      expect(res.status).toBe(200);
+      const insert = findBatchQuery('INSERT INTO forum_replies');
+      const [replyId, threadId, userId, content, upvotes, downvotes, hiddenAt, createdAt] = insert!.params;
+      expect(threadId).toBe('thread-main');
+      expect(userId).toBe('author-1');
+      expect(content).toBe('<p><strong>How to &lt;negotiate&gt; salary?</strong></p><p>I got an offer.</p>');
+      expect([upvotes, downvotes, hiddenAt, createdAt]).toEqual([3, 1, null, 1700000000]);
+      expect(findBatchQuery("SET votable_type = 'reply'")?.params).toEqual([replyId, 'thread-dup']);
+      expect(findQuery('INSERT INTO search_index')?.params).toEqual([
+        '',
+        'How to <negotiate> salary? I got an offer.',
+        'reply',
+        replyId,
+        'author-1',
+      ]);
+    });
+
+    it('should move replies, tags and views in one batch', async () => {
+      await merge('thread-main');
+
+      expect(mockDb._batches).toHaveLength(1);
+      expect(findBatchQuery('UPDATE forum_replies SET thread_id = ?')?.params).toEqual(['thread-main', 'thread-dup']);
+      expect(findBatchQuery('UPDATE OR IGNORE forum_thread_tags')?.params).toEqual(['thread-main', 'thread-dup']);
+      expect(findBatchQuery('DELETE FROM forum_thread_tags')?.params).toEqual(['thread-dup']);
+      expect(findBatchQuery('UPDATE OR IGNORE forum_thread_views')?.params).toEqual(['thread-main', 'thread-dup']);
+      expect(findBatchQuery('DELETE FROM forum_thread_views')?.params).toEqual(['thread-dup']);
+    });
+
+    it('should recount the target and count shared viewers once', async () => {
+      setup({
+        threads: {
+          'thread-dup': thread({ last_activity_at: 1700009000 }),
+          'thread-main': thread({ last_activity_at: 1700000100 }),
+        },
+        duplicateViews: 4,
+      });
+
+      await merge('thread-main');
+
+      const [countThreadId, addedViews, lastActivity, status, , targetId] = findBatchQuery('SET reply_count = (SELECT COUNT(*)')!.params;
+      expect(countThreadId).toBe('thread-main');
+      expect(addedViews).toBe(6);
+      expect(lastActivity).toBe(1700009000);
+      expect(status).toBe('open');
+      expect(targetId).toBe('thread-main');
+      expect(findQuery('UPDATE forum_threads SET hot_score = ?')?.params[1]).toBe('thread-main');
+    });
+
+    it('should soft-delete the merged thread and point it at the target', async () => {
+      await merge('thread-main');
+
+      const update = findBatchQuery('merged_into = ?');
+      expect(update?.query).toContain('reply_count = 0, upvote_count = 0');
+      expect(update?.params).toEqual([expect.any(Number), 'mod-1', 'thread-main', expect.any(Number), 'thread-dup']);
+      const removed = mockDb._queries.filter((q) => q.query.includes('DELETE FROM search_index')).map((q) => q.params);
+      expect(removed).toContainEqual(['thread', 'thread-dup']);
+      expect(findQuery('INSERT INTO admin_audit_log')?.params).toEqual(
+        expect.arrayContaining(['mod-1', 'forum.thread.merge', 'forum_thread', 'thread-dup'])
+      );
+    });
+
+    it('should mark the target solved when a moved reply is the solution', async () => {
+      setup({
+        threads: { 'thread-dup': thread(), 'thread-main': thread() },
+        solutions: { 'thread-dup': [{ id: 'reply-sol', user_id: 'replier-1' }] },
+      });
+
+      await merge('thread-main');
+
+      expect(findBatchQuery('SET reply_count = (SELECT COUNT(*)')?.params[3]).toBe('solved');
+      expect(findBatchQuery('SET is_solution = 0')).toBeUndefined();
+      expect(findQuery('FROM point_actions_log')).toBeUndefined();
+    });
+
+    it("should keep the target's own solution and revoke the moved one's points", async () => {
+      setup({
+        threads: { 'thread-dup': thread(), 'thread-main': thread({ status: 'solved' }) },
+        solutions: {
+          'thread-dup': [{ id: 'reply-sol', user_id: 'replier-1' }],
+          'thread-main': [{ id: 'reply-main-sol', user_id: 'replier-2' }],
+        },
+      });
+
+      await merge('thread-main');
+
+      expect(findBatchQuery('UPDATE forum_replies SET is_solution = 0')?.params).toEqual(['thread-dup']);
+      expect(findQuery('FROM point_actions_log')?.params.slice(0, 3)).toEqual([
+        'replier-1',
+        'reply-sol',
+        'reply_marked_solution',
+      ]);
+    });
+
+    it('should reject merging a thread into itself', async () => {
+      const res = await merge('thread-dup');
+
+      expect(res.status).toBe(400);
+      expect(mockDb._batches).toHaveLength(0);
+    });
+
+    it('should require target_thread_id', async () => {
+      const res = await request('/api/v1/forums/threads/thread-dup/merge', moderatorToken, 'POST', {});
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 for a deleted target', async () => {
+      setup({
+        threads: { 'thread-dup': thread(), 'thread-main': thread({ deleted_at: 1700001000 }) },
+      });
+
+      const res = await merge('thread-main');
+
+      expect(res.status).toBe(404);
+      expect(mockDb._batches).toHaveLength(0);
+    });
+
+    it('should require moderating the target category', async () => {
+      const res = await merge('thread-jobs');
+
+      expect(res.status).toBe(403);
+      expect(mockDb._batches).toHaveLength(0);
+    });
+
+    it('should let admins merge across categories', async () => {
+      const res = await merge('thread-jobs', adminToken);
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject members', async () => {
+      const res = await merge('thread-main', memberToken);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/v1/forums/threads/:threadId/restore', () => {
+    it('should restore a deleted thread', async () => {
+      setup({ threads: { 'thread-dup': thread({ deleted_at: 1700001000 }) } });
+
+      const res = await request('/api/v1/forums/threads/thread-dup/restore', moderatorToken, 'POST');
+
+      expect(res.status).toBe(200);
+      expect(findQuery('SET deleted_at = NULL, deleted_by = NULL')?.params).toEqual([expect.any(Number), 'thread-dup']);
+      expect(findQuery('INSERT INTO admin_audit_log')?.params).toEqual(
+        expect.arrayContaining(['forum.thread.restore', 'thread-dup'])
+      );
+    });
+
+    it('should reject threads that are not deleted', async () => {
+      const res = await request('/api/v1/forums/threads/thread-dup/restore', moderatorToken, 'POST');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should not restore a merged thread', async () => {
+      setup({ threads: { 'thread-dup': thread({ deleted_at: 1700001000, merged_into: 'thread-main' }) } });
+
+      const res = await request('/api/v1/forums/threads/thread-dup/restore', adminToken, 'POST');
+
+      expect(res.status).toBe(400);
+      expect(findQuery('SET deleted_at = NULL')).toBeUndefined();
+    });
+  });
+
+  describe('reading deleted threads', () => {
+    beforeEach(() => {
+      setup({ threads: { 'thread-dup': thread({ deleted_at: 1700001000, merged_into: 'thread-main' }) } });
+    });
+
+    it('should point visitors of a merged thread to the target', async () => {
+      const res = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/forums/threads/thread-dup'), mockEnv);
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Thread not found', merged_into: 'thread-main' });
+    });
+
+    it('should still show deleted threads to admins', async () => {
+      const res = await request('/api/v1/forums/threads/thread-dup', adminToken, 'GET');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should leave deleted threads out of listings', async () => {
+      await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/forums/threads?category_id=cat-general'), mockEnv);
+
+      expect(findQuery('t.hidden_at IS NULL AND t.deleted_at IS NULL')).toBeDefined();
+      expect(findQuery('COUNT(*) as total FROM forum_threads')?.query).toContain('deleted_at IS NULL');
+    });
+  });
+
+  describe('replies of deleted threads', () => {
+    beforeEach(() => {
+      setup({ threads: { 'thread-dup': thread({ user_id: 'member-1', deleted_at: 1700001000 }) } });
+    });
+
+    it('should hide the replies from members', async () => {
+      const res = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/forums/threads/thread-dup/replies'), mockEnv);
+      expect(res.status).toBe(404);
+
+      const replyRes = await request('/api/v1/forums/replies/reply-1', memberToken, 'GET');
+      expect(replyRes.status).toBe(404);
+    });
+
+    it('should still show the replies to admins and moderators', async () => {
+      const adminRes = await request('/api/v1/forums/threads/thread-dup/replies', adminToken, 'GET');
+      expect(adminRes.status).toBe(200);
+
+      const moderatorRes = await request('/api/v1/forums/threads/thread-dup/replies', moderatorToken, 'GET');
+      expect(moderatorRes.status).toBe(200);
+    });
+
+    it('should reject editing, voting on and marking the replies', async () => {
+      const responses = [
+        await request('/api/v1/forums/replies/reply-1', memberToken, 'PUT', { content: '<p>Edited</p>' }),
+        await request('/api/v1/forums/replies/reply-1/vote', memberToken, 'POST', { vote_type: 'upvote' }),
+        await request('/api/v1/forums/replies/reply-1/mark-solution', memberToken, 'POST'),
+        await request('/api/v1/forums/replies/reply-1/mark-solution', memberToken, 'DELETE'),
+      ];
+
+      expect(responses.map((res) => res.status)).toEqual([404, 404, 404, 404]);
+      expect(findQuery('UPDATE forum_replies')).toBeUndefined();
+      expect(findQuery('INSERT INTO forum_votes')).toBeUndefined();
+    });
+
+    it('should let moderators vote on the replies', async () => {
+      const res = await request('/api/v1/forums/replies/reply-1/vote', moderatorToken, 'POST', { vote_type: 'upvote' });
+
+      expect(res.status).toBe(200);
+      expect(findQuery('INSERT INTO forum_votes')).toBeDefined();
+    });
+  });
+});
@@ -28,11 +28,11 @@ function createMockDb() {
     prepare: vi.fn((query: string) => ({
       bind: vi.fn((...params: unknown[]) => ({
         first: vi.fn(async () => {
-          // SELECT thread user_id only
-          if (query.includes('SELECT user_id FROM forum_threads WHERE id = ?')) {
+          // SELECT thread author and category
+          if (query.includes('SELECT user_id, category_id FROM forum_threads WHERE id = ?')) {
             const threadId = params[0];
             const thread = threads.get(threadId as string);
-            return thread ? { user_id: thread.user_id } : null;
+            return thread ? { user_id: thread.user_id, category_id: thread.category_id } : null;
           }
 
           // SELECT thread with author info (JOIN query)
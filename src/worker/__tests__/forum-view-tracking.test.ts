@@ -24,16 +24,20 @@ function createMockDb() {
       bind: vi.fn((...params: unknown[]) => ({
         first: vi.fn(async () => {
           // SELECT thread
-          if (query.includes('SELECT id, view_count FROM forum_threads WHERE id = ?')) {
+          if (query.includes('SELECT id, view_count FROM forum_threads WHERE id = ?') || query.includes('SELECT id, user_id, view_count FROM forum_threads WHERE id = ?')) {
             const threadId = params[0];
             return threads.get(threadId as string) || null;
           }
 
-          // SELECT view count only
-          if (query.includes('SELECT view_count FROM forum_threads WHERE id = ?')) {
+          // UPDATE thread view_count and return the new count
+          if (query.includes('UPDATE forum_threads SET view_count = view_count + 1') && query.includes('RETURNING view_count')) {
             const threadId = params[0];
             const thread = threads.get(threadId as string);
-            return thread ? { view_count: thread.view_count } : null;
+            if (!thread) {
+              return null;
+            }
+            thread.view_count = (thread.view_count as number) + 1;
+            return { view_count: thread.view_count };
           }
 
           // SELECT existing view by user_id
@@ -68,17 +72,6 @@ function createMockDb() {
               created_at: createdAt,
             });
 
-            // Increment view count on thread
-            const thread = threads.get(threadId as string);
-            if (thread) {
-              thread.view_count = (thread.view_count as number) + 1;
-            }
-
-            return { success: true, meta: { changes: 1 } };
-          }
-
-          // UPDATE thread view_count
-          if (query.includes('UPDATE forum_threads SET view_count')) {
             return { success: true, meta: { changes: 1 } };
           }
 
@@ -38,7 +38,7 @@ function createMockDb() {
       bind: vi.fn((...params: unknown[]) => ({
         first: vi.fn(async () => {
           // SELECT thread with vote counts
-          if (query.includes('SELECT id, upvote_count, downvote_count FROM forum_threads WHERE id = ?')) {
+          if (query.includes('SELECT id, user_id, upvote_count, downvote_count FROM forum_threads WHERE id = ?')) {
             const threadId = params[0];
             return threads.get(threadId as string) || null;
           }
@@ -69,7 +69,7 @@ function createMockDb() {
           }
 
           // SELECT existing vote
-          if (query.includes('SELECT vote_type FROM forum_votes WHERE votable_type = ? AND votable_id = ? AND user_id = ?')) {
+          if (query.includes('vote_type FROM forum_votes WHERE votable_type = ? AND votable_id = ? AND user_id = ?')) {
             const [votableType, votableId, userId] = params;
             const key = `${userId}_${votableType}_${votableId}`;
             return votes.get(key) || null;
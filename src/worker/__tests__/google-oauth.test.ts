@@ -1,5 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { findOrCreateUserFromGoogle, getGoogleLoginUrl } from '../auth/google';
+import {
+  findOrCreateUserFromGoogle,
+  getGoogleLoginUrl,
+  RegistrationClosedError,
+  encodeOAuthState,
+  decodeOAuthState,
+  getGoogleUserProfile,
+  toGoogleIdentity,
+} from '../auth/google';
+import { UnverifiedEmailError } from '../auth/identities';
 import type { User } from '../../types/user';
 
 // ============================================================================
@@ -125,6 +134,7 @@ describe('findOrCreateUserFromGoogle', () => {
         sub: 'google-user-456',
         email: 'testuser@example.com',
         name: undefined as unknown as string, // Missing name
+        email_verified: true,
       };
 
       const mockStatement = {
@@ -198,6 +208,7 @@ describe('findOrCreateUserFromGoogle', () => {
         sub: 'google-new-456',
         email: 'existing@example.com',
         name: 'Existing User',
+        email_verified: true,
       };
 
       const existingUserWithoutGoogleId: User = {
@@ -244,6 +255,111 @@ describe('findOrCreateUserFromGoogle', () => {
     });
   });
 
+  describe('Email Verification', () => {
+    it('should not treat a missing email_verified claim as verified', async () => {
+      const googleProfile = {
+        sub: 'google-user-321',
+        email: 'unverified@example.com',
+        name: 'Unverified User',
+      };
+
+      const mockStatement = {
+        bind: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(null),
+        run: vi.fn().mockResolvedValue({ success: true }),
+      };
+
+      const mockDb = {
+        prepare: vi.fn().mockReturnValue(mockStatement),
+      };
+
+      expect(toGoogleIdentity(googleProfile).emailVerified).toBe(false);
+      expect(toGoogleIdentity({ ...googleProfile, email_verified: false }).emailVerified).toBe(false);
+      await expect(
+        findOrCreateUserFromGoogle(googleProfile, mockDb as unknown as D1Database)
+      ).rejects.toBeInstanceOf(UnverifiedEmailError);
+    });
+
+    it('should read verification from the userinfo verified_email field', async () => {
+      const userinfo = { id: '1', sub: 'google-user-654', email: 'user@example.com', name: 'User' };
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(JSON.stringify({ ...userinfo, verified_email: true })))
+      );
+      expect((await getGoogleUserProfile('access-token')).email_verified).toBe(true);
+
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(userinfo))));
+      expect((await getGoogleUserProfile('access-token')).email_verified).toBe(false);
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('Closed Registration', () => {
+    it('should not create a new user when registration is not allowed', async () => {
+      const googleProfile = {
+        sub: 'google-user-123',
+        email: 'newuser@example.com',
+        name: 'New User',
+        email_verified: true,
+      };
+
+      const mockStatement = {
+        bind: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(null), // No existing user
+        run: vi.fn().mockResolvedValue({ success: true }),
+      };
+
+      const mockDb = {
+        prepare: vi.fn().mockReturnValue(mockStatement),
+      };
+
+      await expect(
+        findOrCreateUserFromGoogle(googleProfile, mockDb as unknown as D1Database, { allowRegistration: false })
+      ).rejects.toBeInstanceOf(RegistrationClosedError);
+
+      const insertCall = mockDb.prepare.mock.calls.find((call) =>
+        call[0].includes('INSERT INTO users')
+      );
+      expect(insertCall).toBeUndefined();
+    });
+
+    it('should still sign in existing users when registration is not allowed', async () => {
+      const googleProfile = {
+        sub: 'google-existing-123',
+        email: 'existing@example.com',
+        name: 'Existing User',
+      };
+
+      const existingUser: User = {
+        id: 'user-existing-456',
+        email: 'existing@example.com',
+        name: 'Existing User',
+        google_id: 'google-existing-123',
+        created_at: 1000,
+        updated_at: 2000,
+      };
+
+      const mockStatement = {
+        bind: vi.fn().mockReturnThis(),
+        first: vi.fn().mockResolvedValue(existingUser),
+        run: vi.fn().mockResolvedValue({ success: true }),
+      };
+
+      const mockDb = {
+        prepare: vi.fn().mockReturnValue(mockStatement),
+      };
+
+      const result = await findOrCreateUserFromGoogle(
+        googleProfile,
+        mockDb as unknown as D1Database,
+        { allowRegistration: false }
+      );
+
+      expect(result.user.id).toBe('user-existing-456');
+      expect(result.isNewUser).toBe(false);
+    });
+  });
+
   describe('Database Parameter Handling', () => {
     it('should not pass undefined values to D1 bind()', async () => {
       const googleProfile = {
@@ -251,7 +367,7 @@ describe('findOrCreateUserFromGoogle', () => {
         email: 'user@example.com',
         name: 'Test User',
         picture: undefined, // Optional field
-        email_verified: undefined, // Optional field
+        email_verified: true,
       };
 
       const mockStatement = {
@@ -286,6 +402,7 @@ describe('findOrCreateUserFromGoogle', () => {
         sub: 'google-valid-789',
         email: 'valid@example.com',
         name: 'Valid User',
+        email_verified: true,
       };
 
       const mockStatement = {
@@ -378,3 +495,26 @@ describe('getGoogleLoginUrl', () => {
     expect(params.get('redirect_uri')).toBe(redirectUri);
   });
 });
+
+describe('OAuth state', () => {
+  it('should round-trip an invite code', () => {
+    const url = getGoogleLoginUrl('client-id', 'http://localhost:5173/auth/google/callback', { invite: 'ABCD2345' });
+
+    const state = new URL(url).searchParams.get('state');
+
+    expect(state).toBe(encodeOAuthState({ invite: 'ABCD2345' }));
+    expect(decodeOAuthState(state)).toEqual({ invite: 'ABCD2345' });
+  });
+
+  it('should leave the state out when there is nothing to carry', () => {
+    const url = getGoogleLoginUrl('client-id', 'http://localhost:5173/auth/google/callback', {});
+
+    expect(new URL(url).searchParams.has('state')).toBe(false);
+  });
+
+  it('should treat missing or malformed state as empty', () => {
+    expect(decodeOAuthState(undefined)).toEqual({});
+    expect(decodeOAuthState('not base64!')).toEqual({});
+    expect(decodeOAuthState(encodeOAuthState({ invite: 42 } as unknown as { invite: string }))).toEqual({});
+  });
+});
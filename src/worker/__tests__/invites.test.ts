@@ -0,0 +1,481 @@
+/**
+ * Tests for closed registration: invite codes and the waitlist
+ *
+ * Covers:
+ * - Joining the waitlist while public registration is off
+ * - Admin invite code management (create, list, revoke)
+ * - Admin waitlist review, including the approval email
+ * - The Google OAuth callback accepting an invite code from the state parameter or an
+ *   approved waitlist entry, and reserving invite uses
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import app from '../index';
+import { InMemoryMailTransport } from '../mail/transport';
+import { encodeOAuthState } from '../auth/google';
+import { createTestToken, createAuthenticatedRequest, createUnauthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { enabledFeatureFlags, pointsLedgerRow } from './utils/mockDbFactory';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+type Row = Record<string, unknown>;
+
+const inviteRow = (overrides: Row = {}): Row => ({
+  id: 'invite-1',
+  code: 'ABCD2345',
+  note: null,
+  max_uses: 1,
+  use_count: 0,
+  expires_at: null,
+  revoked_at: null,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+  ...overrides,
+});
+
+const waitlistRow = (overrides: Row = {}): Row => ({
+  id: 'waitlist-1',
+  email: 'newcomer@example.com',
+  name: 'Newcomer',
+  reason: 'I want a mentor',
+  locale: 'en',
+  status: 'pending',
+  user_id: null,
+  reviewed_by: null,
+  reviewed_at: null,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  ...overrides,
+});
+
+const createMockDb = (options: { flags?: Row[]; invites?: Row[]; waitlist?: Row[]; users?: Row[] } = {}) => {
+  const queries: RecordedQuery[] = [];
+  const invites = (options.invites || []).map((row) => ({ ...row }));
+  const waitlist = (options.waitlist || []).map((row) => ({ ...row }));
+  const users = (options.users || []).map((row) => ({ ...row }));
+  const now = () => Math.floor(Date.now() / 1000);
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('FROM feature_flags')) {
+            return { success: true, results: options.flags || [] };
+          }
+          if (query.includes('FROM invite_codes')) {
+            return { success: true, results: invites };
+          }
+          if (query.includes('FROM waitlist_entries')) {
+            return { success: true, results: waitlist.filter((row) => row.status === params[0]) };
+          }
+          // A new user's ledger starts from no balance
+          if (query.includes('RETURNING points_awarded')) {
+            return { success: true, results: [pointsLedgerRow(query, params, 0)] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT id FROM invite_codes WHERE code = ?')) {
+            return invites.find((row) => row.code === params[0]) || null;
+          }
+          if (query.includes('SELECT * FROM invite_codes WHERE id = ?')) {
+            return invites.find((row) => row.id === params[0]) || null;
+          }
+          if (query.includes('SELECT id FROM waitlist_entries WHERE email = ? AND status = ?')) {
+            return waitlist.find((row) => row.email === params[0] && row.status === params[1] && !row.user_id) || null;
+          }
+          if (query.includes('SELECT id FROM waitlist_entries WHERE email = ?')) {
+            return waitlist.find((row) => row.email === params[0]) || null;
+          }
+          if (query.includes('SELECT * FROM waitlist_entries WHERE id = ?')) {
+            return waitlist.find((row) => row.id === params[0]) || null;
+          }
+          if (query.includes('COUNT(*) as count FROM waitlist_entries')) {
+            return { count: waitlist.filter((row) => row.status === params[0]).length };
+          }
+          if (query.includes('SELECT * FROM users WHERE google_id = ?')) {
+            return users.find((row) => row.google_id === params[0]) || null;
+          }
+          if (query.includes('SELECT * FROM users WHERE email = ?')) {
+            return users.find((row) => row.email === params[0]) || null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          let changes = 1;
+          if (query.includes('SET use_count = use_count + 1')) {
+            const invite = invites.find((row) => row.id === params[0]);
+            const usable =
+              invite &&
+              invite.revoked_at === null &&
+              (invite.expires_at === null || (invite.expires_at as number) > (params[1] as number)) &&
+              (invite.use_count as number) < (invite.max_uses as number);
+            if (usable) {
+              invite.use_count = (invite.use_count as number) + 1;
+            } else {
+              changes = 0;
+            }
+          } else if (query.includes('SET use_count = use_count - 1')) {
+            const invite = invites.find((row) => row.id === params[0]);
+            if (invite && (invite.use_count as number) > 0) {
+              invite.use_count = (invite.use_count as number) - 1;
+            }
+          } else if (query.includes('INSERT INTO users')) {
+            users.push({ id: params[0], email: params[1], name: params[2], google_id: params[3] });
+          } else if (query.includes('INSERT INTO waitlist_entries')) {
+            waitlist.push({ id: params[0], email: params[1], status: params[5] });
+          } else if (query.includes('UPDATE waitlist_entries SET status = ?')) {
+            const entry = waitlist.find((row) => row.id === params[4] && row.status === params[5]);
+            if (entry) {
+              entry.status = params[0];
+            } else {
+              changes = 0;
+            }
+          } else if (query.includes('UPDATE waitlist_entries SET user_id = ?')) {
+            const entry = waitlist.find((row) => row.id === params[2]);
+            if (entry) {
+              entry.user_id = params[0];
+            }
+          }
+          return { success: true, meta: { changes, last_row_id: now() } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
+    _queries: queries,
+    _invites: invites,
+    _waitlist: waitlist,
+    _users: users,
+  };
+};
+
+// ============================================================================
+// Google OAuth Mocks
+// ============================================================================
+
+const mockGoogle = (profile: { sub: string; email: string; name: string }) => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) => {
+      if (url.startsWith('https://oauth2.googleapis.com/token')) {
+        return new Response(JSON.stringify({ access_token: 'access-token', token_type: 'Bearer', expires_in: 3600 }));
+      }
+      if (url.startsWith('https://www.googleapis.com/oauth2/v2/userinfo')) {
+        return new Response(JSON.stringify({ ...profile, verified_email: true }));
+      }
+      return new Response('Not found', { status: 404 });
+    })
+  );
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Closed registration', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let mailer: InMemoryMailTransport;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (options: Parameters<typeof createMockDb>[0] = {}) => {
+    mockDb = createMockDb(options);
+    mailer = new InMemoryMailTransport();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database, MAILER: mailer });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = adminToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const callback = (state?: string) => {
+    const params = new URLSearchParams({ code: 'auth-code' });
+    if (state) {
+      params.set('state', state);
+    }
+    return app.fetch(createUnauthenticatedRequest(`http://localhost/api/v1/auth/google/callback?${params.toString()}`), mockEnv);
+  };
+
+  beforeEach(async () => {
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('POST /api/v1/waitlist', () => {
+    it('should add a pending entry with a lowercased email', async () => {
+      setup();
+
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/waitlist', {
+          method: 'POST',
+          body: { email: ' Newcomer@Example.com ', name: 'Newcomer', reason: 'I want a mentor', locale: 'en' },
+        }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(201);
+      const data = await res.json();
+      expect(data.entry).toMatchObject({ email: 'newcomer@example.com', status: 'pending', locale: 'en' });
+      expect(mockDb._waitlist).toHaveLength(1);
+    });
+
+    it('should reject duplicate emails', async () => {
+      setup({ waitlist: [waitlistRow()] });
+
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/waitlist', {
+          method: 'POST',
+          body: { email: 'newcomer@example.com', name: 'Newcomer' },
+        }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should reject invalid input', async () => {
+      setup();
+
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/waitlist', {
+          method: 'POST',
+          body: { email: 'not-an-email', name: 'Newcomer' },
+        }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should refuse sign-ups while public registration is on', async () => {
+      setup({ flags: enabledFeatureFlags('public_registration') });
+
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/waitlist', {
+          method: 'POST',
+          body: { email: 'newcomer@example.com', name: 'Newcomer' },
+        }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('Admin invite codes', () => {
+    it('should require admin', async () => {
+      setup();
+
+      const res = await request('/api/v1/admin/invites', 'GET', undefined, memberToken);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should generate a single-use code by default', async () => {
+      setup();
+
+      const res = await request('/api/v1/admin/invites', 'POST', { note: 'For Bo' });
+
+      expect(res.status).toBe(201);
+      const { invite } = await res.json();
+      expect(invite.code).toMatch(/^[A-Z0-9]{8}$/);
+      expect(invite).toMatchObject({ max_uses: 1, use_count: 0, expires_at: null, note: 'For Bo' });
+
+      const audit = mockDb._queries.find((q) => q.query.includes('INSERT INTO admin_audit_log'));
+      expect(audit?.params).toContain('invite.create');
+    });
+
+    it('should validate max_uses', async () => {
+      setup();
+
+      const res = await request('/api/v1/admin/invites', 'POST', { max_uses: 0 });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should revoke a code', async () => {
+      setup({ invites: [inviteRow()] });
+
+      const res = await request('/api/v1/admin/invites/invite-1/revoke', 'POST');
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).invite.revoked_at).not.toBeNull();
+    });
+
+    it('should return 404 for unknown codes', async () => {
+      setup();
+
+      const res = await request('/api/v1/admin/invites/missing/revoke', 'POST');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Admin waitlist', () => {
+    it('should list pending entries with their total', async () => {
+      setup({ waitlist: [waitlistRow(), waitlistRow({ id: 'waitlist-2', email: 'other@example.com', status: 'rejected' })] });
+
+      const res = await request('/api/v1/admin/waitlist');
+
+      expect(res.status).toBe(200);
+      const data = await res.json();
+      expect(data.total).toBe(1);
+      expect(data.entries[0].id).toBe('waitlist-1');
+    });
+
+    it('should reject an invalid status filter', async () => {
+      setup();
+
+      const res = await request('/api/v1/admin/waitlist?status=unknown');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should approve an entry and email the person', async () => {
+      setup({ waitlist: [waitlistRow()] });
+
+      const res = await request('/api/v1/admin/waitlist/waitlist-1', 'PATCH', { status: 'approved' });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).entry.status).toBe('approved');
+      expect(mailer.outbox).toHaveLength(1);
+      expect(mailer.outbox[0].to).toBe('newcomer@example.com');
+      expect(mailer.outbox[0].text).toContain('/login');
+    });
+
+    it('should not email rejected entries', async () => {
+      setup({ waitlist: [waitlistRow()] });
+
+      const res = await request('/api/v1/admin/waitlist/waitlist-1', 'PATCH', { status: 'rejected' });
+
+      expect(res.status).toBe(200);
+      expect(mailer.outbox).toHaveLength(0);
+    });
+
+    it('should not review an entry twice', async () => {
+      setup({ waitlist: [waitlistRow({ status: 'approved' })] });
+
+      const res = await request('/api/v1/admin/waitlist/waitlist-1', 'PATCH', { status: 'rejected' });
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('GET /api/v1/auth/google/login', () => {
+    it('should carry a valid invite code through the OAuth state', async () => {
+      setup();
+
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/auth/google/login?invite=ABCD2345'),
+        mockEnv
+      );
+
+      const { url } = await res.json();
+      expect(new URL(url).searchParams.get('state')).toBe(encodeOAuthState({ invite: 'ABCD2345' }));
+    });
+
+    it('should ignore malformed invite codes', async () => {
+      setup();
+
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/auth/google/login?invite=%3Cscript%3E'),
+        mockEnv
+      );
+
+      const { url } = await res.json();
+      expect(new URL(url).searchParams.has('state')).toBe(false);
+    });
+  });
+
+  describe('GET /api/v1/auth/google/callback', () => {
+    const newcomer = { sub: 'google-new', email: 'newcomer@example.com', name: 'Newcomer' };
+
+    it('should refuse new accounts without an invite while registration is closed', async () => {
+      setup();
+      mockGoogle(newcomer);
+
+      const res = await callback();
+
+      expect(res.status).toBe(403);
+      expect(await res.json()).toMatchObject({ code: 'feature_disabled', feature: 'public_registration' });
+      expect(mockDb._users).toHaveLength(0);
+    });
+
+    it('should create the account with a usable invite code and count the use', async () => {
+      setup({ invites: [inviteRow()] });
+      mockGoogle(newcomer);
+
+      const res = await callback(encodeOAuthState({ invite: 'abcd2345' }));
+
+      expect(res.status).toBe(200);
+      expect(mockDb._users).toHaveLength(1);
+      expect(mockDb._invites[0].use_count).toBe(1);
+    });
+
+    it('should reject used up invite codes', async () => {
+      setup({ invites: [inviteRow({ use_count: 1 })] });
+      mockGoogle(newcomer);
+
+      const res = await callback(encodeOAuthState({ invite: 'ABCD2345' }));
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).error).toBe('This invite code is invalid, used up or expired');
+      expect(mockDb._users).toHaveLength(0);
+    });
+
+    it('should give the use back when an existing member signs in with an invite', async () => {
+      setup({
+        invites: [inviteRow()],
+        users: [{ id: 'user-1', email: 'newcomer@example.com', name: 'Newcomer', google_id: 'google-new' }],
+      });
+      mockGoogle(newcomer);
+
+      const res = await callback(encodeOAuthState({ invite: 'ABCD2345' }));
+
+      expect(res.status).toBe(200);
+      expect(mockDb._invites[0].use_count).toBe(0);
+    });
+
+    it('should create the account for an approved waitlist entry and link it', async () => {
+      setup({ waitlist: [waitlistRow({ status: 'approved' })] });
+      mockGoogle(newcomer);
+
+      const res = await callback();
+
+      expect(res.status).toBe(200);
+      expect(mockDb._users).toHaveLength(1);
+      expect(mockDb._waitlist[0].user_id).toBe(mockDb._users[0].id);
+    });
+
+    it('should not need an invite while public registration is on', async () => {
+      setup({ flags: enabledFeatureFlags('public_registration') });
+      mockGoogle(newcomer);
+
+      const res = await callback();
+
+      expect(res.status).toBe(200);
+      expect(mockDb._users).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Tests for time-windowed and per-source leaderboards
+ *
+ * Endpoints under test:
+ * - GET /api/v1/leaderboard?period=&source= - Boards computed from point_actions_log
+ * - GET /api/v1/leaderboard/winners - Top users of each closed week or month
+ * - The leaderboard snapshot job freezing closed weeks and months
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
+import type { GetLeaderboardResponse, GetLeaderboardWinnersResponse } from '../../types/api';
+import { LEADERBOARD_SOURCE_ACTIONS, LeaderboardSource } from '../../types/points';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  entries?: Record<string, unknown>[];
+  currentUser?: Record<string, unknown> | null;
+  snapshotId?: string | null;
+  snapshotInserted?: boolean;
+  snapshots?: Record<string, unknown>[];
+  winners?: Record<string, unknown>[];
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM feature_flags')) {
+            return { results: enabledFeatureFlags('leaderboard') };
+          }
+          queries.push({ query, params });
+          if (query.includes('FROM leaderboard_snapshots')) {
+            return { success: true, results: state.snapshots || [] };
+          }
+          if (query.includes('SELECT e.snapshot_id')) {
+            return { success: true, results: state.winners || [] };
+          }
+          if (query.includes('SELECT user_id, name, points, rank')) {
+            return { success: true, results: state.entries || [] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT COUNT(*) as count')) {
+            return { count: (state.entries || []).length };
+          }
+          if (query.includes('SELECT id FROM leaderboard_snapshots')) {
+            return state.snapshotId ? { id: state.snapshotId } : null;
+          }
+          if (query.includes('WHERE user_id = ?')) {
+            return state.currentUser || null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          const changes = query.includes('INSERT OR IGNORE INTO leaderboard_snapshots') && state.snapshotInserted === false ? 0 : 1;
+          return { success: true, meta: { changes } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    _queries: queries,
+  };
+};
+
+// Wednesday 2025-01-15 12:00:00 UTC
+const NOW = Date.UTC(2025, 0, 15, 12) / 1000;
+const WEEK_START = Date.UTC(2025, 0, 13) / 1000;
+const WEEK_END = Date.UTC(2025, 0, 20) / 1000;
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Leaderboard Periods', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, token?: string) =>
+    token
+      ? app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token), mockEnv)
+      : app.fetch(new Request(`http://localhost${path}`), mockEnv);
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW * 1000);
+    setup();
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('GET /api/v1/leaderboard', () => {
+    it('should rank balances for the default all-time board', async () => {
+      const res = await request('/api/v1/leaderboard');
+      const data = await res.json() as GetLeaderboardResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.window).toEqual({ period: 'all', source: 'all', start: null, end: null, is_final: false });
+      expect(data.current_user).toBeNull();
+      expect(findQuery('FROM user_points up')).toBeDefined();
+      expect(findQuery('FROM point_actions_log')).toBeUndefined();
+    });
+
+    it('should sum this week\'s earned points from the ledger', async () => {
+      setup({ entries: [{ user_id: 'user-2', name: 'Bob', points: 45, rank: 1 }] });
+
+      const res = await request('/api/v1/leaderboard?period=week');
+      const data = await res.json() as GetLeaderboardResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.window).toEqual({ period: 'week', source: 'all', start: WEEK_START, end: WEEK_END, is_final: false });
+      expect(data.users).toEqual([{ user_id: 'user-2', name: 'Bob', points: 45, rank: 1 }]);
+
+      const list = findQuery('LIMIT ? OFFSET ?');
+      expect(list?.query).toContain('FROM point_actions_log');
+      expect(list?.query).toContain('created_at >= ? AND created_at < ?');
+      expect(list?.params.slice(-4)).toEqual([WEEK_START, WEEK_END, 50, 0]);
+      expect(list?.params).not.toContain('signup_bonus');
+      expect(list?.params).not.toContain('admin_adjustment');
+    });
+
+    it('should only count the chosen source', async () => {
+      await request('/api/v1/leaderboard?period=month&source=challenges');
+
+      const list = findQuery('LIMIT ? OFFSET ?');
+      expect(list?.params).toEqual([
+        ...LEADERBOARD_SOURCE_ACTIONS[LeaderboardSource.Challenges],
+        Date.UTC(2025, 0, 1) / 1000,
+        Date.UTC(2025, 1, 1) / 1000,
+        50,
+        0,
+      ]);
+    });
+
+    it('should return the caller\'s own entry in the window', async () => {
+      setup({ currentUser: { user_id: 'user-1', name: 'Alice', points: 12, rank: 57 } });
+
+      const res = await request('/api/v1/leaderboard?period=week&source=forum', memberToken);
+      const data = await res.json() as GetLeaderboardResponse;
+
+      expect(data.current_user).toEqual({ user_id: 'user-1', name: 'Alice', points: 12, rank: 57 });
+      expect(findQuery('WHERE user_id = ?')?.params.at(-1)).toBe('user-1');
+    });
+
+    it('should serve a closed week from its snapshot', async () => {
+      setup({ snapshotId: 'snap-1' });
+
+      const res = await request(`/api/v1/leaderboard?period=week&start=${WEEK_START - 7 * 24 * 60 * 60}`);
+      const data = await res.json() as GetLeaderboardResponse;
+
+      expect(data.window).toEqual({
+        period: 'week',
+        source: 'all',
+        start: WEEK_START - 7 * 24 * 60 * 60,
+        end: WEEK_START,
+        is_final: true,
+      });
+      expect(findQuery('SELECT id FROM leaderboard_snapshots')?.params).toEqual(['week', 'all', WEEK_START - 7 * 24 * 60 * 60]);
+
+      const list = findQuery('LIMIT ? OFFSET ?');
+      expect(list?.query).toContain('FROM leaderboard_snapshot_entries');
+      expect(list?.params).toEqual(['snap-1', 50, 0]);
+    });
+
+    it('should rank a closed month from the ledger until it is snapshotted', async () => {
+      const res = await request(`/api/v1/leaderboard?period=month&start=${Date.UTC(2024, 11, 1) / 1000}`);
+      const data = await res.json() as GetLeaderboardResponse;
+
+      expect(data.window.is_final).toBe(true);
+      expect(findQuery('LIMIT ? OFFSET ?')?.query).toContain('FROM point_actions_log');
+      expect(findQuery('INSERT')).toBeUndefined();
+    });
+
+    it('should reject a start that is not the start of a period', async () => {
+      expect((await request(`/api/v1/leaderboard?period=week&start=${WEEK_START - 1}`)).status).toBe(400);
+      expect((await request(`/api/v1/leaderboard?period=month&start=${Date.UTC(2024, 11, 10) / 1000}`)).status).toBe(400);
+      expect(findQuery('leaderboard_snapshots')).toBeUndefined();
+    });
+
+    it('should compute custom ranges', async () => {
+      const res = await request('/api/v1/leaderboard?period=custom&start=1000&end=2000');
+      const data = await res.json() as GetLeaderboardResponse;
+
+      expect(data.window).toEqual({ period: 'custom', source: 'all', start: 1000, end: 2000, is_final: false });
+      expect(findQuery('LIMIT ? OFFSET ?')?.params.slice(-4)).toEqual([1000, 2000, 50, 0]);
+    });
+
+    it('should reject custom ranges without a valid start and end', async () => {
+      expect((await request('/api/v1/leaderboard?period=custom&start=1000')).status).toBe(400);
+      expect((await request('/api/v1/leaderboard?period=custom&start=2000&end=1000')).status).toBe(400);
+    });
+
+    it('should reject unknown periods and sources', async () => {
+      expect((await request('/api/v1/leaderboard?period=year')).status).toBe(400);
+      expect((await request('/api/v1/leaderboard?source=mentoring')).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/leaderboard/winners', () => {
+    it('should list each snapshotted period\'s winners', async () => {
+      setup({
+        snapshots: [
+          { id: 'snap-2', period_start: WEEK_START - 604800, period_end: WEEK_START },
+          { id: 'snap-1', period_start: WEEK_START - 2 * 604800, period_end: WEEK_START - 604800 },
+        ],
+        winners: [
+          { snapshot_id: 'snap-2', user_id: 'user-2', name: 'Bob', points: 80, rank: 1 },
+          { snapshot_id: 'snap-1', user_id: 'user-1', name: 'Alice', points: 60, rank: 1 },
+          { snapshot_id: 'snap-2', user_id: 'user-1', name: 'Alice', points: 30, rank: 2 },
+        ],
+      });
+
+      const res = await request('/api/v1/leaderboard/winners?period=week&source=forum');
+      const data = await res.json() as GetLeaderboardWinnersResponse;
+
+      expect(res.status).toBe(200);
+      expect(findQuery('FROM leaderboard_snapshots')?.params).toEqual(['week', 'forum', 12]);
+      expect(findQuery('INSERT')).toBeUndefined();
+      expect(data.periods).toEqual([
+        {
+          start: WEEK_START - 604800,
+          end: WEEK_START,
+          winners: [
+            { user_id: 'user-2', name: 'Bob', points: 80, rank: 1 },
+            { user_id: 'user-1', name: 'Alice', points: 30, rank: 2 },
+          ],
+        },
+        {
+          start: WEEK_START - 2 * 604800,
+          end: WEEK_START - 604800,
+          winners: [{ user_id: 'user-1', name: 'Alice', points: 60, rank: 1 }],
+        },
+      ]);
+    });
+
+    it('should only list week and month winners', async () => {
+      const res = await request('/api/v1/leaderboard/winners?period=custom');
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('leaderboard snapshot job', () => {
+    const fireHourlyCron = async () => {
+      const pending: Promise<unknown>[] = [];
+      app.scheduled(
+        { cron: '0 * * * *', scheduledTime: Date.now(), noRetry: () => {} },
+        mockEnv as unknown as Parameters<typeof app.scheduled>[1],
+        { waitUntil: (promise: Promise<unknown>) => pending.push(promise), passThroughOnException: () => {}, props: {} }
+      );
+      await Promise.all(pending);
+    };
+
+    const snapshotInserts = () =>
+      mockDb._queries.filter((q) => q.query.includes('INSERT OR IGNORE INTO leaderboard_snapshots'));
+
+    it('should snapshot the week and month that closed last for every source', async () => {
+      await fireHourlyCron();
+
+      expect(snapshotInserts().map((q) => q.params.slice(1, 5))).toEqual([
+        ...['all', 'forum', 'blogs', 'challenges'].map((source) => ['week', source, WEEK_START - 604800, WEEK_START]),
+        ...['all', 'forum', 'blogs', 'challenges'].map((source) => [
+          'month',
+          source,
+          Date.UTC(2024, 11, 1) / 1000,
+          Date.UTC(2025, 0, 1) / 1000,
+        ]),
+      ]);
+
+      const entries = findQuery('INSERT INTO leaderboard_snapshot_entries');
+      expect(mockDb._queries.indexOf(entries!)).toBeLessThan(mockDb._queries.indexOf(snapshotInserts()[0]));
+      expect(snapshotInserts()[0].params[0]).toBe(entries?.params[0]);
+    });
+
+    it('should skip periods that are already snapshotted', async () => {
+      setup({ snapshotId: 'snap-1' });
+
+      await fireHourlyCron();
+
+      expect(findQuery('INSERT INTO leaderboard_snapshot_entries')).toBeUndefined();
+      expect(snapshotInserts()).toEqual([]);
+    });
+
+    it('should discard its entries when another run snapshotted the period first', async () => {
+      setup({ snapshotInserted: false });
+
+      await fireHourlyCron();
+
+      const entries = findQuery('INSERT INTO leaderboard_snapshot_entries');
+      expect(findQuery('DELETE FROM leaderboard_snapshot_entries')?.params).toEqual([entries?.params[0]]);
+    });
+  });
+});
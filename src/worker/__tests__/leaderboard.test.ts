@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import app from '../index';
 import type { D1Database } from '@cloudflare/workers-types';
 import type { GetLeaderboardResponse } from '../../types/api';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
 
 interface Env {
   platform_db: D1Database;
@@ -19,14 +20,17 @@ describe('Leaderboard API', () => {
       GOOGLE_CLIENT_SECRET: 'test-client-secret',
       JWT_SECRET: 'test-jwt-secret',
       platform_db: {
-        prepare: () => ({
+        prepare: (query: string) => ({
           bind: () => ({
             first: async () => null,
             all: async () => ({ success: true, results: [] }),
             run: async () => ({ success: true }),
           }),
           first: async () => null,
-          all: async () => ({ success: true, results: [] }),
+          all: async () => ({
+            success: true,
+            results: query.includes('FROM feature_flags') ? enabledFeatureFlags('leaderboard') : [],
+          }),
           run: async () => ({ success: true }),
         }),
       },
@@ -0,0 +1,231 @@
+/**
+ * Tests for direct messaging between match participants
+ *
+ * Endpoints under test:
+ * - GET /api/v1/matches/:id/messages - List messages (participants only)
+ * - POST /api/v1/matches/:id/messages - Send a message (active matches only)
+ * - PATCH /api/v1/matches/:id/messages/read - Mark received messages as read
+ * - GET /api/v1/matches - Unread message count per match
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { MatchMessage, GetMatchMessagesResponse } from '../../types/message';
+import type { GetMatchesResponse } from '../../types/api';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+const createMockDb = () => {
+  const users = new Map<string, Record<string, unknown>>([
+    ['mentor-1', { id: 'mentor-1', name: 'Mentor One' }],
+    ['mentee-1', { id: 'mentee-1', name: 'Mentee One' }],
+  ]);
+  const matches = new Map<string, Record<string, unknown>>([
+    ['match-active', { id: 'match-active', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'active', created_at: 1 }],
+    ['match-done', { id: 'match-done', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'completed', created_at: 2 }],
+  ]);
+  const messages = new Map<string, Record<string, unknown>>();
+
+  return {
+    prepare: vi.fn((query: string) => ({
+      bind: vi.fn((...params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM match_messages') && query.includes('GROUP BY match_id')) {
+            const counts = new Map<string, number>();
+            Array.from(messages.values())
+              .filter((m) => m.recipient_id === params[0] && m.read_at === null)
+              .forEach((m) => counts.set(m.match_id as string, (counts.get(m.match_id as string) || 0) + 1));
+            return { results: Array.from(counts, ([match_id, count]) => ({ match_id, count })) };
+          }
+          if (query.includes('FROM match_messages')) {
+            const [matchId, limit, offset] = params as [string, number, number];
+            const results = Array.from(messages.values())
+              .filter((m) => m.match_id === matchId)
+              .sort((a, b) => (b.created_at as number) - (a.created_at as number))
+              .slice(offset, offset + limit)
+              .map((m) => ({ ...m, sender_name: users.get(m.sender_id as string)?.name }));
+            return { results };
+          }
+          if (query.includes('FROM matches')) {
+            const results = Array.from(matches.values()).filter((m) => m.mentor_id === params[0] || m.mentee_id === params[0]);
+            return { results };
+          }
+          return { results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('FROM matches WHERE id = ?')) {
+            return matches.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM match_messages')) {
+            const [userId, matchId] = params;
+            const inMatch = Array.from(messages.values()).filter((m) => m.match_id === matchId);
+            return {
+              total: inMatch.length,
+              unread_count: inMatch.filter((m) => m.recipient_id === userId && m.read_at === null).length,
+            };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          if (query.includes('INSERT INTO match_messages')) {
+            const [id, match_id, sender_id, recipient_id, content, created_at] = params;
+            messages.set(id as string, { id, match_id, sender_id, recipient_id, content, read_at: null, created_at });
+            return { success: true, meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE match_messages SET read_at = ?')) {
+            const [readAt, matchId, userId] = params;
+            const unread = Array.from(messages.values()).filter(
+              (m) => m.match_id === matchId && m.recipient_id === userId && m.read_at === null
+            );
+            unread.forEach((m) => { m.read_at = readAt; });
+            return { success: true, meta: { changes: unread.length } };
+          }
+          return { success: true, meta: { changes: 0 } };
+        }),
+      })),
+    })),
+    _messages: messages,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Match Messages API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let mentorToken: string;
+  let menteeToken: string;
+  let outsiderToken: string;
+
+  beforeEach(async () => {
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown });
+    mentorToken = await createTestToken('mentor-1', 'mentor@example.com', 'Mentor One');
+    menteeToken = await createTestToken('mentee-1', 'mentee@example.com', 'Mentee One');
+    outsiderToken = await createTestToken('outsider-1', 'outsider@example.com', 'Outsider');
+  });
+
+  const request = (path: string, token: string, method = 'GET', body?: unknown) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const send = (content: string, token = menteeToken, matchId = 'match-active') =>
+    request(`/api/v1/matches/${matchId}/messages`, token, 'POST', { content });
+
+  const addMessage = (id: string, senderId: string, recipientId: string, createdAt: number) =>
+    mockDb._messages.set(id, {
+      id,
+      match_id: 'match-active',
+      sender_id: senderId,
+      recipient_id: recipientId,
+      content: `<p>${id}</p>`,
+      read_at: null,
+      created_at: createdAt,
+    });
+
+  describe('POST /api/v1/matches/:id/messages', () => {
+    it('should send a sanitized message to the other participant', async () => {
+      const res = await send('<p>Hello <script>alert(1)</script><strong>mentor</strong></p>');
+      const data = await res.json() as { message: MatchMessage };
+
+      expect(res.status).toBe(201);
+      expect(data.message).toMatchObject({
+        match_id: 'match-active',
+        sender_id: 'mentee-1',
+        recipient_id: 'mentor-1',
+        content: '<p>Hello <strong>mentor</strong></p>',
+        read_at: null,
+      });
+      expect(mockDb._messages.size).toBe(1);
+    });
+
+    it('should reject empty messages', async () => {
+      expect((await send('   ')).status).toBe(400);
+      expect((await send('<script>alert(1)</script>')).status).toBe(400);
+      expect(mockDb._messages.size).toBe(0);
+    });
+
+    it('should reject messages in matches that are not active', async () => {
+      const res = await send('Hello', menteeToken, 'match-done');
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject users outside the match', async () => {
+      const res = await send('Hello', outsiderToken);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/v1/matches/:id/messages', () => {
+    it('should return the latest page in chronological order with counts', async () => {
+      addMessage('m1', 'mentor-1', 'mentee-1', 100);
+      addMessage('m2', 'mentee-1', 'mentor-1', 200);
+      addMessage('m3', 'mentor-1', 'mentee-1', 300);
+
+      const res = await request('/api/v1/matches/match-active/messages?limit=2', menteeToken);
+      const data = await res.json() as GetMatchMessagesResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.messages.map((m) => m.id)).toEqual(['m2', 'm3']);
+      expect(data.messages[1].sender_name).toBe('Mentor One');
+      expect(data.total).toBe(3);
+      expect(data.unread_count).toBe(2);
+    });
+
+    it('should page back to earlier messages with offset', async () => {
+      addMessage('m1', 'mentor-1', 'mentee-1', 100);
+      addMessage('m2', 'mentee-1', 'mentor-1', 200);
+      addMessage('m3', 'mentor-1', 'mentee-1', 300);
+
+      const res = await request('/api/v1/matches/match-active/messages?limit=2&offset=2', menteeToken);
+      const data = await res.json() as GetMatchMessagesResponse;
+
+      expect(data.messages.map((m) => m.id)).toEqual(['m1']);
+    });
+
+    it('should keep the conversation readable after the match is completed', async () => {
+      const res = await request('/api/v1/matches/match-done/messages', mentorToken);
+      expect(res.status).toBe(200);
+    });
+
+    it('should hide messages from users outside the match', async () => {
+      const res = await request('/api/v1/matches/match-active/messages', outsiderToken);
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 404 for an unknown match', async () => {
+      const res = await request('/api/v1/matches/missing/messages', menteeToken);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/v1/matches/:id/messages/read', () => {
+    it('should mark only messages received by the caller as read', async () => {
+      addMessage('m1', 'mentor-1', 'mentee-1', 100);
+      addMessage('m2', 'mentee-1', 'mentor-1', 200);
+
+      const res = await request('/api/v1/matches/match-active/messages/read', menteeToken, 'PATCH');
+
+      expect(await res.json()).toEqual({ success: true, updated: 1 });
+      expect(mockDb._messages.get('m1')?.read_at).not.toBeNull();
+      expect(mockDb._messages.get('m2')?.read_at).toBeNull();
+    });
+  });
+
+  describe('GET /api/v1/matches', () => {
+    it('should include the unread message count of each match', async () => {
+      addMessage('m1', 'mentor-1', 'mentee-1', 100);
+      addMessage('m2', 'mentor-1', 'mentee-1', 200);
+
+      const res = await request('/api/v1/matches', menteeToken);
+      const data = await res.json() as GetMatchesResponse;
+
+      expect(data.matches.find((m) => m.id === 'match-active')?.unread_message_count).toBe(2);
+      expect(data.matches.find((m) => m.id === 'match-done')?.unread_message_count).toBe(0);
+    });
+  });
+});
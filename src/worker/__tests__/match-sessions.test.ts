@@ -0,0 +1,328 @@
+/**
+ * Tests for match session scheduling
+ *
+ * Endpoints under test:
+ * - GET /api/v1/matches/:id/sessions - List sessions
+ * - POST /api/v1/matches/:id/sessions - Propose a session
+ * - POST /api/v1/matches/:id/sessions/:sessionId/confirm - Confirm a session
+ * - POST /api/v1/matches/:id/sessions/:sessionId/reschedule - Reschedule a session
+ * - POST /api/v1/matches/:id/sessions/:sessionId/cancel - Cancel a session
+ * - GET /api/v1/matches/:id/sessions/:sessionId/ics - Download a confirmed session
+ *
+ * Also covers the iCalendar builder in utils/ics.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { buildIcsCalendar, escapeIcsText, formatIcsDate } from '../utils/ics';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { MatchSession } from '../../types/session';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+const createMockDb = () => {
+  const users = new Map<string, Record<string, unknown>>([
+    ['mentor-1', { id: 'mentor-1', name: 'Mentor One' }],
+    ['mentee-1', { id: 'mentee-1', name: 'Mentee One' }],
+    ['outsider', { id: 'outsider', name: 'Outsider' }],
+  ]);
+  const matches = new Map<string, Record<string, unknown>>([
+    ['match-1', { id: 'match-1', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'active' }],
+    ['match-pending', { id: 'match-pending', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'pending' }],
+  ]);
+  const sessions = new Map<string, Record<string, unknown>>();
+
+  return {
+    prepare: vi.fn((query: string) => ({
+      bind: vi.fn((...params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM match_sessions WHERE match_id = ?')) {
+            const results = Array.from(sessions.values())
+              .filter((s) => s.match_id === params[0])
+              .sort((a, b) => (a.start_time as number) - (b.start_time as number));
+            return { results };
+          }
+          if (query.includes('FROM users WHERE id IN')) {
+            return { results: params.map((id) => users.get(id as string)).filter(Boolean) };
+          }
+          return { results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('FROM matches WHERE id = ?')) {
+            return matches.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM match_sessions WHERE id = ? AND match_id = ?')) {
+            const session = sessions.get(params[0] as string);
+            return session && session.match_id === params[1] ? session : null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          if (query.includes('INSERT INTO match_sessions')) {
+            const [id, match_id, proposed_by_user_id, start_time, duration_minutes, meeting_link, status, created_at, updated_at] = params;
+            sessions.set(id as string, {
+              id, match_id, proposed_by_user_id, start_time, duration_minutes, meeting_link, status, created_at, updated_at,
+            });
+            return { success: true, meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE match_sessions') && query.includes('proposed_by_user_id = ?')) {
+            const [proposed_by_user_id, start_time, duration_minutes, meeting_link, status, updated_at, id] = params;
+            Object.assign(sessions.get(id as string)!, {
+              proposed_by_user_id, start_time, duration_minutes, meeting_link, status, updated_at,
+            });
+            return { success: true, meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE match_sessions SET status = ?, meeting_link = ?')) {
+            const [status, meeting_link, updated_at, id] = params;
+            Object.assign(sessions.get(id as string)!, { status, meeting_link, updated_at });
+            return { success: true, meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE match_sessions SET status = ?')) {
+            const [status, updated_at, id] = params;
+            Object.assign(sessions.get(id as string)!, { status, updated_at });
+            return { success: true, meta: { changes: 1 } };
+          }
+          return { success: true, meta: { changes: 0 } };
+        }),
+      })),
+    })),
+    _sessions: sessions,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Match Sessions API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let mentorToken: string;
+  let menteeToken: string;
+  const futureTime = Math.floor(Date.now() / 1000) + 7 * 24 * 3600;
+
+  beforeEach(async () => {
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown });
+    mentorToken = await createTestToken('mentor-1', 'mentor@example.com', 'Mentor One');
+    menteeToken = await createTestToken('mentee-1', 'mentee@example.com', 'Mentee One');
+  });
+
+  const request = (path: string, token: string, method = 'GET', body?: unknown) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const propose = async (body: Record<string, unknown> = {}, token = menteeToken) => {
+    const res = await request('/api/v1/matches/match-1/sessions', token, 'POST', {
+      start_time: futureTime,
+      ...body,
+    });
+    return { res, data: await res.json() as { session: MatchSession; error?: string } };
+  };
+
+  describe('POST /api/v1/matches/:id/sessions', () => {
+    it('should let a participant propose a session', async () => {
+      const { res, data } = await propose({ meeting_link: 'https://meet.example.com/abc' });
+
+      expect(res.status).toBe(201);
+      expect(data.session).toMatchObject({
+        match_id: 'match-1',
+        proposed_by_user_id: 'mentee-1',
+        start_time: futureTime,
+        duration_minutes: 60,
+        meeting_link: 'https://meet.example.com/abc',
+        status: 'proposed',
+      });
+      expect(mockDb._sessions.size).toBe(1);
+    });
+
+    it('should reject non-participants', async () => {
+      const outsiderToken = await createTestToken('outsider', 'out@example.com', 'Outsider');
+      const { res } = await propose({}, outsiderToken);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should reject matches that are not active', async () => {
+      const res = await request('/api/v1/matches/match-pending/sessions', menteeToken, 'POST', {
+        start_time: futureTime,
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject start times in the past', async () => {
+      const { res } = await propose({ start_time: Math.floor(Date.now() / 1000) - 60 });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject invalid meeting links', async () => {
+      const { res } = await propose({ meeting_link: 'javascript:alert(1)' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject durations beyond the maximum', async () => {
+      const { res } = await propose({ duration_minutes: 600 });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 for unknown matches', async () => {
+      const res = await request('/api/v1/matches/missing/sessions', menteeToken, 'POST', {
+        start_time: futureTime,
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/matches/:id/sessions/:sessionId/confirm', () => {
+    it('should let the other participant confirm', async () => {
+      const { data } = await propose();
+
+      const res = await request(
+        `/api/v1/matches/match-1/sessions/${data.session.id}/confirm`,
+        mentorToken,
+        'POST',
+        { meeting_link: 'https://meet.example.com/xyz' }
+      );
+
+      expect(res.status).toBe(200);
+      const confirmed = await res.json() as { session: MatchSession };
+      expect(confirmed.session.status).toBe('confirmed');
+      expect(confirmed.session.meeting_link).toBe('https://meet.example.com/xyz');
+    });
+
+    it('should not let the proposer confirm their own proposal', async () => {
+      const { data } = await propose();
+
+      const res = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/confirm`, menteeToken, 'POST', {});
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/v1/matches/:id/sessions/:sessionId/reschedule', () => {
+    it('should move a confirmed session back to proposed with the rescheduler as proposer', async () => {
+      const { data } = await propose();
+      await request(`/api/v1/matches/match-1/sessions/${data.session.id}/confirm`, mentorToken, 'POST', {});
+
+      const res = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/reschedule`, mentorToken, 'POST', {
+        start_time: futureTime + 3600,
+        duration_minutes: 30,
+      });
+
+      expect(res.status).toBe(200);
+      const rescheduled = await res.json() as { session: MatchSession };
+      expect(rescheduled.session).toMatchObject({
+        status: 'proposed',
+        proposed_by_user_id: 'mentor-1',
+        start_time: futureTime + 3600,
+        duration_minutes: 30,
+      });
+
+      // The mentee can now confirm the new time
+      const confirm = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/confirm`, menteeToken, 'POST', {});
+      expect(confirm.status).toBe(200);
+    });
+
+    it('should not reschedule a cancelled session', async () => {
+      const { data } = await propose();
+      await request(`/api/v1/matches/match-1/sessions/${data.session.id}/cancel`, mentorToken, 'POST', {});
+
+      const res = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/reschedule`, mentorToken, 'POST', {
+        start_time: futureTime + 3600,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/matches/:id/sessions/:sessionId/cancel', () => {
+    it('should let either participant cancel', async () => {
+      const { data } = await propose();
+
+      const res = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/cancel`, menteeToken, 'POST', {});
+
+      expect(res.status).toBe(200);
+      const cancelled = await res.json() as { session: MatchSession };
+      expect(cancelled.session.status).toBe('cancelled');
+    });
+
+    it('should return 404 for a session of another match', async () => {
+      const res = await request('/api/v1/matches/match-1/sessions/missing/cancel', menteeToken, 'POST', {});
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/matches/:id/sessions', () => {
+    it('should list sessions ordered by start time', async () => {
+      await propose({ start_time: futureTime + 7200 });
+      await propose({ start_time: futureTime });
+
+      const res = await request('/api/v1/matches/match-1/sessions', mentorToken);
+
+      expect(res.status).toBe(200);
+      const data = await res.json() as { sessions: MatchSession[] };
+      expect(data.sessions.map((s) => s.start_time)).toEqual([futureTime, futureTime + 7200]);
+    });
+  });
+
+  describe('GET /api/v1/matches/:id/sessions/:sessionId/ics', () => {
+    it('should export a confirmed session as an iCalendar file', async () => {
+      const { data } = await propose({ meeting_link: 'https://meet.example.com/abc' });
+      await request(`/api/v1/matches/match-1/sessions/${data.session.id}/confirm`, mentorToken, 'POST', {});
+
+      const res = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/ics`, menteeToken);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/calendar');
+      expect(res.headers.get('Content-Disposition')).toContain('.ics');
+      const body = await res.text();
+      expect(body).toContain('BEGIN:VEVENT');
+      expect(body).toContain(`DTSTART:${formatIcsDate(futureTime)}`);
+      expect(body).toContain(`DTEND:${formatIcsDate(futureTime + 3600)}`);
+      expect(body).toContain('SUMMARY:Mentoring session: Mentor One / Mentee One');
+      expect(body).toContain('STATUS:CONFIRMED');
+    });
+
+    it('should not export sessions that are not confirmed', async () => {
+      const { data } = await propose();
+
+      const res = await request(`/api/v1/matches/match-1/sessions/${data.session.id}/ics`, menteeToken);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
+
+// ============================================================================
+// iCalendar Builder
+// ============================================================================
+
+describe('buildIcsCalendar', () => {
+  it('should format UTC date-times', () => {
+    expect(formatIcsDate(Date.UTC(2025, 0, 15, 12, 30, 0) / 1000)).toBe('20250115T123000Z');
+  });
+
+  it('should escape special characters in text', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('should use CRLF line endings and fold long lines', () => {
+    const ics = buildIcsCalendar([
+      { uid: 'event-1', start: 0, end: 3600, summary: 'x'.repeat(200) },
+    ]);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${'x'.repeat(200)}`);
+  });
+});
@@ -12,7 +12,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import app from '../index';
-import { createMockDb } from './utils/mockDbFactory';
+import { createMockDb, createFeatureFlagTable } from './utils/mockDbFactory';
 import { createTestEnv, createAuthenticatedRequest, createTestToken } from './utils/testAuth';
 import { expectCreated, expectBadRequest, expectConflict } from './utils/assertions';
 import { createTestUser } from './fixtures/testUsers';
@@ -31,7 +31,9 @@ describe('Match Management API', () => {
   let mentorProfile: Record<string, unknown>;
 
   beforeEach(async () => {
-    mockDb = createMockDb({ tables: { users: {}, mentor_profiles: {}, matches: {} } });
+    mockDb = createMockDb({
+      tables: { users: {}, mentor_profiles: {}, matches: {}, feature_flags: createFeatureFlagTable('match_requests') },
+    });
     mockEnv = createTestEnv({ platform_db: mockDb as unknown });
 
     // Create test users and mentor profile
@@ -0,0 +1,473 @@
+/**
+ * Tests for mentor weekly availability
+ *
+ * Endpoints under test:
+ * - GET /api/v1/mentors/profiles/:id/availability - Get availability slots
+ * - PUT /api/v1/mentors/profiles/:id/availability - Replace availability slots
+ * - GET /api/v1/mentors/search - "available during" window filter across timezones
+ *
+ * Also covers the timezone helpers in types/availability.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import app from '../index';
+import {
+  DayOfWeek,
+  convertSlotToTimezone,
+  getTimezoneOffsetMinutes,
+  parseTimeOfDay,
+  formatTimeOfDay,
+  slotOverlapsWindow,
+  hasOverlappingSlots,
+  isValidTimezone,
+} from '../../types/availability';
+import type { AvailabilitySlot } from '../../types/availability';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface MockSlotRow extends AvailabilitySlot {
+  id: string;
+  mentor_profile_id: string;
+}
+
+const createMockDb = () => {
+  const profiles = new Map<string, Record<string, unknown>>();
+  let slots: MockSlotRow[] = [];
+  const state = { failInserts: false };
+
+  const selectSlots = (query: string, params: unknown[]) => {
+    if (query.includes('json_each')) {
+      const ids = JSON.parse(params[0] as string) as string[];
+      return slots.filter((slot) => ids.includes(slot.mentor_profile_id));
+    }
+    return slots;
+  };
+
+  // Search queries only use the availability condition in these tests
+  const searchProfiles = (query: string, params: unknown[]) => {
+    let results = Array.from(profiles.values());
+    if (query.includes('id IN (SELECT value FROM json_each(?))')) {
+      const ids = JSON.parse(params[0] as string) as string[];
+      results = results.filter((profile) => ids.includes(profile.id as string));
+    }
+    return results;
+  };
+
+  const handlers = (query: string, params: unknown[]) => ({
+    all: async () => {
+      if (query.includes('FROM mentor_availability_slots')) {
+        return { results: selectSlots(query, params) };
+      }
+      if (query.includes('SELECT * FROM mentor_profiles')) {
+        return { results: searchProfiles(query, params) };
+      }
+      if (query.includes('FROM feature_flags')) {
+        return { results: enabledFeatureFlags('mentor_search') };
+      }
+      return { results: [] };
+    },
+    first: async () => {
+      if (query.includes('COUNT(*)')) {
+        return { 'COUNT(*)': searchProfiles(query, params).length };
+      }
+      if (query.includes('FROM mentor_profiles WHERE id = ?')) {
+        return profiles.get(params[0] as string) || null;
+      }
+      return null;
+    },
+    run: async () => {
+      if (query.includes('DELETE FROM mentor_availability_slots')) {
+        slots = slots.filter((slot) => slot.mentor_profile_id !== params[0]);
+        return { success: true, meta: { changes: 1 } };
+      }
+      if (query.includes('INSERT INTO mentor_availability_slots')) {
+        if (state.failInserts) {
+          throw new Error('D1_ERROR: constraint failed');
+        }
+        const [id, mentor_profile_id, day_of_week, start_minute, end_minute, timezone] = params;
+        slots.push({ id, mentor_profile_id, day_of_week, start_minute, end_minute, timezone } as MockSlotRow);
+        return { success: true, meta: { changes: 1 } };
+      }
+      return { success: true, meta: { changes: 0 } };
+    },
+  });
+
+  return {
+    prepare: vi.fn((query: string) => ({
+      bind: vi.fn((...params: unknown[]) => handlers(query, params)),
+      ...handlers(query, []),
+    })),
+    // Statements run in order and the slots roll back when one fails, like a D1 transaction
+    batch: vi.fn(async (statements: Array<{ run: () => Promise<unknown> }>) => {
+      const snapshot = slots;
+      const results = [];
+      try {
+        for (const statement of statements) {
+          results.push(await statement.run());
+        }
+      } catch (err) {
+        slots = snapshot;
+        throw err;
+      }
+      return results;
+    }),
+    _profiles: profiles,
+    _state: state,
+    _getSlots: () => slots,
+  };
+};
+
+function createProfile(id: string, userId: string) {
+  return {
+    id,
+    user_id: userId,
+    nick_name: `Mentor ${id}`,
+    bio: 'Experienced mentor',
+    mentoring_levels: 1,
+    availability: null,
+    hourly_rate: 50,
+    payment_types: 1,
+    expertise_domains: 1,
+    expertise_topics_preset: 0,
+    allow_reviews: 1,
+    allow_recording: 1,
+    linkedin_url: null,
+    created_at: 1000,
+    updated_at: 1000,
+  };
+}
+
+// ============================================================================
+// Timezone Helpers
+// ============================================================================
+
+describe('availability helpers', () => {
+  const winter = new Date('2025-01-15T12:00:00Z');
+  const summer = new Date('2025-07-15T12:00:00Z');
+
+  it('should compute UTC offsets including daylight saving time', () => {
+    expect(getTimezoneOffsetMinutes('America/New_York', winter)).toBe(-300);
+    expect(getTimezoneOffsetMinutes('America/New_York', summer)).toBe(-240);
+    expect(getTimezoneOffsetMinutes('Asia/Shanghai', winter)).toBe(480);
+    expect(getTimezoneOffsetMinutes('UTC', summer)).toBe(0);
+  });
+
+  it('should convert a slot into another timezone on a different day', () => {
+    const slot: AvailabilitySlot = {
+      day_of_week: DayOfWeek.Monday,
+      start_minute: 18 * 60,
+      end_minute: 20 * 60,
+      timezone: 'America/New_York',
+    };
+
+    expect(convertSlotToTimezone(slot, 'Asia/Shanghai', winter)).toEqual([
+      { day_of_week: DayOfWeek.Tuesday, start_minute: 7 * 60, end_minute: 9 * 60, timezone: 'Asia/Shanghai' },
+    ]);
+  });
+
+  it('should split a converted slot that crosses midnight', () => {
+    const slot: AvailabilitySlot = {
+      day_of_week: DayOfWeek.Monday,
+      start_minute: 17 * 60,
+      end_minute: 21 * 60,
+      timezone: 'America/New_York',
+    };
+
+    expect(convertSlotToTimezone(slot, 'UTC', winter)).toEqual([
+      { day_of_week: DayOfWeek.Monday, start_minute: 22 * 60, end_minute: 24 * 60, timezone: 'UTC' },
+      { day_of_week: DayOfWeek.Tuesday, start_minute: 0, end_minute: 2 * 60, timezone: 'UTC' },
+    ]);
+  });
+
+  it('should wrap around the end of the week', () => {
+    const slot: AvailabilitySlot = {
+      day_of_week: DayOfWeek.Sunday,
+      start_minute: 2 * 60,
+      end_minute: 4 * 60,
+      timezone: 'Asia/Shanghai',
+    };
+
+    expect(convertSlotToTimezone(slot, 'UTC', winter)).toEqual([
+      { day_of_week: DayOfWeek.Saturday, start_minute: 18 * 60, end_minute: 20 * 60, timezone: 'UTC' },
+    ]);
+  });
+
+  it('should detect overlap between a slot and a window in different timezones', () => {
+    const slot: AvailabilitySlot = {
+      day_of_week: DayOfWeek.Tuesday,
+      start_minute: 18 * 60,
+      end_minute: 20 * 60,
+      timezone: 'America/New_York',
+    };
+
+    const overlapping: AvailabilitySlot = {
+      day_of_week: DayOfWeek.Wednesday,
+      start_minute: 8 * 60,
+      end_minute: 9 * 60,
+      timezone: 'Asia/Shanghai',
+    };
+    const adjacent: AvailabilitySlot = { ...overlapping, start_minute: 9 * 60, end_minute: 10 * 60 };
+
+    expect(slotOverlapsWindow(slot, overlapping, winter)).toBe(true);
+    expect(slotOverlapsWindow(slot, adjacent, winter)).toBe(false);
+  });
+
+  it('should parse and format times of day', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+    expect(parseTimeOfDay('24:30')).toBeNull();
+    expect(parseTimeOfDay('9am')).toBeNull();
+    expect(formatTimeOfDay(570)).toBe('09:30');
+  });
+
+  it('should detect overlapping slots on the same day', () => {
+    expect(hasOverlappingSlots([
+      { day_of_week: 1, start_minute: 540, end_minute: 720 },
+      { day_of_week: 1, start_minute: 700, end_minute: 800 },
+    ])).toBe(true);
+    expect(hasOverlappingSlots([
+      { day_of_week: 1, start_minute: 540, end_minute: 720 },
+      { day_of_week: 2, start_minute: 600, end_minute: 800 },
+    ])).toBe(false);
+  });
+
+  it('should validate IANA timezones', () => {
+    expect(isValidTimezone('Europe/London')).toBe(true);
+    expect(isValidTimezone('Not/AZone')).toBe(false);
+    expect(isValidTimezone('')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Availability API
+// ============================================================================
+
+describe('Mentor Availability API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let token: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown });
+    mockDb._profiles.set('profile-1', createProfile('profile-1', 'user-1'));
+    mockDb._profiles.set('profile-2', createProfile('profile-2', 'user-2'));
+    token = await createTestToken('user-1', 'mentor@example.com', 'Mentor One');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const putAvailability = (profileId: string, body: unknown, authToken = token) =>
+    app.fetch(
+      createAuthenticatedRequest(`http://localhost/api/v1/mentors/profiles/${profileId}/availability`, authToken, {
+        method: 'PUT',
+        body,
+      }),
+      mockEnv
+    );
+
+  describe('PUT /api/v1/mentors/profiles/:id/availability', () => {
+    it('should replace slots and return them sorted with the timezone applied', async () => {
+      await putAvailability('profile-1', {
+        timezone: 'America/New_York',
+        slots: [{ day_of_week: 1, start_minute: 600, end_minute: 660 }],
+      });
+
+      const res = await putAvailability('profile-1', {
+        timezone: 'America/New_York',
+        slots: [
+          { day_of_week: 3, start_minute: 1080, end_minute: 1200 },
+          { day_of_week: 2, start_minute: 540, end_minute: 720 },
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      const data = await res.json() as { slots: AvailabilitySlot[] };
+      expect(data.slots).toEqual([
+        { day_of_week: 2, start_minute: 540, end_minute: 720, timezone: 'America/New_York' },
+        { day_of_week: 3, start_minute: 1080, end_minute: 1200, timezone: 'America/New_York' },
+      ]);
+      expect(mockDb._getSlots()).toHaveLength(2);
+    });
+
+    it('should clear slots when given an empty list', async () => {
+      await putAvailability('profile-1', {
+        timezone: 'UTC',
+        slots: [{ day_of_week: 1, start_minute: 600, end_minute: 660 }],
+      });
+
+      const res = await putAvailability('profile-1', { timezone: 'UTC', slots: [] });
+
+      expect(res.status).toBe(200);
+      expect(mockDb._getSlots()).toHaveLength(0);
+    });
+
+    it('should keep the previous slots when saving the new ones fails', async () => {
+      await putAvailability('profile-1', {
+        timezone: 'UTC',
+        slots: [{ day_of_week: 1, start_minute: 600, end_minute: 660 }],
+      });
+      mockDb._state.failInserts = true;
+
+      const res = await putAvailability('profile-1', {
+        timezone: 'UTC',
+        slots: [{ day_of_week: 2, start_minute: 540, end_minute: 720 }],
+      });
+
+      expect(res.status).toBe(500);
+      expect(mockDb._getSlots()).toEqual([
+        expect.objectContaining({ mentor_profile_id: 'profile-1', day_of_week: 1, start_minute: 600 }),
+      ]);
+      expect(mockDb.batch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 403 when updating another mentor\'s availability', async () => {
+      const res = await putAvailability('profile-2', { timezone: 'UTC', slots: [] });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 404 when the profile does not exist', async () => {
+      const res = await putAvailability('missing', { timezone: 'UTC', slots: [] });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should return 400 for an invalid timezone', async () => {
+      const res = await putAvailability('profile-1', { timezone: 'Mars/Olympus', slots: [] });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 when a slot ends before it starts', async () => {
+      const res = await putAvailability('profile-1', {
+        timezone: 'UTC',
+        slots: [{ day_of_week: 1, start_minute: 720, end_minute: 540 }],
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 when slots overlap', async () => {
+      const res = await putAvailability('profile-1', {
+        timezone: 'UTC',
+        slots: [
+          { day_of_week: 1, start_minute: 540, end_minute: 720 },
+          { day_of_week: 1, start_minute: 600, end_minute: 780 },
+        ],
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockDb._getSlots()).toHaveLength(0);
+    });
+  });
+
+  describe('GET /api/v1/mentors/profiles/:id/availability', () => {
+    it('should return saved slots', async () => {
+      await putAvailability('profile-1', {
+        timezone: 'Europe/London',
+        slots: [{ day_of_week: 5, start_minute: 480, end_minute: 600 }],
+      });
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/mentors/profiles/profile-1/availability', token),
+        mockEnv
+      );
+
+      expect(res.status).toBe(200);
+      const data = await res.json() as { slots: AvailabilitySlot[] };
+      expect(data.slots).toEqual([
+        { day_of_week: 5, start_minute: 480, end_minute: 600, timezone: 'Europe/London' },
+      ]);
+    });
+
+    it('should include slots when fetching the mentor profile', async () => {
+      await putAvailability('profile-1', {
+        timezone: 'Europe/London',
+        slots: [{ day_of_week: 5, start_minute: 480, end_minute: 600 }],
+      });
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/mentors/profiles/profile-1', token),
+        mockEnv
+      );
+
+      const data = await res.json() as { availability_slots: AvailabilitySlot[] };
+      expect(data.availability_slots).toHaveLength(1);
+    });
+  });
+
+  describe('GET /api/v1/mentors/search with availability window', () => {
+    beforeEach(async () => {
+      // profile-1: Tuesday 18:00-20:00 in New York (Wednesday 07:00-09:00 in Shanghai)
+      await putAvailability('profile-1', {
+        timezone: 'America/New_York',
+        slots: [{ day_of_week: 2, start_minute: 1080, end_minute: 1200 }],
+      });
+      // profile-2: Wednesday 09:00-10:00 in Shanghai
+      await putAvailability('profile-2', {
+        timezone: 'Asia/Shanghai',
+        slots: [{ day_of_week: 3, start_minute: 540, end_minute: 600 }],
+      }, await createTestToken('user-2', 'other@example.com', 'Mentor Two'));
+    });
+
+    const search = (query: string) =>
+      app.fetch(createAuthenticatedRequest(`http://localhost/api/v1/mentors/search?${query}`, token), mockEnv);
+
+    it('should match mentors whose slots overlap the window in the viewer timezone', async () => {
+      const res = await search('available_day=3&available_start=07:30&available_end=08:30&timezone=Asia/Shanghai');
+
+      expect(res.status).toBe(200);
+      const data = await res.json() as { mentors: { id: string }[]; total: number };
+      expect(data.mentors.map((m) => m.id)).toEqual(['profile-1']);
+      expect(data.total).toBe(1);
+    });
+
+    it('should default the window timezone to UTC', async () => {
+      // Wednesday 01:00-02:00 UTC is Wednesday 09:00-10:00 in Shanghai
+      const res = await search('available_day=3&available_start=01:00&available_end=02:00');
+
+      const data = await res.json() as { mentors: { id: string }[] };
+      expect(data.mentors.map((m) => m.id)).toEqual(['profile-2']);
+    });
+
+    it('should return no mentors when nobody is available', async () => {
+      const res = await search('available_day=0&available_start=09:00&available_end=10:00&timezone=UTC');
+
+      const data = await res.json() as { mentors: unknown[]; total: number };
+      expect(data.mentors).toEqual([]);
+      expect(data.total).toBe(0);
+    });
+
+    it('should attach availability slots to search results', async () => {
+      const res = await search('limit=10');
+
+      const data = await res.json() as { mentors: { id: string; availability_slots: AvailabilitySlot[] }[] };
+      const mentor = data.mentors.find((m) => m.id === 'profile-2');
+      expect(mentor?.availability_slots).toEqual([
+        { day_of_week: 3, start_minute: 540, end_minute: 600, timezone: 'Asia/Shanghai' },
+      ]);
+    });
+
+    it('should return 400 when the window is incomplete', async () => {
+      const res = await search('available_day=3&available_start=07:30');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 400 for an invalid window timezone', async () => {
+      const res = await search('available_day=3&available_start=07:30&available_end=08:30&timezone=Nowhere/City');
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
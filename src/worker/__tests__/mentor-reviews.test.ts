@@ -0,0 +1,247 @@
+/**
+ * Tests for mentor reviews and ratings
+ *
+ * Endpoints under test:
+ * - POST /api/v1/matches/:id/review - Review the mentor of a completed match
+ * - GET /api/v1/mentors/profiles/:id/reviews - List reviews and aggregates
+ * - GET /api/v1/mentors/search - min_rating filter and rating sort
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { MentorReview, MentorReviewsResponse } from '../../types/review';
+import type { SearchMentorsResponse } from '../../types/api';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+const createMockDb = () => {
+  const users = new Map<string, Record<string, unknown>>([
+    ['mentor-1', { id: 'mentor-1', name: 'Mentor One' }],
+    ['mentor-2', { id: 'mentor-2', name: 'Mentor Two' }],
+    ['mentee-1', { id: 'mentee-1', name: 'Mentee One' }],
+  ]);
+  const profiles = new Map<string, Record<string, unknown>>([
+    ['profile-1', { id: 'profile-1', user_id: 'mentor-1', nick_name: 'One', allow_reviews: 1, average_rating: null, review_count: 0, created_at: 2 }],
+    ['profile-2', { id: 'profile-2', user_id: 'mentor-2', nick_name: 'Two', allow_reviews: 0, average_rating: 5, review_count: 1, created_at: 1 }],
+  ]);
+  const matches = new Map<string, Record<string, unknown>>([
+    ['match-done', { id: 'match-done', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'completed' }],
+    ['match-active', { id: 'match-active', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'active' }],
+    ['match-no-reviews', { id: 'match-no-reviews', mentor_id: 'mentor-2', mentee_id: 'mentee-1', status: 'completed' }],
+  ]);
+  const reviews = new Map<string, Record<string, unknown>>();
+
+  return {
+    prepare: vi.fn((query: string) => ({
+      // requireFeature loads every flag without bindings
+      all: vi.fn(async () => ({ results: query.includes('FROM feature_flags') ? enabledFeatureFlags('mentor_search') : [] })),
+      bind: vi.fn((...params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM mentor_reviews') && query.includes('WHERE mentor_reviews.mentor_id = ?')) {
+            const results = Array.from(reviews.values())
+              .filter((r) => r.mentor_id === params[0])
+              .map((r) => ({ ...r, mentee_name: users.get(r.mentee_id as string)?.name }));
+            return { results };
+          }
+          if (query.includes('SELECT * FROM mentor_profiles')) {
+            let results = Array.from(profiles.values());
+            if (query.includes('average_rating >= ?')) {
+              results = results.filter((p) => p.allow_reviews === 1 && (p.average_rating as number) >= (params[0] as number));
+            }
+            if (query.includes('ORDER BY (allow_reviews = 1 AND average_rating IS NOT NULL) DESC')) {
+              const visible = (p: Record<string, unknown>) => (p.allow_reviews === 1 ? (p.average_rating as number | null) : null);
+              results.sort((a, b) => (visible(b) ?? -1) - (visible(a) ?? -1));
+            } else {
+              results.sort((a, b) => (b.created_at as number) - (a.created_at as number));
+            }
+            return { results };
+          }
+          return { results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('FROM matches WHERE id = ?')) {
+            return matches.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM mentor_profiles WHERE user_id = ?')) {
+            return Array.from(profiles.values()).find((p) => p.user_id === params[0]) || null;
+          }
+          if (query.includes('FROM mentor_profiles WHERE id = ?')) {
+            return profiles.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM mentor_reviews WHERE match_id = ?')) {
+            return Array.from(reviews.values()).find((r) => r.match_id === params[0]) || null;
+          }
+          if (query.includes('COUNT(*)')) {
+            return { 'COUNT(*)': profiles.size };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          if (query.includes('INSERT INTO mentor_reviews')) {
+            const [id, match_id, mentor_id, mentee_id, rating, comment, created_at, updated_at] = params;
+            reviews.set(id as string, { id, match_id, mentor_id, mentee_id, rating, comment, created_at, updated_at });
+            return { success: true, meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE mentor_profiles') && query.includes('average_rating')) {
+            const mentorId = params[0];
+            const ratings = Array.from(reviews.values())
+              .filter((r) => r.mentor_id === mentorId)
+              .map((r) => r.rating as number);
+            const profile = Array.from(profiles.values()).find((p) => p.user_id === mentorId);
+            if (profile) {
+              profile.average_rating = ratings.length ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null;
+              profile.review_count = ratings.length;
+            }
+            return { success: true, meta: { changes: 1 } };
+          }
+          return { success: true, meta: { changes: 0 } };
+        }),
+      })),
+    })),
+    _reviews: reviews,
+    _profiles: profiles,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Mentor Reviews API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let mentorToken: string;
+  let menteeToken: string;
+
+  beforeEach(async () => {
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown });
+    mentorToken = await createTestToken('mentor-1', 'mentor@example.com', 'Mentor One');
+    menteeToken = await createTestToken('mentee-1', 'mentee@example.com', 'Mentee One');
+  });
+
+  const request = (path: string, token: string, method = 'GET', body?: unknown) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const review = (matchId: string, body: Record<string, unknown>, token = menteeToken) =>
+    request(`/api/v1/matches/${matchId}/review`, token, 'POST', body);
+
+  describe('POST /api/v1/matches/:id/review', () => {
+    it('should let the mentee review a completed match and update aggregates', async () => {
+      const res = await review('match-done', { rating: 4, comment: '  Very helpful  ' });
+      const data = await res.json() as { review: MentorReview };
+
+      expect(res.status).toBe(201);
+      expect(data.review).toMatchObject({
+        match_id: 'match-done',
+        mentor_id: 'mentor-1',
+        mentee_id: 'mentee-1',
+        rating: 4,
+        comment: 'Very helpful',
+      });
+      expect(mockDb._profiles.get('profile-1')).toMatchObject({ average_rating: 4, review_count: 1 });
+    });
+
+    it('should allow only one review per match', async () => {
+      await review('match-done', { rating: 5, comment: 'Great' });
+      const res = await review('match-done', { rating: 1, comment: 'Changed my mind' });
+
+      expect(res.status).toBe(409);
+      expect(mockDb._reviews.size).toBe(1);
+    });
+
+    it('should reject matches that are not completed', async () => {
+      const res = await review('match-active', { rating: 5, comment: 'Great' });
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject the mentor reviewing their own match', async () => {
+      const res = await review('match-done', { rating: 5, comment: 'Great' }, mentorToken);
+      expect(res.status).toBe(403);
+    });
+
+    it('should reject reviews for mentors who turned reviews off', async () => {
+      const res = await review('match-no-reviews', { rating: 5, comment: 'Great' });
+      expect(res.status).toBe(403);
+      expect(mockDb._reviews.size).toBe(0);
+    });
+
+    it('should validate rating and comment', async () => {
+      expect((await review('match-done', { rating: 0, comment: 'Great' })).status).toBe(400);
+      expect((await review('match-done', { rating: 6, comment: 'Great' })).status).toBe(400);
+      expect((await review('match-done', { rating: 3.5, comment: 'Great' })).status).toBe(400);
+      expect((await review('match-done', { rating: 3, comment: '   ' })).status).toBe(400);
+    });
+
+    it('should return 404 for an unknown match', async () => {
+      const res = await review('missing', { rating: 5, comment: 'Great' });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/mentors/profiles/:id/reviews', () => {
+    it('should return reviews with reviewer names and aggregates', async () => {
+      await review('match-done', { rating: 5, comment: 'Great' });
+
+      const res = await request('/api/v1/mentors/profiles/profile-1/reviews', menteeToken);
+      const data = await res.json() as MentorReviewsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.average_rating).toBe(5);
+      expect(data.review_count).toBe(1);
+      expect(data.reviews[0]).toMatchObject({ rating: 5, comment: 'Great', mentee_name: 'Mentee One' });
+    });
+
+    it('should hide reviews and aggregates when reviews are turned off', async () => {
+      const res = await request('/api/v1/mentors/profiles/profile-2/reviews', menteeToken);
+      const data = await res.json() as MentorReviewsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data).toEqual({ reviews: [], average_rating: null, review_count: 0 });
+    });
+
+    it('should return 404 for an unknown profile', async () => {
+      const res = await request('/api/v1/mentors/profiles/missing/reviews', menteeToken);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/mentors/search rating options', () => {
+    it('should hide aggregates of mentors who turned reviews off', async () => {
+      const res = await request('/api/v1/mentors/search', menteeToken);
+      const data = await res.json() as SearchMentorsResponse;
+
+      const hidden = data.mentors.find((m) => m.id === 'profile-2');
+      expect(hidden).toMatchObject({ average_rating: null, review_count: 0 });
+    });
+
+    it('should filter by minimum rating', async () => {
+      await review('match-done', { rating: 4, comment: 'Good' });
+
+      const res = await request('/api/v1/mentors/search?min_rating=4', menteeToken);
+      const data = await res.json() as SearchMentorsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.mentors.map((m) => m.id)).toEqual(['profile-1']);
+    });
+
+    it('should sort by rating with unrated mentors last', async () => {
+      mockDb._profiles.get('profile-1')!.created_at = 0;
+      await review('match-done', { rating: 3, comment: 'Okay' });
+
+      const res = await request('/api/v1/mentors/search?sort=rating', menteeToken);
+      const data = await res.json() as SearchMentorsResponse;
+
+      expect(data.mentors.map((m) => m.id)).toEqual(['profile-1', 'profile-2']);
+    });
+
+    it('should reject invalid rating options', async () => {
+      expect((await request('/api/v1/mentors/search?min_rating=9', menteeToken)).status).toBe(400);
+      expect((await request('/api/v1/mentors/search?sort=price', menteeToken)).status).toBe(400);
+    });
+  });
+});
@@ -19,6 +19,8 @@ import app from '../index';
 import { MentoringLevel, PaymentType } from '../../types/mentor';
 import { createToken } from '../auth/jwt';
 import type { AuthPayload } from '../../types/user';
+import { enabledFeatureFlags, pointsLedgerRow } from './utils/mockDbFactory';
+import { DEFAULT_TEST_SESSION_ID, withTestSession } from './utils/testAuth';
 
 interface Env {
   platform_db: D1Database;
@@ -31,7 +33,7 @@ const JWT_SECRET = 'test-jwt-secret';
  * Create a JWT token for testing
  */
 async function createTestToken(userId: string, email: string, name: string): Promise<string> {
-  const payload: AuthPayload = { userId, email, name };
+  const payload: AuthPayload = { userId, email, name, sid: DEFAULT_TEST_SESSION_ID };
   return createToken(payload, JWT_SECRET);
 }
 
@@ -45,6 +47,8 @@ const createMockDb = () => {
 
   return {
     prepare: vi.fn((query: string) => ({
+      // requireFeature loads every flag without bindings
+      all: vi.fn(async () => ({ results: query.includes('FROM feature_flags') ? enabledFeatureFlags('mentor_search') : [] })),
       bind: vi.fn((...params: unknown[]) => ({
         all: vi.fn(async () => {
           // Handle INSERT for users
@@ -57,6 +61,11 @@ const createMockDb = () => {
             return { results: [] };
           }
 
+          // Handle the points ledger row; a new user starts from no balance
+          if (query.includes('RETURNING points_awarded')) {
+            return { results: [pointsLedgerRow(query, params, 0)] };
+          }
+
           // Handle SELECT for search
           if (query.includes('SELECT') && query.includes('mentor_profiles')) {
             let results = Array.from(mockProfiles.values());
@@ -210,6 +219,13 @@ const createMockDb = () => {
         }),
       })),
     })),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
     _mockUsers: mockUsers,
     _mockProfiles: mockProfiles,
   };
@@ -254,7 +270,7 @@ describe('Mentor Search API', () => {
   beforeEach(async () => {
     mockDb = createMockDb();
     mockEnv = {
-      platform_db: mockDb as unknown,
+      platform_db: withTestSession(mockDb as unknown as D1Database),
       JWT_SECRET: 'test-jwt-secret',
     } as Env;
   });
@@ -0,0 +1,191 @@
+/**
+ * Tests for the in-app notification center
+ *
+ * Endpoints under test:
+ * - GET /api/v1/notifications - List notifications with unread count
+ * - GET /api/v1/notifications/unread-count - Unread badge count
+ * - PATCH /api/v1/notifications/:id/read - Mark one notification as read
+ * - PATCH /api/v1/notifications/read-all - Mark all notifications as read
+ * - POST /api/v1/matches/:id/respond - Notifies the mentee
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { NotificationType } from '../../types/notification';
+import type { GetNotificationsResponse, Notification } from '../../types/notification';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+const createMockDb = () => {
+  const notifications = new Map<string, Record<string, unknown>>([
+    ['notif-1', { id: 'notif-1', user_id: 'mentee-1', type: 'forum_reply', actor_id: 'mentor-1', data: '{"actor_name":"Mentor One","title":"Hello"}', link: '/forums/threads/t1', read_at: null, created_at: 100 }],
+    ['notif-2', { id: 'notif-2', user_id: 'mentee-1', type: 'blog_comment', actor_id: 'mentor-1', data: '{"actor_name":"Mentor One","title":"Post"}', link: '/blogs/b1', read_at: 150, created_at: 200 }],
+    ['notif-3', { id: 'notif-3', user_id: 'mentor-1', type: 'match_requested', actor_id: 'mentee-1', data: '{}', link: '/matches', read_at: null, created_at: 300 }],
+  ]);
+  const matches = new Map<string, Record<string, unknown>>([
+    ['match-1', { id: 'match-1', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'pending' }],
+  ]);
+
+  const forUser = (userId: unknown, unreadOnly: boolean) =>
+    Array.from(notifications.values()).filter((n) => n.user_id === userId && (!unreadOnly || n.read_at === null));
+
+  return {
+    prepare: vi.fn((query: string) => ({
+      bind: vi.fn((...params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM notifications')) {
+            const results = forUser(params[0], query.includes('read_at IS NULL'))
+              .sort((a, b) => (b.created_at as number) - (a.created_at as number))
+              .slice(params[2] as number, (params[2] as number) + (params[1] as number));
+            return { results };
+          }
+          return { results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('COUNT(*) as count FROM notifications')) {
+            return { count: forUser(params[0], query.includes('read_at IS NULL')).length };
+          }
+          if (query.includes('FROM notifications WHERE id = ? AND user_id = ?')) {
+            const notification = notifications.get(params[0] as string);
+            return notification && notification.user_id === params[1] ? notification : null;
+          }
+          if (query.includes('FROM matches WHERE id = ?')) {
+            return matches.get(params[0] as string) || null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          if (query.includes('INSERT INTO notifications')) {
+            const [id, user_id, type, actor_id, data, link, created_at] = params;
+            notifications.set(id as string, { id, user_id, type, actor_id, data, link, read_at: null, created_at });
+            return { success: true, meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE notifications SET read_at = ? WHERE user_id = ?')) {
+            const unread = forUser(params[1], true);
+            unread.forEach((n) => { n.read_at = params[0]; });
+            return { success: true, meta: { changes: unread.length } };
+          }
+          if (query.includes('UPDATE notifications SET read_at = ? WHERE id = ?')) {
+            const notification = notifications.get(params[1] as string);
+            if (notification) {
+              notification.read_at = params[0];
+            }
+            return { success: true, meta: { changes: notification ? 1 : 0 } };
+          }
+          if (query.includes('UPDATE matches SET status = ?')) {
+            const match = matches.get(params[2] as string);
+            if (match) {
+              match.status = params[0];
+            }
+            return { success: true, meta: { changes: 1 } };
+          }
+          return { success: true, meta: { changes: 0 } };
+        }),
+      })),
+    })),
+    _notifications: notifications,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Notifications API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let mentorToken: string;
+  let menteeToken: string;
+
+  beforeEach(async () => {
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown });
+    mentorToken = await createTestToken('mentor-1', 'mentor@example.com', 'Mentor One');
+    menteeToken = await createTestToken('mentee-1', 'mentee@example.com', 'Mentee One');
+  });
+
+  const request = (path: string, token: string, method = 'GET', body?: unknown) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  describe('GET /api/v1/notifications', () => {
+    it('should list only the caller\'s notifications, newest first, with parsed data', async () => {
+      const res = await request('/api/v1/notifications', menteeToken);
+      const data = await res.json() as GetNotificationsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.total).toBe(2);
+      expect(data.unread_count).toBe(1);
+      expect(data.notifications.map((n) => n.id)).toEqual(['notif-2', 'notif-1']);
+      expect(data.notifications[1].data).toEqual({ actor_name: 'Mentor One', title: 'Hello' });
+    });
+
+    it('should filter unread notifications', async () => {
+      const res = await request('/api/v1/notifications?unread_only=true', menteeToken);
+      const data = await res.json() as GetNotificationsResponse;
+
+      expect(data.total).toBe(1);
+      expect(data.notifications.map((n) => n.id)).toEqual(['notif-1']);
+    });
+
+    it('should require authentication', async () => {
+      const res = await app.fetch(new Request('http://localhost/api/v1/notifications'), mockEnv);
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/v1/notifications/unread-count', () => {
+    it('should return the unread count', async () => {
+      const res = await request('/api/v1/notifications/unread-count', mentorToken);
+      expect(await res.json()).toEqual({ unread_count: 1 });
+    });
+  });
+
+  describe('PATCH /api/v1/notifications/:id/read', () => {
+    it('should mark the notification as read', async () => {
+      const res = await request('/api/v1/notifications/notif-1/read', menteeToken, 'PATCH');
+      const data = await res.json() as { notification: Notification };
+
+      expect(res.status).toBe(200);
+      expect(data.notification.read_at).not.toBeNull();
+      expect(mockDb._notifications.get('notif-1')?.read_at).not.toBeNull();
+    });
+
+    it('should return 404 for another user\'s notification', async () => {
+      const res = await request('/api/v1/notifications/notif-1/read', mentorToken, 'PATCH');
+
+      expect(res.status).toBe(404);
+      expect(mockDb._notifications.get('notif-1')?.read_at).toBeNull();
+    });
+  });
+
+  describe('PATCH /api/v1/notifications/read-all', () => {
+    it('should mark all of the caller\'s unread notifications as read', async () => {
+      const res = await request('/api/v1/notifications/read-all', menteeToken, 'PATCH');
+
+      expect(await res.json()).toEqual({ success: true, updated: 1 });
+      expect(mockDb._notifications.get('notif-1')?.read_at).not.toBeNull();
+      expect(mockDb._notifications.get('notif-3')?.read_at).toBeNull();
+    });
+  });
+
+  describe('notification triggers', () => {
+    it('should notify the mentee when the mentor accepts a match', async () => {
+      const res = await request('/api/v1/matches/match-1/respond', mentorToken, 'POST', { action: 'accept' });
+      expect(res.status).toBe(200);
+
+      const created = Array.from(mockDb._notifications.values()).find((n) => n.type === NotificationType.MatchAccepted);
+      expect(created).toMatchObject({ user_id: 'mentee-1', actor_id: 'mentor-1', link: '/matches' });
+      expect(JSON.parse(created?.data as string)).toEqual({ actor_name: 'Mentor One' });
+    });
+
+    it('should notify the mentee when the mentor rejects a match', async () => {
+      await request('/api/v1/matches/match-1/respond', mentorToken, 'POST', { action: 'reject' });
+
+      const created = Array.from(mockDb._notifications.values()).find((n) => n.type === NotificationType.MatchRejected);
+      expect(created).toMatchObject({ user_id: 'mentee-1' });
+    });
+  });
+});
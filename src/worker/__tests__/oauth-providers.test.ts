@@ -0,0 +1,351 @@
+/**
+ * Tests for sign-in providers and account linking
+ *
+ * Covers:
+ * - Listing configured providers and building their login URLs
+ * - GitHub and generic OIDC sign-in against mocked token endpoints
+ * - Linking a new provider account to the user with the same verified email
+ * - Refusing unverified emails
+ * - Listing and unlinking linked accounts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import app from '../index';
+import { clearOidcDiscoveryCache } from '../auth/providers';
+import { createTestToken, createAuthenticatedRequest, createUnauthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { enabledFeatureFlags, pointsLedgerRow } from './utils/mockDbFactory';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+type Row = Record<string, unknown>;
+
+const createMockDb = () => {
+  const users: Row[] = [
+    { id: 'user-1', email: 'alice@example.com', name: 'Alice', google_id: 'google-1', created_at: 0, updated_at: 0 },
+  ];
+  const identities: Row[] = [
+    { id: 'identity-google', user_id: 'user-1', provider: 'google', provider_user_id: 'google-1', email: 'alice@example.com', created_at: 100, last_used_at: 100 },
+  ];
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM feature_flags')) {
+            return { success: true, results: enabledFeatureFlags('public_registration') };
+          }
+          if (query.includes('FROM user_identities')) {
+            return { success: true, results: identities.filter((row) => row.user_id === params[0]) };
+          }
+          // A new user's ledger starts from no balance
+          if (query.includes('RETURNING points_awarded')) {
+            return { success: true, results: [pointsLedgerRow(query, params, 0)] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('JOIN users ON users.id = user_identities.user_id')) {
+            const identity = identities.find((row) => row.provider === params[0] && row.provider_user_id === params[1]);
+            return identity ? users.find((row) => row.id === identity.user_id) || null : null;
+          }
+          if (query.includes('SELECT * FROM users WHERE email = ?')) {
+            return users.find((row) => row.email === params[0]) || null;
+          }
+          if (query.includes('SELECT id, provider FROM user_identities')) {
+            return identities.find((row) => row.id === params[0] && row.user_id === params[1]) || null;
+          }
+          if (query.includes('SELECT COUNT(*) as count FROM user_identities')) {
+            return { count: identities.filter((row) => row.user_id === params[0]).length };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          if (query.includes('INSERT INTO users')) {
+            users.push({ id: params[0], email: params[1], name: params[2], google_id: params[3] });
+          } else if (query.includes('INSERT INTO user_identities')) {
+            identities.push({
+              id: params[0],
+              user_id: params[1],
+              provider: params[2],
+              provider_user_id: params[3],
+              email: params[4],
+              created_at: params[5],
+              last_used_at: params[6],
+            });
+          } else if (query.includes('DELETE FROM user_identities WHERE id = ?')) {
+            const index = identities.findIndex((row) => row.id === params[0]);
+            identities.splice(index, 1);
+          } else if (query.includes('UPDATE users SET google_id = NULL')) {
+            const user = users.find((row) => row.id === params[1]);
+            if (user) {
+              user.google_id = null;
+            }
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
+    _users: users,
+    _identities: identities,
+  };
+};
+
+// ============================================================================
+// Provider Mocks
+// ============================================================================
+
+const OIDC_ISSUER = 'https://sso.example.com';
+
+const mockProviders = (options: {
+  githubEmails?: Array<{ email: string; primary: boolean; verified: boolean }>;
+  oidcClaims?: Record<string, unknown>;
+} = {}) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    // GitHub
+    if (url === 'https://github.com/login/oauth/access_token') {
+      return new Response(JSON.stringify({ access_token: 'github-token', token_type: 'bearer' }));
+    }
+    if (url === 'https://api.github.com/user') {
+      return new Response(JSON.stringify({ id: 4242, login: 'alicecodes', name: null }));
+    }
+    if (url === 'https://api.github.com/user/emails') {
+      return new Response(
+        JSON.stringify(options.githubEmails || [{ email: 'Alice@example.com', primary: true, verified: true }])
+      );
+    }
+    // OIDC
+    if (url === `${OIDC_ISSUER}/.well-known/openid-configuration`) {
+      return new Response(
+        JSON.stringify({
+          authorization_endpoint: `${OIDC_ISSUER}/authorize`,
+          token_endpoint: `${OIDC_ISSUER}/token`,
+          userinfo_endpoint: `${OIDC_ISSUER}/userinfo`,
+        })
+      );
+    }
+    if (url === `${OIDC_ISSUER}/token`) {
+      return new Response(JSON.stringify({ access_token: 'oidc-token', token_type: 'Bearer' }));
+    }
+    if (url === `${OIDC_ISSUER}/userinfo`) {
+      return new Response(
+        JSON.stringify(options.oidcClaims || { sub: 'oidc-7', email: 'new@example.com', email_verified: true, name: 'Newcomer' })
+      );
+    }
+    return new Response('Not found', { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('OAuth providers', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv> & Record<string, unknown>;
+
+  const callback = (provider: string) =>
+    app.fetch(createUnauthenticatedRequest(`http://localhost/api/v1/auth/${provider}/callback?code=auth-code`), mockEnv);
+
+  beforeEach(() => {
+    clearOidcDiscoveryCache();
+    mockDb = createMockDb();
+    mockEnv = {
+      ...createTestEnv({ platform_db: mockDb as unknown as D1Database }),
+      GITHUB_CLIENT_ID: 'github-client',
+      GITHUB_CLIENT_SECRET: 'github-secret',
+      OIDC_ISSUER,
+      OIDC_CLIENT_ID: 'oidc-client',
+      OIDC_CLIENT_SECRET: 'oidc-secret',
+      OIDC_NAME: 'Example SSO',
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('GET /api/v1/auth/providers', () => {
+    it('should list configured providers', async () => {
+      const res = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/auth/providers'), mockEnv);
+
+      expect(await res.json()).toEqual({
+        providers: [
+          { id: 'google', name: 'Google' },
+          { id: 'github', name: 'GitHub' },
+          { id: 'oidc', name: 'Example SSO' },
+        ],
+      });
+    });
+
+    it('should leave out providers without credentials', async () => {
+      const env = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+
+      const res = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/auth/providers'), env);
+
+      expect(await res.json()).toEqual({ providers: [{ id: 'google', name: 'Google' }] });
+    });
+  });
+
+  describe('GET /api/v1/auth/:provider/login', () => {
+    it('should build the GitHub consent URL with the invite state', async () => {
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/auth/github/login?invite=ABCD2345'),
+        mockEnv
+      );
+
+      const url = new URL((await res.json()).url);
+      expect(url.origin + url.pathname).toBe('https://github.com/login/oauth/authorize');
+      expect(url.searchParams.get('client_id')).toBe('github-client');
+      expect(url.searchParams.get('redirect_uri')).toBe('http://localhost/auth/github/callback');
+      expect(url.searchParams.get('state')).toBeTruthy();
+    });
+
+    it('should build the OIDC consent URL from the discovery document', async () => {
+      mockProviders();
+
+      const res = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/auth/oidc/login'), mockEnv);
+
+      const url = new URL((await res.json()).url);
+      expect(url.origin + url.pathname).toBe(`${OIDC_ISSUER}/authorize`);
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+    });
+
+    it('should return 404 for providers that are not configured', async () => {
+      const env = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+
+      const res = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/auth/github/login'), env);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/auth/:provider/callback', () => {
+    it('should link a GitHub account to the user with the same verified email', async () => {
+      const fetchMock = mockProviders();
+
+      const res = await callback('github');
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).user).toMatchObject({ id: 'user-1', email: 'alice@example.com' });
+      expect(mockDb._users).toHaveLength(1);
+      expect(mockDb._identities).toContainEqual(
+        expect.objectContaining({ user_id: 'user-1', provider: 'github', provider_user_id: '4242' })
+      );
+
+      const tokenCall = fetchMock.mock.calls.find(([url]) => url === 'https://github.com/login/oauth/access_token');
+      expect(String((tokenCall?.[1] as RequestInit).body)).toContain('client_secret=github-secret');
+    });
+
+    it('should sign in with an already linked account', async () => {
+      mockProviders();
+      await callback('github');
+
+      const res = await callback('github');
+
+      expect(res.status).toBe(200);
+      expect(mockDb._identities.filter((row) => row.provider === 'github')).toHaveLength(1);
+    });
+
+    it('should create a user for a new OIDC account', async () => {
+      mockProviders();
+
+      const res = await callback('oidc');
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).user).toMatchObject({ email: 'new@example.com', name: 'Newcomer' });
+      const created = mockDb._users.find((row) => row.email === 'new@example.com');
+      expect(created?.google_id).toBeNull();
+      expect(mockDb._identities).toContainEqual(
+        expect.objectContaining({ user_id: created?.id, provider: 'oidc', provider_user_id: 'oidc-7' })
+      );
+    });
+
+    it('should refuse to link an unverified email', async () => {
+      mockProviders({ oidcClaims: { sub: 'oidc-8', email: 'alice@example.com', email_verified: false } });
+
+      const res = await callback('oidc');
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).error).toContain('not verified');
+      expect(mockDb._identities).toHaveLength(1);
+    });
+
+    it('should fall back to a verified secondary GitHub email', async () => {
+      mockProviders({
+        githubEmails: [
+          { email: 'old@example.com', primary: true, verified: false },
+          { email: 'alice@example.com', primary: false, verified: true },
+        ],
+      });
+
+      const res = await callback('github');
+
+      expect((await res.json()).user).toMatchObject({ id: 'user-1' });
+    });
+  });
+
+  describe('Linked accounts', () => {
+    let token: string;
+
+    beforeEach(async () => {
+      token = await createTestToken('user-1', 'alice@example.com', 'Alice');
+    });
+
+    it('should list the accounts the user can sign in with', async () => {
+      mockProviders();
+      await callback('github');
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/identities', token), mockEnv);
+
+      const { identities } = await res.json();
+      expect(identities.map((identity: { provider: string }) => identity.provider)).toEqual(['google', 'github']);
+    });
+
+    it('should unlink an account and clear google_id', async () => {
+      mockProviders();
+      await callback('github');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/auth/identities/identity-google', token, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockDb._identities.map((row) => row.provider)).toEqual(['github']);
+      expect(mockDb._users[0].google_id).toBeNull();
+    });
+
+    it('should not unlink the only sign-in method', async () => {
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/auth/identities/identity-google', token, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(400);
+      expect(mockDb._identities).toHaveLength(1);
+    });
+
+    it('should not unlink another user\'s account', async () => {
+      const otherToken = await createTestToken('user-2', 'bo@example.com', 'Bo');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/auth/identities/identity-google', otherToken, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Tests for the points ledger
+ *
+ * Endpoints under test:
+ * - GET /api/v1/users/:id/points/history - A user's ledger, newest first
+ * - Ledger entries written by signup, admin overrides, challenge approvals and reversals
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import type { GetPointsHistoryResponse } from '../../types/api';
+import { INITIAL_POINTS, MAX_POINTS } from '../../types/points';
+import { pointsLedgerRow } from './utils/mockDbFactory';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  transactions?: Record<string, unknown>[];
+  balance?: number | null;
+  outstanding?: number;
+  rows?: Record<string, Record<string, unknown> | null>;
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const ledger: Record<string, unknown>[] = [];
+  const rows = state.rows || {};
+
+  const findRow = (query: string) => {
+    const key = Object.keys(rows).find((text) => query.includes(text));
+    return key ? rows[key] : null;
+  };
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT * FROM point_actions_log')) {
+            return { success: true, results: state.transactions || [] };
+          }
+          if (query.includes('RETURNING points_awarded')) {
+            const row = pointsLedgerRow(query, params, state.balance ?? 0);
+            ledger.push(row);
+            return { success: true, results: [row] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT COUNT(*) as count FROM point_actions_log')) {
+            return { count: (state.transactions || []).length };
+          }
+          if (query.includes('COALESCE(SUM(points_awarded), 0) as total')) {
+            return { total: state.outstanding || 0 };
+          }
+          return findRow(query);
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
+    _queries: queries,
+    _ledger: ledger,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Points Ledger', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = memberToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const ledgerEntries = () =>
+    mockDb._ledger.map((row) => ({
+      userId: row.user_id,
+      actionType: row.action_type,
+      referenceId: row.reference_id,
+      points: row.points_awarded,
+      balanceAfter: row.balance_after,
+    }));
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/users/:id/points/history', () => {
+    it('should return the user\'s own transactions', async () => {
+      setup({
+        transactions: [
+          {
+            id: 'tx-2',
+            user_id: 'user-1',
+            action_type: 'upvote_received',
+            reference_id: 'vote-1',
+            points_awarded: 3,
+            balance_after: 38,
+            created_at: 1700000100,
+          },
+          {
+            id: 'tx-1',
+            user_id: 'user-1',
+            action_type: 'opening_balance',
+            reference_id: 'user-1',
+            points_awarded: 35,
+            balance_after: null,
+            created_at: 1700000000,
+          },
+        ],
+      });
+
+      const res = await request('/api/v1/users/user-1/points/history');
+      const data = await res.json() as GetPointsHistoryResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.total).toBe(2);
+      expect(data.transactions[0]).toEqual({
+        id: 'tx-2',
+        user_id: 'user-1',
+        action_type: 'upvote_received',
+        reference_id: 'vote-1',
+        points: 3,
+        balance_after: 38,
+        created_at: 1700000100,
+      });
+      expect(data.transactions[1].balance_after).toBeNull();
+    });
+
+    it('should filter by action types and paginate', async () => {
+      const res = await request(
+        '/api/v1/users/user-1/points/history?action_type=upvote_received,upvote_received_reversed&limit=10&offset=20'
+      );
+
+      expect(res.status).toBe(200);
+      const list = mockDb._queries.find((q) => q.query.includes('SELECT * FROM point_actions_log'));
+      expect(list?.query).toContain('user_id = ? AND action_type IN (?, ?)');
+      expect(list?.params).toEqual(['user-1', 'upvote_received', 'upvote_received_reversed', 10, 20]);
+    });
+
+    it('should cap the page size', async () => {
+      await request('/api/v1/users/user-1/points/history?limit=5000');
+
+      const list = mockDb._queries.find((q) => q.query.includes('SELECT * FROM point_actions_log'));
+      expect(list?.params).toEqual(['user-1', 100, 0]);
+    });
+
+    it('should reject unknown action types', async () => {
+      const res = await request('/api/v1/users/user-1/points/history?action_type=free_points');
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should not show other users\' history to members', async () => {
+      const res = await request('/api/v1/users/user-2/points/history');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should let admins view any user\'s history', async () => {
+      const res = await request('/api/v1/users/user-2/points/history', 'GET', undefined, adminToken);
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should require authentication', async () => {
+      const res = await app.fetch(new Request('http://localhost/api/v1/users/user-1/points/history'), mockEnv);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('Ledger entries', () => {
+    it('should record the signup bonus for new users', async () => {
+      const res = await request('/api/v1/users', 'POST', { email: 'new@example.com', name: 'New' });
+
+      expect(res.status).toBe(201);
+      expect(ledgerEntries()).toEqual([
+        expect.objectContaining({ actionType: 'signup_bonus', points: INITIAL_POINTS, balanceAfter: INITIAL_POINTS }),
+      ]);
+      expect(mockDb._queries.some((q) => q.query.includes('INSERT INTO user_points'))).toBe(true);
+    });
+
+    it('should record admin overrides as the difference from the current balance', async () => {
+      setup({
+        balance: 120,
+        rows: {
+          'SELECT id FROM users WHERE id = ?': { id: 'user-1' },
+          'SELECT * FROM user_points': { id: 'points-1', user_id: 'user-1', points: 100, updated_at: 1 },
+        },
+      });
+
+      const res = await request('/api/v1/users/user-1/points', 'PATCH', { points: 100 }, adminToken);
+
+      expect(res.status).toBe(200);
+      expect(ledgerEntries()).toEqual([
+        {
+          userId: 'user-1',
+          actionType: 'admin_adjustment',
+          referenceId: 'admin-1',
+          points: -20,
+          balanceAfter: 100,
+        },
+      ]);
+      // The new balance is written as is, not as a change from a balance read earlier
+      const logged = mockDb._queries.find((q) => q.query.includes('INSERT INTO point_actions_log'));
+      expect(logged?.query).not.toContain('previous + ?');
+      expect(logged?.params.slice(5)).toEqual([100, MAX_POINTS, 'user-1']);
+      expect(mockDb._queries.some((q) => q.query.includes('SELECT id, points FROM user_points'))).toBe(false);
+    });
+
+    it('should record challenge approvals', async () => {
+      setup({
+        balance: 40,
+        rows: {
+          'SELECT * FROM challenge_submissions': {
+            id: 'sub-1',
+            challenge_id: 'challenge-1',
+            user_id: 'user-1',
+            status: 'pending',
+          },
+          'SELECT * FROM challenges': { id: 'challenge-1', title: 'Mentor someone', point_reward: 30 },
+        },
+      });
+
+      const res = await request('/api/v1/submissions/sub-1/approve', 'PATCH', undefined, adminToken);
+
+      expect(res.status).toBe(200);
+      expect(ledgerEntries()).toEqual([
+        {
+          userId: 'user-1',
+          actionType: 'challenge_approved',
+          referenceId: 'sub-1',
+          points: 30,
+          balanceAfter: 70,
+        },
+      ]);
+      // The change is applied to the stored balance in SQL, and the balance is copied from the ledger row
+      const logged = mockDb._queries.find((q) => q.query.includes('INSERT INTO point_actions_log'));
+      expect(logged?.query).toContain('MIN(MAX(previous + ?, 0), ?)');
+      expect(logged?.params.slice(5)).toEqual([30, MAX_POINTS, 'user-1']);
+      expect(mockDb._queries.find((q) => q.query.includes('INSERT INTO user_points'))?.params).toEqual([
+        expect.any(String),
+        logged?.params[0],
+      ]);
+    });
+
+    it('should never take a balance below zero', async () => {
+      setup({
+        balance: 2,
+        outstanding: 3,
+        rows: {
+          'SELECT id, user_id, upvote_count, downvote_count FROM forum_threads': {
+            id: 'thread-1',
+            user_id: 'user-2',
+            upvote_count: 1,
+            downvote_count: 0,
+          },
+          'SELECT id, vote_type FROM forum_votes': { id: 'vote-1', vote_type: 'upvote' },
+        },
+      });
+
+      await request('/api/v1/forums/threads/thread-1/vote', 'POST', { vote_type: 'upvote' });
+
+      expect(ledgerEntries()).toEqual([
+        {
+          userId: 'user-2',
+          actionType: 'upvote_received_reversed',
+          referenceId: 'vote-1',
+          points: -2,
+          balanceAfter: 0,
+        },
+      ]);
+    });
+  });
+});
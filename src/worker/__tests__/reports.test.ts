@@ -0,0 +1,352 @@
+/**
+ * Tests for content reports and the admin moderation queue
+ *
+ * Endpoints under test:
+ * - POST /api/v1/reports - Report a thread, reply, blog or blog comment
+ * - GET /api/v1/admin/reports - Open reports grouped by target (admin only)
+ * - POST /api/v1/admin/reports/:targetType/:targetId/actions - Dismiss, hide, delete or warn (admin only)
+ * - Hidden content filtering in the forum and blog read endpoints
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import {
+  createTestToken,
+  createAuthenticatedRequest,
+  createUnauthenticatedRequest,
+  createTestEnv,
+} from './utils/testAuth';
+import type { ContentReport, GetReportGroupsResponse, ModerationAction } from '../../types/report';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  content?: Record<string, unknown> | null;
+  existingReport?: boolean;
+  groups?: Record<string, unknown>[];
+  reports?: Record<string, unknown>[];
+  replies?: Record<string, unknown>[];
+  thread?: Record<string, unknown> | null;
+}
+
+const defaultContent = {
+  author_id: 'user-2',
+  title: 'Career advice',
+  content: '<p>Buy <strong>cheap</strong> followers</p>',
+  hidden_at: null,
+  parent_id: 'thread-1',
+  author_name: 'Spammer',
+};
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  const content = state.content === undefined ? defaultContent : state.content;
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('GROUP BY target_type, target_id') && query.includes('LIMIT')) {
+            return { results: state.groups || [] };
+          }
+          if (query.includes('FROM reports r')) {
+            return { results: state.reports || [] };
+          }
+          if (query.includes('FROM forum_replies r')) {
+            return { success: true, results: state.replies || [] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('parent_id')) {
+            return content;
+          }
+          if (query.includes('FROM reports') && query.includes('reporter_id = ?')) {
+            return state.existingReport ? { id: 'report-0' } : null;
+          }
+          if (query.includes('COUNT(*) as count') && query.includes('FROM reports')) {
+            return { count: (state.groups || []).length };
+          }
+          if (query.includes('FROM forum_threads t') && query.includes('WHERE t.id = ?')) {
+            return state.thread === undefined ? null : state.thread;
+          }
+          if (query.includes('FROM forum_threads WHERE id = ?')) {
+            return state.thread === undefined ? null : state.thread;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          return { success: true, meta: { changes: query.startsWith('\n        UPDATE reports') ? 2 : 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    _queries: queries,
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Content Reports API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let userToken: string;
+  let adminToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+
+  const report = (body: Record<string, unknown>, token = userToken) =>
+    app.fetch(
+      createAuthenticatedRequest('http://localhost/api/v1/reports', token, { method: 'POST', body }),
+      mockEnv
+    );
+
+  const moderate = (path: string, body: Record<string, unknown>, token = adminToken) =>
+    app.fetch(
+      createAuthenticatedRequest(`http://localhost/api/v1/admin/reports/${path}/actions`, token, { method: 'POST', body }),
+      mockEnv
+    );
+
+  beforeEach(async () => {
+    setup();
+    userToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+  });
+
+  describe('POST /api/v1/reports', () => {
+    it('should create an open report', async () => {
+      const res = await report({ target_type: 'reply', target_id: 'reply-1', reason: 'spam', details: '  Ads  ' });
+      const data = await res.json() as { report: ContentReport };
+
+      expect(res.status).toBe(201);
+      expect(data.report).toMatchObject({
+        target_type: 'reply',
+        target_id: 'reply-1',
+        reporter_id: 'user-1',
+        reason: 'spam',
+        details: 'Ads',
+        status: 'open',
+      });
+      expect(findQuery('INSERT INTO reports')?.params.slice(1, 7)).toEqual(['reply', 'reply-1', 'user-1', 'spam', 'Ads', 'open']);
+    });
+
+    it('should require authentication', async () => {
+      const res = await app.fetch(
+        createUnauthenticatedRequest('http://localhost/api/v1/reports', {
+          method: 'POST',
+          body: JSON.stringify({ target_type: 'reply', target_id: 'reply-1', reason: 'spam' }),
+        }),
+        mockEnv
+      );
+      expect(res.status).toBe(401);
+    });
+
+    it('should validate the target type and reason', async () => {
+      expect((await report({ target_type: 'event', target_id: 'event-1', reason: 'spam' })).status).toBe(400);
+      expect((await report({ target_type: 'reply', target_id: 'reply-1', reason: 'boring' })).status).toBe(400);
+      expect(findQuery('INSERT INTO reports')).toBeUndefined();
+    });
+
+    it('should return 404 for missing content and 400 for own content', async () => {
+      setup({ content: null });
+      expect((await report({ target_type: 'blog', target_id: 'blog-9', reason: 'spam' })).status).toBe(404);
+
+      setup({ content: { ...defaultContent, author_id: 'user-1' } });
+      expect((await report({ target_type: 'blog', target_id: 'blog-1', reason: 'spam' })).status).toBe(400);
+    });
+
+    it('should reject a second open report from the same user', async () => {
+      setup({ existingReport: true });
+      const res = await report({ target_type: 'thread', target_id: 'thread-1', reason: 'harassment' });
+
+      expect(res.status).toBe(409);
+      expect(findQuery('INSERT INTO reports')).toBeUndefined();
+    });
+  });
+
+  describe('GET /api/v1/admin/reports', () => {
+    it('should be admin only', async () => {
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/admin/reports', userToken), mockEnv);
+      expect(res.status).toBe(403);
+    });
+
+    it('should group open reports by target with a content summary', async () => {
+      setup({
+        groups: [{ target_type: 'reply', target_id: 'reply-1', report_count: 2, first_reported_at: 100, last_reported_at: 200 }],
+        reports: [
+          { id: 'report-2', target_type: 'reply', target_id: 'reply-1', reporter_id: 'user-3', reason: 'spam', status: 'open', created_at: 200, reporter_name: 'Bob' },
+          { id: 'report-1', target_type: 'reply', target_id: 'reply-1', reporter_id: 'user-1', reason: 'other', details: 'Ads', status: 'open', created_at: 100, reporter_name: 'Alice' },
+        ],
+      });
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/admin/reports?type=reply', adminToken), mockEnv);
+      const data = await res.json() as GetReportGroupsResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.total).toBe(1);
+      expect(data.groups[0]).toMatchObject({
+        target_type: 'reply',
+        target_id: 'reply-1',
+        report_count: 2,
+        content: {
+          title: 'Career advice',
+          excerpt: 'Buy cheap followers',
+          author_name: 'Spammer',
+          link: '/forums/threads/thread-1',
+          hidden: false,
+        },
+      });
+      expect(data.groups[0].reports.map((r) => r.reporter_name)).toEqual(['Bob', 'Alice']);
+
+      const groupsQuery = mockDb._queries.find((q) => q.query.includes('ORDER BY report_count DESC'));
+      expect(groupsQuery?.params).toEqual(['open', 'reply', 20, 0]);
+    });
+
+    it('should reject unknown statuses', async () => {
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/admin/reports?status=pending', adminToken), mockEnv);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/admin/reports/:targetType/:targetId/actions', () => {
+    it('should be admin only', async () => {
+      const res = await moderate('reply/reply-1', { action: 'dismiss' }, userToken);
+      expect(res.status).toBe(403);
+    });
+
+    it('should dismiss the reports and record the action', async () => {
+      const res = await moderate('reply/reply-1', { action: 'dismiss', note: 'Not spam' });
+      const data = await res.json() as { action: ModerationAction };
+
+      expect(res.status).toBe(200);
+      expect(data.action).toMatchObject({
+        target_type: 'reply',
+        target_id: 'reply-1',
+        action: 'dismiss',
+        admin_id: 'admin-1',
+        author_id: 'user-2',
+        note: 'Not spam',
+        reports_closed: 2,
+      });
+      expect(findQuery('UPDATE reports')?.params.slice(0, 2)).toEqual(['dismissed', 'admin-1']);
+      expect(findQuery('INSERT INTO moderation_actions')).toBeDefined();
+      expect(findQuery('hidden_at = ?')).toBeUndefined();
+    });
+
+    it('should hide content and resolve the reports', async () => {
+      await moderate('blog_comment/comment-1', { action: 'hide' });
+
+      expect(findQuery('UPDATE blog_comments SET hidden_at = ?')?.params).toEqual([expect.any(Number), 'comment-1']);
+      expect(findQuery('UPDATE reports')?.params[0]).toBe('resolved');
+    });
+
+    it('should delete a reply and drop it from the thread count and search index', async () => {
+      await moderate('reply/reply-1', { action: 'delete' });
+
+      expect(findQuery('DELETE FROM forum_replies WHERE id = ?')?.params).toEqual(['reply-1']);
+      expect(findQuery('reply_count = MAX(0, reply_count - 1)')?.params).toEqual([expect.any(Number), 'thread-1']);
+      expect(findQuery('DELETE FROM search_index WHERE content_type = ? AND content_id = ?')?.params).toEqual(['reply', 'reply-1']);
+    });
+
+    it('should soft-delete threads so they can be restored', async () => {
+      await moderate('thread/thread-1', { action: 'delete' });
+
+      expect(findQuery('UPDATE forum_threads SET deleted_at = ?')?.params).toEqual([
+        expect.any(Number),
+        'admin-1',
+        expect.any(Number),
+        'thread-1',
+      ]);
+      expect(findQuery('DELETE FROM forum_threads')).toBeUndefined();
+    });
+
+    it('should soft-delete blog comments', async () => {
+      await moderate('blog_comment/comment-1', { action: 'delete' });
+
+      expect(findQuery("SET content = '[deleted]'")?.params).toEqual([expect.any(Number), 'comment-1']);
+      expect(findQuery('DELETE FROM blog_comments')).toBeUndefined();
+    });
+
+    it('should require a note to warn the author and notify them', async () => {
+      const missingNote = await moderate('thread/thread-1', { action: 'warn' });
+      expect(missingNote.status).toBe(400);
+
+      const res = await moderate('thread/thread-1', { action: 'warn', note: 'Please keep it civil' });
+      expect(res.status).toBe(200);
+
+      const notification = findQuery('INSERT INTO notifications');
+      expect(notification?.params).toContain('user-2');
+      expect(notification?.params).toContain('content_warning');
+      expect(notification?.params).toContain(JSON.stringify({ title: 'Career advice', note: 'Please keep it civil' }));
+    });
+
+    it('should return 404 when acting on missing content, except dismiss', async () => {
+      setup({ content: null });
+      expect((await moderate('blog/blog-9', { action: 'hide' })).status).toBe(404);
+      expect((await moderate('blog/blog-9', { action: 'dismiss' })).status).toBe(200);
+    });
+
+    it('should reject unknown actions', async () => {
+      const res = await moderate('blog/blog-1', { action: 'ban' });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('hidden content', () => {
+    it('should mask hidden replies for members but not admins', async () => {
+      const replies = [
+        { id: 'reply-1', content: '<p>Visible</p>', hidden_at: null },
+        { id: 'reply-2', content: '<p>Spam</p>', hidden_at: 1700000000 },
+      ];
+
+      setup({ replies });
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1/replies', userToken), mockEnv);
+      const data = await res.json() as { replies: { content: string }[] };
+      expect(data.replies.map((r) => r.content)).toEqual(['<p>Visible</p>', '[hidden]']);
+
+      setup({ replies });
+      const adminRes = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1/replies', adminToken), mockEnv);
+      const adminData = await adminRes.json() as { replies: { content: string }[] };
+      expect(adminData.replies.map((r) => r.content)).toEqual(['<p>Visible</p>', '<p>Spam</p>']);
+    });
+
+    it('should only show hidden threads to admins', async () => {
+      setup({ thread: { id: 'thread-1', title: 'Spam', hidden_at: 1700000000 } });
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1', userToken), mockEnv);
+      expect(res.status).toBe(404);
+
+      const adminRes = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1', adminToken), mockEnv);
+      expect(adminRes.status).toBe(200);
+    });
+
+    it('should only show replies of hidden threads to admins', async () => {
+      const state = { thread: { hidden_at: 1700000000 }, replies: [{ id: 'reply-1', content: '<p>Visible</p>', hidden_at: null }] };
+
+      setup(state);
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1/replies', userToken), mockEnv);
+      expect(res.status).toBe(404);
+
+      setup(state);
+      const adminRes = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/forums/threads/thread-1/replies', adminToken), mockEnv);
+      const adminData = await adminRes.json() as { replies: { content: string }[] };
+      expect(adminData.replies.map((r) => r.content)).toEqual(['<p>Visible</p>']);
+    });
+  });
+});
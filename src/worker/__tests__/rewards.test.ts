@@ -0,0 +1,450 @@
+/**
+ * Tests for the rewards store
+ *
+ * Endpoints under test:
+ * - GET /api/v1/rewards - Redeemable rewards
+ * - POST /api/v1/rewards/:id/redeem - Spend points on a reward
+ * - GET /api/v1/rewards/redemptions - The caller's redemptions
+ * - POST/PATCH /api/v1/admin/rewards - Catalog management
+ * - GET/PATCH /api/v1/admin/redemptions - Fulfillment queue
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+import { enabledFeatureFlags, pointsLedgerRow } from './utils/mockDbFactory';
+import type { GetRedemptionsResponse, RedeemRewardResponse, Reward, RewardRedemption } from '../../types/reward';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+interface MockState {
+  reward?: Record<string, unknown> | null;
+  redemption?: Record<string, unknown> | null;
+  redemptions?: Record<string, unknown>[];
+  balance?: number; // Points held by the redeeming user
+  failRedemptionInsert?: boolean;
+  failRefundCredit?: boolean;
+  statusChanged?: boolean; // Another admin processed the redemption first
+}
+
+const createMockDb = (state: MockState = {}) => {
+  const queries: RecordedQuery[] = [];
+  // Written by the redeem and refund batches and rolled back when they fail
+  const store = {
+    stock: (state.reward?.stock ?? null) as number | null,
+    balance: state.balance ?? 0,
+    status: (state.redemption?.status ?? null) as unknown,
+    redeemed: [] as unknown[],
+  };
+  const isRedeemed = (id: unknown) => store.redeemed.includes(id);
+  const ledger: Record<string, unknown>[] = [];
+  // The refund batch credits and restocks once, after its own status change
+  const isRefundPending = () =>
+    store.status === 'refunded' && !ledger.some((row) => row.action_type === 'reward_refunded');
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM feature_flags')) {
+            return { results: enabledFeatureFlags('rewards_store') };
+          }
+          queries.push({ query, params });
+          if (query.includes('INSERT INTO reward_redemptions')) {
+            if (state.failRedemptionInsert) {
+              throw new Error('D1_ERROR: constraint failed');
+            }
+            const cost = params[10] as number;
+            const inStock = store.stock === null || store.stock > 0;
+            if (!inStock || store.balance < cost) {
+              return { success: true, results: [], meta: { changes: 0 } };
+            }
+            store.redeemed.push(params[0]);
+            return { success: true, results: [], meta: { changes: 1 } };
+          }
+          if (query.includes('SET stock = stock - 1')) {
+            const changes = isRedeemed(params[2]) ? 1 : 0;
+            if (changes && store.stock !== null) {
+              store.stock -= 1;
+            }
+            return { success: true, results: [], meta: { changes } };
+          }
+          if (query.includes('UPDATE user_points SET points = points - ?')) {
+            const cost = params[0] as number;
+            if (!isRedeemed(params[4]) || store.balance < cost) {
+              return { success: true, results: [], meta: { changes: 0 } };
+            }
+            store.balance -= cost;
+            return { success: true, results: [{ points: store.balance }], meta: { changes: 1 } };
+          }
+          if (query.includes('UPDATE reward_redemptions')) {
+            if (state.statusChanged || store.status !== params[6]) {
+              return { success: true, results: [], meta: { changes: 0 } };
+            }
+            store.status = params[0];
+            return { success: true, results: [], meta: { changes: 1 } };
+          }
+          if (query.includes('SET stock = stock + 1')) {
+            const changes = isRefundPending() && store.stock !== null ? 1 : 0;
+            if (changes) {
+              store.stock! += 1;
+            }
+            return { success: true, results: [], meta: { changes } };
+          }
+          if (query.includes('RETURNING points_awarded')) {
+            if (query.includes('FROM reward_redemptions') && !isRefundPending()) {
+              return { success: true, results: [], meta: { changes: 0 } };
+            }
+            if (state.failRefundCredit) {
+              throw new Error('D1_ERROR: constraint failed');
+            }
+            const row = pointsLedgerRow(query, params, store.balance);
+            ledger.push(row);
+            return { success: true, results: [row] };
+          }
+          if (query.includes('INSERT INTO user_points') && query.includes('FROM point_actions_log WHERE id = ?')) {
+            const logged = ledger.find((row) => row.id === params[1]);
+            if (logged) {
+              store.balance = logged.balance_after as number;
+            }
+            return { success: true, results: [], meta: { changes: logged ? 1 : 0 } };
+          }
+          if (query.includes('INSERT INTO point_actions_log') && query.includes('SELECT')) {
+            return { success: true, results: [], meta: { changes: isRedeemed(params[7]) ? 1 : 0 } };
+          }
+          if (query.includes('FROM rewards')) {
+            return { success: true, results: state.reward ? [state.reward] : [] };
+          }
+          if (query.includes('FROM reward_redemptions rr')) {
+            return { success: true, results: state.redemptions || [] };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('SELECT * FROM rewards WHERE id = ?')) {
+            return state.reward || null;
+          }
+          if (query.includes('SELECT stock FROM rewards WHERE id = ?')) {
+            return state.reward ? { stock: store.stock } : null;
+          }
+          if (query.includes('FROM reward_redemptions rr')) {
+            return state.redemption || null;
+          }
+          if (query.includes('SELECT COUNT(*) as count')) {
+            return { count: (state.redemptions || []).length };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    // One transaction: a statement that throws undoes the ones before it
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const snapshot = { ...store, redeemed: [...store.redeemed] };
+      const logged = ledger.length;
+      const results = [];
+      try {
+        for (const statement of statements) {
+          results.push(await statement.all());
+        }
+      } catch (err) {
+        Object.assign(store, snapshot);
+        ledger.length = logged;
+        throw err;
+      }
+      return results;
+    }),
+    _store: store,
+    _ledger: ledger,
+    _queries: queries,
+  };
+};
+
+const NOW = Math.floor(Date.now() / 1000);
+
+const rewardRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'reward-1',
+  name: 'Event ticket',
+  description: 'A ticket to the annual meetup',
+  cost: 100,
+  stock: 5,
+  expires_at: null,
+  is_active: 1,
+  created_by: 'admin-1',
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  ...overrides,
+});
+
+const redemptionRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'redemption-1',
+  reward_id: 'reward-1',
+  user_id: 'user-1',
+  cost: 100,
+  status: 'pending',
+  note: null,
+  admin_note: null,
+  processed_by: null,
+  processed_at: null,
+  created_at: 1700000000,
+  updated_at: 1700000000,
+  reward_name: 'Event ticket',
+  ...overrides,
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Rewards Store', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let adminToken: string;
+  let memberToken: string;
+
+  const setup = (state: MockState = {}) => {
+    mockDb = createMockDb(state);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const request = (path: string, method = 'GET', body?: Record<string, unknown>, token = memberToken) =>
+    app.fetch(createAuthenticatedRequest(`http://localhost${path}`, token, { method, body }), mockEnv);
+
+  const findQuery = (text: string) => mockDb._queries.find((q) => q.query.includes(text));
+  const auditEntries = () => mockDb._queries.filter((q) => q.query.includes('INSERT INTO admin_audit_log'));
+
+  beforeEach(async () => {
+    setup();
+    adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    memberToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/rewards', () => {
+    it('should list active, unexpired rewards', async () => {
+      setup({ reward: rewardRow() });
+
+      const res = await app.fetch(new Request('http://localhost/api/v1/rewards'), mockEnv);
+      const data = await res.json() as { rewards: Reward[] };
+
+      expect(res.status).toBe(200);
+      expect(data.rewards[0]).toMatchObject({ id: 'reward-1', cost: 100, stock: 5, is_active: true });
+      expect(findQuery('FROM rewards')?.query).toContain('is_active = 1 AND (expires_at IS NULL OR expires_at > ?)');
+    });
+  });
+
+  describe('POST /api/v1/rewards/:id/redeem', () => {
+    it('should reserve stock, debit points and queue the redemption in one batch', async () => {
+      setup({ reward: rewardRow(), balance: 150 });
+
+      const res = await request('/api/v1/rewards/reward-1/redeem', 'POST', { note: 'Size M' });
+      const data = await res.json() as RedeemRewardResponse;
+
+      expect(res.status).toBe(201);
+      expect(data.points).toBe(50);
+      expect(data.redemption).toMatchObject({ reward_id: 'reward-1', user_id: 'user-1', cost: 100, status: 'pending', note: 'Size M' });
+      expect(mockDb._store).toMatchObject({ stock: 4, balance: 50 });
+
+      const insert = findQuery('INSERT INTO reward_redemptions');
+      expect(insert?.query).toContain('(stock IS NULL OR stock > 0)');
+      expect(insert?.query).toContain('points >= ?');
+      expect(insert?.params.slice(8)).toEqual(['reward-1', 'user-1', 100]);
+
+      const debit = findQuery('UPDATE user_points');
+      expect(debit?.query).toContain('WHERE user_id = ? AND points >= ?');
+      expect(debit?.params).toEqual([100, expect.any(Number), 'user-1', 100, data.redemption.id]);
+
+      const ledger = findQuery('INSERT INTO point_actions_log');
+      expect(ledger?.params.slice(1, 5)).toEqual(['user-1', 'reward_redeemed', data.redemption.id, -100]);
+
+      expect(mockDb.batch).toHaveBeenCalledTimes(1);
+      const [statements] = mockDb.batch.mock.calls[0];
+      expect(statements).toHaveLength(4);
+    });
+
+    it('should change nothing when the user cannot afford it', async () => {
+      setup({ reward: rewardRow(), balance: 40 });
+
+      const res = await request('/api/v1/rewards/reward-1/redeem', 'POST');
+
+      expect(res.status).toBe(400);
+      expect(mockDb._store).toEqual({ stock: 5, balance: 40, status: null, redeemed: [] });
+    });
+
+    it('should not debit points when the reward is out of stock', async () => {
+      setup({ reward: rewardRow({ stock: 0 }), balance: 500 });
+
+      const res = await request('/api/v1/rewards/reward-1/redeem', 'POST');
+
+      expect(res.status).toBe(409);
+      expect(mockDb._store).toEqual({ stock: 0, balance: 500, status: null, redeemed: [] });
+    });
+
+    it('should change nothing when the redemption cannot be saved', async () => {
+      setup({ reward: rewardRow(), balance: 150, failRedemptionInsert: true });
+
+      const res = await request('/api/v1/rewards/reward-1/redeem', 'POST');
+
+      expect(res.status).toBe(500);
+      expect(mockDb._store).toEqual({ stock: 5, balance: 150, status: null, redeemed: [] });
+    });
+
+    it('should reject expired and inactive rewards', async () => {
+      setup({ reward: rewardRow({ expires_at: NOW - 60 }), balance: 500 });
+      expect((await request('/api/v1/rewards/reward-1/redeem', 'POST')).status).toBe(400);
+
+      setup({ reward: rewardRow({ is_active: 0 }), balance: 500 });
+      expect((await request('/api/v1/rewards/reward-1/redeem', 'POST')).status).toBe(404);
+    });
+
+    it('should require authentication', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/api/v1/rewards/reward-1/redeem', { method: 'POST' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/v1/rewards/redemptions', () => {
+    it('should list the caller\'s redemptions', async () => {
+      setup({ redemptions: [redemptionRow()] });
+
+      const res = await request('/api/v1/rewards/redemptions');
+      const data = await res.json() as GetRedemptionsResponse;
+
+      expect(data.total).toBe(1);
+      expect(data.redemptions[0]).toMatchObject({ id: 'redemption-1', reward_name: 'Event ticket' });
+      expect(findQuery('FROM reward_redemptions rr')?.params).toEqual(['user-1', 20, 0]);
+    });
+  });
+
+  describe('Admin catalog', () => {
+    it('should create a reward and audit it', async () => {
+      const res = await request('/api/v1/admin/rewards', 'POST', { name: ' Mentor session ', cost: 300, stock: null }, adminToken);
+      const data = await res.json() as { reward: Reward };
+
+      expect(res.status).toBe(201);
+      expect(data.reward).toMatchObject({ name: 'Mentor session', cost: 300, stock: null, expires_at: null, is_active: true });
+      expect(auditEntries()[0].params.slice(1, 5)).toEqual(['admin-1', 'reward.create', 'reward', data.reward.id]);
+    });
+
+    it('should validate rewards', async () => {
+      expect((await request('/api/v1/admin/rewards', 'POST', { name: 'Swag' }, adminToken)).status).toBe(400);
+      expect((await request('/api/v1/admin/rewards', 'POST', { name: 'Swag', cost: 0 }, adminToken)).status).toBe(400);
+      expect((await request('/api/v1/admin/rewards', 'POST', { name: 'Swag', cost: 10, stock: -1 }, adminToken)).status).toBe(400);
+    });
+
+    it('should update a reward and audit only the changed fields', async () => {
+      setup({ reward: rewardRow() });
+
+      const res = await request('/api/v1/admin/rewards/reward-1', 'PATCH', { stock: 10, is_active: false, cost: 100 }, adminToken);
+      const data = await res.json() as { reward: Reward };
+
+      expect(res.status).toBe(200);
+      expect(data.reward).toMatchObject({ stock: 10, is_active: false, cost: 100 });
+      const audit = auditEntries()[0];
+      expect(audit.params[2]).toBe('reward.update');
+      expect(JSON.parse(audit.params[5] as string)).toEqual({ stock: 5, is_active: true });
+      expect(JSON.parse(audit.params[6] as string)).toEqual({ stock: 10, is_active: false });
+    });
+
+    it('should require an admin', async () => {
+      expect((await request('/api/v1/admin/rewards', 'POST', { name: 'Swag', cost: 10 })).status).toBe(403);
+      expect((await request('/api/v1/admin/redemptions')).status).toBe(403);
+    });
+  });
+
+  describe('Fulfillment queue', () => {
+    it('should list pending redemptions oldest first', async () => {
+      setup({ redemptions: [redemptionRow({ user_name: 'Alice', user_email: 'user@example.com' })] });
+
+      const res = await request('/api/v1/admin/redemptions', 'GET', undefined, adminToken);
+      const data = await res.json() as GetRedemptionsResponse;
+
+      expect(data.redemptions[0]).toMatchObject({ user_name: 'Alice', user_email: 'user@example.com' });
+      const list = findQuery('FROM reward_redemptions rr');
+      expect(list?.query).toContain('ORDER BY rr.created_at ASC');
+      expect(list?.params).toEqual(['pending', 20, 0]);
+    });
+
+    it('should approve and then fulfill a redemption', async () => {
+      setup({ redemption: redemptionRow() });
+
+      const res = await request('/api/v1/admin/redemptions/redemption-1', 'PATCH', { status: 'approved' }, adminToken);
+      const data = await res.json() as { redemption: RewardRedemption };
+
+      expect(res.status).toBe(200);
+      expect(data.redemption).toMatchObject({ status: 'approved', processed_by: 'admin-1' });
+      expect(findQuery('UPDATE reward_redemptions')?.params.slice(-2)).toEqual(['redemption-1', 'pending']);
+      expect(findQuery('INSERT INTO point_actions_log')).toBeUndefined();
+
+      setup({ redemption: redemptionRow({ status: 'approved' }) });
+      const fulfilled = await request('/api/v1/admin/redemptions/redemption-1', 'PATCH', { status: 'fulfilled' }, adminToken);
+      expect(fulfilled.status).toBe(200);
+    });
+
+    it('should refund the points and restock the reward in one batch', async () => {
+      setup({ reward: rewardRow({ stock: 4 }), redemption: redemptionRow({ status: 'approved' }), balance: 20 });
+
+      const res = await request(
+        '/api/v1/admin/redemptions/redemption-1',
+        'PATCH',
+        { status: 'refunded', admin_note: 'Event cancelled' },
+        adminToken
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockDb._ledger).toEqual([
+        expect.objectContaining({ user_id: 'user-1', action_type: 'reward_refunded', reference_id: 'redemption-1', points_awarded: 100 }),
+      ]);
+      expect(mockDb._store).toMatchObject({ status: 'refunded', stock: 5, balance: 120 });
+      expect(findQuery('SET stock = stock + 1')?.params[1]).toBe('reward-1');
+      expect(mockDb.batch).toHaveBeenCalledTimes(1);
+      const audit = auditEntries()[0];
+      expect(audit.params[2]).toBe('reward.redemption.update');
+      expect(JSON.parse(audit.params[6] as string)).toEqual({ status: 'refunded', admin_note: 'Event cancelled' });
+    });
+
+    it('should reject transitions the queue does not allow', async () => {
+      setup({ redemption: redemptionRow({ status: 'fulfilled' }) });
+
+      const res = await request('/api/v1/admin/redemptions/redemption-1', 'PATCH', { status: 'refunded' }, adminToken);
+
+      expect(res.status).toBe(400);
+      expect(findQuery('UPDATE reward_redemptions')).toBeUndefined();
+    });
+
+    it('should not refund twice when another admin got there first', async () => {
+      setup({ redemption: redemptionRow(), statusChanged: true });
+
+      const res = await request('/api/v1/admin/redemptions/redemption-1', 'PATCH', { status: 'refunded' }, adminToken);
+
+      expect(res.status).toBe(409);
+      expect(mockDb._ledger).toEqual([]);
+      expect(mockDb._store.balance).toBe(0);
+    });
+
+    it('should leave the redemption as it was when the refund cannot be credited', async () => {
+      setup({ reward: rewardRow({ stock: 4 }), redemption: redemptionRow({ status: 'approved' }), balance: 20, failRefundCredit: true });
+
+      const res = await request('/api/v1/admin/redemptions/redemption-1', 'PATCH', { status: 'refunded' }, adminToken);
+
+      expect(res.status).toBe(500);
+      expect(mockDb._store).toEqual({ stock: 4, balance: 20, status: 'approved', redeemed: [] });
+      expect(mockDb._ledger).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Tests for scheduled background jobs
+ *
+ * Covers:
+ * - The cron handler running the jobs of the trigger that fired
+ * - Hot scores, expired challenges, stale match requests, old thread views and forum counters
+ * - Job locks: overlapping runs are skipped, failing jobs don't stop the others
+ * - Admin job list, run history and manual runs
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import worker from '../index';
+import { createTestToken, createAuthenticatedRequest, createTestEnv } from './utils/testAuth';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+type Row = Record<string, unknown>;
+
+const DAY = 24 * 60 * 60;
+const now = () => Math.floor(Date.now() / 1000);
+
+const createMockDb = () => {
+  const tables = {
+    forum_threads: [
+      { id: 'thread-1', upvote_count: 10, downvote_count: 0, reply_count: 2, created_at: now() - 3600, hot_score: 0 },
+      { id: 'thread-2', upvote_count: 1, downvote_count: 0, reply_count: 0, created_at: now() - 30 * DAY, hot_score: 5 },
+    ] as Row[],
+    challenges: [
+      { id: 'challenge-past', status: 'active', deadline: Date.now() - 1000, updated_at: 0 },
+      { id: 'challenge-future', status: 'active', deadline: Date.now() + DAY * 1000, updated_at: 0 },
+    ] as Row[],
+    matches: [
+      { id: 'match-stale', mentor_id: 'mentor-1', mentee_id: 'mentee-1', status: 'pending', created_at: now() - 45 * DAY },
+      { id: 'match-recent', mentor_id: 'mentor-1', mentee_id: 'mentee-2', status: 'pending', created_at: now() - DAY },
+    ] as Row[],
+    forum_thread_views: [
+      { id: 'view-old', thread_id: 'thread-1', created_at: now() - 120 * DAY },
+      { id: 'view-new', thread_id: 'thread-1', created_at: now() - DAY },
+    ] as Row[],
+    notifications: [] as Row[],
+    scheduled_job_runs: [] as Row[],
+    scheduled_job_locks: [] as Row[],
+  };
+  const users: Row[] = [
+    { id: 'mentor-1', name: 'Mentor One' },
+    { id: 'admin-1', name: 'Admin' },
+  ];
+  let failBatch = false;
+
+  const run = (query: string, params: unknown[]) => {
+    let changes = 1;
+    if (query.includes('UPDATE forum_threads SET hot_score')) {
+      const thread = tables.forum_threads.find((row) => row.id === params[1]);
+      if (thread) thread.hot_score = params[0];
+    } else if (query.includes('UPDATE challenges SET status')) {
+      const expired = tables.challenges.filter(
+        (row) => row.status === params[2] && (row.deadline as number) < (params[3] as number)
+      );
+      expired.forEach((row) => {
+        row.status = params[0];
+        row.updated_at = params[1];
+      });
+      changes = expired.length;
+    } else if (query.includes('UPDATE matches SET status')) {
+      const match = tables.matches.find((row) => row.id === params[1] && row.status === 'pending');
+      if (match) match.status = 'rejected';
+      changes = match ? 1 : 0;
+    } else if (query.includes('DELETE FROM forum_thread_views')) {
+      const before = tables.forum_thread_views.length;
+      tables.forum_thread_views = tables.forum_thread_views
+        .filter((row) => (row.created_at as number) >= (params[0] as number));
+      changes = before - tables.forum_thread_views.length;
+    } else if (query.includes('INSERT INTO notifications')) {
+      tables.notifications.push({ params });
+    } else if (query.includes('INSERT INTO scheduled_job_locks')) {
+      const [jobName, runId, lockedUntil, at] = params as [string, string, number, number];
+      const lock = tables.scheduled_job_locks.find((row) => row.job_name === jobName);
+      if (!lock) {
+        tables.scheduled_job_locks.push({ job_name: jobName, run_id: runId, locked_until: lockedUntil });
+      } else if ((lock.locked_until as number) <= at) {
+        Object.assign(lock, { run_id: runId, locked_until: lockedUntil });
+      } else {
+        changes = 0;
+      }
+    } else if (query.includes('DELETE FROM scheduled_job_locks')) {
+      tables.scheduled_job_locks = tables.scheduled_job_locks
+        .filter((row) => !(row.job_name === params[0] && row.run_id === params[1]));
+    } else if (query.includes('INSERT INTO scheduled_job_runs')) {
+      const [id, jobName, trigger, triggeredBy, status, processed, error, startedAt, finishedAt] = params;
+      tables.scheduled_job_runs.push({
+        id,
+        job_name: jobName,
+        trigger,
+        triggered_by: triggeredBy,
+        status,
+        processed_count: processed,
+        error,
+        started_at: startedAt,
+        finished_at: finishedAt,
+      });
+    } else if (query.includes('UPDATE scheduled_job_runs')) {
+      const runRow = tables.scheduled_job_runs.find((row) => row.id === params[4]);
+      if (runRow) {
+        Object.assign(runRow, { status: params[0], processed_count: params[1], error: params[2], finished_at: params[3] });
+      }
+    }
+    return { success: true, meta: { changes } };
+  };
+
+  const withNames = (row: Row) => ({
+    ...row,
+    triggered_by_name: users.find((user) => user.id === row.triggered_by)?.name || null,
+  });
+
+  const all = (query: string, params: unknown[]) => {
+    if (query.includes('FROM forum_threads')) {
+      const [cursor, limit] = params as [string, number];
+      return tables.forum_threads.filter((row) => (row.id as string) > cursor).slice(0, limit);
+    }
+    if (query.includes('FROM matches m')) {
+      return tables.matches
+        .filter((row) => row.status === 'pending' && (row.created_at as number) < (params[0] as number))
+        .map((row) => ({ ...row, mentor_name: users.find((user) => user.id === row.mentor_id)?.name }));
+    }
+    if (query.includes('ROW_NUMBER()')) {
+      const latest = new Map<string, Row>();
+      [...tables.scheduled_job_runs].reverse().forEach((row) => {
+        if (!latest.has(row.job_name as string)) latest.set(row.job_name as string, withNames(row));
+      });
+      return [...latest.values()];
+    }
+    if (query.includes('FROM scheduled_job_locks')) {
+      return tables.scheduled_job_locks.filter((row) => (row.locked_until as number) > (params[0] as number));
+    }
+    if (query.includes('FROM scheduled_job_runs r')) {
+      return [...tables.scheduled_job_runs]
+        .reverse()
+        .filter((row) => !query.includes('r.job_name = ?') || row.job_name === params[0])
+        .map(withNames);
+    }
+    return [];
+  };
+
+  const db = {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        params,
+        all: vi.fn(async () => ({ success: true, results: all(query, params) })),
+        first: vi.fn(async () => {
+          if (query.includes('COUNT(*) as count FROM scheduled_job_runs')) {
+            return { count: all(query.replace('COUNT(*) as count', '*'), params).length };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => run(query, params)),
+        query,
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ query: string; params: unknown[] }>) => {
+      if (failBatch) {
+        throw new Error('D1 batch failed');
+      }
+      return statements.map((statement) => run(statement.query, statement.params));
+    }),
+    tables,
+    failBatches: () => {
+      failBatch = true;
+    },
+  };
+  return db;
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+type SchedulerEnv = Parameters<typeof worker.scheduled>[1];
+
+describe('Scheduled jobs', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+
+  const fireCron = async (cron: string) => {
+    const pending: Promise<unknown>[] = [];
+    worker.scheduled(
+      { cron, scheduledTime: Date.now(), noRetry: () => {} },
+      mockEnv as unknown as SchedulerEnv,
+      { waitUntil: (promise: Promise<unknown>) => pending.push(promise), passThroughOnException: () => {}, props: {} }
+    );
+    await Promise.all(pending);
+  };
+
+  const runsOf = (jobName: string) => mockDb.tables.scheduled_job_runs.filter((row) => row.job_name === jobName);
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  });
+
+  describe('cron handler', () => {
+    it('should run the hourly jobs', async () => {
+      await fireCron('0 * * * *');
+
+      expect(mockDb.tables.forum_threads[0].hot_score).toBeGreaterThan(0);
+      expect(mockDb.tables.forum_threads[1].hot_score).toBeLessThan(5);
+      expect(mockDb.tables.challenges.map((row) => row.status)).toEqual(['completed', 'active']);
+      expect(runsOf('forum.hot_scores')[0]).toMatchObject({ trigger: 'cron', status: 'succeeded', processed_count: 2 });
+      expect(runsOf('challenges.complete_expired')[0]).toMatchObject({ status: 'succeeded', processed_count: 1 });
+      // Daily jobs wait for their own trigger
+      expect(runsOf('matches.expire_pending')).toHaveLength(0);
+      expect(mockDb.tables.scheduled_job_locks).toHaveLength(0);
+    });
+
+    it('should expire stale match requests and notify the mentee', async () => {
+      await fireCron('0 3 * * *');
+
+      expect(mockDb.tables.matches.map((row) => row.status)).toEqual(['rejected', 'pending']);
+      expect(mockDb.tables.notifications).toHaveLength(1);
+      expect(mockDb.tables.notifications[0].params).toEqual(
+        expect.arrayContaining(['mentee-1', 'match_expired', 'mentor-1'])
+      );
+      expect(runsOf('matches.expire_pending')[0]).toMatchObject({ status: 'succeeded', processed_count: 1 });
+    });
+
+    it('should purge old thread views', async () => {
+      await fireCron('0 3 * * *');
+
+      expect(mockDb.tables.forum_thread_views.map((row) => row.id)).toEqual(['view-new']);
+      expect(runsOf('forum.purge_thread_views')[0]).toMatchObject({ status: 'succeeded', processed_count: 1 });
+    });
+
+    it('should recount only the forum counters that drifted', async () => {
+      await fireCron('0 3 * * *');
+
+      const recount = mockDb.batch.mock.calls
+        .map(([statements]) => statements.map((statement) => statement.query))
+        .find((queries) => queries.some((query) => query.includes('SET reply_count')));
+      expect(recount).toHaveLength(3);
+      expect(recount![0]).toContain('WHERE reply_count != (SELECT COUNT(*) FROM forum_replies');
+      expect(recount![1]).toContain('UPDATE forum_threads');
+      expect(recount![2]).toContain('UPDATE forum_replies');
+      recount!.slice(1).forEach((query) => expect(query).toContain('WHERE upvote_count != ('));
+      expect(runsOf('forum.recount_counters')[0]).toMatchObject({ status: 'succeeded', processed_count: 3 });
+    });
+
+    it('should skip a job while another run holds its lock', async () => {
+      mockDb.tables.scheduled_job_locks.push({ job_name: 'forum.hot_scores', run_id: 'other-run', locked_until: now() + 600 });
+
+      await fireCron('0 * * * *');
+
+      expect(runsOf('forum.hot_scores')[0]).toMatchObject({ status: 'skipped' });
+      expect(mockDb.tables.forum_threads[0].hot_score).toBe(0);
+      expect(mockDb.tables.scheduled_job_locks).toEqual([
+        { job_name: 'forum.hot_scores', run_id: 'other-run', locked_until: expect.any(Number) },
+      ]);
+    });
+
+    it('should take over a lock that has expired', async () => {
+      mockDb.tables.scheduled_job_locks.push({ job_name: 'forum.hot_scores', run_id: 'crashed-run', locked_until: now() - 60 });
+
+      await fireCron('0 * * * *');
+
+      expect(runsOf('forum.hot_scores')[0]).toMatchObject({ status: 'succeeded' });
+      expect(mockDb.tables.scheduled_job_locks).toHaveLength(0);
+    });
+
+    it('should record a failing job and still run the others', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockDb.failBatches();
+
+      await fireCron('0 * * * *');
+
+      expect(runsOf('forum.hot_scores')[0]).toMatchObject({ status: 'failed', error: 'D1 batch failed' });
+      expect(runsOf('challenges.complete_expired')[0]).toMatchObject({ status: 'succeeded' });
+      expect(mockDb.tables.scheduled_job_locks).toHaveLength(0);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('admin API', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+    });
+
+    it('should list jobs with their latest run', async () => {
+      await fireCron('0 * * * *');
+
+      const res = await worker.fetch(createAuthenticatedRequest('http://localhost/api/v1/admin/jobs', adminToken), mockEnv);
+
+      expect(res.status).toBe(200);
+      const { jobs } = await res.json();
+      expect(jobs).toHaveLength(7);
+      expect(jobs[0]).toMatchObject({
+        name: 'forum.hot_scores',
+        schedule: '0 * * * *',
+        locked_until: null,
+        last_run: { status: 'succeeded', processed_count: 2 },
+      });
+      expect(jobs.find((job: { name: string }) => job.name === 'matches.expire_pending').last_run).toBeNull();
+    });
+
+    it('should filter the run history by job', async () => {
+      await fireCron('0 * * * *');
+
+      const res = await worker.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/jobs/runs?job=challenges.complete_expired', adminToken),
+        mockEnv
+      );
+
+      const { runs, total } = await res.json();
+      expect(total).toBe(1);
+      expect(runs[0]).toMatchObject({ job_name: 'challenges.complete_expired', trigger: 'cron' });
+    });
+
+    it('should reject an unknown job filter', async () => {
+      const res = await worker.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/jobs/runs?job=nope', adminToken),
+        mockEnv
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should run a job on demand', async () => {
+      const res = await worker.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/jobs/challenges.complete_expired/run', adminToken, { method: 'POST' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).run).toMatchObject({
+        job_name: 'challenges.complete_expired',
+        trigger: 'manual',
+        triggered_by: 'admin-1',
+        status: 'succeeded',
+        processed_count: 1,
+      });
+    });
+
+    it('should return 409 while the job is already running', async () => {
+      mockDb.tables.scheduled_job_locks.push({ job_name: 'forum.hot_scores', run_id: 'cron-run', locked_until: now() + 600 });
+
+      const res = await worker.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/jobs/forum.hot_scores/run', adminToken, { method: 'POST' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const res = await worker.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/jobs/nope/run', adminToken, { method: 'POST' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should require the admin role', async () => {
+      const memberToken = await createTestToken('member-1', 'member@example.com', 'Member');
+
+      const res = await worker.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/jobs/forum.hot_scores/run', memberToken, { method: 'POST' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(403);
+      expect(mockDb.tables.scheduled_job_runs).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Tests for full-text search across forum threads, replies and blogs
+ *
+ * Endpoints under test:
+ * - GET /api/v1/search - Ranked, highlighted search with type/category/author filters
+ * - POST /api/v1/admin/search/reindex - Rebuild the index (admin only)
+ * - Index sync from blog and forum create/edit/delete handlers
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import {
+  createTestToken,
+  createAuthenticatedRequest,
+  createUnauthenticatedRequest,
+  createTestEnv,
+} from './utils/testAuth';
+import { enabledFeatureFlags } from './utils/mockDbFactory';
+import type { SearchResponse } from '../../types/search';
+import { buildFtsMatchExpression, buildSearchSnippet, parseSearchTerms } from '../utils/search';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+const createMockDb = (searchRows: Record<string, unknown>[] = [], options: { failStaging?: boolean } = {}) => {
+  const queries: RecordedQuery[] = [];
+  const batches: RecordedQuery[][] = [];
+  const blogs = new Map<string, Record<string, unknown>>([
+    ['blog-1', { id: 'blog-1', user_id: 'user-1', title: 'Old title', content: '<p>Old</p>', requires_auth: 0 }],
+  ]);
+  const replies = new Map<string, Record<string, unknown>>([
+    ['reply-1', { id: 'reply-1', thread_id: 'thread-1', user_id: 'user-1', content: '<p>Reply</p>' }],
+  ]);
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        query,
+        params,
+        all: vi.fn(async () => {
+          if (query.includes('FROM feature_flags')) {
+            return { results: enabledFeatureFlags('blogs') };
+          }
+          queries.push({ query, params });
+          if (query.includes('FROM search_index')) {
+            return { results: searchRows };
+          }
+          if (query.includes('FROM blogs')) {
+            return { results: Array.from(blogs.values()) };
+          }
+          if (query.includes('FROM forum_replies')) {
+            return { results: Array.from(replies.values()) };
+          }
+          return { results: [] };
+        }),
+        first: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('COUNT(*) as count') && query.includes('FROM search_index')) {
+            return { count: searchRows.length };
+          }
+          if (query.includes('FROM blogs WHERE id = ?')) {
+            return blogs.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM forum_replies') && query.includes('WHERE id = ?')) {
+            return replies.get(params[0] as string) || null;
+          }
+          if (query.includes('FROM forum_categories')) {
+            return { id: params[0] };
+          }
+          if (query.includes('FROM forum_threads WHERE id = ?')) {
+            return { id: params[0], user_id: 'user-2', title: 'Thread', status: 'open' };
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          queries.push({ query, params });
+          if (query.includes('INSERT INTO blogs')) {
+            const [id, user_id, title, content, requires_auth, likes_count, comments_count, featured, created_at, updated_at] = params;
+            blogs.set(id as string, { id, user_id, title, content, requires_auth, likes_count, comments_count, featured, created_at, updated_at });
+          }
+          return { success: true, meta: { changes: 1 } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: RecordedQuery[]) => {
+      if (options.failStaging && statements[0].query.includes('INSERT INTO search_index_rebuild')) {
+        throw new Error('D1_ERROR: too many SQL variables');
+      }
+      batches.push(statements.map(({ query, params }) => ({ query, params })));
+      return statements.map(() => ({ success: true, meta: { changes: 1 } }));
+    }),
+    _queries: queries,
+    _batches: batches,
+  };
+};
+
+const searchRow = (overrides: Record<string, unknown> = {}) => ({
+  content_type: 'thread',
+  content_id: 'thread-1',
+  author_id: 'user-1',
+  title: 'Finding a mentor',
+  body: '<p>Tips for finding a <strong>mentor</strong> in tech</p>',
+  author_name: 'Alice',
+  category_id: 'cat-1',
+  thread_id: 'thread-1',
+  thread_title: null,
+  created_at: 1700000000,
+  ...overrides,
+});
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Search API', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+  let userToken: string;
+
+  const setup = (rows: Record<string, unknown>[] = [], options: { failStaging?: boolean } = {}) => {
+    mockDb = createMockDb(rows, options);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  const searchQueries = () =>
+    mockDb._queries.filter((q) => q.query.includes('FROM search_index') && q.query.includes('ORDER BY'));
+
+  const indexWrites = () =>
+    mockDb._queries.filter((q) => q.query.includes('search_index') && !q.query.includes('SELECT'));
+
+  beforeEach(async () => {
+    setup();
+    userToken = await createTestToken('user-1', 'user@example.com', 'Alice');
+  });
+
+  describe('GET /api/v1/search', () => {
+    it('should return ranked results with highlighted titles and snippets', async () => {
+      setup([
+        searchRow(),
+        searchRow({
+          content_type: 'reply',
+          content_id: 'reply-1',
+          title: '',
+          body: '<p>Ask your mentor &amp; peers</p>',
+          thread_title: 'Career advice',
+        }),
+        searchRow({ content_type: 'blog', content_id: 'blog-1', title: 'Mentor stories', category_id: null, thread_id: null }),
+      ]);
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/search?q=mentor', userToken), mockEnv);
+      const data = await res.json() as SearchResponse;
+
+      expect(res.status).toBe(200);
+      expect(data.total).toBe(3);
+      expect(data.results[0]).toMatchObject({
+        type: 'thread',
+        id: 'thread-1',
+        title: 'Finding a <mark>mentor</mark>',
+        snippet: 'Tips for finding a <mark>mentor</mark> in tech',
+        url: '/forums/threads/thread-1',
+        author_name: 'Alice',
+        category_id: 'cat-1',
+      });
+      expect(data.results[1]).toMatchObject({
+        type: 'reply',
+        title: 'Career advice',
+        snippet: 'Ask your <mark>mentor</mark> &amp; peers',
+        url: '/forums/threads/thread-1',
+      });
+      expect(data.results[2].url).toBe('/blogs/blog-1');
+
+      const [search] = searchQueries();
+      expect(search.query).toContain('search_index MATCH ?');
+      expect(search.query).toContain('bm25(search_index');
+      expect(search.params[0]).toBe('"mentor"');
+    });
+
+    it('should apply type, category and author filters', async () => {
+      await app.fetch(
+        createAuthenticatedRequest(
+          'http://localhost/api/v1/search?q=mentor&type=reply&category_id=cat-1&author_id=user-9&limit=5&offset=10',
+          userToken
+        ),
+        mockEnv
+      );
+
+      const [search] = searchQueries();
+      expect(search.query).toContain('s.content_type = ?');
+      expect(search.query).toContain('COALESCE(t.category_id, rt.category_id) = ?');
+      expect(search.query).toContain('s.author_id = ?');
+      expect(search.params).toEqual(['"mentor"', 'reply', 'cat-1', 'user-9', 5, 10]);
+    });
+
+    it('should fall back to LIKE for terms shorter than three characters', async () => {
+      await app.fetch(createAuthenticatedRequest(`http://localhost/api/v1/search?q=${encodeURIComponent('导师')}`, userToken), mockEnv);
+
+      const [search] = searchQueries();
+      expect(search.query).not.toContain('MATCH');
+      expect(search.query).toContain('ORDER BY created_at DESC');
+      expect(search.params.slice(0, 2)).toEqual(['%导师%', '%导师%']);
+    });
+
+    it('should hide members-only blogs from anonymous users', async () => {
+      await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/search?q=mentor'), mockEnv);
+      expect(searchQueries()[0].query).toContain('b.requires_auth = 0');
+
+      setup();
+      await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/search?q=mentor', userToken), mockEnv);
+      expect(searchQueries()[0].query).not.toContain('b.requires_auth = 0');
+    });
+
+    it('should reject missing queries and unknown types', async () => {
+      const missing = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/search?q=%20'), mockEnv);
+      expect(missing.status).toBe(400);
+
+      const badType = await app.fetch(createUnauthenticatedRequest('http://localhost/api/v1/search?q=mentor&type=event'), mockEnv);
+      expect(badType.status).toBe(400);
+      expect(searchQueries()).toHaveLength(0);
+    });
+  });
+
+  describe('index sync', () => {
+    it('should index a new blog as plain text', async () => {
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/blogs', userToken, {
+          method: 'POST',
+          body: { title: 'Hello', content: '<p>First <em>post</em></p>' },
+        }),
+        mockEnv
+      );
+      expect(res.status).toBe(201);
+
+      const insert = indexWrites().find((q) => q.query.includes('INSERT INTO search_index'));
+      expect(insert?.params).toEqual(['Hello', 'First post', 'blog', expect.any(String), 'user-1']);
+    });
+
+    it('should replace the indexed text when a reply is edited', async () => {
+      await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/forums/replies/reply-1', userToken, {
+          method: 'PUT',
+          body: { content: '<p>Updated answer</p>' },
+        }),
+        mockEnv
+      );
+
+      const writes = indexWrites();
+      expect(writes[0].query).toContain('DELETE FROM search_index');
+      expect(writes[0].params).toEqual(['reply', 'reply-1']);
+      expect(writes[1].params).toEqual(['', 'Updated answer', 'reply', 'reply-1', 'user-1']);
+    });
+
+    it('should remove a deleted blog from the index', async () => {
+      await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/blogs/blog-1', userToken, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(indexWrites()).toEqual([
+        { query: 'DELETE FROM search_index WHERE content_type = ? AND content_id = ?', params: ['blog', 'blog-1'] },
+      ]);
+    });
+  });
+
+  describe('POST /api/v1/admin/search/reindex', () => {
+    const reindex = async () => {
+      const adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+      return app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/search/reindex', adminToken, { method: 'POST' }),
+        mockEnv
+      );
+    };
+
+    it('should rebuild the index for admins only', async () => {
+      const forbidden = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/search/reindex', userToken, { method: 'POST' }),
+        mockEnv
+      );
+      expect(forbidden.status).toBe(403);
+
+      const res = await reindex();
+      const data = await res.json() as { threads: number; replies: number; blogs: number };
+
+      expect(res.status).toBe(200);
+      expect(data).toMatchObject({ threads: 0, replies: 1, blogs: 1 });
+    });
+
+    it('should stage plain text documents and swap them in with one batch', async () => {
+      await reindex();
+
+      expect(indexWrites()).toEqual([{ query: 'DELETE FROM search_index_rebuild', params: [] }]);
+      // Replies select an empty title in SQL; the mock rows leave it out
+      const [staged] = mockDb._batches[0];
+      expect(staged.query).toContain('INSERT INTO search_index_rebuild');
+      expect(staged.params.slice(1)).toEqual(['Reply', 'reply', 'reply-1', 'user-1']);
+      expect(mockDb._batches.at(-1)?.map((q) => q.query.trim())).toEqual([
+        'DELETE FROM search_index',
+        expect.stringMatching(/^INSERT INTO search_index \(.*\)\s+SELECT .* FROM search_index_rebuild$/),
+        'DELETE FROM search_index_rebuild',
+      ]);
+    });
+
+    it('should leave the live index alone when the rebuild fails', async () => {
+      setup([], { failStaging: true });
+      const res = await reindex();
+
+      expect(res.status).toBe(500);
+      expect(mockDb._batches).toEqual([]);
+      expect(indexWrites().map((q) => q.query)).toEqual(['DELETE FROM search_index_rebuild']);
+    });
+  });
+});
+
+describe('search helpers', () => {
+  it('should quote long terms and skip terms the trigram index cannot match', () => {
+    const terms = parseSearchTerms('mentor "career" go Mentor');
+    expect(terms).toEqual(['mentor', 'career', 'go']);
+    expect(buildFtsMatchExpression(terms)).toBe('"mentor" "career"');
+    expect(buildFtsMatchExpression(['go'])).toBeNull();
+  });
+
+  it('should cut long snippets around the first match and escape HTML', () => {
+    const text = `${'a'.repeat(300)} <b> mentor ${'z'.repeat(300)}`;
+    const snippet = buildSearchSnippet(text, ['mentor']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('&lt;b&gt; <mark>mentor</mark>');
+  });
+});
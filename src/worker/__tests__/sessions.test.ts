@@ -0,0 +1,373 @@
+/**
+ * Tests for sign-in sessions and refresh tokens
+ *
+ * Covers:
+ * - Short-lived access tokens tied to a session, rejected once the session is revoked
+ *   and rejected outright without one
+ * - Refresh token rotation and reuse detection
+ * - Logout revoking the session
+ * - Listing and revoking the caller's sessions
+ * - Admins signing a user out everywhere, and role changes doing the same
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import app from '../index';
+import { createToken } from '../auth/jwt';
+import { hashRefreshToken, REFRESH_REUSE_GRACE_SECONDS } from '../auth/sessions';
+import { createTestToken, createAuthenticatedRequest, createTestEnv, DEFAULT_TEST_JWT_SECRET } from './utils/testAuth';
+
+// ============================================================================
+// Mock D1 Database
+// ============================================================================
+
+type Row = Record<string, unknown>;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const sessionRow = (overrides: Row = {}): Row => ({
+  id: 'session-1',
+  user_id: 'user-1',
+  refresh_token_hash: '',
+  previous_token_hash: null,
+  user_agent: 'Mozilla/5.0 (Macintosh) Chrome/120.0',
+  ip_address: '203.0.113.1',
+  created_at: now() - 3600,
+  last_used_at: now() - 600,
+  expires_at: now() + 86400,
+  revoked_at: null,
+  ...overrides,
+});
+
+const createMockDb = (sessions: Row[]) => {
+  const rows = sessions.map((row) => ({ ...row }));
+  const users: Row[] = [
+    { id: 'user-1', email: 'user@example.com', name: 'Alice', created_at: 0, updated_at: 0 },
+    { id: 'user-2', email: 'other@example.com', name: 'Bo', created_at: 0, updated_at: 0 },
+  ];
+  const active = (row: Row) => row.revoked_at === null;
+
+  return {
+    prepare: vi.fn((query: string) => {
+      const execute = (params: unknown[]) => ({
+        all: vi.fn(async () => {
+          if (query.includes('FROM user_sessions')) {
+            return {
+              success: true,
+              results: rows.filter((row) => row.user_id === params[0] && active(row) && (row.expires_at as number) > (params[1] as number)),
+            };
+          }
+          return { success: true, results: [] };
+        }),
+        first: vi.fn(async () => {
+          if (query.includes('FROM user_sessions WHERE refresh_token_hash = ?')) {
+            return rows.find((row) => row.refresh_token_hash === params[0]) || null;
+          }
+          if (query.includes('FROM user_sessions WHERE previous_token_hash = ?')) {
+            return rows.find((row) => row.previous_token_hash === params[0] && active(row)) || null;
+          }
+          if (query.includes('FROM user_sessions WHERE id = ?')) {
+            return rows.find((row) => row.id === params[0]) || null;
+          }
+          if (query.includes('FROM users WHERE id = ?')) {
+            return users.find((row) => row.id === params[0]) || null;
+          }
+          if (query.includes('SELECT role FROM user_roles')) {
+            return params[0] === 'user-1' ? { role: 'moderator' } : null;
+          }
+          if (query.includes('SELECT id, role FROM user_roles')) {
+            return null;
+          }
+          return null;
+        }),
+        run: vi.fn(async () => {
+          let changes = 0;
+          if (query.includes('SET refresh_token_hash = ?')) {
+            const row = rows.find((r) => r.id === params[4] && r.refresh_token_hash === params[5] && active(r));
+            if (row) {
+              Object.assign(row, { refresh_token_hash: params[0], previous_token_hash: params[1], last_used_at: params[2], expires_at: params[3] });
+              changes = 1;
+            }
+          } else if (query.includes('UPDATE user_sessions SET revoked_at = ? WHERE id = ? AND user_id = ?')) {
+            const row = rows.find((r) => r.id === params[1] && r.user_id === params[2] && active(r));
+            if (row) {
+              row.revoked_at = params[0];
+              changes = 1;
+            }
+          } else if (query.includes('UPDATE user_sessions SET revoked_at = ? WHERE id = ?')) {
+            const row = rows.find((r) => r.id === params[1] && active(r));
+            if (row) {
+              row.revoked_at = params[0];
+              changes = 1;
+            }
+          } else if (query.includes('UPDATE user_sessions SET revoked_at = ? WHERE refresh_token_hash = ?')) {
+            const row = rows.find((r) => r.refresh_token_hash === params[1] && active(r));
+            if (row) {
+              row.revoked_at = params[0];
+              changes = 1;
+            }
+          } else if (query.includes('UPDATE user_sessions SET revoked_at = ? WHERE user_id = ?')) {
+            for (const row of rows) {
+              const kept = query.includes('id != ?') && row.id === params[2];
+              if (row.user_id === params[1] && active(row) && !kept) {
+                row.revoked_at = params[0];
+                changes++;
+              }
+            }
+          } else {
+            changes = 1;
+          }
+          return { success: true, meta: { changes } };
+        }),
+      });
+      return { ...execute([]), bind: vi.fn((...params: unknown[]) => execute(params)) };
+    }),
+    batch: vi.fn(async (statements: Array<{ run: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.run());
+      }
+      return results;
+    }),
+    _sessions: rows,
+  };
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const sessionToken = (userId: string, sid: string, role?: string) =>
+  createToken({ userId, email: `${userId}@example.com`, name: userId, role, sid } as never, DEFAULT_TEST_JWT_SECRET);
+
+const refreshRequest = (refreshToken: string) =>
+  new Request('http://localhost/api/v1/auth/refresh', {
+    method: 'POST',
+    headers: { Cookie: `refresh_token=${refreshToken}` },
+  });
+
+const cookieValue = (res: Response, name: string) => {
+  const match = res.headers.get('set-cookie')?.match(new RegExp(`${name}=([^;]*)`));
+  return match ? match[1] : null;
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Sessions', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let mockEnv: ReturnType<typeof createTestEnv>;
+
+  const setup = async (sessions: Row[]) => {
+    mockDb = createMockDb(sessions);
+    mockEnv = createTestEnv({ platform_db: mockDb as unknown as D1Database });
+  };
+
+  beforeEach(async () => {
+    await setup([sessionRow({ refresh_token_hash: await hashRefreshToken('refresh-1') })]);
+  });
+
+  describe('Access tokens', () => {
+    it('should accept a token whose session is active', async () => {
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/sessions', token), mockEnv);
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should reject a token whose session was revoked', async () => {
+      mockDb._sessions[0].revoked_at = now();
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/sessions', token), mockEnv);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject a token issued before sessions existed', async () => {
+      const token = await createToken({ userId: 'user-1', email: 'user@example.com', name: 'Alice' }, DEFAULT_TEST_JWT_SECRET);
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/sessions', token), mockEnv);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh', () => {
+    it('should rotate the refresh token and issue an access token with the current role', async () => {
+      const res = await app.fetch(refreshRequest('refresh-1'), mockEnv);
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).user).toMatchObject({ id: 'user-1', role: 'moderator' });
+
+      const nextRefresh = cookieValue(res, 'refresh_token');
+      expect(nextRefresh).toBeTruthy();
+      expect(nextRefresh).not.toBe('refresh-1');
+      expect(mockDb._sessions[0].refresh_token_hash).toBe(await hashRefreshToken(nextRefresh as string));
+      expect(res.headers.get('set-cookie')).toContain('Path=/api/v1/auth');
+
+      // The new access token works
+      const accessToken = cookieValue(res, 'auth_token') as string;
+      const sessions = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/sessions', accessToken), mockEnv);
+      expect(sessions.status).toBe(200);
+    });
+
+    it('should return 401 and clear cookies without a refresh token', async () => {
+      const res = await app.fetch(new Request('http://localhost/api/v1/auth/refresh', { method: 'POST' }), mockEnv);
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('set-cookie')).toContain('Max-Age=0');
+    });
+
+    it('should reject expired and revoked sessions', async () => {
+      mockDb._sessions[0].expires_at = now() - 1;
+      expect((await app.fetch(refreshRequest('refresh-1'), mockEnv)).status).toBe(401);
+
+      mockDb._sessions[0].expires_at = now() + 86400;
+      mockDb._sessions[0].revoked_at = now();
+      expect((await app.fetch(refreshRequest('refresh-1'), mockEnv)).status).toBe(401);
+    });
+
+    it('should tolerate a concurrent refresh with the token just rotated away', async () => {
+      const first = await app.fetch(refreshRequest('refresh-1'), mockEnv);
+      expect(first.status).toBe(200);
+
+      const second = await app.fetch(refreshRequest('refresh-1'), mockEnv);
+
+      expect(second.status).toBe(401);
+      expect(mockDb._sessions[0].revoked_at).toBeNull();
+    });
+
+    it('should revoke the session when an old refresh token is reused later', async () => {
+      await setup([
+        sessionRow({
+          refresh_token_hash: await hashRefreshToken('refresh-2'),
+          previous_token_hash: await hashRefreshToken('refresh-1'),
+          last_used_at: now() - REFRESH_REUSE_GRACE_SECONDS - 10,
+        }),
+      ]);
+
+      const res = await app.fetch(refreshRequest('refresh-1'), mockEnv);
+
+      expect(res.status).toBe(401);
+      expect(mockDb._sessions[0].revoked_at).not.toBeNull();
+      expect((await app.fetch(refreshRequest('refresh-2'), mockEnv)).status).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/logout', () => {
+    it('should revoke the current session and clear both cookies', async () => {
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/logout', token, { method: 'POST' }), mockEnv);
+
+      expect(res.status).toBe(200);
+      expect(mockDb._sessions[0].revoked_at).not.toBeNull();
+      const setCookie = res.headers.get('set-cookie');
+      expect(setCookie).toContain('auth_token=;');
+      expect(setCookie).toContain('refresh_token=;');
+    });
+
+    it('should revoke the session from the refresh token when the access token expired', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/api/v1/auth/logout', { method: 'POST', headers: { Cookie: 'refresh_token=refresh-1' } }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockDb._sessions[0].revoked_at).not.toBeNull();
+    });
+  });
+
+  describe('Session management', () => {
+    beforeEach(async () => {
+      await setup([
+        sessionRow({ refresh_token_hash: await hashRefreshToken('refresh-1') }),
+        sessionRow({ id: 'session-2', refresh_token_hash: 'hash-2', last_used_at: now() - 60 }),
+        sessionRow({ id: 'session-3', user_id: 'user-2', refresh_token_hash: 'hash-3' }),
+      ]);
+    });
+
+    it('should list the caller\'s sessions and mark the current one', async () => {
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/sessions', token), mockEnv);
+
+      const { sessions } = await res.json();
+      expect(sessions.map((s: { id: string }) => s.id)).toEqual(['session-1', 'session-2']);
+      expect(sessions.find((s: { id: string }) => s.id === 'session-1').current).toBe(true);
+      expect(sessions.find((s: { id: string }) => s.id === 'session-2').current).toBe(false);
+    });
+
+    it('should revoke one of the caller\'s sessions', async () => {
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/auth/sessions/session-2', token, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockDb._sessions[1].revoked_at).not.toBeNull();
+      expect(mockDb._sessions[0].revoked_at).toBeNull();
+    });
+
+    it('should not revoke another user\'s session', async () => {
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/auth/sessions/session-3', token, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(404);
+      expect(mockDb._sessions[2].revoked_at).toBeNull();
+    });
+
+    it('should sign out every other device', async () => {
+      const token = await sessionToken('user-1', 'session-1');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/auth/sessions/revoke-others', token, { method: 'POST' }),
+        mockEnv
+      );
+
+      expect(await res.json()).toEqual({ success: true, revoked: 1 });
+      expect(mockDb._sessions[0].revoked_at).toBeNull();
+      expect(mockDb._sessions[1].revoked_at).not.toBeNull();
+      expect(mockDb._sessions[2].revoked_at).toBeNull();
+    });
+
+    it('should let admins sign a user out everywhere', async () => {
+      const adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/admin/users/user-1/sessions', adminToken, { method: 'DELETE' }),
+        mockEnv
+      );
+
+      expect(await res.json()).toEqual({ success: true, revoked: 2 });
+      const userToken = await sessionToken('user-1', 'session-1');
+      const after = await app.fetch(createAuthenticatedRequest('http://localhost/api/v1/auth/sessions', userToken), mockEnv);
+      expect(after.status).toBe(401);
+    });
+
+    it('should sign a user out everywhere when their role changes', async () => {
+      const adminToken = await createTestToken('admin-1', 'admin@example.com', 'Admin', 'admin');
+
+      const res = await app.fetch(
+        createAuthenticatedRequest('http://localhost/api/v1/roles', adminToken, {
+          method: 'POST',
+          body: { userId: 'user-1', role: 'admin' },
+        }),
+        mockEnv
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockDb._sessions[0].revoked_at).not.toBeNull();
+      expect(mockDb._sessions[1].revoked_at).not.toBeNull();
+      expect(mockDb._sessions[2].revoked_at).toBeNull();
+    });
+  });
+});
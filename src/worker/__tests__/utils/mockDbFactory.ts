@@ -50,6 +50,7 @@ export interface MockDbConfig {
  */
 export interface MockDb {
   prepare: ReturnType<typeof vi.fn>;
+  batch: ReturnType<typeof vi.fn>;
   _mockTables: Record<string, MockTable>;
   _getTable: (tableName: string) => MockTable;
   _setTableData: (tableName: string, data: MockTable) => void;
@@ -96,10 +97,20 @@ export function createMockDb(config: MockDbConfig): MockDb {
         run: createRunHandler(query, params, mockTables, getTable),
       })),
       // Direct methods on prepared statement (not recommended but supported)
-      all: async () => ({ results: [] }),
+      all: async () => ({
+        results: query.includes('FROM feature_flags') ? Object.values(getTable('feature_flags')) : [],
+      }),
       first: async () => null,
       run: async () => ({ success: true, meta: { changes: 0 } }),
     })),
+    // Statements run in order, like the transaction D1 wraps a batch in
+    batch: vi.fn(async (statements: Array<{ all: () => Promise<unknown> }>) => {
+      const results = [];
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      return results;
+    }),
 
     _mockTables: mockTables,
     _getTable: getTable,
@@ -109,6 +120,48 @@ export function createMockDb(config: MockDbConfig): MockDb {
   return mockDb;
 }
 
+/**
+ * Feature flag rows turned on for everyone
+ * Gated routes load every flag through requireFeature, so mocks list the features a test needs
+ */
+export function enabledFeatureFlags(...featureKeys: string[]): Record<string, unknown>[] {
+  return featureKeys.map((featureKey) => ({
+    feature_key: featureKey,
+    enabled: 1,
+    audience: 'everyone',
+    target_user_ids: '[]',
+    rollout_percentage: 100,
+  }));
+}
+
+/**
+ * Feature flags table for createMockDb with the given features turned on
+ */
+export function createFeatureFlagTable(...featureKeys: string[]): MockTable {
+  return Object.fromEntries(enabledFeatureFlags(...featureKeys).map((row) => [row.feature_key as string, row]));
+}
+
+/**
+ * The ledger row the points statements write, computed from the balance it replaces
+ * Mirrors the SQL of pointsTransactionStatements; params are the ledger INSERT's bindings
+ */
+export function pointsLedgerRow(query: string, params: unknown[], previous: number): Record<string, unknown> {
+  const [id, userId, actionType, referenceId, createdAt, value, max] = params as [
+    string, string, string, string, number, number, number,
+  ];
+  const target = query.includes('previous + ?') ? previous + value : value;
+  const balance = Math.min(Math.max(target, 0), max);
+  return {
+    id,
+    user_id: userId,
+    action_type: actionType,
+    reference_id: referenceId,
+    points_awarded: balance - previous,
+    created_at: createdAt,
+    balance_after: balance,
+  };
+}
+
 // ============================================================================
 // Query Handlers
 // ============================================================================
@@ -375,6 +428,26 @@ function createAllHandler(
       return { results: role ? [role] : [] };
     }
 
+    // ========================================================================
+    // USER POINTS TABLE (keyed by user_id)
+    // ========================================================================
+    // Ledger row written from the balance it replaces
+    if (query.includes('INSERT INTO point_actions_log') && query.includes('RETURNING points_awarded')) {
+      const balance = getTable('user_points')[params[1] as string];
+      const row = pointsLedgerRow(query, params, (balance?.points as number) ?? 0);
+      getTable('point_actions_log')[row.id as string] = row;
+      return { results: [row] };
+    }
+
+    // Balance copied from that ledger row: id, ledger row id
+    if (query.includes('INSERT INTO user_points') && query.includes('FROM point_actions_log WHERE id = ?')) {
+      const row = getTable('point_actions_log')[params[1] as string];
+      const table = getTable('user_points');
+      const userId = row.user_id as string;
+      table[userId] = { id: table[userId]?.id ?? params[0], user_id: userId, points: row.balance_after, updated_at: row.created_at };
+      return { results: [] };
+    }
+
     // ========================================================================
     // DEFAULT FALLBACK
     // ========================================================================
@@ -15,12 +15,14 @@
 import type { AuthPayload } from '../../../types/user';
 import type { D1Database } from '@cloudflare/workers-types';
 import { createToken } from '../../auth/jwt';
+import type { MailTransport } from '../../mail/transport';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 export const DEFAULT_TEST_JWT_SECRET = 'test-jwt-secret';
+export const DEFAULT_TEST_SESSION_ID = 'test-session';
 export const DEFAULT_GOOGLE_CLIENT_ID = 'test-client-id';
 export const DEFAULT_GOOGLE_CLIENT_SECRET = 'test-client-secret';
 
@@ -29,7 +31,7 @@ export const DEFAULT_GOOGLE_CLIENT_SECRET = 'test-client-secret';
 // ============================================================================
 
 /**
- * Creates a JWT token for testing
+ * Creates a JWT token for testing, issued for the test session
  */
 export async function createTestToken(
   userId: string,
@@ -38,7 +40,7 @@ export async function createTestToken(
   role?: string,
   jwtSecret: string = DEFAULT_TEST_JWT_SECRET
 ): Promise<string> {
-  const payload: AuthPayload & { role?: string } = { userId, email, name, role };
+  const payload: AuthPayload & { role?: string } = { userId, email, name, role, sid: DEFAULT_TEST_SESSION_ID };
   return createToken(payload as AuthPayload, jwtSecret);
 }
 
@@ -139,11 +141,37 @@ export function createUnauthenticatedRequest(
 // Environment Setup
 // ============================================================================
 
+/**
+ * Wraps a mock database so the auth middleware finds the test session active
+ * Lookups of other sessions go to the mock, so session tests keep their own rows
+ */
+export function withTestSession(db: D1Database): D1Database {
+  return new Proxy(db, {
+    get(target, prop, receiver) {
+      if (prop !== 'prepare') {
+        return Reflect.get(target, prop, receiver);
+      }
+      return (query: string) => {
+        if (!query.includes('SELECT expires_at, revoked_at FROM user_sessions WHERE id = ?')) {
+          return target.prepare(query);
+        }
+        return {
+          bind: (...params: unknown[]) =>
+            params[0] === DEFAULT_TEST_SESSION_ID
+              ? { first: async () => ({ expires_at: Math.floor(Date.now() / 1000) + 3600, revoked_at: null }) }
+              : target.prepare(query).bind(...params),
+        };
+      };
+    },
+  });
+}
+
 export interface TestEnvConfig {
   platform_db?: D1Database;
   JWT_SECRET?: string;
   GOOGLE_CLIENT_ID?: string;
   GOOGLE_CLIENT_SECRET?: string;
+  MAILER?: MailTransport;
 }
 
 export interface TestEnv extends Record<string, unknown> {
@@ -151,6 +179,7 @@ export interface TestEnv extends Record<string, unknown> {
   JWT_SECRET: string;
   GOOGLE_CLIENT_ID?: string;
   GOOGLE_CLIENT_SECRET?: string;
+  MAILER?: MailTransport;
 }
 
 /**
@@ -158,7 +187,7 @@ export interface TestEnv extends Record<string, unknown> {
  */
 export function createTestEnv(config: TestEnvConfig = {}): TestEnv {
   return {
-    platform_db: config.platform_db || {
+    platform_db: withTestSession(config.platform_db || {
       prepare: () => ({
         bind: () => ({
           all: async () => ({ results: [] }),
@@ -169,10 +198,11 @@ export function createTestEnv(config: TestEnvConfig = {}): TestEnv {
         first: async () => null,
         run: async () => ({ success: true, meta: { changes: 0 } }),
       }),
-    } as unknown as D1Database,
+    } as unknown as D1Database),
     JWT_SECRET: config.JWT_SECRET || DEFAULT_TEST_JWT_SECRET,
     GOOGLE_CLIENT_ID: config.GOOGLE_CLIENT_ID || DEFAULT_GOOGLE_CLIENT_ID,
     GOOGLE_CLIENT_SECRET: config.GOOGLE_CLIENT_SECRET || DEFAULT_GOOGLE_CLIENT_SECRET,
+    MAILER: config.MAILER,
   } as TestEnv;
 }
 
@@ -0,0 +1,105 @@
+import { Context } from 'hono';
+import { AuthPayload } from '../../types/user';
+import { FeatureTargeting, isFeatureTargeted, normalizeFeatureTargeting } from '../../types/features';
+
+/**
+ * How long flag lookups are cached per isolate (milliseconds)
+ * Admin changes made through this isolate clear the cache right away; other isolates
+ * pick them up once their copy expires
+ */
+export const FEATURE_FLAG_CACHE_TTL_MS = 30_000;
+
+interface CachedFeatureFlag extends FeatureTargeting {
+  enabled: boolean;
+}
+
+interface FeatureFlagCacheEntry {
+  flags: Map<string, CachedFeatureFlag>;
+  expiresAt: number;
+}
+
+// Keyed by database binding so each environment (and each test's mock database) gets its own cache
+const featureFlagCache = new WeakMap<D1Database, FeatureFlagCacheEntry>();
+
+/**
+ * Load all feature flags, served from the per-isolate cache while it is fresh
+ */
+export async function loadFeatureFlags(db: D1Database): Promise<Map<string, CachedFeatureFlag>> {
+  const cached = featureFlagCache.get(db);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.flags;
+  }
+
+  const result = await db
+    .prepare('SELECT feature_key, enabled, audience, target_user_ids, rollout_percentage FROM feature_flags')
+    .all();
+
+  const flags = new Map<string, CachedFeatureFlag>();
+  for (const row of result.results as Record<string, unknown>[]) {
+    flags.set(row.feature_key as string, {
+      enabled: row.enabled === 1 || row.enabled === true,
+      ...normalizeFeatureTargeting(row),
+    });
+  }
+
+  featureFlagCache.set(db, { flags, expiresAt: Date.now() + FEATURE_FLAG_CACHE_TTL_MS });
+  return flags;
+}
+
+/**
+ * Drop the cached flags so the next lookup reads them again
+ * Called after an admin creates, updates or deletes a flag
+ */
+export function clearFeatureFlagCache(db: D1Database): void {
+  featureFlagCache.delete(db);
+}
+
+/**
+ * Check whether a feature is on for a caller
+ * Unknown flags are treated as off, matching the frontend
+ * @param user - The signed-in caller, or null for anonymous requests
+ */
+export async function isFeatureEnabledFor(
+  db: D1Database,
+  featureKey: string,
+  user: Pick<AuthPayload, 'userId' | 'role'> | null
+): Promise<boolean> {
+  const flag = (await loadFeatureFlags(db)).get(featureKey);
+  if (!flag || !flag.enabled) {
+    return false;
+  }
+  return isFeatureTargeted(featureKey, flag, user);
+}
+
+/**
+ * Error payload returned when a request hits a feature that is turned off
+ */
+export function featureDisabledError(featureKey: string, message = 'This feature is not available') {
+  return { error: message, code: 'feature_disabled', feature: featureKey };
+}
+
+/**
+ * Feature flag middleware
+ * Returns 404 when the feature is off for the caller, so disabled features look like
+ * they don't exist. Must run after authMiddleware so targeted flags see the user
+ */
+export function requireFeature(featureKey: string) {
+  return async (c: Context, next: () => Promise<void>) => {
+    const user = c.get('user') as AuthPayload | undefined;
+    const db = (c.env as { platform_db: D1Database }).platform_db;
+
+    let enabled: boolean;
+    try {
+      enabled = await isFeatureEnabledFor(db, featureKey, user ?? null);
+    } catch (err) {
+      console.error(`Error checking feature flag ${featureKey}:`, err);
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+
+    if (!enabled) {
+      return c.json(featureDisabledError(featureKey), 404);
+    }
+
+    await next();
+  };
+}
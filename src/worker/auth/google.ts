@@ -1,4 +1,8 @@
-import { AuthPayload, User } from '../../types/user';
+import { AuthPayload, OAuthProviderId, User } from '../../types/user';
+import { findOrCreateUserFromIdentity, RegistrationClosedError } from './identities';
+import type { FindOrCreateUserOptions, FindOrCreateUserResult, OAuthIdentity } from './identities';
+
+export { RegistrationClosedError };
 
 /**
  * Google OAuth response from token endpoint
@@ -13,7 +17,7 @@ interface GoogleTokenResponse {
 /**
  * Google user profile from userinfo endpoint
  */
-interface GoogleUserProfile {
+export interface GoogleUserProfile {
   sub: string; // Google ID
   email: string;
   name: string;
@@ -24,7 +28,7 @@ interface GoogleUserProfile {
 /**
  * Decoded JWT payload from id_token
  */
-interface GoogleIdTokenPayload {
+export interface GoogleIdTokenPayload {
   sub: string;
   email: string;
   name?: string;
@@ -37,7 +41,7 @@ interface GoogleIdTokenPayload {
  * Decodes a JWT token (without verification) to extract payload
  * Used to extract user info from id_token as a fallback
  */
-function decodeJwt(token: string): GoogleIdTokenPayload | null {
+export function decodeJwt(token: string): GoogleIdTokenPayload | null {
   try {
     // JWT format: header.payload.signature
     const parts = token.split('.');
@@ -56,12 +60,46 @@ function decodeJwt(token: string): GoogleIdTokenPayload | null {
   }
 }
 
+/**
+ * Data carried through Google's consent screen in the OAuth state parameter
+ */
+export interface OAuthState {
+  invite?: string; // Invite code to register with while public registration is off
+}
+
+/**
+ * Encode OAuth state as base64url JSON
+ */
+export function encodeOAuthState(state: OAuthState): string {
+  return btoa(JSON.stringify(state)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode OAuth state from the callback
+ * Returns an empty state for missing or malformed values
+ */
+export function decodeOAuthState(value: string | undefined | null): OAuthState {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    return typeof parsed.invite === 'string' ? { invite: parsed.invite } : {};
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Generates Google OAuth login URL
  * Uses prompt=select_account to always show account picker, allowing users to choose
  * which Google account to use (enables logging in with different Gmail accounts)
+ * @param state - Optional data Google hands back to the callback
  */
-export function getGoogleLoginUrl(clientId: string, redirectUri: string): string {
+export function getGoogleLoginUrl(clientId: string, redirectUri: string, state?: OAuthState): string {
   const params = new URLSearchParams({
     client_id: clientId,
     redirect_uri: redirectUri,
@@ -70,6 +108,9 @@ export function getGoogleLoginUrl(clientId: string, redirectUri: string): string
     access_type: 'offline',
     prompt: 'select_account', // Always show account picker
   });
+  if (state && Object.keys(state).length > 0) {
+    params.set('state', encodeOAuthState(state));
+  }
 
   return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
 }
@@ -173,27 +214,18 @@ export async function getGoogleUserProfile(
     );
   }
 
-  return profile as unknown as GoogleUserProfile;
-}
-
-/**
- * Result from finding or creating a user
- */
-interface FindOrCreateUserResult {
-  user: User;
-  isNewUser: boolean;
+  // The v2 userinfo endpoint reports verification as verified_email
+  return {
+    ...(profile as unknown as GoogleUserProfile),
+    email_verified: profile.email_verified === true || profile.verified_email === true,
+  };
 }
 
 /**
- * Finds or creates user from Google profile
- * Returns both the user and a flag indicating if it's a newly created user
+ * Normalizes a Google profile into a sign-in identity
+ * D1 does not accept undefined values in .bind(), so required fields are validated here
  */
-export async function findOrCreateUserFromGoogle(
-  googleProfile: GoogleUserProfile,
-  db: D1Database
-): Promise<FindOrCreateUserResult> {
-  // Validate required fields from Google profile
-  // D1 does not accept undefined values in .bind(), so we must validate first
+export function toGoogleIdentity(googleProfile: GoogleUserProfile): OAuthIdentity {
   if (!googleProfile.sub) {
     throw new Error('Google profile missing required field: sub');
   }
@@ -201,66 +233,28 @@ export async function findOrCreateUserFromGoogle(
     throw new Error('Google profile missing required field: email');
   }
 
-  // Try to find existing user by google_id
-  const existing = await db
-    .prepare('SELECT * FROM users WHERE google_id = ?')
-    .bind(googleProfile.sub)
-    .first<User>();
-
-  if (existing) {
-    return { user: existing, isNewUser: false };
-  }
-
-  // Check if email already exists
-  const emailExists = await db
-    .prepare('SELECT * FROM users WHERE email = ?')
-    .bind(googleProfile.email)
-    .first<User>();
-
-  if (emailExists) {
-    // Link Google ID to existing email account
-    const now = Date.now();
-    await db
-      .prepare('UPDATE users SET google_id = ?, updated_at = ? WHERE email = ?')
-      .bind(googleProfile.sub, now, googleProfile.email)
-      .run();
-
-    return {
-      user: {
-        ...emailExists,
-        google_id: googleProfile.sub,
-        updated_at: now,
-      },
-      isNewUser: false,
-    };
-  }
-
-  // Create new user
-  const userId = `user-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-  const now = Date.now();
-  // Fallback to email username if name not provided
-  const userName = googleProfile.name || googleProfile.email.split('@')[0];
-
-  await db
-    .prepare(
-      'INSERT INTO users (id, email, name, google_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
-    )
-    .bind(userId, googleProfile.email, userName, googleProfile.sub, now, now)
-    .run();
-
   return {
-    user: {
-      id: userId,
-      email: googleProfile.email,
-      name: userName,
-      google_id: googleProfile.sub,
-      created_at: now,
-      updated_at: now,
-    },
-    isNewUser: true,
+    provider: OAuthProviderId.Google,
+    providerUserId: googleProfile.sub,
+    email: googleProfile.email,
+    emailVerified: googleProfile.email_verified === true,
+    name: googleProfile.name,
   };
 }
 
+/**
+ * Finds or creates user from Google profile
+ * Returns both the user and a flag indicating if it's a newly created user
+ * @throws RegistrationClosedError when no account matches and registration is not allowed
+ */
+export async function findOrCreateUserFromGoogle(
+  googleProfile: GoogleUserProfile,
+  db: D1Database,
+  options: FindOrCreateUserOptions = {}
+): Promise<FindOrCreateUserResult> {
+  return findOrCreateUserFromIdentity(toGoogleIdentity(googleProfile), db, options);
+}
+
 /**
  * Creates auth payload from user
  */
@@ -0,0 +1,153 @@
+import type { User } from '../../types/user';
+import { OAuthProviderId } from '../../types/user';
+import { generateUserIdentityId } from '../utils/idGenerator';
+
+/**
+ * An account at a sign-in provider, normalized from the provider's profile
+ */
+export interface OAuthIdentity {
+  provider: OAuthProviderId;
+  providerUserId: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string | null;
+}
+
+/**
+ * Result from finding or creating a user
+ */
+export interface FindOrCreateUserResult {
+  user: User;
+  isNewUser: boolean;
+}
+
+export interface FindOrCreateUserOptions {
+  /** Whether a new account may be created; existing accounts can always sign in */
+  allowRegistration?: boolean;
+}
+
+/**
+ * Thrown when a sign-in would create a new account while public registration is off
+ */
+export class RegistrationClosedError extends Error {
+  constructor() {
+    super('Registration is currently closed');
+    this.name = 'RegistrationClosedError';
+  }
+}
+
+/**
+ * Thrown when a new identity's email isn't verified by the provider
+ * Accounts are linked by email, so an unverified one could take over someone else's account
+ */
+export class UnverifiedEmailError extends Error {
+  constructor() {
+    super('Your email address is not verified with this provider');
+    this.name = 'UnverifiedEmailError';
+  }
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+async function linkIdentity(db: D1Database, userId: string, identity: OAuthIdentity): Promise<void> {
+  const now = nowInSeconds();
+  await db
+    .prepare(`
+      INSERT INTO user_identities (id, user_id, provider, provider_user_id, email, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    .bind(generateUserIdentityId(), userId, identity.provider, identity.providerUserId, identity.email, now, now)
+    .run();
+}
+
+/**
+ * Finds or creates the user for a provider account
+ * An unknown account is linked to the user with the same verified email, so one person
+ * can sign in with several providers
+ * @throws UnverifiedEmailError when an unknown account's email isn't verified
+ * @throws RegistrationClosedError when no user matches and registration is not allowed
+ */
+export async function findOrCreateUserFromIdentity(
+  identity: OAuthIdentity,
+  db: D1Database,
+  options: FindOrCreateUserOptions = {}
+): Promise<FindOrCreateUserResult> {
+  const { allowRegistration = true } = options;
+
+  const linked = await db
+    .prepare(`
+      SELECT users.* FROM user_identities
+      JOIN users ON users.id = user_identities.user_id
+      WHERE user_identities.provider = ? AND user_identities.provider_user_id = ?
+    `)
+    .bind(identity.provider, identity.providerUserId)
+    .first<User>();
+
+  if (linked) {
+    await db
+      .prepare('UPDATE user_identities SET last_used_at = ? WHERE provider = ? AND provider_user_id = ?')
+      .bind(nowInSeconds(), identity.provider, identity.providerUserId)
+      .run();
+    return { user: linked, isNewUser: false };
+  }
+
+  if (!identity.emailVerified) {
+    throw new UnverifiedEmailError();
+  }
+
+  const emailOwner = await db
+    .prepare('SELECT * FROM users WHERE email = ?')
+    .bind(identity.email)
+    .first<User>();
+
+  if (emailOwner) {
+    await linkIdentity(db, emailOwner.id, identity);
+    if (identity.provider !== OAuthProviderId.Google) {
+      return { user: emailOwner, isNewUser: false };
+    }
+
+    // google_id is still shown in the admin user list
+    const now = Date.now();
+    await db
+      .prepare('UPDATE users SET google_id = ?, updated_at = ? WHERE id = ?')
+      .bind(identity.providerUserId, now, emailOwner.id)
+      .run();
+    return {
+      user: { ...emailOwner, google_id: identity.providerUserId, updated_at: now },
+      isNewUser: false,
+    };
+  }
+
+  if (!allowRegistration) {
+    throw new RegistrationClosedError();
+  }
+
+  // Create new user
+  const userId = `user-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  const now = Date.now();
+  // Fallback to email username if name not provided
+  const userName = identity.name || identity.email.split('@')[0];
+  const googleId = identity.provider === OAuthProviderId.Google ? identity.providerUserId : null;
+
+  await db
+    .prepare(
+      'INSERT INTO users (id, email, name, google_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+    )
+    .bind(userId, identity.email, userName, googleId, now, now)
+    .run();
+  await linkIdentity(db, userId, identity);
+
+  return {
+    user: {
+      id: userId,
+      email: identity.email,
+      name: userName,
+      google_id: googleId,
+      created_at: now,
+      updated_at: now,
+    },
+    isNewUser: true,
+  };
+}
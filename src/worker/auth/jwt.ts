@@ -37,12 +37,13 @@ export async function verifyToken(
 
   try {
     const verified = await jwtVerify(token, secretKey);
-    const { userId, email, name, role, iat, exp } = verified.payload;
+    const { userId, email, name, role, sid, iat, exp } = verified.payload;
     return {
       userId: userId as string,
       email: email as string,
       name: name as string,
       role: role ? normalizeUserRole(role) : undefined,
+      sid: typeof sid === 'string' ? sid : undefined,
       iat: iat ? Math.floor(iat) : undefined,
       exp: exp ? Math.floor(exp) : undefined,
     };
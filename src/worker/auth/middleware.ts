@@ -1,11 +1,12 @@
 import { Context } from 'hono';
 import { extractTokenFromHeader, verifyToken } from './jwt';
+import { isSessionActive } from './sessions';
 import { AuthPayload } from '../../types/user';
 
 /**
  * Parse cookie header to extract specific cookie value
  */
-function parseCookie(cookieHeader: string, name: string): string | null {
+export function parseCookie(cookieHeader: string, name: string): string | null {
   if (!cookieHeader) return null;
   const cookies = cookieHeader.split(';');
   for (const cookie of cookies) {
@@ -20,6 +21,8 @@ function parseCookie(cookieHeader: string, name: string): string | null {
 /**
  * Authentication middleware that verifies JWT token
  * Extracts token from Cookie header (auth_token) or Authorization header (for backward compatibility)
+ * Tokens are only accepted while the session they were issued for is active. Tokens from
+ * before sessions existed carry no session and can't be revoked, so they are rejected too.
  */
 export async function authMiddleware(c: Context, next: () => Promise<void>) {
   const jwtSecret = (c.env as Record<string, unknown>).JWT_SECRET as string | undefined;
@@ -50,9 +53,12 @@ export async function authMiddleware(c: Context, next: () => Promise<void>) {
 
   try {
     const payload = await verifyToken(token, jwtSecret);
-    c.set('user', payload);
+    const db = (c.env as Record<string, unknown>).platform_db as D1Database | undefined;
+    if (payload.sid && db && (await isSessionActive(db, payload.sid))) {
+      c.set('user', payload);
+    }
   } catch {
-    // Token verification failed, continue without user
+    // Token verification or the session lookup failed, continue without user
   }
 
   await next();
@@ -0,0 +1,85 @@
+import { Context } from 'hono';
+import { AuthPayload } from '../../types/user';
+import { Permission, UserRole, isCategoryScopedRole, roleHasPermission } from '../../types/role';
+
+/**
+ * Resolves the forum category a request acts on, or null if the target does not exist
+ */
+export type CategoryResolver = (c: Context) => Promise<string | null>;
+
+/**
+ * Check if a user holds a permission, optionally within a forum category
+ * Admins hold their permissions everywhere; moderators only in categories they are assigned to
+ */
+export async function hasPermission(
+  db: D1Database,
+  user: AuthPayload | undefined,
+  permission: Permission,
+  categoryId?: string | null
+): Promise<boolean> {
+  const role = user?.role || UserRole.Member;
+
+  if (!user || !roleHasPermission(role, permission)) {
+    return false;
+  }
+
+  if (!isCategoryScopedRole(role)) {
+    return true;
+  }
+
+  if (!categoryId) {
+    return false;
+  }
+
+  const assignment = await db
+    .prepare('SELECT 1 FROM forum_category_moderators WHERE category_id = ? AND user_id = ?')
+    .bind(categoryId, user.userId)
+    .first();
+
+  return !!assignment;
+}
+
+/**
+ * Resolve the category of the thread in the :threadId route param
+ */
+export const threadCategory: CategoryResolver = async (c) => {
+  const thread = await (c.env as { platform_db: D1Database }).platform_db
+    .prepare('SELECT category_id FROM forum_threads WHERE id = ?')
+    .bind(c.req.param('threadId'))
+    .first<{ category_id: string }>();
+
+  return thread?.category_id || null;
+};
+
+/**
+ * Permission-based access control middleware
+ * Returns 403 unless the user holds the permission; when a resolver is given,
+ * category-scoped roles must also be assigned to the resolved category
+ */
+export function requirePermission(permission: Permission, resolveCategory?: CategoryResolver) {
+  return async (c: Context, next: () => Promise<void>) => {
+    const user = c.get('user') as AuthPayload | undefined;
+
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const role = user.role || UserRole.Member;
+
+    if (!roleHasPermission(role, permission)) {
+      return c.json({ error: 'Forbidden - Missing permission' }, 403);
+    }
+
+    // Unscoped roles skip the lookup; the handler reports missing targets
+    if (isCategoryScopedRole(role)) {
+      const categoryId = resolveCategory ? await resolveCategory(c) : null;
+      const db = (c.env as { platform_db: D1Database }).platform_db;
+
+      if (!(await hasPermission(db, user, permission, categoryId))) {
+        return c.json({ error: 'Forbidden - Not a moderator of this category' }, 403);
+      }
+    }
+
+    await next();
+  };
+}
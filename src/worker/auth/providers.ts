@@ -0,0 +1,315 @@
+/**
+ * Pluggable sign-in providers
+ * Each provider turns an authorization code into an OAuthIdentity; the callback route then
+ * links it to a user by verified email. A provider is offered once its credentials are set.
+ */
+
+import { OAuthProviderId } from '../../types/user';
+import type { OAuthProviderInfo } from '../../types/user';
+import type { OAuthIdentity } from './identities';
+import {
+  decodeJwt,
+  encodeOAuthState,
+  exchangeGoogleCode,
+  getGoogleLoginUrl,
+  getGoogleUserProfile,
+  toGoogleIdentity,
+} from './google';
+import type { OAuthState } from './google';
+
+export interface OAuthProvider {
+  readonly id: OAuthProviderId;
+  readonly name: string;
+  /** URL of the provider's consent screen */
+  getLoginUrl(redirectUri: string, state?: OAuthState): Promise<string>;
+  /** Exchange the authorization code from the callback for the signed-in account */
+  fetchIdentity(code: string, redirectUri: string): Promise<OAuthIdentity>;
+}
+
+/**
+ * Environment values used to configure providers
+ */
+export interface OAuthProviderEnv {
+  GOOGLE_CLIENT_ID?: string;
+  GOOGLE_CLIENT_SECRET?: string;
+  GITHUB_CLIENT_ID?: string;
+  GITHUB_CLIENT_SECRET?: string;
+  OIDC_ISSUER?: string; // e.g. https://example.authing.cn/oidc; endpoints come from its discovery document
+  OIDC_CLIENT_ID?: string;
+  OIDC_CLIENT_SECRET?: string;
+  OIDC_NAME?: string; // Button label on the login page
+}
+
+export const DEFAULT_OIDC_NAME = 'Single sign-on';
+
+function withState(params: URLSearchParams, state?: OAuthState): URLSearchParams {
+  if (state && Object.keys(state).length > 0) {
+    params.set('state', encodeOAuthState(state));
+  }
+  return params;
+}
+
+/**
+ * Google sign-in (the original provider)
+ */
+export class GoogleOAuthProvider implements OAuthProvider {
+  readonly id = OAuthProviderId.Google;
+  readonly name = 'Google';
+
+  constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string
+  ) {}
+
+  async getLoginUrl(redirectUri: string, state?: OAuthState): Promise<string> {
+    return getGoogleLoginUrl(this.clientId, redirectUri, state);
+  }
+
+  async fetchIdentity(code: string, redirectUri: string): Promise<OAuthIdentity> {
+    const tokenResponse = await exchangeGoogleCode(code, this.clientId, this.clientSecret, redirectUri);
+    // Pass id_token as fallback if available
+    const profile = await getGoogleUserProfile(tokenResponse.access_token, tokenResponse.id_token);
+    return toGoogleIdentity(profile);
+  }
+}
+
+interface GitHubUser {
+  id: number;
+  login: string;
+  name: string | null;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub sign-in
+ * Works inside WeChat's in-app browser, where Google sign-in is blocked
+ */
+export class GitHubOAuthProvider implements OAuthProvider {
+  readonly id = OAuthProviderId.GitHub;
+  readonly name = 'GitHub';
+
+  constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string
+  ) {}
+
+  async getLoginUrl(redirectUri: string, state?: OAuthState): Promise<string> {
+    const params = withState(
+      new URLSearchParams({
+        client_id: this.clientId,
+        redirect_uri: redirectUri,
+        scope: 'read:user user:email',
+        allow_signup: 'true',
+      }),
+      state
+    );
+    return `https://github.com/login/oauth/authorize?${params.toString()}`;
+  }
+
+  async fetchIdentity(code: string, redirectUri: string): Promise<OAuthIdentity> {
+    // GitHub reports token errors with a 200 and an error field
+    const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        code,
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        redirect_uri: redirectUri,
+      }).toString(),
+    });
+    const token = await tokenResponse.json() as Record<string, unknown>;
+    if (!tokenResponse.ok || typeof token.access_token !== 'string') {
+      throw new Error(`GitHub token exchange failed: ${token.error_description || token.error || tokenResponse.status}`);
+    }
+
+    // The API rejects requests without a User-Agent
+    const headers = {
+      Authorization: `Bearer ${token.access_token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'lead-forward-platform',
+    };
+    const [userResponse, emailsResponse] = await Promise.all([
+      fetch('https://api.github.com/user', { headers }),
+      fetch('https://api.github.com/user/emails', { headers }),
+    ]);
+    if (!userResponse.ok || !emailsResponse.ok) {
+      throw new Error('Failed to fetch GitHub user profile');
+    }
+
+    const user = await userResponse.json() as GitHubUser;
+    const emails = await emailsResponse.json() as GitHubEmail[];
+    // Prefer the primary address, but only a verified one can be linked to an account
+    const email =
+      emails.find((item) => item.primary && item.verified) ||
+      emails.find((item) => item.verified) ||
+      emails.find((item) => item.primary);
+
+    if (!user.id || !email) {
+      throw new Error('GitHub profile missing required field: ' + (!user.id ? 'id' : 'email'));
+    }
+
+    return {
+      provider: this.id,
+      providerUserId: String(user.id),
+      email: email.email.toLowerCase(),
+      emailVerified: email.verified,
+      name: user.name || user.login,
+    };
+  }
+}
+
+interface OidcDiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+// Discovery documents by issuer; they rarely change, so one fetch per isolate is enough
+const discoveryCache = new Map<string, OidcDiscoveryDocument>();
+
+/**
+ * Clear cached OIDC discovery documents (for tests)
+ */
+export function clearOidcDiscoveryCache(): void {
+  discoveryCache.clear();
+}
+
+/**
+ * Any OpenID Connect provider (e.g. Authing, Keycloak, Microsoft Entra ID)
+ */
+export class OidcOAuthProvider implements OAuthProvider {
+  readonly id = OAuthProviderId.Oidc;
+
+  constructor(
+    private readonly issuer: string,
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+    readonly name: string = DEFAULT_OIDC_NAME
+  ) {}
+
+  private async discover(): Promise<OidcDiscoveryDocument> {
+    const issuer = this.issuer.replace(/\/+$/, '');
+    const cached = discoveryCache.get(issuer);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with ${response.status}`);
+    }
+    const document = await response.json() as OidcDiscoveryDocument;
+    if (!document.authorization_endpoint || !document.token_endpoint) {
+      throw new Error('OIDC discovery document is missing endpoints');
+    }
+    discoveryCache.set(issuer, document);
+    return document;
+  }
+
+  async getLoginUrl(redirectUri: string, state?: OAuthState): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    const params = withState(
+      new URLSearchParams({
+        client_id: this.clientId,
+        redirect_uri: redirectUri,
+        response_type: 'code',
+        scope: 'openid email profile',
+      }),
+      state
+    );
+    return `${authorization_endpoint}?${params.toString()}`;
+  }
+
+  async fetchIdentity(code: string, redirectUri: string): Promise<OAuthIdentity> {
+    const { token_endpoint, userinfo_endpoint } = await this.discover();
+
+    const tokenResponse = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        code,
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        redirect_uri: redirectUri,
+        grant_type: 'authorization_code',
+      }).toString(),
+    });
+    const token = await tokenResponse.json() as Record<string, unknown>;
+    if (!tokenResponse.ok || typeof token.access_token !== 'string') {
+      throw new Error(`OIDC token exchange failed: ${token.error_description || token.error || tokenResponse.status}`);
+    }
+
+    // Userinfo is authoritative; the id_token claims are the fallback
+    let claims: Record<string, unknown> | null = null;
+    if (userinfo_endpoint) {
+      const userinfoResponse = await fetch(userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${token.access_token}` },
+      });
+      if (userinfoResponse.ok) {
+        claims = await userinfoResponse.json() as Record<string, unknown>;
+      }
+    }
+    if (!claims?.sub && typeof token.id_token === 'string') {
+      claims = decodeJwt(token.id_token);
+    }
+
+    if (!claims || typeof claims.sub !== 'string' || typeof claims.email !== 'string') {
+      throw new Error('OIDC profile missing required field: ' + (typeof claims?.sub !== 'string' ? 'sub' : 'email'));
+    }
+
+    return {
+      provider: this.id,
+      providerUserId: claims.sub,
+      email: claims.email.toLowerCase(),
+      // Some providers send the claim as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : null,
+    };
+  }
+}
+
+/**
+ * Providers whose credentials are configured, in login page order
+ */
+export function getOAuthProviders(env: OAuthProviderEnv): OAuthProvider[] {
+  const providers: OAuthProvider[] = [];
+  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+    providers.push(new GoogleOAuthProvider(env.GOOGLE_CLIENT_ID, env.GOOGLE_CLIENT_SECRET));
+  }
+  if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
+    providers.push(new GitHubOAuthProvider(env.GITHUB_CLIENT_ID, env.GITHUB_CLIENT_SECRET));
+  }
+  if (env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET) {
+    providers.push(
+      new OidcOAuthProvider(env.OIDC_ISSUER, env.OIDC_CLIENT_ID, env.OIDC_CLIENT_SECRET, env.OIDC_NAME || DEFAULT_OIDC_NAME)
+    );
+  }
+  return providers;
+}
+
+/**
+ * Pick a configured provider by ID
+ * @returns null when the provider is unknown or not configured
+ */
+export function resolveOAuthProvider(env: OAuthProviderEnv, id: string): OAuthProvider | null {
+  return getOAuthProviders(env).find((provider) => provider.id === id) || null;
+}
+
+/**
+ * Describe providers for the login page
+ */
+export function describeOAuthProviders(providers: OAuthProvider[]): OAuthProviderInfo[] {
+  return providers.map((provider) => ({ id: provider.id, name: provider.name }));
+}
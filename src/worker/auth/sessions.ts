@@ -0,0 +1,214 @@
+import { generateRefreshToken, generateUserSessionId } from '../utils/idGenerator';
+import { sha256Hex } from '../utils/hash';
+
+/**
+ * Access token lifetime (minutes)
+ * Short, because the frontend refreshes it silently with the refresh token
+ */
+export const ACCESS_TOKEN_TTL_MINUTES = 15;
+
+/**
+ * Refresh token lifetime (seconds), extended each time it is rotated
+ * A device that stays away longer has to sign in again
+ */
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * How long a just-rotated refresh token is still tolerated (seconds)
+ * Two tabs refreshing at the same moment both send the old token; only reuse after this
+ * window is treated as a stolen token
+ */
+export const REFRESH_REUSE_GRACE_SECONDS = 60;
+
+// Longest user agent kept for the sessions page
+const MAX_USER_AGENT_LENGTH = 255;
+
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+}
+
+export type RotateSessionResult =
+  | { status: 'rotated'; sessionId: string; userId: string; refreshToken: string }
+  | { status: 'invalid' };
+
+/**
+ * Hash a refresh token for storage; the token itself is never stored
+ */
+export async function hashRefreshToken(token: string): Promise<string> {
+  return sha256Hex(token);
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Start a session for a sign-in
+ * @returns The session ID to put in access tokens and the refresh token for the cookie
+ */
+export async function createSession(
+  db: D1Database,
+  userId: string,
+  metadata: SessionMetadata = {}
+): Promise<IssuedSession> {
+  const sessionId = generateUserSessionId();
+  const refreshToken = generateRefreshToken();
+  const now = nowInSeconds();
+
+  await db
+    .prepare(`
+      INSERT INTO user_sessions (id, user_id, refresh_token_hash, user_agent, ip_address, created_at, last_used_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .bind(
+      sessionId,
+      userId,
+      await hashRefreshToken(refreshToken),
+      metadata.userAgent ? metadata.userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null,
+      metadata.ipAddress || null,
+      now,
+      now,
+      now + REFRESH_TOKEN_TTL_SECONDS
+    )
+    .run();
+
+  return { sessionId, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one
+ * Presenting a token that was already rotated away (outside the grace window) means it
+ * was copied, so the whole session is revoked
+ */
+export async function rotateSession(db: D1Database, refreshToken: string): Promise<RotateSessionResult> {
+  const tokenHash = await hashRefreshToken(refreshToken);
+  const now = nowInSeconds();
+
+  const session = await db
+    .prepare('SELECT id, user_id, expires_at, revoked_at FROM user_sessions WHERE refresh_token_hash = ?')
+    .bind(tokenHash)
+    .first<{ id: string; user_id: string; expires_at: number; revoked_at: number | null }>();
+
+  if (!session) {
+    const rotated = await db
+      .prepare('SELECT id, last_used_at FROM user_sessions WHERE previous_token_hash = ? AND revoked_at IS NULL')
+      .bind(tokenHash)
+      .first<{ id: string; last_used_at: number }>();
+
+    if (rotated && now - rotated.last_used_at > REFRESH_REUSE_GRACE_SECONDS) {
+      await revokeSession(db, rotated.id);
+    }
+    return { status: 'invalid' };
+  }
+
+  if (session.revoked_at !== null || session.expires_at <= now) {
+    return { status: 'invalid' };
+  }
+
+  // Conditional on the token still being current, so a concurrent refresh can't fork the session
+  const nextToken = generateRefreshToken();
+  const result = await db
+    .prepare(`
+      UPDATE user_sessions
+      SET refresh_token_hash = ?, previous_token_hash = ?, last_used_at = ?, expires_at = ?
+      WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL
+    `)
+    .bind(await hashRefreshToken(nextToken), tokenHash, now, now + REFRESH_TOKEN_TTL_SECONDS, session.id, tokenHash)
+    .run();
+
+  if ((result.meta?.changes || 0) === 0) {
+    return { status: 'invalid' };
+  }
+
+  return { status: 'rotated', sessionId: session.id, userId: session.user_id, refreshToken: nextToken };
+}
+
+/**
+ * Check whether an access token's session is still signed in
+ */
+export async function isSessionActive(db: D1Database, sessionId: string): Promise<boolean> {
+  const session = await db
+    .prepare('SELECT expires_at, revoked_at FROM user_sessions WHERE id = ?')
+    .bind(sessionId)
+    .first<{ expires_at: number; revoked_at: number | null }>();
+
+  return !!session && session.revoked_at === null && session.expires_at > nowInSeconds();
+}
+
+/**
+ * Sign one session out
+ * @param userId - When given, only revoke the session if it belongs to this user
+ * @returns Whether a session was revoked
+ */
+export async function revokeSession(db: D1Database, sessionId: string, userId?: string): Promise<boolean> {
+  const result = userId
+    ? await db
+        .prepare('UPDATE user_sessions SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL')
+        .bind(nowInSeconds(), sessionId, userId)
+        .run()
+    : await db
+        .prepare('UPDATE user_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+        .bind(nowInSeconds(), sessionId)
+        .run();
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * Sign out the session a refresh token belongs to
+ * Used on logout when the access token has already expired
+ */
+export async function revokeSessionByRefreshToken(db: D1Database, refreshToken: string): Promise<void> {
+  await db
+    .prepare('UPDATE user_sessions SET revoked_at = ? WHERE refresh_token_hash = ? AND revoked_at IS NULL')
+    .bind(nowInSeconds(), await hashRefreshToken(refreshToken))
+    .run();
+}
+
+/**
+ * Sign a user out everywhere, e.g. after their role changes
+ * @param exceptSessionId - Session to keep signed in (the caller's own)
+ * @returns Number of sessions revoked
+ */
+export async function revokeUserSessions(db: D1Database, userId: string, exceptSessionId?: string): Promise<number> {
+  const result = exceptSessionId
+    ? await db
+        .prepare('UPDATE user_sessions SET revoked_at = ? WHERE user_id = ? AND id != ? AND revoked_at IS NULL')
+        .bind(nowInSeconds(), userId, exceptSessionId)
+        .run()
+    : await db
+        .prepare('UPDATE user_sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+        .bind(nowInSeconds(), userId)
+        .run();
+
+  return result.meta?.changes || 0;
+}
+
+/**
+ * Cookies that hold the access and refresh tokens
+ * The refresh token is only sent to the auth endpoints that use it
+ */
+export function buildSessionCookies(accessToken: string, refreshToken: string, isHttps: boolean): string[] {
+  const secure = isHttps ? '; Secure' : '';
+  return [
+    `auth_token=${accessToken}; HttpOnly; SameSite=Lax; Path=/; Max-Age=${ACCESS_TOKEN_TTL_MINUTES * 60}${secure}`,
+    `refresh_token=${refreshToken}; HttpOnly; SameSite=Lax; Path=/api/v1/auth; Max-Age=${REFRESH_TOKEN_TTL_SECONDS}${secure}`,
+  ];
+}
+
+/**
+ * Cookies that clear both tokens
+ */
+export function clearSessionCookies(isHttps: boolean): string[] {
+  const secure = isHttps ? '; Secure' : '';
+  return [
+    `auth_token=; HttpOnly; SameSite=Lax; Path=/; Max-Age=0${secure}`,
+    `refresh_token=; HttpOnly; SameSite=Lax; Path=/api/v1/auth; Max-Age=0${secure}`,
+  ];
+}
@@ -12,54 +12,274 @@ import type {
   AssignRoleRequest,
   GetUserRoleResponse,
   GetUserPointsResponse,
+  GetPointsHistoryResponse,
   UpdateUserPointsRequest,
+  LeaderboardEntry,
+  LeaderboardWindow,
+  GetLeaderboardResponse,
+  GetLeaderboardWinnersResponse,
   GetBlogsResponse,
   CreateBlogRequest,
   UpdateBlogRequest,
   FeatureBlogRequest,
   GetBlogCommentsResponse,
-  CreateBlogCommentRequest
+  CreateBlogCommentRequest,
+  UpdateAvailabilitySlotsRequest,
+  AvailabilitySlotsResponse
 } from "../types/api";
 import type {
   FeatureFlagCreateRequest,
   FeatureFlagUpdateRequest,
+  FeatureTargeting,
   EnabledFeatures,
 } from "../types/features";
-import { normalizeFeatureFlag, isValidFeatureKey } from "../types/features";
+import {
+  FeatureAudience,
+  MAX_FEATURE_TARGET_USERS,
+  normalizeFeatureFlag,
+  normalizeFeatureTargeting,
+  isFeatureAudience,
+  isFeatureTargeted,
+  isValidFeatureKey,
+} from "../types/features";
 import type { MentorProfile } from "../types/mentor";
+import type { AvailabilitySlot } from "../types/availability";
+import {
+  MAX_AVAILABILITY_SLOTS,
+  isValidTimezone,
+  isValidSlotRange,
+  hasOverlappingSlots,
+  parseTimeOfDay,
+  slotOverlapsWindow,
+  sortSlots,
+} from "../types/availability";
 import type { Match } from "../types/match";
 import type { Blog, BlogWithLikeStatus } from "../types/blog";
 import { normalizeBlog, normalizeBlogCommentWithAuthor } from "../types/blog";
-import type { CreateThreadRequest } from "../types/forum";
+import type { CreateThreadRequest, ForumCategoryModerator, ForumRevision, MergeThreadRequest, MoveThreadRequest, RevisionContentType, UpdateThreadRequest } from "../types/forum";
 import type { CreateChallengeDTO, UpdateChallengeDTO, SubmitChallengeDTO, ReviewSubmissionDTO } from "../types/challenge";
 import { ChallengeStatus, SubmissionStatus } from "../types/challenge";
-import { authMiddleware, requireAuth } from "./auth/middleware";
+import type { MatchSession, ProposeSessionDTO, RescheduleSessionDTO, ConfirmSessionDTO } from "../types/session";
+import {
+  SessionStatus,
+  DEFAULT_SESSION_DURATION_MINUTES,
+  MAX_SESSION_DURATION_MINUTES,
+  normalizeMatchSession,
+} from "../types/session";
+import type { MentorReview, CreateReviewDTO, MentorReviewsResponse } from "../types/review";
+import type { MatchMessage, SendMessageDTO, GetMatchMessagesResponse } from "../types/message";
+import {
+  MAX_MESSAGE_LENGTH,
+  DEFAULT_MESSAGES_PAGE_SIZE,
+  MAX_MESSAGES_PAGE_SIZE,
+  normalizeMatchMessage,
+} from "../types/message";
+import type {
+  Notification,
+  CreateNotificationDTO,
+  GetNotificationsResponse,
+  NotificationPreferences,
+  UpdateNotificationPreferencesDTO,
+} from "../types/notification";
+import {
+  NotificationType,
+  EmailFrequency,
+  MAX_NOTIFICATIONS_PAGE_SIZE,
+  DEFAULT_EMAIL_FREQUENCIES,
+  DEFAULT_EMAIL_LOCALE,
+  DIGEST_WINDOW_SECONDS,
+  EMAIL_LOCALES,
+  normalizeNotification,
+  buildEmailPreferences,
+  isNotificationType,
+  isEmailFrequency,
+  isEmailLocale,
+} from "../types/notification";
+import {
+  MIN_RATING,
+  MAX_RATING,
+  MAX_REVIEW_COMMENT_LENGTH,
+  isValidRating,
+  normalizeMentorReview,
+} from "../types/review";
+import type { SearchResult, SearchResponse } from "../types/search";
+import {
+  SearchContentType,
+  DEFAULT_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_QUERY_LENGTH,
+  isSearchContentType,
+} from "../types/search";
+import type {
+  ContentReport,
+  CreateReportDTO,
+  ReportedContent,
+  ReportGroup,
+  GetReportGroupsResponse,
+  ModerationAction,
+  ModerationActionDTO,
+} from "../types/report";
+import {
+  ReportTargetType,
+  ReportStatus,
+  ModerationActionType,
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_MODERATION_NOTE_LENGTH,
+  MAX_REPORT_GROUPS_PAGE_SIZE,
+  HIDDEN_CONTENT_PLACEHOLDER,
+  isReportTargetType,
+  isReportReason,
+  isModerationActionType,
+  normalizeContentReport,
+} from "../types/report";
+import type { GetAuditLogResponse } from "../types/audit";
+import type { AwardBadgeRequest, GetUserBadgesResponse, UserBadge } from "../types/badge";
+import { BADGE_CATALOG, BadgeId, BadgeMetric, isBadgeId, normalizeUserBadge } from "../types/badge";
+import type {
+  Reward,
+  RewardRedemption,
+  CreateRewardDTO,
+  UpdateRewardDTO,
+  RedeemRewardDTO,
+  UpdateRedemptionDTO,
+  GetRewardsResponse,
+  GetRedemptionsResponse,
+  RedeemRewardResponse,
+} from "../types/reward";
+import {
+  RedemptionStatus,
+  MAX_REWARD_NAME_LENGTH,
+  MAX_REWARD_DESCRIPTION_LENGTH,
+  MAX_REDEMPTION_NOTE_LENGTH,
+  MAX_REDEMPTIONS_PAGE_SIZE,
+  isRedemptionStatus,
+  canTransitionRedemption,
+  normalizeReward,
+  normalizeRewardRedemption,
+} from "../types/reward";
+import type {
+  InviteCode,
+  WaitlistEntry,
+  CreateInviteCodeDTO,
+  JoinWaitlistDTO,
+  UpdateWaitlistEntryDTO,
+  GetInviteCodesResponse,
+  GetWaitlistResponse,
+} from "../types/invite";
+import {
+  WaitlistStatus,
+  INVITE_CODE_PATTERN,
+  MAX_INVITE_USES,
+  MAX_INVITE_NOTE_LENGTH,
+  MAX_WAITLIST_NAME_LENGTH,
+  MAX_WAITLIST_REASON_LENGTH,
+  MAX_WAITLIST_PAGE_SIZE,
+  isWaitlistStatus,
+  normalizeInviteCodeInput,
+  normalizeInviteCode,
+  normalizeWaitlistEntry,
+} from "../types/invite";
+import type {
+  Event,
+  EventRsvp,
+  EventLocation,
+  Host,
+  CreateEventDTO,
+  UpdateEventDTO,
+  GetEventsResponse,
+  EventRsvpResponse,
+  GetEventAttendeesResponse,
+  CalendarFeed,
+  GetCalendarFeedResponse,
+  CreateCalendarFeedResponse,
+} from "../types/event";
+import {
+  EventRsvpStatus,
+  MAX_EVENT_NAME_LENGTH,
+  MAX_EVENT_DESCRIPTION_LENGTH,
+  MAX_EVENT_HOSTS,
+  normalizeEvent,
+  normalizeEventRsvp,
+} from "../types/event";
+import {
+  AuditAction,
+  AuditTargetType,
+  MAX_AUDIT_LOG_PAGE_SIZE,
+  isAuditAction,
+  isAuditTargetType,
+  normalizeAuditLogEntry,
+} from "../types/audit";
+import type { JobRun, ScheduledJobInfo, GetScheduledJobsResponse, GetJobRunsResponse, RunJobResponse } from "../types/job";
+import {
+  ScheduledJobName,
+  JobRunStatus,
+  JobTrigger,
+  PENDING_MATCH_EXPIRY_DAYS,
+  THREAD_VIEW_RETENTION_DAYS,
+  MAX_JOB_RUNS_PAGE_SIZE,
+  isScheduledJobName,
+  isJobRunStatus,
+  normalizeJobRun,
+} from "../types/job";
+import { authMiddleware, requireAuth, parseCookie } from "./auth/middleware";
 import { requireAdmin } from "./auth/roleMiddleware";
 import {
-  getGoogleLoginUrl,
-  exchangeGoogleCode,
-  getGoogleUserProfile,
-  findOrCreateUserFromGoogle,
-  createAuthPayload,
-} from "./auth/google";
+  requireFeature,
+  isFeatureEnabledFor,
+  clearFeatureFlagCache,
+  featureDisabledError,
+} from "./auth/featureMiddleware";
+import { requirePermission, hasPermission, threadCategory } from "./auth/permissions";
+import { createAuthPayload, decodeOAuthState } from "./auth/google";
+import { findOrCreateUserFromIdentity, RegistrationClosedError, UnverifiedEmailError } from "./auth/identities";
+import { getOAuthProviders, resolveOAuthProvider, describeOAuthProviders } from "./auth/providers";
 import { createToken } from "./auth/jwt";
-import { AuthPayload } from "../types/user";
-import { UserRole, DEFAULT_ROLE, normalizeUserRole } from "../types/role";
+import {
+  ACCESS_TOKEN_TTL_MINUTES,
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+  buildSessionCookies,
+  clearSessionCookies,
+} from "./auth/sessions";
+import { AuthPayload, OAuthProviderId } from "../types/user";
+import type { UserSession, GetSessionsResponse, GetOAuthProvidersResponse, LinkedIdentity, GetLinkedIdentitiesResponse } from "../types/user";
+import { UserRole, Permission, DEFAULT_ROLE, normalizeUserRole } from "../types/role";
 import {
   normalizeUserPointsWithRank,
+  normalizePointsTransaction,
+  isPointsActionType,
+  PointsActionType,
+  POINTS_ACTION_REVERSALS,
+  ReversiblePointsActionType,
+  LeaderboardPeriod,
+  LeaderboardSource,
+  ClosingLeaderboardPeriod,
+  getLeaderboardSourceActions,
+  getLeaderboardPeriodBounds,
+  isLeaderboardPeriod,
+  isLeaderboardSource,
   INITIAL_POINTS,
+  MAX_POINTS,
+  MAX_POINTS_HISTORY_PAGE_SIZE,
+  DEFAULT_LEADERBOARD_WINNER_PERIODS,
+  MAX_LEADERBOARD_WINNER_PERIODS,
+  LEADERBOARD_WINNERS_PER_PERIOD,
   POINTS_FOR_CREATE_COMMENT,
   POINTS_FOR_CREATE_BLOG,
   POINTS_FOR_BLOG_FEATURED,
   POINTS_FOR_RECEIVING_LIKE,
   POINTS_FOR_RECEIVING_COMMENT,
-  // Forum points (imported for future use)
-  // POINTS_FOR_CREATE_THREAD,
-  // POINTS_FOR_CREATE_REPLY,
-  // POINTS_FOR_RECEIVING_UPVOTE_THREAD,
-  // POINTS_FOR_RECEIVING_UPVOTE_REPLY,
-  // POINTS_FOR_THREAD_SOLVED,
-  // POINTS_FOR_REPLY_MARKED_SOLUTION,
+  // Forum points
+  POINTS_FOR_CREATE_THREAD,
+  POINTS_FOR_CREATE_REPLY,
+  POINTS_FOR_RECEIVING_UPVOTE_THREAD,
+  POINTS_FOR_RECEIVING_UPVOTE_REPLY,
+  POINTS_FOR_THREAD_SOLVED,
+  POINTS_FOR_REPLY_MARKED_SOLUTION,
+  THREAD_VIEW_MILESTONES,
   LIKES_RECEIVED_FULL_POINTS_THRESHOLD,
   LIKES_RECEIVED_REDUCED_POINTS_THRESHOLD,
   LIKES_RECEIVED_REDUCED_MULTIPLIER,
@@ -69,6 +289,15 @@ import {
   BLOGS_CREATED_FULL_POINTS_THRESHOLD,
   BLOGS_CREATED_REDUCED_POINTS_THRESHOLD,
   BLOGS_CREATED_REDUCED_MULTIPLIER,
+  THREADS_CREATED_FULL_POINTS_THRESHOLD,
+  THREADS_CREATED_REDUCED_POINTS_THRESHOLD,
+  THREADS_CREATED_REDUCED_MULTIPLIER,
+  REPLIES_CREATED_FULL_POINTS_THRESHOLD,
+  REPLIES_CREATED_REDUCED_POINTS_THRESHOLD,
+  REPLIES_CREATED_REDUCED_MULTIPLIER,
+  UPVOTES_RECEIVED_FULL_POINTS_THRESHOLD,
+  UPVOTES_RECEIVED_REDUCED_POINTS_THRESHOLD,
+  UPVOTES_RECEIVED_REDUCED_MULTIPLIER,
   DIMINISHING_RETURNS_WINDOW_SECONDS,
   // Challenge points
   POINTS_FOR_JOIN_CHALLENGE,
@@ -76,8 +305,24 @@ import {
   CHALLENGE_JOINS_FULL_POINTS_THRESHOLD,
   CHALLENGE_SUBMISSIONS_FULL_POINTS_THRESHOLD,
 } from "../types/points";
-import { generateBlogId, generateBlogLikeId, generateBlogCommentId, generateThreadId, generateReplyId, generateChallengeId, generateChallengeParticipantId, generateChallengeSubmissionId } from "./utils/idGenerator";
-import { sanitizeHtml } from "./utils/sanitize";
+import { generateBlogId, generateBlogLikeId, generateBlogCommentId, generateThreadId, generateReplyId, generateChallengeId, generateChallengeParticipantId, generateChallengeSubmissionId, generateMatchSessionId, generateMentorReviewId, generateNotificationId, generateMatchMessageId, generateReportId, generateModerationActionId, generateAuditLogId, generateLeaderboardSnapshotId, generateRewardId, generateRedemptionId, generateInviteCodeId, generateWaitlistEntryId, generateInviteCode, generateEventId, generateEventRsvpId, generateCalendarFeedToken, generateForumRevisionId } from "./utils/idGenerator";
+import { escapeHtml, sanitizeHtml, stripHtml } from "./utils/sanitize";
+import {
+  parseSearchTerms,
+  buildFtsMatchExpression,
+  getShortSearchTerms,
+  toLikePattern,
+  highlightTerms,
+  buildSearchSnippet,
+} from "./utils/search";
+import type { IcsEvent } from "./utils/ics";
+import { buildIcsCalendar } from "./utils/ics";
+import { sha256Hex } from "./utils/hash";
+import type { MailTransport } from "./mail/transport";
+import { resolveMailTransport } from "./mail/transport";
+import { renderNotificationEmail, renderDigestEmail, renderWaitlistApprovedEmail, DEFAULT_APP_URL } from "./mail/templates";
+import type { ScheduledJob } from "./jobs/scheduler";
+import { runJob, runScheduledJobs } from "./jobs/scheduler";
 
 /**
  * Environment variables and bindings for the Worker
@@ -87,7 +332,19 @@ interface Env {
   CV_BUCKET: R2Bucket;
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
+  GITHUB_CLIENT_ID?: string;
+  GITHUB_CLIENT_SECRET?: string;
+  OIDC_ISSUER?: string;
+  OIDC_CLIENT_ID?: string;
+  OIDC_CLIENT_SECRET?: string;
+  OIDC_NAME?: string; // Login button label for the OIDC provider
   JWT_SECRET: string;
+  APP_URL?: string; // Base URL for links in emails
+  MAILER?: MailTransport; // Mail transport override (in-memory outbox in tests)
+  MAIL_API_URL?: string;
+  MAIL_API_KEY?: string;
+  MAIL_FROM?: string;
+  MAIL_DEV_OUTBOX?: string; // "true" keeps unsent emails in a logged in-memory outbox (local development only)
 }
 
 /**
@@ -97,6 +354,7 @@ interface Env {
 interface DbThread {
   id?: string;
   user_id?: string;
+  category_id?: string;
   upvote_count?: number;
   downvote_count?: number;
   reply_count?: number;
@@ -104,11 +362,6 @@ interface DbThread {
   view_count?: number;
 }
 
-interface DbReply {
-  thread_id?: string;
-  user_id?: string;
-}
-
 interface DbVote {
   vote_type?: string;
 }
@@ -164,6 +417,15 @@ function calculateHotScore(
 // Apply authentication middleware to all routes
 app.use(authMiddleware);
 
+// Feature-gated route groups: return 404 while the feature is off for the caller
+// To prepare content before launch, target the flag at admins first
+app.use("/api/v1/mentors/search", requireFeature("mentor_search"));
+app.on("POST", "/api/v1/matches", requireFeature("match_requests"));
+app.use("/api/v1/blogs/*", requireFeature("blogs"));
+app.use("/api/v1/challenges/*", requireFeature("challenges"));
+app.use("/api/v1/leaderboard/*", requireFeature("leaderboard"));
+app.use("/api/v1/rewards/*", requireFeature("rewards_store"));
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -206,6 +468,7 @@ function isValidLinkedInUrl(url: string): boolean {
  */
 function normalizeMentorProfile(profile: unknown): MentorProfile {
   const dbProfile = profile as Record<string, unknown>;
+  const allowReviews = dbProfile.allow_reviews === 1 || dbProfile.allow_reviews === true;
 
   // Explicitly construct the response to ensure correct types
   return {
@@ -219,14 +482,63 @@ function normalizeMentorProfile(profile: unknown): MentorProfile {
     payment_types: dbProfile.payment_types as number,
     expertise_domains: dbProfile.expertise_domains as number,
     expertise_topics_preset: dbProfile.expertise_topics_preset as number,
-    allow_reviews: dbProfile.allow_reviews === 1 || dbProfile.allow_reviews === true,
+    allow_reviews: allowReviews,
     allow_recording: dbProfile.allow_recording === 1 || dbProfile.allow_recording === true,
     linkedin_url: (dbProfile.linkedin_url as string | null) || null,
+    // Rating aggregates stay hidden for mentors who turned reviews off
+    average_rating: allowReviews && typeof dbProfile.average_rating === "number" ? dbProfile.average_rating : null,
+    review_count: allowReviews ? (dbProfile.review_count as number) || 0 : 0,
     created_at: dbProfile.created_at as number,
     updated_at: dbProfile.updated_at as number,
   };
 }
 
+/**
+ * Load availability slots for a set of mentor profiles
+ * Returns a map keyed by mentor_profile_id; profiles without slots are absent from the map
+ */
+async function getAvailabilitySlotsByProfile(
+  db: D1Database,
+  profileIds: string[]
+): Promise<Map<string, AvailabilitySlot[]>> {
+  const slotsByProfile = new Map<string, AvailabilitySlot[]>();
+  if (profileIds.length === 0) {
+    return slotsByProfile;
+  }
+
+  const result = await db
+    .prepare(`
+      SELECT mentor_profile_id, day_of_week, start_minute, end_minute, timezone
+      FROM mentor_availability_slots
+      WHERE mentor_profile_id IN (SELECT value FROM json_each(?))
+      ORDER BY day_of_week ASC, start_minute ASC
+    `)
+    .bind(JSON.stringify(profileIds))
+    .all<AvailabilitySlot & { mentor_profile_id: string }>();
+
+  for (const row of result?.results || []) {
+    const slots = slotsByProfile.get(row.mentor_profile_id) || [];
+    slots.push({
+      day_of_week: row.day_of_week,
+      start_minute: row.start_minute,
+      end_minute: row.end_minute,
+      timezone: row.timezone,
+    });
+    slotsByProfile.set(row.mentor_profile_id, slots);
+  }
+
+  return slotsByProfile;
+}
+
+/**
+ * Normalize a mentor profile row and attach its availability slots
+ */
+async function normalizeMentorProfileWithSlots(db: D1Database, profile: unknown): Promise<MentorProfile> {
+  const normalized = normalizeMentorProfile(profile);
+  const slotsByProfile = await getAvailabilitySlotsByProfile(db, [normalized.id]);
+  return { ...normalized, availability_slots: slotsByProfile.get(normalized.id) || [] };
+}
+
 // ============================================================================
 // User Management API (/api/v1/users)
 // ============================================================================
@@ -270,12 +582,12 @@ app.post("/api/v1/users", async (c) => {
       .run();
 
     // Award initial points to new user
-    await c.env.platform_db
-      .prepare(
-        "INSERT INTO user_points (id, user_id, points, updated_at) VALUES (?, ?, ?, ?)"
-      )
-      .bind(generateId(), id, INITIAL_POINTS, timestamp)
-      .run();
+    await recordPointsTransaction(c.env.platform_db, {
+      userId: id,
+      actionType: PointsActionType.SignupBonus,
+      referenceId: id,
+      delta: INITIAL_POINTS,
+    });
 
     const user: User = {
       id,
@@ -451,7 +763,7 @@ app.post("/api/v1/roles", requireAuth, requireAdmin, async (c) => {
     }
 
     // Validation: Valid role value
-    if (body.role !== UserRole.Admin && body.role !== UserRole.Member) {
+    if (!Object.values(UserRole).includes(body.role)) {
       return c.json({ error: "Invalid role value" }, 400);
     }
 
@@ -467,27 +779,42 @@ app.post("/api/v1/roles", requireAuth, requireAdmin, async (c) => {
 
     const id = generateId();
     const timestamp = getTimestamp();
+    const db = c.env.platform_db;
 
     // Upsert into user_roles table
     // Try to insert, but if user_id exists, update instead
-    const existing = await c.env.platform_db
-      .prepare("SELECT id FROM user_roles WHERE user_id = ?")
+    const existing = await db
+      .prepare("SELECT id, role FROM user_roles WHERE user_id = ?")
       .bind(body.userId)
-      .first();
+      .first<{ id: string; role: string }>();
+
+    const statements = [
+      existing
+        ? db.prepare("UPDATE user_roles SET role = ? WHERE user_id = ?").bind(body.role, body.userId)
+        : db
+            .prepare("INSERT INTO user_roles (id, user_id, role, created_at) VALUES (?, ?, ?, ?)")
+            .bind(id, body.userId, body.role, timestamp),
+    ];
+
+    // Category assignments only mean something for moderators
+    if (body.role !== UserRole.Moderator) {
+      statements.push(db.prepare("DELETE FROM forum_category_moderators WHERE user_id = ?").bind(body.userId));
+    }
+
+    statements.push(
+      auditLogStatement(db, {
+        actorId: (c.get("user") as AuthPayload).userId,
+        action: AuditAction.RoleAssign,
+        targetType: AuditTargetType.User,
+        targetId: body.userId,
+        before: { role: existing ? normalizeUserRole(existing.role) : DEFAULT_ROLE },
+        after: { role: body.role },
+      })
+    );
+    await db.batch(statements);
 
-    if (existing) {
-      // Update existing role
-      await c.env.platform_db
-        .prepare("UPDATE user_roles SET role = ? WHERE user_id = ?")
-        .bind(body.role, body.userId)
-        .run();
-    } else {
-      // Insert new role record
-      await c.env.platform_db
-        .prepare("INSERT INTO user_roles (id, user_id, role, created_at) VALUES (?, ?, ?, ?)")
-        .bind(id, body.userId, body.role, timestamp)
-        .run();
-    }
+    // Sign the user out everywhere so no access token keeps the old role
+    await revokeUserSessions(db, body.userId);
 
     return c.json({
       userId: body.userId,
@@ -535,10 +862,192 @@ app.get("/api/v1/users/:id/role", async (c) => {
   }
 });
 
+// ============================================================================
+// Admin Audit Log API (/api/v1/admin/audit-log)
+// ============================================================================
+
+/**
+ * A condition a batched statement only applies under, for batches whose later statements
+ * depend on an earlier conditional write
+ */
+interface BatchCondition {
+  sql: string;
+  params: unknown[];
+}
+
+interface AuditLogEntry {
+  actorId: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** Ledger row written earlier in the batch whose points_awarded is added to after */
+  pointsLogId?: string;
+}
+
+/**
+ * Build the admin audit log insert for a privileged action
+ * before/after hold only the fields the action changed. Run it in the same db.batch as the
+ * change it records, so the change and its audit row commit or fail together.
+ * @param condition - When given, nothing is written unless it holds
+ */
+function auditLogStatement(db: D1Database, entry: AuditLogEntry, condition?: BatchCondition): D1PreparedStatement {
+  return db
+    .prepare(`
+      INSERT INTO admin_audit_log (id, actor_id, action, target_type, target_id, before_json, after_json, created_at)
+      SELECT ?, ?, ?, ?, ?, ?, ${
+        entry.pointsLogId
+          ? "json_set(?, '$.points_awarded', COALESCE((SELECT points_awarded FROM point_actions_log WHERE id = ?), 0))"
+          : "?"
+      }, ?
+      WHERE ${condition ? condition.sql : "1"}
+    `)
+    .bind(
+      generateAuditLogId(),
+      entry.actorId,
+      entry.action,
+      entry.targetType,
+      entry.targetId,
+      entry.before ? JSON.stringify(entry.before) : null,
+      entry.after ? JSON.stringify(entry.after) : null,
+      ...(entry.pointsLogId ? [entry.pointsLogId] : []),
+      getTimestamp(),
+      ...(condition ? condition.params : [])
+    );
+}
+
+/**
+ * Append a privileged action to the admin audit log after it was applied
+ * Failures are logged so they never break the action that was already applied
+ */
+async function recordAuditLog(db: D1Database, entry: AuditLogEntry): Promise<void> {
+  try {
+    await auditLogStatement(db, entry).run();
+  } catch (err) {
+    console.error("Error recording audit log entry:", err);
+  }
+}
+
+/**
+ * GET /api/v1/admin/audit-log - Browse the admin audit log, newest first (admin only)
+ * Query params:
+ *   - actor_id: (optional) Who performed the action
+ *   - action: (optional) e.g. role.assign, feature.update
+ *   - target_type: (optional) user, feature_flag, blog, challenge_submission or forum_thread
+ *   - target_id: (optional) ID of the changed record
+ *   - from / to: (optional) Unix timestamp range, inclusive
+ *   - limit: (optional) Entries per page (default 50, max 100)
+ *   - offset: (optional) Pagination offset (default 0)
+ */
+app.get("/api/v1/admin/audit-log", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const actorId = c.req.query("actor_id");
+  const action = c.req.query("action");
+  const targetType = c.req.query("target_type");
+  const targetId = c.req.query("target_id");
+  const from = c.req.query("from");
+  const to = c.req.query("to");
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), MAX_AUDIT_LOG_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  if (action && !isAuditAction(action)) {
+    return c.json({ error: "Invalid action" }, 400);
+  }
+
+  if (targetType && !isAuditTargetType(targetType)) {
+    return c.json({ error: "Invalid target_type" }, 400);
+  }
+
+  if ((from && !/^\d+$/.test(from)) || (to && !/^\d+$/.test(to))) {
+    return c.json({ error: "from and to must be Unix timestamps" }, 400);
+  }
+
+  try {
+    const conditions: string[] = [];
+    const bindings: (string | number)[] = [];
+    if (actorId) {
+      conditions.push("l.actor_id = ?");
+      bindings.push(actorId);
+    }
+    if (action) {
+      conditions.push("l.action = ?");
+      bindings.push(action);
+    }
+    if (targetType) {
+      conditions.push("l.target_type = ?");
+      bindings.push(targetType);
+    }
+    if (targetId) {
+      conditions.push("l.target_id = ?");
+      bindings.push(targetId);
+    }
+    if (from) {
+      conditions.push("l.created_at >= ?");
+      bindings.push(parseInt(from));
+    }
+    if (to) {
+      conditions.push("l.created_at <= ?");
+      bindings.push(parseInt(to));
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const countResult = await db
+      .prepare(`SELECT COUNT(*) as count FROM admin_audit_log l ${whereClause}`)
+      .bind(...bindings)
+      .first<{ count: number }>();
+
+    const result = await db
+      .prepare(`
+        SELECT l.*, u.name as actor_name
+        FROM admin_audit_log l
+        LEFT JOIN users u ON l.actor_id = u.id
+        ${whereClause}
+        ORDER BY l.created_at DESC, l.id DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(...bindings, limit, offset)
+      .all<Record<string, unknown>>();
+
+    return c.json<GetAuditLogResponse>({
+      entries: (result.results || []).map(normalizeAuditLogEntry),
+      total: countResult?.count || 0,
+    });
+  } catch (err) {
+    console.error("Error fetching audit log:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // ============================================================================
 // Feature Flags API (/api/v1/admin/features and /api/v1/features/enabled)
 // ============================================================================
 
+/**
+ * Validate the targeting fields of a feature flag create or update body
+ * @returns An error message, or null when the provided fields are valid
+ */
+function validateFeatureTargeting(body: Partial<FeatureTargeting>): string | null {
+  if (body.audience !== undefined && !isFeatureAudience(body.audience)) {
+    return `audience must be one of: ${Object.values(FeatureAudience).join(", ")}`;
+  }
+  if (
+    body.target_user_ids !== undefined &&
+    (!Array.isArray(body.target_user_ids) ||
+      body.target_user_ids.length > MAX_FEATURE_TARGET_USERS ||
+      body.target_user_ids.some((id) => typeof id !== "string" || !id.trim()))
+  ) {
+    return `target_user_ids must be a list of at most ${MAX_FEATURE_TARGET_USERS} user IDs`;
+  }
+  if (
+    body.rollout_percentage !== undefined &&
+    (!Number.isInteger(body.rollout_percentage) || body.rollout_percentage < 0 || body.rollout_percentage > 100)
+  ) {
+    return "rollout_percentage must be a whole number from 0 to 100";
+  }
+  return null;
+}
+
 /**
  * GET /api/v1/admin/features - List all feature flags (admin only)
  */
@@ -577,6 +1086,11 @@ app.post("/api/v1/admin/features", requireAuth, requireAdmin, async (c) => {
       );
     }
 
+    const targetingError = validateFeatureTargeting(body);
+    if (targetingError) {
+      return c.json({ error: targetingError }, 400);
+    }
+
     // Check if feature_key already exists
     const existing = await c.env.platform_db
       .prepare("SELECT id FROM feature_flags WHERE feature_key = ?")
@@ -590,10 +1104,15 @@ app.post("/api/v1/admin/features", requireAuth, requireAdmin, async (c) => {
     const id = generateId();
     const timestamp = getTimestamp();
     const enabled = body.enabled !== undefined ? (body.enabled ? 1 : 0) : 0;
+    const targeting: FeatureTargeting = {
+      audience: body.audience ?? FeatureAudience.Everyone,
+      target_user_ids: (body.target_user_ids ?? []).map((userId) => userId.trim()),
+      rollout_percentage: body.rollout_percentage ?? 100,
+    };
 
     await c.env.platform_db
       .prepare(
-        "INSERT INTO feature_flags (id, feature_key, display_name, description, enabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+        "INSERT INTO feature_flags (id, feature_key, display_name, description, enabled, audience, target_user_ids, rollout_percentage, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
       )
       .bind(
         id,
@@ -601,10 +1120,23 @@ app.post("/api/v1/admin/features", requireAuth, requireAdmin, async (c) => {
         body.display_name,
         body.description || null,
         enabled,
+        targeting.audience,
+        JSON.stringify(targeting.target_user_ids),
+        targeting.rollout_percentage,
         timestamp,
         timestamp
       )
       .run();
+    clearFeatureFlagCache(c.env.platform_db);
+
+    await recordAuditLog(c.env.platform_db, {
+      actorId: (c.get("user") as AuthPayload).userId,
+      action: AuditAction.FeatureCreate,
+      targetType: AuditTargetType.FeatureFlag,
+      targetId: id,
+      before: null,
+      after: { feature_key: body.feature_key, display_name: body.display_name, enabled: enabled === 1, ...targeting },
+    });
 
     // Fetch the created feature
     const created = await c.env.platform_db
@@ -620,35 +1152,71 @@ app.post("/api/v1/admin/features", requireAuth, requireAdmin, async (c) => {
 });
 
 /**
- * PATCH /api/v1/admin/features/:id - Toggle feature flag (admin only)
+ * PATCH /api/v1/admin/features/:id - Toggle a feature flag or edit its targeting (admin only)
+ * Body: enabled, audience, target_user_ids, rollout_percentage (all optional, at least one)
  */
 app.patch("/api/v1/admin/features/:id", requireAuth, requireAdmin, async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json<FeatureFlagUpdateRequest>();
 
-    // Validation: Required field
-    if (body.enabled === undefined) {
-      return c.json({ error: "enabled field is required" }, 400);
+    // Validation: At least one field
+    if (
+      body.enabled === undefined &&
+      body.audience === undefined &&
+      body.target_user_ids === undefined &&
+      body.rollout_percentage === undefined
+    ) {
+      return c.json({ error: "enabled, audience, target_user_ids or rollout_percentage is required" }, 400);
+    }
+
+    const targetingError = validateFeatureTargeting(body);
+    if (targetingError) {
+      return c.json({ error: targetingError }, 400);
     }
 
     // Check if feature exists
     const existing = await c.env.platform_db
       .prepare("SELECT * FROM feature_flags WHERE id = ?")
       .bind(id)
-      .first();
+      .first<Record<string, unknown>>();
 
     if (!existing) {
       return c.json({ error: "Feature flag not found" }, 404);
     }
 
     const timestamp = getTimestamp();
-    const enabled = body.enabled ? 1 : 0;
+    const enabled = body.enabled !== undefined ? body.enabled : Boolean(existing.enabled);
+    const previous = normalizeFeatureTargeting(existing);
+    const targeting: FeatureTargeting = {
+      audience: body.audience ?? previous.audience,
+      target_user_ids: body.target_user_ids?.map((userId) => userId.trim()) ?? previous.target_user_ids,
+      rollout_percentage: body.rollout_percentage ?? previous.rollout_percentage,
+    };
 
-    await c.env.platform_db
-      .prepare("UPDATE feature_flags SET enabled = ?, updated_at = ? WHERE id = ?")
-      .bind(enabled, timestamp, id)
-      .run();
+    await c.env.platform_db.batch([
+      c.env.platform_db
+        .prepare(
+          "UPDATE feature_flags SET enabled = ?, audience = ?, target_user_ids = ?, rollout_percentage = ?, updated_at = ? WHERE id = ?"
+        )
+        .bind(
+          enabled ? 1 : 0,
+          targeting.audience,
+          JSON.stringify(targeting.target_user_ids),
+          targeting.rollout_percentage,
+          timestamp,
+          id
+        ),
+      auditLogStatement(c.env.platform_db, {
+        actorId: (c.get("user") as AuthPayload).userId,
+        action: AuditAction.FeatureUpdate,
+        targetType: AuditTargetType.FeatureFlag,
+        targetId: id,
+        before: { feature_key: existing.feature_key, enabled: Boolean(existing.enabled), ...previous },
+        after: { feature_key: existing.feature_key, enabled, ...targeting },
+      }),
+    ]);
+    clearFeatureFlagCache(c.env.platform_db);
 
     // Fetch the updated feature
     const updated = await c.env.platform_db
@@ -672,9 +1240,9 @@ app.delete("/api/v1/admin/features/:id", requireAuth, requireAdmin, async (c) =>
 
     // Check if feature exists
     const existing = await c.env.platform_db
-      .prepare("SELECT id FROM feature_flags WHERE id = ?")
+      .prepare("SELECT * FROM feature_flags WHERE id = ?")
       .bind(id)
-      .first();
+      .first<Record<string, unknown>>();
 
     if (!existing) {
       return c.json({ error: "Feature flag not found" }, 404);
@@ -684,6 +1252,20 @@ app.delete("/api/v1/admin/features/:id", requireAuth, requireAdmin, async (c) =>
       .prepare("DELETE FROM feature_flags WHERE id = ?")
       .bind(id)
       .run();
+    clearFeatureFlagCache(c.env.platform_db);
+
+    await recordAuditLog(c.env.platform_db, {
+      actorId: (c.get("user") as AuthPayload).userId,
+      action: AuditAction.FeatureDelete,
+      targetType: AuditTargetType.FeatureFlag,
+      targetId: id,
+      before: {
+        feature_key: existing.feature_key,
+        display_name: existing.display_name,
+        enabled: Boolean(existing.enabled),
+      },
+      after: null,
+    });
 
     return c.body(null, 204);
   } catch (err) {
@@ -694,18 +1276,24 @@ app.delete("/api/v1/admin/features/:id", requireAuth, requireAdmin, async (c) =>
 
 /**
  * GET /api/v1/features/enabled - Get enabled features (public endpoint)
- * Returns a map of feature keys to boolean values
+ * Returns a map of feature keys to boolean values, evaluated for the caller: anonymous
+ * requests only get flags whose audience is everyone
  */
 app.get("/api/v1/features/enabled", async (c) => {
   try {
+    const user = c.get("user") as AuthPayload | undefined;
     const result = await c.env.platform_db
-      .prepare("SELECT feature_key FROM feature_flags WHERE enabled = 1")
+      .prepare(
+        "SELECT feature_key, audience, target_user_ids, rollout_percentage FROM feature_flags WHERE enabled = 1"
+      )
       .all();
 
     const enabledFeatures: EnabledFeatures = {};
-    for (const row of result.results) {
-      const featureKey = (row as { feature_key: string }).feature_key;
-      enabledFeatures[featureKey] = true;
+    for (const row of result.results as Record<string, unknown>[]) {
+      const featureKey = row.feature_key as string;
+      if (isFeatureTargeted(featureKey, normalizeFeatureTargeting(row), user ?? null)) {
+        enabledFeatures[featureKey] = true;
+      }
     }
 
     return c.json(enabledFeatures);
@@ -747,6 +1335,80 @@ async function getUserRank(db: D1Database, userId: string): Promise<number | nul
   }
 }
 
+/**
+ * Build the statements that change a user's balance and record it in the points ledger
+ * The ledger row is written first, from the balance it replaces, and the balance is then
+ * copied from it, so run them in one db.batch (one transaction) and point_actions_log always
+ * explains a balance. The balance is clamped to [0, MAX_POINTS] and the logged amount is the
+ * change actually applied.
+ * @param db - Database instance
+ * @param entry - User, reason, referenced item and either a signed change or a new balance;
+ * logId names the ledger row for statements later in the batch that read it
+ * @param condition - When given, nothing is written unless it holds
+ * @returns The ledger INSERT, which returns points_awarded and balance_after, and the balance upsert
+ */
+function pointsTransactionStatements(
+  db: D1Database,
+  entry: {
+    userId: string;
+    actionType: PointsActionType;
+    referenceId: string;
+    logId?: string;
+  } & ({ delta: number } | { balance: number }),
+  condition?: BatchCondition
+): D1PreparedStatement[] {
+  const logId = entry.logId ?? generateId();
+  const target = "delta" in entry ? "previous + ?" : "?";
+
+  return [
+    db.prepare(`
+      INSERT INTO point_actions_log (id, user_id, action_type, reference_id, points_awarded, created_at, balance_after)
+      SELECT ?, ?, ?, ?, balance - previous, ?, balance
+      FROM (
+        SELECT previous, MIN(MAX(${target}, 0), ?) AS balance
+        FROM (SELECT COALESCE((SELECT points FROM user_points WHERE user_id = ?), 0) AS previous)
+      )
+      WHERE ${condition ? condition.sql : "1"}
+      RETURNING points_awarded, balance_after
+    `).bind(
+      logId,
+      entry.userId,
+      entry.actionType,
+      entry.referenceId,
+      getTimestamp(),
+      "delta" in entry ? entry.delta : entry.balance,
+      MAX_POINTS,
+      entry.userId,
+      ...(condition ? condition.params : [])
+    ),
+    db.prepare(`
+      INSERT INTO user_points (id, user_id, points, updated_at)
+      SELECT ?, user_id, balance_after, created_at FROM point_actions_log WHERE id = ?
+      ON CONFLICT(user_id) DO UPDATE SET points = excluded.points, updated_at = excluded.updated_at
+    `).bind(generateId(), logId),
+  ];
+}
+
+/**
+ * Apply a change to a user's balance and record it in the points ledger
+ * Every write to user_points goes through pointsTransactionStatements or the reward
+ * redemption batch. Errors are thrown; callers that must not fail catch them.
+ * @param db - Database instance
+ * @param entry - User, reason, referenced item and either a signed change or a new balance
+ * @returns Points actually added (negative when points were removed) and the balance written
+ */
+async function recordPointsTransaction(
+  db: D1Database,
+  entry: Parameters<typeof pointsTransactionStatements>[1]
+): Promise<{ applied: number; balance: number }> {
+  const [logged] = await db.batch<{ points_awarded: number; balance_after: number }>(
+    pointsTransactionStatements(db, entry)
+  );
+
+  const { points_awarded, balance_after } = logged.results[0];
+  return { applied: points_awarded, balance: balance_after };
+}
+
 /**
  * Award points to a user for a specific action with diminishing returns
  * Applies anti-spam logic based on action type and recent activity
@@ -760,7 +1422,7 @@ async function getUserRank(db: D1Database, userId: string): Promise<number | nul
 async function awardPointsForAction(
   db: D1Database,
   userId: string,
-  actionType: string,
+  actionType: PointsActionType,
   referenceId: string,
   basePoints: number
 ): Promise<number> {
@@ -785,83 +1447,112 @@ async function awardPointsForAction(
     // Calculate adjusted points based on diminishing returns thresholds
     let adjustedPoints = basePoints;
 
-    if (actionType === 'like_received') {
+    if (actionType === PointsActionType.LikeReceived) {
       if (recentActionCount >= LIKES_RECEIVED_REDUCED_POINTS_THRESHOLD) {
         adjustedPoints = 0; // Over threshold, no points
       } else if (recentActionCount >= LIKES_RECEIVED_FULL_POINTS_THRESHOLD) {
         adjustedPoints = Math.floor(basePoints * LIKES_RECEIVED_REDUCED_MULTIPLIER);
       }
-    } else if (actionType === 'comment_created') {
+    } else if (actionType === PointsActionType.CommentCreated) {
       if (recentActionCount >= COMMENTS_CREATED_REDUCED_POINTS_THRESHOLD) {
         adjustedPoints = 0; // Over threshold, no points
       } else if (recentActionCount >= COMMENTS_CREATED_FULL_POINTS_THRESHOLD) {
         adjustedPoints = Math.floor(basePoints * COMMENTS_CREATED_REDUCED_MULTIPLIER);
       }
-    } else if (actionType === 'blog_created') {
+    } else if (actionType === PointsActionType.BlogCreated) {
       if (recentActionCount >= BLOGS_CREATED_REDUCED_POINTS_THRESHOLD) {
         adjustedPoints = 0; // Over threshold, no points
       } else if (recentActionCount >= BLOGS_CREATED_FULL_POINTS_THRESHOLD) {
         adjustedPoints = Math.floor(basePoints * BLOGS_CREATED_REDUCED_MULTIPLIER);
       }
-    } else if (actionType === 'challenge_joined') {
+    } else if (actionType === PointsActionType.ThreadCreated) {
+      if (recentActionCount >= THREADS_CREATED_REDUCED_POINTS_THRESHOLD) {
+        adjustedPoints = 0; // Over threshold, no points
+      } else if (recentActionCount >= THREADS_CREATED_FULL_POINTS_THRESHOLD) {
+        adjustedPoints = Math.floor(basePoints * THREADS_CREATED_REDUCED_MULTIPLIER);
+      }
+    } else if (actionType === PointsActionType.ReplyCreated) {
+      if (recentActionCount >= REPLIES_CREATED_REDUCED_POINTS_THRESHOLD) {
+        adjustedPoints = 0; // Over threshold, no points
+      } else if (recentActionCount >= REPLIES_CREATED_FULL_POINTS_THRESHOLD) {
+        adjustedPoints = Math.floor(basePoints * REPLIES_CREATED_REDUCED_MULTIPLIER);
+      }
+    } else if (actionType === PointsActionType.UpvoteReceived) {
+      // Thread and reply upvotes share one bucket
+      if (recentActionCount >= UPVOTES_RECEIVED_REDUCED_POINTS_THRESHOLD) {
+        adjustedPoints = 0; // Over threshold, no points
+      } else if (recentActionCount >= UPVOTES_RECEIVED_FULL_POINTS_THRESHOLD) {
+        adjustedPoints = Math.floor(basePoints * UPVOTES_RECEIVED_REDUCED_MULTIPLIER);
+      }
+    } else if (actionType === PointsActionType.ChallengeJoined) {
       // Anti-abuse: max 5 challenge joins per day get points
       if (recentActionCount >= CHALLENGE_JOINS_FULL_POINTS_THRESHOLD) {
         adjustedPoints = 0;
       }
-    } else if (actionType === 'challenge_submitted') {
+    } else if (actionType === PointsActionType.ChallengeSubmitted) {
       // Anti-abuse: max 3 challenge submissions per day get points
       if (recentActionCount >= CHALLENGE_SUBMISSIONS_FULL_POINTS_THRESHOLD) {
         adjustedPoints = 0;
       }
     }
 
-    // If no points to award, still log the action but return 0
-    if (adjustedPoints === 0) {
-      const logId = generateId();
-      await db.prepare(`
-        INSERT INTO point_actions_log (id, user_id, action_type, reference_id, points_awarded, created_at)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `).bind(logId, userId, actionType, referenceId, 0, now).run();
-      return 0;
-    }
+    const { applied } = await recordPointsTransaction(db, {
+      userId,
+      actionType,
+      referenceId,
+      delta: adjustedPoints,
+    });
 
-    // Update user points (increment by adjusted amount)
-    // First, fetch current points
-    const pointsRecord = await db.prepare(`
-      SELECT id, points FROM user_points WHERE user_id = ?
-    `).bind(userId).first<{ id: string; points: number }>();
+    return applied;
+  } catch (err) {
+    console.error("Error awarding points for action:", err);
+    // Silently fail to avoid blocking user actions
+    return 0;
+  }
+}
 
-    const timestamp = getTimestamp();
+/**
+ * Take back points previously awarded for an action that has been undone
+ * (a withdrawn upvote, an unmarked solution). Only the amount actually awarded
+ * after diminishing returns is reversed, and a reference is never reversed twice.
+ * @param db - Database instance
+ * @param userId - User ID the points were awarded to
+ * @param actionType - Type of the original action (e.g., 'upvote_received')
+ * @param referenceId - ID the original action was logged against
+ * @returns Points removed (0 if nothing was outstanding)
+ */
+async function revokePointsForAction(
+  db: D1Database,
+  userId: string,
+  actionType: ReversiblePointsActionType,
+  referenceId: string
+): Promise<number> {
+  try {
+    const reversalType = POINTS_ACTION_REVERSALS[actionType];
 
-    if (pointsRecord) {
-      // Update existing points record
-      const newPoints = Math.min(
-        pointsRecord.points + adjustedPoints,
-        999999 // Cap at reasonable max
-      );
-      await db.prepare(`
-        UPDATE user_points SET points = ?, updated_at = ? WHERE user_id = ?
-      `).bind(newPoints, timestamp, userId).run();
-    } else {
-      // Create new points record
-      const id = generateId();
-      const newPoints = Math.min(adjustedPoints, 999999);
-      await db.prepare(`
-        INSERT INTO user_points (id, user_id, points, updated_at)
-        VALUES (?, ?, ?, ?)
-      `).bind(id, userId, newPoints, timestamp).run();
+    // Net points still held for this reference: awards minus earlier reversals
+    const outstandingResult = await db.prepare(`
+      SELECT COALESCE(SUM(points_awarded), 0) as total
+      FROM point_actions_log
+      WHERE user_id = ? AND reference_id = ? AND action_type IN (?, ?)
+    `).bind(userId, referenceId, actionType, reversalType).first<{ total: number }>();
+
+    const outstanding = outstandingResult?.total || 0;
+    if (outstanding <= 0) {
+      return 0;
     }
 
-    // Log the action
-    const logId = generateId();
-    await db.prepare(`
-      INSERT INTO point_actions_log (id, user_id, action_type, reference_id, points_awarded, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(logId, userId, actionType, referenceId, adjustedPoints, now).run();
+    // Logged under a separate type so reversals don't count toward diminishing returns
+    const { applied } = await recordPointsTransaction(db, {
+      userId,
+      actionType: reversalType,
+      referenceId,
+      delta: -outstanding,
+    });
 
-    return adjustedPoints;
+    return -applied;
   } catch (err) {
-    console.error("Error awarding points for action:", err);
+    console.error("Error revoking points for action:", err);
     // Silently fail to avoid blocking user actions
     return 0;
   }
@@ -893,20 +1584,17 @@ app.get("/api/v1/users/:id/points", async (c) => {
 
     // If no points record exists, initialize it
     if (!pointsRecord) {
-      const id = generateId();
-      const timestamp = getTimestamp();
-
-      await c.env.platform_db
-        .prepare("INSERT INTO user_points (id, user_id, points, updated_at) VALUES (?, ?, ?, ?)")
-        .bind(id, userId, INITIAL_POINTS, timestamp)
-        .run();
+      await recordPointsTransaction(c.env.platform_db, {
+        userId,
+        actionType: PointsActionType.SignupBonus,
+        referenceId: userId,
+        delta: INITIAL_POINTS,
+      });
 
-      pointsRecord = {
-        id,
-        user_id: userId,
-        points: INITIAL_POINTS,
-        updated_at: timestamp,
-      };
+      pointsRecord = await c.env.platform_db
+        .prepare("SELECT * FROM user_points WHERE user_id = ?")
+        .bind(userId)
+        .first<Record<string, unknown>>();
     }
 
     // Calculate rank
@@ -920,6 +1608,65 @@ app.get("/api/v1/users/:id/points", async (c) => {
   }
 });
 
+/**
+ * GET /api/v1/users/:id/points/history - List a user's points ledger, newest first
+ * Authenticated endpoint - users can view their own history, admins can view anyone's
+ * Query params:
+ * - action_type: (optional) Comma-separated action types to include
+ * - limit: (optional) Page size, default 20, max 100
+ * - offset: (optional) Pagination offset
+ */
+app.get("/api/v1/users/:id/points/history", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const userId = c.req.param("id");
+  const actionTypes = (c.req.query("action_type") || "").split(",").filter(Boolean);
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "20") || 20, 1), MAX_POINTS_HISTORY_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  if (auth.userId !== userId && auth.role !== UserRole.Admin) {
+    return c.json({ error: "Forbidden - You can only view your own points history" }, 403);
+  }
+
+  if (!actionTypes.every(isPointsActionType)) {
+    return c.json({ error: "Invalid action_type" }, 400);
+  }
+
+  try {
+    const conditions = ["user_id = ?"];
+    const bindings: (string | number)[] = [userId];
+    if (actionTypes.length > 0) {
+      conditions.push(`action_type IN (${actionTypes.map(() => "?").join(", ")})`);
+      bindings.push(...actionTypes);
+    }
+    const whereClause = `WHERE ${conditions.join(" AND ")}`;
+
+    const countResult = await db
+      .prepare(`SELECT COUNT(*) as count FROM point_actions_log ${whereClause}`)
+      .bind(...bindings)
+      .first<{ count: number }>();
+
+    // rowid breaks ties between entries written in the same second
+    const result = await db
+      .prepare(`
+        SELECT * FROM point_actions_log
+        ${whereClause}
+        ORDER BY created_at DESC, rowid DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(...bindings, limit, offset)
+      .all<Record<string, unknown>>();
+
+    return c.json<GetPointsHistoryResponse>({
+      transactions: (result.results || []).map(normalizePointsTransaction),
+      total: countResult?.count || 0,
+    });
+  } catch (err) {
+    console.error("Error fetching points history:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 /**
  * PATCH /api/v1/users/:id/points - Update user points (admin only)
  * Internal endpoint for awarding or adjusting points
@@ -949,28 +1696,27 @@ app.patch("/api/v1/users/:id/points", requireAuth, requireAdmin, async (c) => {
       return c.json({ error: "User not found" }, 404);
     }
 
-    const timestamp = getTimestamp();
-
-    // Get current points record
-    const pointsRecord = await c.env.platform_db
-      .prepare("SELECT id FROM user_points WHERE user_id = ?")
-      .bind(userId)
-      .first<{ id: string }>();
+    const actorId = (c.get("user") as AuthPayload).userId;
+    const logId = generateId();
 
-    if (pointsRecord) {
-      // Update existing record
-      await c.env.platform_db
-        .prepare("UPDATE user_points SET points = ?, updated_at = ? WHERE user_id = ?")
-        .bind(body.points, timestamp, userId)
-        .run();
-    } else {
-      // Create new record
-      const id = generateId();
-      await c.env.platform_db
-        .prepare("INSERT INTO user_points (id, user_id, points, updated_at) VALUES (?, ?, ?, ?)")
-        .bind(id, userId, body.points, timestamp)
-        .run();
-    }
+    // Set the balance in SQL; the ledger logs the difference from the balance it replaces and
+    // the audit row is copied from that ledger row in the same batch
+    await c.env.platform_db.batch([
+      ...pointsTransactionStatements(c.env.platform_db, {
+        userId,
+        actionType: PointsActionType.AdminAdjustment,
+        referenceId: actorId,
+        logId,
+        balance: body.points,
+      }),
+      c.env.platform_db
+        .prepare(`
+          INSERT INTO admin_audit_log (id, actor_id, action, target_type, target_id, before_json, after_json, created_at)
+          SELECT ?, ?, ?, ?, ?, json_object('points', balance_after - points_awarded), json_object('points', balance_after), created_at
+          FROM point_actions_log WHERE id = ?
+        `)
+        .bind(generateAuditLogId(), actorId, AuditAction.UserPointsUpdate, AuditTargetType.User, userId, logId),
+    ]);
 
     // Fetch updated record and calculate rank
     const updated = await c.env.platform_db
@@ -989,63 +1735,280 @@ app.patch("/api/v1/users/:id/points", requireAuth, requireAdmin, async (c) => {
 });
 
 /**
- * GET /api/v1/leaderboard - Get leaderboard with users sorted by points
- * Public endpoint - anyone can view the leaderboard
+ * Build the per-user point totals for a leaderboard window from point_actions_log
+ * Only points earned through activity in the source count, and users whose total
+ * is not positive are left off the board.
+ * @param source - Where the points were earned
+ * @param start - Inclusive window start, or null for no lower bound
+ * @param end - Exclusive window end, or null for no upper bound
  */
-app.get("/api/v1/leaderboard", async (c) => {
-  try {
-    // Get query parameters
-    const limit = c.req.query("limit") ? parseInt(c.req.query("limit") as string) : 50;
-    const offset = c.req.query("offset") ? parseInt(c.req.query("offset") as string) : 0;
+function buildLedgerTotalsQuery(
+  source: LeaderboardSource,
+  start: number | null,
+  end: number | null
+): { sql: string; params: unknown[] } {
+  const actionTypes = getLeaderboardSourceActions(source);
+  const conditions = [`action_type IN (${actionTypes.map(() => "?").join(", ")})`];
+  const params: unknown[] = [...actionTypes];
+
+  if (start !== null) {
+    conditions.push("created_at >= ?");
+    params.push(start);
+  }
+  if (end !== null) {
+    conditions.push("created_at < ?");
+    params.push(end);
+  }
 
-    // Validation: limit and offset must be valid numbers
-    if (!Number.isInteger(limit) || !Number.isInteger(offset) || limit < 1 || offset < 0) {
-      return c.json({ error: "limit must be a positive integer and offset must be >= 0" }, 400);
-    }
+  return {
+    sql: `
+      SELECT user_id, SUM(points_awarded) as points
+      FROM point_actions_log
+      WHERE ${conditions.join(" AND ")}
+      GROUP BY user_id
+      HAVING SUM(points_awarded) > 0
+    `,
+    params,
+  };
+}
 
-    // Cap limit at 100 to prevent excessive queries
-    const cappedLimit = Math.min(limit, 100);
+/**
+ * Rank users by the points they earned in a leaderboard window
+ */
+function rankLedgerTotals(
+  source: LeaderboardSource,
+  start: number | null,
+  end: number | null
+): { sql: string; params: unknown[] } {
+  const totals = buildLedgerTotalsQuery(source, start, end);
+  return {
+    sql: `
+      SELECT t.user_id, u.name, t.points, RANK() OVER (ORDER BY t.points DESC) as rank
+      FROM (${totals.sql}) t
+      JOIN users u ON t.user_id = u.id
+    `,
+    params: totals.params,
+  };
+}
 
-    // Get total count of users with points
-    const countResult = await c.env.platform_db
-      .prepare("SELECT COUNT(*) as count FROM user_points")
-      .first<{ count: number }>();
+/**
+ * Page through a ranked leaderboard and look up one user's entry in it
+ * @param rankedQuery - Query returning user_id, name, points and rank for every ranked user
+ * @param userId - User whose own entry to return, if any
+ */
+async function queryLeaderboard(
+  db: D1Database,
+  rankedQuery: { sql: string; params: unknown[] },
+  limit: number,
+  offset: number,
+  userId?: string
+): Promise<{ users: LeaderboardEntry[]; total: number; currentUser: LeaderboardEntry | null }> {
+  const countResult = await db
+    .prepare(`SELECT COUNT(*) as count FROM (${rankedQuery.sql})`)
+    .bind(...rankedQuery.params)
+    .first<{ count: number }>();
+
+  const leaderboardResult = await db
+    .prepare(`
+      SELECT user_id, name, points, rank
+      FROM (${rankedQuery.sql})
+      ORDER BY rank ASC, user_id ASC
+      LIMIT ? OFFSET ?
+    `)
+    .bind(...rankedQuery.params, limit, offset)
+    .all<LeaderboardEntry>();
+
+  const currentUser = userId
+    ? await db
+        .prepare(`SELECT user_id, name, points, rank FROM (${rankedQuery.sql}) WHERE user_id = ?`)
+        .bind(...rankedQuery.params, userId)
+        .first<LeaderboardEntry>()
+    : null;
+
+  const toEntry = (row: LeaderboardEntry): LeaderboardEntry => ({
+    user_id: row.user_id,
+    name: row.name,
+    points: row.points,
+    rank: row.rank,
+  });
 
-    const total = countResult?.count || 0;
+  return {
+    users: (leaderboardResult.results || []).map(toEntry),
+    total: countResult?.count || 0,
+    currentUser: currentUser ? toEntry(currentUser) : null,
+  };
+}
 
-    // Get leaderboard: users with points, joined with user names, ranked
-    const leaderboardResult = await c.env.platform_db
-      .prepare(`
-        SELECT
-          up.user_id,
-          u.name,
-          up.points,
-          RANK() OVER (ORDER BY up.points DESC) as rank
-        FROM user_points up
-        JOIN users u ON up.user_id = u.id
-        ORDER BY up.points DESC
-        LIMIT ? OFFSET ?
-      `)
-      .bind(cappedLimit, offset)
-      .all<{
-        user_id: string;
-        name: string;
-        points: number;
-        rank: number;
-      }>();
+/**
+ * Find the snapshot of a closed week or month board, if it has been taken
+ */
+function findLeaderboardSnapshot(
+  db: D1Database,
+  period: ClosingLeaderboardPeriod,
+  source: LeaderboardSource,
+  periodStart: number
+): Promise<{ id: string } | null> {
+  return db
+    .prepare("SELECT id FROM leaderboard_snapshots WHERE period = ? AND source = ? AND period_start = ?")
+    .bind(period, source, periodStart)
+    .first<{ id: string }>();
+}
 
-    const users = (leaderboardResult.results || []).map((row) => ({
-      user_id: row.user_id,
-      name: row.name,
-      points: row.points,
-      rank: row.rank,
-    }));
+/**
+ * Freeze a closed week or month board so its winners stay viewable
+ * Entries are written before the snapshot row, so readers never see a half-written board.
+ * If another run snapshots the same period first, this run's entries are discarded.
+ * @returns Whether this call took the snapshot
+ */
+async function createLeaderboardSnapshot(
+  db: D1Database,
+  period: ClosingLeaderboardPeriod,
+  source: LeaderboardSource,
+  bounds: { start: number; end: number }
+): Promise<boolean> {
+  if (await findLeaderboardSnapshot(db, period, source, bounds.start)) {
+    return false;
+  }
 
-    return c.json({
+  const snapshotId = generateLeaderboardSnapshotId();
+  const totals = buildLedgerTotalsQuery(source, bounds.start, bounds.end);
+
+  await db
+    .prepare(`
+      INSERT INTO leaderboard_snapshot_entries (snapshot_id, user_id, points, rank)
+      SELECT ?, user_id, points, RANK() OVER (ORDER BY points DESC)
+      FROM (${totals.sql})
+    `)
+    .bind(snapshotId, ...totals.params)
+    .run();
+
+  const inserted = await db
+    .prepare(`
+      INSERT OR IGNORE INTO leaderboard_snapshots (id, period, source, period_start, period_end, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    .bind(snapshotId, period, source, bounds.start, bounds.end, getTimestamp())
+    .run();
+
+  if ((inserted.meta?.changes || 0) === 0) {
+    await db
+      .prepare("DELETE FROM leaderboard_snapshot_entries WHERE snapshot_id = ?")
+      .bind(snapshotId)
+      .run();
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * GET /api/v1/leaderboard - Get leaderboard with users sorted by points
+ * Public endpoint - anyone can view the leaderboard
+ *
+ * Query params:
+ * - period: (optional) all (default), week, month or custom
+ * - source: (optional) all (default), forum, blogs or challenges
+ * - start: (optional) Unix timestamp. For week/month, the start of the period to show (default: the
+ *   current one). For custom, the start of the range (required)
+ * - end: (optional) Unix timestamp, the end of a custom range (required for custom)
+ * - limit: (optional) Default 50, max 100
+ * - offset: (optional) Default 0
+ *
+ * The all-time board across all sources ranks user_points balances. Every other board sums
+ * the points earned in its window from point_actions_log. Closed weeks and months are served
+ * from the snapshots taken by the leaderboard snapshot job, or from the ledger until it has run.
+ * Signed-in callers also get their own entry as current_user.
+ */
+app.get("/api/v1/leaderboard", async (c) => {
+  try {
+    // Get query parameters
+    const limit = c.req.query("limit") ? parseInt(c.req.query("limit") as string) : 50;
+    const offset = c.req.query("offset") ? parseInt(c.req.query("offset") as string) : 0;
+    const period = c.req.query("period") || LeaderboardPeriod.AllTime;
+    const source = c.req.query("source") || LeaderboardSource.All;
+    const start = c.req.query("start") ? parseInt(c.req.query("start") as string) : null;
+    const end = c.req.query("end") ? parseInt(c.req.query("end") as string) : null;
+
+    // Validation: limit and offset must be valid numbers
+    if (!Number.isInteger(limit) || !Number.isInteger(offset) || limit < 1 || offset < 0) {
+      return c.json({ error: "limit must be a positive integer and offset must be >= 0" }, 400);
+    }
+
+    if (!isLeaderboardPeriod(period)) {
+      return c.json({ error: "period must be one of: all, week, month, custom" }, 400);
+    }
+
+    if (!isLeaderboardSource(source)) {
+      return c.json({ error: "source must be one of: all, forum, blogs, challenges" }, 400);
+    }
+
+    if ((start !== null && (!Number.isInteger(start) || start < 0)) || (end !== null && (!Number.isInteger(end) || end < 0))) {
+      return c.json({ error: "start and end must be Unix timestamps" }, 400);
+    }
+
+    // Cap limit at 100 to prevent excessive queries
+    const cappedLimit = Math.min(limit, 100);
+    const db = c.env.platform_db;
+    const auth = c.get("user") as AuthPayload | undefined;
+
+    let window: LeaderboardWindow;
+    let rankedQuery: { sql: string; params: unknown[] };
+
+    if (period === LeaderboardPeriod.AllTime && source === LeaderboardSource.All) {
+      window = { period, source, start: null, end: null, is_final: false };
+      rankedQuery = {
+        sql: `
+          SELECT
+            up.user_id,
+            u.name,
+            up.points,
+            RANK() OVER (ORDER BY up.points DESC) as rank
+          FROM user_points up
+          JOIN users u ON up.user_id = u.id
+        `,
+        params: [],
+      };
+    } else if (period === LeaderboardPeriod.Week || period === LeaderboardPeriod.Month) {
+      const bounds = getLeaderboardPeriodBounds(period, start ?? getTimestamp());
+      if (start !== null && start !== bounds.start) {
+        return c.json({ error: "start must be the start of a week or month" }, 400);
+      }
+      window = { period, source, start: bounds.start, end: bounds.end, is_final: bounds.end <= getTimestamp() };
+
+      const snapshot = window.is_final ? await findLeaderboardSnapshot(db, period, source, bounds.start) : null;
+      if (snapshot) {
+        rankedQuery = {
+          sql: `
+            SELECT e.user_id, u.name, e.points, e.rank
+            FROM leaderboard_snapshot_entries e
+            JOIN users u ON e.user_id = u.id
+            WHERE e.snapshot_id = ?
+          `,
+          params: [snapshot.id],
+        };
+      } else {
+        rankedQuery = rankLedgerTotals(source, bounds.start, bounds.end);
+      }
+    } else if (period === LeaderboardPeriod.Custom) {
+      if (start === null || end === null || end <= start) {
+        return c.json({ error: "Custom leaderboards need a start before their end" }, 400);
+      }
+      window = { period, source, start, end, is_final: false };
+      rankedQuery = rankLedgerTotals(source, start, end);
+    } else {
+      window = { period, source, start: null, end: null, is_final: false };
+      rankedQuery = rankLedgerTotals(source, null, null);
+    }
+
+    const { users, total, currentUser } = await queryLeaderboard(db, rankedQuery, cappedLimit, offset, auth?.userId);
+
+    return c.json<GetLeaderboardResponse>({
       users,
       total,
       limit: cappedLimit,
       offset,
+      window,
+      current_user: currentUser,
     });
   } catch (err) {
     console.error("Error fetching leaderboard:", err);
@@ -1053,1187 +2016,5715 @@ app.get("/api/v1/leaderboard", async (c) => {
   }
 });
 
-// ============================================================================
-// CV Management API (/api/v1/users/:userId/cv)
-// ============================================================================
-
 /**
- * POST /api/v1/users/:userId/cv - Upload user CV to R2
- * Accepts PDF files only, max 5MB
+ * GET /api/v1/leaderboard/winners - Top users of each closed week or month, newest first
+ * Public endpoint
+ *
+ * Query params:
+ * - period: (optional) week (default) or month
+ * - source: (optional) all (default), forum, blogs or challenges
+ * - limit: (optional) Number of periods, default 12, max 52
+ *
+ * Periods are listed once the leaderboard snapshot job has frozen them.
  */
-app.post("/api/v1/users/:userId/cv", requireAuth, async (c) => {
+app.get("/api/v1/leaderboard/winners", async (c) => {
   try {
-    const userId = c.req.param("userId");
-    const formData = await c.req.formData();
-    const file = formData.get("file");
+    const period = c.req.query("period") || LeaderboardPeriod.Week;
+    const source = c.req.query("source") || LeaderboardSource.All;
+    const limit = Math.min(
+      Math.max(parseInt(c.req.query("limit") || String(DEFAULT_LEADERBOARD_WINNER_PERIODS)) || DEFAULT_LEADERBOARD_WINNER_PERIODS, 1),
+      MAX_LEADERBOARD_WINNER_PERIODS
+    );
 
-    // Validate file exists
-    if (!file || !(file instanceof File)) {
-      return c.json({ error: "No file provided" }, 400);
+    if (period !== LeaderboardPeriod.Week && period !== LeaderboardPeriod.Month) {
+      return c.json({ error: "period must be one of: week, month" }, 400);
     }
 
-    // Validate file type (PDF only)
-    if (file.type !== "application/pdf") {
-      return c.json({ error: "Only PDF files are allowed" }, 400);
+    if (!isLeaderboardSource(source)) {
+      return c.json({ error: "source must be one of: all, forum, blogs, challenges" }, 400);
     }
 
-    // Validate file size (max 5MB)
-    const MAX_FILE_SIZE = 5 * 1024 * 1024;
-    if (file.size > MAX_FILE_SIZE) {
-      return c.json({ error: "File size must be less than 5MB" }, 400);
-    }
+    const db = c.env.platform_db;
+    const snapshots = await db
+      .prepare(`
+        SELECT id, period_start, period_end
+        FROM leaderboard_snapshots
+        WHERE period = ? AND source = ?
+        ORDER BY period_start DESC
+        LIMIT ?
+      `)
+      .bind(period, source, limit)
+      .all<{ id: string; period_start: number; period_end: number }>();
 
-    // Generate unique filename: userId-timestamp.pdf
-    const timestamp = Date.now();
-    const filename = `${userId}-${timestamp}.pdf`;
+    const snapshotRows = snapshots.results || [];
+    const winnersBySnapshot = new Map<string, LeaderboardEntry[]>();
 
-    // Upload to R2
-    const arrayBuffer = await file.arrayBuffer();
-    await c.env.CV_BUCKET.put(filename, arrayBuffer, {
-      httpMetadata: {
-        contentType: "application/pdf",
-        contentDisposition: `attachment; filename="${file.name}"`,
-      },
-      customMetadata: {
-        uploadedBy: userId,
-        originalName: file.name,
-      },
-    });
+    if (snapshotRows.length > 0) {
+      const entries = await db
+        .prepare(`
+          SELECT e.snapshot_id, e.user_id, u.name, e.points, e.rank
+          FROM leaderboard_snapshot_entries e
+          JOIN users u ON e.user_id = u.id
+          WHERE e.snapshot_id IN (${snapshotRows.map(() => "?").join(", ")}) AND e.rank <= ?
+          ORDER BY e.rank ASC, e.user_id ASC
+        `)
+        .bind(...snapshotRows.map((row) => row.id), LEADERBOARD_WINNERS_PER_PERIOD)
+        .all<LeaderboardEntry & { snapshot_id: string }>();
 
-    // Update user record with CV info
-    const cvUploadedAt = getTimestamp();
-    await c.env.platform_db
-      .prepare(
-        `UPDATE users SET cv_url = ?, cv_filename = ?, cv_uploaded_at = ?, updated_at = ?
-         WHERE id = ?`
-      )
-      .bind(filename, file.name, cvUploadedAt, cvUploadedAt, userId)
-      .run();
+      for (const entry of entries.results || []) {
+        const winners = winnersBySnapshot.get(entry.snapshot_id) || [];
+        winners.push({ user_id: entry.user_id, name: entry.name, points: entry.points, rank: entry.rank });
+        winnersBySnapshot.set(entry.snapshot_id, winners);
+      }
+    }
 
-    // Return success with file info
-    return c.json({
-      success: true,
-      filename: file.name,
-      originalFilename: file.name,
-      uploadedAt: cvUploadedAt,
-      message: "CV uploaded successfully",
-    }, 201);
-  } catch (error) {
-    console.error("CV upload error:", error);
-    return c.json({ error: "Failed to upload CV" }, 500);
+    return c.json<GetLeaderboardWinnersResponse>({
+      period,
+      source,
+      periods: snapshotRows.map((row) => ({
+        start: row.period_start,
+        end: row.period_end,
+        winners: winnersBySnapshot.get(row.id) || [],
+      })),
+    });
+  } catch (err) {
+    console.error("Error fetching leaderboard winners:", err);
+    return c.json({ error: "Failed to fetch leaderboard winners" }, 500);
   }
 });
 
+// ============================================================================
+// Badges API (/api/v1/users/:id/badges)
+// ============================================================================
+
 /**
- * GET /api/v1/users/:userId/cv - Get user CV metadata
- * Returns CV metadata including filename and upload timestamp
+ * Measure a user against one badge metric
+ * @param db - Database instance
+ * @param userId - User to measure
+ * @param metric - What to measure
+ * @returns The user's current value for the metric
  */
-app.get("/api/v1/users/:userId/cv", requireAuth, async (c) => {
-  try {
-    const userId = c.req.param("userId");
-
-    const user = await c.env.platform_db
-      .prepare(`SELECT cv_url, cv_filename, cv_uploaded_at FROM users WHERE id = ?`)
-      .bind(userId)
-      .first<{ cv_url: string | null; cv_filename: string | null; cv_uploaded_at: number | null }>();
+async function measureBadgeMetric(db: D1Database, userId: string, metric: BadgeMetric): Promise<number> {
+  const count = async (query: string) => {
+    const row = await db.prepare(query).bind(userId).first<{ count: number }>();
+    return row?.count || 0;
+  };
 
-    if (!user || !user.cv_url) {
-      return c.json({ error: "No CV found" }, 404);
+  switch (metric) {
+    case BadgeMetric.AcceptedSolutions:
+      // Answers to one's own threads don't count, matching the solution points
+      return count(`
+        SELECT COUNT(*) as count
+        FROM forum_replies r
+        JOIN forum_threads t ON r.thread_id = t.id
+        WHERE r.user_id = ? AND r.is_solution = 1 AND t.user_id != r.user_id
+      `);
+    case BadgeMetric.CompletedMentorships:
+      return count("SELECT COUNT(*) as count FROM matches WHERE mentor_id = ? AND status = 'completed'");
+    case BadgeMetric.FeaturedBlogs:
+      return count("SELECT COUNT(*) as count FROM blogs WHERE user_id = ? AND featured = 1");
+    case BadgeMetric.ApprovedChallengeSubmissions:
+      return count("SELECT COUNT(*) as count FROM challenge_submissions WHERE user_id = ? AND status = 'approved'");
+    case BadgeMetric.ActivityStreakDays: {
+      // Any activity that earns points counts for the day, even once diminishing returns reach zero
+      const activityTypes = getLeaderboardSourceActions(LeaderboardSource.All);
+      const result = await db
+        .prepare(`
+          SELECT DISTINCT created_at / 86400 as day
+          FROM point_actions_log
+          WHERE user_id = ? AND points_awarded >= 0 AND action_type IN (${activityTypes.map(() => "?").join(", ")})
+          ORDER BY day ASC
+        `)
+        .bind(userId, ...activityTypes)
+        .all<{ day: number }>();
+
+      let longest = 0;
+      let current = 0;
+      let previousDay: number | null = null;
+      for (const { day } of result.results || []) {
+        current = previousDay !== null && day === previousDay + 1 ? current + 1 : 1;
+        longest = Math.max(longest, current);
+        previousDay = day;
+      }
+      return longest;
     }
-
-    return c.json({
-      cv_filename: user.cv_filename,
-      cv_uploaded_at: user.cv_uploaded_at,
-    });
-  } catch (error) {
-    console.error("CV fetch error:", error);
-    return c.json({ error: "Failed to fetch CV" }, 500);
   }
-});
+}
 
 /**
- * DELETE /api/v1/users/:userId/cv - Delete user CV
+ * Grant every catalog badge a user now qualifies for
+ * Idempotent: badges the user holds, or had revoked by an admin, are skipped, and each
+ * metric is measured at most once. Errors are logged and never fail the calling request.
+ * @param db - Database instance
+ * @param userId - User to evaluate
+ * @returns Badges granted by this call
  */
-app.delete("/api/v1/users/:userId/cv", requireAuth, async (c) => {
+async function evaluateBadges(db: D1Database, userId: string): Promise<BadgeId[]> {
   try {
-    const userId = c.req.param("userId");
-
-    // Get current CV filename
-    const user = await c.env.platform_db
-      .prepare(`SELECT cv_url FROM users WHERE id = ?`)
+    const existing = await db
+      .prepare("SELECT badge_id FROM user_badges WHERE user_id = ?")
       .bind(userId)
-      .first<{ cv_url: string | null }>();
+      .all<{ badge_id: string }>();
+    const held = new Set((existing.results || []).map((row) => row.badge_id));
 
-    if (!user || !user.cv_url) {
-      return c.json({ error: "No CV found" }, 404);
+    const measured = new Map<BadgeMetric, number>();
+    const granted: BadgeId[] = [];
+
+    for (const badge of BADGE_CATALOG) {
+      if (held.has(badge.id)) {
+        continue;
+      }
+
+      if (!measured.has(badge.metric)) {
+        measured.set(badge.metric, await measureBadgeMetric(db, userId, badge.metric));
+      }
+      if ((measured.get(badge.metric) || 0) < badge.threshold) {
+        continue;
+      }
+
+      const result = await db
+        .prepare("INSERT OR IGNORE INTO user_badges (user_id, badge_id, granted_at, granted_by) VALUES (?, ?, ?, NULL)")
+        .bind(userId, badge.id, getTimestamp())
+        .run();
+      if ((result.meta?.changes || 0) > 0) {
+        granted.push(badge.id);
+      }
     }
 
-    // Delete from R2
-    await c.env.CV_BUCKET.delete(user.cv_url);
+    return granted;
+  } catch (err) {
+    console.error("Error evaluating badges:", err);
+    return [];
+  }
+}
 
-    // Clear CV fields from user record
-    await c.env.platform_db
-      .prepare(
-        `UPDATE users SET cv_url = NULL, cv_filename = NULL, cv_uploaded_at = NULL, updated_at = ?
-         WHERE id = ?`
-      )
-      .bind(getTimestamp(), userId)
-      .run();
+/**
+ * Look up the badges held by several users at once, for author names in listings
+ * @param db - Database instance
+ * @param userIds - Users to look up (duplicates are fine)
+ * @returns Badge IDs per user, in the order they were granted
+ */
+async function getBadgesForUsers(db: D1Database, userIds: string[]): Promise<Map<string, BadgeId[]>> {
+  const badges = new Map<string, BadgeId[]>();
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return badges;
+  }
 
-    return c.json({ success: true, message: "CV deleted successfully" });
-  } catch (error) {
-    console.error("CV deletion error:", error);
-    return c.json({ error: "Failed to delete CV" }, 500);
+  const result = await db
+    .prepare(`
+      SELECT user_id, badge_id
+      FROM user_badges
+      WHERE user_id IN (${uniqueIds.map(() => "?").join(", ")}) AND revoked_at IS NULL
+      ORDER BY granted_at ASC
+    `)
+    .bind(...uniqueIds)
+    .all<{ user_id: string; badge_id: string }>();
+
+  for (const row of result.results || []) {
+    if (!isBadgeId(row.badge_id)) {
+      continue;
+    }
+    badges.set(row.user_id, [...(badges.get(row.user_id) || []), row.badge_id]);
   }
-});
 
-// ============================================================================
-// Mentor Profile Management API (/api/v1/mentors/profiles)
-// ============================================================================
+  return badges;
+}
 
 /**
- * POST /api/v1/mentors/profiles - Create mentor profile
+ * GET /api/v1/users/:id/badges - Get the badges a user holds
+ * Public endpoint. When users view their own badges they are evaluated first, which picks up
+ * badges no single event grants, such as activity streaks.
  */
-app.post("/api/v1/mentors/profiles", requireAuth, async (c) => {
+app.get("/api/v1/users/:id/badges", async (c) => {
   try {
-    const body = await c.req.json<CreateMentorProfileRequest>();
-
-    // Get authenticated user
-    const authUser = c.get('user') as AuthPayload;
+    const userId = c.req.param("id");
+    const auth = c.get("user") as AuthPayload | undefined;
 
-    // Validation: Required fields
-    if (!body.user_id || !body.nick_name || !body.bio ||
-        body.mentoring_levels === undefined || body.payment_types === undefined) {
-      return c.json({ error: "user_id, nick_name, bio, mentoring_levels, and payment_types are required" }, 400);
+    if (auth?.userId === userId) {
+      await evaluateBadges(c.env.platform_db, userId);
     }
 
-    // Authorization: Users can only create profiles for themselves
-    if (body.user_id !== authUser.userId) {
-      return c.json({ error: "Cannot create mentor profile for another user" }, 403);
-    }
+    const result = await c.env.platform_db
+      .prepare(`
+        SELECT user_id, badge_id, granted_at, granted_by
+        FROM user_badges
+        WHERE user_id = ? AND revoked_at IS NULL
+        ORDER BY granted_at ASC
+      `)
+      .bind(userId)
+      .all();
 
-    // Validation: Bit flags must be non-negative integers
-    if (body.mentoring_levels < 0 || body.payment_types < 0) {
-      return c.json({ error: "Bit flags must be non-negative integers" }, 400);
-    }
+    const badges = (result.results || [])
+      .map(normalizeUserBadge)
+      .filter((badge) => isBadgeId(badge.badge_id));
 
-    // Validation: LinkedIn URL format if provided
-    if (body.linkedin_url && !isValidLinkedInUrl(body.linkedin_url)) {
-      return c.json({ error: "Invalid LinkedIn URL format. Must be https://www.linkedin.com/in/username or https://linkedin.com/in/username" }, 400);
-    }
+    return c.json<GetUserBadgesResponse>({ badges });
+  } catch (err) {
+    console.error("Error fetching user badges:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Set default values for expertise fields if not provided
-    const expertise_domains = body.expertise_domains !== undefined ? body.expertise_domains : 0;
-    const expertise_topics_preset = body.expertise_topics_preset !== undefined ? body.expertise_topics_preset : 0;
+/**
+ * POST /api/v1/users/:id/badges - Award a badge manually (admin only)
+ * Awarding a badge the user already holds is a no-op; a revoked badge is restored.
+ */
+app.post("/api/v1/users/:id/badges", requireAuth, requireAdmin, async (c) => {
+  try {
+    const userId = c.req.param("id");
+    const actorId = (c.get("user") as AuthPayload).userId;
+    const body = await c.req.json<AwardBadgeRequest>();
 
-    // Validation: Expertise bit flags must be non-negative if provided
-    if (expertise_domains < 0 || expertise_topics_preset < 0) {
-      return c.json({ error: "Expertise bit flags must be non-negative integers" }, 400);
+    if (!isBadgeId(body.badge_id)) {
+      return c.json({ error: "Invalid badge_id" }, 400);
     }
 
-    // Check if user exists
-    const userExists = await c.env.platform_db
+    const user = await c.env.platform_db
       .prepare("SELECT id FROM users WHERE id = ?")
-      .bind(body.user_id)
+      .bind(userId)
       .first();
 
-    if (!userExists) {
-      return c.json({ error: "User not found" }, 400);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
     }
 
-    // Check if nickname already exists
-    const nicknameExists = await c.env.platform_db
-      .prepare("SELECT id FROM mentor_profiles WHERE nick_name = ?")
-      .bind(body.nick_name)
-      .first();
+    const existing = await c.env.platform_db
+      .prepare("SELECT user_id, badge_id, granted_at, granted_by, revoked_at FROM user_badges WHERE user_id = ? AND badge_id = ?")
+      .bind(userId, body.badge_id)
+      .first<Record<string, unknown>>();
 
-    if (nicknameExists) {
-      return c.json({ error: "Mentor with this nickname already exists" }, 409);
+    if (existing && existing.revoked_at === null) {
+      return c.json<UserBadge>(normalizeUserBadge(existing));
     }
 
-    // Check if user already has a mentor profile
-    const profileExists = await c.env.platform_db
-      .prepare("SELECT id FROM mentor_profiles WHERE user_id = ?")
-      .bind(body.user_id)
-      .first();
-
-    if (profileExists) {
-      return c.json({ error: "User already has a mentor profile" }, 409);
+    const timestamp = getTimestamp();
+    if (existing) {
+      await c.env.platform_db
+        .prepare(`
+          UPDATE user_badges
+          SET granted_at = ?, granted_by = ?, revoked_at = NULL, revoked_by = NULL
+          WHERE user_id = ? AND badge_id = ?
+        `)
+        .bind(timestamp, actorId, userId, body.badge_id)
+        .run();
+    } else {
+      await c.env.platform_db
+        .prepare("INSERT INTO user_badges (user_id, badge_id, granted_at, granted_by) VALUES (?, ?, ?, ?)")
+        .bind(userId, body.badge_id, timestamp, actorId)
+        .run();
     }
 
-    // Create mentor profile
-    const id = generateId();
-    const timestamp = getTimestamp();
+    await recordAuditLog(c.env.platform_db, {
+      actorId,
+      action: AuditAction.BadgeAward,
+      targetType: AuditTargetType.User,
+      targetId: userId,
+      before: null,
+      after: { badge_id: body.badge_id },
+    });
 
-    await c.env.platform_db
-      .prepare(
-        `INSERT INTO mentor_profiles (
-          id, user_id, nick_name, bio, mentoring_levels, availability,
-          hourly_rate, payment_types, expertise_domains, expertise_topics_preset,
-          allow_reviews, allow_recording, linkedin_url, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        id,
-        body.user_id,
-        body.nick_name,
-        body.bio,
-        body.mentoring_levels,
-        body.availability !== undefined ? body.availability : null,
-        body.hourly_rate !== undefined ? body.hourly_rate : null,
-        body.payment_types,
-        expertise_domains,
-        expertise_topics_preset,
-        body.allow_reviews !== undefined ? body.allow_reviews : true,
-        body.allow_recording !== undefined ? body.allow_recording : true,
-        body.linkedin_url !== undefined ? body.linkedin_url : null,
-        timestamp,
-        timestamp
-      )
+    return c.json<UserBadge>(
+      { user_id: userId, badge_id: body.badge_id, granted_at: timestamp, granted_by: actorId },
+      201
+    );
+  } catch (err) {
+    console.error("Error awarding badge:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/users/:id/badges/:badgeId - Revoke a badge (admin only)
+ * The row is kept as revoked so the evaluator doesn't grant the badge again.
+ */
+app.delete("/api/v1/users/:id/badges/:badgeId", requireAuth, requireAdmin, async (c) => {
+  try {
+    const userId = c.req.param("id");
+    const badgeId = c.req.param("badgeId");
+    const actorId = (c.get("user") as AuthPayload).userId;
+
+    const result = await c.env.platform_db
+      .prepare(`
+        UPDATE user_badges
+        SET revoked_at = ?, revoked_by = ?
+        WHERE user_id = ? AND badge_id = ? AND revoked_at IS NULL
+      `)
+      .bind(getTimestamp(), actorId, userId, badgeId)
       .run();
 
-    const profile: MentorProfile = {
-      id,
-      user_id: body.user_id,
-      nick_name: body.nick_name,
-      bio: body.bio,
-      mentoring_levels: body.mentoring_levels,
-      availability: body.availability !== undefined ? body.availability : null,
-      hourly_rate: body.hourly_rate !== undefined ? body.hourly_rate : null,
-      payment_types: body.payment_types,
-      expertise_domains,
-      expertise_topics_preset,
-      allow_reviews: body.allow_reviews !== undefined ? body.allow_reviews : true,
-      allow_recording: body.allow_recording !== undefined ? body.allow_recording : true,
-      linkedin_url: body.linkedin_url !== undefined ? body.linkedin_url : null,
-      created_at: timestamp,
-      updated_at: timestamp,
-    };
+    if ((result.meta?.changes || 0) === 0) {
+      return c.json({ error: "User does not hold this badge" }, 404);
+    }
 
-    return c.json<MentorProfile>(profile, 201);
-  } catch {
-    return c.json({ error: "Invalid request body" }, 400);
+    await recordAuditLog(c.env.platform_db, {
+      actorId,
+      action: AuditAction.BadgeRevoke,
+      targetType: AuditTargetType.User,
+      targetId: userId,
+      before: { badge_id: badgeId },
+      after: null,
+    });
+
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("Error revoking badge:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
+// ============================================================================
+// Rewards Store API (/api/v1/rewards, /api/v1/admin/rewards, /api/v1/admin/redemptions)
+// ============================================================================
+
 /**
- * GET /api/v1/mentors/profiles/by-user/:userId - Get mentor profile by user ID (requires authentication)
+ * Validate the editable fields of a reward
+ * @param body - Fields to validate; omitted fields are skipped
+ * @returns Error message, or null if every given field is valid
  */
-app.get("/api/v1/mentors/profiles/by-user/:userId", requireAuth, async (c) => {
-  const userId = c.req.param("userId");
+function validateRewardFields(body: UpdateRewardDTO): string | null {
+  if (body.name !== undefined && (!body.name.trim() || body.name.trim().length > MAX_REWARD_NAME_LENGTH)) {
+    return `Name is required and must be at most ${MAX_REWARD_NAME_LENGTH} characters`;
+  }
+  if (body.description !== undefined && body.description.trim().length > MAX_REWARD_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_REWARD_DESCRIPTION_LENGTH} characters`;
+  }
+  if (body.cost !== undefined && (!Number.isInteger(body.cost) || body.cost <= 0)) {
+    return "Cost must be a positive whole number of points";
+  }
+  if (body.stock !== undefined && body.stock !== null && (!Number.isInteger(body.stock) || body.stock < 0)) {
+    return "Stock must be a non-negative whole number, or null for unlimited";
+  }
+  if (body.expires_at !== undefined && body.expires_at !== null && !Number.isInteger(body.expires_at)) {
+    return "expires_at must be a Unix timestamp, or null for never";
+  }
+  return null;
+}
 
-  const profile = await c.env.platform_db
-    .prepare("SELECT * FROM mentor_profiles WHERE user_id = ?")
-    .bind(userId)
-    .first<MentorProfile>();
+/**
+ * GET /api/v1/rewards - List the rewards members can redeem
+ * Public endpoint. Active, unexpired rewards, cheapest first; rewards out of stock are
+ * included so members can see what comes back.
+ */
+app.get("/api/v1/rewards", async (c) => {
+  try {
+    const result = await c.env.platform_db
+      .prepare(`
+        SELECT * FROM rewards
+        WHERE is_active = 1 AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY cost ASC, name ASC
+      `)
+      .bind(getTimestamp())
+      .all();
 
-  if (!profile) {
-    return c.json({ error: "Mentor profile not found" }, 404);
+    return c.json<GetRewardsResponse>({ rewards: (result.results || []).map(normalizeReward) });
+  } catch (err) {
+    console.error("Error fetching rewards:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
-
-  return c.json<MentorProfile>(normalizeMentorProfile(profile));
 });
 
 /**
- * GET /api/v1/mentors/profiles/:id - Get mentor profile by ID (requires authentication)
+ * GET /api/v1/rewards/redemptions - The signed-in user's redemptions, newest first
+ * Query params:
+ *   - limit: (optional) Redemptions per page (default 20, max 50)
+ *   - offset: (optional) Pagination offset (default 0)
  */
-app.get("/api/v1/mentors/profiles/:id", requireAuth, async (c) => {
-  const id = c.req.param("id");
+app.get("/api/v1/rewards/redemptions", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "20") || 20, 1), MAX_REDEMPTIONS_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
 
-  const profile = await c.env.platform_db
-    .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
-    .bind(id)
-    .first<MentorProfile>();
+  try {
+    const result = await db
+      .prepare(`
+        SELECT rr.*, r.name as reward_name
+        FROM reward_redemptions rr
+        JOIN rewards r ON rr.reward_id = r.id
+        WHERE rr.user_id = ?
+        ORDER BY rr.created_at DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(auth.userId, limit, offset)
+      .all();
 
-  if (!profile) {
-    return c.json({ error: "Mentor profile not found" }, 404);
-  }
+    const countResult = await db
+      .prepare("SELECT COUNT(*) as count FROM reward_redemptions WHERE user_id = ?")
+      .bind(auth.userId)
+      .first<{ count: number }>();
 
-  return c.json<MentorProfile>(normalizeMentorProfile(profile));
+    return c.json<GetRedemptionsResponse>({
+      redemptions: (result.results || []).map(normalizeRewardRedemption),
+      total: countResult?.count || 0,
+    });
+  } catch (err) {
+    console.error("Error fetching redemptions:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
 });
 
 /**
- * PUT /api/v1/mentors/profiles/:id - Update mentor profile
+ * POST /api/v1/rewards/:id/redeem - Spend points on a reward
+ * Body:
+ *   - note: (optional) Details the admins need to fulfill it, e.g. a T-shirt size
+ * The redemption, stock reservation, debit and ledger row are written in one batch, so
+ * concurrent redemptions can neither oversell a reward nor overdraw a balance, and a
+ * failure part way leaves nothing behind.
  */
-app.put("/api/v1/mentors/profiles/:id", requireAuth, async (c) => {
-  try {
-    const id = c.req.param("id");
-    const body = await c.req.json<UpdateMentorProfileRequest>();
-
-    // Get authenticated user
-    const authUser = c.get('user') as AuthPayload;
+app.post("/api/v1/rewards/:id/redeem", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const rewardId = c.req.param("id");
+  const body = await c.req.json<RedeemRewardDTO>().catch(() => ({} as RedeemRewardDTO));
 
-    // Validation: At least one field must be provided
-    const hasUpdates = body.nick_name || body.bio || body.mentoring_levels !== undefined ||
-                       body.availability !== undefined || body.hourly_rate !== undefined ||
-                       body.payment_types !== undefined || body.expertise_domains !== undefined ||
-                       body.expertise_topics_preset !== undefined ||
-                       body.allow_reviews !== undefined || body.allow_recording !== undefined ||
-                       body.linkedin_url !== undefined;
+  const note = body.note?.trim() || null;
+  if (note && note.length > MAX_REDEMPTION_NOTE_LENGTH) {
+    return c.json({ error: `Note must be at most ${MAX_REDEMPTION_NOTE_LENGTH} characters` }, 400);
+  }
 
-    if (!hasUpdates) {
-      return c.json({ error: "At least one field must be provided for update" }, 400);
-    }
+  try {
+    const row = await db.prepare("SELECT * FROM rewards WHERE id = ?").bind(rewardId).first();
+    const reward = row ? normalizeReward(row) : null;
 
-    // Validation: Bit flags must be non-negative if provided
-    if ((body.mentoring_levels !== undefined && body.mentoring_levels < 0) ||
-        (body.payment_types !== undefined && body.payment_types < 0) ||
-        (body.expertise_domains !== undefined && body.expertise_domains < 0) ||
-        (body.expertise_topics_preset !== undefined && body.expertise_topics_preset < 0)) {
-      return c.json({ error: "Bit flags must be non-negative integers" }, 400);
+    if (!reward || !reward.is_active) {
+      return c.json({ error: "Reward not found" }, 404);
     }
 
-    // Validation: LinkedIn URL format if provided
-    if (body.linkedin_url !== undefined && body.linkedin_url !== null && !isValidLinkedInUrl(body.linkedin_url)) {
-      return c.json({ error: "Invalid LinkedIn URL format. Must be https://www.linkedin.com/in/username or https://linkedin.com/in/username" }, 400);
-    }
+    const now = getTimestamp();
+    if (reward.expires_at !== null && reward.expires_at <= now) {
+      return c.json({ error: "This reward has expired" }, 400);
+    }
+
+    const redemption: RewardRedemption = {
+      id: generateRedemptionId(),
+      reward_id: rewardId,
+      user_id: auth.userId,
+      cost: reward.cost,
+      status: RedemptionStatus.Pending,
+      note,
+      admin_note: null,
+      processed_by: null,
+      processed_at: null,
+      created_at: now,
+      updated_at: now,
+    };
 
-    // Check if profile exists
-    const existing = await c.env.platform_db
-      .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
-      .bind(id)
-      .first<MentorProfile>();
+    // One batch, which D1 runs as one transaction. The redemption is only inserted while a
+    // unit is in stock (unlimited rewards have NULL stock) and the member can afford it; the
+    // stock, debit and ledger statements only apply once that row exists, so a refused or
+    // failed redemption changes nothing.
+    const redeemed = "EXISTS (SELECT 1 FROM reward_redemptions WHERE id = ?)";
+    const [inserted, , debited] = await db.batch<{ points: number }>([
+      db.prepare(`
+        INSERT INTO reward_redemptions (id, reward_id, user_id, cost, status, note, created_at, updated_at)
+        SELECT ?, ?, ?, ?, ?, ?, ?, ?
+        WHERE EXISTS (SELECT 1 FROM rewards WHERE id = ? AND (stock IS NULL OR stock > 0))
+          AND EXISTS (SELECT 1 FROM user_points WHERE user_id = ? AND points >= ?)
+      `).bind(
+        redemption.id,
+        redemption.reward_id,
+        redemption.user_id,
+        redemption.cost,
+        redemption.status,
+        redemption.note,
+        redemption.created_at,
+        redemption.updated_at,
+        rewardId,
+        auth.userId,
+        reward.cost
+      ),
+      db.prepare(`
+        UPDATE rewards SET stock = stock - 1, updated_at = ?
+        WHERE id = ? AND ${redeemed}
+      `).bind(now, rewardId, redemption.id),
+      db.prepare(`
+        UPDATE user_points SET points = points - ?, updated_at = ?
+        WHERE user_id = ? AND points >= ? AND ${redeemed}
+        RETURNING points
+      `).bind(reward.cost, now, auth.userId, reward.cost, redemption.id),
+      db.prepare(`
+        INSERT INTO point_actions_log (id, user_id, action_type, reference_id, points_awarded, created_at, balance_after)
+        SELECT ?, ?, ?, ?, ?, ?, points FROM user_points WHERE user_id = ? AND ${redeemed}
+      `).bind(
+        generateId(),
+        auth.userId,
+        PointsActionType.RewardRedeemed,
+        redemption.id,
+        -reward.cost,
+        now,
+        auth.userId,
+        redemption.id
+      ),
+    ]);
 
-    if (!existing) {
-      return c.json({ error: "Mentor profile not found" }, 404);
+    if ((inserted.meta?.changes || 0) === 0) {
+      // Nothing was written; look at the stock only to pick the error
+      const stock = await db
+        .prepare("SELECT stock FROM rewards WHERE id = ?")
+        .bind(rewardId)
+        .first<{ stock: number | null }>();
+      if (stock && stock.stock !== null && stock.stock <= 0) {
+        return c.json({ error: "This reward is out of stock" }, 409);
+      }
+      return c.json({ error: "You don't have enough points for this reward" }, 400);
     }
 
-    // Authorization: Users can only update their own profiles
-    if (existing.user_id !== authUser.userId) {
-      return c.json({ error: "Cannot update another user's mentor profile" }, 403);
-    }
+    const balance = debited.results[0].points;
 
-    // If nickname is being changed, check for duplicates
-    if (body.nick_name !== undefined && body.nick_name !== existing.nick_name) {
-      const nicknameExists = await c.env.platform_db
-        .prepare("SELECT id FROM mentor_profiles WHERE nick_name = ? AND id != ?")
-        .bind(body.nick_name, id)
-        .first();
+    return c.json<RedeemRewardResponse>(
+      { redemption: { ...redemption, reward_name: reward.name }, points: balance },
+      201
+    );
+  } catch (err) {
+    console.error("Error redeeming reward:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-      if (nicknameExists) {
-        return c.json({ error: "Mentor with this nickname already exists" }, 409);
-      }
-    }
+/**
+ * GET /api/v1/admin/rewards - The whole catalog, including inactive and expired rewards (admin only)
+ */
+app.get("/api/v1/admin/rewards", requireAuth, requireAdmin, async (c) => {
+  try {
+    const result = await c.env.platform_db
+      .prepare("SELECT * FROM rewards ORDER BY created_at DESC")
+      .all();
 
-    // Build update query dynamically
-    const updates: string[] = [];
-    const params: (string | number | boolean | null)[] = [];
+    return c.json<GetRewardsResponse>({ rewards: (result.results || []).map(normalizeReward) });
+  } catch (err) {
+    console.error("Error fetching rewards:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    if (body.nick_name !== undefined) {
-      updates.push("nick_name = ?");
-      params.push(body.nick_name);
-    }
+/**
+ * POST /api/v1/admin/rewards - Add a reward to the catalog (admin only)
+ * Body:
+ *   - name: (required)
+ *   - cost: (required) Points, a positive whole number
+ *   - description: (optional)
+ *   - stock: (optional) Units available; omit or null for unlimited
+ *   - expires_at: (optional) Unix timestamp; omit or null for never
+ */
+app.post("/api/v1/admin/rewards", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const body = await c.req.json<Partial<CreateRewardDTO>>().catch(() => ({} as Partial<CreateRewardDTO>));
+
+  if (body.name === undefined || body.cost === undefined) {
+    return c.json({ error: "name and cost are required" }, 400);
+  }
+
+  const validationError = validateRewardFields(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  try {
+    const now = getTimestamp();
+    const reward: Reward = {
+      id: generateRewardId(),
+      name: body.name.trim(),
+      description: body.description?.trim() || '',
+      cost: body.cost,
+      stock: body.stock ?? null,
+      expires_at: body.expires_at ?? null,
+      is_active: true,
+      created_by: auth.userId,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await db
+      .prepare(`
+        INSERT INTO rewards (id, name, description, cost, stock, expires_at, is_active, created_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
+      `)
+      .bind(
+        reward.id,
+        reward.name,
+        reward.description,
+        reward.cost,
+        reward.stock,
+        reward.expires_at,
+        reward.created_by,
+        reward.created_at,
+        reward.updated_at
+      )
+      .run();
+
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.RewardCreate,
+      targetType: AuditTargetType.Reward,
+      targetId: reward.id,
+      before: null,
+      after: { name: reward.name, cost: reward.cost, stock: reward.stock, expires_at: reward.expires_at },
+    });
+
+    return c.json({ reward }, 201);
+  } catch (err) {
+    console.error("Error creating reward:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/v1/admin/rewards/:id - Edit a reward (admin only)
+ * Body: any of name, description, cost, stock, expires_at and is_active.
+ * Rewards are deactivated rather than deleted so past redemptions keep their reward.
+ */
+app.patch("/api/v1/admin/rewards/:id", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const rewardId = c.req.param("id");
+  const body = await c.req.json<UpdateRewardDTO>().catch(() => ({} as UpdateRewardDTO));
+
+  const validationError = validateRewardFields(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  try {
+    const row = await db.prepare("SELECT * FROM rewards WHERE id = ?").bind(rewardId).first();
+    if (!row) {
+      return c.json({ error: "Reward not found" }, 404);
+    }
+
+    const current = normalizeReward(row);
+    const updated: Reward = {
+      ...current,
+      ...(body.name !== undefined ? { name: body.name.trim() } : {}),
+      ...(body.description !== undefined ? { description: body.description.trim() } : {}),
+      ...(body.cost !== undefined ? { cost: body.cost } : {}),
+      ...(body.stock !== undefined ? { stock: body.stock } : {}),
+      ...(body.expires_at !== undefined ? { expires_at: body.expires_at } : {}),
+      ...(body.is_active !== undefined ? { is_active: Boolean(body.is_active) } : {}),
+      updated_at: getTimestamp(),
+    };
+
+    await db
+      .prepare(`
+        UPDATE rewards
+        SET name = ?, description = ?, cost = ?, stock = ?, expires_at = ?, is_active = ?, updated_at = ?
+        WHERE id = ?
+      `)
+      .bind(
+        updated.name,
+        updated.description,
+        updated.cost,
+        updated.stock,
+        updated.expires_at,
+        updated.is_active ? 1 : 0,
+        updated.updated_at,
+        rewardId
+      )
+      .run();
+
+    // Audit only the fields that changed
+    const fields = ["name", "description", "cost", "stock", "expires_at", "is_active"] as const;
+    const changed = fields.filter((field) => current[field] !== updated[field]);
+    if (changed.length > 0) {
+      await recordAuditLog(db, {
+        actorId: auth.userId,
+        action: AuditAction.RewardUpdate,
+        targetType: AuditTargetType.Reward,
+        targetId: rewardId,
+        before: Object.fromEntries(changed.map((field) => [field, current[field]])),
+        after: Object.fromEntries(changed.map((field) => [field, updated[field]])),
+      });
+    }
+
+    return c.json({ reward: updated });
+  } catch (err) {
+    console.error("Error updating reward:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/admin/redemptions - Fulfillment queue (admin only)
+ * Open redemptions (pending, approved) are listed oldest first, closed ones newest first
+ * Query params:
+ *   - status: (optional) pending (default), approved, fulfilled or refunded
+ *   - limit: (optional) Redemptions per page (default 20, max 50)
+ *   - offset: (optional) Pagination offset (default 0)
+ */
+app.get("/api/v1/admin/redemptions", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const status = c.req.query("status") || RedemptionStatus.Pending;
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "20") || 20, 1), MAX_REDEMPTIONS_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  if (!isRedemptionStatus(status)) {
+    return c.json({ error: "Invalid status. Must be one of: pending, approved, fulfilled, refunded" }, 400);
+  }
+
+  const isOpen = status === RedemptionStatus.Pending || status === RedemptionStatus.Approved;
+
+  try {
+    const result = await db
+      .prepare(`
+        SELECT rr.*, r.name as reward_name, u.name as user_name, u.email as user_email
+        FROM reward_redemptions rr
+        JOIN rewards r ON rr.reward_id = r.id
+        LEFT JOIN users u ON rr.user_id = u.id
+        WHERE rr.status = ?
+        ORDER BY rr.created_at ${isOpen ? "ASC" : "DESC"}
+        LIMIT ? OFFSET ?
+      `)
+      .bind(status, limit, offset)
+      .all();
+
+    const countResult = await db
+      .prepare("SELECT COUNT(*) as count FROM reward_redemptions WHERE status = ?")
+      .bind(status)
+      .first<{ count: number }>();
+
+    return c.json<GetRedemptionsResponse>({
+      redemptions: (result.results || []).map(normalizeRewardRedemption),
+      total: countResult?.count || 0,
+    });
+  } catch (err) {
+    console.error("Error fetching redemption queue:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/v1/admin/redemptions/:id - Move a redemption through the queue (admin only)
+ * Body:
+ *   - status: (required) approved, fulfilled or refunded, following REDEMPTION_TRANSITIONS
+ *   - admin_note: (optional) Shown to the member
+ * Refunding returns the points (logged as reward_refunded) and the unit of stock.
+ */
+app.patch("/api/v1/admin/redemptions/:id", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const redemptionId = c.req.param("id");
+  const body = await c.req.json<Partial<UpdateRedemptionDTO>>().catch(() => ({} as Partial<UpdateRedemptionDTO>));
+
+  if (!isRedemptionStatus(body.status)) {
+    return c.json({ error: "Invalid status. Must be one of: approved, fulfilled, refunded" }, 400);
+  }
+
+  const adminNote = body.admin_note?.trim() || null;
+  if (adminNote && adminNote.length > MAX_REDEMPTION_NOTE_LENGTH) {
+    return c.json({ error: `Note must be at most ${MAX_REDEMPTION_NOTE_LENGTH} characters` }, 400);
+  }
+
+  try {
+    const row = await db
+      .prepare(`
+        SELECT rr.*, r.name as reward_name
+        FROM reward_redemptions rr
+        JOIN rewards r ON rr.reward_id = r.id
+        WHERE rr.id = ?
+      `)
+      .bind(redemptionId)
+      .first();
+
+    if (!row) {
+      return c.json({ error: "Redemption not found" }, 404);
+    }
+
+    const redemption = normalizeRewardRedemption(row);
+    if (!canTransitionRedemption(redemption.status, body.status)) {
+      return c.json({ error: `Cannot change a ${redemption.status} redemption to ${body.status}` }, 400);
+    }
+
+    // Conditional on the status we read, so two admins can't both refund the same redemption
+    const now = getTimestamp();
+    const statements = [
+      db.prepare(`
+        UPDATE reward_redemptions
+        SET status = ?, admin_note = COALESCE(?, admin_note), processed_by = ?, processed_at = ?, updated_at = ?
+        WHERE id = ? AND status = ?
+      `).bind(body.status, adminNote, auth.userId, now, now, redemptionId, redemption.status),
+    ];
+
+    if (body.status === RedemptionStatus.Refunded) {
+      // The restock and the credit only apply to the refund this batch made, and only once per
+      // redemption; the batch runs as one transaction, so a refund is never left half done
+      const refunded: BatchCondition = {
+        sql: `EXISTS (SELECT 1 FROM reward_redemptions WHERE id = ? AND status = ? AND processed_at = ?)
+          AND NOT EXISTS (SELECT 1 FROM point_actions_log WHERE action_type = ? AND reference_id = ?)`,
+        params: [redemption.id, RedemptionStatus.Refunded, now, PointsActionType.RewardRefunded, redemption.id],
+      };
+      statements.push(
+        db.prepare(`
+          UPDATE rewards SET stock = stock + 1, updated_at = ?
+          WHERE id = ? AND stock IS NOT NULL AND ${refunded.sql}
+        `).bind(now, redemption.reward_id, ...refunded.params),
+        ...pointsTransactionStatements(db, {
+          userId: redemption.user_id,
+          actionType: PointsActionType.RewardRefunded,
+          referenceId: redemption.id,
+          delta: redemption.cost,
+        }, refunded)
+      );
+    }
+
+    statements.push(
+      auditLogStatement(db, {
+        actorId: auth.userId,
+        action: AuditAction.RedemptionUpdate,
+        targetType: AuditTargetType.RewardRedemption,
+        targetId: redemption.id,
+        before: { status: redemption.status },
+        after: { status: body.status, ...(adminNote ? { admin_note: adminNote } : {}) },
+      }, {
+        sql: "EXISTS (SELECT 1 FROM reward_redemptions WHERE id = ? AND status = ? AND processed_by = ? AND processed_at = ?)",
+        params: [redemption.id, body.status, auth.userId, now],
+      })
+    );
+
+    const [result] = await db.batch(statements);
+
+    if ((result.meta?.changes || 0) === 0) {
+      return c.json({ error: "This redemption was just updated by someone else" }, 409);
+    }
+
+    return c.json({
+      redemption: {
+        ...redemption,
+        status: body.status,
+        admin_note: adminNote ?? redemption.admin_note,
+        processed_by: auth.userId,
+        processed_at: now,
+        updated_at: now,
+      },
+    });
+  } catch (err) {
+    console.error("Error updating redemption:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// Notifications API (/api/v1/notifications)
+// ============================================================================
+
+/**
+ * Write an in-app notification for a user, then email it if the user's preference
+ * for the type is "immediate" ("daily" ones are picked up by the digest)
+ * Silent failure: a notification must never break the action that triggered it
+ * Users are not notified about their own actions
+ */
+async function createNotification(env: Env, dto: CreateNotificationDTO): Promise<void> {
+  if (dto.actor_id && dto.actor_id === dto.user_id) {
+    return;
+  }
+
+  try {
+    const notification: Notification = {
+      id: generateNotificationId(),
+      user_id: dto.user_id,
+      type: dto.type,
+      actor_id: dto.actor_id || null,
+      data: dto.data || {},
+      link: dto.link || null,
+      read_at: null,
+      created_at: getTimestamp(),
+    };
+
+    await env.platform_db
+      .prepare(`
+        INSERT INTO notifications (id, user_id, type, actor_id, data, link, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(
+        notification.id,
+        notification.user_id,
+        notification.type,
+        notification.actor_id,
+        JSON.stringify(notification.data),
+        notification.link,
+        notification.created_at
+      )
+      .run();
+
+    await sendNotificationEmail(env, notification);
+  } catch (err) {
+    console.error("Error creating notification:", err);
+  }
+}
+
+/**
+ * Email a single notification when the recipient wants immediate delivery
+ */
+async function sendNotificationEmail(env: Env, notification: Notification): Promise<void> {
+  const recipient = await env.platform_db
+    .prepare("SELECT email, name, locale FROM users WHERE id = ?")
+    .bind(notification.user_id)
+    .first<{ email: string; name: string; locale: string | null }>();
+
+  if (!recipient?.email) {
+    return;
+  }
+
+  const preference = await env.platform_db
+    .prepare("SELECT email_frequency FROM notification_preferences WHERE user_id = ? AND type = ?")
+    .bind(notification.user_id, notification.type)
+    .first<{ email_frequency: string }>();
+
+  const frequency = isEmailFrequency(preference?.email_frequency)
+    ? preference.email_frequency
+    : DEFAULT_EMAIL_FREQUENCIES[notification.type];
+
+  if (frequency !== EmailFrequency.Immediate) {
+    return;
+  }
+
+  await resolveMailTransport(env).send(
+    renderNotificationEmail(
+      notification,
+      { email: recipient.email, name: recipient.name, locale: recipient.locale || DEFAULT_EMAIL_LOCALE },
+      env.APP_URL || DEFAULT_APP_URL
+    )
+  );
+
+  await env.platform_db
+    .prepare("UPDATE notifications SET emailed_at = ? WHERE id = ?")
+    .bind(getTimestamp(), notification.id)
+    .run();
+}
+
+/**
+ * Count a user's unread notifications
+ */
+async function getUnreadNotificationCount(db: D1Database, userId: string): Promise<number> {
+  const result = await db
+    .prepare("SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND read_at IS NULL")
+    .bind(userId)
+    .first<{ count: number }>();
+
+  return result?.count || 0;
+}
+
+/**
+ * GET /api/v1/notifications - List the current user's notifications (newest first)
+ * Query parameters:
+ * - unread_only: "true" to list unread notifications only
+ * - limit: results per page (default: 20, max: 50)
+ * - offset: pagination offset (default: 0)
+ */
+app.get("/api/v1/notifications", requireAuth, async (c) => {
+  try {
+    const user = c.get("user") as AuthPayload;
+    const unreadOnly = c.req.query("unread_only") === "true";
+    const limit = Math.min(parseInt(c.req.query("limit") || "20", 10) || 20, MAX_NOTIFICATIONS_PAGE_SIZE);
+    const offset = Math.max(parseInt(c.req.query("offset") || "0", 10) || 0, 0);
+
+    const whereClause = unreadOnly
+      ? "WHERE user_id = ? AND read_at IS NULL"
+      : "WHERE user_id = ?";
+
+    const countResult = await c.env.platform_db
+      .prepare(`SELECT COUNT(*) as count FROM notifications ${whereClause}`)
+      .bind(user.userId)
+      .first<{ count: number }>();
+
+    const results = await c.env.platform_db
+      .prepare(`
+        SELECT * FROM notifications
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(user.userId, limit, offset)
+      .all<Record<string, unknown>>();
+
+    const response: GetNotificationsResponse = {
+      notifications: (results.results || []).map(normalizeNotification),
+      unread_count: await getUnreadNotificationCount(c.env.platform_db, user.userId),
+      total: countResult?.count || 0,
+    };
+
+    return c.json<GetNotificationsResponse>(response);
+  } catch (err) {
+    console.error("Error fetching notifications:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/notifications/unread-count - Unread badge count for the current user
+ */
+app.get("/api/v1/notifications/unread-count", requireAuth, async (c) => {
+  try {
+    const user = c.get("user") as AuthPayload;
+    return c.json({ unread_count: await getUnreadNotificationCount(c.env.platform_db, user.userId) });
+  } catch (err) {
+    console.error("Error counting notifications:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/v1/notifications/read-all - Mark all of the current user's notifications as read
+ */
+app.patch("/api/v1/notifications/read-all", requireAuth, async (c) => {
+  try {
+    const user = c.get("user") as AuthPayload;
+
+    const result = await c.env.platform_db
+      .prepare("UPDATE notifications SET read_at = ? WHERE user_id = ? AND read_at IS NULL")
+      .bind(getTimestamp(), user.userId)
+      .run();
+
+    return c.json({ success: true, updated: result.meta?.changes || 0 });
+  } catch (err) {
+    console.error("Error marking notifications as read:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/v1/notifications/:id/read - Mark one notification as read (recipient only)
+ */
+app.patch("/api/v1/notifications/:id/read", requireAuth, async (c) => {
+  try {
+    const user = c.get("user") as AuthPayload;
+    const notificationId = c.req.param("id");
+
+    const row = await c.env.platform_db
+      .prepare("SELECT * FROM notifications WHERE id = ? AND user_id = ?")
+      .bind(notificationId, user.userId)
+      .first<Record<string, unknown>>();
+
+    if (!row) {
+      return c.json({ error: "Notification not found" }, 404);
+    }
+
+    const notification = normalizeNotification(row);
+    if (notification.read_at === null) {
+      notification.read_at = getTimestamp();
+      await c.env.platform_db
+        .prepare("UPDATE notifications SET read_at = ? WHERE id = ?")
+        .bind(notification.read_at, notificationId)
+        .run();
+    }
+
+    return c.json({ notification });
+  } catch (err) {
+    console.error("Error marking notification as read:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/notifications/preferences - Email language and per-type email frequency
+ * Types the user never changed report their default frequency
+ */
+app.get("/api/v1/notifications/preferences", requireAuth, async (c) => {
+  try {
+    const user = c.get("user") as AuthPayload;
+    return c.json<NotificationPreferences>(await getNotificationPreferences(c.env.platform_db, user.userId));
+  } catch (err) {
+    console.error("Error fetching notification preferences:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * PUT /api/v1/notifications/preferences - Update email language and/or per-type frequencies
+ * Body: { locale?: "en" | "zh-CN", email?: { [type]: "immediate" | "daily" | "off" } }
+ */
+app.put("/api/v1/notifications/preferences", requireAuth, async (c) => {
+  const user = c.get("user") as AuthPayload;
+
+  let body: UpdateNotificationPreferencesDTO;
+  try {
+    body = await c.req.json<UpdateNotificationPreferencesDTO>();
+  } catch {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+
+  if (body.locale !== undefined && !isEmailLocale(body.locale)) {
+    return c.json({ error: `locale must be one of: ${EMAIL_LOCALES.join(", ")}` }, 400);
+  }
+
+  const emailEntries = Object.entries(body.email || {});
+  for (const [type, frequency] of emailEntries) {
+    if (!isNotificationType(type)) {
+      return c.json({ error: `Unknown notification type: ${type}` }, 400);
+    }
+    if (!isEmailFrequency(frequency)) {
+      return c.json({ error: "email frequency must be 'immediate', 'daily' or 'off'" }, 400);
+    }
+  }
+
+  try {
+    const timestamp = getTimestamp();
+
+    if (body.locale) {
+      await c.env.platform_db
+        .prepare("UPDATE users SET locale = ?, updated_at = ? WHERE id = ?")
+        .bind(body.locale, timestamp, user.userId)
+        .run();
+    }
+
+    for (const [type, frequency] of emailEntries) {
+      await c.env.platform_db
+        .prepare(`
+          INSERT INTO notification_preferences (user_id, type, email_frequency, updated_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT (user_id, type) DO UPDATE SET email_frequency = excluded.email_frequency, updated_at = excluded.updated_at
+        `)
+        .bind(user.userId, type, frequency, timestamp)
+        .run();
+    }
+
+    return c.json<NotificationPreferences>(await getNotificationPreferences(c.env.platform_db, user.userId));
+  } catch (err) {
+    console.error("Error updating notification preferences:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/notifications/send-digests - Email the daily digest (admin only)
+ * Bundles each user's unread, not yet emailed notifications of "daily" types from the last 24 hours
+ * Meant to be triggered once a day
+ */
+app.post("/api/v1/admin/notifications/send-digests", requireAuth, requireAdmin, async (c) => {
+  try {
+    const result = await sendDailyDigests(c.env);
+    return c.json({ success: true, ...result });
+  } catch (err) {
+    console.error("Error sending notification digests:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * Load a user's email language and per-type email frequencies
+ */
+async function getNotificationPreferences(db: D1Database, userId: string): Promise<NotificationPreferences> {
+  const userRow = await db
+    .prepare("SELECT locale FROM users WHERE id = ?")
+    .bind(userId)
+    .first<{ locale: string | null }>();
+
+  const rows = await db
+    .prepare("SELECT type, email_frequency FROM notification_preferences WHERE user_id = ?")
+    .bind(userId)
+    .all<{ type: string; email_frequency: string }>();
+
+  return {
+    locale: isEmailLocale(userRow?.locale) ? userRow.locale : DEFAULT_EMAIL_LOCALE,
+    email: buildEmailPreferences(rows.results || []),
+  };
+}
+
+/**
+ * Send one digest email per user with pending "daily" notifications
+ * Each notification is emailed at most once (tracked by emailed_at)
+ */
+async function sendDailyDigests(env: Env): Promise<{ users: number; notifications: number }> {
+  const now = getTimestamp();
+  const rows = await env.platform_db
+    .prepare(`
+      SELECT notifications.*,
+             users.email as recipient_email,
+             users.name as recipient_name,
+             users.locale as recipient_locale,
+             notification_preferences.email_frequency as email_frequency
+      FROM notifications
+      JOIN users ON users.id = notifications.user_id
+      LEFT JOIN notification_preferences
+        ON notification_preferences.user_id = notifications.user_id
+        AND notification_preferences.type = notifications.type
+      WHERE notifications.emailed_at IS NULL
+        AND notifications.read_at IS NULL
+        AND notifications.created_at > ?
+      ORDER BY notifications.created_at DESC
+    `)
+    .bind(now - DIGEST_WINDOW_SECONDS)
+    .all<Record<string, unknown>>();
+
+  // Group daily notifications by recipient
+  const digests = new Map<string, { recipient: { email: string; name: string; locale: string }; notifications: Notification[] }>();
+  for (const row of rows.results || []) {
+    const notification = normalizeNotification(row);
+    const frequency = isEmailFrequency(row.email_frequency)
+      ? row.email_frequency
+      : DEFAULT_EMAIL_FREQUENCIES[notification.type];
+    if (frequency !== EmailFrequency.Daily || !row.recipient_email) {
+      continue;
+    }
+
+    let digest = digests.get(notification.user_id);
+    if (!digest) {
+      digest = {
+        recipient: {
+          email: row.recipient_email as string,
+          name: row.recipient_name as string,
+          locale: (row.recipient_locale as string | null) || DEFAULT_EMAIL_LOCALE,
+        },
+        notifications: [],
+      };
+      digests.set(notification.user_id, digest);
+    }
+    digest.notifications.push(notification);
+  }
+
+  const transport = resolveMailTransport(env);
+  const appUrl = env.APP_URL || DEFAULT_APP_URL;
+  let sent = 0;
+
+  for (const { recipient, notifications } of digests.values()) {
+    try {
+      await transport.send(renderDigestEmail(notifications, recipient, appUrl));
+      for (const notification of notifications) {
+        await env.platform_db
+          .prepare("UPDATE notifications SET emailed_at = ? WHERE id = ?")
+          .bind(now, notification.id)
+          .run();
+      }
+      sent += notifications.length;
+    } catch (err) {
+      // Keep going so one bad address does not block everyone else's digest
+      console.error("Error sending notification digest:", err);
+    }
+  }
+
+  return { users: digests.size, notifications: sent };
+}
+
+// ============================================================================
+// CV Management API (/api/v1/users/:userId/cv)
+// ============================================================================
+
+/**
+ * POST /api/v1/users/:userId/cv - Upload user CV to R2
+ * Accepts PDF files only, max 5MB
+ */
+app.post("/api/v1/users/:userId/cv", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const formData = await c.req.formData();
+    const file = formData.get("file");
+
+    // Validate file exists
+    if (!file || !(file instanceof File)) {
+      return c.json({ error: "No file provided" }, 400);
+    }
+
+    // Validate file type (PDF only)
+    if (file.type !== "application/pdf") {
+      return c.json({ error: "Only PDF files are allowed" }, 400);
+    }
+
+    // Validate file size (max 5MB)
+    const MAX_FILE_SIZE = 5 * 1024 * 1024;
+    if (file.size > MAX_FILE_SIZE) {
+      return c.json({ error: "File size must be less than 5MB" }, 400);
+    }
+
+    // Generate unique filename: userId-timestamp.pdf
+    const timestamp = Date.now();
+    const filename = `${userId}-${timestamp}.pdf`;
+
+    // Upload to R2
+    const arrayBuffer = await file.arrayBuffer();
+    await c.env.CV_BUCKET.put(filename, arrayBuffer, {
+      httpMetadata: {
+        contentType: "application/pdf",
+        contentDisposition: `attachment; filename="${file.name}"`,
+      },
+      customMetadata: {
+        uploadedBy: userId,
+        originalName: file.name,
+      },
+    });
+
+    // Update user record with CV info
+    const cvUploadedAt = getTimestamp();
+    await c.env.platform_db
+      .prepare(
+        `UPDATE users SET cv_url = ?, cv_filename = ?, cv_uploaded_at = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(filename, file.name, cvUploadedAt, cvUploadedAt, userId)
+      .run();
+
+    // Return success with file info
+    return c.json({
+      success: true,
+      filename: file.name,
+      originalFilename: file.name,
+      uploadedAt: cvUploadedAt,
+      message: "CV uploaded successfully",
+    }, 201);
+  } catch (error) {
+    console.error("CV upload error:", error);
+    return c.json({ error: "Failed to upload CV" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/users/:userId/cv - Get user CV metadata
+ * Returns CV metadata including filename and upload timestamp
+ */
+app.get("/api/v1/users/:userId/cv", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+
+    const user = await c.env.platform_db
+      .prepare(`SELECT cv_url, cv_filename, cv_uploaded_at FROM users WHERE id = ?`)
+      .bind(userId)
+      .first<{ cv_url: string | null; cv_filename: string | null; cv_uploaded_at: number | null }>();
+
+    if (!user || !user.cv_url) {
+      return c.json({ error: "No CV found" }, 404);
+    }
+
+    return c.json({
+      cv_filename: user.cv_filename,
+      cv_uploaded_at: user.cv_uploaded_at,
+    });
+  } catch (error) {
+    console.error("CV fetch error:", error);
+    return c.json({ error: "Failed to fetch CV" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/users/:userId/cv - Delete user CV
+ */
+app.delete("/api/v1/users/:userId/cv", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+
+    // Get current CV filename
+    const user = await c.env.platform_db
+      .prepare(`SELECT cv_url FROM users WHERE id = ?`)
+      .bind(userId)
+      .first<{ cv_url: string | null }>();
+
+    if (!user || !user.cv_url) {
+      return c.json({ error: "No CV found" }, 404);
+    }
+
+    // Delete from R2
+    await c.env.CV_BUCKET.delete(user.cv_url);
+
+    // Clear CV fields from user record
+    await c.env.platform_db
+      .prepare(
+        `UPDATE users SET cv_url = NULL, cv_filename = NULL, cv_uploaded_at = NULL, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(getTimestamp(), userId)
+      .run();
+
+    return c.json({ success: true, message: "CV deleted successfully" });
+  } catch (error) {
+    console.error("CV deletion error:", error);
+    return c.json({ error: "Failed to delete CV" }, 500);
+  }
+});
+
+// ============================================================================
+// Mentor Profile Management API (/api/v1/mentors/profiles)
+// ============================================================================
+
+/**
+ * POST /api/v1/mentors/profiles - Create mentor profile
+ */
+app.post("/api/v1/mentors/profiles", requireAuth, async (c) => {
+  try {
+    const body = await c.req.json<CreateMentorProfileRequest>();
+
+    // Get authenticated user
+    const authUser = c.get('user') as AuthPayload;
+
+    // Validation: Required fields
+    if (!body.user_id || !body.nick_name || !body.bio ||
+        body.mentoring_levels === undefined || body.payment_types === undefined) {
+      return c.json({ error: "user_id, nick_name, bio, mentoring_levels, and payment_types are required" }, 400);
+    }
+
+    // Authorization: Users can only create profiles for themselves
+    if (body.user_id !== authUser.userId) {
+      return c.json({ error: "Cannot create mentor profile for another user" }, 403);
+    }
+
+    // Validation: Bit flags must be non-negative integers
+    if (body.mentoring_levels < 0 || body.payment_types < 0) {
+      return c.json({ error: "Bit flags must be non-negative integers" }, 400);
+    }
+
+    // Validation: LinkedIn URL format if provided
+    if (body.linkedin_url && !isValidLinkedInUrl(body.linkedin_url)) {
+      return c.json({ error: "Invalid LinkedIn URL format. Must be https://www.linkedin.com/in/username or https://linkedin.com/in/username" }, 400);
+    }
+
+    // Set default values for expertise fields if not provided
+    const expertise_domains = body.expertise_domains !== undefined ? body.expertise_domains : 0;
+    const expertise_topics_preset = body.expertise_topics_preset !== undefined ? body.expertise_topics_preset : 0;
+
+    // Validation: Expertise bit flags must be non-negative if provided
+    if (expertise_domains < 0 || expertise_topics_preset < 0) {
+      return c.json({ error: "Expertise bit flags must be non-negative integers" }, 400);
+    }
+
+    // Check if user exists
+    const userExists = await c.env.platform_db
+      .prepare("SELECT id FROM users WHERE id = ?")
+      .bind(body.user_id)
+      .first();
+
+    if (!userExists) {
+      return c.json({ error: "User not found" }, 400);
+    }
+
+    // Check if nickname already exists
+    const nicknameExists = await c.env.platform_db
+      .prepare("SELECT id FROM mentor_profiles WHERE nick_name = ?")
+      .bind(body.nick_name)
+      .first();
+
+    if (nicknameExists) {
+      return c.json({ error: "Mentor with this nickname already exists" }, 409);
+    }
+
+    // Check if user already has a mentor profile
+    const profileExists = await c.env.platform_db
+      .prepare("SELECT id FROM mentor_profiles WHERE user_id = ?")
+      .bind(body.user_id)
+      .first();
+
+    if (profileExists) {
+      return c.json({ error: "User already has a mentor profile" }, 409);
+    }
+
+    // Create mentor profile
+    const id = generateId();
+    const timestamp = getTimestamp();
+
+    await c.env.platform_db
+      .prepare(
+        `INSERT INTO mentor_profiles (
+          id, user_id, nick_name, bio, mentoring_levels, availability,
+          hourly_rate, payment_types, expertise_domains, expertise_topics_preset,
+          allow_reviews, allow_recording, linkedin_url, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        body.user_id,
+        body.nick_name,
+        body.bio,
+        body.mentoring_levels,
+        body.availability !== undefined ? body.availability : null,
+        body.hourly_rate !== undefined ? body.hourly_rate : null,
+        body.payment_types,
+        expertise_domains,
+        expertise_topics_preset,
+        body.allow_reviews !== undefined ? body.allow_reviews : true,
+        body.allow_recording !== undefined ? body.allow_recording : true,
+        body.linkedin_url !== undefined ? body.linkedin_url : null,
+        timestamp,
+        timestamp
+      )
+      .run();
+
+    const profile: MentorProfile = {
+      id,
+      user_id: body.user_id,
+      nick_name: body.nick_name,
+      bio: body.bio,
+      mentoring_levels: body.mentoring_levels,
+      availability: body.availability !== undefined ? body.availability : null,
+      hourly_rate: body.hourly_rate !== undefined ? body.hourly_rate : null,
+      payment_types: body.payment_types,
+      expertise_domains,
+      expertise_topics_preset,
+      allow_reviews: body.allow_reviews !== undefined ? body.allow_reviews : true,
+      allow_recording: body.allow_recording !== undefined ? body.allow_recording : true,
+      linkedin_url: body.linkedin_url !== undefined ? body.linkedin_url : null,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    return c.json<MentorProfile>(profile, 201);
+  } catch {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+});
+
+/**
+ * GET /api/v1/mentors/profiles/by-user/:userId - Get mentor profile by user ID (requires authentication)
+ */
+app.get("/api/v1/mentors/profiles/by-user/:userId", requireAuth, async (c) => {
+  const userId = c.req.param("userId");
+
+  const profile = await c.env.platform_db
+    .prepare("SELECT * FROM mentor_profiles WHERE user_id = ?")
+    .bind(userId)
+    .first<MentorProfile>();
+
+  if (!profile) {
+    return c.json({ error: "Mentor profile not found" }, 404);
+  }
+
+  return c.json<MentorProfile>(await normalizeMentorProfileWithSlots(c.env.platform_db, profile));
+});
+
+/**
+ * GET /api/v1/mentors/profiles/:id - Get mentor profile by ID (requires authentication)
+ */
+app.get("/api/v1/mentors/profiles/:id", requireAuth, async (c) => {
+  const id = c.req.param("id");
+
+  const profile = await c.env.platform_db
+    .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
+    .bind(id)
+    .first<MentorProfile>();
+
+  if (!profile) {
+    return c.json({ error: "Mentor profile not found" }, 404);
+  }
+
+  return c.json<MentorProfile>(await normalizeMentorProfileWithSlots(c.env.platform_db, profile));
+});
+
+/**
+ * PUT /api/v1/mentors/profiles/:id - Update mentor profile
+ */
+app.put("/api/v1/mentors/profiles/:id", requireAuth, async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json<UpdateMentorProfileRequest>();
+
+    // Get authenticated user
+    const authUser = c.get('user') as AuthPayload;
+
+    // Validation: At least one field must be provided
+    const hasUpdates = body.nick_name || body.bio || body.mentoring_levels !== undefined ||
+                       body.availability !== undefined || body.hourly_rate !== undefined ||
+                       body.payment_types !== undefined || body.expertise_domains !== undefined ||
+                       body.expertise_topics_preset !== undefined ||
+                       body.allow_reviews !== undefined || body.allow_recording !== undefined ||
+                       body.linkedin_url !== undefined;
+
+    if (!hasUpdates) {
+      return c.json({ error: "At least one field must be provided for update" }, 400);
+    }
+
+    // Validation: Bit flags must be non-negative if provided
+    if ((body.mentoring_levels !== undefined && body.mentoring_levels < 0) ||
+        (body.payment_types !== undefined && body.payment_types < 0) ||
+        (body.expertise_domains !== undefined && body.expertise_domains < 0) ||
+        (body.expertise_topics_preset !== undefined && body.expertise_topics_preset < 0)) {
+      return c.json({ error: "Bit flags must be non-negative integers" }, 400);
+    }
+
+    // Validation: LinkedIn URL format if provided
+    if (body.linkedin_url !== undefined && body.linkedin_url !== null && !isValidLinkedInUrl(body.linkedin_url)) {
+      return c.json({ error: "Invalid LinkedIn URL format. Must be https://www.linkedin.com/in/username or https://linkedin.com/in/username" }, 400);
+    }
+
+    // Check if profile exists
+    const existing = await c.env.platform_db
+      .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
+      .bind(id)
+      .first<MentorProfile>();
+
+    if (!existing) {
+      return c.json({ error: "Mentor profile not found" }, 404);
+    }
+
+    // Authorization: Users can only update their own profiles
+    if (existing.user_id !== authUser.userId) {
+      return c.json({ error: "Cannot update another user's mentor profile" }, 403);
+    }
+
+    // If nickname is being changed, check for duplicates
+    if (body.nick_name !== undefined && body.nick_name !== existing.nick_name) {
+      const nicknameExists = await c.env.platform_db
+        .prepare("SELECT id FROM mentor_profiles WHERE nick_name = ? AND id != ?")
+        .bind(body.nick_name, id)
+        .first();
+
+      if (nicknameExists) {
+        return c.json({ error: "Mentor with this nickname already exists" }, 409);
+      }
+    }
+
+    // Build update query dynamically
+    const updates: string[] = [];
+    const params: (string | number | boolean | null)[] = [];
+
+    if (body.nick_name !== undefined) {
+      updates.push("nick_name = ?");
+      params.push(body.nick_name);
+    }
     if (body.bio !== undefined) {
       updates.push("bio = ?");
       params.push(body.bio);
     }
-    if (body.mentoring_levels !== undefined) {
-      updates.push("mentoring_levels = ?");
-      params.push(body.mentoring_levels);
+    if (body.mentoring_levels !== undefined) {
+      updates.push("mentoring_levels = ?");
+      params.push(body.mentoring_levels);
+    }
+    if (body.availability !== undefined) {
+      updates.push("availability = ?");
+      params.push(body.availability);
+    }
+    if (body.hourly_rate !== undefined) {
+      updates.push("hourly_rate = ?");
+      params.push(body.hourly_rate);
+    }
+    if (body.payment_types !== undefined) {
+      updates.push("payment_types = ?");
+      params.push(body.payment_types);
+    }
+    if (body.expertise_domains !== undefined) {
+      updates.push("expertise_domains = ?");
+      params.push(body.expertise_domains);
+    }
+    if (body.expertise_topics_preset !== undefined) {
+      updates.push("expertise_topics_preset = ?");
+      params.push(body.expertise_topics_preset);
+    }
+    if (body.allow_reviews !== undefined) {
+      updates.push("allow_reviews = ?");
+      params.push(body.allow_reviews);
+    }
+    if (body.allow_recording !== undefined) {
+      updates.push("allow_recording = ?");
+      params.push(body.allow_recording);
+    }
+    if (body.linkedin_url !== undefined) {
+      updates.push("linkedin_url = ?");
+      params.push(body.linkedin_url);
+    }
+
+    const timestamp = getTimestamp();
+    updates.push("updated_at = ?");
+    params.push(timestamp);
+    params.push(id); // For WHERE clause
+
+    await c.env.platform_db
+      .prepare(`UPDATE mentor_profiles SET ${updates.join(", ")} WHERE id = ?`)
+      .bind(...params)
+      .run();
+
+    // Fetch and return updated profile
+    const updated = await c.env.platform_db
+      .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
+      .bind(id)
+      .first<MentorProfile>();
+
+    if (!updated) {
+      return c.json({ error: "Mentor profile not found" }, 404);
+    }
+
+    return c.json<MentorProfile>(normalizeMentorProfile(updated));
+  } catch {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+});
+
+/**
+ * DELETE /api/v1/mentors/profiles/:id - Delete mentor profile
+ */
+app.delete("/api/v1/mentors/profiles/:id", requireAuth, async (c) => {
+  const id = c.req.param("id");
+
+  // Get authenticated user
+  const authUser = c.get('user') as AuthPayload;
+
+  // Check if profile exists
+  const existing = await c.env.platform_db
+    .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
+    .bind(id)
+    .first<MentorProfile>();
+
+  if (!existing) {
+    return c.json({ error: "Mentor profile not found" }, 404);
+  }
+
+  // Authorization: Users can only delete their own profiles
+  if (existing.user_id !== authUser.userId) {
+    return c.json({ error: "Cannot delete another user's mentor profile" }, 403);
+  }
+
+  // Delete the profile
+  await c.env.platform_db
+    .prepare("DELETE FROM mentor_profiles WHERE id = ?")
+    .bind(id)
+    .run();
+
+  return c.json({ success: true });
+});
+
+// ============================================================================
+// Mentor Availability API (/api/v1/mentors/profiles/:id/availability)
+// ============================================================================
+
+/**
+ * GET /api/v1/mentors/profiles/:id/availability - Get a mentor's weekly availability slots
+ */
+app.get("/api/v1/mentors/profiles/:id/availability", requireAuth, async (c) => {
+  const id = c.req.param("id");
+
+  const profile = await c.env.platform_db
+    .prepare("SELECT id FROM mentor_profiles WHERE id = ?")
+    .bind(id)
+    .first<{ id: string }>();
+
+  if (!profile) {
+    return c.json({ error: "Mentor profile not found" }, 404);
+  }
+
+  const slotsByProfile = await getAvailabilitySlotsByProfile(c.env.platform_db, [id]);
+
+  return c.json<AvailabilitySlotsResponse>({ slots: slotsByProfile.get(id) || [] });
+});
+
+/**
+ * PUT /api/v1/mentors/profiles/:id/availability - Replace a mentor's weekly availability slots
+ * Body: { timezone: IANA timezone, slots: [{ day_of_week, start_minute, end_minute }] }
+ * An empty slots array clears the mentor's structured availability
+ */
+app.put("/api/v1/mentors/profiles/:id/availability", requireAuth, async (c) => {
+  try {
+    const id = c.req.param("id");
+    const authUser = c.get('user') as AuthPayload;
+    const body = await c.req.json<UpdateAvailabilitySlotsRequest>();
+
+    const profile = await c.env.platform_db
+      .prepare("SELECT id, user_id FROM mentor_profiles WHERE id = ?")
+      .bind(id)
+      .first<{ id: string; user_id: string }>();
+
+    if (!profile) {
+      return c.json({ error: "Mentor profile not found" }, 404);
+    }
+
+    if (profile.user_id !== authUser.userId) {
+      return c.json({ error: "Cannot update another user's availability" }, 403);
+    }
+
+    if (!body.timezone || !isValidTimezone(body.timezone)) {
+      return c.json({ error: "timezone must be a valid IANA timezone" }, 400);
+    }
+
+    if (!Array.isArray(body.slots)) {
+      return c.json({ error: "slots must be an array" }, 400);
+    }
+
+    if (body.slots.length > MAX_AVAILABILITY_SLOTS) {
+      return c.json({ error: `A mentor can publish at most ${MAX_AVAILABILITY_SLOTS} availability slots` }, 400);
+    }
+
+    if (!body.slots.every((slot) => slot && isValidSlotRange(slot))) {
+      return c.json({ error: "Each slot needs day_of_week 0-6 and start_minute < end_minute within a single day" }, 400);
+    }
+
+    if (hasOverlappingSlots(body.slots)) {
+      return c.json({ error: "Availability slots must not overlap" }, 400);
+    }
+
+    const slots: AvailabilitySlot[] = sortSlots(body.slots).map((slot) => ({
+      day_of_week: slot.day_of_week,
+      start_minute: slot.start_minute,
+      end_minute: slot.end_minute,
+      timezone: body.timezone,
+    }));
+
+    // Replace the whole set in one batch so a failed insert never leaves the mentor with
+    // only part of their slots
+    const db = c.env.platform_db;
+    const timestamp = getTimestamp();
+    await db.batch([
+      db.prepare("DELETE FROM mentor_availability_slots WHERE mentor_profile_id = ?").bind(id),
+      ...slots.map((slot) =>
+        db
+          .prepare(`
+            INSERT INTO mentor_availability_slots (id, mentor_profile_id, day_of_week, start_minute, end_minute, timezone, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+          `)
+          .bind(generateId(), id, slot.day_of_week, slot.start_minute, slot.end_minute, slot.timezone, timestamp)
+      ),
+    ]);
+
+    return c.json<AvailabilitySlotsResponse>({ slots });
+  } catch (err) {
+    console.error("Error updating availability slots:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// Search & Discovery API (/api/v1/mentors/search)
+// ============================================================================
+
+/**
+ * GET /api/v1/mentors/search - Search and filter mentor profiles
+ * Query parameters:
+ * - mentoring_levels: bit flags (e.g., 3 = Entry OR Senior)
+ * - payment_types: bit flags (e.g., 1 = Venmo)
+ * - expertise_domains: bit flags for professional domains
+ * - expertise_topics: bit flags for preset expertise topics
+ * - hourly_rate_max: maximum hourly rate
+ * - hourly_rate_min: minimum hourly rate
+ * - nick_name: partial nickname search (case-insensitive)
+ * - available_day, available_start, available_end: "available during" window (day 0-6, "HH:MM" times)
+ * - timezone: IANA timezone of the window (default: UTC); mentors whose slots overlap it match
+ * - min_rating: minimum average rating (1-5); mentors with reviews turned off never match
+ * - sort: "newest" (default) or "rating" (highest rated first, unrated mentors last)
+ * - limit: results per page (default: 20, max: 100)
+ * - offset: pagination offset (default: 0)
+ *
+ * Note: This endpoint requires authentication
+ */
+app.get("/api/v1/mentors/search", requireAuth, async (c) => {
+  try {
+    // Parse query parameters
+    const url = new URL(c.req.url);
+    const mentoring_levels = url.searchParams.get("mentoring_levels");
+    const payment_types = url.searchParams.get("payment_types");
+    const expertise_domains = url.searchParams.get("expertise_domains");
+    const expertise_topics = url.searchParams.get("expertise_topics");
+    const hourly_rate_max = url.searchParams.get("hourly_rate_max");
+    const hourly_rate_min = url.searchParams.get("hourly_rate_min");
+    const nick_name = url.searchParams.get("nick_name");
+    const available_day = url.searchParams.get("available_day");
+    const available_start = url.searchParams.get("available_start");
+    const available_end = url.searchParams.get("available_end");
+    const timezone = url.searchParams.get("timezone") || "UTC";
+    const min_rating = url.searchParams.get("min_rating");
+    const sort = url.searchParams.get("sort") || "newest";
+    const limitParam = url.searchParams.get("limit");
+    const offsetParam = url.searchParams.get("offset");
+
+    // Parse and validate limit and offset
+    const limit = limitParam ? parseInt(limitParam, 10) : 20;
+    const offset = offsetParam ? parseInt(offsetParam, 10) : 0;
+
+    // Validation: limit and offset must be non-negative
+    if (limit < 0 || offset < 0) {
+      return c.json({ error: "Limit and offset must be non-negative integers" }, 400);
+    }
+
+    // Validation: limit must not exceed maximum
+    if (limit > 100) {
+      return c.json({ error: "Limit must not exceed 100" }, 400);
+    }
+
+    // Validation: numeric parameters must be valid numbers
+    if (mentoring_levels && isNaN(parseInt(mentoring_levels, 10))) {
+      return c.json({ error: "mentoring_levels must be a valid integer" }, 400);
+    }
+    if (payment_types && isNaN(parseInt(payment_types, 10))) {
+      return c.json({ error: "payment_types must be a valid integer" }, 400);
+    }
+    if (expertise_domains && isNaN(parseInt(expertise_domains, 10))) {
+      return c.json({ error: "expertise_domains must be a valid integer" }, 400);
+    }
+    if (expertise_topics && isNaN(parseInt(expertise_topics, 10))) {
+      return c.json({ error: "expertise_topics must be a valid integer" }, 400);
+    }
+    if (hourly_rate_max && isNaN(parseInt(hourly_rate_max, 10))) {
+      return c.json({ error: "hourly_rate_max must be a valid number" }, 400);
+    }
+    if (hourly_rate_min && isNaN(parseInt(hourly_rate_min, 10))) {
+      return c.json({ error: "hourly_rate_min must be a valid number" }, 400);
+    }
+    if (min_rating) {
+      const rating = parseFloat(min_rating);
+      if (isNaN(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+        return c.json({ error: `min_rating must be a number between ${MIN_RATING} and ${MAX_RATING}` }, 400);
+      }
+    }
+    if (sort !== "newest" && sort !== "rating") {
+      return c.json({ error: "sort must be 'newest' or 'rating'" }, 400);
+    }
+
+    // Validation: availability window must be complete and well-formed
+    let availabilityWindow: AvailabilitySlot | null = null;
+    if (available_day || available_start || available_end) {
+      const day = available_day ? parseInt(available_day, 10) : NaN;
+      const start = available_start ? parseTimeOfDay(available_start) : null;
+      const end = available_end ? parseTimeOfDay(available_end) : null;
+
+      if (start === null || end === null || isNaN(day)) {
+        return c.json({ error: "available_day, available_start and available_end (HH:MM) must be provided together" }, 400);
+      }
+
+      availabilityWindow = { day_of_week: day, start_minute: start, end_minute: end, timezone };
+      if (!isValidSlotRange(availabilityWindow)) {
+        return c.json({ error: "available_day must be 0-6 and available_start must be before available_end" }, 400);
+      }
+      if (!isValidTimezone(timezone)) {
+        return c.json({ error: "timezone must be a valid IANA timezone" }, 400);
+      }
+    }
+
+    // Build WHERE clause dynamically
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (mentoring_levels) {
+      const levels = parseInt(mentoring_levels, 10);
+      conditions.push("mentoring_levels & ? > 0");
+      params.push(levels);
+    }
+
+    if (payment_types) {
+      const types = parseInt(payment_types, 10);
+      conditions.push("payment_types & ? > 0");
+      params.push(types);
+    }
+
+    if (expertise_domains) {
+      const domains = parseInt(expertise_domains, 10);
+      conditions.push("expertise_domains & ? > 0");
+      params.push(domains);
+    }
+
+    if (expertise_topics) {
+      const topics = parseInt(expertise_topics, 10);
+      conditions.push("expertise_topics_preset & ? > 0");
+      params.push(topics);
+    }
+
+    if (hourly_rate_max) {
+      const max = parseInt(hourly_rate_max, 10);
+      conditions.push("hourly_rate <= ?");
+      params.push(max);
+    }
+
+    if (hourly_rate_min) {
+      const min = parseInt(hourly_rate_min, 10);
+      conditions.push("hourly_rate >= ?");
+      params.push(min);
+    }
+
+    if (nick_name) {
+      conditions.push("nick_name LIKE ?");
+      params.push(`%${nick_name}%`);
+    }
+
+    if (min_rating) {
+      conditions.push("allow_reviews = 1 AND average_rating >= ?");
+      params.push(parseFloat(min_rating));
+    }
+
+    // Availability window: timezone conversion happens in JS since SQLite has no timezone support
+    if (availabilityWindow) {
+      const requestedWindow = availabilityWindow;
+      const slotRows = await c.env.platform_db
+        .prepare("SELECT mentor_profile_id, day_of_week, start_minute, end_minute, timezone FROM mentor_availability_slots")
+        .all<AvailabilitySlot & { mentor_profile_id: string }>();
+
+      const now = new Date();
+      const availableProfileIds = new Set(
+        (slotRows?.results || [])
+          .filter((slot) => isValidTimezone(slot.timezone) && slotOverlapsWindow(slot, requestedWindow, now))
+          .map((slot) => slot.mentor_profile_id)
+      );
+
+      conditions.push("id IN (SELECT value FROM json_each(?))");
+      params.push(JSON.stringify(Array.from(availableProfileIds)));
+    }
+
+    // Build WHERE clause
+    const whereClause = conditions.length > 0
+      ? `WHERE ${conditions.join(" AND ")}`
+      : "";
+
+    // Get total count
+    const countQuery = `SELECT COUNT(*) FROM mentor_profiles ${whereClause}`;
+    const countResult = await c.env.platform_db
+      .prepare(countQuery)
+      .bind(...params)
+      .first<{ 'COUNT(*)': number }>();
+
+    const total = countResult?.['COUNT(*)'] || 0;
+
+    // Rating sort puts mentors without a visible rating after all rated ones
+    const orderClause = sort === "rating"
+      ? "ORDER BY (allow_reviews = 1 AND average_rating IS NOT NULL) DESC, average_rating DESC, review_count DESC, created_at DESC"
+      : "ORDER BY created_at DESC";
+
+    // Get paginated results
+    const selectQuery = `
+      SELECT * FROM mentor_profiles
+      ${whereClause}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    const results = await c.env.platform_db
+      .prepare(selectQuery)
+      .bind(...params, limit, offset)
+      .all<MentorProfile>();
+
+    const mentors = (results.results || []).map(normalizeMentorProfile);
+    const slotsByProfile = await getAvailabilitySlotsByProfile(
+      c.env.platform_db,
+      mentors.map((mentor) => mentor.id)
+    );
+
+    const response: SearchMentorsResponse = {
+      mentors: mentors.map((mentor) => ({
+        ...mentor,
+        availability_slots: slotsByProfile.get(mentor.id) || [],
+      })),
+      total,
+      limit,
+      offset,
+    };
+
+    return c.json<SearchMentorsResponse>(response);
+  } catch (err) {
+    console.error("Search error:", err);
+    return c.json({ error: "Invalid request", details: err instanceof Error ? err.message : String(err) }, 400);
+  }
+});
+
+// ============================================================================
+// Full-Text Search API (/api/v1/search)
+// ============================================================================
+
+/**
+ * Add or replace a thread, reply or blog in the search index
+ * Bodies are indexed as plain text; failures are logged so they never break the write that triggered them
+ */
+async function indexSearchDocument(
+  db: D1Database,
+  document: { type: SearchContentType; id: string; authorId: string; title: string; body: string }
+): Promise<void> {
+  try {
+    await removeSearchDocument(db, document.type, document.id);
+    await db
+      .prepare("INSERT INTO search_index (title, body, content_type, content_id, author_id) VALUES (?, ?, ?, ?, ?)")
+      .bind(document.title, stripHtml(document.body), document.type, document.id, document.authorId)
+      .run();
+  } catch (err) {
+    console.error("Error indexing search document:", err);
+  }
+}
+
+/**
+ * Remove a thread, reply or blog from the search index
+ */
+async function removeSearchDocument(db: D1Database, type: SearchContentType, id: string): Promise<void> {
+  try {
+    await db
+      .prepare("DELETE FROM search_index WHERE content_type = ? AND content_id = ?")
+      .bind(type, id)
+      .run();
+  } catch (err) {
+    console.error("Error removing search document:", err);
+  }
+}
+
+/**
+ * GET /api/v1/search - Full-text search across forum threads, replies and blogs
+ * Public endpoint; members-only blogs are only searchable when signed in
+ * Query params:
+ *   - q: (required) Search terms; every term must match
+ *   - type: (optional) thread, reply or blog
+ *   - category_id: (optional) Forum category (limits results to threads and replies)
+ *   - author_id: (optional) Author user ID
+ *   - limit: (optional) Results per page (default 20, max 50)
+ *   - offset: (optional) Pagination offset (default 0)
+ * Results are ranked by relevance (title matches weigh more) with highlighted snippets
+ */
+app.get("/api/v1/search", async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload | undefined;
+  const query = (c.req.query("q") || "").trim();
+  const type = c.req.query("type");
+  const categoryId = c.req.query("category_id");
+  const authorId = c.req.query("author_id");
+  const limit = Math.min(
+    Math.max(parseInt(c.req.query("limit") || "") || DEFAULT_SEARCH_PAGE_SIZE, 1),
+    MAX_SEARCH_PAGE_SIZE
+  );
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return c.json({ error: `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` }, 400);
+  }
+
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) {
+    return c.json({ error: "Search query is required" }, 400);
+  }
+
+  if (type && !isSearchContentType(type)) {
+    return c.json({ error: "Invalid type. Must be one of: thread, reply, blog" }, 400);
+  }
+
+  try {
+    const conditions: string[] = [
+      "COALESCE(t.id, r.id, b.id) IS NOT NULL",
+      // Content hidden by a moderator (or a reply in a hidden thread) stays indexed but is not returned
+      "COALESCE(t.hidden_at, r.hidden_at, rt.hidden_at, b.hidden_at) IS NULL",
+      // Deleted threads keep their documents so a restore doesn't need to reindex them
+      "COALESCE(t.deleted_at, rt.deleted_at) IS NULL",
+    ];
+    const bindings: (string | number)[] = [];
+
+    // The trigram index only matches terms of 3+ characters; shorter ones (e.g. 2-character Chinese words) use LIKE
+    const matchExpression = buildFtsMatchExpression(terms);
+    if (matchExpression) {
+      conditions.push("search_index MATCH ?");
+      bindings.push(matchExpression);
+    }
+    for (const term of getShortSearchTerms(terms)) {
+      const pattern = toLikePattern(term);
+      conditions.push("(s.title LIKE ? ESCAPE '\\' OR s.body LIKE ? ESCAPE '\\')");
+      bindings.push(pattern, pattern);
+    }
+
+    if (type) {
+      conditions.push("s.content_type = ?");
+      bindings.push(type);
+    }
+    if (categoryId) {
+      conditions.push("COALESCE(t.category_id, rt.category_id) = ?");
+      bindings.push(categoryId);
+    }
+    if (authorId) {
+      conditions.push("s.author_id = ?");
+      bindings.push(authorId);
+    }
+    if (!auth) {
+      conditions.push("(b.id IS NULL OR b.requires_auth = 0)");
+    }
+    // Blogs stay indexed while the feature is off but are not returned
+    if (!(await isFeatureEnabledFor(db, "blogs", auth ?? null))) {
+      conditions.push("s.content_type != 'blog'");
+    }
+
+    const fromClause = `
+      FROM search_index s
+      LEFT JOIN forum_threads t ON s.content_type = 'thread' AND t.id = s.content_id
+      LEFT JOIN forum_replies r ON s.content_type = 'reply' AND r.id = s.content_id
+      LEFT JOIN forum_threads rt ON rt.id = r.thread_id
+      LEFT JOIN blogs b ON s.content_type = 'blog' AND b.id = s.content_id
+      LEFT JOIN users u ON u.id = s.author_id
+      WHERE ${conditions.join(" AND ")}
+    `;
+
+    const countResult = await db
+      .prepare(`SELECT COUNT(*) as count ${fromClause}`)
+      .bind(...bindings)
+      .first<{ count: number }>();
+    const total = countResult?.count || 0;
+
+    const orderBy = matchExpression
+      ? "bm25(search_index, 10.0, 1.0), created_at DESC"
+      : "created_at DESC";
+
+    const rows = await db
+      .prepare(`
+        SELECT
+          s.content_type,
+          s.content_id,
+          s.author_id,
+          s.title,
+          s.body,
+          u.name as author_name,
+          COALESCE(t.category_id, rt.category_id) as category_id,
+          COALESCE(t.id, rt.id) as thread_id,
+          rt.title as thread_title,
+          COALESCE(t.created_at, r.created_at, b.created_at) as created_at
+        ${fromClause}
+        ORDER BY ${orderBy}
+        LIMIT ? OFFSET ?
+      `)
+      .bind(...bindings, limit, offset)
+      .all<Record<string, unknown>>();
+
+    const results: SearchResult[] = (rows.results || []).map((row) => {
+      const contentType = row.content_type as SearchContentType;
+      const contentId = row.content_id as string;
+      const threadId = (row.thread_id as string | null) || null;
+      const title = contentType === SearchContentType.Reply
+        ? (row.thread_title as string | null) || ""
+        : (row.title as string);
+
+      return {
+        type: contentType,
+        id: contentId,
+        title: highlightTerms(title, terms),
+        snippet: buildSearchSnippet(stripHtml(row.body as string), terms),
+        url: contentType === SearchContentType.Blog
+          ? `/blogs/${contentId}`
+          : `/forums/threads/${threadId}`,
+        author_id: row.author_id as string,
+        author_name: (row.author_name as string | null) || "Unknown User",
+        category_id: (row.category_id as string | null) || null,
+        thread_id: threadId,
+        created_at: row.created_at as number,
+      };
+    });
+
+    return c.json<SearchResponse>({ query, results, total, limit, offset });
+  } catch (err) {
+    console.error("Error searching content:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// Documents read and staged per batch when rebuilding the search index
+const SEARCH_REINDEX_BATCH_SIZE = 100;
+
+/**
+ * Copy every document of one content type into search_index_rebuild as plain text, in batches ordered by ID
+ * The query selects id, user_id, title and content from a single table
+ */
+async function stageSearchDocuments(db: D1Database, type: SearchContentType, query: string): Promise<number> {
+  let staged = 0;
+  let cursor = "";
+
+  for (;;) {
+    const result = await db
+      .prepare(`${query} WHERE id > ? ORDER BY id LIMIT ?`)
+      .bind(cursor, SEARCH_REINDEX_BATCH_SIZE)
+      .all<{ id: string; user_id: string; title: string; content: string }>();
+    const documents = result.results || [];
+    if (documents.length === 0) {
+      break;
+    }
+
+    await db.batch(
+      documents.map((document) =>
+        db
+          .prepare("INSERT INTO search_index_rebuild (title, body, content_type, content_id, author_id) VALUES (?, ?, ?, ?, ?)")
+          .bind(document.title, stripHtml(document.content), type, document.id, document.user_id)
+      )
+    );
+    staged += documents.length;
+
+    if (documents.length < SEARCH_REINDEX_BATCH_SIZE) {
+      break;
+    }
+    cursor = documents[documents.length - 1].id;
+  }
+
+  return staged;
+}
+
+/**
+ * POST /api/v1/admin/search/reindex - Rebuild the search index from scratch (admin only)
+ * Re-indexes every forum thread, forum reply and blog as plain text
+ * The new index is staged first and swapped in at the end; searches use the old one until then
+ */
+app.post("/api/v1/admin/search/reindex", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+
+  try {
+    // Leftovers from a rebuild that failed part-way
+    await db.prepare("DELETE FROM search_index_rebuild").run();
+
+    const threads = await stageSearchDocuments(db, SearchContentType.Thread, "SELECT id, user_id, title, content FROM forum_threads");
+    const replies = await stageSearchDocuments(db, SearchContentType.Reply, "SELECT id, user_id, '' AS title, content FROM forum_replies");
+    const blogs = await stageSearchDocuments(db, SearchContentType.Blog, "SELECT id, user_id, title, content FROM blogs");
+
+    await db.batch([
+      db.prepare("DELETE FROM search_index"),
+      db.prepare(`
+        INSERT INTO search_index (title, body, content_type, content_id, author_id)
+        SELECT title, body, content_type, content_id, author_id FROM search_index_rebuild
+      `),
+      db.prepare("DELETE FROM search_index_rebuild"),
+    ]);
+
+    return c.json({ success: true, threads, replies, blogs });
+  } catch (err) {
+    console.error("Error rebuilding search index:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// Content Reports & Moderation API (/api/v1/reports, /api/v1/admin/reports)
+// ============================================================================
+
+/**
+ * Table holding each reportable content type
+ */
+function getReportTargetTable(type: ReportTargetType): string {
+  switch (type) {
+    case ReportTargetType.Thread:
+      return "forum_threads";
+    case ReportTargetType.Reply:
+      return "forum_replies";
+    case ReportTargetType.Blog:
+      return "blogs";
+    case ReportTargetType.BlogComment:
+      return "blog_comments";
+  }
+}
+
+/**
+ * Load a summary of reported content for the moderation queue
+ * Replies and comments take the title of the thread/blog they belong to
+ * Returns null when the content no longer exists
+ */
+async function getReportedContent(
+  db: D1Database,
+  type: ReportTargetType,
+  id: string
+): Promise<(ReportedContent & { parent_id: string | null }) | null> {
+  let query: string;
+  switch (type) {
+    case ReportTargetType.Thread:
+      query = `
+        SELECT t.user_id as author_id, t.title, t.content, t.hidden_at, NULL as parent_id, u.name as author_name
+        FROM forum_threads t
+        LEFT JOIN users u ON u.id = t.user_id
+        WHERE t.id = ?
+      `;
+      break;
+    case ReportTargetType.Reply:
+      query = `
+        SELECT r.user_id as author_id, t.title, r.content, r.hidden_at, r.thread_id as parent_id, u.name as author_name
+        FROM forum_replies r
+        JOIN forum_threads t ON t.id = r.thread_id
+        LEFT JOIN users u ON u.id = r.user_id
+        WHERE r.id = ?
+      `;
+      break;
+    case ReportTargetType.Blog:
+      query = `
+        SELECT b.user_id as author_id, b.title, b.content, b.hidden_at, NULL as parent_id, u.name as author_name
+        FROM blogs b
+        LEFT JOIN users u ON u.id = b.user_id
+        WHERE b.id = ?
+      `;
+      break;
+    case ReportTargetType.BlogComment:
+      query = `
+        SELECT bc.user_id as author_id, b.title, bc.content, bc.hidden_at, bc.blog_id as parent_id, u.name as author_name
+        FROM blog_comments bc
+        JOIN blogs b ON b.id = bc.blog_id
+        LEFT JOIN users u ON u.id = bc.user_id
+        WHERE bc.id = ?
+      `;
+      break;
+  }
+
+  const row = await db
+    .prepare(query)
+    .bind(id)
+    .first<{
+      author_id: string;
+      title: string;
+      content: string;
+      hidden_at: number | null;
+      parent_id: string | null;
+      author_name: string | null;
+    }>();
+
+  if (!row) {
+    return null;
+  }
+
+  let link: string;
+  switch (type) {
+    case ReportTargetType.Thread:
+      link = `/forums/threads/${id}`;
+      break;
+    case ReportTargetType.Reply:
+      link = `/forums/threads/${row.parent_id}`;
+      break;
+    case ReportTargetType.Blog:
+      link = `/blogs/${id}`;
+      break;
+    case ReportTargetType.BlogComment:
+      link = `/blogs/${row.parent_id}#comments`;
+      break;
+  }
+
+  const text = stripHtml(row.content || "");
+  return {
+    title: row.title,
+    excerpt: text.length > 300 ? `${text.substring(0, 300)}...` : text,
+    author_id: row.author_id,
+    author_name: row.author_name || "Unknown User",
+    link,
+    hidden: Boolean(row.hidden_at),
+    parent_id: row.parent_id,
+  };
+}
+
+/**
+ * Replace the content of hidden replies and blog comments with a placeholder
+ * Keeps nested threads intact, like soft-deleted comments
+ */
+function maskHiddenContent<T extends Record<string, unknown>>(row: T): T {
+  return row.hidden_at ? { ...row, content: HIDDEN_CONTENT_PLACEHOLDER } : row;
+}
+
+/**
+ * Delete reported content on behalf of a moderator
+ * Mirrors the per-item delete routes: threads and blog comments are soft-deleted, everything else is removed
+ */
+async function deleteReportedContent(
+  db: D1Database,
+  type: ReportTargetType,
+  id: string,
+  parentId: string | null,
+  deletedBy: string
+): Promise<void> {
+  const now = getTimestamp();
+
+  switch (type) {
+    case ReportTargetType.Thread:
+      await softDeleteForumThread(db, id, deletedBy);
+      break;
+    case ReportTargetType.Reply:
+      await db
+        .prepare("DELETE FROM forum_votes WHERE votable_type = 'reply' AND votable_id = ?")
+        .bind(id)
+        .run();
+      await db.prepare("DELETE FROM forum_replies WHERE id = ?").bind(id).run();
+      await db
+        .prepare("DELETE FROM forum_revisions WHERE content_type = 'reply' AND content_id = ?")
+        .bind(id)
+        .run();
+      await db
+        .prepare(
+          "UPDATE forum_threads SET reply_count = MAX(0, reply_count - 1), last_activity_at = ? WHERE id = ?"
+        )
+        .bind(now, parentId)
+        .run();
+      await removeSearchDocument(db, SearchContentType.Reply, id);
+      break;
+    case ReportTargetType.Blog:
+      await db.prepare("DELETE FROM blogs WHERE id = ?").bind(id).run();
+      await removeSearchDocument(db, SearchContentType.Blog, id);
+      break;
+    case ReportTargetType.BlogComment:
+      await db
+        .prepare("UPDATE blog_comments SET content = '[deleted]', updated_at = ? WHERE id = ?")
+        .bind(now, id)
+        .run();
+      break;
+  }
+}
+
+/**
+ * POST /api/v1/reports - Report a forum thread, forum reply, blog or blog comment
+ * Body:
+ *   - target_type: (required) thread, reply, blog or blog_comment
+ *   - target_id: (required) ID of the content
+ *   - reason: (required) spam, harassment, inappropriate, misinformation or other
+ *   - details: (optional) Free-text explanation
+ * A user can have one open report per piece of content
+ */
+app.post("/api/v1/reports", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const body = await c.req.json<Partial<CreateReportDTO>>().catch(() => ({} as Partial<CreateReportDTO>));
+
+  if (!isReportTargetType(body.target_type) || !body.target_id) {
+    return c.json({ error: "Valid target_type and target_id are required" }, 400);
+  }
+
+  if (!isReportReason(body.reason)) {
+    return c.json({ error: "Invalid reason. Must be one of: spam, harassment, inappropriate, misinformation, other" }, 400);
+  }
+
+  const details = body.details?.trim() || null;
+  if (details && details.length > MAX_REPORT_DETAILS_LENGTH) {
+    return c.json({ error: `Details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters` }, 400);
+  }
+
+  try {
+    const content = await getReportedContent(db, body.target_type, body.target_id);
+    if (!content) {
+      return c.json({ error: "Content not found" }, 404);
+    }
+
+    if (content.author_id === auth.userId) {
+      return c.json({ error: "You cannot report your own content" }, 400);
+    }
+
+    const existing = await db
+      .prepare(`
+        SELECT id FROM reports
+        WHERE reporter_id = ? AND target_type = ? AND target_id = ? AND status = 'open'
+      `)
+      .bind(auth.userId, body.target_type, body.target_id)
+      .first();
+
+    if (existing) {
+      return c.json({ error: "You have already reported this content" }, 409);
+    }
+
+    const report: ContentReport = {
+      id: generateReportId(),
+      target_type: body.target_type,
+      target_id: body.target_id,
+      reporter_id: auth.userId,
+      reason: body.reason,
+      details,
+      status: ReportStatus.Open,
+      resolved_by: null,
+      resolved_at: null,
+      created_at: getTimestamp(),
+    };
+
+    await db
+      .prepare(`
+        INSERT INTO reports (id, target_type, target_id, reporter_id, reason, details, status, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(
+        report.id,
+        report.target_type,
+        report.target_id,
+        report.reporter_id,
+        report.reason,
+        report.details,
+        report.status,
+        report.created_at
+      )
+      .run();
+
+    return c.json({ report }, 201);
+  } catch (err) {
+    console.error("Error creating report:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/admin/reports - Moderation queue (admin only)
+ * Reports are grouped by target, most reported first
+ * Query params:
+ *   - status: (optional) open (default), dismissed or resolved
+ *   - type: (optional) thread, reply, blog or blog_comment
+ *   - limit: (optional) Groups per page (default 20, max 50)
+ *   - offset: (optional) Pagination offset (default 0)
+ */
+app.get("/api/v1/admin/reports", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const status = c.req.query("status") || ReportStatus.Open;
+  const type = c.req.query("type");
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "20") || 20, 1), MAX_REPORT_GROUPS_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  if (!Object.values(ReportStatus).includes(status as ReportStatus)) {
+    return c.json({ error: "Invalid status. Must be one of: open, dismissed, resolved" }, 400);
+  }
+
+  if (type && !isReportTargetType(type)) {
+    return c.json({ error: "Invalid type. Must be one of: thread, reply, blog, blog_comment" }, 400);
+  }
+
+  try {
+    let whereClause = "WHERE status = ?";
+    const bindings: (string | number)[] = [status];
+    if (type) {
+      whereClause += " AND target_type = ?";
+      bindings.push(type);
+    }
+
+    const countResult = await db
+      .prepare(`
+        SELECT COUNT(*) as count FROM (
+          SELECT 1 FROM reports ${whereClause} GROUP BY target_type, target_id
+        )
+      `)
+      .bind(...bindings)
+      .first<{ count: number }>();
+
+    const groupsResult = await db
+      .prepare(`
+        SELECT
+          target_type,
+          target_id,
+          COUNT(*) as report_count,
+          MIN(created_at) as first_reported_at,
+          MAX(created_at) as last_reported_at
+        FROM reports
+        ${whereClause}
+        GROUP BY target_type, target_id
+        ORDER BY report_count DESC, last_reported_at DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(...bindings, limit, offset)
+      .all<{
+        target_type: ReportTargetType;
+        target_id: string;
+        report_count: number;
+        first_reported_at: number;
+        last_reported_at: number;
+      }>();
+
+    const groups: ReportGroup[] = await Promise.all(
+      (groupsResult.results || []).map(async (group) => {
+        const reportsResult = await db
+          .prepare(`
+            SELECT r.*, u.name as reporter_name
+            FROM reports r
+            LEFT JOIN users u ON u.id = r.reporter_id
+            WHERE r.target_type = ? AND r.target_id = ? AND r.status = ?
+            ORDER BY r.created_at DESC
+          `)
+          .bind(group.target_type, group.target_id, status)
+          .all<Record<string, unknown>>();
+
+        const content = await getReportedContent(db, group.target_type, group.target_id);
+
+        return {
+          ...group,
+          content: content
+            ? {
+                title: content.title,
+                excerpt: content.excerpt,
+                author_id: content.author_id,
+                author_name: content.author_name,
+                link: content.link,
+                hidden: content.hidden,
+              }
+            : null,
+          reports: (reportsResult.results || []).map(normalizeContentReport),
+        };
+      })
+    );
+
+    return c.json<GetReportGroupsResponse>({ groups, total: countResult?.count || 0 });
+  } catch (err) {
+    console.error("Error fetching reports:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/reports/:targetType/:targetId/actions - Act on reported content (admin only)
+ * Body:
+ *   - action: (required) dismiss, hide, delete or warn
+ *   - note: (optional) Moderator note; required for warn and sent to the author
+ * Closes every open report about the content and records the action
+ */
+app.post("/api/v1/admin/reports/:targetType/:targetId/actions", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const targetType = c.req.param("targetType");
+  const targetId = c.req.param("targetId");
+  const body = await c.req.json<Partial<ModerationActionDTO>>().catch(() => ({} as Partial<ModerationActionDTO>));
+
+  if (!isReportTargetType(targetType)) {
+    return c.json({ error: "Invalid target type" }, 400);
+  }
+
+  if (!isModerationActionType(body.action)) {
+    return c.json({ error: "Invalid action. Must be one of: dismiss, hide, delete, warn" }, 400);
+  }
+
+  const note = body.note?.trim() || null;
+  if (note && note.length > MAX_MODERATION_NOTE_LENGTH) {
+    return c.json({ error: `Note must be at most ${MAX_MODERATION_NOTE_LENGTH} characters` }, 400);
+  }
+
+  if (body.action === ModerationActionType.Warn && !note) {
+    return c.json({ error: "A note for the author is required when warning" }, 400);
+  }
+
+  try {
+    const content = await getReportedContent(db, targetType, targetId);
+    if (!content && body.action !== ModerationActionType.Dismiss) {
+      return c.json({ error: "Content not found" }, 404);
+    }
+
+    const now = getTimestamp();
+
+    switch (body.action) {
+      case ModerationActionType.Hide:
+        await db
+          .prepare(`UPDATE ${getReportTargetTable(targetType)} SET hidden_at = ? WHERE id = ?`)
+          .bind(now, targetId)
+          .run();
+        break;
+      case ModerationActionType.Delete:
+        await deleteReportedContent(db, targetType, targetId, content?.parent_id || null, auth.userId);
+        break;
+      case ModerationActionType.Warn:
+        await createNotification(c.env, {
+          user_id: content!.author_id,
+          type: NotificationType.ContentWarning,
+          data: { title: content!.title, note: note! },
+          link: content!.link,
+        });
+        break;
+    }
+
+    const closeResult = await db
+      .prepare(`
+        UPDATE reports SET status = ?, resolved_by = ?, resolved_at = ?
+        WHERE target_type = ? AND target_id = ? AND status = 'open'
+      `)
+      .bind(
+        body.action === ModerationActionType.Dismiss ? ReportStatus.Dismissed : ReportStatus.Resolved,
+        auth.userId,
+        now,
+        targetType,
+        targetId
+      )
+      .run();
+
+    const action: ModerationAction = {
+      id: generateModerationActionId(),
+      target_type: targetType,
+      target_id: targetId,
+      action: body.action,
+      admin_id: auth.userId,
+      author_id: content?.author_id || null,
+      note,
+      reports_closed: closeResult.meta?.changes || 0,
+      created_at: now,
+    };
+
+    await db
+      .prepare(`
+        INSERT INTO moderation_actions (id, target_type, target_id, action, admin_id, author_id, note, reports_closed, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(
+        action.id,
+        action.target_type,
+        action.target_id,
+        action.action,
+        action.admin_id,
+        action.author_id,
+        action.note,
+        action.reports_closed,
+        action.created_at
+      )
+      .run();
+
+    return c.json({ success: true, action });
+  } catch (err) {
+    console.error("Error applying moderation action:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// Match Management API (/api/v1/matches)
+// ============================================================================
+
+/**
+ * POST /api/v1/matches - Create match request (mentee-initiated)
+ */
+app.post("/api/v1/matches", requireAuth, async (c) => {
+  try {
+    const body = await c.req.json<CreateMatchRequest>();
+
+    // Validation: Required fields
+    if (!body.mentor_id) {
+      return c.json({ error: "mentor_id is required" }, 400);
+    }
+    if (!body.introduction) {
+      return c.json({ error: "introduction is required" }, 400);
+    }
+    if (!body.preferred_time) {
+      return c.json({ error: "preferred_time is required" }, 400);
+    }
+
+    // Check if mentor user exists
+    const mentorUser = await c.env.platform_db
+      .prepare("SELECT id FROM users WHERE id = ?")
+      .bind(body.mentor_id)
+      .first();
+
+    if (!mentorUser) {
+      return c.json({ error: "Mentor user not found" }, 400);
+    }
+
+    // Check if mentor profile exists
+    const mentorProfile = await c.env.platform_db
+      .prepare("SELECT id FROM mentor_profiles WHERE user_id = ?")
+      .bind(body.mentor_id)
+      .first();
+
+    if (!mentorProfile) {
+      return c.json({ error: "Mentor mentor profile not found" }, 400);
+    }
+
+    // Get current user (mentee) from JWT authentication
+    const user = c.get('user') as AuthPayload;
+    const menteeId = user.userId;
+
+    // Check if mentee tries to match with themselves
+    if (body.mentor_id === menteeId) {
+      return c.json({ error: "Cannot match with themselves" }, 400);
+    }
+
+    // Check if duplicate match already exists
+    const existingMatch = await c.env.platform_db
+      .prepare("SELECT id FROM matches WHERE mentor_id = ? AND mentee_id = ?")
+      .bind(body.mentor_id, menteeId)
+      .first();
+
+    if (existingMatch) {
+      return c.json({ error: "Duplicate match already exists" }, 409);
+    }
+
+    // Validate that mentee has uploaded CV (CV is mandatory)
+    const menteeUser = await c.env.platform_db
+      .prepare("SELECT cv_url FROM users WHERE id = ?")
+      .bind(menteeId)
+      .first<{ cv_url: string | null }>();
+
+    if (!menteeUser?.cv_url) {
+      return c.json({ error: "CV is required to send mentorship request" }, 400);
+    }
+
+    // Create match
+    const matchId = generateId();
+    const timestamp = getTimestamp();
+    const cvIncluded = 1; // Always 1 since CV is mandatory
+
+    await c.env.platform_db
+      .prepare(
+        "INSERT INTO matches (id, mentor_id, mentee_id, status, introduction, preferred_time, cv_included, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+      )
+      .bind(matchId, body.mentor_id, menteeId, "pending", body.introduction, body.preferred_time, cvIncluded, timestamp, timestamp)
+      .run();
+
+    await createNotification(c.env, {
+      user_id: body.mentor_id,
+      type: NotificationType.MatchRequested,
+      actor_id: menteeId,
+      data: { actor_name: user.name },
+      link: "/matches",
+    });
+
+    const match: Match = {
+      id: matchId,
+      mentor_id: body.mentor_id,
+      mentee_id: menteeId,
+      status: "pending",
+      introduction: body.introduction,
+      preferred_time: body.preferred_time,
+      cv_included: cvIncluded,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    return c.json<Match>(match, 201);
+  } catch {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+});
+
+/**
+ * GET /api/v1/matches/check/:mentorId - Check if match exists between current user (mentee) and mentor
+ * Returns the existing match status, or 404 if no match exists
+ */
+app.get("/api/v1/matches/check/:mentorId", requireAuth, async (c) => {
+  try {
+    const mentorId = c.req.param("mentorId");
+    const user = c.get('user') as AuthPayload;
+    const menteeId = user.userId;
+
+    // Check for any non-rejected match between mentee and mentor
+    const result = await c.env.platform_db
+      .prepare(
+        `SELECT id, status FROM matches
+         WHERE mentee_id = ? AND mentor_id = ? AND status != 'rejected'
+         LIMIT 1`
+      )
+      .bind(menteeId, mentorId)
+      .first<{ id: string; status: string }>();
+
+    if (!result) {
+      return c.json({ exists: false }, 404);
+    }
+
+    return c.json({
+      exists: true,
+      matchId: result.id,
+      status: result.status,
+    });
+  } catch {
+    return c.json({ error: "Invalid request" }, 400);
+  }
+});
+
+/**
+ * GET /api/v1/matches - List matches for user (mentor or mentee)
+ */
+app.get("/api/v1/matches", requireAuth, async (c) => {
+  try {
+    // Get current user from JWT authentication
+    const user = c.get('user') as AuthPayload;
+    const userId = user.userId;
+
+    const statusParam = c.req.query("status");
+    const roleParam = c.req.query("role");
+
+    // Validate status if provided
+    if (statusParam && !["pending", "accepted", "rejected", "active", "completed"].includes(statusParam)) {
+      return c.json({ error: "Invalid status value" }, 400);
+    }
+
+    // Build WHERE clause
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    // Filter by user (as mentor or mentee)
+    conditions.push("(matches.mentor_id = ? OR matches.mentee_id = ?)");
+    params.push(userId, userId);
+
+    // Filter by role if provided
+    if (roleParam === "mentor") {
+      conditions.push("matches.mentor_id = ?");
+      params.push(userId);
+    } else if (roleParam === "mentee") {
+      conditions.push("matches.mentee_id = ?");
+      params.push(userId);
+    }
+
+    // Filter by status if provided
+    if (statusParam) {
+      conditions.push("matches.status = ?");
+      params.push(statusParam);
+    }
+
+    const whereClause = `WHERE ${conditions.join(" AND ")}`;
+
+    // Get matches with mentor and mentee names via JOIN
+    // For active/completed matches, also include email addresses and mentor LinkedIn URL
+    // Review fields let mentees see whether a completed match can still be reviewed
+    const sql = `
+      SELECT
+        matches.id,
+        matches.mentor_id,
+        matches.mentee_id,
+        mentor_users.name as mentor_name,
+        mentee_users.name as mentee_name,
+        CASE
+          WHEN matches.status IN ('active', 'completed') THEN mentor_users.email
+          ELSE NULL
+        END as mentor_email,
+        CASE
+          WHEN matches.status IN ('active', 'completed') THEN mentee_users.email
+          ELSE NULL
+        END as mentee_email,
+        CASE
+          WHEN matches.status IN ('active', 'completed') THEN mentor_profiles.linkedin_url
+          ELSE NULL
+        END as mentor_linkedin_url,
+        matches.status,
+        matches.introduction,
+        matches.preferred_time,
+        matches.cv_included,
+        mentor_profiles.allow_reviews as mentor_allow_reviews,
+        CASE WHEN mentor_reviews.id IS NOT NULL THEN 1 ELSE 0 END as has_review,
+        matches.created_at,
+        matches.updated_at
+      FROM matches
+      LEFT JOIN users as mentor_users ON matches.mentor_id = mentor_users.id
+      LEFT JOIN users as mentee_users ON matches.mentee_id = mentee_users.id
+      LEFT JOIN mentor_profiles ON matches.mentor_id = mentor_profiles.user_id
+      LEFT JOIN mentor_reviews ON mentor_reviews.match_id = matches.id
+      ${whereClause}
+      ORDER BY matches.created_at DESC
+    `;
+
+    const results = await c.env.platform_db
+      .prepare(sql)
+      .bind(...params)
+      .all<Match>();
+
+    // Unread message counts, keyed by match
+    const unreadMessages = await c.env.platform_db
+      .prepare(`
+        SELECT match_id, COUNT(*) as count
+        FROM match_messages
+        WHERE recipient_id = ? AND read_at IS NULL
+        GROUP BY match_id
+      `)
+      .bind(userId)
+      .all<{ match_id: string; count: number }>();
+    const unreadByMatch = new Map((unreadMessages.results || []).map((row) => [row.match_id, row.count]));
+
+    const response: GetMatchesResponse = {
+      matches: (results.results || []).map((match) => ({
+        ...match,
+        unread_message_count: unreadByMatch.get(match.id) || 0,
+      })),
+    };
+
+    return c.json<GetMatchesResponse>(response);
+  } catch {
+    return c.json({ error: "Invalid request" }, 400);
+  }
+});
+
+/**
+ * POST /api/v1/matches/:id/respond - Mentor accepts or rejects match
+ */
+app.post("/api/v1/matches/:id/respond", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const body = await c.req.json<RespondToMatchRequest>();
+
+    // Validation: action must be provided
+    if (!body.action || !["accept", "reject"].includes(body.action)) {
+      return c.json({ error: "action must be 'accept' or 'reject'" }, 400);
+    }
+
+    // Get match
+    const match = await c.env.platform_db
+      .prepare("SELECT * FROM matches WHERE id = ?")
+      .bind(matchId)
+      .first();
+
+    if (!match) {
+      return c.json({ error: "Match not found" }, 404);
+    }
+
+    // Validate match is in pending state
+    if (match.status !== "pending") {
+      return c.json({ error: "Match is not in pending state" }, 400);
+    }
+
+    // Determine new status
+    const newStatus = body.action === "accept" ? "active" : "rejected";
+
+    // Update match
+    const timestamp = getTimestamp();
+    await c.env.platform_db
+      .prepare("UPDATE matches SET status = ?, updated_at = ? WHERE id = ?")
+      .bind(newStatus, timestamp, matchId)
+      .run();
+
+    // Let the mentee know how the mentor responded
+    const responder = c.get("user") as AuthPayload;
+    await createNotification(c.env, {
+      user_id: match.mentee_id as string,
+      type: body.action === "accept" ? NotificationType.MatchAccepted : NotificationType.MatchRejected,
+      actor_id: match.mentor_id as string,
+      data: { actor_name: responder.name },
+      link: "/matches",
+    });
+
+    // Fetch and return updated match
+    const updated = await c.env.platform_db
+      .prepare("SELECT * FROM matches WHERE id = ?")
+      .bind(matchId)
+      .first<Match>();
+
+    if (!updated) {
+      return c.json({ error: "Match not found" }, 404);
+    }
+
+    return c.json<Match>(updated);
+  } catch {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+});
+
+/**
+ * PATCH /api/v1/matches/:id/complete - Mark match as completed
+ */
+app.patch("/api/v1/matches/:id/complete", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+
+    // Get match
+    const match = await c.env.platform_db
+      .prepare("SELECT * FROM matches WHERE id = ?")
+      .bind(matchId)
+      .first();
+
+    if (!match) {
+      return c.json({ error: "Match not found" }, 404);
+    }
+
+    // Validate match is in active state
+    if (match.status !== "active") {
+      return c.json({ error: "Match is not active" }, 400);
+    }
+
+    // Update match to completed
+    const timestamp = getTimestamp();
+    await c.env.platform_db
+      .prepare("UPDATE matches SET status = ?, updated_at = ? WHERE id = ?")
+      .bind("completed", timestamp, matchId)
+      .run();
+
+    await evaluateBadges(c.env.platform_db, match.mentor_id as string);
+
+    // Fetch and return updated match
+    const updated = await c.env.platform_db
+      .prepare("SELECT * FROM matches WHERE id = ?")
+      .bind(matchId)
+      .first<Match>();
+
+    if (!updated) {
+      return c.json({ error: "Match not found" }, 404);
+    }
+
+    return c.json<Match>(updated);
+  } catch {
+    return c.json({ error: "Invalid request" }, 400);
+  }
+});
+
+/**
+ * DELETE /api/v1/matches/:id - Cancel/delete match
+ */
+app.delete("/api/v1/matches/:id", requireAuth, async (c) => {
+  const matchId = c.req.param("id");
+
+  // Check if match exists
+  const existing = await c.env.platform_db
+    .prepare("SELECT id FROM matches WHERE id = ?")
+    .bind(matchId)
+    .first();
+
+  if (!existing) {
+    return c.json({ error: "Match not found" }, 404);
+  }
+
+  // Delete the match
+  await c.env.platform_db
+    .prepare("DELETE FROM matches WHERE id = ?")
+    .bind(matchId)
+    .run();
+
+  return c.json({ success: true });
+});
+
+// ============================================================================
+// Match Sessions API (/api/v1/matches/:id/sessions)
+// ============================================================================
+
+/**
+ * Load a match and verify the user is one of its participants (mentor or mentee)
+ */
+async function getMatchForParticipant(
+  db: D1Database,
+  matchId: string,
+  userId: string
+): Promise<{ match: Match; error?: never } | { match?: never; error: { message: string; status: 403 | 404 } }> {
+  const match = await db
+    .prepare("SELECT * FROM matches WHERE id = ?")
+    .bind(matchId)
+    .first<Match>();
+
+  if (!match) {
+    return { error: { message: "Match not found", status: 404 } };
+  }
+
+  if (match.mentor_id !== userId && match.mentee_id !== userId) {
+    return { error: { message: "Only match participants can access this match", status: 403 } };
+  }
+
+  return { match };
+}
+
+/**
+ * Validate session time fields shared by propose and reschedule
+ * @returns Error message, or null if valid
+ */
+function validateSessionTime(body: ProposeSessionDTO | RescheduleSessionDTO): string | null {
+  if (typeof body.start_time !== "number" || !Number.isInteger(body.start_time)) {
+    return "start_time must be a Unix timestamp in seconds";
+  }
+  if (body.start_time <= getTimestamp()) {
+    return "start_time must be in the future";
+  }
+  if (
+    body.duration_minutes !== undefined &&
+    (!Number.isInteger(body.duration_minutes) ||
+      body.duration_minutes <= 0 ||
+      body.duration_minutes > MAX_SESSION_DURATION_MINUTES)
+  ) {
+    return `duration_minutes must be between 1 and ${MAX_SESSION_DURATION_MINUTES}`;
+  }
+  return null;
+}
+
+/**
+ * Check that a meeting link is an http(s) URL
+ */
+function isValidMeetingLink(link: string): boolean {
+  try {
+    const url = new URL(link);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a session belonging to a match
+ */
+async function getMatchSession(db: D1Database, matchId: string, sessionId: string): Promise<MatchSession | null> {
+  const row = await db
+    .prepare("SELECT * FROM match_sessions WHERE id = ? AND match_id = ?")
+    .bind(sessionId, matchId)
+    .first<Record<string, unknown>>();
+
+  return row ? normalizeMatchSession(row) : null;
+}
+
+/**
+ * GET /api/v1/matches/:id/sessions - List sessions of a match (participants only)
+ */
+app.get("/api/v1/matches/:id/sessions", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const user = c.get("user") as AuthPayload;
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    const sessions = await c.env.platform_db
+      .prepare("SELECT * FROM match_sessions WHERE match_id = ? ORDER BY start_time ASC")
+      .bind(matchId)
+      .all<Record<string, unknown>>();
+
+    return c.json({ sessions: (sessions.results || []).map(normalizeMatchSession) });
+  } catch (err) {
+    console.error("Error fetching match sessions:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/matches/:id/sessions - Propose a session time (either participant, active matches only)
+ */
+app.post("/api/v1/matches/:id/sessions", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const user = c.get("user") as AuthPayload;
+    const body = await c.req.json<ProposeSessionDTO>();
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    if (result.match.status !== "active") {
+      return c.json({ error: "Sessions can only be scheduled for active matches" }, 400);
+    }
+
+    const validationError = validateSessionTime(body);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const meetingLink = body.meeting_link?.trim() || null;
+    if (meetingLink && !isValidMeetingLink(meetingLink)) {
+      return c.json({ error: "meeting_link must be a valid http(s) URL" }, 400);
+    }
+
+    const timestamp = getTimestamp();
+    const session: MatchSession = {
+      id: generateMatchSessionId(),
+      match_id: matchId,
+      proposed_by_user_id: user.userId,
+      start_time: body.start_time,
+      duration_minutes: body.duration_minutes ?? DEFAULT_SESSION_DURATION_MINUTES,
+      meeting_link: meetingLink,
+      status: SessionStatus.Proposed,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    await c.env.platform_db
+      .prepare(`
+        INSERT INTO match_sessions (id, match_id, proposed_by_user_id, start_time, duration_minutes, meeting_link, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(
+        session.id,
+        session.match_id,
+        session.proposed_by_user_id,
+        session.start_time,
+        session.duration_minutes,
+        session.meeting_link,
+        session.status,
+        session.created_at,
+        session.updated_at
+      )
+      .run();
+
+    return c.json({ session }, 201);
+  } catch (err) {
+    console.error("Error proposing session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/matches/:id/sessions/:sessionId/confirm - Confirm a proposed session
+ * Only the participant who did not propose the current time can confirm it
+ */
+app.post("/api/v1/matches/:id/sessions/:sessionId/confirm", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const sessionId = c.req.param("sessionId");
+    const user = c.get("user") as AuthPayload;
+    const body = await c.req.json<ConfirmSessionDTO>().catch(() => ({} as ConfirmSessionDTO));
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    if (result.match.status !== "active") {
+      return c.json({ error: "Sessions can only be confirmed for active matches" }, 400);
+    }
+
+    const session = await getMatchSession(c.env.platform_db, matchId, sessionId);
+    if (!session) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+
+    if (session.status !== SessionStatus.Proposed) {
+      return c.json({ error: "Only proposed sessions can be confirmed" }, 400);
+    }
+
+    if (session.proposed_by_user_id === user.userId) {
+      return c.json({ error: "The other participant must confirm this session" }, 403);
+    }
+
+    const meetingLink = body.meeting_link?.trim() || session.meeting_link;
+    if (meetingLink && !isValidMeetingLink(meetingLink)) {
+      return c.json({ error: "meeting_link must be a valid http(s) URL" }, 400);
+    }
+
+    const timestamp = getTimestamp();
+    await c.env.platform_db
+      .prepare("UPDATE match_sessions SET status = ?, meeting_link = ?, updated_at = ? WHERE id = ?")
+      .bind(SessionStatus.Confirmed, meetingLink, timestamp, sessionId)
+      .run();
+
+    return c.json({
+      session: { ...session, status: SessionStatus.Confirmed, meeting_link: meetingLink, updated_at: timestamp },
+    });
+  } catch (err) {
+    console.error("Error confirming session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/matches/:id/sessions/:sessionId/reschedule - Propose a new time for a session
+ * Works on proposed or confirmed sessions; the session goes back to proposed
+ * and now needs confirmation from the other participant
+ */
+app.post("/api/v1/matches/:id/sessions/:sessionId/reschedule", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const sessionId = c.req.param("sessionId");
+    const user = c.get("user") as AuthPayload;
+    const body = await c.req.json<RescheduleSessionDTO>();
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    if (result.match.status !== "active") {
+      return c.json({ error: "Sessions can only be rescheduled for active matches" }, 400);
+    }
+
+    const session = await getMatchSession(c.env.platform_db, matchId, sessionId);
+    if (!session) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+
+    if (session.status === SessionStatus.Cancelled) {
+      return c.json({ error: "Cancelled sessions cannot be rescheduled" }, 400);
+    }
+
+    const validationError = validateSessionTime(body);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const meetingLink = body.meeting_link === undefined
+      ? session.meeting_link
+      : body.meeting_link?.trim() || null;
+    if (meetingLink && !isValidMeetingLink(meetingLink)) {
+      return c.json({ error: "meeting_link must be a valid http(s) URL" }, 400);
+    }
+
+    const updated: MatchSession = {
+      ...session,
+      proposed_by_user_id: user.userId,
+      start_time: body.start_time,
+      duration_minutes: body.duration_minutes ?? session.duration_minutes,
+      meeting_link: meetingLink,
+      status: SessionStatus.Proposed,
+      updated_at: getTimestamp(),
+    };
+
+    await c.env.platform_db
+      .prepare(`
+        UPDATE match_sessions
+        SET proposed_by_user_id = ?, start_time = ?, duration_minutes = ?, meeting_link = ?, status = ?, updated_at = ?
+        WHERE id = ?
+      `)
+      .bind(
+        updated.proposed_by_user_id,
+        updated.start_time,
+        updated.duration_minutes,
+        updated.meeting_link,
+        updated.status,
+        updated.updated_at,
+        sessionId
+      )
+      .run();
+
+    return c.json({ session: updated });
+  } catch (err) {
+    console.error("Error rescheduling session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/matches/:id/sessions/:sessionId/cancel - Cancel a session (either participant)
+ */
+app.post("/api/v1/matches/:id/sessions/:sessionId/cancel", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const sessionId = c.req.param("sessionId");
+    const user = c.get("user") as AuthPayload;
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    const session = await getMatchSession(c.env.platform_db, matchId, sessionId);
+    if (!session) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+
+    if (session.status === SessionStatus.Cancelled) {
+      return c.json({ error: "Session is already cancelled" }, 400);
+    }
+
+    const timestamp = getTimestamp();
+    await c.env.platform_db
+      .prepare("UPDATE match_sessions SET status = ?, updated_at = ? WHERE id = ?")
+      .bind(SessionStatus.Cancelled, timestamp, sessionId)
+      .run();
+
+    return c.json({ session: { ...session, status: SessionStatus.Cancelled, updated_at: timestamp } });
+  } catch (err) {
+    console.error("Error cancelling session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/matches/:id/sessions/:sessionId/ics - Download a confirmed session as an .ics file
+ */
+app.get("/api/v1/matches/:id/sessions/:sessionId/ics", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const sessionId = c.req.param("sessionId");
+    const user = c.get("user") as AuthPayload;
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    const session = await getMatchSession(c.env.platform_db, matchId, sessionId);
+    if (!session) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+
+    if (session.status !== SessionStatus.Confirmed) {
+      return c.json({ error: "Only confirmed sessions can be exported" }, 400);
+    }
+
+    // Name both participants so the calendar entry makes sense for either of them
+    const participants = await c.env.platform_db
+      .prepare("SELECT id, name FROM users WHERE id IN (?, ?)")
+      .bind(result.match.mentor_id, result.match.mentee_id)
+      .all<{ id: string; name: string }>();
+    const names = new Map((participants.results || []).map((p) => [p.id, p.name]));
+    const mentorName = names.get(result.match.mentor_id) || "Mentor";
+    const menteeName = names.get(result.match.mentee_id) || "Mentee";
+
+    const host = new URL(c.req.url).host;
+    const ics = buildIcsCalendar([
+      {
+        uid: `${session.id}@${host}`,
+        start: session.start_time,
+        end: session.start_time + session.duration_minutes * 60,
+        summary: `Mentoring session: ${mentorName} / ${menteeName}`,
+        description: session.meeting_link ? `Meeting link: ${session.meeting_link}` : null,
+        location: session.meeting_link,
+        url: session.meeting_link,
+        status: "CONFIRMED",
+        lastModified: session.updated_at,
+      },
+    ]);
+
+    return c.body(ics, 200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="mentoring-session-${session.id}.ics"`,
+    });
+  } catch (err) {
+    console.error("Error exporting session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// Match Messages API (/api/v1/matches/:id/messages)
+// ============================================================================
+
+/**
+ * GET /api/v1/matches/:id/messages - List messages of a match (participants only)
+ * Query parameters:
+ * - limit: messages per page (default: 50, max: 100)
+ * - offset: number of newer messages to skip (default: 0 = latest page)
+ * Each page is returned in chronological order
+ */
+app.get("/api/v1/matches/:id/messages", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const user = c.get("user") as AuthPayload;
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    const limit = Math.min(parseInt(c.req.query("limit") || "", 10) || DEFAULT_MESSAGES_PAGE_SIZE, MAX_MESSAGES_PAGE_SIZE);
+    const offset = Math.max(parseInt(c.req.query("offset") || "0", 10) || 0, 0);
+
+    const messages = await c.env.platform_db
+      .prepare(`
+        SELECT match_messages.*, users.name as sender_name
+        FROM match_messages
+        LEFT JOIN users ON users.id = match_messages.sender_id
+        WHERE match_messages.match_id = ?
+        ORDER BY match_messages.created_at DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(matchId, limit, offset)
+      .all<Record<string, unknown>>();
+
+    const counts = await c.env.platform_db
+      .prepare(`
+        SELECT
+          COUNT(*) as total,
+          SUM(CASE WHEN recipient_id = ? AND read_at IS NULL THEN 1 ELSE 0 END) as unread_count
+        FROM match_messages
+        WHERE match_id = ?
+      `)
+      .bind(user.userId, matchId)
+      .first<{ total: number; unread_count: number | null }>();
+
+    const response: GetMatchMessagesResponse = {
+      messages: (messages.results || []).map(normalizeMatchMessage).reverse(),
+      total: counts?.total || 0,
+      unread_count: counts?.unread_count || 0,
+    };
+
+    return c.json<GetMatchMessagesResponse>(response);
+  } catch (err) {
+    console.error("Error fetching match messages:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/matches/:id/messages - Send a message to the other participant (active matches only)
+ * Content is sanitized with the same HTML allowlist as forum posts
+ */
+app.post("/api/v1/matches/:id/messages", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const user = c.get("user") as AuthPayload;
+
+    let body: SendMessageDTO;
+    try {
+      body = await c.req.json<SendMessageDTO>();
+    } catch {
+      return c.json({ error: "Invalid request body" }, 400);
+    }
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+    const { match } = result;
+
+    if (match.status !== "active") {
+      return c.json({ error: "Messages can only be sent in active matches" }, 400);
+    }
+
+    const content = typeof body.content === "string" ? sanitizeHtml(body.content.trim()) : "";
+    if (!content) {
+      return c.json({ error: "Content is required" }, 400);
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return c.json({ error: `Content must be at most ${MAX_MESSAGE_LENGTH} characters` }, 400);
+    }
+
+    const message: MatchMessage = {
+      id: generateMatchMessageId(),
+      match_id: matchId,
+      sender_id: user.userId,
+      recipient_id: match.mentor_id === user.userId ? match.mentee_id : match.mentor_id,
+      content,
+      read_at: null,
+      created_at: getTimestamp(),
+      sender_name: user.name,
+    };
+
+    await c.env.platform_db
+      .prepare(`
+        INSERT INTO match_messages (id, match_id, sender_id, recipient_id, content, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .bind(message.id, message.match_id, message.sender_id, message.recipient_id, message.content, message.created_at)
+      .run();
+
+    return c.json({ message }, 201);
+  } catch (err) {
+    console.error("Error sending match message:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * PATCH /api/v1/matches/:id/messages/read - Mark all messages to the current user as read
+ * Sets read_at, which the sender sees as a read receipt
+ */
+app.patch("/api/v1/matches/:id/messages/read", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const user = c.get("user") as AuthPayload;
+
+    const result = await getMatchForParticipant(c.env.platform_db, matchId, user.userId);
+    if (result.error) {
+      return c.json({ error: result.error.message }, result.error.status);
+    }
+
+    const update = await c.env.platform_db
+      .prepare("UPDATE match_messages SET read_at = ? WHERE match_id = ? AND recipient_id = ? AND read_at IS NULL")
+      .bind(getTimestamp(), matchId, user.userId)
+      .run();
+
+    return c.json({ success: true, updated: update.meta?.changes || 0 });
+  } catch (err) {
+    console.error("Error marking match messages as read:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// Mentor Reviews API (/api/v1/matches/:id/review, /api/v1/mentors/profiles/:id/reviews)
+// ============================================================================
+
+/**
+ * Recompute the rating aggregates denormalized onto a mentor's profile
+ */
+async function refreshMentorRatingAggregates(db: D1Database, mentorUserId: string): Promise<void> {
+  await db
+    .prepare(`
+      UPDATE mentor_profiles
+      SET average_rating = (SELECT AVG(rating) FROM mentor_reviews WHERE mentor_id = ?),
+          review_count = (SELECT COUNT(*) FROM mentor_reviews WHERE mentor_id = ?)
+      WHERE user_id = ?
+    `)
+    .bind(mentorUserId, mentorUserId, mentorUserId)
+    .run();
+}
+
+/**
+ * POST /api/v1/matches/:id/review - Review the mentor of a completed match (mentee only, once per match)
+ */
+app.post("/api/v1/matches/:id/review", requireAuth, async (c) => {
+  try {
+    const matchId = c.req.param("id");
+    const user = c.get("user") as AuthPayload;
+    const body = await c.req.json<CreateReviewDTO>();
+
+    const match = await c.env.platform_db
+      .prepare("SELECT * FROM matches WHERE id = ?")
+      .bind(matchId)
+      .first<Match>();
+
+    if (!match) {
+      return c.json({ error: "Match not found" }, 404);
+    }
+
+    if (match.mentee_id !== user.userId) {
+      return c.json({ error: "Only the mentee of this match can leave a review" }, 403);
+    }
+
+    if (match.status !== "completed") {
+      return c.json({ error: "Only completed matches can be reviewed" }, 400);
+    }
+
+    const profile = await c.env.platform_db
+      .prepare("SELECT id, allow_reviews FROM mentor_profiles WHERE user_id = ?")
+      .bind(match.mentor_id)
+      .first<{ id: string; allow_reviews: number | boolean }>();
+
+    if (!profile || !(profile.allow_reviews === 1 || profile.allow_reviews === true)) {
+      return c.json({ error: "This mentor does not accept reviews" }, 403);
+    }
+
+    if (!isValidRating(body.rating)) {
+      return c.json({ error: `rating must be a whole number between ${MIN_RATING} and ${MAX_RATING}` }, 400);
+    }
+
+    const comment = typeof body.comment === "string" ? body.comment.trim() : "";
+    if (!comment) {
+      return c.json({ error: "comment is required" }, 400);
+    }
+    if (comment.length > MAX_REVIEW_COMMENT_LENGTH) {
+      return c.json({ error: `comment must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters` }, 400);
+    }
+
+    const existing = await c.env.platform_db
+      .prepare("SELECT id FROM mentor_reviews WHERE match_id = ?")
+      .bind(matchId)
+      .first();
+
+    if (existing) {
+      return c.json({ error: "This match has already been reviewed" }, 409);
+    }
+
+    const timestamp = getTimestamp();
+    const review: MentorReview = {
+      id: generateMentorReviewId(),
+      match_id: matchId,
+      mentor_id: match.mentor_id,
+      mentee_id: user.userId,
+      rating: body.rating,
+      comment,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    await c.env.platform_db
+      .prepare(`
+        INSERT INTO mentor_reviews (id, match_id, mentor_id, mentee_id, rating, comment, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(
+        review.id,
+        review.match_id,
+        review.mentor_id,
+        review.mentee_id,
+        review.rating,
+        review.comment,
+        review.created_at,
+        review.updated_at
+      )
+      .run();
+
+    await refreshMentorRatingAggregates(c.env.platform_db, match.mentor_id);
+
+    return c.json({ review }, 201);
+  } catch (err) {
+    console.error("Error creating review:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/mentors/profiles/:id/reviews - List reviews and rating aggregates of a mentor
+ * Mentors who turned reviews off return no reviews and no aggregates
+ */
+app.get("/api/v1/mentors/profiles/:id/reviews", requireAuth, async (c) => {
+  try {
+    const profileId = c.req.param("id");
+
+    const row = await c.env.platform_db
+      .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
+      .bind(profileId)
+      .first();
+
+    if (!row) {
+      return c.json({ error: "Mentor profile not found" }, 404);
+    }
+
+    const profile = normalizeMentorProfile(row);
+    if (!profile.allow_reviews) {
+      return c.json<MentorReviewsResponse>({ reviews: [], average_rating: null, review_count: 0 });
     }
-    if (body.availability !== undefined) {
-      updates.push("availability = ?");
-      params.push(body.availability);
+
+    const reviews = await c.env.platform_db
+      .prepare(`
+        SELECT mentor_reviews.*, users.name as mentee_name
+        FROM mentor_reviews
+        LEFT JOIN users ON mentor_reviews.mentee_id = users.id
+        WHERE mentor_reviews.mentor_id = ?
+        ORDER BY mentor_reviews.created_at DESC
+      `)
+      .bind(profile.user_id)
+      .all<Record<string, unknown>>();
+
+    return c.json<MentorReviewsResponse>({
+      reviews: (reviews.results || []).map(normalizeMentorReview),
+      average_rating: profile.average_rating ?? null,
+      review_count: profile.review_count ?? 0,
+    });
+  } catch (err) {
+    console.error("Error fetching mentor reviews:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// OAuth Routes (/api/v1/auth)
+// ============================================================================
+
+/**
+ * GET /api/v1/auth/providers - Sign-in providers offered on the login page
+ * Only providers whose credentials are configured are listed
+ */
+app.get("/api/v1/auth/providers", (c) => {
+  const response: GetOAuthProvidersResponse = {
+    providers: describeOAuthProviders(getOAuthProviders(c.env)),
+  };
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/auth/:provider/login - Initiate OAuth login
+ * Redirects user to the provider's consent screen (google, github or oidc)
+ * Query params:
+ *   - redirect_uri: (optional) Frontend callback URL
+ *   - invite: (optional) Invite code, carried through the OAuth state to the callback
+ */
+app.get("/api/v1/auth/:provider/login", async (c) => {
+  try {
+    const provider = resolveOAuthProvider(c.env, c.req.param("provider"));
+
+    if (!provider) {
+      return c.json({ error: "This sign-in provider is not configured" }, 404);
     }
-    if (body.hourly_rate !== undefined) {
-      updates.push("hourly_rate = ?");
-      params.push(body.hourly_rate);
+
+    // Construct redirect URI using proper URL parsing
+    const requestUrl = new URL(c.req.url);
+    const redirectUri = c.req.query("redirect_uri") || `${requestUrl.protocol}//${requestUrl.host}/auth/${provider.id}/callback`;
+
+    // Store the effective redirect URI in a temporary cookie so the callback handler
+    // can use the exact same value that the provider saw, preventing invalid_grant errors.
+    const isHttps = requestUrl.protocol === "https:";
+    let cookieValue = `oauth_redirect_uri=${encodeURIComponent(redirectUri)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=300`;
+    if (isHttps) {
+      cookieValue += "; Secure";
     }
-    if (body.payment_types !== undefined) {
-      updates.push("payment_types = ?");
-      params.push(body.payment_types);
+    c.header("Set-Cookie", cookieValue, { append: true });
+
+    // Malformed codes are dropped rather than rejected; the callback reports unusable ones
+    const invite = c.req.query("invite")?.trim();
+    const state = invite && INVITE_CODE_PATTERN.test(invite) ? { invite } : undefined;
+
+    const loginUrl = await provider.getLoginUrl(redirectUri, state);
+    return c.json({ url: loginUrl });
+  } catch (err) {
+    console.error("Error generating login URL:", err);
+    return c.json({ error: "Failed to generate login URL" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/auth/:provider/callback - Handle OAuth callback
+ * Exchanges authorization code for the provider account and signs in the user it is
+ * linked to. An unknown account is linked to the user with the same verified email,
+ * or creates a new user.
+ * Query params:
+ *   - code: (required) Authorization code from the provider
+ *   - state: (optional) OAuth state from the login URL, forwarded by the frontend
+ * While public registration is off, a new account needs an approved waitlist entry for
+ * the email or a usable invite code in the state; otherwise 403.
+ */
+app.get("/api/v1/auth/:provider/callback", async (c) => {
+  // Set when the state carried an invite code that can't be used, to explain the 403
+  let inviteRejected = false;
+
+  try {
+    const code = c.req.query("code");
+    const error = c.req.query("error");
+
+    // Retrieve redirect URI cookie early so we can clear it regardless of outcome
+    const requestUrl = new URL(c.req.url);
+    const cookies = c.req.header("Cookie") || "";
+    const redirectCookie = cookies
+      .split(";")
+      .map((cookie) => cookie.trim())
+      .find((cookie) => cookie.startsWith("oauth_redirect_uri="));
+
+    const fallbackRedirectUri = `${requestUrl.protocol}//${requestUrl.host}/auth/${c.req.param("provider")}/callback`;
+    const redirectUriFromCookie = redirectCookie
+      ? decodeURIComponent(redirectCookie.split("=")[1])
+      : null;
+    const redirectUri = redirectUriFromCookie || fallbackRedirectUri;
+
+    const isHttps = requestUrl.protocol === "https:";
+    let clearCookieValue = "oauth_redirect_uri=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0";
+    if (isHttps) {
+      clearCookieValue += "; Secure";
     }
-    if (body.expertise_domains !== undefined) {
-      updates.push("expertise_domains = ?");
-      params.push(body.expertise_domains);
+    c.header("Set-Cookie", clearCookieValue, { append: true });
+
+    const provider = resolveOAuthProvider(c.env, c.req.param("provider"));
+    if (!provider) {
+      return c.json({ error: "This sign-in provider is not configured" }, 404);
     }
-    if (body.expertise_topics_preset !== undefined) {
-      updates.push("expertise_topics_preset = ?");
-      params.push(body.expertise_topics_preset);
+
+    // Handle OAuth errors
+    if (error) {
+      return c.json(
+        { error: `${provider.name} OAuth error: ${error}`, error_description: c.req.query("error_description") },
+        400
+      );
     }
-    if (body.allow_reviews !== undefined) {
-      updates.push("allow_reviews = ?");
-      params.push(body.allow_reviews);
+
+    if (!code) {
+      return c.json({ error: "Missing authorization code" }, 400);
+    }
+
+    const jwtSecret = c.env.JWT_SECRET;
+
+    if (!jwtSecret) {
+      return c.json({ error: "OAuth configuration missing" }, 500);
+    }
+
+    // Exchange code for the provider account
+    const identity = await provider.fetchIdentity(code, redirectUri);
+
+    // Find or create user; while public registration is off, new accounts need an
+    // approved waitlist entry or an invite code. A use of the code is reserved up front
+    // so a nearly used-up code can't be shared by more people than it allows.
+    const db = c.env.platform_db;
+    const publicRegistration = await isFeatureEnabledFor(db, "public_registration", null);
+    let waitlistEntryId: string | null = null;
+    let inviteCodeId: string | null = null;
+
+    if (!publicRegistration && identity.emailVerified) {
+      waitlistEntryId = await findApprovedWaitlistEntry(db, identity.email);
+      const { invite } = decodeOAuthState(c.req.query("state"));
+      if (!waitlistEntryId && invite) {
+        inviteCodeId = await reserveInviteCode(db, invite);
+        if (!inviteCodeId) {
+          inviteRejected = true;
+        }
+      }
+    }
+
+    let result: { user: User; isNewUser: boolean };
+    try {
+      result = await findOrCreateUserFromIdentity(identity, db, {
+        allowRegistration: publicRegistration || waitlistEntryId !== null || inviteCodeId !== null,
+      });
+    } catch (err) {
+      if (inviteCodeId) {
+        await releaseInviteCode(db, inviteCodeId);
+      }
+      throw err;
+    }
+    const { user, isNewUser } = result;
+
+    if (inviteCodeId && !isNewUser) {
+      await releaseInviteCode(db, inviteCodeId);
+    }
+    if (waitlistEntryId && isNewUser) {
+      await db
+        .prepare("UPDATE waitlist_entries SET user_id = ?, updated_at = ? WHERE id = ?")
+        .bind(user.id, getTimestamp(), waitlistEntryId)
+        .run();
+    }
+
+    // Award initial points to new users
+    if (isNewUser) {
+      await recordPointsTransaction(c.env.platform_db, {
+        userId: user.id,
+        actionType: PointsActionType.SignupBonus,
+        referenceId: user.id,
+        delta: INITIAL_POINTS,
+      });
+    }
+
+    // Fetch user's role
+    const roleRecord = await c.env.platform_db
+      .prepare("SELECT role FROM user_roles WHERE user_id = ?")
+      .bind(user.id)
+      .first<{ role: string }>();
+
+    const userRole = roleRecord ? normalizeUserRole(roleRecord.role) : DEFAULT_ROLE;
+
+    // Start a session and create a short-lived JWT for it, with role
+    const session = await createSession(db, user.id, {
+      userAgent: c.req.header("User-Agent"),
+      ipAddress: c.req.header("CF-Connecting-IP"),
+    });
+    const authPayload = createAuthPayload(user);
+    authPayload.role = userRole;
+    authPayload.sid = session.sessionId;
+    const token = await createToken(authPayload, jwtSecret, ACCESS_TOKEN_TTL_MINUTES / 60);
+
+    // Set access and refresh tokens as HTTP-only cookies
+    for (const cookie of buildSessionCookies(token, session.refreshToken, isHttps)) {
+      c.header("Set-Cookie", cookie, { append: true });
+    }
+
+    // Return user info (token is in cookie now)
+    return c.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: userRole,
+      },
+    });
+  } catch (err) {
+    if (err instanceof RegistrationClosedError) {
+      const message = inviteRejected ? "This invite code is invalid, used up or expired" : err.message;
+      return c.json(featureDisabledError("public_registration", message), 403);
+    }
+    if (err instanceof UnverifiedEmailError) {
+      return c.json({ error: err.message }, 403);
+    }
+
+    // Detailed error logging for OAuth debugging
+    console.error("OAuth callback error:", err);
+
+    // Log additional context if available
+    if (err instanceof Error) {
+      console.error("Error message:", err.message);
+      console.error("Error stack:", err.stack);
+    }
+
+    // Log request details (without sensitive data)
+    const requestUrl = new URL(c.req.url);
+    console.error("Request URL:", requestUrl.pathname);
+    console.error("Has authorization code:", !!c.req.query("code"));
+
+    return c.json({ error: "Authentication failed" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/auth/me - Get current authenticated user
+ */
+app.get("/api/v1/auth/me", async (c) => {
+  try {
+    const authPayload = c.get("user") as AuthPayload | undefined;
+
+    if (!authPayload) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    // Fetch full user details from database
+    const user = await c.env.platform_db
+      .prepare("SELECT * FROM users WHERE id = ?")
+      .bind(authPayload.userId)
+      .first<User>();
+
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    // Fetch user's role
+    const roleRecord = await c.env.platform_db
+      .prepare("SELECT role FROM user_roles WHERE user_id = ?")
+      .bind(authPayload.userId)
+      .first<{ role: string }>();
+
+    const userRole = roleRecord ? normalizeUserRole(roleRecord.role) : DEFAULT_ROLE;
+    user.role = userRole;
+
+    return c.json(user);
+  } catch {
+    return c.json({ error: "Failed to fetch user" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/auth/logout - Sign out this device
+ * Revokes the session and clears the auth_token and refresh_token cookies
+ */
+app.post("/api/v1/auth/logout", async (c) => {
+  const requestUrl = new URL(c.req.url);
+  const isHttps = requestUrl.protocol === "https:";
+  const authPayload = c.get("user") as AuthPayload | undefined;
+
+  try {
+    if (authPayload?.sid) {
+      await revokeSession(c.env.platform_db, authPayload.sid, authPayload.userId);
+    } else {
+      // The access token may have expired; the refresh token still identifies the session
+      const refreshToken = parseCookie(c.req.header("Cookie") || "", "refresh_token");
+      if (refreshToken) {
+        await revokeSessionByRefreshToken(c.env.platform_db, refreshToken);
+      }
+    }
+  } catch (err) {
+    // Signing out locally still works when the session can't be revoked
+    console.error("Error revoking session on logout:", err);
+  }
+
+  for (const cookie of clearSessionCookies(isHttps)) {
+    c.header("Set-Cookie", cookie, { append: true });
+  }
+
+  return c.json({ success: true, message: "Logged out successfully" });
+});
+
+// ============================================================================
+// Sessions API (/api/v1/auth/refresh, /api/v1/auth/sessions)
+// ============================================================================
+
+/**
+ * POST /api/v1/auth/refresh - Exchange the refresh token cookie for new tokens
+ * The refresh token is rotated on every call. The new access token gets the user's
+ * current role, so role changes apply from the next refresh.
+ * Returns 401 and clears the cookies when the session is gone, expired or revoked.
+ */
+app.post("/api/v1/auth/refresh", async (c) => {
+  const requestUrl = new URL(c.req.url);
+  const isHttps = requestUrl.protocol === "https:";
+  const db = c.env.platform_db;
+
+  const unauthorized = () => {
+    for (const cookie of clearSessionCookies(isHttps)) {
+      c.header("Set-Cookie", cookie, { append: true });
+    }
+    return c.json({ error: "Session expired. Please sign in again." }, 401);
+  };
+
+  const jwtSecret = c.env.JWT_SECRET;
+  if (!jwtSecret) {
+    return c.json({ error: "OAuth configuration missing" }, 500);
+  }
+
+  const refreshToken = parseCookie(c.req.header("Cookie") || "", "refresh_token");
+  if (!refreshToken) {
+    return unauthorized();
+  }
+
+  try {
+    const rotation = await rotateSession(db, refreshToken);
+    if (rotation.status !== "rotated") {
+      return unauthorized();
+    }
+
+    const user = await db
+      .prepare("SELECT * FROM users WHERE id = ?")
+      .bind(rotation.userId)
+      .first<User>();
+
+    if (!user) {
+      await revokeSession(db, rotation.sessionId);
+      return unauthorized();
+    }
+
+    const roleRecord = await db
+      .prepare("SELECT role FROM user_roles WHERE user_id = ?")
+      .bind(user.id)
+      .first<{ role: string }>();
+
+    const userRole = roleRecord ? normalizeUserRole(roleRecord.role) : DEFAULT_ROLE;
+
+    const authPayload = createAuthPayload(user);
+    authPayload.role = userRole;
+    authPayload.sid = rotation.sessionId;
+    const token = await createToken(authPayload, jwtSecret, ACCESS_TOKEN_TTL_MINUTES / 60);
+
+    for (const cookie of buildSessionCookies(token, rotation.refreshToken, isHttps)) {
+      c.header("Set-Cookie", cookie, { append: true });
     }
-    if (body.allow_recording !== undefined) {
-      updates.push("allow_recording = ?");
-      params.push(body.allow_recording);
+
+    return c.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: userRole,
+      },
+    });
+  } catch (err) {
+    console.error("Error refreshing session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/auth/sessions - The signed-in devices of the current user, most recently used first
+ */
+app.get("/api/v1/auth/sessions", requireAuth, async (c) => {
+  const auth = c.get("user") as AuthPayload;
+
+  try {
+    const result = await c.env.platform_db
+      .prepare(`
+        SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+        FROM user_sessions
+        WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+        ORDER BY last_used_at DESC
+      `)
+      .bind(auth.userId, getTimestamp())
+      .all();
+
+    const sessions: UserSession[] = (result.results || []).map((row) => ({
+      id: row.id as string,
+      user_agent: (row.user_agent as string | null) || null,
+      ip_address: (row.ip_address as string | null) || null,
+      created_at: Number(row.created_at),
+      last_used_at: Number(row.last_used_at),
+      expires_at: Number(row.expires_at),
+      current: row.id === auth.sid,
+    }));
+
+    return c.json<GetSessionsResponse>({ sessions });
+  } catch (err) {
+    console.error("Error fetching sessions:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/auth/sessions/:id - Sign out one of the current user's devices
+ * Signing out the current session also clears its cookies
+ */
+app.delete("/api/v1/auth/sessions/:id", requireAuth, async (c) => {
+  const auth = c.get("user") as AuthPayload;
+  const sessionId = c.req.param("id");
+
+  try {
+    const revoked = await revokeSession(c.env.platform_db, sessionId, auth.userId);
+    if (!revoked) {
+      return c.json({ error: "Session not found" }, 404);
     }
-    if (body.linkedin_url !== undefined) {
-      updates.push("linkedin_url = ?");
-      params.push(body.linkedin_url);
+
+    if (sessionId === auth.sid) {
+      const isHttps = new URL(c.req.url).protocol === "https:";
+      for (const cookie of clearSessionCookies(isHttps)) {
+        c.header("Set-Cookie", cookie, { append: true });
+      }
     }
 
-    const timestamp = getTimestamp();
-    updates.push("updated_at = ?");
-    params.push(timestamp);
-    params.push(id); // For WHERE clause
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("Error revoking session:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    await c.env.platform_db
-      .prepare(`UPDATE mentor_profiles SET ${updates.join(", ")} WHERE id = ?`)
-      .bind(...params)
-      .run();
+/**
+ * POST /api/v1/auth/sessions/revoke-others - Sign out every device except this one
+ */
+app.post("/api/v1/auth/sessions/revoke-others", requireAuth, async (c) => {
+  const auth = c.get("user") as AuthPayload;
 
-    // Fetch and return updated profile
-    const updated = await c.env.platform_db
-      .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
-      .bind(id)
-      .first<MentorProfile>();
+  try {
+    const revoked = await revokeUserSessions(c.env.platform_db, auth.userId, auth.sid);
+    return c.json({ success: true, revoked });
+  } catch (err) {
+    console.error("Error revoking sessions:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    if (!updated) {
-      return c.json({ error: "Mentor profile not found" }, 404);
+/**
+ * DELETE /api/v1/admin/users/:id/sessions - Sign a user out everywhere (admin only)
+ * Their access tokens stop working immediately
+ */
+app.delete("/api/v1/admin/users/:id/sessions", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const userId = c.req.param("id");
+
+  try {
+    const user = await db.prepare("SELECT id FROM users WHERE id = ?").bind(userId).first();
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
     }
 
-    return c.json<MentorProfile>(normalizeMentorProfile(updated));
-  } catch {
-    return c.json({ error: "Invalid request body" }, 400);
+    const revoked = await revokeUserSessions(db, userId);
+
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.SessionsRevoke,
+      targetType: AuditTargetType.User,
+      targetId: userId,
+      before: null,
+      after: { revoked_sessions: revoked },
+    });
+
+    return c.json({ success: true, revoked });
+  } catch (err) {
+    console.error("Error revoking user sessions:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
+// ============================================================================
+// Linked Sign-in Accounts API (/api/v1/auth/identities)
+// ============================================================================
+
 /**
- * DELETE /api/v1/mentors/profiles/:id - Delete mentor profile
+ * GET /api/v1/auth/identities - Provider accounts the current user can sign in with
+ * Accounts are linked automatically when a provider reports the user's verified email
  */
-app.delete("/api/v1/mentors/profiles/:id", requireAuth, async (c) => {
-  const id = c.req.param("id");
+app.get("/api/v1/auth/identities", requireAuth, async (c) => {
+  const auth = c.get("user") as AuthPayload;
 
-  // Get authenticated user
-  const authUser = c.get('user') as AuthPayload;
+  try {
+    const result = await c.env.platform_db
+      .prepare(`
+        SELECT id, provider, email, created_at, last_used_at
+        FROM user_identities
+        WHERE user_id = ?
+        ORDER BY created_at ASC
+      `)
+      .bind(auth.userId)
+      .all();
 
-  // Check if profile exists
-  const existing = await c.env.platform_db
-    .prepare("SELECT * FROM mentor_profiles WHERE id = ?")
-    .bind(id)
-    .first<MentorProfile>();
+    const identities: LinkedIdentity[] = (result.results || []).map((row) => ({
+      id: row.id as string,
+      provider: row.provider as LinkedIdentity["provider"],
+      email: (row.email as string | null) || null,
+      created_at: Number(row.created_at),
+      last_used_at: Number(row.last_used_at),
+    }));
 
-  if (!existing) {
-    return c.json({ error: "Mentor profile not found" }, 404);
+    return c.json<GetLinkedIdentitiesResponse>({ identities });
+  } catch (err) {
+    console.error("Error fetching linked identities:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
+});
 
-  // Authorization: Users can only delete their own profiles
-  if (existing.user_id !== authUser.userId) {
-    return c.json({ error: "Cannot delete another user's mentor profile" }, 403);
-  }
+/**
+ * DELETE /api/v1/auth/identities/:id - Unlink a provider account from the current user
+ * The last account can't be unlinked, since the user could no longer sign in.
+ * Signing in with an unlinked account links it again if its email still matches.
+ */
+app.delete("/api/v1/auth/identities/:id", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const identityId = c.req.param("id");
 
-  // Delete the profile
-  await c.env.platform_db
-    .prepare("DELETE FROM mentor_profiles WHERE id = ?")
-    .bind(id)
-    .run();
+  try {
+    const identity = await db
+      .prepare("SELECT id, provider FROM user_identities WHERE id = ? AND user_id = ?")
+      .bind(identityId, auth.userId)
+      .first<{ id: string; provider: string }>();
 
-  return c.json({ success: true });
+    if (!identity) {
+      return c.json({ error: "Linked account not found" }, 404);
+    }
+
+    const count = await db
+      .prepare("SELECT COUNT(*) as count FROM user_identities WHERE user_id = ?")
+      .bind(auth.userId)
+      .first<{ count: number }>();
+
+    if ((count?.count || 0) <= 1) {
+      return c.json({ error: "You can't unlink your only sign-in method" }, 400);
+    }
+
+    await db.prepare("DELETE FROM user_identities WHERE id = ?").bind(identityId).run();
+    if (identity.provider === OAuthProviderId.Google) {
+      await db
+        .prepare("UPDATE users SET google_id = NULL, updated_at = ? WHERE id = ?")
+        .bind(Date.now(), auth.userId)
+        .run();
+    }
+
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("Error unlinking identity:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
 });
 
 // ============================================================================
-// Search & Discovery API (/api/v1/mentors/search)
+// Invite Codes & Waitlist API (/api/v1/waitlist, /api/v1/admin/invites, /api/v1/admin/waitlist)
 // ============================================================================
 
 /**
- * GET /api/v1/mentors/search - Search and filter mentor profiles
- * Query parameters:
- * - mentoring_levels: bit flags (e.g., 3 = Entry OR Senior)
- * - payment_types: bit flags (e.g., 1 = Venmo)
- * - expertise_domains: bit flags for professional domains
- * - expertise_topics: bit flags for preset expertise topics
- * - hourly_rate_max: maximum hourly rate
- * - hourly_rate_min: minimum hourly rate
- * - nick_name: partial nickname search (case-insensitive)
- * - limit: results per page (default: 20, max: 100)
- * - offset: pagination offset (default: 0)
- *
- * Note: This endpoint requires authentication
+ * Find the approved waitlist entry of an email that hasn't been used to sign up yet
+ * @returns Entry ID, or null if there is none
  */
-app.get("/api/v1/mentors/search", requireAuth, async (c) => {
+async function findApprovedWaitlistEntry(db: D1Database, email: string): Promise<string | null> {
+  const entry = await db
+    .prepare("SELECT id FROM waitlist_entries WHERE email = ? AND status = ? AND user_id IS NULL")
+    .bind(email.trim().toLowerCase(), WaitlistStatus.Approved)
+    .first<{ id: string }>();
+
+  return entry?.id ?? null;
+}
+
+/**
+ * Reserve one use of an invite code
+ * Conditional on the code being usable, so concurrent sign-ups can't exceed max_uses
+ * @returns Invite code ID, or null if the code is unknown, revoked, expired or used up
+ */
+async function reserveInviteCode(db: D1Database, code: string): Promise<string | null> {
+  const invite = await db
+    .prepare("SELECT id FROM invite_codes WHERE code = ?")
+    .bind(normalizeInviteCodeInput(code))
+    .first<{ id: string }>();
+
+  if (!invite) {
+    return null;
+  }
+
+  const result = await db
+    .prepare(`
+      UPDATE invite_codes SET use_count = use_count + 1
+      WHERE id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?) AND use_count < max_uses
+    `)
+    .bind(invite.id, getTimestamp())
+    .run();
+
+  return (result.meta?.changes || 0) > 0 ? invite.id : null;
+}
+
+/**
+ * Give back a reserved use when the sign-in didn't create an account
+ */
+async function releaseInviteCode(db: D1Database, inviteCodeId: string): Promise<void> {
+  await db
+    .prepare("UPDATE invite_codes SET use_count = use_count - 1 WHERE id = ? AND use_count > 0")
+    .bind(inviteCodeId)
+    .run();
+}
+
+/**
+ * POST /api/v1/waitlist - Ask for an account while registration is closed (public)
+ * Body:
+ *   - email: (required) The Google account they will sign in with
+ *   - name: (required)
+ *   - reason: (optional) Why they want to join
+ *   - locale: (optional) Language of the approval email (default en)
+ */
+app.post("/api/v1/waitlist", async (c) => {
+  const db = c.env.platform_db;
+  const body = await c.req.json<Partial<JoinWaitlistDTO>>().catch(() => ({} as Partial<JoinWaitlistDTO>));
+
+  const email = body.email?.trim().toLowerCase() || "";
+  const name = body.name?.trim() || "";
+  const reason = body.reason?.trim() || null;
+
+  if (!email || !isValidEmail(email)) {
+    return c.json({ error: "A valid email is required" }, 400);
+  }
+  if (!name || name.length > MAX_WAITLIST_NAME_LENGTH) {
+    return c.json({ error: `Name is required and must be at most ${MAX_WAITLIST_NAME_LENGTH} characters` }, 400);
+  }
+  if (reason && reason.length > MAX_WAITLIST_REASON_LENGTH) {
+    return c.json({ error: `Reason must be at most ${MAX_WAITLIST_REASON_LENGTH} characters` }, 400);
+  }
+
   try {
-    // Parse query parameters
-    const url = new URL(c.req.url);
-    const mentoring_levels = url.searchParams.get("mentoring_levels");
-    const payment_types = url.searchParams.get("payment_types");
-    const expertise_domains = url.searchParams.get("expertise_domains");
-    const expertise_topics = url.searchParams.get("expertise_topics");
-    const hourly_rate_max = url.searchParams.get("hourly_rate_max");
-    const hourly_rate_min = url.searchParams.get("hourly_rate_min");
-    const nick_name = url.searchParams.get("nick_name");
-    const limitParam = url.searchParams.get("limit");
-    const offsetParam = url.searchParams.get("offset");
+    if (await isFeatureEnabledFor(db, "public_registration", null)) {
+      return c.json({ error: "Registration is open. Sign in with Google to join." }, 409);
+    }
 
-    // Parse and validate limit and offset
-    const limit = limitParam ? parseInt(limitParam, 10) : 20;
-    const offset = offsetParam ? parseInt(offsetParam, 10) : 0;
+    const existing = await db
+      .prepare("SELECT id FROM waitlist_entries WHERE email = ?")
+      .bind(email)
+      .first();
+
+    if (existing) {
+      return c.json({ error: "This email is already on the waitlist" }, 409);
+    }
+
+    const now = getTimestamp();
+    const entry: WaitlistEntry = {
+      id: generateWaitlistEntryId(),
+      email,
+      name,
+      reason,
+      locale: isEmailLocale(body.locale) ? body.locale : DEFAULT_EMAIL_LOCALE,
+      status: WaitlistStatus.Pending,
+      user_id: null,
+      reviewed_by: null,
+      reviewed_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await db
+      .prepare(`
+        INSERT INTO waitlist_entries (id, email, name, reason, locale, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(entry.id, entry.email, entry.name, entry.reason, entry.locale, entry.status, entry.created_at, entry.updated_at)
+      .run();
+
+    return c.json({ entry }, 201);
+  } catch (err) {
+    console.error("Error joining waitlist:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/admin/invites - All invite codes, newest first (admin only)
+ */
+app.get("/api/v1/admin/invites", requireAuth, requireAdmin, async (c) => {
+  try {
+    const result = await c.env.platform_db
+      .prepare(`
+        SELECT i.*, u.name as created_by_name
+        FROM invite_codes i
+        LEFT JOIN users u ON i.created_by = u.id
+        ORDER BY i.created_at DESC
+      `)
+      .all();
+
+    return c.json<GetInviteCodesResponse>({ invites: (result.results || []).map(normalizeInviteCode) });
+  } catch (err) {
+    console.error("Error fetching invite codes:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/invites - Generate an invite code (admin only)
+ * Body:
+ *   - max_uses: (optional) Accounts the code can create (default 1)
+ *   - expires_at: (optional) Unix timestamp; omit or null for never
+ *   - note: (optional) Who the code is for
+ */
+app.post("/api/v1/admin/invites", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const body = await c.req.json<CreateInviteCodeDTO>().catch(() => ({} as CreateInviteCodeDTO));
+
+  const maxUses = body.max_uses ?? 1;
+  const note = body.note?.trim() || null;
+
+  if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES) {
+    return c.json({ error: `max_uses must be a whole number between 1 and ${MAX_INVITE_USES}` }, 400);
+  }
+  if (body.expires_at !== undefined && body.expires_at !== null && !Number.isInteger(body.expires_at)) {
+    return c.json({ error: "expires_at must be a Unix timestamp, or null for never" }, 400);
+  }
+  if (note && note.length > MAX_INVITE_NOTE_LENGTH) {
+    return c.json({ error: `Note must be at most ${MAX_INVITE_NOTE_LENGTH} characters` }, 400);
+  }
+
+  try {
+    const invite: InviteCode = {
+      id: generateInviteCodeId(),
+      code: generateInviteCode(),
+      note,
+      max_uses: maxUses,
+      use_count: 0,
+      expires_at: body.expires_at ?? null,
+      revoked_at: null,
+      created_by: auth.userId,
+      created_at: getTimestamp(),
+    };
+
+    await db
+      .prepare(`
+        INSERT INTO invite_codes (id, code, note, max_uses, use_count, expires_at, created_by, created_at)
+        VALUES (?, ?, ?, ?, 0, ?, ?, ?)
+      `)
+      .bind(invite.id, invite.code, invite.note, invite.max_uses, invite.expires_at, invite.created_by, invite.created_at)
+      .run();
+
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.InviteCreate,
+      targetType: AuditTargetType.InviteCode,
+      targetId: invite.id,
+      before: null,
+      after: { code: invite.code, max_uses: invite.max_uses, expires_at: invite.expires_at, note: invite.note },
+    });
+
+    return c.json({ invite: { ...invite, created_by_name: auth.name } }, 201);
+  } catch (err) {
+    console.error("Error creating invite code:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/invites/:id/revoke - Stop an invite code from creating accounts (admin only)
+ * Accounts already created with the code are kept.
+ */
+app.post("/api/v1/admin/invites/:id/revoke", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const inviteId = c.req.param("id");
 
-    // Validation: limit and offset must be non-negative
-    if (limit < 0 || offset < 0) {
-      return c.json({ error: "Limit and offset must be non-negative integers" }, 400);
+  try {
+    const row = await db.prepare("SELECT * FROM invite_codes WHERE id = ?").bind(inviteId).first();
+    if (!row) {
+      return c.json({ error: "Invite code not found" }, 404);
     }
 
-    // Validation: limit must not exceed maximum
-    if (limit > 100) {
-      return c.json({ error: "Limit must not exceed 100" }, 400);
+    const invite = normalizeInviteCode(row);
+    if (invite.revoked_at !== null) {
+      return c.json({ invite });
     }
 
-    // Validation: numeric parameters must be valid numbers
-    if (mentoring_levels && isNaN(parseInt(mentoring_levels, 10))) {
-      return c.json({ error: "mentoring_levels must be a valid integer" }, 400);
-    }
-    if (payment_types && isNaN(parseInt(payment_types, 10))) {
-      return c.json({ error: "payment_types must be a valid integer" }, 400);
-    }
-    if (expertise_domains && isNaN(parseInt(expertise_domains, 10))) {
-      return c.json({ error: "expertise_domains must be a valid integer" }, 400);
-    }
-    if (expertise_topics && isNaN(parseInt(expertise_topics, 10))) {
-      return c.json({ error: "expertise_topics must be a valid integer" }, 400);
-    }
-    if (hourly_rate_max && isNaN(parseInt(hourly_rate_max, 10))) {
-      return c.json({ error: "hourly_rate_max must be a valid number" }, 400);
-    }
-    if (hourly_rate_min && isNaN(parseInt(hourly_rate_min, 10))) {
-      return c.json({ error: "hourly_rate_min must be a valid number" }, 400);
-    }
+    const now = getTimestamp();
+    await db
+      .prepare("UPDATE invite_codes SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+      .bind(now, inviteId)
+      .run();
 
-    // Build WHERE clause dynamically
-    const conditions: string[] = [];
-    const params: (string | number)[] = [];
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.InviteRevoke,
+      targetType: AuditTargetType.InviteCode,
+      targetId: inviteId,
+      before: { revoked_at: null },
+      after: { revoked_at: now },
+    });
 
-    if (mentoring_levels) {
-      const levels = parseInt(mentoring_levels, 10);
-      conditions.push("mentoring_levels & ? > 0");
-      params.push(levels);
-    }
+    return c.json({ invite: { ...invite, revoked_at: now } });
+  } catch (err) {
+    console.error("Error revoking invite code:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    if (payment_types) {
-      const types = parseInt(payment_types, 10);
-      conditions.push("payment_types & ? > 0");
-      params.push(types);
-    }
+/**
+ * GET /api/v1/admin/waitlist - Waitlist entries (admin only)
+ * Pending entries are listed oldest first, reviewed ones newest first
+ * Query params:
+ *   - status: (optional) pending (default), approved or rejected
+ *   - limit: (optional) Entries per page (default 20, max 50)
+ *   - offset: (optional) Pagination offset (default 0)
+ */
+app.get("/api/v1/admin/waitlist", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const status = c.req.query("status") || WaitlistStatus.Pending;
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "20") || 20, 1), MAX_WAITLIST_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
 
-    if (expertise_domains) {
-      const domains = parseInt(expertise_domains, 10);
-      conditions.push("expertise_domains & ? > 0");
-      params.push(domains);
-    }
+  if (!isWaitlistStatus(status)) {
+    return c.json({ error: "Invalid status. Must be one of: pending, approved, rejected" }, 400);
+  }
 
-    if (expertise_topics) {
-      const topics = parseInt(expertise_topics, 10);
-      conditions.push("expertise_topics_preset & ? > 0");
-      params.push(topics);
-    }
+  try {
+    const result = await db
+      .prepare(`
+        SELECT * FROM waitlist_entries
+        WHERE status = ?
+        ORDER BY created_at ${status === WaitlistStatus.Pending ? "ASC" : "DESC"}
+        LIMIT ? OFFSET ?
+      `)
+      .bind(status, limit, offset)
+      .all();
 
-    if (hourly_rate_max) {
-      const max = parseInt(hourly_rate_max, 10);
-      conditions.push("hourly_rate <= ?");
-      params.push(max);
-    }
+    const countResult = await db
+      .prepare("SELECT COUNT(*) as count FROM waitlist_entries WHERE status = ?")
+      .bind(status)
+      .first<{ count: number }>();
 
-    if (hourly_rate_min) {
-      const min = parseInt(hourly_rate_min, 10);
-      conditions.push("hourly_rate >= ?");
-      params.push(min);
-    }
+    return c.json<GetWaitlistResponse>({
+      entries: (result.results || []).map(normalizeWaitlistEntry),
+      total: countResult?.count || 0,
+    });
+  } catch (err) {
+    console.error("Error fetching waitlist:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    if (nick_name) {
-      conditions.push("nick_name LIKE ?");
-      params.push(`%${nick_name}%`);
-    }
+/**
+ * PATCH /api/v1/admin/waitlist/:id - Approve or reject a pending waitlist entry (admin only)
+ * Body:
+ *   - status: (required) approved or rejected
+ * Approved people can sign in with Google using the email they joined with, and are
+ * emailed to let them know.
+ */
+app.patch("/api/v1/admin/waitlist/:id", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const entryId = c.req.param("id");
+  const body = await c.req.json<Partial<UpdateWaitlistEntryDTO>>().catch(() => ({} as Partial<UpdateWaitlistEntryDTO>));
 
-    // Build WHERE clause
-    const whereClause = conditions.length > 0
-      ? `WHERE ${conditions.join(" AND ")}`
-      : "";
+  if (body.status !== WaitlistStatus.Approved && body.status !== WaitlistStatus.Rejected) {
+    return c.json({ error: "Invalid status. Must be one of: approved, rejected" }, 400);
+  }
 
-    // Get total count
-    const countQuery = `SELECT COUNT(*) FROM mentor_profiles ${whereClause}`;
-    const countResult = await c.env.platform_db
-      .prepare(countQuery)
-      .bind(...params)
-      .first<{ 'COUNT(*)': number }>();
+  try {
+    const row = await db.prepare("SELECT * FROM waitlist_entries WHERE id = ?").bind(entryId).first();
+    if (!row) {
+      return c.json({ error: "Waitlist entry not found" }, 404);
+    }
 
-    const total = countResult?.['COUNT(*)'] || 0;
+    const entry = normalizeWaitlistEntry(row);
+    if (entry.status !== WaitlistStatus.Pending) {
+      return c.json({ error: `This entry was already ${entry.status}` }, 409);
+    }
 
-    // Get paginated results
-    const selectQuery = `
-      SELECT * FROM mentor_profiles
-      ${whereClause}
-      ORDER BY created_at DESC
-      LIMIT ? OFFSET ?
-    `;
+    // Conditional on the entry still being pending, so two admins can't both review it
+    const now = getTimestamp();
+    const result = await db
+      .prepare(`
+        UPDATE waitlist_entries SET status = ?, reviewed_by = ?, reviewed_at = ?, updated_at = ?
+        WHERE id = ? AND status = ?
+      `)
+      .bind(body.status, auth.userId, now, now, entryId, WaitlistStatus.Pending)
+      .run();
 
-    const results = await c.env.platform_db
-      .prepare(selectQuery)
-      .bind(...params, limit, offset)
-      .all<MentorProfile>();
+    if ((result.meta?.changes || 0) === 0) {
+      return c.json({ error: "This entry was just reviewed by someone else" }, 409);
+    }
 
-    const response: SearchMentorsResponse = {
-      mentors: (results.results || []).map(normalizeMentorProfile),
-      total,
-      limit,
-      offset,
-    };
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.WaitlistUpdate,
+      targetType: AuditTargetType.WaitlistEntry,
+      targetId: entryId,
+      before: { status: entry.status },
+      after: { status: body.status, email: entry.email },
+    });
 
-    return c.json<SearchMentorsResponse>(response);
+    if (body.status === WaitlistStatus.Approved) {
+      // The approval stands even if the email can't be sent
+      try {
+        await resolveMailTransport(c.env).send(
+          renderWaitlistApprovedEmail(entry, c.env.APP_URL || DEFAULT_APP_URL)
+        );
+      } catch (err) {
+        console.error("Error sending waitlist approval email:", err);
+      }
+    }
+
+    return c.json({
+      entry: { ...entry, status: body.status, reviewed_by: auth.userId, reviewed_at: now, updated_at: now },
+    });
   } catch (err) {
-    console.error("Search error:", err);
-    return c.json({ error: "Invalid request", details: err instanceof Error ? err.message : String(err) }, 400);
+    console.error("Error updating waitlist entry:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
+
 // ============================================================================
-// Match Management API (/api/v1/matches)
+// Events API (/api/v1/events, /api/v1/admin/events)
 // ============================================================================
 
+// Event columns with its RSVP counts and the caller's own RSVP; bind the caller's user ID, or null
+const EVENT_SELECT = `
+  SELECT e.*,
+    (SELECT COUNT(*) FROM event_rsvps r WHERE r.event_id = e.id AND r.status = 'going') as going_count,
+    (SELECT COUNT(*) FROM event_rsvps r WHERE r.event_id = e.id AND r.status = 'waitlisted') as waitlist_count,
+    (SELECT r.status FROM event_rsvps r WHERE r.event_id = e.id AND r.user_id = ?) as my_rsvp
+  FROM events e
+`;
+
+// True while an event (bind its ID) has a spot left; events without a capacity always do.
+// Used inside the statements that take a spot, so concurrent RSVPs can't overfill an event.
+const EVENT_HAS_SPOT_SQL = `(
+  SELECT e.capacity IS NULL OR e.capacity > (
+    SELECT COUNT(*) FROM event_rsvps g WHERE g.event_id = e.id AND g.status = 'going'
+  )
+  FROM events e WHERE e.id = ?
+)`;
+
 /**
- * POST /api/v1/matches - Create match request (mentee-initiated)
+ * Editable column values of an event
  */
-app.post("/api/v1/matches", requireAuth, async (c) => {
-  try {
-    const body = await c.req.json<CreateMatchRequest>();
+interface EventColumns {
+  name: string;
+  description: string;
+  start_at: number; // Unix timestamp
+  end_at: number; // Unix timestamp
+  timezone: string | null;
+  location: EventLocation;
+  is_free: boolean;
+  price_cents: number | null;
+  currency: string | null;
+  capacity: number | null;
+  hosts: Host[];
+  cover_image_url: string | null;
+  luma_url: string | null;
+}
 
-    // Validation: Required fields
-    if (!body.mentor_id) {
-      return c.json({ error: "mentor_id is required" }, 400);
+/**
+ * Convert an ISO 8601 timestamp from a request body to a Unix timestamp
+ */
+function parseEventTime(value: string): number {
+  return Math.floor(Date.parse(value) / 1000);
+}
+
+/**
+ * Validate the editable fields of an event
+ * @param body - Fields to validate; omitted fields are skipped
+ * @returns Error message, or null if every given field is valid
+ */
+function validateEventFields(body: UpdateEventDTO): string | null {
+  if (body.name !== undefined && (!body.name.trim() || body.name.trim().length > MAX_EVENT_NAME_LENGTH)) {
+    return `Name is required and must be at most ${MAX_EVENT_NAME_LENGTH} characters`;
+  }
+  if (body.description !== undefined && body.description.trim().length > MAX_EVENT_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_EVENT_DESCRIPTION_LENGTH} characters`;
+  }
+  for (const field of ["start_at", "end_at"] as const) {
+    if (body[field] !== undefined && (typeof body[field] !== "string" || Number.isNaN(Date.parse(body[field])))) {
+      return `${field} must be an ISO 8601 timestamp`;
     }
-    if (!body.introduction) {
-      return c.json({ error: "introduction is required" }, 400);
+  }
+  if (body.timezone && !isValidTimezone(body.timezone)) {
+    return "Invalid timezone";
+  }
+  if (body.location !== undefined) {
+    if (!body.location || (body.location.location_type !== "online" && body.location.location_type !== "offline")) {
+      return "location.location_type must be online or offline";
     }
-    if (!body.preferred_time) {
-      return c.json({ error: "preferred_time is required" }, 400);
+    if (body.location.location_type === "offline" && !body.location.city?.trim() && !body.location.full_address?.trim()) {
+      return "An in-person event needs a city or an address";
     }
-
-    // Check if mentor user exists
-    const mentorUser = await c.env.platform_db
-      .prepare("SELECT id FROM users WHERE id = ?")
-      .bind(body.mentor_id)
-      .first();
-
-    if (!mentorUser) {
-      return c.json({ error: "Mentor user not found" }, 400);
+  }
+  if (body.ticket_info !== undefined) {
+    const { is_free, price_cents, currency } = body.ticket_info || {};
+    if (typeof is_free !== "boolean") {
+      return "ticket_info.is_free must be true or false";
     }
+    if (price_cents !== undefined && price_cents !== null && (!Number.isInteger(price_cents) || price_cents < 0)) {
+      return "ticket_info.price_cents must be a non-negative whole number";
+    }
+    if (currency && !/^[a-zA-Z]{3}$/.test(currency)) {
+      return "ticket_info.currency must be a three-letter currency code";
+    }
+  }
+  if (body.capacity !== undefined && body.capacity !== null && (!Number.isInteger(body.capacity) || body.capacity <= 0)) {
+    return "Capacity must be a positive whole number, or null for unlimited";
+  }
+  if (body.hosts !== undefined) {
+    if (!Array.isArray(body.hosts) || body.hosts.length > MAX_EVENT_HOSTS) {
+      return `hosts must be a list of at most ${MAX_EVENT_HOSTS} hosts`;
+    }
+    if (body.hosts.some((host) => !host || typeof host.name !== "string" || !host.name.trim())) {
+      return "Every host needs a name";
+    }
+  }
+  for (const field of ["cover_image_url", "luma_url"] as const) {
+    if (body[field] && !isValidMeetingLink(body[field])) {
+      return `${field} must be an http(s) URL`;
+    }
+  }
+  return null;
+}
 
-    // Check if mentor profile exists
-    const mentorProfile = await c.env.platform_db
-      .prepare("SELECT id FROM mentor_profiles WHERE user_id = ?")
-      .bind(body.mentor_id)
-      .first();
+/**
+ * Get the editable column values of an event row
+ */
+function eventColumnsFromRow(row: Record<string, unknown>): EventColumns {
+  const event = normalizeEvent(row);
+  return {
+    name: event.name,
+    description: event.description || "",
+    start_at: Number(row.start_at),
+    end_at: Number(row.end_at),
+    timezone: event.timezone || null,
+    location: event.location,
+    is_free: event.ticket_info.is_free,
+    price_cents: event.ticket_info.price_cents ?? null,
+    currency: event.ticket_info.currency || null,
+    capacity: event.capacity ?? null,
+    hosts: event.hosts,
+    cover_image_url: event.cover_image_url || null,
+    luma_url: event.luma_url || null,
+  };
+}
 
-    if (!mentorProfile) {
-      return c.json({ error: "Mentor mentor profile not found" }, 400);
-    }
+/**
+ * Merge a create or update body over an event's column values
+ */
+function applyEventChanges(current: EventColumns, body: UpdateEventDTO): EventColumns {
+  const trimmed = (value: string | undefined) => value?.trim() || undefined;
+  return {
+    ...current,
+    ...(body.name !== undefined ? { name: body.name.trim() } : {}),
+    ...(body.description !== undefined ? { description: body.description.trim() } : {}),
+    ...(body.start_at !== undefined ? { start_at: parseEventTime(body.start_at) } : {}),
+    ...(body.end_at !== undefined ? { end_at: parseEventTime(body.end_at) } : {}),
+    ...(body.timezone !== undefined ? { timezone: body.timezone || null } : {}),
+    ...(body.location !== undefined
+      ? {
+          location: {
+            location_type: body.location.location_type,
+            address: trimmed(body.location.address),
+            city: trimmed(body.location.city),
+            region: trimmed(body.location.region),
+            country: trimmed(body.location.country),
+            full_address: trimmed(body.location.full_address),
+          },
+        }
+      : {}),
+    ...(body.ticket_info !== undefined
+      ? {
+          is_free: body.ticket_info.is_free,
+          price_cents: body.ticket_info.price_cents ?? null,
+          currency: body.ticket_info.currency?.toLowerCase() || null,
+        }
+      : {}),
+    ...(body.capacity !== undefined ? { capacity: body.capacity } : {}),
+    ...(body.hosts !== undefined
+      ? {
+          hosts: body.hosts.map((host) => ({
+            name: host.name.trim(),
+            ...(host.username ? { username: host.username } : {}),
+            ...(host.avatar_url ? { avatar_url: host.avatar_url } : {}),
+          })),
+        }
+      : {}),
+    ...(body.cover_image_url !== undefined ? { cover_image_url: body.cover_image_url || null } : {}),
+    ...(body.luma_url !== undefined ? { luma_url: body.luma_url || null } : {}),
+  };
+}
 
-    // Get current user (mentee) from JWT authentication
-    const user = c.get('user') as AuthPayload;
-    const menteeId = user.userId;
+/**
+ * Bind values for the editable columns, in the order name, description, start_at, end_at,
+ * timezone, location_type, address, city, region, country, full_address, is_free, price_cents,
+ * currency, capacity, hosts, cover_image_url, luma_url
+ */
+function eventColumnValues(values: EventColumns): unknown[] {
+  return [
+    values.name,
+    values.description,
+    values.start_at,
+    values.end_at,
+    values.timezone,
+    values.location.location_type,
+    values.location.address || null,
+    values.location.city || null,
+    values.location.region || null,
+    values.location.country || null,
+    values.location.full_address || null,
+    values.is_free ? 1 : 0,
+    values.price_cents,
+    values.currency,
+    values.capacity,
+    JSON.stringify(values.hosts),
+    values.cover_image_url,
+    values.luma_url,
+  ];
+}
 
-    // Check if mentee tries to match with themselves
-    if (body.mentor_id === menteeId) {
-      return c.json({ error: "Cannot match with themselves" }, 400);
-    }
+/**
+ * Load an event with its RSVP counts
+ * @param userId - Signed-in member whose RSVP to include, or null
+ */
+async function getEventById(db: D1Database, eventId: string, userId: string | null): Promise<Event | null> {
+  const row = await db.prepare(`${EVENT_SELECT} WHERE e.id = ?`).bind(userId, eventId).first();
+  return row ? normalizeEvent(row) : null;
+}
 
-    // Check if duplicate match already exists
-    const existingMatch = await c.env.platform_db
-      .prepare("SELECT id FROM matches WHERE mentor_id = ? AND mentee_id = ?")
-      .bind(body.mentor_id, menteeId)
-      .first();
+/**
+ * Load a member's RSVP to an event, with the member's name and email
+ */
+async function getEventRsvp(db: D1Database, eventId: string, userId: string): Promise<EventRsvp | null> {
+  const row = await db
+    .prepare(`
+      SELECT r.*, u.name as user_name, u.email as user_email
+      FROM event_rsvps r
+      LEFT JOIN users u ON r.user_id = u.id
+      WHERE r.event_id = ? AND r.user_id = ?
+    `)
+    .bind(eventId, userId)
+    .first();
+  return row ? normalizeEventRsvp(row) : null;
+}
 
-    if (existingMatch) {
-      return c.json({ error: "Duplicate match already exists" }, 409);
+/**
+ * Move members from an event's waitlist to going, oldest RSVP first, while spots are left
+ * Each promoted member is notified.
+ * @param event - Event as loaded after the spot opened up
+ * @returns Number of members promoted
+ */
+async function promoteEventWaitlist(env: Env, event: Event): Promise<number> {
+  const db = env.platform_db;
+  const spots = event.ticket_info.spots_remaining;
+  if (spots === 0 || !event.waitlist_count) {
+    return 0;
+  }
+
+  // LIMIT -1 takes the whole waitlist when the event has no capacity
+  const waitlist = await db
+    .prepare(`
+      SELECT id, user_id FROM event_rsvps
+      WHERE event_id = ? AND status = 'waitlisted'
+      ORDER BY created_at ASC, id ASC
+      LIMIT ?
+    `)
+    .bind(event.id, spots ?? -1)
+    .all<{ id: string; user_id: string }>();
+
+  let promoted = 0;
+  for (const rsvp of waitlist.results || []) {
+    // The member may have left the waitlist, or someone else taken the spot, since the SELECT
+    const result = await db
+      .prepare(`
+        UPDATE event_rsvps SET status = 'going', updated_at = ?
+        WHERE id = ? AND status = 'waitlisted' AND ${EVENT_HAS_SPOT_SQL}
+      `)
+      .bind(getTimestamp(), rsvp.id, event.id)
+      .run();
+    if (!result.meta?.changes) {
+      continue;
     }
 
-    // Validate that mentee has uploaded CV (CV is mandatory)
-    const menteeUser = await c.env.platform_db
-      .prepare("SELECT cv_url FROM users WHERE id = ?")
-      .bind(menteeId)
-      .first<{ cv_url: string | null }>();
+    promoted++;
+    await createNotification(env, {
+      user_id: rsvp.user_id,
+      type: NotificationType.EventSpotOpened,
+      data: { title: event.name },
+      link: "/events",
+    });
+  }
 
-    if (!menteeUser?.cv_url) {
-      return c.json({ error: "CV is required to send mentorship request" }, 400);
-    }
+  return promoted;
+}
 
-    // Create match
-    const matchId = generateId();
-    const timestamp = getTimestamp();
-    const cvIncluded = 1; // Always 1 since CV is mandatory
+/**
+ * Convert an event row to a calendar entry, in the time zone the event is held in
+ * @param host - Host of the request, to make the UID globally unique
+ * @param appUrl - Base URL of the app, linked when the event has no Luma page
+ */
+function eventToIcsEvent(row: Record<string, unknown>, host: string, appUrl: string, status: IcsEvent["status"] = "CONFIRMED"): IcsEvent {
+  const event = normalizeEvent(row);
+  const { location } = event;
+  const place =
+    location.location_type === "online"
+      ? "Online"
+      : location.full_address || [location.address, location.city, location.region, location.country].filter(Boolean).join(", ");
 
-    await c.env.platform_db
-      .prepare(
-        "INSERT INTO matches (id, mentor_id, mentee_id, status, introduction, preferred_time, cv_included, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
-      )
-      .bind(matchId, body.mentor_id, menteeId, "pending", body.introduction, body.preferred_time, cvIncluded, timestamp, timestamp)
-      .run();
+  return {
+    uid: `event-${event.id}@${host}`,
+    start: Number(row.start_at),
+    end: Number(row.end_at),
+    summary: event.name,
+    description: event.description || null,
+    location: place || null,
+    url: event.luma_url || `${appUrl}/events`,
+    status,
+    lastModified: Number(row.updated_at),
+    timeZone: event.timezone || null,
+  };
+}
 
-    const match: Match = {
-      id: matchId,
-      mentor_id: body.mentor_id,
-      mentee_id: menteeId,
-      status: "pending",
-      introduction: body.introduction,
-      preferred_time: body.preferred_time,
-      cv_included: cvIncluded,
-      created_at: timestamp,
-      updated_at: timestamp,
-    };
+/**
+ * Calendar response headers; feeds are shown inline, single events downloaded
+ */
+function icsHeaders(filename: string, download: boolean): Record<string, string> {
+  return {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${filename}"`,
+  };
+}
 
-    return c.json<Match>(match, 201);
-  } catch {
-    return c.json({ error: "Invalid request body" }, 400);
-  }
-});
+/**
+ * Load a member's calendar feed, without its token
+ */
+async function getCalendarFeed(db: D1Database, userId: string): Promise<CalendarFeed | null> {
+  return db
+    .prepare("SELECT created_at, last_used_at FROM calendar_feed_tokens WHERE user_id = ?")
+    .bind(userId)
+    .first<CalendarFeed>();
+}
 
 /**
- * GET /api/v1/matches/check/:mentorId - Check if match exists between current user (mentee) and mentor
- * Returns the existing match status, or 404 if no match exists
+ * GET /api/v1/events - List all events, earliest first
+ * Public endpoint. Signed-in members also get their own RSVP on each event (my_rsvp).
  */
-app.get("/api/v1/matches/check/:mentorId", requireAuth, async (c) => {
-  try {
-    const mentorId = c.req.param("mentorId");
-    const user = c.get('user') as AuthPayload;
-    const menteeId = user.userId;
+app.get("/api/v1/events", async (c) => {
+  const auth = c.get("user") as AuthPayload | undefined;
 
-    // Check for any non-rejected match between mentee and mentor
+  try {
     const result = await c.env.platform_db
-      .prepare(
-        `SELECT id, status FROM matches
-         WHERE mentee_id = ? AND mentor_id = ? AND status != 'rejected'
-         LIMIT 1`
-      )
-      .bind(menteeId, mentorId)
-      .first<{ id: string; status: string }>();
-
-    if (!result) {
-      return c.json({ exists: false }, 404);
-    }
+      .prepare(`${EVENT_SELECT} ORDER BY e.start_at ASC`)
+      .bind(auth?.userId ?? null)
+      .all();
 
-    return c.json({
-      exists: true,
-      matchId: result.id,
-      status: result.status,
-    });
-  } catch {
-    return c.json({ error: "Invalid request" }, 400);
+    return c.json<GetEventsResponse>({ events: (result.results || []).map(normalizeEvent) });
+  } catch (err) {
+    console.error("Error fetching events:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * GET /api/v1/matches - List matches for user (mentor or mentee)
+ * GET /api/v1/events/calendar.ics - Subscribable iCalendar feed of all events
+ * Public endpoint.
  */
-app.get("/api/v1/matches", requireAuth, async (c) => {
+app.get("/api/v1/events/calendar.ics", async (c) => {
   try {
-    // Get current user from JWT authentication
-    const user = c.get('user') as AuthPayload;
-    const userId = user.userId;
-
-    const statusParam = c.req.query("status");
-    const roleParam = c.req.query("role");
+    const result = await c.env.platform_db.prepare("SELECT * FROM events ORDER BY start_at ASC").all();
 
-    // Validate status if provided
-    if (statusParam && !["pending", "accepted", "rejected", "active", "completed"].includes(statusParam)) {
-      return c.json({ error: "Invalid status value" }, 400);
-    }
+    const host = new URL(c.req.url).host;
+    const appUrl = c.env.APP_URL || DEFAULT_APP_URL;
+    const ics = buildIcsCalendar(
+      (result.results || []).map((row) => eventToIcsEvent(row, host, appUrl)),
+      { name: "Lead Forward Events", refreshInterval: "PT1H" }
+    );
 
-    // Build WHERE clause
-    const conditions: string[] = [];
-    const params: string[] = [];
+    return c.body(ics, 200, icsHeaders("lead-forward-events.ics", false));
+  } catch (err) {
+    console.error("Error exporting events calendar:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Filter by user (as mentor or mentee)
-    conditions.push("(matches.mentor_id = ? OR matches.mentee_id = ?)");
-    params.push(userId, userId);
+/**
+ * GET /api/v1/events/my-calendar.ics?token= - A member's personal feed of the events they're
+ * going to or waitlisted for
+ * Calendar apps can't sign in, so the feed token in the URL is the only credential.
+ */
+app.get("/api/v1/events/my-calendar.ics", async (c) => {
+  const db = c.env.platform_db;
+  const token = c.req.query("token");
 
-    // Filter by role if provided
-    if (roleParam === "mentor") {
-      conditions.push("matches.mentor_id = ?");
-      params.push(userId);
-    } else if (roleParam === "mentee") {
-      conditions.push("matches.mentee_id = ?");
-      params.push(userId);
+  try {
+    if (!token) {
+      return c.json({ error: "Calendar feed not found" }, 404);
     }
 
-    // Filter by status if provided
-    if (statusParam) {
-      conditions.push("matches.status = ?");
-      params.push(statusParam);
+    const feed = await db
+      .prepare("SELECT user_id FROM calendar_feed_tokens WHERE token_hash = ?")
+      .bind(await sha256Hex(token))
+      .first<{ user_id: string }>();
+    if (!feed) {
+      return c.json({ error: "Calendar feed not found" }, 404);
     }
 
-    const whereClause = `WHERE ${conditions.join(" AND ")}`;
-
-    // Get matches with mentor and mentee names via JOIN
-    // For active/completed matches, also include email addresses and mentor LinkedIn URL
-    const sql = `
-      SELECT
-        matches.id,
-        matches.mentor_id,
-        matches.mentee_id,
-        mentor_users.name as mentor_name,
-        mentee_users.name as mentee_name,
-        CASE
-          WHEN matches.status IN ('active', 'completed') THEN mentor_users.email
-          ELSE NULL
-        END as mentor_email,
-        CASE
-          WHEN matches.status IN ('active', 'completed') THEN mentee_users.email
-          ELSE NULL
-        END as mentee_email,
-        CASE
-          WHEN matches.status IN ('active', 'completed') THEN mentor_profiles.linkedin_url
-          ELSE NULL
-        END as mentor_linkedin_url,
-        matches.status,
-        matches.introduction,
-        matches.preferred_time,
-        matches.cv_included,
-        matches.created_at,
-        matches.updated_at
-      FROM matches
-      LEFT JOIN users as mentor_users ON matches.mentor_id = mentor_users.id
-      LEFT JOIN users as mentee_users ON matches.mentee_id = mentee_users.id
-      LEFT JOIN mentor_profiles ON matches.mentor_id = mentor_profiles.user_id
-      ${whereClause}
-      ORDER BY matches.created_at DESC
-    `;
+    const result = await db
+      .prepare(`
+        SELECT e.*, r.status as rsvp_status
+        FROM event_rsvps r
+        INNER JOIN events e ON r.event_id = e.id
+        WHERE r.user_id = ? AND r.status IN ('going', 'waitlisted')
+        ORDER BY e.start_at ASC
+      `)
+      .bind(feed.user_id)
+      .all();
 
-    const results = await c.env.platform_db
-      .prepare(sql)
-      .bind(...params)
-      .all<Match>();
+    await db
+      .prepare("UPDATE calendar_feed_tokens SET last_used_at = ? WHERE user_id = ?")
+      .bind(getTimestamp(), feed.user_id)
+      .run();
 
-    const response: GetMatchesResponse = {
-      matches: results.results || [],
-    };
+    const host = new URL(c.req.url).host;
+    const appUrl = c.env.APP_URL || DEFAULT_APP_URL;
+    const ics = buildIcsCalendar(
+      (result.results || []).map((row) =>
+        // Waitlisted events stay tentative until the member gets a spot
+        eventToIcsEvent(row, host, appUrl, row.rsvp_status === EventRsvpStatus.Going ? "CONFIRMED" : "TENTATIVE")
+      ),
+      { name: "My Lead Forward Events", refreshInterval: "PT1H" }
+    );
 
-    return c.json<GetMatchesResponse>(response);
-  } catch {
-    return c.json({ error: "Invalid request" }, 400);
+    return c.body(ics, 200, icsHeaders("my-lead-forward-events.ics", false));
+  } catch (err) {
+    console.error("Error exporting personal events calendar:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * POST /api/v1/matches/:id/respond - Mentor accepts or rejects match
+ * GET /api/v1/events/calendar-feed - Whether the signed-in member has a personal calendar feed
  */
-app.post("/api/v1/matches/:id/respond", requireAuth, async (c) => {
+app.get("/api/v1/events/calendar-feed", requireAuth, async (c) => {
+  const auth = c.get("user") as AuthPayload;
+
   try {
-    const matchId = c.req.param("id");
-    const body = await c.req.json<RespondToMatchRequest>();
+    const feed = await getCalendarFeed(c.env.platform_db, auth.userId);
 
-    // Validation: action must be provided
-    if (!body.action || !["accept", "reject"].includes(body.action)) {
-      return c.json({ error: "action must be 'accept' or 'reject'" }, 400);
-    }
+    return c.json<GetCalendarFeedResponse>({ feed });
+  } catch (err) {
+    console.error("Error fetching calendar feed:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Get match
-    const match = await c.env.platform_db
-      .prepare("SELECT * FROM matches WHERE id = ?")
-      .bind(matchId)
-      .first();
+/**
+ * POST /api/v1/events/calendar-feed - Create the signed-in member's personal calendar feed
+ * Creating it again replaces the token, so the old feed URL stops working.
+ * The token is only returned in this response.
+ */
+app.post("/api/v1/events/calendar-feed", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
 
-    if (!match) {
-      return c.json({ error: "Match not found" }, 404);
-    }
+  try {
+    const token = generateCalendarFeedToken();
+    const now = getTimestamp();
+    await db
+      .prepare(`
+        INSERT INTO calendar_feed_tokens (user_id, token_hash, created_at, last_used_at)
+        VALUES (?, ?, ?, NULL)
+        ON CONFLICT(user_id) DO UPDATE SET
+          token_hash = excluded.token_hash, created_at = excluded.created_at, last_used_at = NULL
+      `)
+      .bind(auth.userId, await sha256Hex(token), now)
+      .run();
 
-    // Validate match is in pending state
-    if (match.status !== "pending") {
-      return c.json({ error: "Match is not in pending state" }, 400);
-    }
+    return c.json<CreateCalendarFeedResponse>({ token, feed: { created_at: now, last_used_at: null } }, 201);
+  } catch (err) {
+    console.error("Error creating calendar feed:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Determine new status
-    const newStatus = body.action === "accept" ? "active" : "rejected";
+/**
+ * DELETE /api/v1/events/calendar-feed - Turn off the signed-in member's personal calendar feed
+ */
+app.delete("/api/v1/events/calendar-feed", requireAuth, async (c) => {
+  const auth = c.get("user") as AuthPayload;
 
-    // Update match
-    const timestamp = getTimestamp();
+  try {
     await c.env.platform_db
-      .prepare("UPDATE matches SET status = ?, updated_at = ? WHERE id = ?")
-      .bind(newStatus, timestamp, matchId)
+      .prepare("DELETE FROM calendar_feed_tokens WHERE user_id = ?")
+      .bind(auth.userId)
       .run();
 
-    // Fetch and return updated match
-    const updated = await c.env.platform_db
-      .prepare("SELECT * FROM matches WHERE id = ?")
-      .bind(matchId)
-      .first<Match>();
-
-    if (!updated) {
-      return c.json({ error: "Match not found" }, 404);
-    }
-
-    return c.json<Match>(updated);
-  } catch {
-    return c.json({ error: "Invalid request body" }, 400);
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("Error deleting calendar feed:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * PATCH /api/v1/matches/:id/complete - Mark match as completed
+ * GET /api/v1/events/:id - Get a single event
+ * Public endpoint.
  */
-app.patch("/api/v1/matches/:id/complete", requireAuth, async (c) => {
-  try {
-    const matchId = c.req.param("id");
-
-    // Get match
-    const match = await c.env.platform_db
-      .prepare("SELECT * FROM matches WHERE id = ?")
-      .bind(matchId)
-      .first();
-
-    if (!match) {
-      return c.json({ error: "Match not found" }, 404);
-    }
+app.get("/api/v1/events/:id", async (c) => {
+  const auth = c.get("user") as AuthPayload | undefined;
 
-    // Validate match is in active state
-    if (match.status !== "active") {
-      return c.json({ error: "Match is not active" }, 400);
+  try {
+    const event = await getEventById(c.env.platform_db, c.req.param("id"), auth?.userId ?? null);
+    if (!event) {
+      return c.json({ error: "Event not found" }, 404);
     }
 
-    // Update match to completed
-    const timestamp = getTimestamp();
-    await c.env.platform_db
-      .prepare("UPDATE matches SET status = ?, updated_at = ? WHERE id = ?")
-      .bind("completed", timestamp, matchId)
-      .run();
-
-    // Fetch and return updated match
-    const updated = await c.env.platform_db
-      .prepare("SELECT * FROM matches WHERE id = ?")
-      .bind(matchId)
-      .first<Match>();
+    return c.json({ event });
+  } catch (err) {
+    console.error("Error fetching event:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    if (!updated) {
-      return c.json({ error: "Match not found" }, 404);
+/**
+ * GET /api/v1/events/:id/ics - Download an event as an .ics file
+ * Public endpoint.
+ */
+app.get("/api/v1/events/:id/ics", async (c) => {
+  try {
+    const row = await c.env.platform_db
+      .prepare("SELECT * FROM events WHERE id = ?")
+      .bind(c.req.param("id"))
+      .first();
+    if (!row) {
+      return c.json({ error: "Event not found" }, 404);
     }
 
-    return c.json<Match>(updated);
-  } catch {
-    return c.json({ error: "Invalid request" }, 400);
+    const ics = buildIcsCalendar([
+      eventToIcsEvent(row, new URL(c.req.url).host, c.env.APP_URL || DEFAULT_APP_URL),
+    ]);
+
+    return c.body(ics, 200, icsHeaders(`event-${row.id}.ics`, true));
+  } catch (err) {
+    console.error("Error exporting event:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * DELETE /api/v1/matches/:id - Cancel/delete match
+ * POST /api/v1/events/:id/rsvp - RSVP to an event
+ * The member is going while the event has spots left, otherwise joins the waitlist.
+ * RSVPing again while going or waitlisted leaves the RSVP unchanged.
  */
-app.delete("/api/v1/matches/:id", requireAuth, async (c) => {
-  const matchId = c.req.param("id");
+app.post("/api/v1/events/:id/rsvp", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const eventId = c.req.param("id");
 
-  // Check if match exists
-  const existing = await c.env.platform_db
-    .prepare("SELECT id FROM matches WHERE id = ?")
-    .bind(matchId)
-    .first();
+  try {
+    const event = await getEventById(db, eventId, auth.userId);
+    if (!event) {
+      return c.json({ error: "Event not found" }, 404);
+    }
 
-  if (!existing) {
-    return c.json({ error: "Match not found" }, 404);
-  }
+    if (Date.parse(event.end_at) <= Date.now()) {
+      return c.json({ error: "This event has already ended" }, 400);
+    }
 
-  // Delete the match
-  await c.env.platform_db
-    .prepare("DELETE FROM matches WHERE id = ?")
-    .bind(matchId)
-    .run();
+    if (event.my_rsvp !== EventRsvpStatus.Going && event.my_rsvp !== EventRsvpStatus.Waitlisted) {
+      // A cancelled RSVP is reused and goes to the back of the waitlist
+      const now = getTimestamp();
+      await db
+        .prepare(`
+          INSERT INTO event_rsvps (id, event_id, user_id, status, created_at, updated_at)
+          VALUES (?, ?, ?, CASE WHEN ${EVENT_HAS_SPOT_SQL} THEN 'going' ELSE 'waitlisted' END, ?, ?)
+          ON CONFLICT(event_id, user_id) DO UPDATE SET
+            status = excluded.status, checked_in_at = NULL, checked_in_by = NULL,
+            created_at = excluded.created_at, updated_at = excluded.updated_at
+          WHERE event_rsvps.status = 'cancelled'
+        `)
+        .bind(generateEventRsvpId(), eventId, auth.userId, eventId, now, now)
+        .run();
+    }
 
-  return c.json({ success: true });
-});
+    const rsvp = await getEventRsvp(db, eventId, auth.userId);
+    const updated = await getEventById(db, eventId, auth.userId);
 
-// ============================================================================
-// Google OAuth Routes (/api/v1/auth)
-// ============================================================================
+    return c.json<EventRsvpResponse>({ rsvp: rsvp as EventRsvp, event: updated as Event });
+  } catch (err) {
+    console.error("Error creating RSVP:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
 /**
- * GET /api/v1/auth/google/login - Initiate Google OAuth login
- * Redirects user to Google's OAuth consent screen
+ * DELETE /api/v1/events/:id/rsvp - Cancel an RSVP or leave the waitlist
+ * A spot given up by a member going goes to the waitlist, oldest RSVP first.
  */
-app.get("/api/v1/auth/google/login", (c) => {
+app.delete("/api/v1/events/:id/rsvp", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const eventId = c.req.param("id");
+
   try {
-    const clientId = c.env.GOOGLE_CLIENT_ID;
+    const event = await getEventById(db, eventId, auth.userId);
+    if (!event) {
+      return c.json({ error: "Event not found" }, 404);
+    }
 
-    if (!clientId) {
-      return c.json({ error: "Google OAuth is not configured" }, 500);
+    if (Date.parse(event.end_at) <= Date.now()) {
+      return c.json({ error: "This event has already ended" }, 400);
     }
 
-    // Construct redirect URI using proper URL parsing
-    const requestUrl = new URL(c.req.url);
-    const redirectUri = c.req.query("redirect_uri") || `${requestUrl.protocol}//${requestUrl.host}/auth/google/callback`;
+    const rsvp = await getEventRsvp(db, eventId, auth.userId);
+    if (!rsvp || rsvp.status === EventRsvpStatus.Cancelled) {
+      return c.json({ error: "You haven't RSVP'd to this event" }, 404);
+    }
 
-    // Store the effective redirect URI in a temporary cookie so the callback handler
-    // can use the exact same value that Google saw, preventing invalid_grant errors.
-    const isHttps = requestUrl.protocol === "https:";
-    let cookieValue = `oauth_redirect_uri=${encodeURIComponent(redirectUri)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=300`;
-    if (isHttps) {
-      cookieValue += "; Secure";
+    const now = getTimestamp();
+    await db
+      .prepare(`
+        UPDATE event_rsvps SET status = 'cancelled', checked_in_at = NULL, checked_in_by = NULL, updated_at = ?
+        WHERE id = ?
+      `)
+      .bind(now, rsvp.id)
+      .run();
+
+    let updated = (await getEventById(db, eventId, auth.userId)) as Event;
+    if (rsvp.status === EventRsvpStatus.Going && (await promoteEventWaitlist(c.env, updated)) > 0) {
+      updated = (await getEventById(db, eventId, auth.userId)) as Event;
     }
-    c.header("Set-Cookie", cookieValue, { append: true });
 
-    const loginUrl = getGoogleLoginUrl(clientId, redirectUri);
-    return c.json({ url: loginUrl });
-  } catch {
-    return c.json({ error: "Failed to generate login URL" }, 500);
+    return c.json<EventRsvpResponse>({
+      rsvp: { ...rsvp, status: EventRsvpStatus.Cancelled, checked_in_at: null, checked_in_by: null, updated_at: now },
+      event: updated,
+    });
+  } catch (err) {
+    console.error("Error cancelling RSVP:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * GET /api/v1/auth/google/callback - Handle Google OAuth callback
- * Exchanges authorization code for access token and creates/updates user
+ * POST /api/v1/admin/events - Create an event (admin only)
+ * Body:
+ *   - name, start_at, end_at: (required) Times as ISO 8601 timestamps
+ *   - location: (required) { location_type: online | offline, address?, city?, region?, country?, full_address? }
+ *   - description, timezone, hosts, cover_image_url: (optional)
+ *   - ticket_info: (optional) { is_free, price_cents?, currency? }; free when omitted
+ *   - capacity: (optional) Members who can RSVP; omit or null for unlimited
+ *   - luma_url: (optional) External page of the event
  */
-app.get("/api/v1/auth/google/callback", async (c) => {
-  try {
-    const code = c.req.query("code");
-    const error = c.req.query("error");
+app.post("/api/v1/admin/events", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const body = await c.req.json<Partial<CreateEventDTO>>().catch(() => ({} as Partial<CreateEventDTO>));
 
-    // Retrieve redirect URI cookie early so we can clear it regardless of outcome
-    const requestUrl = new URL(c.req.url);
-    const cookies = c.req.header("Cookie") || "";
-    const redirectCookie = cookies
-      .split(";")
-      .map((cookie) => cookie.trim())
-      .find((cookie) => cookie.startsWith("oauth_redirect_uri="));
+  if (body.name === undefined || body.start_at === undefined || body.end_at === undefined || body.location === undefined) {
+    return c.json({ error: "name, start_at, end_at and location are required" }, 400);
+  }
 
-    const fallbackRedirectUri = `${requestUrl.protocol}//${requestUrl.host}/auth/google/callback`;
-    const redirectUriFromCookie = redirectCookie
-      ? decodeURIComponent(redirectCookie.split("=")[1])
-      : null;
-    const redirectUri = redirectUriFromCookie || fallbackRedirectUri;
+  const validationError = validateEventFields(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
 
-    const isHttps = requestUrl.protocol === "https:";
-    let clearCookieValue = "oauth_redirect_uri=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0";
-    if (isHttps) {
-      clearCookieValue += "; Secure";
-    }
-    c.header("Set-Cookie", clearCookieValue, { append: true });
+  const values = applyEventChanges(
+    {
+      name: "",
+      description: "",
+      start_at: 0,
+      end_at: 0,
+      timezone: null,
+      location: { location_type: "online" },
+      is_free: true,
+      price_cents: null,
+      currency: null,
+      capacity: null,
+      hosts: [],
+      cover_image_url: null,
+      luma_url: null,
+    },
+    body
+  );
+  if (values.end_at <= values.start_at) {
+    return c.json({ error: "end_at must be after start_at" }, 400);
+  }
 
-    // Handle OAuth errors
-    if (error) {
-      return c.json(
-        { error: `Google OAuth error: ${error}`, error_description: c.req.query("error_description") },
-        400
-      );
-    }
+  try {
+    const eventId = generateEventId();
+    const now = getTimestamp();
 
-    if (!code) {
-      return c.json({ error: "Missing authorization code" }, 400);
-    }
+    await db
+      .prepare(`
+        INSERT INTO events (
+          id, name, description, start_at, end_at, timezone, location_type, address, city, region, country,
+          full_address, is_free, price_cents, currency, capacity, hosts, cover_image_url, luma_url,
+          created_by, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .bind(eventId, ...eventColumnValues(values), auth.userId, now, now)
+      .run();
 
-    const clientId = c.env.GOOGLE_CLIENT_ID;
-    const clientSecret = c.env.GOOGLE_CLIENT_SECRET;
-    const jwtSecret = c.env.JWT_SECRET;
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.EventCreate,
+      targetType: AuditTargetType.Event,
+      targetId: eventId,
+      before: null,
+      after: { name: values.name, start_at: values.start_at, capacity: values.capacity },
+    });
 
-    if (!clientId || !clientSecret || !jwtSecret) {
-      return c.json({ error: "OAuth configuration missing" }, 500);
-    }
+    const event = await getEventById(db, eventId, auth.userId);
+    return c.json({ event }, 201);
+  } catch (err) {
+    console.error("Error creating event:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Exchange code for access token
-    const tokenResponse = await exchangeGoogleCode(code, clientId, clientSecret, redirectUri);
+/**
+ * PATCH /api/v1/admin/events/:id - Edit an event (admin only)
+ * Body: any of the fields of POST /api/v1/admin/events; null clears an optional field.
+ * Raising the capacity moves members off the waitlist. Lowering it below the members
+ * already going keeps their spots; new RSVPs join the waitlist until enough cancel.
+ */
+app.patch("/api/v1/admin/events/:id", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const eventId = c.req.param("id");
+  const body = await c.req.json<UpdateEventDTO>().catch(() => ({} as UpdateEventDTO));
 
-    // Fetch user profile (pass id_token as fallback if available)
-    const googleProfile = await getGoogleUserProfile(
-      tokenResponse.access_token,
-      tokenResponse.id_token
-    );
+  const validationError = validateEventFields(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
 
-    // Find or create user
-    const { user, isNewUser } = await findOrCreateUserFromGoogle(googleProfile, c.env.platform_db);
+  try {
+    const row = await db.prepare("SELECT * FROM events WHERE id = ?").bind(eventId).first();
+    if (!row) {
+      return c.json({ error: "Event not found" }, 404);
+    }
 
-    // Award initial points to new users
-    if (isNewUser) {
-      const timestamp = getTimestamp();
-      await c.env.platform_db
-        .prepare(
-          "INSERT INTO user_points (id, user_id, points, updated_at) VALUES (?, ?, ?, ?)"
-        )
-        .bind(generateId(), user.id, INITIAL_POINTS, timestamp)
-        .run();
+    const current = eventColumnsFromRow(row);
+    const updated = applyEventChanges(current, body);
+    if (updated.end_at <= updated.start_at) {
+      return c.json({ error: "end_at must be after start_at" }, 400);
     }
 
-    // Fetch user's role
-    const roleRecord = await c.env.platform_db
-      .prepare("SELECT role FROM user_roles WHERE user_id = ?")
-      .bind(user.id)
-      .first<{ role: string }>();
+    await db
+      .prepare(`
+        UPDATE events
+        SET name = ?, description = ?, start_at = ?, end_at = ?, timezone = ?, location_type = ?, address = ?,
+          city = ?, region = ?, country = ?, full_address = ?, is_free = ?, price_cents = ?, currency = ?,
+          capacity = ?, hosts = ?, cover_image_url = ?, luma_url = ?, updated_at = ?
+        WHERE id = ?
+      `)
+      .bind(...eventColumnValues(updated), getTimestamp(), eventId)
+      .run();
 
-    const userRole = roleRecord ? normalizeUserRole(roleRecord.role) : DEFAULT_ROLE;
+    // Audit only the fields that changed
+    const fields = Object.keys(updated) as (keyof EventColumns)[];
+    const changed = fields.filter((field) => JSON.stringify(current[field]) !== JSON.stringify(updated[field]));
+    if (changed.length > 0) {
+      await recordAuditLog(db, {
+        actorId: auth.userId,
+        action: AuditAction.EventUpdate,
+        targetType: AuditTargetType.Event,
+        targetId: eventId,
+        before: Object.fromEntries(changed.map((field) => [field, current[field]])),
+        after: Object.fromEntries(changed.map((field) => [field, updated[field]])),
+      });
+    }
+
+    let event = (await getEventById(db, eventId, auth.userId)) as Event;
+    if (
+      updated.capacity !== current.capacity &&
+      (updated.capacity === null || (current.capacity !== null && updated.capacity > current.capacity)) &&
+      (await promoteEventWaitlist(c.env, event)) > 0
+    ) {
+      event = (await getEventById(db, eventId, auth.userId)) as Event;
+    }
+
+    return c.json({ event });
+  } catch (err) {
+    console.error("Error updating event:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Create JWT token with role
-    const authPayload = createAuthPayload(user);
-    authPayload.role = userRole;
-    const token = await createToken(authPayload, jwtSecret);
+/**
+ * DELETE /api/v1/admin/events/:id - Delete an event and its RSVPs (admin only)
+ */
+app.delete("/api/v1/admin/events/:id", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const eventId = c.req.param("id");
 
-    // Set auth token as HTTP-only cookie
-    let cookieValue = `auth_token=${token}; HttpOnly; SameSite=Lax; Path=/; Max-Age=604800`;
-    if (isHttps) {
-      cookieValue += "; Secure";
+  try {
+    const row = await db.prepare("SELECT * FROM events WHERE id = ?").bind(eventId).first();
+    if (!row) {
+      return c.json({ error: "Event not found" }, 404);
     }
-    c.header("Set-Cookie", cookieValue, { append: true });
 
-    // Return user info (token is in cookie now)
-    return c.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: userRole,
-      },
+    await db.prepare("DELETE FROM event_rsvps WHERE event_id = ?").bind(eventId).run();
+    await db.prepare("DELETE FROM events WHERE id = ?").bind(eventId).run();
+
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.EventDelete,
+      targetType: AuditTargetType.Event,
+      targetId: eventId,
+      before: { name: row.name, start_at: row.start_at },
+      after: null,
     });
+
+    return c.json({ success: true });
   } catch (err) {
-    // Detailed error logging for OAuth debugging
-    console.error("OAuth callback error:", err);
+    console.error("Error deleting event:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    // Log additional context if available
-    if (err instanceof Error) {
-      console.error("Error message:", err.message);
-      console.error("Error stack:", err.stack);
+/**
+ * GET /api/v1/admin/events/:id/attendees - Members going, then the waitlist in order (admin only)
+ */
+app.get("/api/v1/admin/events/:id/attendees", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const eventId = c.req.param("id");
+
+  try {
+    const event = await db.prepare("SELECT id FROM events WHERE id = ?").bind(eventId).first();
+    if (!event) {
+      return c.json({ error: "Event not found" }, 404);
     }
 
-    // Log request details (without sensitive data)
-    const requestUrl = new URL(c.req.url);
-    console.error("Request URL:", requestUrl.pathname);
-    console.error("Has authorization code:", !!c.req.query("code"));
+    const result = await db
+      .prepare(`
+        SELECT r.*, u.name as user_name, u.email as user_email
+        FROM event_rsvps r
+        LEFT JOIN users u ON r.user_id = u.id
+        WHERE r.event_id = ? AND r.status IN ('going', 'waitlisted')
+        ORDER BY CASE r.status WHEN 'going' THEN 0 ELSE 1 END, r.created_at ASC, r.id ASC
+      `)
+      .bind(eventId)
+      .all();
 
-    return c.json({ error: "Authentication failed" }, 500);
+    return c.json<GetEventAttendeesResponse>({ attendees: (result.results || []).map(normalizeEventRsvp) });
+  } catch (err) {
+    console.error("Error fetching event attendees:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * GET /api/v1/auth/me - Get current authenticated user
+ * POST /api/v1/admin/events/:id/attendees/:userId/check-in - Check a member in at the door (admin only)
+ * Only members going can be checked in; checking in again keeps the first check-in time.
  */
-app.get("/api/v1/auth/me", async (c) => {
-  try {
-    const authPayload = c.get("user") as AuthPayload | undefined;
-
-    if (!authPayload) {
-      return c.json({ error: "Unauthorized" }, 401);
-    }
+app.post("/api/v1/admin/events/:id/attendees/:userId/check-in", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const eventId = c.req.param("id");
+  const userId = c.req.param("userId");
 
-    // Fetch full user details from database
-    const user = await c.env.platform_db
-      .prepare("SELECT * FROM users WHERE id = ?")
-      .bind(authPayload.userId)
-      .first<User>();
+  try {
+    const now = getTimestamp();
+    const result = await db
+      .prepare(`
+        UPDATE event_rsvps
+        SET checked_in_at = COALESCE(checked_in_at, ?), checked_in_by = COALESCE(checked_in_by, ?), updated_at = ?
+        WHERE event_id = ? AND user_id = ? AND status = 'going'
+      `)
+      .bind(now, auth.userId, now, eventId, userId)
+      .run();
 
-    if (!user) {
-      return c.json({ error: "User not found" }, 404);
+    if (!result.meta?.changes) {
+      return c.json({ error: "This member isn't going to the event" }, 404);
     }
 
-    // Fetch user's role
-    const roleRecord = await c.env.platform_db
-      .prepare("SELECT role FROM user_roles WHERE user_id = ?")
-      .bind(authPayload.userId)
-      .first<{ role: string }>();
-
-    const userRole = roleRecord ? normalizeUserRole(roleRecord.role) : DEFAULT_ROLE;
-    user.role = userRole;
-
-    return c.json(user);
-  } catch {
-    return c.json({ error: "Failed to fetch user" }, 500);
+    return c.json({ attendee: await getEventRsvp(db, eventId, userId) });
+  } catch (err) {
+    console.error("Error checking in attendee:", err);
+    return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 /**
- * POST /api/v1/auth/logout - Clear auth cookie and logout
- * Clears the auth_token cookie by setting Max-Age=0
+ * DELETE /api/v1/admin/events/:id/attendees/:userId/check-in - Undo a check-in (admin only)
  */
-app.post("/api/v1/auth/logout", (c) => {
-  const requestUrl = new URL(c.req.url);
-  const isHttps = requestUrl.protocol === "https:";
-  let clearCookieValue = "auth_token=; HttpOnly; SameSite=Lax; Path=/; Max-Age=0";
-  if (isHttps) {
-    clearCookieValue += "; Secure";
-  }
-  c.header("Set-Cookie", clearCookieValue, { append: true });
+app.delete("/api/v1/admin/events/:id/attendees/:userId/check-in", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const eventId = c.req.param("id");
+  const userId = c.req.param("userId");
 
-  return c.json({ success: true, message: "Logged out successfully" });
+  try {
+    const result = await db
+      .prepare(`
+        UPDATE event_rsvps SET checked_in_at = NULL, checked_in_by = NULL, updated_at = ?
+        WHERE event_id = ? AND user_id = ? AND status = 'going'
+      `)
+      .bind(getTimestamp(), eventId, userId)
+      .run();
+
+    if (!result.meta?.changes) {
+      return c.json({ error: "This member isn't going to the event" }, 404);
+    }
+
+    return c.json({ attendee: await getEventRsvp(db, eventId, userId) });
+  } catch (err) {
+    console.error("Error undoing check-in:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
 });
 
 
@@ -2284,6 +7775,9 @@ app.get("/api/v1/blogs", async (c) => {
       bindings.push(featured);
     }
 
+    // Blogs hidden by a moderator are left out of listings
+    whereClause += whereClause ? " AND hidden_at IS NULL" : " WHERE hidden_at IS NULL";
+
     query += whereClause;
 
     // Count total blogs (matching filter if applied)
@@ -2303,8 +7797,12 @@ app.get("/api/v1/blogs", async (c) => {
       .bind(...bindings)
       .all<Record<string, unknown>>();
 
-    // Normalize blogs and attach author info and user like status
+    // Normalize blogs and attach author info, badges and user like status
     const user = c.get('user') as AuthPayload | undefined;
+    const authorBadges = await getBadgesForUsers(
+      c.env.platform_db,
+      results.results.map((blog) => String(blog.user_id))
+    );
     const blogsWithAuthorsAndLikes = await Promise.all(
       results.results.map(async (blog) => {
         // Fetch author name
@@ -2330,6 +7828,7 @@ app.get("/api/v1/blogs", async (c) => {
           requires_auth: Boolean(blog.requires_auth),
           author_name: author?.name || "Unknown User",
           author_email: author?.email || "",
+          author_badges: authorBadges.get(String(blog.user_id)) || [],
           liked_by_user: userHasLiked,
         };
       })
@@ -2364,13 +7863,14 @@ app.get("/api/v1/blogs/:id", async (c) => {
       .bind(blogId)
       .first<Record<string, unknown>>();
 
-    if (!blog) {
-      return c.json({ error: "Blog not found" }, 404);
-    }
-
     // Check if blog requires authentication
-    const requiresAuth = Boolean(blog.requires_auth);
+    const requiresAuth = Boolean(blog?.requires_auth);
     const user = c.get('user') as AuthPayload | undefined;
+
+    // Blogs hidden by a moderator are only visible to admins
+    if (!blog || (blog.hidden_at && user?.role !== "admin")) {
+      return c.json({ error: "Blog not found" }, 404);
+    }
     const isAuthenticated = !!user;
 
     // Fetch author name and email
@@ -2451,11 +7951,19 @@ app.post("/api/v1/blogs", requireAuth, async (c) => {
       throw new Error("Failed to create blog");
     }
 
+    await indexSearchDocument(c.env.platform_db, {
+      type: SearchContentType.Blog,
+      id: blogId,
+      authorId: userId,
+      title: body.title.trim(),
+      body: body.content.trim(),
+    });
+
     // Award points for creating a blog (with diminishing returns)
     await awardPointsForAction(
       c.env.platform_db,
       userId,
-      "blog_created",
+      PointsActionType.BlogCreated,
       blogId,
       POINTS_FOR_CREATE_BLOG
     );
@@ -2528,6 +8036,14 @@ app.put("/api/v1/blogs/:id", requireAuth, async (c) => {
       throw new Error("Failed to update blog");
     }
 
+    await indexSearchDocument(c.env.platform_db, {
+      type: SearchContentType.Blog,
+      id: blogId,
+      authorId: blog.user_id as string,
+      title: title as string,
+      body: content as string,
+    });
+
     // Fetch updated blog
     const updatedBlog = await c.env.platform_db
       .prepare("SELECT * FROM blogs WHERE id = ?")
@@ -2587,6 +8103,8 @@ app.delete("/api/v1/blogs/:id", requireAuth, async (c) => {
       throw new Error("Failed to delete blog");
     }
 
+    await removeSearchDocument(c.env.platform_db, SearchContentType.Blog, blogId);
+
     return c.json({ success: true });
   } catch (err) {
     console.error("Error deleting blog:", err);
@@ -2658,7 +8176,7 @@ app.post("/api/v1/blogs/:id/like", requireAuth, async (c) => {
       await awardPointsForAction(
         c.env.platform_db,
         blogAuthorId,
-        "like_received",
+        PointsActionType.LikeReceived,
         likeId,
         POINTS_FOR_RECEIVING_LIKE
       );
@@ -2830,7 +8348,7 @@ app.post("/api/v1/blogs/:id/comments", requireAuth, async (c) => {
     await awardPointsForAction(
       c.env.platform_db,
       userId,
-      "comment_created",
+      PointsActionType.CommentCreated,
       commentId,
       POINTS_FOR_CREATE_COMMENT
     );
@@ -2842,12 +8360,20 @@ app.post("/api/v1/blogs/:id/comments", requireAuth, async (c) => {
       await awardPointsForAction(
         c.env.platform_db,
         blogAuthorId,
-        "comment_received",
+        PointsActionType.CommentReceived,
         commentId,
         POINTS_FOR_RECEIVING_COMMENT
       );
     }
 
+    await createNotification(c.env, {
+      user_id: blogAuthorId,
+      type: NotificationType.BlogComment,
+      actor_id: userId,
+      data: { actor_name: authPayload.name, title: blog.title as string },
+      link: `/blogs/${blogId}`,
+    });
+
     // Fetch created comment with author info
     const comment = await c.env.platform_db
       .prepare("SELECT * FROM blog_comments WHERE id = ?")
@@ -2913,9 +8439,10 @@ app.get("/api/v1/blogs/:id/comments", async (c) => {
       .bind(blogId, limit, offset)
       .all<Record<string, unknown>>();
 
+    const viewer = c.get('user') as AuthPayload | undefined;
     const normalizedComments = (comments.results || []).map((comment) =>
       normalizeBlogCommentWithAuthor({
-        ...comment,
+        ...(viewer?.role === "admin" ? comment : maskHiddenContent(comment)),
         author_name: comment.author_name as string,
         author_email: comment.author_email as string,
       })
@@ -3015,29 +8542,45 @@ app.patch("/api/v1/blogs/:id/feature", requireAuth, requireAdmin, async (c) => {
     const wasFeatured = Boolean(blog.featured);
     const willBeFeatured = body.featured;
 
-    // Update featured status
+    // Update featured status, award bonus points if blog is being featured (not if already
+    // featured) and record it, all in one batch
+    const db = c.env.platform_db;
     const now = Math.floor(Date.now() / 1000);
-    const updateResult = await c.env.platform_db
-      .prepare("UPDATE blogs SET featured = ?, updated_at = ? WHERE id = ?")
-      .bind(willBeFeatured ? 1 : 0, now, blogId)
-      .run();
-
-    if (!updateResult.success) {
-      throw new Error("Failed to update blog featured status");
+    const authorId = blog.user_id as string;
+    const awardsPoints = willBeFeatured && !wasFeatured;
+    const logId = generateId();
+    const statements = [
+      db.prepare("UPDATE blogs SET featured = ?, updated_at = ? WHERE id = ?").bind(willBeFeatured ? 1 : 0, now, blogId),
+    ];
+    if (awardsPoints) {
+      statements.push(
+        ...pointsTransactionStatements(db, {
+          userId: authorId,
+          actionType: PointsActionType.BlogFeatured,
+          referenceId: blogId,
+          logId,
+          delta: POINTS_FOR_BLOG_FEATURED,
+        })
+      );
     }
+    statements.push(
+      auditLogStatement(db, {
+        actorId: (c.get("user") as AuthPayload).userId,
+        action: AuditAction.BlogFeature,
+        targetType: AuditTargetType.Blog,
+        targetId: blogId,
+        before: { featured: wasFeatured },
+        after: { featured: willBeFeatured, points_awarded: 0 },
+        ...(awardsPoints ? { pointsLogId: logId } : {}),
+      })
+    );
+
+    const results = await db.batch<{ points_awarded: number }>(statements);
 
-    // Award bonus points if blog is being featured (not if already featured)
     let pointsAwarded = 0;
-    if (willBeFeatured && !wasFeatured) {
-      const authorId = blog.user_id as string;
-      
-      pointsAwarded = await awardPointsForAction(
-        c.env.platform_db,
-        authorId,
-        "blog_featured",
-        blogId,
-        POINTS_FOR_BLOG_FEATURED
-      );
+    if (awardsPoints) {
+      pointsAwarded = results[1].results[0]?.points_awarded ?? 0;
+      await evaluateBadges(db, authorId);
     }
 
     // Fetch updated blog
@@ -3058,10 +8601,122 @@ app.patch("/api/v1/blogs/:id/feature", requireAuth, requireAdmin, async (c) => {
   }
 });
 
+// ============================================================================
+// Forum Revisions
+// ============================================================================
+
+/**
+ * A thread or reply as stored, before an edit replaces it
+ */
+interface ForumPostVersion {
+  title: string | null;
+  content: string;
+  user_id: string;
+  created_at: number;
+  edited_at: number | null;
+  edited_by: string | null;
+}
+
+/**
+ * Save the current version of a thread or reply before an edit replaces it
+ * The version was written by whoever last edited it, or by the author if it was never edited
+ */
+async function saveForumRevision(
+  db: D1Database,
+  contentType: RevisionContentType,
+  contentId: string,
+  post: ForumPostVersion
+): Promise<void> {
+  await db
+    .prepare(`
+      INSERT INTO forum_revisions (id, content_type, content_id, title, content, edited_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    .bind(
+      generateForumRevisionId(),
+      contentType,
+      contentId,
+      post.title,
+      post.content,
+      post.edited_by || post.user_id,
+      post.edited_at || post.created_at
+    )
+    .run();
+}
+
+/**
+ * List every version of a thread or reply, oldest first and ending with the current one
+ * @param current - The stored post with the name of whoever wrote the current version
+ */
+async function getForumRevisions(
+  db: D1Database,
+  contentType: RevisionContentType,
+  contentId: string,
+  current: ForumPostVersion & { edited_by_name: string | null }
+): Promise<ForumRevision[]> {
+  const result = await db
+    .prepare(`
+      SELECT r.title, r.content, r.edited_by, u.name as edited_by_name, r.created_at
+      FROM forum_revisions r
+      LEFT JOIN users u ON r.edited_by = u.id
+      WHERE r.content_type = ? AND r.content_id = ?
+      ORDER BY r.created_at ASC, r.rowid ASC
+    `)
+    .bind(contentType, contentId)
+    .all<Omit<ForumRevision, "version" | "is_current">>();
+
+  const previous = (result.results || []).map((row, index) => ({
+    version: index + 1,
+    title: row.title ?? null,
+    content: row.content,
+    edited_by: row.edited_by ?? null,
+    edited_by_name: row.edited_by_name ?? null,
+    created_at: row.created_at,
+    is_current: false,
+  }));
+
+  return [
+    ...previous,
+    {
+      version: previous.length + 1,
+      title: current.title,
+      content: current.content,
+      edited_by: current.edited_by || current.user_id,
+      edited_by_name: current.edited_by_name,
+      created_at: current.edited_at || current.created_at,
+      is_current: true,
+    },
+  ];
+}
+
 // ============================================================================
 // Forum Replies API
 // ============================================================================
 
+/**
+ * Whether a user can still see a deleted thread and its replies
+ * Admins and moderators keep access so they can review a deletion before restoring it
+ */
+function canViewDeletedThreads(user: AuthPayload | undefined): boolean {
+  return user?.role === UserRole.Admin || user?.role === UserRole.Moderator;
+}
+
+/**
+ * Whether the reply belongs to a thread that is deleted for this user
+ */
+async function isReplyThreadDeleted(db: D1Database, replyId: string, user: AuthPayload | undefined): Promise<boolean> {
+  if (canViewDeletedThreads(user)) {
+    return false;
+  }
+
+  const thread = await db
+    .prepare("SELECT t.deleted_at FROM forum_replies r JOIN forum_threads t ON t.id = r.thread_id WHERE r.id = ?")
+    .bind(replyId)
+    .first<{ deleted_at: number | null }>();
+
+  return Boolean(thread?.deleted_at);
+}
+
 /**
  * GET /api/v1/forums/threads/:id/replies - Get replies for a thread
  * Query params:
@@ -3075,6 +8730,17 @@ app.get("/api/v1/forums/threads/:id/replies", async (c) => {
   const offset = parseInt(c.req.query("offset") || "0");
 
   try {
+    const viewer = c.get("user") as AuthPayload | undefined;
+    const thread = await db
+      .prepare("SELECT hidden_at, deleted_at FROM forum_threads WHERE id = ?")
+      .bind(threadId)
+      .first<{ hidden_at: number | null; deleted_at: number | null }>();
+
+    // Replies of a hidden or deleted thread are hidden along with it
+    if ((thread?.hidden_at && viewer?.role !== "admin") || (thread?.deleted_at && !canViewDeletedThreads(viewer))) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
     const query = `
       SELECT
         r.*,
@@ -3100,8 +8766,11 @@ app.get("/api/v1/forums/threads/:id/replies", async (c) => {
       return c.json({ error: "Failed to fetch replies" }, 500);
     }
 
+    // Replies hidden by a moderator keep their place in the thread but not their content
+    const replies = (repliesResult.results || []) as Record<string, unknown>[];
+
     return c.json({
-      replies: repliesResult.results,
+      replies: viewer?.role === "admin" ? replies : replies.map(maskHiddenContent),
       total: (countResult?.total as number) || 0,
     });
   } catch (err) {
@@ -3138,9 +8807,9 @@ app.post("/api/v1/forums/threads/:threadId/replies", async (c) => {
   try {
     // Verify thread exists
     const thread = await db
-      .prepare("SELECT id FROM forum_threads WHERE id = ?")
+      .prepare("SELECT id, user_id, title FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
       .bind(threadId)
-      .first();
+      .first<{ id: string; user_id: string; title: string }>();
 
     if (!thread) {
       return c.json({ error: "Thread not found" }, 404);
@@ -3186,6 +8855,17 @@ app.post("/api/v1/forums/threads/:threadId/replies", async (c) => {
       return c.json({ error: "Failed to create reply" }, 500);
     }
 
+    await indexSearchDocument(db, {
+      type: SearchContentType.Reply,
+      id: replyId,
+      authorId: auth.userId,
+      title: "",
+      body: sanitizedContent,
+    });
+
+    // Award points for creating a reply (silent failure if points system fails)
+    await awardPointsForAction(db, auth.userId, PointsActionType.ReplyCreated, replyId, POINTS_FOR_CREATE_REPLY);
+
     // Increment thread reply_count
     await db
       .prepare(`
@@ -3196,6 +8876,14 @@ app.post("/api/v1/forums/threads/:threadId/replies", async (c) => {
       .bind(now, threadId)
       .run();
 
+    await createNotification(c.env, {
+      user_id: thread.user_id,
+      type: NotificationType.ForumReply,
+      actor_id: auth.userId,
+      data: { actor_name: auth.name, title: thread.title },
+      link: `/forums/threads/${threadId}`,
+    });
+
     // Fetch the created reply with user info
     const reply = await db
       .prepare(`
@@ -3237,8 +8925,9 @@ app.get("/api/v1/forums/replies/:replyId", async (c) => {
       `)
       .bind(replyId)
       .first();
+    const viewer = c.get("user") as AuthPayload | undefined;
 
-    if (!reply) {
+    if (!reply || (await isReplyThreadDeleted(db, replyId, viewer))) {
       return c.json({ error: "Reply not found" }, 404);
     }
 
@@ -3257,10 +8946,12 @@ app.get("/api/v1/forums/replies/:replyId", async (c) => {
       .bind(replyId)
       .all();
 
+    const mask = (row: Record<string, unknown>) => (viewer?.role === "admin" ? row : maskHiddenContent(row));
+
     return c.json({
       reply: {
-        ...reply,
-        nested_replies: nestedReplies.results || [],
+        ...mask(reply as Record<string, unknown>),
+        nested_replies: ((nestedReplies.results || []) as Record<string, unknown>[]).map(mask),
       },
     });
   } catch (err) {
@@ -3292,11 +8983,11 @@ app.put("/api/v1/forums/replies/:replyId", async (c) => {
   try {
     // Verify reply exists and user is author
     const reply = await db
-      .prepare("SELECT user_id FROM forum_replies WHERE id = ?")
+      .prepare("SELECT user_id, content, created_at, edited_at, edited_by FROM forum_replies WHERE id = ?")
       .bind(replyId)
-      .first() as { user_id: string } | null;
+      .first() as Omit<ForumPostVersion, "title"> | null;
 
-    if (!reply) {
+    if (!reply || (await isReplyThreadDeleted(db, replyId, auth))) {
       return c.json({ error: "Reply not found" }, 404);
     }
 
@@ -3306,10 +8997,23 @@ app.put("/api/v1/forums/replies/:replyId", async (c) => {
 
     const now = Math.floor(Date.now() / 1000);
 
-    await db
-      .prepare("UPDATE forum_replies SET content = ?, updated_at = ? WHERE id = ?")
-      .bind(content.trim(), now, replyId)
-      .run();
+    // Saving the same content again is not an edit
+    if (content.trim() !== reply.content) {
+      await saveForumRevision(db, "reply", replyId, { ...reply, title: null });
+
+      await db
+        .prepare("UPDATE forum_replies SET content = ?, updated_at = ?, edited_at = ?, edited_by = ? WHERE id = ?")
+        .bind(content.trim(), now, now, auth.userId, replyId)
+        .run();
+    }
+
+    await indexSearchDocument(db, {
+      type: SearchContentType.Reply,
+      id: replyId,
+      authorId: reply.user_id,
+      title: "",
+      body: content.trim(),
+    });
 
     const updated = await db
       .prepare(`
@@ -3331,6 +9035,39 @@ app.put("/api/v1/forums/replies/:replyId", async (c) => {
   }
 });
 
+/**
+ * GET /api/v1/forums/replies/:replyId/revisions - Get every version of a reply, oldest first
+ */
+app.get("/api/v1/forums/replies/:replyId/revisions", async (c) => {
+  const db = c.env.platform_db;
+  const replyId = c.req.param("replyId");
+
+  try {
+    const reply = await db
+      .prepare(`
+        SELECT r.user_id, r.content, r.created_at, r.edited_at, r.edited_by, r.hidden_at, u.name as edited_by_name
+        FROM forum_replies r
+        LEFT JOIN users u ON u.id = COALESCE(r.edited_by, r.user_id)
+        WHERE r.id = ?
+      `)
+      .bind(replyId)
+      .first<Omit<ForumPostVersion, "title"> & { hidden_at: number | null; edited_by_name: string | null }>();
+    const viewer = c.get("user") as AuthPayload | undefined;
+
+    // Earlier versions of hidden replies are only visible to admins, like the reply itself
+    if (!reply || (reply.hidden_at && viewer?.role !== "admin")) {
+      return c.json({ error: "Reply not found" }, 404);
+    }
+
+    const revisions = await getForumRevisions(db, "reply", replyId, { ...reply, title: null });
+
+    return c.json({ revisions });
+  } catch (err) {
+    console.error("Error fetching reply revisions:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 /**
  * DELETE /api/v1/forums/replies/:replyId - Delete a reply
  */
@@ -3366,6 +9103,12 @@ app.delete("/api/v1/forums/replies/:replyId", async (c) => {
       .prepare("DELETE FROM forum_replies WHERE id = ?")
       .bind(replyId)
       .run();
+    await db
+      .prepare("DELETE FROM forum_revisions WHERE content_type = 'reply' AND content_id = ?")
+      .bind(replyId)
+      .run();
+
+    await removeSearchDocument(db, SearchContentType.Reply, replyId);
 
     // Decrement thread reply_count
     const now = Math.floor(Date.now() / 1000);
@@ -3387,6 +9130,18 @@ app.delete("/api/v1/forums/replies/:replyId", async (c) => {
 // Forum Threads API
 // ============================================================================
 
+/**
+ * Soft-delete a thread so it can be restored
+ * Replies, votes, tags and search documents are kept; listings and search skip deleted threads
+ */
+async function softDeleteForumThread(db: D1Database, threadId: string, deletedBy: string): Promise<void> {
+  const now = getTimestamp();
+  await db
+    .prepare("UPDATE forum_threads SET deleted_at = ?, deleted_by = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL")
+    .bind(now, deletedBy, now, threadId)
+    .run();
+}
+
 /**
  * GET /api/v1/forums/threads - Get threads in a category
  * Query params:
@@ -3445,13 +9200,13 @@ app.get("/api/v1/forums/threads", async (c) => {
     }
     
     query += `
-      WHERE t.category_id = ?
+      WHERE t.category_id = ? AND t.hidden_at IS NULL AND t.deleted_at IS NULL
       ORDER BY t.is_pinned DESC, ${orderBy}
       LIMIT ? OFFSET ?
     `;
 
     const countQuery = `
-      SELECT COUNT(*) as total FROM forum_threads WHERE category_id = ?
+      SELECT COUNT(*) as total FROM forum_threads WHERE category_id = ? AND hidden_at IS NULL AND deleted_at IS NULL
     `;
 
     // Bind parameters based on whether tag filter is present
@@ -3466,8 +9221,14 @@ app.get("/api/v1/forums/threads", async (c) => {
       return c.json({ error: "Failed to fetch threads" }, 500);
     }
 
+    const threads = threadsResult.results as Record<string, unknown>[];
+    const authorBadges = await getBadgesForUsers(db, threads.map((thread) => String(thread.user_id)));
+
     return c.json({
-      threads: threadsResult.results,
+      threads: threads.map((thread) => ({
+        ...thread,
+        author_badges: authorBadges.get(String(thread.user_id)) || [],
+      })),
       total: (countResult?.total as number) || 0,
     });
   } catch (err) {
@@ -3495,9 +9256,12 @@ app.get("/api/v1/forums/threads/:id", async (c) => {
 
   try {
     const result = await db.prepare(query).bind(threadId).first();
+    const viewer = c.get("user") as AuthPayload | undefined;
 
-    if (!result) {
-      return c.json({ error: "Thread not found" }, 404);
+    // Threads hidden by a moderator are only visible to admins
+    if (!result || ((result.hidden_at || result.deleted_at) && viewer?.role !== "admin")) {
+      // Links to a merged thread can be redirected to the thread it was merged into
+      return c.json({ error: "Thread not found", merged_into: result?.merged_into || undefined }, 404);
     }
 
     return c.json({ thread: result });
@@ -3527,7 +9291,7 @@ app.get("/api/v1/forums/categories", async (c) => {
       c.*,
       COALESCE(COUNT(t.id), 0) as thread_count
     FROM forum_categories c
-    LEFT JOIN forum_threads t ON c.id = t.category_id
+    LEFT JOIN forum_threads t ON c.id = t.category_id AND t.hidden_at IS NULL AND t.deleted_at IS NULL
   `;
 
   // If include_all=true, return all categories (no WHERE clause)
@@ -3574,7 +9338,7 @@ app.get("/api/v1/forums/categories/:id", async (c) => {
       c.*,
       COALESCE(COUNT(t.id), 0) as thread_count
     FROM forum_categories c
-    LEFT JOIN forum_threads t ON c.id = t.category_id
+    LEFT JOIN forum_threads t ON c.id = t.category_id AND t.hidden_at IS NULL AND t.deleted_at IS NULL
     WHERE c.id = ?
     GROUP BY c.id
   `;
@@ -3593,6 +9357,146 @@ app.get("/api/v1/forums/categories/:id", async (c) => {
   }
 });
 
+// ============================================================================
+// Forum Category Moderators API (/api/v1/admin/forums)
+// ============================================================================
+
+/**
+ * GET /api/v1/admin/forums/moderators - List category moderator assignments (admin only)
+ * Query params:
+ *   - user_id: (optional) Only assignments of this user
+ */
+app.get("/api/v1/admin/forums/moderators", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const userId = c.req.query("user_id");
+
+  try {
+    const result = await db
+      .prepare(`
+        SELECT m.*, u.name as user_name, fc.name as category_name
+        FROM forum_category_moderators m
+        JOIN users u ON m.user_id = u.id
+        JOIN forum_categories fc ON m.category_id = fc.id
+        ${userId ? "WHERE m.user_id = ?" : ""}
+        ORDER BY fc.name ASC, u.name ASC
+      `)
+      .bind(...(userId ? [userId] : []))
+      .all<ForumCategoryModerator>();
+
+    return c.json({ moderators: result.results || [] });
+  } catch (err) {
+    console.error("Error fetching category moderators:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/forums/categories/:id/moderators - Assign a moderator to a category (admin only)
+ * Body:
+ *   - user_id: (required) A user with the moderator role
+ */
+app.post("/api/v1/admin/forums/categories/:id/moderators", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const categoryId = c.req.param("id");
+  const body = await c.req.json<{ user_id?: string }>().catch(() => ({} as { user_id?: string }));
+
+  if (!body.user_id) {
+    return c.json({ error: "user_id is required" }, 400);
+  }
+
+  try {
+    const category = await db
+      .prepare("SELECT id FROM forum_categories WHERE id = ?")
+      .bind(categoryId)
+      .first();
+
+    if (!category) {
+      return c.json({ error: "Category not found" }, 404);
+    }
+
+    const roleRecord = await db
+      .prepare("SELECT role FROM user_roles WHERE user_id = ?")
+      .bind(body.user_id)
+      .first<{ role: string }>();
+
+    const role = roleRecord ? normalizeUserRole(roleRecord.role) : DEFAULT_ROLE;
+    if (role !== UserRole.Moderator) {
+      return c.json({ error: "Only users with the moderator role can be assigned to categories" }, 400);
+    }
+
+    const existing = await db
+      .prepare("SELECT 1 FROM forum_category_moderators WHERE category_id = ? AND user_id = ?")
+      .bind(categoryId, body.user_id)
+      .first();
+
+    if (existing) {
+      return c.json({ error: "User already moderates this category" }, 409);
+    }
+
+    const moderator: ForumCategoryModerator = {
+      category_id: categoryId,
+      user_id: body.user_id,
+      assigned_by: auth.userId,
+      created_at: getTimestamp(),
+    };
+
+    await db
+      .prepare("INSERT INTO forum_category_moderators (category_id, user_id, assigned_by, created_at) VALUES (?, ?, ?, ?)")
+      .bind(moderator.category_id, moderator.user_id, moderator.assigned_by, moderator.created_at)
+      .run();
+
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.CategoryModeratorAssign,
+      targetType: AuditTargetType.User,
+      targetId: body.user_id,
+      before: null,
+      after: { category_id: categoryId },
+    });
+
+    return c.json({ moderator }, 201);
+  } catch (err) {
+    console.error("Error assigning category moderator:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/v1/admin/forums/categories/:id/moderators/:userId - Remove a moderator from a category (admin only)
+ */
+app.delete("/api/v1/admin/forums/categories/:id/moderators/:userId", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const auth = c.get("user") as AuthPayload;
+  const categoryId = c.req.param("id");
+  const userId = c.req.param("userId");
+
+  try {
+    const result = await db
+      .prepare("DELETE FROM forum_category_moderators WHERE category_id = ? AND user_id = ?")
+      .bind(categoryId, userId)
+      .run();
+
+    if (!result.meta?.changes) {
+      return c.json({ error: "Moderator assignment not found" }, 404);
+    }
+
+    await recordAuditLog(db, {
+      actorId: auth.userId,
+      action: AuditAction.CategoryModeratorRemove,
+      targetType: AuditTargetType.User,
+      targetId: userId,
+      before: { category_id: categoryId },
+      after: null,
+    });
+
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("Error removing category moderator:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // ============================================================================
 // POST /api/v1/forums/threads - Create a new thread
 // ============================================================================
@@ -3664,6 +9568,17 @@ app.post("/api/v1/forums/threads", requireAuth, async (c) => {
       return c.json({ error: "Failed to create thread" }, 500);
     }
 
+    await indexSearchDocument(db, {
+      type: SearchContentType.Thread,
+      id: threadId,
+      authorId: user.userId,
+      title: body.title,
+      body: sanitizedContent,
+    });
+
+    // Award points for creating a thread (silent failure if points system fails)
+    await awardPointsForAction(db, user.userId, PointsActionType.ThreadCreated, threadId, POINTS_FOR_CREATE_THREAD);
+
     // Return created thread
     const thread = {
       id: threadId,
@@ -3683,13 +9598,192 @@ app.post("/api/v1/forums/threads", requireAuth, async (c) => {
       updated_at: now,
     };
 
-    return c.json({ thread, message: "Thread created successfully" }, 201);
+    return c.json({ thread, message: "Thread created successfully" }, 201);
+  } catch (err) {
+    console.error("Error creating thread:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// PUT /api/v1/forums/threads/:id - Edit thread (Author and category moderators)
+// ============================================================================
+
+/**
+ * Body:
+ *   - title: (optional) New title
+ *   - content: (optional) New content (HTML)
+ * The replaced version is kept in forum_revisions
+ */
+app.put("/api/v1/forums/threads/:id", requireAuth, async (c) => {
+  const db = c.env.platform_db;
+  const threadId = c.req.param("id");
+  const user = c.get("user");
+
+  try {
+    const body = await c.req.json() as UpdateThreadRequest;
+
+    if (body.title === undefined && body.content === undefined) {
+      return c.json({ error: "Nothing to update. Provide title or content" }, 400);
+    }
+
+    if (
+      (body.title !== undefined && (typeof body.title !== "string" || body.title.trim() === "")) ||
+      (body.content !== undefined && (typeof body.content !== "string" || body.content.trim() === ""))
+    ) {
+      return c.json({ error: "Title and content cannot be empty" }, 400);
+    }
+
+    const thread = await db
+      .prepare(`
+        SELECT user_id, category_id, title, content, created_at, edited_at, edited_by, hidden_at
+        FROM forum_threads
+        WHERE id = ? AND deleted_at IS NULL
+      `)
+      .bind(threadId)
+      .first<ForumPostVersion & { title: string; category_id: string; hidden_at: number | null }>();
+
+    if (!thread || (thread.hidden_at && user.role !== "admin")) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
+    if (
+      thread.user_id !== user.userId &&
+      !(await hasPermission(db, user, Permission.EditThreads, thread.category_id))
+    ) {
+      return c.json({ error: "Forbidden. Only the thread author or a moderator can edit this thread" }, 403);
+    }
+
+    const title = body.title !== undefined ? body.title.trim() : thread.title;
+    // Sanitize HTML content for security
+    const content = body.content !== undefined ? sanitizeHtml(body.content) : thread.content;
+
+    // Saving the same title and content again is not an edit
+    if (title !== thread.title || content !== thread.content) {
+      await saveForumRevision(db, "thread", threadId, thread);
+
+      const now = Math.floor(Date.now() / 1000);
+      await db
+        .prepare(`
+          UPDATE forum_threads
+          SET title = ?, content = ?, edited_at = ?, edited_by = ?, updated_at = ?
+          WHERE id = ?
+        `)
+        .bind(title, content, now, user.userId, now, threadId)
+        .run();
+
+      await indexSearchDocument(db, {
+        type: SearchContentType.Thread,
+        id: threadId,
+        authorId: thread.user_id,
+        title,
+        body: content,
+      });
+    }
+
+    const updatedThread = await db
+      .prepare(`
+        SELECT
+          t.*,
+          u.name as author_name,
+          u.email as author_email
+        FROM forum_threads t
+        JOIN users u ON t.user_id = u.id
+        WHERE t.id = ?
+      `)
+      .bind(threadId)
+      .first();
+
+    return c.json({ thread: updatedThread });
+  } catch (err) {
+    console.error("Error updating thread:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// GET /api/v1/forums/threads/:id/revisions - Get every version of a thread, oldest first
+// ============================================================================
+
+app.get("/api/v1/forums/threads/:id/revisions", async (c) => {
+  const db = c.env.platform_db;
+  const threadId = c.req.param("id");
+
+  try {
+    const thread = await db
+      .prepare(`
+        SELECT t.user_id, t.title, t.content, t.created_at, t.edited_at, t.edited_by, t.hidden_at, t.deleted_at, u.name as edited_by_name
+        FROM forum_threads t
+        LEFT JOIN users u ON u.id = COALESCE(t.edited_by, t.user_id)
+        WHERE t.id = ?
+      `)
+      .bind(threadId)
+      .first<ForumPostVersion & { hidden_at: number | null; deleted_at: number | null; edited_by_name: string | null }>();
+    const viewer = c.get("user") as AuthPayload | undefined;
+
+    // Earlier versions of hidden and deleted threads are only visible to admins, like the thread itself
+    if (!thread || ((thread.hidden_at || thread.deleted_at) && viewer?.role !== "admin")) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
+    const revisions = await getForumRevisions(db, "thread", threadId, thread);
+
+    return c.json({ revisions });
   } catch (err) {
-    console.error("Error creating thread:", err);
+    console.error("Error fetching thread revisions:", err);
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
+/**
+ * Award a thread author every view milestone the thread has reached and they were not yet
+ * awarded for it. A merge adds the merged thread's views in bulk, so a count can pass a
+ * milestone without ever equalling it; the ledger, not the count, decides what is owed.
+ * Each award is conditional on its ledger row not existing, so views racing past a
+ * milestone award it once. Failures are logged so they never break view tracking.
+ */
+async function awardThreadViewMilestones(
+  db: D1Database,
+  authorId: string,
+  threadId: string,
+  viewCount: number
+): Promise<void> {
+  try {
+    const reached = THREAD_VIEW_MILESTONES.filter((m) => m.views <= viewCount);
+    if (reached.length === 0) {
+      return;
+    }
+
+    const awarded = await db
+      .prepare(`
+        SELECT action_type FROM point_actions_log
+        WHERE user_id = ? AND reference_id = ? AND action_type IN (${reached.map(() => "?").join(", ")})
+      `)
+      .bind(authorId, threadId, ...reached.map((m) => m.actionType))
+      .all<{ action_type: string }>();
+    const awardedTypes = new Set((awarded.results || []).map((row) => row.action_type));
+    const owed = reached.filter((m) => !awardedTypes.has(m.actionType));
+    if (owed.length === 0) {
+      return;
+    }
+
+    await db.batch(
+      owed.flatMap((m) =>
+        pointsTransactionStatements(
+          db,
+          { userId: authorId, actionType: m.actionType, referenceId: threadId, delta: m.points },
+          {
+            sql: "NOT EXISTS (SELECT 1 FROM point_actions_log WHERE user_id = ? AND action_type = ? AND reference_id = ?)",
+            params: [authorId, m.actionType, threadId],
+          }
+        )
+      )
+    );
+  } catch (err) {
+    console.error("Error awarding thread view milestones:", err);
+  }
+}
+
 // ============================================================================
 // POST /api/v1/forums/threads/:threadId/view - Track thread view
 // ============================================================================
@@ -3705,9 +9799,9 @@ app.post("/api/v1/forums/threads/:threadId/view", async (c) => {
     
     // Verify thread exists
     const thread = await db
-      .prepare("SELECT id, view_count FROM forum_threads WHERE id = ?")
+      .prepare("SELECT id, user_id, view_count FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
       .bind(threadId)
-      .first();
+      .first<{ id: string; user_id: string; view_count: number }>();
     
     if (!thread) {
       return c.json({ error: "Thread not found" }, 404);
@@ -3731,6 +9825,7 @@ app.post("/api/v1/forums/threads/:threadId/view", async (c) => {
     }
     
     // If view doesn't exist, create it
+    let viewCount = thread.view_count || 0;
     if (!existingView) {
       const viewId = `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const now = Math.floor(Date.now() / 1000);
@@ -3743,21 +9838,18 @@ app.post("/api/v1/forums/threads/:threadId/view", async (c) => {
         .bind(viewId, threadId, user?.userId || null, ipAddress, now)
         .run();
       
-      // Increment view_count on thread
-      await db
-        .prepare("UPDATE forum_threads SET view_count = view_count + 1 WHERE id = ?")
+      // Increment view_count on thread and read back the count this view produced
+      const updatedThread = await db
+        .prepare("UPDATE forum_threads SET view_count = view_count + 1 WHERE id = ? RETURNING view_count")
         .bind(threadId)
-        .run();
+        .first<{ view_count: number }>();
+      viewCount = updatedThread?.view_count ?? viewCount + 1;
+
+      await awardThreadViewMilestones(db, thread.user_id, threadId, viewCount);
     }
     
-    // Get updated view count
-    const updatedThread = await db
-      .prepare("SELECT view_count FROM forum_threads WHERE id = ?")
-      .bind(threadId)
-      .first();
-    
     return c.json({ 
-      view_count: (updatedThread as DbThread | null)?.view_count || 0,
+      view_count: viewCount,
       new_view: !existingView
     });
   } catch (err) {
@@ -3820,22 +9912,25 @@ app.post("/api/v1/forums/threads/:threadId/vote", requireAuth, async (c) => {
     
     // Verify thread exists
     const thread = await db
-      .prepare("SELECT id, upvote_count, downvote_count FROM forum_threads WHERE id = ?")
+      .prepare("SELECT id, user_id, upvote_count, downvote_count FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
       .bind(threadId)
-      .first();
+      .first<{ id: string; user_id: string; upvote_count: number; downvote_count: number }>();
     
     if (!thread) {
       return c.json({ error: "Thread not found" }, 404);
     }
     
+    // Upvotes earn the author points; voting on your own thread earns nothing
+    const awardsAuthor = thread.user_id !== user.userId;
+    
     // Check if user already voted
     const existingVote = await db
-      .prepare("SELECT vote_type FROM forum_votes WHERE votable_type = ? AND votable_id = ? AND user_id = ?")
+      .prepare("SELECT id, vote_type FROM forum_votes WHERE votable_type = ? AND votable_id = ? AND user_id = ?")
       .bind('thread', threadId, user.userId)
-      .first();
+      .first<{ id: string; vote_type: string }>();
     
     if (existingVote) {
-      const existingVoteType = (existingVote as DbVote).vote_type;
+      const existingVoteType = existingVote.vote_type;
       
       if (existingVoteType === vote_type) {
         // Remove vote (toggle off)
@@ -3850,6 +9945,11 @@ app.post("/api/v1/forums/threads/:threadId/vote", requireAuth, async (c) => {
           .prepare(`UPDATE forum_threads SET ${countField} = MAX(0, ${countField} - 1) WHERE id = ?`)
           .bind(threadId)
           .run();
+        
+        // Withdrawn upvote: take back the author's points
+        if (vote_type === 'upvote' && awardsAuthor) {
+          await revokePointsForAction(db, thread.user_id, PointsActionType.UpvoteReceived, existingVote.id);
+        }
       } else {
         // Change vote
         await db
@@ -3864,6 +9964,15 @@ app.post("/api/v1/forums/threads/:threadId/vote", requireAuth, async (c) => {
           .prepare(`UPDATE forum_threads SET ${incrementField} = ${incrementField} + 1, ${decrementField} = MAX(0, ${decrementField} - 1) WHERE id = ?`)
           .bind(threadId)
           .run();
+        
+        // Switching to an upvote awards the author; switching away reverses it
+        if (awardsAuthor) {
+          if (vote_type === 'upvote') {
+            await awardPointsForAction(db, thread.user_id, PointsActionType.UpvoteReceived, existingVote.id, POINTS_FOR_RECEIVING_UPVOTE_THREAD);
+          } else {
+            await revokePointsForAction(db, thread.user_id, PointsActionType.UpvoteReceived, existingVote.id);
+          }
+        }
       }
     } else {
       // Create new vote
@@ -3881,6 +9990,10 @@ app.post("/api/v1/forums/threads/:threadId/vote", requireAuth, async (c) => {
         .prepare(`UPDATE forum_threads SET ${countField} = ${countField} + 1 WHERE id = ?`)
         .bind(threadId)
         .run();
+      
+      if (vote_type === 'upvote' && awardsAuthor) {
+        await awardPointsForAction(db, thread.user_id, PointsActionType.UpvoteReceived, voteId, POINTS_FOR_RECEIVING_UPVOTE_THREAD);
+      }
     }
     
     // Get updated vote counts and user's current vote
@@ -3978,22 +10091,25 @@ app.post("/api/v1/forums/replies/:replyId/vote", requireAuth, async (c) => {
     
     // Verify reply exists
     const reply = await db
-      .prepare("SELECT id, upvote_count, downvote_count FROM forum_replies WHERE id = ?")
+      .prepare("SELECT id, user_id, upvote_count, downvote_count FROM forum_replies WHERE id = ?")
       .bind(replyId)
-      .first();
+      .first<{ id: string; user_id: string; upvote_count: number; downvote_count: number }>();
     
-    if (!reply) {
+    if (!reply || (await isReplyThreadDeleted(db, replyId, user))) {
       return c.json({ error: "Reply not found" }, 404);
     }
     
+    // Upvotes earn the author points; voting on your own reply earns nothing
+    const awardsAuthor = reply.user_id !== user.userId;
+    
     // Check if user already voted
     const existingVote = await db
-      .prepare("SELECT vote_type FROM forum_votes WHERE votable_type = ? AND votable_id = ? AND user_id = ?")
+      .prepare("SELECT id, vote_type FROM forum_votes WHERE votable_type = ? AND votable_id = ? AND user_id = ?")
       .bind('reply', replyId, user.userId)
-      .first();
+      .first<{ id: string; vote_type: string }>();
     
     if (existingVote) {
-      const existingVoteType = (existingVote as DbVote).vote_type;
+      const existingVoteType = existingVote.vote_type;
       
       if (existingVoteType === vote_type) {
         // Remove vote (toggle off)
@@ -4008,6 +10124,11 @@ app.post("/api/v1/forums/replies/:replyId/vote", requireAuth, async (c) => {
           .prepare(`UPDATE forum_replies SET ${countField} = MAX(0, ${countField} - 1) WHERE id = ?`)
           .bind(replyId)
           .run();
+        
+        // Withdrawn upvote: take back the author's points
+        if (vote_type === 'upvote' && awardsAuthor) {
+          await revokePointsForAction(db, reply.user_id, PointsActionType.UpvoteReceived, existingVote.id);
+        }
       } else {
         // Change vote
         await db
@@ -4022,6 +10143,15 @@ app.post("/api/v1/forums/replies/:replyId/vote", requireAuth, async (c) => {
           .prepare(`UPDATE forum_replies SET ${incrementField} = ${incrementField} + 1, ${decrementField} = MAX(0, ${decrementField} - 1) WHERE id = ?`)
           .bind(replyId)
           .run();
+        
+        // Switching to an upvote awards the author; switching away reverses it
+        if (awardsAuthor) {
+          if (vote_type === 'upvote') {
+            await awardPointsForAction(db, reply.user_id, PointsActionType.UpvoteReceived, existingVote.id, POINTS_FOR_RECEIVING_UPVOTE_REPLY);
+          } else {
+            await revokePointsForAction(db, reply.user_id, PointsActionType.UpvoteReceived, existingVote.id);
+          }
+        }
       }
     } else {
       // Create new vote
@@ -4039,6 +10169,10 @@ app.post("/api/v1/forums/replies/:replyId/vote", requireAuth, async (c) => {
         .prepare(`UPDATE forum_replies SET ${countField} = ${countField} + 1 WHERE id = ?`)
         .bind(replyId)
         .run();
+      
+      if (vote_type === 'upvote' && awardsAuthor) {
+        await awardPointsForAction(db, reply.user_id, PointsActionType.UpvoteReceived, voteId, POINTS_FOR_RECEIVING_UPVOTE_REPLY);
+      }
     }
     
     // Get updated vote counts and user's current vote
@@ -4160,18 +10294,21 @@ app.patch("/api/v1/forums/threads/:threadId/status", requireAuth, async (c) => {
       return c.json({ error: "Invalid status. Must be 'open', 'solved', or 'closed'" }, 400);
     }
     
-    // Verify thread exists and user is author
+    // Verify thread exists and user is author or a moderator of its category
     const thread = await db
-      .prepare("SELECT user_id FROM forum_threads WHERE id = ?")
+      .prepare("SELECT user_id, category_id FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
       .bind(threadId)
-      .first();
+      .first<DbThread>();
     
     if (!thread) {
       return c.json({ error: "Thread not found" }, 404);
     }
     
-    if ((thread as DbThread).user_id !== user.userId) {
-      return c.json({ error: "Forbidden. Only thread author can update status" }, 403);
+    if (
+      thread.user_id !== user.userId &&
+      !(await hasPermission(db, user, Permission.CloseThreads, thread.category_id))
+    ) {
+      return c.json({ error: "Forbidden. Only the thread author or a moderator can update status" }, 403);
     }
     
     // Update status
@@ -4199,6 +10336,48 @@ app.patch("/api/v1/forums/threads/:threadId/status", requireAuth, async (c) => {
   }
 });
 
+/**
+ * Award solution points: the reply author for providing the answer and the
+ * thread author for getting their question solved. Both are logged against the
+ * reply so they can be reversed together. Answering your own thread earns nothing.
+ * @param db - Database instance
+ * @param threadAuthorId - Author of the solved thread
+ * @param replyAuthorId - Author of the accepted reply
+ * @param replyId - ID of the accepted reply
+ */
+async function awardSolutionPoints(
+  db: D1Database,
+  threadAuthorId: string,
+  replyAuthorId: string,
+  replyId: string
+): Promise<void> {
+  if (threadAuthorId === replyAuthorId) {
+    return;
+  }
+  await awardPointsForAction(db, replyAuthorId, PointsActionType.ReplyMarkedSolution, replyId, POINTS_FOR_REPLY_MARKED_SOLUTION);
+  await awardPointsForAction(db, threadAuthorId, PointsActionType.ThreadSolved, replyId, POINTS_FOR_THREAD_SOLVED);
+}
+
+/**
+ * Reverse the points from awardSolutionPoints when a reply stops being the solution
+ * @param db - Database instance
+ * @param threadAuthorId - Author of the thread
+ * @param replyAuthorId - Author of the previously accepted reply
+ * @param replyId - ID of the previously accepted reply
+ */
+async function revokeSolutionPoints(
+  db: D1Database,
+  threadAuthorId: string,
+  replyAuthorId: string,
+  replyId: string
+): Promise<void> {
+  if (threadAuthorId === replyAuthorId) {
+    return;
+  }
+  await revokePointsForAction(db, replyAuthorId, PointsActionType.ReplyMarkedSolution, replyId);
+  await revokePointsForAction(db, threadAuthorId, PointsActionType.ThreadSolved, replyId);
+}
+
 // ============================================================================
 // POST /api/v1/forums/replies/:replyId/mark-solution - Mark reply as solution
 // ============================================================================
@@ -4211,15 +10390,15 @@ app.post("/api/v1/forums/replies/:replyId/mark-solution", requireAuth, async (c)
   try {
     // Get reply and thread info
     const reply = await db
-      .prepare("SELECT thread_id FROM forum_replies WHERE id = ?")
+      .prepare("SELECT thread_id, user_id, is_solution FROM forum_replies WHERE id = ?")
       .bind(replyId)
-      .first();
+      .first<{ thread_id: string; user_id: string; is_solution: number }>();
     
-    if (!reply) {
+    if (!reply || (await isReplyThreadDeleted(db, replyId, user))) {
       return c.json({ error: "Reply not found" }, 404);
     }
     
-    const threadId = (reply as DbReply).thread_id;
+    const threadId = reply.thread_id;
     
     // Verify user is thread author
     const thread = await db
@@ -4235,6 +10414,12 @@ app.post("/api/v1/forums/replies/:replyId/mark-solution", requireAuth, async (c)
       return c.json({ error: "Forbidden. Only thread author can mark solutions" }, 403);
     }
     
+    // Solutions being replaced lose their points below
+    const previousSolutions = await db
+      .prepare("SELECT id, user_id FROM forum_replies WHERE thread_id = ? AND is_solution = 1 AND id != ?")
+      .bind(threadId, replyId)
+      .all<{ id: string; user_id: string }>();
+    
     // Unmark any existing solutions for this thread
     await db
       .prepare("UPDATE forum_replies SET is_solution = 0 WHERE thread_id = ? AND is_solution = 1")
@@ -4254,6 +10439,14 @@ app.post("/api/v1/forums/replies/:replyId/mark-solution", requireAuth, async (c)
       .bind('solved', now, threadId)
       .run();
     
+    for (const previous of previousSolutions.results) {
+      await revokeSolutionPoints(db, user.userId, previous.user_id, previous.id);
+    }
+    if (!reply.is_solution) {
+      await awardSolutionPoints(db, user.userId, reply.user_id, replyId);
+      await evaluateBadges(db, reply.user_id);
+    }
+    
     // Get updated reply
     const updatedReply = await db
       .prepare(`
@@ -4287,15 +10480,15 @@ app.delete("/api/v1/forums/replies/:replyId/mark-solution", requireAuth, async (
   try {
     // Get reply and thread info
     const reply = await db
-      .prepare("SELECT thread_id FROM forum_replies WHERE id = ?")
+      .prepare("SELECT thread_id, user_id, is_solution FROM forum_replies WHERE id = ?")
       .bind(replyId)
-      .first();
+      .first<{ thread_id: string; user_id: string; is_solution: number }>();
     
-    if (!reply) {
+    if (!reply || (await isReplyThreadDeleted(db, replyId, user))) {
       return c.json({ error: "Reply not found" }, 404);
     }
     
-    const threadId = (reply as DbReply).thread_id;
+    const threadId = reply.thread_id;
     
     // Verify user is thread author
     const thread = await db
@@ -4320,78 +10513,472 @@ app.delete("/api/v1/forums/replies/:replyId/mark-solution", requireAuth, async (
     
     // Update thread status back to open
     await db
-      .prepare("UPDATE forum_threads SET status = ?, updated_at = ? WHERE id = ?")
-      .bind('open', now, threadId)
+      .prepare("UPDATE forum_threads SET status = ?, updated_at = ? WHERE id = ?")
+      .bind('open', now, threadId)
+      .run();
+    
+    if (reply.is_solution) {
+      await revokeSolutionPoints(db, user.userId, reply.user_id, replyId);
+    }
+    
+    // Get updated reply
+    const updatedReply = await db
+      .prepare(`
+        SELECT r.*, u.name as user_name
+        FROM forum_replies r
+        JOIN users u ON r.user_id = u.id
+        WHERE r.id = ?
+      `)
+      .bind(replyId)
+      .first();
+    
+    return c.json({ 
+      reply: updatedReply,
+      thread_status: 'open'
+    });
+  } catch (err) {
+    console.error("Error unmarking solution:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// PATCH /api/v1/forums/threads/:threadId/pin - Pin/unpin thread (Admins and category moderators)
+// ============================================================================
+
+app.patch("/api/v1/forums/threads/:threadId/pin", requireAuth, requirePermission(Permission.PinThreads, threadCategory), async (c) => {
+  const db = c.env.platform_db;
+  const threadId = c.req.param("threadId");
+  const user = c.get("user");
+  
+  try {
+    const { is_pinned } = await c.req.json() as { is_pinned: boolean };
+    
+    // Validate is_pinned
+    if (typeof is_pinned !== 'boolean') {
+      return c.json({ error: "is_pinned must be a boolean" }, 400);
+    }
+    
+    // Verify thread exists
+    const thread = await db
+      .prepare("SELECT id, is_pinned FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
+      .bind(threadId)
+      .first<{ id: string; is_pinned: number }>();
+    
+    if (!thread) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+    
+    // Update pin status and record it in one batch
+    const now = Math.floor(Date.now() / 1000);
+    await db.batch([
+      db.prepare("UPDATE forum_threads SET is_pinned = ?, updated_at = ? WHERE id = ?").bind(is_pinned ? 1 : 0, now, threadId),
+      auditLogStatement(db, {
+        actorId: user.userId,
+        action: AuditAction.ThreadPin,
+        targetType: AuditTargetType.ForumThread,
+        targetId: threadId,
+        before: { is_pinned: Boolean(thread.is_pinned) },
+        after: { is_pinned },
+      }),
+    ]);
+    
+    // Get updated thread
+    const updatedThread = await db
+      .prepare(`
+        SELECT t.*, u.name as author_name
+        FROM forum_threads t
+        JOIN users u ON t.user_id = u.id
+        WHERE t.id = ?
+      `)
+      .bind(threadId)
+      .first();
+    
+    return c.json({ thread: updatedThread });
+  } catch (err) {
+    console.error("Error pinning/unpinning thread:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// PATCH /api/v1/forums/threads/:threadId/category - Move thread (Admins and category moderators)
+// ============================================================================
+
+app.patch("/api/v1/forums/threads/:threadId/category", requireAuth, requirePermission(Permission.MoveThreads, threadCategory), async (c) => {
+  const db = c.env.platform_db;
+  const threadId = c.req.param("threadId");
+  const user = c.get("user");
+
+  try {
+    const { category_id } = await c.req.json() as MoveThreadRequest;
+
+    if (!category_id || typeof category_id !== 'string') {
+      return c.json({ error: "category_id is required" }, 400);
+    }
+
+    // Verify thread exists
+    const thread = await db
+      .prepare("SELECT id, category_id FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
+      .bind(threadId)
+      .first<DbThread>();
+
+    if (!thread) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
+    if (thread.category_id === category_id) {
+      return c.json({ error: "Thread is already in this category" }, 400);
+    }
+
+    // Verify destination category exists
+    const category = await db
+      .prepare("SELECT id FROM forum_categories WHERE id = ?")
+      .bind(category_id)
+      .first();
+
+    if (!category) {
+      return c.json({ error: "Category not found" }, 404);
+    }
+
+    // Moderators must moderate the destination category as well
+    if (!(await hasPermission(db, user, Permission.MoveThreads, category_id))) {
+      return c.json({ error: "Forbidden - Not a moderator of the destination category" }, 403);
+    }
+
+    const now = getTimestamp();
+    await db
+      .prepare("UPDATE forum_threads SET category_id = ?, updated_at = ? WHERE id = ?")
+      .bind(category_id, now, threadId)
+      .run();
+
+    await recordAuditLog(db, {
+      actorId: user.userId,
+      action: AuditAction.ThreadMove,
+      targetType: AuditTargetType.ForumThread,
+      targetId: threadId,
+      before: { category_id: thread.category_id },
+      after: { category_id },
+    });
+
+    // Get updated thread
+    const updatedThread = await db
+      .prepare(`
+        SELECT t.*, u.name as author_name
+        FROM forum_threads t
+        JOIN users u ON t.user_id = u.id
+        WHERE t.id = ?
+      `)
+      .bind(threadId)
+      .first();
+
+    return c.json({ thread: updatedThread });
+  } catch (err) {
+    console.error("Error moving thread:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// DELETE /api/v1/forums/threads/:threadId - Delete thread (Admins and category moderators)
+// ============================================================================
+
+app.delete("/api/v1/forums/threads/:threadId", requireAuth, requirePermission(Permission.DeleteThreads, threadCategory), async (c) => {
+  const db = c.env.platform_db;
+  const threadId = c.req.param("threadId");
+  const user = c.get("user");
+
+  try {
+    // Verify thread exists
+    const thread = await db
+      .prepare("SELECT id, title, user_id, category_id FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
+      .bind(threadId)
+      .first<{ id: string; title: string; user_id: string; category_id: string }>();
+
+    if (!thread) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
+    await softDeleteForumThread(db, threadId, user.userId);
+
+    await recordAuditLog(db, {
+      actorId: user.userId,
+      action: AuditAction.ThreadDelete,
+      targetType: AuditTargetType.ForumThread,
+      targetId: threadId,
+      before: { title: thread.title, user_id: thread.user_id, category_id: thread.category_id },
+      after: null,
+    });
+
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("Error deleting thread:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// ============================================================================
+// POST /api/v1/forums/threads/:threadId/restore - Restore a deleted thread (Admins and category moderators)
+// ============================================================================
+
+app.post("/api/v1/forums/threads/:threadId/restore", requireAuth, requirePermission(Permission.DeleteThreads, threadCategory), async (c) => {
+  const db = c.env.platform_db;
+  const threadId = c.req.param("threadId");
+  const user = c.get("user");
+
+  try {
+    const thread = await db
+      .prepare("SELECT id, deleted_at, merged_into FROM forum_threads WHERE id = ?")
+      .bind(threadId)
+      .first<{ id: string; deleted_at: number | null; merged_into: string | null }>();
+
+    if (!thread) {
+      return c.json({ error: "Thread not found" }, 404);
+    }
+
+    if (!thread.deleted_at) {
+      return c.json({ error: "Thread is not deleted" }, 400);
+    }
+
+    // The replies of a merged thread now belong to the target thread
+    if (thread.merged_into) {
+      return c.json({ error: "Merged threads cannot be restored" }, 400);
+    }
+
+    await db
+      .prepare("UPDATE forum_threads SET deleted_at = NULL, deleted_by = NULL, updated_at = ? WHERE id = ?")
+      .bind(getTimestamp(), threadId)
       .run();
-    
-    // Get updated reply
-    const updatedReply = await db
+
+    await recordAuditLog(db, {
+      actorId: user.userId,
+      action: AuditAction.ThreadRestore,
+      targetType: AuditTargetType.ForumThread,
+      targetId: threadId,
+      before: { deleted_at: thread.deleted_at },
+      after: { deleted_at: null },
+    });
+
+    const restoredThread = await db
       .prepare(`
-        SELECT r.*, u.name as user_name
-        FROM forum_replies r
-        JOIN users u ON r.user_id = u.id
-        WHERE r.id = ?
+        SELECT t.*, u.name as author_name
+        FROM forum_threads t
+        JOIN users u ON t.user_id = u.id
+        WHERE t.id = ?
       `)
-      .bind(replyId)
+      .bind(threadId)
       .first();
-    
-    return c.json({ 
-      reply: updatedReply,
-      thread_status: 'open'
-    });
+
+    return c.json({ thread: restoredThread });
   } catch (err) {
-    console.error("Error unmarking solution:", err);
+    console.error("Error restoring thread:", err);
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
 // ============================================================================
-// PATCH /api/v1/forums/threads/:threadId/pin - Pin/unpin thread (Admin only)
+// POST /api/v1/forums/threads/:threadId/merge - Merge a duplicate thread into another (Admins and category moderators)
 // ============================================================================
 
-app.patch("/api/v1/forums/threads/:threadId/pin", requireAuth, requireAdmin, async (c) => {
+/**
+ * Body:
+ *   - target_thread_id: (required) Thread that takes over the opening post, replies, votes, tags and views
+ * The opening post becomes a reply in the target, headed by the old title. The merged thread is
+ * soft-deleted with merged_into set, so links to it can be redirected.
+ * Solutions move along unless the target already has one.
+ */
+app.post("/api/v1/forums/threads/:threadId/merge", requireAuth, requirePermission(Permission.MergeThreads, threadCategory), async (c) => {
   const db = c.env.platform_db;
   const threadId = c.req.param("threadId");
-  
+  const user = c.get("user");
+
   try {
-    const { is_pinned } = await c.req.json() as { is_pinned: boolean };
-    
-    // Validate is_pinned
-    if (typeof is_pinned !== 'boolean') {
-      return c.json({ error: "is_pinned must be a boolean" }, 400);
+    const { target_thread_id } = await c.req.json() as MergeThreadRequest;
+
+    if (!target_thread_id || typeof target_thread_id !== 'string') {
+      return c.json({ error: "target_thread_id is required" }, 400);
     }
-    
-    // Verify thread exists
+
+    if (target_thread_id === threadId) {
+      return c.json({ error: "A thread cannot be merged into itself" }, 400);
+    }
+
     const thread = await db
-      .prepare("SELECT id FROM forum_threads WHERE id = ?")
+      .prepare(`
+        SELECT id, user_id, category_id, title, content, upvote_count, downvote_count, view_count,
+          last_activity_at, created_at, hidden_at
+        FROM forum_threads
+        WHERE id = ? AND deleted_at IS NULL
+      `)
       .bind(threadId)
-      .first();
-    
+      .first<{
+        id: string;
+        user_id: string;
+        category_id: string;
+        title: string;
+        content: string;
+        upvote_count: number;
+        downvote_count: number;
+        view_count: number;
+        last_activity_at: number;
+        created_at: number;
+        hidden_at: number | null;
+      }>();
+
     if (!thread) {
       return c.json({ error: "Thread not found" }, 404);
     }
-    
-    // Update pin status
-    const now = Math.floor(Date.now() / 1000);
-    await db
-      .prepare("UPDATE forum_threads SET is_pinned = ?, updated_at = ? WHERE id = ?")
-      .bind(is_pinned ? 1 : 0, now, threadId)
-      .run();
-    
-    // Get updated thread
-    const updatedThread = await db
+
+    const target = await db
+      .prepare("SELECT id, user_id, category_id, status FROM forum_threads WHERE id = ? AND deleted_at IS NULL")
+      .bind(target_thread_id)
+      .first<{ id: string; user_id: string; category_id: string; status: string }>();
+
+    if (!target) {
+      return c.json({ error: "Target thread not found" }, 404);
+    }
+
+    // Moderators must moderate the target thread's category as well
+    if (!(await hasPermission(db, user, Permission.MergeThreads, target.category_id))) {
+      return c.json({ error: "Forbidden - Not a moderator of the target thread's category" }, 403);
+    }
+
+    const [movedSolutions, targetSolution, duplicateViews] = await Promise.all([
+      db
+        .prepare("SELECT id, user_id FROM forum_replies WHERE thread_id = ? AND is_solution = 1")
+        .bind(threadId)
+        .all<{ id: string; user_id: string }>(),
+      db
+        .prepare("SELECT id FROM forum_replies WHERE thread_id = ? AND is_solution = 1 LIMIT 1")
+        .bind(target_thread_id)
+        .first(),
+      // Viewers who saw both threads only count once, matching the per-viewer rule of the view route
+      db
+        .prepare(`
+          SELECT COUNT(*) as count
+          FROM forum_thread_views s
+          JOIN forum_thread_views t ON t.thread_id = ?
+            AND ((s.user_id IS NOT NULL AND t.user_id = s.user_id)
+              OR (s.user_id IS NULL AND t.user_id IS NULL AND t.ip_address = s.ip_address))
+          WHERE s.thread_id = ?
+        `)
+        .bind(target_thread_id, threadId)
+        .first<{ count: number }>(),
+    ]);
+
+    // The target's own solution wins; otherwise the moved solution now solves the target
+    const solutions = movedSolutions.results || [];
+    const revokedSolutions = targetSolution ? solutions : [];
+    const status = !targetSolution && solutions.length > 0 && target.status === 'open' ? 'solved' : target.status;
+
+    const now = getTimestamp();
+    const replyId = generateReplyId();
+    const replyContent = `<p><strong>${escapeHtml(thread.title)}</strong></p>${thread.content}`;
+    const addedViews = Math.max(0, thread.view_count - (duplicateViews?.count || 0));
+
+    await db.batch([
+      db
+        .prepare(`
+          INSERT INTO forum_replies (
+            id, thread_id, user_id, content, parent_reply_id, upvote_count, downvote_count,
+            hidden_at, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, NULL, ?, ?, ?, ?, ?)
+        `)
+        .bind(
+          replyId,
+          target_thread_id,
+          thread.user_id,
+          replyContent,
+          thread.upvote_count,
+          thread.downvote_count,
+          thread.hidden_at,
+          thread.created_at,
+          now
+        ),
+      db
+        .prepare("UPDATE forum_votes SET votable_type = 'reply', votable_id = ? WHERE votable_type = 'thread' AND votable_id = ?")
+        .bind(replyId, threadId),
+      ...(revokedSolutions.length > 0
+        ? [db.prepare("UPDATE forum_replies SET is_solution = 0 WHERE thread_id = ? AND is_solution = 1").bind(threadId)]
+        : []),
+      db.prepare("UPDATE forum_replies SET thread_id = ? WHERE thread_id = ?").bind(target_thread_id, threadId),
+      // Tags and viewers the target already has are dropped instead of duplicated
+      db.prepare("UPDATE OR IGNORE forum_thread_tags SET thread_id = ? WHERE thread_id = ?").bind(target_thread_id, threadId),
+      db.prepare("DELETE FROM forum_thread_tags WHERE thread_id = ?").bind(threadId),
+      db.prepare("UPDATE OR IGNORE forum_thread_views SET thread_id = ? WHERE thread_id = ?").bind(target_thread_id, threadId),
+      db.prepare("DELETE FROM forum_thread_views WHERE thread_id = ?").bind(threadId),
+      db
+        .prepare(`
+          UPDATE forum_threads
+          SET reply_count = (SELECT COUNT(*) FROM forum_replies WHERE thread_id = ?),
+            view_count = view_count + ?,
+            last_activity_at = MAX(last_activity_at, ?),
+            status = ?,
+            updated_at = ?
+          WHERE id = ?
+        `)
+        .bind(target_thread_id, addedViews, thread.last_activity_at, status, now, target_thread_id),
+      db
+        .prepare(`
+          UPDATE forum_threads
+          SET deleted_at = ?, deleted_by = ?, merged_into = ?, reply_count = 0, upvote_count = 0,
+            downvote_count = 0, view_count = 0, updated_at = ?
+          WHERE id = ?
+        `)
+        .bind(now, user.userId, target_thread_id, now, threadId),
+    ]);
+
+    for (const solution of revokedSolutions) {
+      await revokeSolutionPoints(db, thread.user_id, solution.user_id, solution.id);
+    }
+
+    // More replies make the target hotter
+    const merged = await db
+      .prepare("SELECT upvote_count, downvote_count, reply_count, created_at FROM forum_threads WHERE id = ?")
+      .bind(target_thread_id)
+      .first<DbThread>();
+    if (merged) {
+      await db
+        .prepare("UPDATE forum_threads SET hot_score = ? WHERE id = ?")
+        .bind(
+          calculateHotScore(merged.upvote_count || 0, merged.downvote_count || 0, merged.reply_count || 0, merged.created_at || 0),
+          target_thread_id
+        )
+        .run();
+    }
+
+    // The opening post is now found through its reply in the target
+    await indexSearchDocument(db, {
+      type: SearchContentType.Reply,
+      id: replyId,
+      authorId: thread.user_id,
+      title: "",
+      body: replyContent,
+    });
+    await removeSearchDocument(db, SearchContentType.Thread, threadId);
+
+    await recordAuditLog(db, {
+      actorId: user.userId,
+      action: AuditAction.ThreadMerge,
+      targetType: AuditTargetType.ForumThread,
+      targetId: threadId,
+      before: { title: thread.title, category_id: thread.category_id },
+      after: { merged_into: target_thread_id, reply_id: replyId },
+    });
+
+    const mergedThread = await db
       .prepare(`
         SELECT t.*, u.name as author_name
         FROM forum_threads t
         JOIN users u ON t.user_id = u.id
         WHERE t.id = ?
       `)
-      .bind(threadId)
+      .bind(target_thread_id)
       .first();
-    
-    return c.json({ thread: updatedThread });
+
+    return c.json({ thread: mergedThread });
   } catch (err) {
-    console.error("Error pinning/unpinning thread:", err);
+    console.error("Error merging thread:", err);
     return c.json({ error: "Internal server error" }, 500);
   }
 });
@@ -4566,9 +11153,11 @@ app.get("/api/v1/forums/tags/popular", async (c) => {
   try {
     const tags = await db
       .prepare(`
-        SELECT tag_name, COUNT(*) as count
-        FROM forum_thread_tags
-        GROUP BY tag_name
+        SELECT tt.tag_name, COUNT(*) as count
+        FROM forum_thread_tags tt
+        JOIN forum_threads t ON t.id = tt.thread_id
+        WHERE t.deleted_at IS NULL
+        GROUP BY tt.tag_name
         ORDER BY count DESC
         LIMIT ?
       `)
@@ -4841,7 +11430,7 @@ app.post("/api/v1/challenges/:id/join", requireAuth, async (c) => {
     await awardPointsForAction(
       db,
       user.userId,
-      "challenge_joined",
+      PointsActionType.ChallengeJoined,
       challengeId,
       POINTS_FOR_JOIN_CHALLENGE
     );
@@ -4912,7 +11501,7 @@ app.post("/api/v1/challenges/:id/submit", requireAuth, async (c) => {
     await awardPointsForAction(
       db,
       user.userId,
-      "challenge_submitted",
+      PointsActionType.ChallengeSubmitted,
       challengeId,
       POINTS_FOR_SUBMIT_CHALLENGE
     );
@@ -4989,41 +11578,43 @@ app.patch("/api/v1/submissions/:id/approve", requireAuth, requireAdmin, async (c
     const pointReward = (challenge as Record<string, unknown>).point_reward as number;
     const now = Date.now();
 
-    // Update submission status
-    await db
-      .prepare(`
-        UPDATE challenge_submissions
-        SET status = ?, reviewed_at = ?, reviewed_by_user_id = ?
-        WHERE id = ?
-      `)
-      .bind(SubmissionStatus.Approved, now, user.userId, submissionId)
-      .run();
-
-    // Award points
-    try {
-      const userPoints = await db
-        .prepare("SELECT points FROM user_points WHERE user_id = ?")
-        .bind(sub.user_id)
-        .first();
+    // Update submission status, award points and record it in one batch
+    const logId = generateId();
+    await db.batch([
+      db
+        .prepare(`
+          UPDATE challenge_submissions
+          SET status = ?, reviewed_at = ?, reviewed_by_user_id = ?
+          WHERE id = ?
+        `)
+        .bind(SubmissionStatus.Approved, now, user.userId, submissionId),
+      ...pointsTransactionStatements(db, {
+        userId: sub.user_id as string,
+        actionType: PointsActionType.ChallengeApproved,
+        referenceId: submissionId,
+        logId,
+        delta: pointReward,
+      }),
+      auditLogStatement(db, {
+        actorId: user.userId,
+        action: AuditAction.SubmissionApprove,
+        targetType: AuditTargetType.ChallengeSubmission,
+        targetId: submissionId,
+        before: { status: sub.status },
+        after: { status: SubmissionStatus.Approved },
+        pointsLogId: logId,
+      }),
+    ]);
 
-      const currentPoints = userPoints ? (userPoints as Record<string, unknown>).points as number : 0;
-      const newPoints = currentPoints + pointReward;
+    await evaluateBadges(db, sub.user_id as string);
 
-      if (userPoints) {
-        await db
-          .prepare("UPDATE user_points SET points = ?, updated_at = ? WHERE user_id = ?")
-          .bind(newPoints, now, sub.user_id)
-          .run();
-      } else {
-        await db
-          .prepare("INSERT INTO user_points (id, user_id, points, updated_at) VALUES (?, ?, ?, ?)")
-          .bind(generateId(), sub.user_id, newPoints, now)
-          .run();
-      }
-    } catch (pointsErr) {
-      console.error("Error awarding points:", pointsErr);
-      // Continue even if points fail
-    }
+    await createNotification(c.env, {
+      user_id: sub.user_id as string,
+      type: NotificationType.SubmissionApproved,
+      actor_id: user.userId,
+      data: { title: (challenge as Record<string, unknown>).title as string, points: String(pointReward) },
+      link: `/challenges/${sub.challenge_id}`,
+    });
 
     const updated = await db
       .prepare("SELECT * FROM challenge_submissions WHERE id = ?")
@@ -5075,6 +11666,28 @@ app.patch("/api/v1/submissions/:id/reject", requireAuth, requireAdmin, async (c)
       .bind(SubmissionStatus.Rejected, now, user.userId, feedback || null, submissionId)
       .run();
 
+    await recordAuditLog(db, {
+      actorId: user.userId,
+      action: AuditAction.SubmissionReject,
+      targetType: AuditTargetType.ChallengeSubmission,
+      targetId: submissionId,
+      before: { status: sub.status },
+      after: { status: SubmissionStatus.Rejected, feedback: feedback || null },
+    });
+
+    const challenge = await db
+      .prepare("SELECT title FROM challenges WHERE id = ?")
+      .bind(sub.challenge_id)
+      .first<{ title: string }>();
+
+    await createNotification(c.env, {
+      user_id: sub.user_id as string,
+      type: NotificationType.SubmissionRejected,
+      actor_id: user.userId,
+      data: { title: challenge?.title || "" },
+      link: `/challenges/${sub.challenge_id}`,
+    });
+
     const updated = await db
       .prepare("SELECT * FROM challenge_submissions WHERE id = ?")
       .bind(submissionId)
@@ -5111,10 +11724,389 @@ app.get("/api/v1/users/:id/challenges", async (c) => {
   }
 });
 
+// ============================================================================
+// Scheduled Jobs API (/api/v1/admin/jobs)
+// ============================================================================
+
+// Cron triggers in wrangler.json (UTC); 03:00 UTC is late morning in China
+const HOURLY_CRON = "0 * * * *";
+const DAILY_CRON = "0 3 * * *";
+
+// Threads read and updated per batch when recomputing hot scores
+const HOT_SCORE_BATCH_SIZE = 100;
+
+// forum_thread_views rows deleted per statement
+const THREAD_VIEW_PURGE_BATCH_SIZE = 500;
+
+/**
+ * Recompute the hot score of every thread, in batches ordered by ID
+ * Scores decay with age, so they go stale when no vote or reply refreshes them
+ */
+async function recalculateHotScores(db: D1Database): Promise<number> {
+  let updated = 0;
+  let cursor = "";
+
+  for (;;) {
+    const result = await db
+      .prepare(`
+        SELECT id, upvote_count, downvote_count, reply_count, created_at
+        FROM forum_threads
+        WHERE id > ?
+        ORDER BY id
+        LIMIT ?
+      `)
+      .bind(cursor, HOT_SCORE_BATCH_SIZE)
+      .all<DbThread & { id: string }>();
+    const threads = result.results || [];
+    if (threads.length === 0) {
+      break;
+    }
+
+    await db.batch(
+      threads.map((thread) =>
+        db
+          .prepare("UPDATE forum_threads SET hot_score = ? WHERE id = ?")
+          .bind(
+            calculateHotScore(
+              thread.upvote_count || 0,
+              thread.downvote_count || 0,
+              thread.reply_count || 0,
+              thread.created_at || 0
+            ),
+            thread.id
+          )
+      )
+    );
+    updated += threads.length;
+
+    if (threads.length < HOT_SCORE_BATCH_SIZE) {
+      break;
+    }
+    cursor = threads[threads.length - 1].id;
+  }
+
+  return updated;
+}
+
+/**
+ * Mark active challenges whose deadline has passed as completed
+ * Challenge deadlines and timestamps are in milliseconds
+ */
+async function completeExpiredChallenges(db: D1Database): Promise<number> {
+  const now = Date.now();
+  const result = await db
+    .prepare("UPDATE challenges SET status = ?, updated_at = ? WHERE status = ? AND deadline < ?")
+    .bind(ChallengeStatus.Completed, now, ChallengeStatus.Active, now)
+    .run();
+  return result.meta?.changes || 0;
+}
+
+/**
+ * Close pending match requests the mentor never answered, and let the mentee know
+ * The matches table has no "expired" status, so they are closed as rejected; the mentee can
+ * then request the same mentor again
+ */
+async function expirePendingMatches(env: Env): Promise<number> {
+  const db = env.platform_db;
+  const now = getTimestamp();
+  const stale = await db
+    .prepare(`
+      SELECT m.id, m.mentor_id, m.mentee_id, u.name as mentor_name
+      FROM matches m
+      LEFT JOIN users u ON u.id = m.mentor_id
+      WHERE m.status = 'pending' AND m.created_at < ?
+    `)
+    .bind(now - PENDING_MATCH_EXPIRY_DAYS * 24 * 60 * 60)
+    .all<{ id: string; mentor_id: string; mentee_id: string; mentor_name: string | null }>();
+
+  let expired = 0;
+  for (const match of stale.results || []) {
+    // The mentor may have answered since the SELECT
+    const result = await db
+      .prepare("UPDATE matches SET status = 'rejected', updated_at = ? WHERE id = ? AND status = 'pending'")
+      .bind(now, match.id)
+      .run();
+    if (!result.meta?.changes) {
+      continue;
+    }
+
+    expired++;
+    await createNotification(env, {
+      user_id: match.mentee_id,
+      type: NotificationType.MatchExpired,
+      actor_id: match.mentor_id,
+      data: { actor_name: match.mentor_name || "" },
+      link: "/matches",
+    });
+  }
+
+  return expired;
+}
+
+/**
+ * Delete forum_thread_views rows past the retention window
+ * view_count on the thread is kept; a returning viewer just counts as a new view
+ */
+async function purgeThreadViews(db: D1Database): Promise<number> {
+  const cutoff = getTimestamp() - THREAD_VIEW_RETENTION_DAYS * 24 * 60 * 60;
+  let deleted = 0;
+
+  for (;;) {
+    const result = await db
+      .prepare(`
+        DELETE FROM forum_thread_views
+        WHERE id IN (SELECT id FROM forum_thread_views WHERE created_at < ? LIMIT ?)
+      `)
+      .bind(cutoff, THREAD_VIEW_PURGE_BATCH_SIZE)
+      .run();
+    const changes = result.meta?.changes || 0;
+    deleted += changes;
+    if (changes < THREAD_VIEW_PURGE_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Recount the denormalized reply and vote counters of forum threads and replies
+ * Only rows whose counter drifted are written; returns how many were repaired
+ */
+async function recountForumCounters(db: D1Database): Promise<number> {
+  const voteCount = (votableType: string, table: string, voteType: string) => `(
+    SELECT COUNT(*) FROM forum_votes v
+    WHERE v.votable_type = '${votableType}' AND v.votable_id = ${table}.id AND v.vote_type = '${voteType}'
+  )`;
+  const replyCount = "(SELECT COUNT(*) FROM forum_replies r WHERE r.thread_id = forum_threads.id)";
+
+  const results = await db.batch([
+    db.prepare(`UPDATE forum_threads SET reply_count = ${replyCount} WHERE reply_count != ${replyCount}`),
+    ...[
+      { votableType: "thread", table: "forum_threads" },
+      { votableType: "reply", table: "forum_replies" },
+    ].map(({ votableType, table }) => {
+      const upvotes = voteCount(votableType, table, "upvote");
+      const downvotes = voteCount(votableType, table, "downvote");
+      return db.prepare(`
+        UPDATE ${table}
+        SET upvote_count = ${upvotes}, downvote_count = ${downvotes}
+        WHERE upvote_count != ${upvotes} OR downvote_count != ${downvotes}
+      `);
+    }),
+  ]);
+
+  return results.reduce((total, result) => total + (result.meta?.changes || 0), 0);
+}
+
+/**
+ * Snapshot the week and month that closed last, for every leaderboard source
+ * Periods already snapshotted are skipped; returns how many snapshots were taken
+ */
+async function snapshotClosedLeaderboards(db: D1Database): Promise<number> {
+  const now = getTimestamp();
+  let created = 0;
+
+  for (const period of [LeaderboardPeriod.Week, LeaderboardPeriod.Month] as const) {
+    const current = getLeaderboardPeriodBounds(period, now);
+    const closed = getLeaderboardPeriodBounds(period, current.start - 1);
+    for (const source of Object.values(LeaderboardSource)) {
+      if (await createLeaderboardSnapshot(db, period, source, closed)) {
+        created++;
+      }
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Background jobs, run by the cron trigger matching their schedule
+ */
+const SCHEDULED_JOBS: ScheduledJob<Env>[] = [
+  {
+    name: ScheduledJobName.HotScores,
+    schedule: HOURLY_CRON,
+    run: (env) => recalculateHotScores(env.platform_db),
+  },
+  {
+    name: ScheduledJobName.ExpiredChallenges,
+    schedule: HOURLY_CRON,
+    run: (env) => completeExpiredChallenges(env.platform_db),
+  },
+  {
+    name: ScheduledJobName.LeaderboardSnapshots,
+    schedule: HOURLY_CRON,
+    run: (env) => snapshotClosedLeaderboards(env.platform_db),
+  },
+  {
+    name: ScheduledJobName.StaleMatchRequests,
+    schedule: DAILY_CRON,
+    run: (env) => expirePendingMatches(env),
+  },
+  {
+    name: ScheduledJobName.ThreadViewPurge,
+    schedule: DAILY_CRON,
+    run: (env) => purgeThreadViews(env.platform_db),
+  },
+  {
+    name: ScheduledJobName.ForumCounters,
+    schedule: DAILY_CRON,
+    run: (env) => recountForumCounters(env.platform_db),
+  },
+  {
+    name: ScheduledJobName.DailyDigest,
+    schedule: DAILY_CRON,
+    run: async (env) => (await sendDailyDigests(env)).notifications,
+  },
+];
+
+/**
+ * GET /api/v1/admin/jobs - Registered jobs with their latest run (admin only)
+ */
+app.get("/api/v1/admin/jobs", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+
+  try {
+    const latestRuns = await db
+      .prepare(`
+        SELECT * FROM (
+          SELECT r.*, u.name as triggered_by_name,
+                 ROW_NUMBER() OVER (PARTITION BY r.job_name ORDER BY r.started_at DESC, r.id DESC) as position
+          FROM scheduled_job_runs r
+          LEFT JOIN users u ON u.id = r.triggered_by
+        )
+        WHERE position = 1
+      `)
+      .all<Record<string, unknown>>();
+    const locks = await db
+      .prepare("SELECT job_name, locked_until FROM scheduled_job_locks WHERE locked_until > ?")
+      .bind(getTimestamp())
+      .all<{ job_name: string; locked_until: number }>();
+
+    const runsByJob = new Map<string, JobRun>(
+      (latestRuns.results || []).map((row) => [row.job_name as string, normalizeJobRun(row)])
+    );
+    const locksByJob = new Map((locks.results || []).map((row) => [row.job_name, Number(row.locked_until)]));
+
+    const jobs: ScheduledJobInfo[] = SCHEDULED_JOBS.map((job) => ({
+      name: job.name,
+      schedule: job.schedule,
+      locked_until: locksByJob.get(job.name) ?? null,
+      last_run: runsByJob.get(job.name) || null,
+    }));
+
+    return c.json<GetScheduledJobsResponse>({ jobs });
+  } catch (err) {
+    console.error("Error fetching scheduled jobs:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * GET /api/v1/admin/jobs/runs - Run history, newest first (admin only)
+ * Query params:
+ *   - job: (optional) Job name, e.g. forum.hot_scores
+ *   - status: (optional) running, succeeded, failed or skipped
+ *   - limit: (optional) Runs per page (default 50, max 100)
+ *   - offset: (optional) Pagination offset (default 0)
+ */
+app.get("/api/v1/admin/jobs/runs", requireAuth, requireAdmin, async (c) => {
+  const db = c.env.platform_db;
+  const job = c.req.query("job");
+  const status = c.req.query("status");
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), MAX_JOB_RUNS_PAGE_SIZE);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  if (job && !isScheduledJobName(job)) {
+    return c.json({ error: "Invalid job" }, 400);
+  }
+
+  if (status && !isJobRunStatus(status)) {
+    return c.json({ error: "Invalid status" }, 400);
+  }
+
+  try {
+    const conditions: string[] = [];
+    const bindings: string[] = [];
+    if (job) {
+      conditions.push("r.job_name = ?");
+      bindings.push(job);
+    }
+    if (status) {
+      conditions.push("r.status = ?");
+      bindings.push(status);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const countResult = await db
+      .prepare(`SELECT COUNT(*) as count FROM scheduled_job_runs r ${whereClause}`)
+      .bind(...bindings)
+      .first<{ count: number }>();
+
+    const result = await db
+      .prepare(`
+        SELECT r.*, u.name as triggered_by_name
+        FROM scheduled_job_runs r
+        LEFT JOIN users u ON u.id = r.triggered_by
+        ${whereClause}
+        ORDER BY r.started_at DESC, r.id DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(...bindings, limit, offset)
+      .all<Record<string, unknown>>();
+
+    return c.json<GetJobRunsResponse>({
+      runs: (result.results || []).map(normalizeJobRun),
+      total: countResult?.count || 0,
+    });
+  } catch (err) {
+    console.error("Error fetching job runs:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/v1/admin/jobs/:name/run - Run a job now instead of waiting for its trigger (admin only)
+ * Returns 409 when a run of the job is already in progress
+ */
+app.post("/api/v1/admin/jobs/:name/run", requireAuth, requireAdmin, async (c) => {
+  const user = c.get("user") as AuthPayload;
+  const job = SCHEDULED_JOBS.find((item) => item.name === c.req.param("name"));
+
+  if (!job) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+
+  try {
+    const run = await runJob(job, c.env, c.env.platform_db, {
+      trigger: JobTrigger.Manual,
+      triggeredBy: user.userId,
+    });
+
+    if (run.status === JobRunStatus.Skipped) {
+      return c.json({ error: "This job is already running" }, 409);
+    }
+
+    return c.json<RunJobResponse>({ run });
+  } catch (err) {
+    console.error("Error running scheduled job:", err);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // ============================================================================
 // Legacy Route (kept for backward compatibility)
 // ============================================================================
 
 app.get("/api/", (c) => c.json({ name: "Cloudflare" }));
 
-export default app;
+export default {
+  fetch: app.fetch,
+  /**
+   * Cron triggers: run the jobs scheduled on the expression that fired
+   */
+  scheduled(controller, env, ctx) {
+    ctx.waitUntil(runScheduledJobs(SCHEDULED_JOBS, controller.cron, env, env.platform_db));
+  },
+} satisfies ExportedHandler<Env>;
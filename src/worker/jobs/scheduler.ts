@@ -0,0 +1,140 @@
+/**
+ * Scheduled job runner
+ * The worker's `scheduled` handler passes the firing cron expression; every registered job with
+ * that schedule runs once, under a per-job lock, and leaves a row in scheduled_job_runs
+ */
+
+import { JobRunStatus, JobTrigger } from '../../types/job';
+import type { JobRun, ScheduledJobName } from '../../types/job';
+import { generateJobRunId } from '../utils/idGenerator';
+
+export interface ScheduledJob<E> {
+  readonly name: ScheduledJobName;
+  /** Cron expression of the trigger in wrangler.json that runs the job */
+  readonly schedule: string;
+  /** How long a run may hold the lock before another run can take it over */
+  readonly lockSeconds?: number;
+  /** Do the work; resolves to the number of rows updated or deleted */
+  run(env: E): Promise<number>;
+}
+
+export interface RunJobOptions {
+  trigger: JobTrigger;
+  triggeredBy?: string | null;
+}
+
+// A cron invocation can run for at most 15 minutes
+export const DEFAULT_JOB_LOCK_SECONDS = 15 * 60;
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Take a job's lock unless a run that hasn't expired holds it
+ * @returns true when this run got the lock
+ */
+export async function acquireJobLock(
+  db: D1Database,
+  jobName: ScheduledJobName,
+  runId: string,
+  lockSeconds: number
+): Promise<boolean> {
+  const now = nowInSeconds();
+  const result = await db
+    .prepare(`
+      INSERT INTO scheduled_job_locks (job_name, run_id, locked_until)
+      VALUES (?, ?, ?)
+      ON CONFLICT(job_name) DO UPDATE SET run_id = excluded.run_id, locked_until = excluded.locked_until
+      WHERE scheduled_job_locks.locked_until <= ?
+    `)
+    .bind(jobName, runId, now + lockSeconds, now)
+    .run();
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * Release a job's lock if this run still holds it
+ */
+export async function releaseJobLock(db: D1Database, jobName: ScheduledJobName, runId: string): Promise<void> {
+  await db
+    .prepare('DELETE FROM scheduled_job_locks WHERE job_name = ? AND run_id = ?')
+    .bind(jobName, runId)
+    .run();
+}
+
+/**
+ * Run one job under its lock and record the run
+ * A failing job is recorded as failed rather than thrown, so the other jobs of a trigger still run
+ */
+export async function runJob<E>(
+  job: ScheduledJob<E>,
+  env: E,
+  db: D1Database,
+  options: RunJobOptions
+): Promise<JobRun> {
+  const run: JobRun = {
+    id: generateJobRunId(),
+    job_name: job.name,
+    trigger: options.trigger,
+    triggered_by: options.triggeredBy || null,
+    status: JobRunStatus.Running,
+    processed_count: 0,
+    error: null,
+    started_at: nowInSeconds(),
+    finished_at: null,
+  };
+
+  const locked = await acquireJobLock(db, job.name, run.id, job.lockSeconds || DEFAULT_JOB_LOCK_SECONDS);
+  if (!locked) {
+    run.status = JobRunStatus.Skipped;
+    run.finished_at = run.started_at;
+  }
+
+  await db
+    .prepare(`
+      INSERT INTO scheduled_job_runs (id, job_name, trigger, triggered_by, status, processed_count, error, started_at, finished_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .bind(run.id, run.job_name, run.trigger, run.triggered_by, run.status, 0, null, run.started_at, run.finished_at)
+    .run();
+
+  if (!locked) {
+    return run;
+  }
+
+  try {
+    run.processed_count = await job.run(env);
+    run.status = JobRunStatus.Succeeded;
+  } catch (err) {
+    console.error(`Error running scheduled job ${job.name}:`, err);
+    run.status = JobRunStatus.Failed;
+    run.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    await releaseJobLock(db, job.name, run.id);
+  }
+
+  run.finished_at = nowInSeconds();
+  await db
+    .prepare('UPDATE scheduled_job_runs SET status = ?, processed_count = ?, error = ?, finished_at = ? WHERE id = ?')
+    .bind(run.status, run.processed_count, run.error, run.finished_at, run.id)
+    .run();
+
+  return run;
+}
+
+/**
+ * Run every job scheduled on a cron trigger, one after another
+ */
+export async function runScheduledJobs<E>(
+  jobs: ScheduledJob<E>[],
+  cron: string,
+  env: E,
+  db: D1Database
+): Promise<JobRun[]> {
+  const runs: JobRun[] = [];
+  for (const job of jobs.filter((item) => item.schedule === cron)) {
+    runs.push(await runJob(job, env, db, { trigger: JobTrigger.Cron }));
+  }
+  return runs;
+}
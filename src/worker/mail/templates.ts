@@ -0,0 +1,192 @@
+/**
+ * Localized email templates
+ * Strings come from the frontend translation files, so notification wording stays
+ * identical between the bell menu and emails (notifications.types.<type>, emails.*)
+ */
+
+import en from '../../react-app/i18n/locales/en/translation.json';
+import zhCN from '../../react-app/i18n/locales/zh-CN/translation.json';
+import type { Notification, EmailLocale } from '../../types/notification';
+import { isEmailLocale, DEFAULT_EMAIL_LOCALE } from '../../types/notification';
+import type { MailMessage } from './transport';
+
+type TranslationTree = Record<string, unknown>;
+
+const translations: Record<EmailLocale, TranslationTree> = {
+  en,
+  'zh-CN': zhCN,
+};
+
+// Base URL for links in emails when APP_URL is not configured
+export const DEFAULT_APP_URL = 'https://leadfwd.org';
+
+// Page where users manage their email preferences
+const PREFERENCES_PATH = '/profile/edit';
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function lookup(tree: TranslationTree, key: string): string | null {
+  let node: unknown = tree;
+  for (const part of key.split('.')) {
+    if (!node || typeof node !== 'object') {
+      return null;
+    }
+    node = (node as TranslationTree)[part];
+  }
+  return typeof node === 'string' ? node : null;
+}
+
+/**
+ * Translate a key with i18next-style {{value}} interpolation
+ * Supports the _one/_other plural suffixes when a count is given, and falls back to English
+ */
+export function translate(locale: string, key: string, values: Record<string, string | number> = {}): string {
+  const candidates = values.count === undefined ? [key] : [`${key}_${values.count === 1 ? 'one' : 'other'}`, key];
+  const trees = [translations[isEmailLocale(locale) ? locale : DEFAULT_EMAIL_LOCALE], translations.en];
+
+  for (const tree of trees) {
+    for (const candidate of candidates) {
+      const template = lookup(tree, candidate);
+      if (template !== null) {
+        return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+          values[name] === undefined ? '' : String(values[name])
+        );
+      }
+    }
+  }
+  return key;
+}
+
+/**
+ * Wrap email body paragraphs with the shared greeting and preferences footer
+ */
+function renderLayout(
+  locale: string,
+  recipientName: string,
+  subject: string,
+  lines: { text: string; url: string | null }[],
+  appUrl: string
+): Omit<MailMessage, 'to'> {
+  const greeting = translate(locale, 'emails.greeting', { name: recipientName });
+  const footer = translate(locale, 'emails.footer');
+  const preferencesUrl = `${appUrl}${PREFERENCES_PATH}`;
+  const preferencesLabel = translate(locale, 'emails.managePreferences');
+
+  const text = [
+    greeting,
+    '',
+    ...lines.map((line) => (line.url ? `- ${line.text}\n  ${line.url}` : `- ${line.text}`)),
+    '',
+    '--',
+    footer,
+    `${preferencesLabel}: ${preferencesUrl}`,
+  ].join('\n');
+
+  const items = lines
+    .map((line) =>
+      line.url
+        ? `<li><a href="${escapeHtml(line.url)}">${escapeHtml(line.text)}</a></li>`
+        : `<li>${escapeHtml(line.text)}</li>`
+    )
+    .join('');
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(locale)}"><body style="font-family: sans-serif; line-height: 1.5;">`,
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<ul>${items}</ul>`,
+    `<hr><p style="color: #666; font-size: 12px;">${escapeHtml(footer)} <a href="${escapeHtml(preferencesUrl)}">${escapeHtml(preferencesLabel)}</a></p>`,
+    '</body></html>',
+  ].join('\n');
+
+  return { subject, text, html };
+}
+
+/**
+ * Build the absolute URL of a notification link
+ */
+function notificationUrl(notification: Notification, appUrl: string): string | null {
+  return notification.link ? `${appUrl}${notification.link}` : null;
+}
+
+/**
+ * Render the email for a single notification
+ */
+export function renderNotificationEmail(
+  notification: Notification,
+  recipient: { email: string; name: string; locale: string },
+  appUrl: string
+): MailMessage {
+  const subject = translate(recipient.locale, `emails.subjects.${notification.type}`, notification.data);
+  const message = renderLayout(
+    recipient.locale,
+    recipient.name,
+    subject,
+    [{ text: translate(recipient.locale, `notifications.types.${notification.type}`, notification.data), url: notificationUrl(notification, appUrl) }],
+    appUrl
+  );
+  return { ...message, to: recipient.email };
+}
+
+/**
+ * Render the daily digest for a batch of notifications (newest first)
+ */
+export function renderDigestEmail(
+  notifications: Notification[],
+  recipient: { email: string; name: string; locale: string },
+  appUrl: string
+): MailMessage {
+  const subject = translate(recipient.locale, 'emails.digestSubject', { count: notifications.length });
+  const message = renderLayout(
+    recipient.locale,
+    recipient.name,
+    subject,
+    notifications.map((notification) => ({
+      text: translate(recipient.locale, `notifications.types.${notification.type}`, notification.data),
+      url: notificationUrl(notification, appUrl),
+    })),
+    appUrl
+  );
+  return { ...message, to: recipient.email };
+}
+
+/**
+ * Render the email telling someone their waitlist entry was approved
+ * Sent to people without an account, so it has no preferences link
+ */
+export function renderWaitlistApprovedEmail(
+  recipient: { email: string; name: string; locale: string },
+  appUrl: string
+): MailMessage {
+  const { locale } = recipient;
+  const subject = translate(locale, 'emails.waitlistApproved.subject');
+  const greeting = translate(locale, 'emails.greeting', { name: recipient.name });
+  const body = translate(locale, 'emails.waitlistApproved.body', { email: recipient.email });
+  const signInLabel = translate(locale, 'emails.waitlistApproved.signIn');
+  const footer = translate(locale, 'emails.waitlistApproved.footer');
+  const signInUrl = `${appUrl}/login`;
+
+  const text = [greeting, '', body, '', `${signInLabel}: ${signInUrl}`, '', '--', footer].join('\n');
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(locale)}"><body style="font-family: sans-serif; line-height: 1.5;">`,
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(body)}</p>`,
+    `<p><a href="${escapeHtml(signInUrl)}">${escapeHtml(signInLabel)}</a></p>`,
+    `<hr><p style="color: #666; font-size: 12px;">${escapeHtml(footer)}</p>`,
+    '</body></html>',
+  ].join('\n');
+
+  return { to: recipient.email, subject, text, html };
+}
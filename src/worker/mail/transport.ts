@@ -0,0 +1,121 @@
+/**
+ * Pluggable mail transports
+ * The worker sends email through whatever MailTransport is bound as env.MAILER;
+ * without one it falls back to an HTTP mail API (when configured), a local in-memory outbox
+ * (when MAIL_DEV_OUTBOX is "true") or skips sending
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Environment values used to pick a transport
+ */
+export interface MailEnv {
+  MAILER?: MailTransport;
+  MAIL_API_URL?: string;
+  MAIL_API_KEY?: string;
+  MAIL_FROM?: string;
+  MAIL_DEV_OUTBOX?: string;
+}
+
+export const DEFAULT_MAIL_FROM = 'Lead Forward <no-reply@leadfwd.org>';
+
+/**
+ * Keeps sent messages in memory instead of delivering them
+ * Used by tests and explicitly enabled local development only, since it retains (and can log)
+ * recipients and contents
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly outbox: MailMessage[] = [];
+
+  constructor(private readonly logMessages = false) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+    if (this.logMessages) {
+      console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+    }
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+/**
+ * Sends messages through a JSON email API (Resend-compatible request body)
+ */
+export class HttpMailTransport implements MailTransport {
+  constructor(
+    private readonly apiUrl: string,
+    private readonly apiKey: string,
+    private readonly from: string = DEFAULT_MAIL_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail API responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Drops messages when no transport is configured
+ * Warns once so the logs explain why no email arrives, without logging or keeping the messages
+ */
+export class UnconfiguredMailTransport implements MailTransport {
+  private warned = false;
+
+  async send(): Promise<void> {
+    if (!this.warned) {
+      this.warned = true;
+      console.warn('[mail] No mail transport configured (MAIL_API_URL and MAIL_API_KEY); emails are not sent');
+    }
+  }
+}
+
+// Shared outbox for local development, only used when MAIL_DEV_OUTBOX is "true"
+const localOutbox = new InMemoryMailTransport(true);
+const unconfigured = new UnconfiguredMailTransport();
+
+/**
+ * Pick the transport for the current environment
+ * Priority: env.MAILER binding, then the HTTP mail API, then the local outbox when enabled,
+ * otherwise skip sending
+ */
+export function resolveMailTransport(env: MailEnv): MailTransport {
+  if (env.MAILER) {
+    return env.MAILER;
+  }
+  if (env.MAIL_API_URL && env.MAIL_API_KEY) {
+    return new HttpMailTransport(env.MAIL_API_URL, env.MAIL_API_KEY, env.MAIL_FROM || DEFAULT_MAIL_FROM);
+  }
+  if (env.MAIL_DEV_OUTBOX === 'true') {
+    return localOutbox;
+  }
+  return unconfigured;
+}
@@ -0,0 +1,10 @@
+/**
+ * Hash a secret token for storage as a hex SHA-256 digest
+ * Tokens handed to users (refresh tokens, calendar feed tokens) are stored only as their hash
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
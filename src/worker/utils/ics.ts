@@ -0,0 +1,278 @@
+/**
+ * Minimal iCalendar (RFC 5545) builder
+ * Produces VCALENDAR documents that calendar apps can import or subscribe to. VEVENTs are in
+ * UTC unless they name a time zone, in which case they use local time and the calendar
+ * carries a VTIMEZONE describing that zone's offsets over the events' dates.
+ */
+
+import { isValidTimezone } from '../../types/availability';
+
+export interface IcsEvent {
+  uid: string;
+  start: number; // Unix timestamp (seconds)
+  end: number; // Unix timestamp (seconds)
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  lastModified?: number; // Unix timestamp (seconds)
+  timeZone?: string | null; // IANA time zone the event is held in
+}
+
+export interface IcsCalendarOptions {
+  name?: string;
+  prodId?: string;
+  refreshInterval?: string; // How often subscribers should refetch, as an ISO 8601 duration, e.g. PT1H
+}
+
+interface TimeZoneTransition {
+  at: number; // Unix timestamp (seconds) of the first second with the new offset
+  offsetFrom: number; // Minutes east of UTC
+  offsetTo: number; // Minutes east of UTC
+}
+
+const DEFAULT_PROD_ID = '-//Lead Forward Platform//EN';
+const MAX_LINE_OCTETS = 75;
+// Offset changes are at least this far apart, so sampling at this step finds all of them
+const TRANSITION_SCAN_STEP_SECONDS = 7 * 24 * 60 * 60;
+
+// Formatters are costly to create and a transition scan formats many dates
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Format a Unix timestamp (seconds) as an iCalendar UTC date-time, e.g. 20250115T120000Z
+ */
+export function formatIcsDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Get a time zone's offset from UTC at an instant
+ * @returns Minutes east of UTC, e.g. -420 for Pacific Daylight Time
+ */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(timestamp * 1000));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) / 1000;
+
+  return Math.round((local - timestamp) / 60);
+}
+
+/**
+ * Format a Unix timestamp (seconds) as an iCalendar local date-time in a time zone, e.g. 20250115T040000
+ */
+export function formatIcsLocalDate(timestamp: number, timeZone: string): string {
+  return formatIcsDate(timestamp + getTimeZoneOffset(timestamp, timeZone) * 60).slice(0, -1);
+}
+
+/**
+ * Format a UTC offset in minutes as an iCalendar UTC-OFFSET, e.g. -0700
+ */
+function formatIcsOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Get a time zone's abbreviation at an instant, e.g. PDT or GMT+8
+ */
+function getTimeZoneName(timestamp: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(timestamp * 1000));
+  return parts.find((p) => p.type === 'timeZoneName')?.value || timeZone;
+}
+
+/**
+ * Find the instants a time zone changes its UTC offset between two timestamps
+ */
+function findTimeZoneTransitions(timeZone: string, from: number, to: number): TimeZoneTransition[] {
+  const transitions: TimeZoneTransition[] = [];
+  let previous = from;
+  let previousOffset = getTimeZoneOffset(from, timeZone);
+
+  while (previous < to) {
+    const next = Math.min(previous + TRANSITION_SCAN_STEP_SECONDS, to);
+    const nextOffset = getTimeZoneOffset(next, timeZone);
+
+    if (nextOffset !== previousOffset) {
+      // Narrow down to the first second with the new offset
+      let low = previous;
+      let high = next;
+      while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2);
+        if (getTimeZoneOffset(middle, timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: high, offsetFrom: previousOffset, offsetTo: nextOffset });
+    }
+
+    previous = next;
+    previousOffset = nextOffset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Build the VTIMEZONE lines for a time zone, covering the offsets in effect between two timestamps
+ * Each offset change is its own observance, so no recurrence rules are needed.
+ */
+function buildVTimezone(timeZone: string, from: number, to: number): string[] {
+  const transitions = findTimeZoneTransitions(timeZone, from, to);
+  const initialOffset = getTimeZoneOffset(from, timeZone);
+  // The offset in effect at the first event, as if the zone had switched to it then
+  const observances: TimeZoneTransition[] = [
+    { at: from, offsetFrom: initialOffset, offsetTo: initialOffset },
+    ...transitions,
+  ];
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  observances.forEach((observance, index) => {
+    // Daylight saving moves clocks forward; the first observance is compared with the change after it
+    const isDaylight =
+      index === 0
+        ? transitions.length > 0 && transitions[0].offsetTo < initialOffset
+        : observance.offsetTo > observance.offsetFrom;
+    const component = isDaylight ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${component}`,
+      // Observances start at the local time of the offset being switched from
+      `DTSTART:${formatIcsDate(observance.at + observance.offsetFrom * 60).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatIcsOffset(observance.offsetFrom)}`,
+      `TZOFFSETTO:${formatIcsOffset(observance.offsetTo)}`,
+      `TZNAME:${escapeIcsText(getTimeZoneName(observance.at, timeZone))}`,
+      `END:${component}`
+    );
+  });
+  lines.push('END:VTIMEZONE');
+
+  return lines;
+}
+
+/**
+ * Escape a TEXT property value (backslashes, semicolons, commas and newlines)
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets
+ * Continuation lines start with a single space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build a VCALENDAR document containing the given events
+ */
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}): string {
+  const now = formatIcsDate(Math.floor(Date.now() / 1000));
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.prodId || DEFAULT_PROD_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  }
+  if (options.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`, `X-PUBLISHED-TTL:${options.refreshInterval}`);
+  }
+
+  // Time zones in use, with the span of the events held in each; unknown zones fall back to UTC
+  const timeZones = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    if (!event.timeZone || !isValidTimezone(event.timeZone)) continue;
+    const span = timeZones.get(event.timeZone);
+    timeZones.set(event.timeZone, {
+      from: Math.min(span?.from ?? event.start, event.start),
+      to: Math.max(span?.to ?? event.end, event.end),
+    });
+  }
+  for (const [timeZone, span] of timeZones) {
+    lines.push(...buildVTimezone(timeZone, span.from, span.to));
+  }
+
+  for (const event of events) {
+    const timeZone = event.timeZone && timeZones.has(event.timeZone) ? event.timeZone : null;
+    const formatDate = (timestamp: number) =>
+      timeZone ? `;TZID=${timeZone}:${formatIcsLocalDate(timestamp, timeZone)}` : `:${formatIcsDate(timestamp)}`;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART${formatDate(event.start)}`,
+      `DTEND${formatDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
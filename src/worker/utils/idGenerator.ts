@@ -1,4 +1,4 @@
-import { nanoid } from 'nanoid';
+import { nanoid, customAlphabet } from 'nanoid';
 
 /**
  * Generate a short, URL-safe ID using nanoid
@@ -72,3 +72,174 @@ export const generateChallengeParticipantId = (): string => {
 export const generateChallengeSubmissionId = (): string => {
   return generateId();
 };
+
+/**
+ * Generate a unique match session ID
+ * Example: "xT9m4pQ7nR"
+ */
+export const generateMatchSessionId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique mentor review ID
+ * Example: "c3V8kL2wQa"
+ */
+export const generateMentorReviewId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique notification ID
+ * Example: "n4B7yT1pXe"
+ */
+export const generateNotificationId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique match message ID
+ * Example: "m8Q2wE5rTy"
+ */
+export const generateMatchMessageId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique content report ID
+ * Example: "r5K9dS3vLw"
+ */
+export const generateReportId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique moderation action ID
+ * Example: "a7J2nH6cZq"
+ */
+export const generateModerationActionId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique admin audit log entry ID
+ * Example: "l3V8bN1mQs"
+ */
+export const generateAuditLogId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique leaderboard snapshot ID
+ * Example: "s4T6kM9pRx"
+ */
+export const generateLeaderboardSnapshotId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique reward ID
+ * Example: "w8D3fK5nTy"
+ */
+export const generateRewardId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique reward redemption ID
+ * Example: "e2H7qB4vLc"
+ */
+export const generateRedemptionId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique invite code ID
+ * Example: "p5R8tN2wXc"
+ */
+export const generateInviteCodeId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique waitlist entry ID
+ * Example: "j3V6mY9bQs"
+ */
+export const generateWaitlistEntryId = (): string => {
+  return generateId();
+};
+
+// Invite codes are typed in by hand, so they skip look-alike characters (0/O, 1/I/L)
+const generateInviteCodeValue = customAlphabet('23456789ABCDEFGHJKMNPQRSTUVWXYZ', 8);
+
+/**
+ * Generate the code people enter to register with an invite
+ * Example: "K7QM3XPA"
+ */
+export const generateInviteCode = (): string => {
+  return generateInviteCodeValue();
+};
+
+/**
+ * Generate a unique sign-in session ID
+ * Example: "w4L9nH2cTz"
+ */
+export const generateUserSessionId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a refresh token
+ * Only its hash is stored, so it is long enough that it can't be guessed
+ */
+export const generateRefreshToken = (): string => {
+  return nanoid(48);
+};
+
+/**
+ * Generate a unique linked sign-in identity ID
+ * Example: "Rk3pX8wQ2m"
+ */
+export const generateUserIdentityId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique scheduled job run ID
+ * Example: "Tq7mV2xLp9"
+ */
+export const generateJobRunId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique event ID
+ * Example: "Jb6tN3rWq8"
+ */
+export const generateEventId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique event RSVP ID
+ * Example: "hY5cK9mPz2"
+ */
+export const generateEventRsvpId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a unique forum revision ID
+ * Example: "Wm3kR8tVq1"
+ */
+export const generateForumRevisionId = (): string => {
+  return generateId();
+};
+
+/**
+ * Generate a calendar feed token
+ * It is the only credential of a personal calendar feed and only its hash is stored
+ */
+export const generateCalendarFeedToken = (): string => {
+  return nanoid(40);
+};
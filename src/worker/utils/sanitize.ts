@@ -111,6 +111,33 @@ export function normalizeContent(content: string): string {
     .join('\n');
 }
 
+/**
+ * Converts HTML content to plain text for indexing and previews
+ * Tags become whitespace so words in adjacent blocks do not run together
+ *
+ * @param html - Sanitized HTML content
+ * @returns Plain text with common entities decoded and whitespace collapsed
+ */
+export function stripHtml(html: string): string {
+  if (!html) return '';
+
+  const entities: Record<string, string> = {
+    '&nbsp;': ' ',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#039;': "'",
+    '&#39;': "'",
+    '&amp;': '&',
+  };
+
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(nbsp|lt|gt|quot|#0?39|amp);/g, (entity) => entities[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
 /**
  * Escapes HTML special characters in plain text
  * Prevents content from being interpreted as HTML tags
@@ -118,7 +145,7 @@ export function normalizeContent(content: string): string {
  * @param text - Plain text to escape
  * @returns Escaped HTML
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
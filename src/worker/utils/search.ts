@@ -0,0 +1,96 @@
+/**
+ * Helpers for full-text search over the search_index FTS5 table
+ * Builds MATCH expressions from user input and renders highlighted snippets
+ */
+
+import { MIN_FTS_TERM_LENGTH } from '../../types/search';
+import { escapeHtml } from './sanitize';
+
+const MAX_SEARCH_TERMS = 10;
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+/**
+ * Split a search query into distinct, case-insensitive terms
+ * Double quotes are dropped since every term is already matched as a phrase
+ */
+export function parseSearchTerms(query: string): string[] {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+
+  for (const raw of query.replace(/"/g, ' ').split(/\s+/)) {
+    const term = raw.trim();
+    const key = term.toLowerCase();
+    if (!term || seen.has(key)) continue;
+    seen.add(key);
+    terms.push(term);
+    if (terms.length === MAX_SEARCH_TERMS) break;
+  }
+
+  return terms;
+}
+
+/**
+ * Build an FTS5 MATCH expression requiring every term long enough for the trigram tokenizer
+ * Returns null when all terms are too short, in which case callers fall back to LIKE
+ */
+export function buildFtsMatchExpression(terms: string[]): string | null {
+  const phrases = terms
+    .filter((term) => [...term].length >= MIN_FTS_TERM_LENGTH)
+    .map((term) => `"${term.replace(/"/g, '""')}"`);
+
+  return phrases.length > 0 ? phrases.join(' ') : null;
+}
+
+/**
+ * Terms the trigram index cannot match on its own
+ */
+export function getShortSearchTerms(terms: string[]): string[] {
+  return terms.filter((term) => [...term].length < MIN_FTS_TERM_LENGTH);
+}
+
+/**
+ * Build a LIKE pattern matching the term anywhere, for use with ESCAPE '\'
+ */
+export function toLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function buildTermsRegex(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(${alternatives.join('|')})`, 'gi');
+}
+
+/**
+ * Escape plain text and wrap every occurrence of the terms in <mark>
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+  const regex = buildTermsRegex(terms);
+  if (!regex) return escapeHtml(text);
+
+  return text
+    .split(regex)
+    .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('');
+}
+
+/**
+ * Cut a window of plain text around the first matched term and highlight it
+ */
+export function buildSearchSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term.toLowerCase()))
+    .filter((position) => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = text.length <= SNIPPET_LENGTH ? 0 : Math.max(0, Math.min(first - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return `${prefix}${highlightTerms(text.slice(start, end), terms)}${suffix}`;
+}